@@ -162,9 +162,7 @@ describe('App', () => {
       })
     })
 
-    // Désactivé tant que FEATURES.clockIn = false (v1).
-    // Réactiver quand le flag passe à true (cf. docs/QR_CLOCKIN_IMPLEMENTATION.md).
-    it.skip('affiche /suivi-des-heures pour un employé', async () => {
+    it('affiche /suivi-des-heures pour un employé', async () => {
       mockUseAuth.mockReturnValue({
         isAuthenticated: true,
         isLoading: false,
@@ -9,6 +9,7 @@ import { AnalyticsSummaryCards } from './AnalyticsSummaryCards'
 import { MonthlyChart } from './MonthlyChart'
 import { AuxiliaryBreakdownWidget } from './AuxiliaryBreakdownWidget'
 import { PresenceRateWidget } from './PresenceRateWidget'
+import { TaskCompletionWidget } from './TaskCompletionWidget'
 import { logger } from '@/lib/logger'
 
 interface AnalyticsDashboardProps {
@@ -162,6 +163,10 @@ export function AnalyticsDashboard({ profileId, role, employerId }: AnalyticsDas
           <PresenceRateWidget data={data.presenceRates} />
         </GridItem>
       </Grid>
+
+      {role === 'employer' && (
+        <TaskCompletionWidget data={data.taskCompletion} />
+      )}
     </Stack>
   )
 }
@@ -0,0 +1,77 @@
+import { Box, Flex, Text, Stack } from '@chakra-ui/react'
+import type { AuxiliaryTaskCompletion } from '@/services/analyticsService'
+
+interface TaskCompletionWidgetProps {
+  data: AuxiliaryTaskCompletion[]
+}
+
+function rateColor(rate: number): string {
+  if (rate >= 90) return 'green.500'
+  if (rate >= 70) return 'orange.400'
+  return 'red.500'
+}
+
+export function TaskCompletionWidget({ data }: TaskCompletionWidgetProps) {
+  return (
+    <Box
+      bg="bg.surface"
+      borderRadius="12px"
+      borderWidth="1px"
+      borderColor="border.default"
+      p={6}
+      boxShadow="sm"
+    >
+      <Box mb={4}>
+        <Text fontSize="lg" fontWeight="semibold" color="text.default">
+          Réalisation des tâches
+        </Text>
+        <Text fontSize="sm" color="text.muted">
+          Interventions terminées de la période
+        </Text>
+      </Box>
+
+      {data.length === 0 ? (
+        <Text fontSize="sm" color="text.muted" textAlign="center" py={4}>
+          Aucune check-list renseignée sur la période
+        </Text>
+      ) : (
+        <Stack gap={0} divideY="1px" divideColor="border.default">
+          {data.map((aux) => (
+            <Box key={aux.contractId} py={3}>
+              <Flex justify="space-between" align="center" mb={2}>
+                <Box>
+                  <Text fontSize="sm" fontWeight="medium" color="text.default">
+                    {aux.employeeName}
+                  </Text>
+                  <Text fontSize="xs" color="text.muted">
+                    {aux.done} faite{aux.done > 1 ? 's' : ''} · {aux.notDone} non faite{aux.notDone > 1 ? 's' : ''}
+                    {aux.pending > 0 && ` · ${aux.pending} non renseignée${aux.pending > 1 ? 's' : ''}`}
+                    {' '}sur {aux.shiftsCount} intervention{aux.shiftsCount > 1 ? 's' : ''}
+                  </Text>
+                </Box>
+                <Text fontSize="sm" fontWeight="bold" color={rateColor(aux.rate)}>
+                  {aux.rate}%
+                </Text>
+              </Flex>
+              <Box
+                h="6px"
+                bg="bg.surface.hover"
+                borderRadius="full"
+                overflow="hidden"
+                role="img"
+                aria-label={`${aux.rate}% des tâches prévues faites`}
+              >
+                <Box h="100%" w={`${aux.rate}%`} bg={rateColor(aux.rate)} borderRadius="full" />
+              </Box>
+              {aux.reasons.length > 0 && (
+                <Text fontSize="xs" color="text.muted" mt={2}>
+                  Motifs : {aux.reasons.slice(0, 3).map((r) => `${r.reason} (${r.count})`).join(', ')}
+                </Text>
+              )}
+            </Box>
+          ))}
+        </Stack>
+      )}
+    </Box>
+  )
+}
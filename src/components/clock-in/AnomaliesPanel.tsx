@@ -1,5 +1,6 @@
 import { useMemo } from 'react'
 import { Box, Stack, Flex, Text } from '@chakra-ui/react'
+import { format, differenceInMinutes } from 'date-fns'
 import { calculateShiftDuration } from '@/lib/compliance'
 import type { Shift } from '@/types'
 
@@ -9,6 +10,9 @@ interface Anomaly {
   message: string
 }
 
+// Délai au-delà duquel un scan synchronisé après coup est signalé
+const LATE_SYNC_THRESHOLD_MINUTES = 30
+
 interface AnomaliesPanelProps {
   todayShifts: Shift[]
   historyShifts: Shift[]
@@ -44,6 +48,32 @@ export function AnomaliesPanel({ todayShifts, historyShifts }: AnomaliesPanelPro
           message: "Fin d'heure identique au début",
         })
       }
+
+      const label = `${shift.employeeName ? `${shift.employeeName} · ` : ''}${format(new Date(shift.date), 'dd/MM')}`
+
+      // Pointage sans badge : heures déclarées, non attestées par un scan
+      if (shift.clockInMethod === 'manual' || shift.clockOutMethod === 'manual') {
+        result.push({
+          id: `manual-clock-${shift.id}`,
+          severity: 'info',
+          message: `${label} : pointage manuel, sans scan du badge`,
+        })
+      }
+
+      // Scan fait hors ligne et transmis tardivement (synchronisé avant la fin : c'était le début)
+      const syncedScanAt = shift.clockedOutAt && shift.clockSyncedAt && shift.clockSyncedAt >= shift.clockedOutAt
+        ? shift.clockedOutAt
+        : shift.clockedInAt
+      if (shift.clockSyncedAt && syncedScanAt) {
+        const delayMin = differenceInMinutes(shift.clockSyncedAt, syncedScanAt)
+        if (delayMin > LATE_SYNC_THRESHOLD_MINUTES) {
+          result.push({
+            id: `late-sync-${shift.id}`,
+            severity: 'info',
+            message: `${label} : pointage synchronisé ${Math.floor(delayMin / 60)}h${String(delayMin % 60).padStart(2, '0')} après le scan`,
+          })
+        }
+      }
     }
 
     // Shift planned non pointé (passé)
@@ -0,0 +1,105 @@
+import { useState } from 'react'
+import { Box, Stack, Flex, Text, Button } from '@chakra-ui/react'
+import { getClockInBadgePayload, rotateClockInBadge } from '@/services/clockInService'
+import { generateClockInBadgePdf, downloadExport } from '@/lib/export'
+import { logger } from '@/lib/logger'
+import { toaster } from '@/lib/toaster'
+import type { EmployeeOption } from './ManualEntryForm'
+
+interface ClockInBadgePanelProps {
+  employees: EmployeeOption[]
+  employerName: string
+}
+
+/**
+ * Employeur : badge QR de pointage par contrat, à imprimer et coller au domicile.
+ * Régénérer un badge révoque l'ancien (sticker perdu ou photographié).
+ */
+export function ClockInBadgePanel({ employees, employerName }: ClockInBadgePanelProps) {
+  const [pendingContractId, setPendingContractId] = useState<string | null>(null)
+
+  const printBadge = async (employee: EmployeeOption, rotate: boolean) => {
+    setPendingContractId(employee.contractId)
+    try {
+      const payload = rotate
+        ? await rotateClockInBadge(employee.contractId)
+        : await getClockInBadgePayload(employee.contractId)
+      if (!payload) {
+        toaster.error({ title: 'Impossible de récupérer le badge' })
+        return
+      }
+
+      const result = await generateClockInBadgePdf({
+        payload,
+        employeeName: employee.employeeName,
+        employerName,
+        generatedAt: new Date(),
+      })
+      if (!result.success) {
+        toaster.error({ title: result.error || 'Erreur lors de la génération du badge' })
+        return
+      }
+
+      downloadExport(result)
+      toaster.success({
+        title: rotate ? 'Nouveau badge généré' : 'Badge téléchargé',
+        description: rotate ? "L'ancien badge n'est plus accepté." : undefined,
+      })
+    } catch (err) {
+      logger.error('Erreur badge pointage:', err)
+      toaster.error({ title: 'Erreur lors de la génération du badge' })
+    } finally {
+      setPendingContractId(null)
+    }
+  }
+
+  if (employees.length === 0) return null
+
+  return (
+    <Box
+      bg="bg.surface"
+      borderRadius="md"
+      borderWidth="1px"
+      borderColor="border.default"
+      boxShadow="0 2px 8px rgba(78,100,120,.09)"
+      overflow="hidden"
+    >
+      <Box px={4} py={3} borderBottomWidth="1px" borderColor="border.default">
+        <Text fontFamily="heading" fontSize="md" fontWeight="700">Badges QR</Text>
+      </Box>
+      <Stack p={4} gap={3}>
+        <Text fontSize="xs" color="text.muted">
+          Collez le badge au domicile : l'auxiliaire le scanne en début et en fin d'intervention.
+        </Text>
+        {employees.map((employee) => {
+          const isPending = pendingContractId === employee.contractId
+          return (
+            <Box key={employee.contractId}>
+              <Text fontSize="sm" fontWeight="600" mb={1}>{employee.employeeName}</Text>
+              <Flex gap={2}>
+                <Button
+                  size="xs"
+                  variant="outline"
+                  onClick={() => printBadge(employee, false)}
+                  loading={isPending}
+                  disabled={pendingContractId !== null}
+                >
+                  Imprimer
+                </Button>
+                <Button
+                  size="xs"
+                  variant="ghost"
+                  color="text.muted"
+                  onClick={() => printBadge(employee, true)}
+                  disabled={pendingContractId !== null}
+                >
+                  Régénérer
+                </Button>
+              </Flex>
+            </Box>
+          )
+        })}
+      </Stack>
+    </Box>
+  )
+}
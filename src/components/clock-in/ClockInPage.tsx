@@ -1,7 +1,8 @@
 /**
  * Page de pointage
- * - Employé/aidant : pointer ses interventions
- * - Employeur : consulter, modifier et valider les heures de ses auxiliaires
+ * - Employé/aidant : pointer ses interventions (bouton ou scan du badge QR)
+ * - Employeur : consulter, modifier et valider les heures de ses auxiliaires,
+ *   arbitrer les écarts prévu / réel, imprimer les badges QR de pointage
  */
 
 import { useRef, useCallback, useState, useEffect, useMemo } from 'react'
@@ -25,6 +26,9 @@ import { MonthSummary } from './MonthSummary'
 import { ShiftEditModal } from './ShiftEditModal'
 import { DateNavigator } from './DateNavigator'
 import { RetroactiveEntryForm } from './RetroactiveEntryForm'
+import { QrScannerModal } from './QrScannerModal'
+import { ClockInBadgePanel } from './ClockInBadgePanel'
+import { ReconciliationPanel } from './ReconciliationPanel'
 
 export function ClockInPage() {
   const inProgressRef = useRef<HTMLDivElement>(null)
@@ -35,6 +39,7 @@ export function ClockInPage() {
     step,
     isLoadingShifts,
     isSubmitting,
+    pendingSyncCount,
     todayShifts,
     historyShifts,
     plannedShifts,
@@ -46,10 +51,14 @@ export function ClockInPage() {
     setHasNightAction,
     hasNightHours,
     nightHoursForActive,
+    taskCompletions,
+    setTaskCompletions,
+    isTaskChecklistComplete,
     handleClockIn,
     handleClockOut,
     handleCancel,
     handleRetroactiveValidation,
+    handleQrScan,
     loadAllShifts,
     selectedDate,
     setSelectedDate,
@@ -82,6 +91,14 @@ export function ClockInPage() {
       .catch((err) => logger.error('Erreur chargement auxiliaires:', err))
   }, [profile, isEmployer])
 
+  // Employé : scanner du badge QR
+  const [isScannerOpen, setIsScannerOpen] = useState(false)
+
+  const handleScan = useCallback((raw: string) => {
+    setIsScannerOpen(false)
+    handleQrScan(raw)
+  }, [handleQrScan])
+
   // Employer: modale de modification d'un shift
   const [editingShift, setEditingShift] = useState<Shift | null>(null)
 
@@ -205,6 +222,8 @@ export function ClockInPage() {
               onClockIn={handleClockIn}
               onClockOut={handleClockOut}
               onCancel={handleCancel}
+              onScanBadge={() => setIsScannerOpen(true)}
+              pendingSyncCount={pendingSyncCount}
               containerRef={inProgressRef}
             />
           )}
@@ -265,8 +284,12 @@ export function ClockInPage() {
               hasNightHours={hasNightHours}
               nightHoursForActive={nightHoursForActive}
               hasNightAction={hasNightAction}
+              taskCompletions={taskCompletions}
+              isTaskChecklistComplete={isTaskChecklistComplete}
+              profileId={profile.id}
               isSubmitting={isSubmitting}
               onNightActionChange={setHasNightAction}
+              onTaskCompletionsChange={setTaskCompletions}
               onClockOut={handleClockOut}
               onCancel={handleCancel}
               containerRef={inProgressRef}
@@ -288,6 +311,11 @@ export function ClockInPage() {
             />
           )}
 
+          {/* Employeur : écarts entre planning et pointages du mois */}
+          {isEmployer && (
+            <ReconciliationPanel employerId={profile.id} refreshKey={historyShifts} />
+          )}
+
           {/* Interventions du jour (vue cards — mobile, employé uniquement) */}
           {!isEmployer && step === 'idle' && !isLoadingShifts && (
             <Box display={{ base: 'block', md: 'none' }}>
@@ -322,6 +350,10 @@ export function ClockInPage() {
                 onSubmit={handleManualEntry}
                 employees={employeeOptions}
               />
+              <ClockInBadgePanel
+                employees={employeeOptions}
+                employerName={profileName ?? ''}
+              />
             </>
           ) : (
             <>
@@ -341,6 +373,15 @@ export function ClockInPage() {
         </Stack>
       </Flex>
 
+      {/* Scanner du badge QR */}
+      {isScannerOpen && (
+        <QrScannerModal
+          mode={step === 'idle' ? 'start' : 'end'}
+          onScan={handleScan}
+          onClose={() => setIsScannerOpen(false)}
+        />
+      )}
+
       {/* Modale de modification */}
       {editingShift && (
         <ShiftEditModal
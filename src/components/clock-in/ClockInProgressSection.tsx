@@ -8,8 +8,9 @@ import {
   Switch,
 } from '@chakra-ui/react'
 import { AccessibleButton } from '@/components/ui'
-import { sanitizeText } from '@/lib/sanitize'
-import type { Shift } from '@/types'
+import { TaskChecklist } from '@/components/planning/TaskChecklist'
+import { getChecklistTasks } from '@/lib/shifts/taskChecklist'
+import type { Shift, ShiftTaskCompletion } from '@/types'
 import { formatTime } from './clockInUtils'
 import { formatHoursCompact } from '@/lib/formatHours'
 
@@ -19,8 +20,12 @@ interface ClockInProgressSectionProps {
   hasNightHours: boolean
   nightHoursForActive: number
   hasNightAction: boolean
+  taskCompletions: ShiftTaskCompletion[]
+  isTaskChecklistComplete: boolean
+  profileId: string
   isSubmitting: boolean
   onNightActionChange: (checked: boolean) => void
+  onTaskCompletionsChange: (completions: ShiftTaskCompletion[]) => void
   onClockOut: () => void
   onCancel: () => void
   containerRef: React.RefObject<HTMLDivElement | null>
@@ -32,8 +37,12 @@ export function ClockInProgressSection({
   hasNightHours,
   nightHoursForActive,
   hasNightAction,
+  taskCompletions,
+  isTaskChecklistComplete,
+  profileId,
   isSubmitting,
   onNightActionChange,
+  onTaskCompletionsChange,
   onClockOut,
   onCancel,
   containerRef,
@@ -88,21 +97,20 @@ export function ClockInProgressSection({
           <Badge colorPalette="green" size="lg">{clockInTime}</Badge>
         </Flex>
 
-        {activeShift.tasks.length > 0 && (
+        {getChecklistTasks(activeShift.tasks).length > 0 && (
           <>
             <Separator />
             <Box>
               <Text fontSize="sm" color="text.muted" mb={2}>
                 Tâches prévues
               </Text>
-              <Stack gap={1}>
-                {activeShift.tasks.map((task, i) => (
-                  <Flex key={i} align="center" gap={2}>
-                    <Box w="5px" h="5px" borderRadius="full" bg="blue.400" />
-                    <Text fontSize="sm">{sanitizeText(task)}</Text>
-                  </Flex>
-                ))}
-              </Stack>
+              <TaskChecklist
+                tasks={activeShift.tasks}
+                completions={taskCompletions}
+                authorId={profileId}
+                onChange={onTaskCompletionsChange}
+                disabled={isSubmitting}
+              />
             </Box>
           </>
         )}
@@ -156,12 +164,19 @@ export function ClockInProgressSection({
 
         <Separator />
 
+        {!isTaskChecklistComplete && (
+          <Text fontSize="sm" color="orange.600">
+            Indiquez pour chaque tâche si elle a été faite avant de terminer l'intervention.
+          </Text>
+        )}
+
         <Flex gap={3}>
           <AccessibleButton
             colorPalette="red"
             flex={1}
             onClick={onClockOut}
             loading={isSubmitting}
+            disabled={!isTaskChecklistComplete}
           >
             Terminer l'intervention
           </AccessibleButton>
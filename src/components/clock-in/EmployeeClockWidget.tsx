@@ -13,6 +13,10 @@ interface EmployeeClockWidgetProps {
   onClockIn: (shift: Shift) => void
   onClockOut: () => void
   onCancel: () => void
+  /** Ouvre le scanner du badge QR (début ou fin selon l'état) */
+  onScanBadge?: () => void
+  /** Scans faits hors ligne, pas encore transmis */
+  pendingSyncCount?: number
   containerRef: React.RefObject<HTMLDivElement | null>
 }
 
@@ -63,6 +67,8 @@ export function EmployeeClockWidget({
   onClockIn,
   onClockOut,
   onCancel,
+  onScanBadge,
+  pendingSyncCount = 0,
   containerRef,
 }: EmployeeClockWidgetProps) {
   const noteRef = useRef<HTMLTextAreaElement>(null)
@@ -142,6 +148,19 @@ export function EmployeeClockWidget({
               Démarrer
             </Button>
           )}
+
+          {firstPlannedShift && onScanBadge && (
+            <Button
+              variant="outline"
+              onClick={onScanBadge}
+              borderRadius="full"
+              px={6}
+              fontWeight="700"
+            >
+              <QrIcon />
+              Scanner le badge
+            </Button>
+          )}
         </Flex>
       )}
 
@@ -219,6 +238,20 @@ export function EmployeeClockWidget({
             Terminer
           </Button>
 
+          {onScanBadge && (
+            <Button
+              variant="outline"
+              onClick={onScanBadge}
+              disabled={isSubmitting}
+              borderRadius="full"
+              px={6}
+              fontWeight="700"
+            >
+              <QrIcon />
+              Terminer avec le badge
+            </Button>
+          )}
+
           <Button
             variant="ghost"
             size="sm"
@@ -232,6 +265,18 @@ export function EmployeeClockWidget({
           </Button>
         </Flex>
       )}
+
+      {pendingSyncCount > 0 && (
+        <Text fontSize="xs" color="warm.600" mt={4} role="status">
+          {pendingSyncCount} pointage(s) hors ligne en attente de synchronisation
+        </Text>
+      )}
     </Box>
   )
 }
+
+function QrIcon() {
+  return (
+    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={2} width={18} height={18} aria-hidden="true"><rect x="3" y="3" width="7" height="7"/><rect x="14" y="3" width="7" height="7"/><rect x="3" y="14" width="7" height="7"/><path d="M14 14h3v3h-3zM20 14v.01M14 20h.01M17 20h4v-3"/></svg>
+  )
+}
@@ -2,9 +2,9 @@ import { useMemo } from 'react'
 import { Box, Flex, Text } from '@chakra-ui/react'
 import { format, startOfMonth, endOfMonth } from 'date-fns'
 import { fr } from 'date-fns/locale'
-import { getShiftDurationMinutes } from '@/lib/compliance'
+import { summarizeReconciliation } from '@/lib/shifts/reconciliation'
 import type { Shift } from '@/types'
-import { formatHours } from './clockInUtils'
+import { formatHours, formatDeltaMinutes } from './clockInUtils'
 
 interface MonthSummaryProps {
   todayShifts: Shift[]
@@ -26,17 +26,16 @@ export function MonthSummary({ todayShifts, historyShifts, monthlyGoalHours = 40
       }
     )
 
-    let totalMin = 0
-    for (const s of allShifts) {
-      totalMin += getShiftDurationMinutes(s)
-    }
-
-    const totalHours = totalMin / 60
+    // Réel : heures pointées, heures prévues pour les interventions non pointées
+    const summary = summarizeReconciliation(allShifts)
+    const totalHours = summary.actualMinutes / 60
     const pct = Math.min(Math.round((totalHours / monthlyGoalHours) * 100), 100)
 
     return {
       monthLabel: monthLabel.charAt(0).toUpperCase() + monthLabel.slice(1),
       totalHours,
+      plannedHours: summary.plannedMinutes / 60,
+      deltaMinutes: summary.deltaMinutes,
       shiftCount: allShifts.length,
       pct,
     }
@@ -63,6 +62,19 @@ export function MonthSummary({ todayShifts, historyShifts, monthlyGoalHours = 40
             borderBottomWidth="1px"
             borderColor="border.default"
             css={{ '&:first-of-type': { paddingTop: 0 } }}
+          >
+            <Text fontSize="xs" color="text.muted" fontWeight="500" minW="120px" flexShrink={0}>
+              Heures prévues
+            </Text>
+            <Text fontSize="sm" fontWeight="500">{formatHours(data.plannedHours)}</Text>
+          </Flex>
+
+          <Flex
+            align="baseline"
+            gap={4}
+            py={3}
+            borderBottomWidth="1px"
+            borderColor="border.default"
           >
             <Text fontSize="xs" color="text.muted" fontWeight="500" minW="120px" flexShrink={0}>
               Heures effectuées
@@ -70,6 +82,21 @@ export function MonthSummary({ todayShifts, historyShifts, monthlyGoalHours = 40
             <Text fontSize="sm" fontWeight="700">{formatHours(data.totalHours)}</Text>
           </Flex>
 
+          <Flex
+            align="baseline"
+            gap={4}
+            py={3}
+            borderBottomWidth="1px"
+            borderColor="border.default"
+          >
+            <Text fontSize="xs" color="text.muted" fontWeight="500" minW="120px" flexShrink={0}>
+              Écart
+            </Text>
+            <Text fontSize="sm" fontWeight="700" color={data.deltaMinutes === 0 ? 'text.default' : 'warm.600'}>
+              {formatDeltaMinutes(data.deltaMinutes)}
+            </Text>
+          </Flex>
+
           <Flex
             align="baseline"
             gap={4}
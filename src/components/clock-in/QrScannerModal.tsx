@@ -0,0 +1,120 @@
+import { useEffect, useRef, useState } from 'react'
+import { Box, Text } from '@chakra-ui/react'
+import { GhostButton } from '@/components/ui'
+import { logger } from '@/lib/logger'
+
+interface QrScannerModalProps {
+  /** 'start' ou 'end' : adapte le libellé au pointage attendu */
+  mode: 'start' | 'end'
+  onScan: (raw: string) => void
+  onClose: () => void
+}
+
+const SCANNER_ELEMENT_ID = 'clock-in-qr-scanner'
+
+/**
+ * Scanner du badge de pointage (caméra arrière).
+ * html5-qrcode est chargé à l'ouverture pour ne pas alourdir la page.
+ */
+export function QrScannerModal({ mode, onScan, onClose }: QrScannerModalProps) {
+  const [error, setError] = useState<string | null>(null)
+  const onScanRef = useRef(onScan)
+  onScanRef.current = onScan
+
+  useEffect(() => {
+    let cancelled = false
+    let hasScanned = false
+    let stopScanner: (() => Promise<void>) | null = null
+
+    import('html5-qrcode')
+      .then(async ({ Html5Qrcode }) => {
+        if (cancelled) return
+        const scanner = new Html5Qrcode(SCANNER_ELEMENT_ID)
+        stopScanner = async () => {
+          if (scanner.isScanning) await scanner.stop()
+          scanner.clear()
+        }
+        await scanner.start(
+          { facingMode: 'environment' },
+          { fps: 10, qrbox: 240 },
+          (decodedText) => {
+            // Un seul pointage par ouverture, même si la caméra relit le badge
+            if (hasScanned) return
+            hasScanned = true
+            onScanRef.current(decodedText)
+          },
+          () => {}
+        )
+        if (cancelled) await stopScanner()
+      })
+      .catch((err) => {
+        logger.error('Erreur démarrage scanner QR:', err)
+        if (!cancelled) {
+          setError("Impossible d'accéder à la caméra. Autorisez-la dans votre navigateur ou utilisez le pointage manuel.")
+        }
+      })
+
+    return () => {
+      cancelled = true
+      stopScanner?.().catch((err) => logger.error('Erreur arrêt scanner QR:', err))
+    }
+  }, [])
+
+  return (
+    <Box
+      position="fixed"
+      inset={0}
+      zIndex={200}
+      display="flex"
+      alignItems="center"
+      justifyContent="center"
+    >
+      <Box
+        position="absolute"
+        inset={0}
+        bg="blackAlpha.600"
+        onClick={onClose}
+        aria-hidden="true"
+      />
+      <Box
+        bg="bg.surface"
+        borderRadius="xl"
+        p={6}
+        maxW="400px"
+        w="90%"
+        position="relative"
+        zIndex={201}
+        boxShadow="xl"
+        role="dialog"
+        aria-modal="true"
+        aria-label="Scanner le badge de pointage"
+      >
+        <Text fontSize="lg" fontWeight="semibold" color="text.default" mb={1}>
+          Scanner le badge
+        </Text>
+        <Text fontSize="sm" color="text.muted" mb={4}>
+          {mode === 'start'
+            ? "Visez le QR code collé au domicile pour démarrer l'intervention."
+            : "Visez le QR code collé au domicile pour terminer l'intervention."}
+        </Text>
+
+        <Box
+          id={SCANNER_ELEMENT_ID}
+          w="100%"
+          minH="240px"
+          borderRadius="md"
+          overflow="hidden"
+          bg="bg.input"
+        />
+
+        {error && (
+          <Text fontSize="sm" color="red.600" role="alert" mt={3}>{error}</Text>
+        )}
+
+        <GhostButton w="100%" mt={4} onClick={onClose}>
+          Fermer
+        </GhostButton>
+      </Box>
+    </Box>
+  )
+}
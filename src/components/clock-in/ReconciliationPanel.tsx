@@ -0,0 +1,186 @@
+import { useState, useEffect, useMemo, useCallback } from 'react'
+import { Box, Stack, Flex, Text, Button, Spinner, Center } from '@chakra-ui/react'
+import { format, startOfMonth, endOfMonth, addMonths, subMonths } from 'date-fns'
+import { fr } from 'date-fns/locale'
+import { getShifts, reviewShiftActualTimes } from '@/services/shiftService'
+import { reconcileShift, summarizeReconciliation } from '@/lib/shifts/reconciliation'
+import { logger } from '@/lib/logger'
+import { toaster } from '@/lib/toaster'
+import type { ActualReview, Shift } from '@/types'
+import { formatTime, formatHours, formatDeltaMinutes } from './clockInUtils'
+
+interface ReconciliationPanelProps {
+  employerId: string
+  /** Change quand les interventions ont été rechargées par la page */
+  refreshKey?: unknown
+}
+
+const STATUS_LABELS = {
+  pending: 'À revoir',
+  accepted: 'Accepté',
+  rejected: 'Refusé',
+} as const
+
+/**
+ * Employeur : rapprochement du mois entre horaires prévus et pointés.
+ * Chaque écart au-delà de la tolérance est accepté (les heures réelles sont
+ * payées et déclarées) ou refusé (le planning fait foi).
+ */
+export function ReconciliationPanel({ employerId, refreshKey }: ReconciliationPanelProps) {
+  const [month, setMonth] = useState(() => startOfMonth(new Date()))
+  const [shifts, setShifts] = useState<Shift[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [reviewingShiftId, setReviewingShiftId] = useState<string | null>(null)
+
+  const loadShifts = useCallback(async () => {
+    try {
+      const result = await getShifts(employerId, 'employer', month, endOfMonth(month))
+      setShifts(result.filter((s) => s.status === 'completed'))
+    } catch (err) {
+      logger.error('Erreur chargement rapprochement:', err)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [employerId, month])
+
+  useEffect(() => {
+    setIsLoading(true)
+    loadShifts()
+  }, [loadShifts, refreshKey])
+
+  const summary = useMemo(() => summarizeReconciliation(shifts), [shifts])
+
+  const deviations = useMemo(
+    () => shifts
+      .map((shift) => ({ shift, rec: reconcileShift(shift) }))
+      .filter(({ rec }) => rec.status !== 'none')
+      .sort((a, b) => new Date(a.shift.date).getTime() - new Date(b.shift.date).getTime()),
+    [shifts]
+  )
+
+  const handleReview = async (shift: Shift, decision: ActualReview) => {
+    setReviewingShiftId(shift.id)
+    try {
+      await reviewShiftActualTimes(shift.id, decision)
+      await loadShifts()
+      toaster.success({
+        title: decision === 'accepted' ? 'Heures réelles acceptées' : 'Horaires prévus conservés',
+      })
+    } catch (err) {
+      logger.error('Erreur revue écart horaire:', err)
+      toaster.error({ title: "Erreur lors de l'enregistrement de la décision" })
+    } finally {
+      setReviewingShiftId(null)
+    }
+  }
+
+  const monthLabel = format(month, 'MMMM yyyy', { locale: fr })
+
+  return (
+    <Box
+      bg="bg.surface"
+      borderRadius="md"
+      borderWidth="1px"
+      borderColor="border.default"
+      boxShadow="0 2px 8px rgba(78,100,120,.09)"
+      overflow="hidden"
+    >
+      <Flex px={4} py={3} borderBottomWidth="1px" borderColor="border.default" align="center" justify="space-between">
+        <Text fontFamily="heading" fontSize="md" fontWeight="700">Prévu / réel</Text>
+        <Flex align="center" gap={1}>
+          <Button size="xs" variant="ghost" aria-label="Mois précédent" onClick={() => setMonth((m) => subMonths(m, 1))}>
+            ‹
+          </Button>
+          <Text fontSize="sm" fontWeight="600" minW="110px" textAlign="center">
+            {monthLabel.charAt(0).toUpperCase() + monthLabel.slice(1)}
+          </Text>
+          <Button size="xs" variant="ghost" aria-label="Mois suivant" onClick={() => setMonth((m) => addMonths(m, 1))}>
+            ›
+          </Button>
+        </Flex>
+      </Flex>
+
+      {isLoading ? (
+        <Center py={6} role="status" aria-label="Chargement du rapprochement">
+          <Spinner size="md" />
+        </Center>
+      ) : (
+        <Box p={4}>
+          <Flex justify="space-between" gap={4} mb={4}>
+            <Box>
+              <Text fontSize="xs" color="text.muted" fontWeight="500">Prévu</Text>
+              <Text fontSize="md" fontWeight="700">{formatHours(summary.plannedMinutes / 60)}</Text>
+            </Box>
+            <Box>
+              <Text fontSize="xs" color="text.muted" fontWeight="500">Réel</Text>
+              <Text fontSize="md" fontWeight="700">{formatHours(summary.actualMinutes / 60)}</Text>
+            </Box>
+            <Box>
+              <Text fontSize="xs" color="text.muted" fontWeight="500">Écart</Text>
+              <Text fontSize="md" fontWeight="700" color={summary.deltaMinutes === 0 ? 'text.default' : 'warm.600'}>
+                {formatDeltaMinutes(summary.deltaMinutes)}
+              </Text>
+            </Box>
+            <Box>
+              <Text fontSize="xs" color="text.muted" fontWeight="500">À revoir</Text>
+              <Text fontSize="md" fontWeight="700" color={summary.pendingCount > 0 ? 'warm.600' : 'text.default'}>
+                {summary.pendingCount}
+              </Text>
+            </Box>
+          </Flex>
+
+          {deviations.length === 0 ? (
+            <Text fontSize="sm" color="brand.500">Aucun écart entre le planning et les pointages.</Text>
+          ) : (
+            <Stack gap={3}>
+              {deviations.map(({ shift, rec }) => (
+                <Box
+                  key={shift.id}
+                  px={3}
+                  py={2.5}
+                  borderRadius="md"
+                  borderWidth="1px"
+                  borderColor={rec.status === 'pending' ? 'warm.600' : 'border.default'}
+                >
+                  <Flex justify="space-between" align="baseline" gap={2}>
+                    <Text fontSize="sm" fontWeight="600">
+                      {shift.employeeName ? `${shift.employeeName} · ` : ''}
+                      {format(new Date(shift.date), 'EEE d MMM', { locale: fr })}
+                    </Text>
+                    <Text fontSize="xs" fontWeight="600" color={rec.status === 'pending' ? 'warm.600' : 'text.muted'}>
+                      {STATUS_LABELS[rec.status as keyof typeof STATUS_LABELS]}
+                    </Text>
+                  </Flex>
+                  <Text fontSize="sm" color="text.secondary">
+                    Prévu {formatTime(shift.startTime)}–{formatTime(shift.endTime)} · Réel {rec.actualStartTime}–{rec.actualEndTime} ·{' '}
+                    <Text as="span" fontWeight="700">{formatDeltaMinutes(rec.deltaMinutes)}</Text>
+                  </Text>
+                  <Flex gap={2} mt={2}>
+                    <Button
+                      size="xs"
+                      variant={rec.status === 'accepted' ? 'solid' : 'outline'}
+                      onClick={() => handleReview(shift, 'accepted')}
+                      loading={reviewingShiftId === shift.id}
+                      disabled={reviewingShiftId !== null || rec.status === 'accepted'}
+                    >
+                      Accepter
+                    </Button>
+                    <Button
+                      size="xs"
+                      variant="ghost"
+                      color="text.muted"
+                      onClick={() => handleReview(shift, 'rejected')}
+                      disabled={reviewingShiftId !== null || rec.status === 'rejected'}
+                    >
+                      Refuser
+                    </Button>
+                  </Flex>
+                </Box>
+              ))}
+            </Stack>
+          )}
+        </Box>
+      )}
+    </Box>
+  )
+}
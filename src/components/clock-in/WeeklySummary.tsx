@@ -1,9 +1,9 @@
 import { useMemo } from 'react'
 import { Box, Flex, Text } from '@chakra-ui/react'
 import { startOfWeek, addDays, format, isToday } from 'date-fns'
-import { getShiftDurationMinutes } from '@/lib/compliance'
+import { summarizeReconciliation } from '@/lib/shifts/reconciliation'
 import type { Shift } from '@/types'
-import { formatHours } from './clockInUtils'
+import { formatHours, formatDeltaMinutes } from './clockInUtils'
 
 const DAY_LABELS = ['Lun', 'Mar', 'Mer', 'Jeu', 'Ven', 'Sam', 'Dim']
 
@@ -20,24 +20,30 @@ export function WeeklySummary({ todayShifts, historyShifts, title, weeklyGoalHou
       (s) => s.status === 'completed'
     )
     const weekStart = startOfWeek(new Date(), { weekStartsOn: 1 })
+    const weekShifts: Shift[] = []
 
+    // Barres : heures réelles pointées, heures prévues à défaut
     const days = DAY_LABELS.map((label, i) => {
       const date = addDays(weekStart, i)
       const dateStr = format(date, 'yyyy-MM-dd')
       const dayShifts = allShifts.filter(
         (s) => format(new Date(s.date), 'yyyy-MM-dd') === dateStr
       )
-      const totalMin = dayShifts.reduce(
-        (acc, s) => acc + getShiftDurationMinutes(s),
-        0
-      )
-      return { label, date, hours: totalMin / 60, isToday: isToday(date) }
+      weekShifts.push(...dayShifts)
+      const { actualMinutes } = summarizeReconciliation(dayShifts)
+      return { label, date, hours: actualMinutes / 60, isToday: isToday(date) }
     })
 
     const maxHours = Math.max(...days.map((d) => d.hours), 1)
-    const totalHours = days.reduce((acc, d) => acc + d.hours, 0)
+    const summary = summarizeReconciliation(weekShifts)
 
-    return { days, maxHours, totalHours }
+    return {
+      days,
+      maxHours,
+      totalHours: summary.actualMinutes / 60,
+      plannedHours: summary.plannedMinutes / 60,
+      deltaMinutes: summary.deltaMinutes,
+    }
   }, [todayShifts, historyShifts])
 
   return (
@@ -107,14 +113,30 @@ export function WeeklySummary({ todayShifts, historyShifts, title, weeklyGoalHou
         </Flex>
 
         <Flex
-          justify="space-between"
-          align="center"
+          direction="column"
+          gap={1}
           pt={3}
           borderTopWidth="1px"
           borderColor="border.default"
         >
-          <Text fontSize="sm" color="text.muted">Total semaine</Text>
-          <Text fontSize="sm" fontWeight="700">{formatHours(weekData.totalHours)}</Text>
+          <Flex justify="space-between" align="center">
+            <Text fontSize="sm" color="text.muted">Prévu</Text>
+            <Text fontSize="sm" fontWeight="500">{formatHours(weekData.plannedHours)}</Text>
+          </Flex>
+          <Flex justify="space-between" align="center">
+            <Text fontSize="sm" color="text.muted">Réel</Text>
+            <Text fontSize="sm" fontWeight="700">{formatHours(weekData.totalHours)}</Text>
+          </Flex>
+          <Flex justify="space-between" align="center">
+            <Text fontSize="sm" color="text.muted">Écart</Text>
+            <Text
+              fontSize="sm"
+              fontWeight="700"
+              color={weekData.deltaMinutes === 0 ? 'text.secondary' : 'warm.600'}
+            >
+              {formatDeltaMinutes(weekData.deltaMinutes)}
+            </Text>
+          </Flex>
         </Flex>
       </Box>
     </Box>
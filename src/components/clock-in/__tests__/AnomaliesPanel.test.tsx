@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest'
+import { screen } from '@testing-library/react'
+import { renderWithProviders } from '@/test/helpers'
+import { AnomaliesPanel } from '../AnomaliesPanel'
+import type { Shift } from '@/types'
+
+const computedPay = {
+  basePay: 0, sundayMajoration: 0, holidayMajoration: 0,
+  nightMajoration: 0, overtimeMajoration: 0, presenceResponsiblePay: 0,
+  nightPresenceAllowance: 0, totalPay: 0,
+}
+
+function makeShift(overrides: Partial<Shift> = {}): Shift {
+  return {
+    id: 'shift-1',
+    contractId: 'contract-1',
+    employeeName: 'Marie Curie',
+    date: new Date(2026, 2, 10),
+    startTime: '08:00',
+    endTime: '12:00',
+    breakDuration: 0,
+    tasks: [],
+    shiftType: 'effective',
+    isRequalified: false,
+    status: 'completed',
+    computedPay,
+    validatedByEmployer: false,
+    validatedByEmployee: false,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  }
+}
+
+describe('AnomaliesPanel', () => {
+  it('ne signale rien pour une intervention pointée au badge en direct', () => {
+    renderWithProviders(
+      <AnomaliesPanel
+        todayShifts={[]}
+        historyShifts={[makeShift({
+          clockInMethod: 'qr',
+          clockOutMethod: 'qr',
+          clockedInAt: new Date(2026, 2, 10, 8, 0),
+          clockedOutAt: new Date(2026, 2, 10, 12, 0),
+        })]}
+      />
+    )
+    expect(screen.getByText('Aucune anomalie détectée.')).toBeInTheDocument()
+  })
+
+  it('signale un pointage manuel', () => {
+    renderWithProviders(
+      <AnomaliesPanel
+        todayShifts={[]}
+        historyShifts={[makeShift({ clockInMethod: 'qr', clockOutMethod: 'manual' })]}
+      />
+    )
+    expect(screen.getByText('Marie Curie · 10/03 : pointage manuel, sans scan du badge')).toBeInTheDocument()
+  })
+
+  it('signale un scan de fin synchronisé tardivement', () => {
+    renderWithProviders(
+      <AnomaliesPanel
+        todayShifts={[]}
+        historyShifts={[makeShift({
+          clockInMethod: 'qr',
+          clockOutMethod: 'qr',
+          clockedInAt: new Date(2026, 2, 10, 8, 0),
+          clockedOutAt: new Date(2026, 2, 10, 12, 0),
+          clockSyncedAt: new Date(2026, 2, 10, 13, 45),
+        })]}
+      />
+    )
+    expect(screen.getByText('Marie Curie · 10/03 : pointage synchronisé 1h45 après le scan')).toBeInTheDocument()
+  })
+
+  it('mesure le retard sur le scan de début quand il a été synchronisé avant la fin', () => {
+    renderWithProviders(
+      <AnomaliesPanel
+        todayShifts={[]}
+        historyShifts={[makeShift({
+          clockInMethod: 'qr',
+          clockOutMethod: 'qr',
+          clockedInAt: new Date(2026, 2, 10, 8, 0),
+          clockedOutAt: new Date(2026, 2, 10, 12, 0),
+          clockSyncedAt: new Date(2026, 2, 10, 9, 30),
+        })]}
+      />
+    )
+    expect(screen.getByText('Marie Curie · 10/03 : pointage synchronisé 1h30 après le scan')).toBeInTheDocument()
+  })
+
+  it('tolère un court délai de synchronisation', () => {
+    renderWithProviders(
+      <AnomaliesPanel
+        todayShifts={[]}
+        historyShifts={[makeShift({
+          clockInMethod: 'qr',
+          clockOutMethod: 'qr',
+          clockedInAt: new Date(2026, 2, 10, 8, 0),
+          clockedOutAt: new Date(2026, 2, 10, 12, 0),
+          clockSyncedAt: new Date(2026, 2, 10, 12, 10),
+        })]}
+      />
+    )
+    expect(screen.getByText('Aucune anomalie détectée.')).toBeInTheDocument()
+  })
+})
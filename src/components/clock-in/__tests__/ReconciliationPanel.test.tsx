@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { screen, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { renderWithProviders } from '@/test/helpers'
+import type { Shift } from '@/types'
+
+vi.mock('@/services/shiftService', () => ({
+  getShifts: vi.fn(),
+  reviewShiftActualTimes: vi.fn(),
+}))
+
+import { getShifts, reviewShiftActualTimes } from '@/services/shiftService'
+import { ReconciliationPanel } from '../ReconciliationPanel'
+
+const computedPay = {
+  basePay: 0, sundayMajoration: 0, holidayMajoration: 0,
+  nightMajoration: 0, overtimeMajoration: 0, presenceResponsiblePay: 0,
+  nightPresenceAllowance: 0, totalPay: 0,
+}
+
+const today = new Date()
+const at = (h: number, m: number) =>
+  new Date(today.getFullYear(), today.getMonth(), today.getDate(), h, m)
+
+function makeShift(overrides: Partial<Shift> = {}): Shift {
+  return {
+    id: 'shift-1',
+    contractId: 'contract-1',
+    employeeName: 'Marie Curie',
+    date: at(0, 0),
+    startTime: '08:00',
+    endTime: '12:00',
+    breakDuration: 0,
+    tasks: [],
+    shiftType: 'effective',
+    isRequalified: false,
+    status: 'completed',
+    computedPay,
+    validatedByEmployer: false,
+    validatedByEmployee: false,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  }
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  vi.mocked(reviewShiftActualTimes).mockResolvedValue(undefined)
+})
+
+describe('ReconciliationPanel', () => {
+  it('indique l\'absence d\'écart', async () => {
+    vi.mocked(getShifts).mockResolvedValue([
+      makeShift({ clockedInAt: at(8, 2), clockedOutAt: at(12, 0) }),
+    ])
+
+    renderWithProviders(<ReconciliationPanel employerId="employer-1" />)
+
+    expect(await screen.findByText('Aucun écart entre le planning et les pointages.')).toBeInTheDocument()
+    expect(getShifts).toHaveBeenCalledWith('employer-1', 'employer', expect.any(Date), expect.any(Date))
+  })
+
+  it('affiche prévu, réel et écart d\'une intervention à revoir', async () => {
+    vi.mocked(getShifts).mockResolvedValue([
+      makeShift({ clockedInAt: at(8, 0), clockedOutAt: at(12, 30) }),
+    ])
+
+    renderWithProviders(<ReconciliationPanel employerId="employer-1" />)
+
+    // Libellé du compteur mensuel + statut de l'intervention
+    expect(await screen.findAllByText('À revoir')).toHaveLength(2)
+    expect(screen.getByText(/Prévu 08:00–12:00 · Réel 08:00–12:30/)).toBeInTheDocument()
+    expect(screen.getAllByText('+30min').length).toBeGreaterThan(0)
+  })
+
+  it('enregistre la décision de l\'employeur', async () => {
+    const user = userEvent.setup()
+    vi.mocked(getShifts).mockResolvedValue([
+      makeShift({ clockedInAt: at(8, 0), clockedOutAt: at(12, 30) }),
+    ])
+
+    renderWithProviders(<ReconciliationPanel employerId="employer-1" />)
+
+    await user.click(await screen.findByRole('button', { name: 'Accepter' }))
+
+    await waitFor(() => {
+      expect(reviewShiftActualTimes).toHaveBeenCalledWith('shift-1', 'accepted')
+    })
+    expect(getShifts).toHaveBeenCalledTimes(2)
+  })
+})
@@ -21,3 +21,9 @@ export function formatHours(hours: number): string {
   if (m === 0) return `${h}h`
   return `${h}h ${m.toString().padStart(2, '0')}min`
 }
+
+/** Formater un écart réel − prévu en minutes, signé ("+30min", "−1h 15min") */
+export function formatDeltaMinutes(minutes: number): string {
+  if (minutes === 0) return '0min'
+  return `${minutes > 0 ? '+' : '−'}${formatHours(Math.abs(minutes) / 60)}`
+}
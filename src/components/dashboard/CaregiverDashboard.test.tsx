@@ -199,8 +199,7 @@ describe('CaregiverDashboard', () => {
       })
     })
 
-    // Désactivé tant que FEATURES.clockIn = false (v1).
-    it.skip('affiche le ClockInWidget avec variant warm', async () => {
+    it('affiche le ClockInWidget avec variant warm', async () => {
       renderWithProviders(<CaregiverDashboard profile={profile} />)
       await waitFor(() => {
         const widgets = screen.getAllByTestId('clockin-widget')
@@ -19,6 +19,7 @@ import { SpotlightSearch } from '@/components/dashboard/SpotlightSearch'
 import { useSpotlightSearch } from '@/hooks/useSpotlightSearch'
 import { VoiceNavButton } from '@/components/voice/VoiceNavButton'
 import { getCaregiver } from '@/services/caregiverService'
+import { loadRegulatoryParameters } from '@/services/regulatoryParametersService'
 import { logger } from '@/lib/logger'
 import { FEATURES } from '@/lib/featureFlags'
 
@@ -106,6 +107,13 @@ export function DashboardLayout({ children, title = 'Tableau de bord', topbarRig
     return !isDismissed
   })
 
+  // Revalorisations réglementaires publiées en base (SMIC, PASS, tarifs PCH…)
+  useEffect(() => {
+    if (profile?.id) {
+      loadRegulatoryParameters()
+    }
+  }, [profile?.id])
+
   // Charger les permissions de l'aidant
   useEffect(() => {
     if (profile?.id && userRole === 'caregiver') {
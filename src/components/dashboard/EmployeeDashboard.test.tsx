@@ -133,8 +133,7 @@ describe('EmployeeDashboard', () => {
       })
     })
 
-    // Désactivé tant que FEATURES.clockIn = false (v1).
-    it.skip('affiche le ClockInWidget', async () => {
+    it('affiche le ClockInWidget', async () => {
       renderWithProviders(<EmployeeDashboard profile={profile} />)
       await waitFor(() => {
         expect(screen.getByTestId('clock-in-widget')).toBeInTheDocument()
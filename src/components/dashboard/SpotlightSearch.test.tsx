@@ -19,6 +19,9 @@ function createMockSpotlight(overrides: Partial<UseSpotlightSearchReturn> = {}):
     activeIndex: 0,
     setActiveIndex: vi.fn(),
     isLoading: false,
+    isSearchingServer: false,
+    hasMore: false,
+    loadMore: vi.fn(),
     handleKeyDown: vi.fn(),
     selectResult: vi.fn(),
     ...overrides,
@@ -135,4 +138,42 @@ describe('SpotlightSearch', () => {
     // L'annonce live est dans un élément sr-only
     expect(screen.getByText(/3 résultats trouvés/)).toBeInTheDocument()
   })
+
+  it('met en évidence les termes de l extrait plein texte', () => {
+    const spotlight = createMockSpotlight({
+      query: 'repas',
+      results: [
+        {
+          id: 'log-9',
+          category: 'logbook',
+          icon: 'book',
+          title: 'Information · 3 nov. 2025',
+          snippet: 'a pris son [[repas]] à midi',
+          href: '/cahier-de-liaison',
+        },
+      ],
+    })
+    renderWithProviders(<SpotlightSearch spotlight={spotlight} />)
+
+    const mark = screen.getByText('repas')
+    expect(mark.tagName).toBe('MARK')
+  })
+
+  it('indique la recherche serveur plutôt que l absence de résultat', () => {
+    const spotlight = createMockSpotlight({ query: 'kiné', isSearchingServer: true })
+    renderWithProviders(<SpotlightSearch spotlight={spotlight} />)
+
+    expect(screen.getByText(/recherche dans l'historique/i)).toBeInTheDocument()
+    expect(screen.queryByText(/aucun résultat pour/i)).not.toBeInTheDocument()
+  })
+
+  it('charge la page suivante des résultats serveur', async () => {
+    const user = userEvent.setup()
+    const spotlight = createMockSpotlight({ query: 'repas', results: mockResults, hasMore: true })
+    renderWithProviders(<SpotlightSearch spotlight={spotlight} />)
+
+    await user.click(screen.getByRole('button', { name: 'Plus de résultats' }))
+
+    expect(spotlight.loadMore).toHaveBeenCalled()
+  })
 })
@@ -1,7 +1,7 @@
 import { useRef, useEffect } from 'react'
-import { Box, Dialog, Flex, Input, Portal, Text } from '@chakra-ui/react'
+import { Box, Button, Dialog, Flex, Input, Portal, Text } from '@chakra-ui/react'
 import { NavIcon } from '@/components/ui'
-import { CATEGORY_LABELS } from '@/services/searchService'
+import { CATEGORY_LABELS, splitSnippet } from '@/services/searchService'
 import type { SearchResult, SearchCategory } from '@/services/searchService'
 import type { UseSpotlightSearchReturn } from '@/hooks/useSpotlightSearch'
 
@@ -21,6 +21,23 @@ function groupByCategory(results: SearchResult[]): { category: SearchCategory; i
   return Array.from(map.entries()).map(([category, items]) => ({ category, items }))
 }
 
+/** Extrait de la recherche plein texte, termes trouvés mis en évidence */
+function Snippet({ snippet }: { snippet: string }) {
+  return (
+    <Text fontSize="xs" color="text.muted" lineClamp={2}>
+      {splitSnippet(snippet).map((part, i) =>
+        part.highlighted ? (
+          <Box as="mark" key={i} bg="brand.subtle" color="text.default" borderRadius="2px" px="1px">
+            {part.text}
+          </Box>
+        ) : (
+          <span key={i}>{part.text}</span>
+        ),
+      )}
+    </Text>
+  )
+}
+
 // ── Search icon ──────────────────────────────────────────────────────────────
 
 function SearchIcon() {
@@ -53,6 +70,9 @@ export function SpotlightSearch({ spotlight }: SpotlightSearchProps) {
     activeIndex,
     setActiveIndex,
     isLoading,
+    isSearchingServer,
+    hasMore,
+    loadMore,
     handleKeyDown,
     selectResult,
   } = spotlight
@@ -176,7 +196,7 @@ export function SpotlightSearch({ spotlight }: SpotlightSearchProps) {
                 </Flex>
               )}
 
-              {!isLoading && query && results.length === 0 && (
+              {!isLoading && !isSearchingServer && query && results.length === 0 && (
                 <Flex direction="column" align="center" py={8} gap={1}>
                   <Text fontSize="sm" color="text.muted">
                     Aucun résultat pour « {query} »
@@ -248,6 +268,7 @@ export function SpotlightSearch({ spotlight }: SpotlightSearchProps) {
                               {result.subtitle}
                             </Text>
                           )}
+                          {result.snippet && <Snippet snippet={result.snippet} />}
                         </Box>
                         {isActive && (
                           <Text fontSize="xs" color="text.muted" flexShrink={0}>
@@ -259,6 +280,22 @@ export function SpotlightSearch({ spotlight }: SpotlightSearchProps) {
                   })}
                 </Box>
               ))}
+
+              {query && isSearchingServer && (
+                <Flex justify="center" py={3}>
+                  <Text fontSize="xs" color="text.muted">
+                    Recherche dans l'historique…
+                  </Text>
+                </Flex>
+              )}
+
+              {query && hasMore && !isSearchingServer && (
+                <Flex justify="center" py={2}>
+                  <Button size="xs" variant="ghost" onClick={loadMore}>
+                    Plus de résultats
+                  </Button>
+                </Flex>
+              )}
             </Box>
 
             {/* ── Footer ────────────────────────────────────── */}
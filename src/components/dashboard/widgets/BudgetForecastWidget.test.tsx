@@ -19,6 +19,10 @@ vi.mock('@/lib/pch/pchTariffs', () => ({
   calcEnveloppePch: vi.fn(() => 1200),
 }))
 
+vi.mock('@/services/regulatoryParametersService', () => ({
+  loadRegulatoryParameters: vi.fn().mockResolvedValue(undefined),
+}))
+
 vi.mock('@/lib/logger', () => ({
   logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn(), debug: vi.fn() },
 }))
@@ -6,6 +6,7 @@ import {
 } from '@/services/statsService'
 import { getEmployer } from '@/services/profileService'
 import { calcEnveloppePch } from '@/lib/pch/pchTariffs'
+import { loadRegulatoryParameters } from '@/services/regulatoryParametersService'
 import { logger } from '@/lib/logger'
 
 interface BudgetForecastWidgetProps {
@@ -35,6 +36,7 @@ export function BudgetForecastWidget({ employerId }: BudgetForecastWidgetProps)
         const [fc, employer] = await Promise.all([
           getEmployerBudgetForecast(employerId),
           getEmployer(employerId),
+          loadRegulatoryParameters(),
         ])
 
         if (cancelled) return
@@ -1,9 +1,15 @@
 import { useState, useEffect } from 'react'
-import { Box, Flex, Text, SimpleGrid, Skeleton } from '@chakra-ui/react'
+import { Box, Flex, Stack, Text, SimpleGrid, Skeleton } from '@chakra-ui/react'
 import { Link as RouterLink } from 'react-router-dom'
 import { AccessibleButton } from '@/components/ui'
+import { LeaveAccrualBreakdown } from '@/components/planning/LeaveAccrualBreakdown'
 import { supabase } from '@/lib/supabase/client'
 import { logger } from '@/lib/logger'
+import { calculateLeaveAccrual, getLeaveYear, getLeaveYearStartDate } from '@/lib/absence'
+import type { LeaveAccrualBreakdown as LeaveAccrualBreakdownData } from '@/lib/absence'
+import { getAbsencesForEmployee } from '@/services/absenceService'
+import { getLeaveBalance } from '@/services/leaveBalanceService'
+import type { ContractDbRow } from '@/types/database'
 
 interface EmployeeLeaveWidgetProps {
   employeeId: string
@@ -14,11 +20,14 @@ interface LeaveData {
   daysToTakeBefore: number
   deadlineLabel: string
   pendingRequests: number
+  // Acquisition de l'année en cours, par contrat actif
+  accruals: { contractId: string; startDate: Date; breakdown: LeaveAccrualBreakdownData }[]
 }
 
 export function EmployeeLeaveWidget({ employeeId }: EmployeeLeaveWidgetProps) {
   const [data, setData] = useState<LeaveData | null>(null)
   const [isLoading, setIsLoading] = useState(true)
+  const [showAccrual, setShowAccrual] = useState(false)
 
   useEffect(() => {
     if (!employeeId) return
@@ -26,47 +35,49 @@ export function EmployeeLeaveWidget({ employeeId }: EmployeeLeaveWidgetProps) {
 
     async function load() {
       try {
-        // Fetch contrats, soldes congés et absences en parallèle
-        const [contractsRes, balancesRes, pendingRes] = await Promise.all([
+        // Fetch contrats et absences en parallèle
+        const [contractsRes, absences] = await Promise.all([
           supabase
             .from('contracts')
-            .select('id, start_date')
+            .select('id, start_date, end_date, weekly_hours')
             .eq('employee_id', employeeId)
             .eq('status', 'active'),
-          supabase
-            .from('leave_balances')
-            .select('acquired_days, taken_days, adjustment_days')
-            .eq('employee_id', employeeId),
-          supabase
-            .from('absences')
-            .select('id')
-            .eq('employee_id', employeeId)
-            .eq('status', 'pending'),
+          getAbsencesForEmployee(employeeId),
         ])
 
+        // Soldes de l'année en cours (la première lecture clôt l'année précédente)
+        const contracts = (contractsRes.data || []) as Pick<ContractDbRow, 'id' | 'start_date' | 'end_date' | 'weekly_hours'>[]
+        const now = new Date()
+        const leaveYear = getLeaveYear(now)
+        const balances = (
+          await Promise.all(contracts.map((c) => getLeaveBalance(c.id, leaveYear)))
+        ).filter((b) => b !== null)
+
+        // Acquisition selon les absences (jours assimilés ou non à du travail effectif)
+        const accruals = contracts.map((c) => {
+          const endDate = c.end_date ? new Date(c.end_date) : null
+          return {
+            contractId: c.id,
+            startDate: new Date(c.start_date),
+            breakdown: calculateLeaveAccrual(
+              { startDate: new Date(c.start_date), weeklyHours: c.weekly_hours },
+              getLeaveYearStartDate(leaveYear),
+              endDate && endDate < now ? endDate : now,
+              absences
+            ),
+          }
+        })
+
         let acquiredDays: number
-        const balances = balancesRes.data || []
 
         if (balances.length > 0) {
-          // Soldes en base
-          acquiredDays = balances.reduce(
-            (sum, b) => sum + (b.acquired_days || 0) - (b.taken_days || 0) + (b.adjustment_days || 0),
-            0,
-          )
+          // Soldes en base (reliquat reporté inclus)
+          acquiredDays = balances.reduce((sum, b) => sum + b.remainingDays, 0)
         } else {
-          // Fallback : calcul depuis l'ancienneté (2.5j / mois travaillé, IDCC 3239)
-          const contracts = contractsRes.data || []
-          const now = new Date()
-          let totalMonths = 0
-          for (const c of contracts) {
-            const start = new Date(c.start_date)
-            const months = (now.getFullYear() - start.getFullYear()) * 12 + (now.getMonth() - start.getMonth())
-            totalMonths += Math.max(0, months)
-          }
-          acquiredDays = Math.round(totalMonths * 2.5 * 10) / 10
+          // Fallback : acquisition calculée sur l'année en cours
+          acquiredDays = accruals.reduce((sum, a) => sum + a.breakdown.acquiredDays, 0)
         }
 
-        const now = new Date()
         const endOfMonth = new Date(now.getFullYear(), now.getMonth() + 1, 0)
         const deadlineLabel = `fin ${endOfMonth.toLocaleDateString('fr-FR', { month: 'long' })}`
 
@@ -75,7 +86,8 @@ export function EmployeeLeaveWidget({ employeeId }: EmployeeLeaveWidgetProps) {
             acquiredDays: Math.round(acquiredDays * 10) / 10,
             daysToTakeBefore: Math.max(0, Math.round(acquiredDays * 0.4)),
             deadlineLabel,
-            pendingRequests: pendingRes.data?.length ?? 0,
+            pendingRequests: absences.filter((a) => a.status === 'pending').length,
+            accruals,
           })
         }
       } catch (err) {
@@ -184,6 +196,35 @@ export function EmployeeLeaveWidget({ employeeId }: EmployeeLeaveWidgetProps) {
         </Box>
       </SimpleGrid>
 
+      {data.accruals.length > 0 && (
+        <Box px={4} pb={4}>
+          <Box
+            as="button"
+            w="100%"
+            textAlign="left"
+            aria-expanded={showAccrual}
+            onClick={() => setShowAccrual((v) => !v)}
+          >
+            <Text fontSize="sm" color="brand.500" fontWeight="600">
+              {showAccrual ? '▾' : '▸'} Voir le détail de l'acquisition par mois
+            </Text>
+          </Box>
+          {showAccrual && (
+            <Stack gap={4} mt={2}>
+              {data.accruals.map((accrual) => (
+                <Box key={accrual.contractId}>
+                  {data.accruals.length > 1 && (
+                    <Text fontSize="xs" fontWeight="600" color="text.default" mb={1}>
+                      Contrat du {accrual.startDate.toLocaleDateString('fr-FR')}
+                    </Text>
+                  )}
+                  <LeaveAccrualBreakdown breakdown={accrual.breakdown} />
+                </Box>
+              ))}
+            </Stack>
+          )}
+        </Box>
+      )}
     </Box>
   )
 }
@@ -11,8 +11,9 @@ import { useState, useEffect } from 'react'
 import { Box, Stack, SimpleGrid, Flex, Text, Skeleton, Progress } from '@chakra-ui/react'
 import { getEmployer } from '@/services/profileService'
 import { getEmployerStats, getEmployerBudgetForecast } from '@/services/statsService'
-import { calcEnveloppePch, getPchElementRate, PCH_TYPE_LABELS } from '@/lib/pch/pchTariffs'
+import { calcEnveloppePch, getPchElementRate, getPchTypeLabels } from '@/lib/pch/pchTariffs'
 import type { PchType } from '@/lib/pch/pchTariffs'
+import { loadRegulatoryParameters } from '@/services/regulatoryParametersService'
 import { logger } from '@/lib/logger'
 
 interface PchEnvelopeWidgetProps {
@@ -46,6 +47,7 @@ export function PchEnvelopeWidget({ employerId }: PchEnvelopeWidgetProps) {
           getEmployer(employerId),
           getEmployerStats(employerId),
           getEmployerBudgetForecast(employerId),
+          loadRegulatoryParameters(),
         ])
 
         if (cancelled) return
@@ -134,7 +136,7 @@ export function PchEnvelopeWidget({ employerId }: PchEnvelopeWidgetProps) {
             Enveloppe PCH — {capitalMonth}
           </Text>
           <Text fontSize="xs" color="text.muted">
-            {PCH_TYPE_LABELS[pchType]} · {pchMonthlyHours}h/mois · Tarif {tarif.toFixed(2).replace('.', ',')} €/h
+            {getPchTypeLabels()[pchType]} · {pchMonthlyHours}h/mois · Tarif {tarif.toFixed(2).replace('.', ',')} €/h
           </Text>
         </Box>
         {isOver && (
@@ -35,11 +35,17 @@ import {
   uploadCesuPdf,
   getCesuPdfSignedUrl,
 } from '@/services/cesuDeclarationService'
+import {
+  getUnsignedTimesheetEmployees,
+  isUnsignedTimesheetError,
+  unsignedTimesheetMessage,
+} from '@/services/timesheetService'
 import type { CesuDeclarationRecord } from '@/types'
 import { toaster } from '@/lib/toaster'
 import { logger } from '@/lib/logger'
 import { formatHoursCompact } from '@/lib/formatHours'
 import { OnboardingEmptyState } from '@/components/ui'
+import { useConventionSettings } from '@/hooks/useConventionSettings'
 
 interface Props {
   employerId: string
@@ -66,6 +72,7 @@ export function CesuDeclarationSection({ employerId, searchTerm = '' }: Props) {
   const [selectedYear, setSelectedYear] = useState(defaultYear)
   const [selectedMonth, setSelectedMonth] = useState(defaultMonth)
   const [isGenerating, setIsGenerating] = useState(false)
+  const { majDimanche, majFerie, majNuit, majSupp, ruleOvertime, mileageRate } = useConventionSettings()
   const [dialogError, setDialogError] = useState<string | null>(null)
   const [showDialog, setShowDialog] = useState(false)
 
@@ -101,10 +108,19 @@ export function CesuDeclarationSection({ employerId, searchTerm = '' }: Props) {
     }
 
     try {
+      // Les heures déclarées doivent figurer sur des relevés contresignés
+      const unsigned = await getUnsignedTimesheetEmployees(employerId, selectedYear, selectedMonth)
+      if (unsigned.length > 0) {
+        setDialogError(unsignedTimesheetMessage(unsigned))
+        return
+      }
+
       const data = await getMonthlyDeclarationData(employerId, {
         format: 'summary',
         year: selectedYear,
         month: selectedMonth,
+        conventionSettings: { majDimanche, majFerie, majNuit, majSupp, ruleOvertime },
+        mileageRate,
       })
 
       if (!data) {
@@ -149,11 +165,15 @@ export function CesuDeclarationSection({ employerId, searchTerm = '' }: Props) {
       })
     } catch (err) {
       logger.error('Erreur génération CESU:', err)
-      setDialogError('Erreur lors de la génération des données')
+      setDialogError(
+        err instanceof Error && isUnsignedTimesheetError(err.message)
+          ? err.message
+          : 'Erreur lors de la génération des données'
+      )
     } finally {
       setIsGenerating(false)
     }
-  }, [employerId, selectedYear, selectedMonth, isMonthClosed])
+  }, [employerId, selectedYear, selectedMonth, isMonthClosed, majDimanche, majFerie, majNuit, majSupp, ruleOvertime, mileageRate])
 
   const handleDownload = async (record: CesuDeclarationRecord, format: ExportFormat) => {
     const declaration = record.declarationData
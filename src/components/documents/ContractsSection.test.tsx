@@ -0,0 +1,145 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { screen, waitFor, fireEvent } from '@testing-library/react'
+import { renderWithProviders } from '@/test/helpers'
+import { ContractsSection } from './ContractsSection'
+import type { ContractWithEmployee } from '@/services/contractService'
+import type { SignatureRequest } from '@/types'
+
+// ─── Mocks ─────────────────────────────────────────────────────────────
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn(), debug: vi.fn() },
+}))
+
+vi.mock('@/services/contractService', () => ({
+  getContractsForEmployer: vi.fn(),
+  getContractsForEmployee: vi.fn(),
+}))
+
+vi.mock('@/services/employeeDocumentService', () => ({
+  getEmployeeDocumentSignedUrl: vi.fn(),
+}))
+
+vi.mock('@/services/profileService', () => ({
+  getProfileName: vi.fn().mockResolvedValue('Paul Durand'),
+}))
+
+vi.mock('@/services/signatureService', () => ({
+  getSignatureRequests: vi.fn(),
+  requestContractSignature: vi.fn(),
+  remindSigner: vi.fn(),
+  sealSignatureRequest: vi.fn(),
+  cancelSignatureRequest: vi.fn(),
+  signDocument: vi.fn(),
+  SIGNATURE_ERROR_MESSAGES: { already_reminded: 'Une relance a déjà été envoyée ces dernières 24 heures.' },
+}))
+
+import { getContractsForEmployee, getContractsForEmployer } from '@/services/contractService'
+import { getSignatureRequests, remindSigner, requestContractSignature } from '@/services/signatureService'
+
+const mockGetContractsForEmployer = vi.mocked(getContractsForEmployer)
+const mockGetContractsForEmployee = vi.mocked(getContractsForEmployee)
+const mockGetSignatureRequests = vi.mocked(getSignatureRequests)
+const mockRequestContractSignature = vi.mocked(requestContractSignature)
+const mockRemindSigner = vi.mocked(remindSigner)
+
+// ─── Helpers ───────────────────────────────────────────────────────────
+
+function makeContract(overrides: Partial<ContractWithEmployee> = {}): ContractWithEmployee {
+  return {
+    id: 'c-1',
+    employerId: 'employer-1',
+    employeeId: 'employee-1',
+    contractType: 'CDI',
+    contractCategory: 'employment',
+    startDate: new Date(2026, 0, 5),
+    weeklyHours: 20,
+    hourlyRate: 14,
+    pasRate: 0,
+    status: 'active',
+    createdAt: new Date(2026, 0, 1),
+    updatedAt: new Date(2026, 0, 1),
+    employee: { firstName: 'Hélène', lastName: 'Martin' },
+    ...overrides,
+  } as ContractWithEmployee
+}
+
+function makeRequest(overrides: Partial<SignatureRequest> = {}): SignatureRequest {
+  return {
+    id: 'req-1',
+    employerId: 'employer-1',
+    employeeId: 'employee-1',
+    contractId: 'c-1',
+    documentType: 'contract',
+    title: 'Contrat de travail CDI',
+    documentHash: 'a'.repeat(64),
+    documentPath: 'employer-1/employee-1/c-1/signatures/doc.pdf',
+    status: 'pending',
+    createdAt: new Date(2026, 0, 2),
+    ...overrides,
+  }
+}
+
+// ─── Tests ─────────────────────────────────────────────────────────────
+
+describe('ContractsSection', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockGetContractsForEmployer.mockResolvedValue([makeContract()])
+    mockGetContractsForEmployee.mockResolvedValue([
+      makeContract({ employee: { firstName: 'Paul', lastName: 'Durand' } }),
+    ])
+    mockGetSignatureRequests.mockResolvedValue([])
+  })
+
+  it('propose à l\'employeur d\'envoyer le contrat pour signature', async () => {
+    mockRequestContractSignature.mockResolvedValue({ success: true, data: makeRequest() })
+
+    renderWithProviders(<ContractsSection profileId="employer-1" profileRole="employer" employerId="employer-1" />)
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Envoyer pour signature' }))
+
+    await waitFor(() => {
+      expect(screen.getByText('À signer par les deux parties')).toBeInTheDocument()
+    })
+    expect(mockRequestContractSignature).toHaveBeenCalledWith(expect.objectContaining({ id: 'c-1' }))
+    expect(screen.queryByRole('button', { name: 'Envoyer pour signature' })).not.toBeInTheDocument()
+  })
+
+  it('invite le salarié à signer le contrat', async () => {
+    mockGetSignatureRequests.mockResolvedValue([makeRequest({ employerSignedAt: new Date(2026, 0, 3) })])
+
+    renderWithProviders(<ContractsSection profileId="employee-1" profileRole="employee" />)
+
+    expect(await screen.findByRole('button', { name: 'Signer' })).toBeInTheDocument()
+    expect(screen.getByText('En attente du salarié')).toBeInTheDocument()
+    expect(screen.getByText(/Contrat CDI — Paul Durand/)).toBeInTheDocument()
+    expect(mockGetContractsForEmployee).toHaveBeenCalledWith('employee-1')
+    expect(screen.queryByRole('button', { name: 'Envoyer pour signature' })).not.toBeInTheDocument()
+  })
+
+  it('permet à l\'employeur ayant signé de relancer le salarié', async () => {
+    mockGetSignatureRequests.mockResolvedValue([makeRequest({ employerSignedAt: new Date(2026, 0, 3) })])
+    mockRemindSigner.mockResolvedValue({ success: true, data: true })
+
+    renderWithProviders(<ContractsSection profileId="employer-1" profileRole="employer" employerId="employer-1" />)
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Relancer' }))
+
+    await waitFor(() => {
+      expect(mockRemindSigner).toHaveBeenCalledWith(expect.objectContaining({ id: 'req-1' }), 'employer-1', 'Paul Durand')
+    })
+    expect(screen.queryByRole('button', { name: 'Signer' })).not.toBeInTheDocument()
+  })
+
+  it('liste les avenants soumis à la signature', async () => {
+    mockGetSignatureRequests.mockResolvedValue([
+      makeRequest({ id: 'req-2', documentType: 'amendment', amendmentId: 'am-1', title: 'Avenant au contrat — effet au 1 juin 2026', status: 'signed', sealedPath: 'sealed.pdf' }),
+    ])
+
+    renderWithProviders(<ContractsSection profileId="employer-1" profileRole="employer" employerId="employer-1" />)
+
+    expect(await screen.findByText('Avenant au contrat — effet au 1 juin 2026')).toBeInTheDocument()
+    expect(screen.getByText('Signé')).toBeInTheDocument()
+  })
+})
@@ -1,6 +1,8 @@
 /**
  * Section "Contrats" dans la page Documents.
  * Pattern doc-list : icône SVG + doc-info (nom + meta) + actions (télécharger + statut pill).
+ * Les deux parties y suivent la signature électronique du contrat et de ses
+ * avenants : envoi pour signature (employeur), signature, relance.
  */
 
 import { useState, useEffect, useCallback, useMemo } from 'react'
@@ -20,12 +22,41 @@ import {
 } from '@chakra-ui/react'
 import { format } from 'date-fns'
 import { fr } from 'date-fns/locale'
-import { getContractsForEmployer, type ContractWithEmployee } from '@/services/contractService'
+import {
+  getContractsForEmployee,
+  getContractsForEmployer,
+  type ContractWithEmployee,
+} from '@/services/contractService'
+import { getEmployeeDocumentSignedUrl } from '@/services/employeeDocumentService'
+import { getProfileName } from '@/services/profileService'
+import {
+  cancelSignatureRequest,
+  getSignatureRequests,
+  remindSigner,
+  requestContractSignature,
+  sealSignatureRequest,
+  SIGNATURE_ERROR_MESSAGES,
+  type SignatureError,
+} from '@/services/signatureService'
+import {
+  getSignatureProgress,
+  getSignerRole,
+  hasSigned,
+  isFullySigned,
+  SIGNATURE_PROGRESS_LABELS,
+  type SignatureProgress,
+} from '@/lib/contract/signature'
 import { AccessibleButton, OnboardingEmptyState } from '@/components/ui'
+import { toaster } from '@/lib/toaster'
 import { logger } from '@/lib/logger'
+import type { SignatureRequest } from '@/types'
+import { SignatureDialog } from './SignatureDialog'
 
 interface Props {
-  employerId: string
+  profileId: string
+  profileRole: 'employer' | 'employee' | 'caregiver'
+  /** Employeur concerné (employeur connecté ou employeur de l'aidant) */
+  employerId?: string
   searchTerm?: string
 }
 
@@ -41,6 +72,26 @@ const STATUS_COLORS: Record<string, string> = {
   suspended: 'orange',
 }
 
+const PROGRESS_COLORS: Record<SignatureProgress, string> = {
+  awaiting_both: 'gray',
+  awaiting_employer: 'orange',
+  awaiting_employee: 'orange',
+  signed: 'green',
+  cancelled: 'red',
+}
+
+/** Dernière demande par document (contrat ou avenant), de la plus récente à la plus ancienne */
+function latestRequests(requests: SignatureRequest[], contractId: string): SignatureRequest[] {
+  const seen = new Set<string>()
+  return requests.filter((r) => {
+    if (r.contractId !== contractId) return false
+    const key = r.amendmentId ?? r.timesheetId ?? 'contract'
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
+
 function DocIcon() {
   return (
     <Icon asChild boxSize="20px">
@@ -64,10 +115,17 @@ function DownloadIcon() {
   )
 }
 
-export function ContractsSection({ employerId, searchTerm = '' }: Props) {
+export function ContractsSection({ profileId, profileRole, employerId, searchTerm = '' }: Props) {
   const [contracts, setContracts] = useState<ContractWithEmployee[]>([])
+  const [requests, setRequests] = useState<SignatureRequest[]>([])
+  const [ownName, setOwnName] = useState('')
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [signing, setSigning] = useState<SignatureRequest | null>(null)
+
+  const isEmployee = profileRole === 'employee'
+  const isEmployer = profileRole === 'employer'
 
   const filteredContracts = useMemo(() => {
     const q = searchTerm.trim().toLowerCase()
@@ -82,20 +140,134 @@ export function ContractsSection({ employerId, searchTerm = '' }: Props) {
 
   const loadContracts = useCallback(async () => {
     try {
-      const list = await getContractsForEmployer(employerId)
+      // Pour l'auxiliaire, la partie du contrat (champ employee) est l'employeur
+      const list = isEmployee
+        ? await getContractsForEmployee(profileId)
+        : employerId ? await getContractsForEmployer(employerId) : []
+      const [signatureRequests, name] = await Promise.all([
+        getSignatureRequests(list.map((c) => c.id)),
+        getProfileName(profileId),
+      ])
       setContracts(list)
+      setRequests(signatureRequests)
+      setOwnName(name)
     } catch (err) {
       logger.error('Erreur chargement contrats:', err)
       setError('Erreur lors du chargement des contrats')
     } finally {
       setIsLoading(false)
     }
-  }, [employerId])
+  }, [isEmployee, profileId, employerId])
 
   useEffect(() => {
     loadContracts()
   }, [loadContracts])
 
+  const showError = (signatureError: SignatureError) => {
+    toaster.error({ title: 'Signature électronique', description: SIGNATURE_ERROR_MESSAGES[signatureError] })
+  }
+
+  const replaceRequest = (updated: SignatureRequest) => {
+    setRequests((prev) => prev.map((r) => (r.id === updated.id ? updated : r)))
+  }
+
+  const handleRequestSignature = async (contract: ContractWithEmployee) => {
+    setBusyId(contract.id)
+    const result = await requestContractSignature(contract)
+    setBusyId(null)
+    if (!result.success) return showError(result.error)
+    setRequests((prev) => [result.data, ...prev])
+    toaster.success({ title: 'Contrat envoyé pour signature', description: 'Le salarié a été invité à le signer.' })
+  }
+
+  const handleRemind = async (request: SignatureRequest) => {
+    setBusyId(request.id)
+    const result = await remindSigner(request, profileId, ownName)
+    setBusyId(null)
+    if (!result.success) return showError(result.error)
+    toaster.success({ title: 'Relance envoyée', description: request.title })
+  }
+
+  const handleSeal = async (request: SignatureRequest) => {
+    setBusyId(request.id)
+    const result = await sealSignatureRequest(request)
+    setBusyId(null)
+    if (!result.success) return showError(result.error)
+    replaceRequest(result.data)
+    toaster.success({ title: 'Document scellé', description: 'Le document signé par les deux parties est disponible.' })
+  }
+
+  const handleCancel = async (request: SignatureRequest) => {
+    setBusyId(request.id)
+    const result = await cancelSignatureRequest(request.id)
+    setBusyId(null)
+    if (!result.success) return showError(result.error)
+    replaceRequest(result.data)
+  }
+
+  const handleDownload = async (request: SignatureRequest) => {
+    const url = await getEmployeeDocumentSignedUrl(request.sealedPath ?? request.documentPath)
+    if (!url) {
+      toaster.error({ title: 'Erreur', description: 'Impossible de générer le lien de téléchargement.' })
+      return
+    }
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `${request.title}${request.sealedPath ? ' (signé)' : ''}.pdf`
+    a.click()
+  }
+
+  const handleSigned = (updated: SignatureRequest) => {
+    replaceRequest(updated)
+    setSigning(null)
+  }
+
+  const renderSignatureActions = (request: SignatureRequest) => {
+    const role = getSignerRole(request, profileId)
+    const isPending = request.status === 'pending'
+    const isBusy = busyId === request.id
+    const otherRole = role === 'employer' ? 'employee' : 'employer'
+
+    return (
+      <>
+        {role && isPending && !hasSigned(request, role) && (
+          <Button size="xs" colorPalette="brand" onClick={() => setSigning(request)}>
+            Signer
+          </Button>
+        )}
+        {role && isPending && hasSigned(request, role) && !hasSigned(request, otherRole) && (
+          <Button size="xs" variant="outline" colorPalette="brand" loading={isBusy} onClick={() => handleRemind(request)}>
+            Relancer
+          </Button>
+        )}
+        {role && isPending && isFullySigned(request) && (
+          <Button size="xs" variant="outline" colorPalette="brand" loading={isBusy} onClick={() => handleSeal(request)}>
+            Finaliser
+          </Button>
+        )}
+        {role === 'employer' && isPending && !isFullySigned(request) && (
+          <Button size="xs" variant="ghost" colorPalette="red" loading={isBusy} onClick={() => handleCancel(request)}>
+            Annuler
+          </Button>
+        )}
+        {request.status !== 'cancelled' && (
+          <Button
+            size="sm"
+            variant="ghost"
+            aria-label={`Télécharger ${request.title}`}
+            onClick={() => handleDownload(request)}
+          >
+            <DownloadIcon />
+            Télécharger
+          </Button>
+        )}
+        <Badge colorPalette={PROGRESS_COLORS[getSignatureProgress(request)]} variant="subtle">
+          {SIGNATURE_PROGRESS_LABELS[getSignatureProgress(request)]}
+        </Badge>
+      </>
+    )
+  }
+
   if (isLoading) {
     return (
       <Center py={8}>
@@ -114,6 +286,18 @@ export function ContractsSection({ employerId, searchTerm = '' }: Props) {
   }
 
   if (contracts.length === 0) {
+    if (!isEmployer) {
+      return (
+        <EmptyState.Root>
+          <EmptyState.Content>
+            <EmptyState.Title>Aucun contrat</EmptyState.Title>
+            <EmptyState.Description>
+              Vos contrats de travail apparaîtront ici.
+            </EmptyState.Description>
+          </EmptyState.Content>
+        </EmptyState.Root>
+      )
+    }
     return (
       <OnboardingEmptyState
         icon={
@@ -150,64 +334,101 @@ export function ContractsSection({ employerId, searchTerm = '' }: Props) {
 
   return (
     <VStack gap={0} align="stretch">
-      {filteredContracts.map((contract) => (
-        <Box
-          key={contract.id}
-          py={4}
-          px={4}
-          borderBottomWidth="1px"
-          borderColor="border.default"
-          _last={{ borderBottomWidth: 0 }}
-        >
-          <HStack gap={4} align="center" flexWrap="wrap">
-            {/* Doc icon */}
-            <Box
-              w="40px"
-              h="40px"
-              borderRadius="10px"
-              bg="brand.subtle"
-              color="brand.600"
-              display="flex"
-              alignItems="center"
-              justifyContent="center"
-              flexShrink={0}
-            >
-              <DocIcon />
-            </Box>
-
-            {/* Doc info */}
-            <VStack align="start" gap={0} flex={1} minW="200px">
-              <Text fontWeight="semibold" fontSize="sm">
-                Contrat {contract.contractType}
-                {contract.employee && ` — ${contract.employee.firstName} ${contract.employee.lastName}`}
-              </Text>
-              <Text fontSize="xs" color="text.muted">
-                {contract.weeklyHours}h/semaine · Signe le{' '}
-                {format(contract.startDate, 'd MMM yyyy', { locale: fr })}
-                {contract.endDate && ` · Fin le ${format(contract.endDate, 'd MMM yyyy', { locale: fr })}`}
-              </Text>
-            </VStack>
-
-            {/* Doc actions */}
-            <HStack gap={3} flexShrink={0}>
-              <Button
-                size="sm"
-                variant="ghost"
-                aria-label={`Télécharger contrat ${contract.employee?.firstName ?? ''} ${contract.employee?.lastName ?? ''}`}
-              >
-                <DownloadIcon />
-                Télécharger
-              </Button>
-              <Badge
-                colorPalette={STATUS_COLORS[contract.status] || 'gray'}
-                variant="subtle"
+      {filteredContracts.map((contract) => {
+        const documents = latestRequests(requests, contract.id)
+        const contractRequest = documents.find((r) => r.documentType === 'contract')
+        const amendmentRequests = documents.filter((r) => r.documentType === 'amendment' && r.status !== 'cancelled')
+        const canRequest = isEmployer
+          && contract.status === 'active'
+          && contract.contractCategory === 'employment'
+          && !!contract.employeeId
+          && (!contractRequest || contractRequest.status === 'cancelled')
+
+        return (
+          <Box
+            key={contract.id}
+            py={4}
+            px={4}
+            borderBottomWidth="1px"
+            borderColor="border.default"
+            _last={{ borderBottomWidth: 0 }}
+          >
+            <HStack gap={4} align="center" flexWrap="wrap">
+              {/* Doc icon */}
+              <Box
+                w="40px"
+                h="40px"
+                borderRadius="10px"
+                bg="brand.subtle"
+                color="brand.600"
+                display="flex"
+                alignItems="center"
+                justifyContent="center"
+                flexShrink={0}
               >
-                {STATUS_LABELS[contract.status] || contract.status}
-              </Badge>
+                <DocIcon />
+              </Box>
+
+              {/* Doc info */}
+              <VStack align="start" gap={0} flex={1} minW="200px">
+                <Text fontWeight="semibold" fontSize="sm">
+                  Contrat {contract.contractType}
+                  {contract.employee && ` — ${contract.employee.firstName} ${contract.employee.lastName}`}
+                </Text>
+                <Text fontSize="xs" color="text.muted">
+                  {contract.weeklyHours}h/semaine · Débute le{' '}
+                  {format(contract.startDate, 'd MMM yyyy', { locale: fr })}
+                  {contract.endDate && ` · Fin le ${format(contract.endDate, 'd MMM yyyy', { locale: fr })}`}
+                </Text>
+              </VStack>
+
+              {/* Doc actions */}
+              <HStack gap={3} flexShrink={0} flexWrap="wrap">
+                {canRequest && (
+                  <Button
+                    size="xs"
+                    variant="outline"
+                    colorPalette="brand"
+                    loading={busyId === contract.id}
+                    onClick={() => handleRequestSignature(contract)}
+                  >
+                    Envoyer pour signature
+                  </Button>
+                )}
+                {contractRequest && renderSignatureActions(contractRequest)}
+                <Badge
+                  colorPalette={STATUS_COLORS[contract.status] || 'gray'}
+                  variant="subtle"
+                >
+                  {STATUS_LABELS[contract.status] || contract.status}
+                </Badge>
+              </HStack>
             </HStack>
-          </HStack>
-        </Box>
-      ))}
+
+            {/* Avenants soumis à la signature */}
+            {amendmentRequests.map((request) => (
+              <HStack key={request.id} gap={4} align="center" flexWrap="wrap" mt={3} pl="56px">
+                <Text fontSize="sm" flex={1} minW="200px">
+                  {request.title}
+                </Text>
+                <HStack gap={3} flexShrink={0} flexWrap="wrap">
+                  {renderSignatureActions(request)}
+                </HStack>
+              </HStack>
+            ))}
+          </Box>
+        )
+      })}
+
+      {signing && (
+        <SignatureDialog
+          key={signing.id}
+          request={signing}
+          defaultSignerName={ownName}
+          onClose={() => setSigning(null)}
+          onSigned={handleSigned}
+        />
+      )}
     </VStack>
   )
 }
@@ -28,13 +28,14 @@ import { getJustificationSignedUrl } from '@/services/absenceJustificationServic
 import { logger } from '@/lib/logger'
 import { toaster } from '@/lib/toaster'
 import { OnboardingEmptyState } from '@/components/ui'
+import { ReplacementFinderModal } from '@/components/planning/ReplacementFinderModal'
 import {
   ABSENCE_TYPE_LABELS,
   ABSENCE_TYPE_COLORS,
   ABSENCE_STATUS_LABELS as STATUS_LABELS,
   ABSENCE_STATUS_COLORS as STATUS_COLORS,
 } from '@/lib/constants/statusMaps'
-import type { AbsenceType } from '@/types'
+import type { Absence, AbsenceType } from '@/types'
 
 const MONTHS_FR = [
   'Janvier', 'Février', 'Mars', 'Avril', 'Mai', 'Juin',
@@ -51,6 +52,7 @@ export function DocumentManagementSection({ employerId, searchTerm = '' }: Docum
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [processingId, setProcessingId] = useState<string | null>(null)
+  const [coverageAbsence, setCoverageAbsence] = useState<Absence | null>(null)
 
   // Filtres
   const [filterEmployeeId, setFilterEmployeeId] = useState<string>('')
@@ -148,6 +150,9 @@ export function DocumentManagementSection({ employerId, searchTerm = '' }: Docum
     setProcessingId(absenceId)
     try {
       await updateAbsenceStatus(absenceId, status)
+      if (status === 'approved') {
+        setCoverageAbsence(documents.find((d) => d.absence.id === absenceId)?.absence ?? null)
+      }
       await loadDocuments()
       toaster.create({
         title: status === 'approved' ? 'Absence approuvée' : 'Absence refusée',
@@ -420,6 +425,14 @@ export function DocumentManagementSection({ employerId, searchTerm = '' }: Docum
           </Table.Root>
         </Box>
       )}
+
+      <ReplacementFinderModal
+        isOpen={coverageAbsence !== null}
+        onClose={() => setCoverageAbsence(null)}
+        absence={coverageAbsence}
+        employerId={employerId}
+        onSuccess={loadDocuments}
+      />
     </VStack>
   )
 }
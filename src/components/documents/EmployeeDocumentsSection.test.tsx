@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { screen, waitFor, fireEvent } from '@testing-library/react'
+import { renderWithProviders } from '@/test/helpers'
+import { EmployeeDocumentsSection } from './EmployeeDocumentsSection'
+import type { EmployeeDocument } from '@/types'
+
+// ─── Mocks ─────────────────────────────────────────────────────────────
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn(), debug: vi.fn() },
+}))
+
+vi.mock('@/services/employeeDocumentService', () => ({
+  getEmployeeDocuments: vi.fn(),
+  getEmployeeDocumentSignedUrl: vi.fn(),
+}))
+
+import { getEmployeeDocuments, getEmployeeDocumentSignedUrl } from '@/services/employeeDocumentService'
+
+const mockGetEmployeeDocuments = vi.mocked(getEmployeeDocuments)
+const mockGetSignedUrl = vi.mocked(getEmployeeDocumentSignedUrl)
+
+// ─── Helpers ───────────────────────────────────────────────────────────
+
+function makeDocument(overrides: Partial<EmployeeDocument> = {}): EmployeeDocument {
+  return {
+    id: 'd1',
+    employerId: 'emp-1',
+    employeeId: 'me',
+    contractId: 'c-1',
+    documentType: 'work_certificate',
+    title: 'Certificat de travail',
+    storagePath: 'emp-1/me/c-1/work_certificate.pdf',
+    createdAt: new Date('2026-05-02T10:00:00Z'),
+    ...overrides,
+  }
+}
+
+// ─── Tests ─────────────────────────────────────────────────────────────
+
+describe('EmployeeDocumentsSection', () => {
+  beforeEach(() => {
+    mockGetEmployeeDocuments.mockReset()
+    mockGetSignedUrl.mockReset()
+  })
+
+  it('affiche un état vide quand aucun document', async () => {
+    mockGetEmployeeDocuments.mockResolvedValue([])
+
+    renderWithProviders(<EmployeeDocumentsSection employeeId="me" />)
+
+    await waitFor(() => {
+      expect(screen.getByText(/aucun document pour l'instant/i)).toBeInTheDocument()
+    })
+  })
+
+  it('liste les documents remis par l\'employeur', async () => {
+    mockGetEmployeeDocuments.mockResolvedValue([
+      makeDocument(),
+      makeDocument({ id: 'd2', documentType: 'final_pay_statement', title: 'Reçu pour solde de tout compte' }),
+    ])
+
+    renderWithProviders(<EmployeeDocumentsSection employeeId="me" />)
+
+    await waitFor(() => {
+      expect(screen.getByText('Certificat de travail')).toBeInTheDocument()
+    })
+    expect(screen.getByText('Reçu pour solde de tout compte')).toBeInTheDocument()
+    expect(screen.getByText(/2 documents remis/i)).toBeInTheDocument()
+    expect(mockGetEmployeeDocuments).toHaveBeenCalledWith('me')
+  })
+
+  it('demande une URL signée au téléchargement', async () => {
+    mockGetEmployeeDocuments.mockResolvedValue([makeDocument()])
+    mockGetSignedUrl.mockResolvedValue(null)
+
+    renderWithProviders(<EmployeeDocumentsSection employeeId="me" />)
+
+    const button = await screen.findByLabelText('Télécharger : Certificat de travail')
+    fireEvent.click(button)
+
+    await waitFor(() => {
+      expect(mockGetSignedUrl).toHaveBeenCalledWith('emp-1/me/c-1/work_certificate.pdf')
+    })
+  })
+})
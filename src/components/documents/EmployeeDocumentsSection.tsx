@@ -0,0 +1,137 @@
+/**
+ * Vue employé des documents remis par l'employeur (lecture seule).
+ * Documents de fin de contrat : reçu pour solde de tout compte, certificat
+ * de travail, attestation France Travail. Accès protégé par RLS
+ * (`employee_documents`, bucket "employee-documents").
+ */
+
+import { useState, useEffect } from 'react'
+import {
+  Box,
+  VStack,
+  Text,
+  Spinner,
+  Center,
+  Table,
+  IconButton,
+} from '@chakra-ui/react'
+import { toaster } from '@/lib/toaster'
+import { getEmployeeDocuments, getEmployeeDocumentSignedUrl } from '@/services/employeeDocumentService'
+import { OnboardingEmptyState } from '@/components/ui'
+import type { EmployeeDocument } from '@/types'
+
+interface Props {
+  employeeId: string
+}
+
+function formatUploadDate(date: Date): string {
+  return date.toLocaleDateString('fr-FR', { day: '2-digit', month: '2-digit', year: 'numeric' })
+}
+
+export function EmployeeDocumentsSection({ employeeId }: Props) {
+  const [documents, setDocuments] = useState<EmployeeDocument[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+    getEmployeeDocuments(employeeId)
+      .then((list) => {
+        if (!cancelled) setDocuments(list)
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [employeeId])
+
+  const handleDownload = async (doc: EmployeeDocument) => {
+    const url = await getEmployeeDocumentSignedUrl(doc.storagePath)
+    if (!url) {
+      toaster.create({
+        title: 'Erreur',
+        description: 'Impossible de générer le lien de téléchargement.',
+        type: 'error',
+      })
+      return
+    }
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `${doc.documentType}.pdf`
+    a.click()
+  }
+
+  if (isLoading) {
+    return (
+      <Center py={8}>
+        <Spinner size="lg" color="brand.500" />
+      </Center>
+    )
+  }
+
+  if (documents.length === 0) {
+    return (
+      <OnboardingEmptyState
+        icon={
+          <>
+            <path d="M14 2H6a2 2 0 00-2 2v16a2 2 0 002 2h12a2 2 0 002-2V8z" />
+            <polyline points="14 2 14 8 20 8" />
+          </>
+        }
+        title="Aucun document pour l'instant"
+        description="Les documents remis par votre employeur, comme le certificat de travail en fin de contrat, apparaîtront ici."
+      />
+    )
+  }
+
+  return (
+    <VStack gap={4} align="stretch">
+      <Text fontSize="sm" color="text.muted">
+        {documents.length} document{documents.length > 1 ? 's' : ''} remis
+      </Text>
+
+      <Box overflowX="auto">
+        <Table.Root size="sm">
+          <Table.Header>
+            <Table.Row>
+              <Table.ColumnHeader>Document</Table.ColumnHeader>
+              <Table.ColumnHeader>Reçu le</Table.ColumnHeader>
+              <Table.ColumnHeader textAlign="center">Télécharger</Table.ColumnHeader>
+            </Table.Row>
+          </Table.Header>
+          <Table.Body>
+            {documents.map((doc) => (
+              <Table.Row key={doc.id}>
+                <Table.Cell>
+                  <Text fontSize="sm" fontWeight="medium">
+                    {doc.title}
+                  </Text>
+                </Table.Cell>
+                <Table.Cell>
+                  <Text fontSize="sm" color="text.muted">
+                    {formatUploadDate(doc.createdAt)}
+                  </Text>
+                </Table.Cell>
+                <Table.Cell textAlign="center">
+                  <IconButton
+                    aria-label={`Télécharger : ${doc.title}`}
+                    size="xs"
+                    variant="ghost"
+                    colorPalette="brand"
+                    title="Télécharger le PDF"
+                    onClick={() => handleDownload(doc)}
+                  >
+                    ↓
+                  </IconButton>
+                </Table.Cell>
+              </Table.Row>
+            ))}
+          </Table.Body>
+        </Table.Root>
+      </Box>
+    </VStack>
+  )
+}
+
+export default EmployeeDocumentsSection
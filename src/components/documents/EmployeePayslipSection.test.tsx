@@ -115,4 +115,18 @@ describe('EmployeePayslipSection', () => {
     })
     expect(screen.queryByLabelText(/télécharger le bulletin/i)).not.toBeInTheDocument()
   })
+
+  it('affiche le net à payer des bulletins générés par l\'app', async () => {
+    mockGetPayslipsForEmployee.mockResolvedValue([
+      makePayslip({ id: 'p1', month: 3, netPay: 1234.56, grossPay: 1580 }),
+      makePayslip({ id: 'p2', month: 2 }),
+    ])
+
+    renderWithProviders(<EmployeePayslipSection employeeId="me" />)
+
+    await waitFor(() => {
+      expect(screen.getByText('Mars 2026')).toBeInTheDocument()
+    })
+    expect(screen.getByText(/1\s234,56\s€/)).toBeInTheDocument()
+  })
 })
@@ -1,7 +1,8 @@
 /**
  * Vue employé des bulletins de paie (lecture seule).
- * L'employé voit ses propres bulletins uploadés par son employeur
- * via CESU déclaratif. Accès protégé par RLS (`payslips_employee_select`).
+ * L'employé voit ses propres bulletins : bulletins officiels uploadés par
+ * son employeur (CESU déclaratif) ou générés par l'app. Accès protégé par
+ * RLS (`payslips_employee_select`).
  */
 
 import { useState, useEffect, useMemo } from 'react'
@@ -20,6 +21,7 @@ import {
 import { toaster } from '@/lib/toaster'
 import { getPayslipsForEmployee, getPayslipSignedUrl } from '@/services/payslipStorageService'
 import { MONTHS_FR } from '@/lib/export/types'
+import { formatCurrency } from '@/lib/compliance'
 import { OnboardingEmptyState } from '@/components/ui'
 import type { Payslip } from '@/types'
 
@@ -111,7 +113,7 @@ export function EmployeePayslipSection({ employeeId, searchTerm = '' }: Props) {
           </>
         }
         title="Aucun bulletin pour l'instant"
-        description="Vos bulletins de salaire apparaîtront ici dès que votre employeur les aura déposés depuis le portail CESU."
+        description="Vos bulletins de salaire apparaîtront ici dès que votre employeur les aura déposés ou générés."
       />
     )
   }
@@ -156,6 +158,7 @@ export function EmployeePayslipSection({ employeeId, searchTerm = '' }: Props) {
               <Table.Row>
                 <Table.ColumnHeader>Période</Table.ColumnHeader>
                 <Table.ColumnHeader>Reçu le</Table.ColumnHeader>
+                <Table.ColumnHeader textAlign="end">Net à payer</Table.ColumnHeader>
                 <Table.ColumnHeader textAlign="center">Télécharger</Table.ColumnHeader>
               </Table.Row>
             </Table.Header>
@@ -172,6 +175,11 @@ export function EmployeePayslipSection({ employeeId, searchTerm = '' }: Props) {
                       {formatUploadDate(p.generatedAt)}
                     </Text>
                   </Table.Cell>
+                  <Table.Cell textAlign="end">
+                    <Text fontSize="sm" color={p.netPay !== null ? 'text.default' : 'text.muted'}>
+                      {p.netPay !== null ? formatCurrency(p.netPay) : '—'}
+                    </Text>
+                  </Table.Cell>
                   <Table.Cell textAlign="center">
                     {p.storagePath ? (
                       <IconButton
@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { screen, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { renderWithProviders } from '@/test/helpers'
+import type { ShoppingExpense } from '@/types'
+
+vi.mock('@/services/contractService', () => ({
+  getContractsForEmployer: vi.fn(),
+  getContractsForEmployee: vi.fn(),
+}))
+
+vi.mock('@/services/profileService', () => ({
+  getProfileName: vi.fn(),
+}))
+
+vi.mock('@/services/shoppingExpenseService', () => ({
+  getMonthlyShoppingExpenses: vi.fn(),
+  markShoppingExpensesReimbursed: vi.fn(),
+}))
+
+vi.mock('@/lib/export', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/export')>()),
+  generateExpenseReportPdf: vi.fn(),
+  downloadExport: vi.fn(),
+}))
+
+import { getContractsForEmployer, getContractsForEmployee } from '@/services/contractService'
+import { getProfileName } from '@/services/profileService'
+import { getMonthlyShoppingExpenses, markShoppingExpensesReimbursed } from '@/services/shoppingExpenseService'
+import { downloadExport } from '@/lib/export'
+import { ExpenseReportSection } from './ExpenseReportSection'
+
+const contract = {
+  id: 'contract-1',
+  employerId: 'employer-1',
+  employeeId: 'employee-1',
+  contractCategory: 'employment' as const,
+  contractType: 'CDI' as const,
+  startDate: new Date('2025-01-01'),
+  weeklyHours: 20,
+  hourlyRate: 13,
+  pasRate: 0,
+  status: 'active' as const,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  employee: { firstName: 'Marie', lastName: 'Curie' },
+}
+
+function makeExpense(overrides: Partial<ShoppingExpense> = {}): ShoppingExpense {
+  return {
+    id: 'exp-1',
+    shiftId: 'shift-1',
+    contractId: 'contract-1',
+    employerId: 'employer-1',
+    employeeId: 'employee-1',
+    shiftDate: new Date(),
+    items: [{ name: 'Lait', brand: '', plannedQuantity: 1, quantity: 1, price: 12.5, bought: true }],
+    receipts: [],
+    amountAdvanced: 12.5,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  }
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  vi.mocked(getContractsForEmployer).mockResolvedValue([contract])
+  vi.mocked(getContractsForEmployee).mockResolvedValue([contract])
+  vi.mocked(getProfileName).mockResolvedValue('Paul Durand')
+})
+
+describe('ExpenseReportSection', () => {
+  it('affiche le reste à rembourser et permet à l\'employeur de solder le mois', async () => {
+    const user = userEvent.setup()
+    vi.mocked(getMonthlyShoppingExpenses).mockResolvedValue([makeExpense()])
+    vi.mocked(markShoppingExpensesReimbursed).mockResolvedValue(1)
+
+    renderWithProviders(
+      <ExpenseReportSection profileId="employer-1" profileRole="employer" employerId="employer-1" />
+    )
+
+    expect(await screen.findByText('Marie Curie')).toBeInTheDocument()
+    expect(screen.getByText(/à rembourser/)).toBeInTheDocument()
+
+    await user.click(screen.getByRole('button', { name: 'Marquer remboursé' }))
+
+    const now = new Date()
+    await waitFor(() => {
+      expect(markShoppingExpensesReimbursed).toHaveBeenCalledWith('contract-1', now.getFullYear(), now.getMonth() + 1)
+    })
+  })
+
+  it('exporte le récapitulatif CSV', async () => {
+    const user = userEvent.setup()
+    vi.mocked(getMonthlyShoppingExpenses).mockResolvedValue([makeExpense()])
+
+    renderWithProviders(
+      <ExpenseReportSection profileId="employer-1" profileRole="employer" employerId="employer-1" />
+    )
+
+    await user.click(await screen.findByRole('button', { name: 'CSV' }))
+
+    await waitFor(() => {
+      expect(downloadExport).toHaveBeenCalledWith(
+        expect.objectContaining({ filename: expect.stringMatching(/^frais_avances_marie_curie_/) })
+      )
+    })
+  })
+
+  it('ne propose pas le remboursement à l\'auxiliaire', async () => {
+    vi.mocked(getMonthlyShoppingExpenses).mockResolvedValue([makeExpense()])
+
+    renderWithProviders(<ExpenseReportSection profileId="employee-1" profileRole="employee" />)
+
+    expect(await screen.findByText('Marie Curie')).toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: 'Marquer remboursé' })).not.toBeInTheDocument()
+  })
+})
@@ -0,0 +1,244 @@
+/**
+ * Section "Frais avancés" dans la page Documents.
+ * Récapitulatif mensuel, par auxiliaire, des courses payées pendant les
+ * interventions (saisies avec ticket de caisse dans le détail de
+ * l'intervention). L'employeur marque le mois remboursé ; l'export CSV/PDF
+ * sert de justificatif.
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import {
+  Box,
+  VStack,
+  HStack,
+  Text,
+  Button,
+  Badge,
+  Table,
+  NativeSelect,
+  Spinner,
+} from '@chakra-ui/react'
+import {
+  generateExpenseReportCsv,
+  generateExpenseReportPdf,
+  downloadExport,
+  MONTHS_FR,
+  type ExpenseReportData,
+} from '@/lib/export'
+import { buildExpenseReport, formatEuros, type AuxiliaryExpenseReport } from '@/lib/shopping/expenses'
+import { getContractsForEmployer, getContractsForEmployee, type ContractWithEmployee } from '@/services/contractService'
+import { getProfileName } from '@/services/profileService'
+import { getMonthlyShoppingExpenses, markShoppingExpensesReimbursed } from '@/services/shoppingExpenseService'
+import { toaster } from '@/lib/toaster'
+import { logger } from '@/lib/logger'
+import { OnboardingEmptyState } from '@/components/ui'
+
+interface Props {
+  profileId: string
+  profileRole: 'employer' | 'employee' | 'caregiver'
+  /** Employeur concerné (employeur connecté ou employeur de l'aidant) */
+  employerId?: string
+}
+
+function partyName(contract: ContractWithEmployee): string {
+  const party = contract.employee ?? contract.caregiver
+  return party ? `${party.firstName} ${party.lastName}`.trim() : 'Auxiliaire'
+}
+
+export function ExpenseReportSection({ profileId, profileRole, employerId }: Props) {
+  const now = new Date()
+  const currentYear = now.getFullYear()
+  const years = [currentYear, currentYear - 1, currentYear - 2]
+
+  const [selectedYear, setSelectedYear] = useState(currentYear)
+  const [selectedMonth, setSelectedMonth] = useState(now.getMonth() + 1)
+
+  const [contracts, setContracts] = useState<ContractWithEmployee[]>([])
+  const [reports, setReports] = useState<AuxiliaryExpenseReport[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [busyContractId, setBusyContractId] = useState<string | null>(null)
+
+  const isEmployee = profileRole === 'employee'
+  const canReimburse = profileRole === 'employer'
+
+  const loadReports = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const list = isEmployee
+        ? await getContractsForEmployee(profileId)
+        : employerId ? await getContractsForEmployer(employerId) : []
+      setContracts(list)
+      const expenses = await getMonthlyShoppingExpenses(list.map((c) => c.id), selectedYear, selectedMonth)
+      setReports(buildExpenseReport(expenses, Object.fromEntries(list.map((c) => [c.id, partyName(c)]))))
+    } catch (err) {
+      logger.error('Erreur chargement frais avancés:', err)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [isEmployee, profileId, employerId, selectedYear, selectedMonth])
+
+  useEffect(() => {
+    loadReports()
+  }, [loadReports])
+
+  /** Données d'export : pour l'auxiliaire, la partie du contrat est l'employeur */
+  const buildExportData = async (report: AuxiliaryExpenseReport): Promise<ExpenseReportData> => {
+    const contract = contracts.find((c) => c.id === report.contractId)
+    const ownName = await getProfileName(isEmployee ? profileId : contract?.employerId ?? employerId ?? '')
+    return {
+      year: selectedYear,
+      month: selectedMonth,
+      employerName: isEmployee ? report.employeeName : ownName,
+      report: isEmployee ? { ...report, employeeName: ownName } : report,
+      generatedAt: new Date(),
+    }
+  }
+
+  const handleExport = async (report: AuxiliaryExpenseReport, exportFormat: 'csv' | 'pdf') => {
+    setBusyContractId(report.contractId)
+    try {
+      const data = await buildExportData(report)
+      const result = exportFormat === 'csv' ? generateExpenseReportCsv(data) : await generateExpenseReportPdf(data)
+      if (result.success) {
+        downloadExport(result)
+      } else {
+        toaster.error({ title: 'Erreur', description: result.error || 'Erreur lors de la génération du récapitulatif' })
+      }
+    } finally {
+      setBusyContractId(null)
+    }
+  }
+
+  const handleReimburse = async (report: AuxiliaryExpenseReport) => {
+    setBusyContractId(report.contractId)
+    try {
+      const count = await markShoppingExpensesReimbursed(report.contractId, selectedYear, selectedMonth)
+      toaster.success({
+        title: 'Frais remboursés',
+        description: `${report.employeeName} — ${formatEuros(report.pendingTotal)} (${count} intervention${count > 1 ? 's' : ''})`,
+      })
+      await loadReports()
+    } catch (err) {
+      logger.error('Erreur remboursement frais avancés:', err)
+      toaster.error({
+        title: 'Erreur',
+        description: err instanceof Error ? err.message : 'Impossible de marquer les frais remboursés.',
+      })
+    } finally {
+      setBusyContractId(null)
+    }
+  }
+
+  return (
+    <VStack gap={4} align="stretch">
+      {/* ── Toolbar ── */}
+      <HStack gap={3} flexWrap="wrap">
+        <NativeSelect.Root size="sm" width="auto" minW="140px">
+          <NativeSelect.Field
+            value={selectedMonth}
+            onChange={(e) => setSelectedMonth(Number(e.target.value))}
+            aria-label="Mois"
+          >
+            {MONTHS_FR.map((m, i) => (
+              <option key={i + 1} value={i + 1}>{m}</option>
+            ))}
+          </NativeSelect.Field>
+          <NativeSelect.Indicator />
+        </NativeSelect.Root>
+        <NativeSelect.Root size="sm" width="auto" minW="100px">
+          <NativeSelect.Field
+            value={selectedYear}
+            onChange={(e) => setSelectedYear(Number(e.target.value))}
+            aria-label="Année"
+          >
+            {years.map((y) => (
+              <option key={y} value={y}>{y}</option>
+            ))}
+          </NativeSelect.Field>
+          <NativeSelect.Indicator />
+        </NativeSelect.Root>
+      </HStack>
+
+      <Text fontSize="xs" color="text.muted">
+        {isEmployee
+          ? "Courses payées de votre poche pendant vos interventions. Renseignez les achats et le ticket de caisse dans le détail de l'intervention."
+          : "Courses payées par vos auxiliaires pendant les interventions, avec les tickets de caisse joints. Marquez le mois remboursé une fois le virement effectué."}
+      </Text>
+
+      {/* ── Tableau ── */}
+      {isLoading ? (
+        <HStack justify="center" py={8}>
+          <Spinner size="sm" />
+          <Text fontSize="sm" color="text.muted">Chargement des frais…</Text>
+        </HStack>
+      ) : reports.length === 0 ? (
+        <OnboardingEmptyState
+          icon={
+            <>
+              <circle cx="9" cy="21" r="1" />
+              <circle cx="20" cy="21" r="1" />
+              <path d="M1 1h4l2.68 13.39a2 2 0 0 0 2 1.61h9.72a2 2 0 0 0 2-1.61L23 6H6" />
+            </>
+          }
+          title="Aucun frais avancé"
+          description={`Aucune course payée par un auxiliaire en ${MONTHS_FR[selectedMonth - 1].toLowerCase()} ${selectedYear}.`}
+        />
+      ) : (
+        <Box overflowX="auto">
+          <Table.Root size="sm">
+            <Table.Header>
+              <Table.Row>
+                <Table.ColumnHeader>{isEmployee ? 'Employeur' : 'Auxiliaire'}</Table.ColumnHeader>
+                <Table.ColumnHeader textAlign="right">Avancé</Table.ColumnHeader>
+                <Table.ColumnHeader>Remboursement</Table.ColumnHeader>
+                <Table.ColumnHeader textAlign="right">Actions</Table.ColumnHeader>
+              </Table.Row>
+            </Table.Header>
+            <Table.Body>
+              {reports.map((report) => {
+                const isBusy = busyContractId === report.contractId
+                return (
+                  <Table.Row key={report.contractId}>
+                    <Table.Cell>
+                      <Text fontWeight="medium" fontSize="sm">{report.employeeName}</Text>
+                      <Text fontSize="xs" color="text.muted">
+                        {report.expenses.length} intervention{report.expenses.length > 1 ? 's' : ''}
+                      </Text>
+                    </Table.Cell>
+                    <Table.Cell textAlign="right">
+                      <Text fontSize="sm" fontWeight="semibold">{formatEuros(report.total)}</Text>
+                    </Table.Cell>
+                    <Table.Cell>
+                      {report.pendingTotal > 0 ? (
+                        <Badge colorPalette="orange" size="sm">
+                          {formatEuros(report.pendingTotal)} à rembourser
+                        </Badge>
+                      ) : (
+                        <Badge colorPalette="green" size="sm">Remboursé</Badge>
+                      )}
+                    </Table.Cell>
+                    <Table.Cell textAlign="right">
+                      <HStack gap={1} justify="flex-end" flexWrap="wrap">
+                        {canReimburse && report.pendingTotal > 0 && (
+                          <Button size="xs" colorPalette="brand" loading={isBusy} onClick={() => handleReimburse(report)}>
+                            Marquer remboursé
+                          </Button>
+                        )}
+                        <Button size="xs" variant="ghost" colorPalette="brand" disabled={isBusy} onClick={() => handleExport(report, 'csv')}>
+                          CSV
+                        </Button>
+                        <Button size="xs" variant="ghost" colorPalette="brand" disabled={isBusy} onClick={() => handleExport(report, 'pdf')}>
+                          PDF
+                        </Button>
+                      </HStack>
+                    </Table.Cell>
+                  </Table.Row>
+                )
+              })}
+            </Table.Body>
+          </Table.Root>
+        </Box>
+      )}
+    </VStack>
+  )
+}
@@ -1,12 +1,13 @@
 /**
  * Section "Bulletins de paie" de la page Documents (vue employeur).
  *
- * Workflow :
- *  1. L'URSSAF (CESU déclaratif) envoie le bulletin officiel à l'employeur.
- *  2. L'employeur upload le PDF reçu, rattaché à un couple employé × mois.
- *  3. L'app archive le fichier (bucket "payslips") et affiche l'historique.
+ * Deux façons d'alimenter l'historique, rattachées à un couple employé × mois :
+ *  - Upload du bulletin officiel envoyé par l'URSSAF (CESU déclaratif).
+ *  - Génération par l'app à partir des interventions du mois et du
+ *    calculateur de cotisations (brut, cotisations, PAS, net à payer).
  *
- * La génération PDF côté app a été abandonnée : voir historique git.
+ * Dans les deux cas le PDF est archivé (bucket "payslips") et visible par
+ * l'employé dans sa propre section.
  */
 
 import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
@@ -26,6 +27,7 @@ import {
   Field,
   Dialog,
   CloseButton,
+  Checkbox,
 } from '@chakra-ui/react'
 import { AccessibleButton, OnboardingEmptyState } from '@/components/ui'
 import { toaster } from '@/lib/toaster'
@@ -36,8 +38,17 @@ import {
   getPayslipSignedUrl,
   getPayslipsHistory,
   deletePayslipRecord,
+  saveGeneratedPayslip,
 } from '@/services/payslipStorageService'
-import { MONTHS_FR } from '@/lib/export/types'
+import { isUnsignedTimesheetError } from '@/services/timesheetService'
+import {
+  getMonthlyDeclarationData,
+  buildPayslipData,
+  generatePayslipPdf,
+  MONTHS_FR,
+} from '@/lib/export'
+import { formatCurrency } from '@/lib/compliance'
+import { useConventionSettings } from '@/hooks/useConventionSettings'
 import { logger } from '@/lib/logger'
 import type { Payslip } from '@/types'
 
@@ -54,6 +65,13 @@ function periodLabelFor(year: number, month: number): string {
   return `${MONTHS_FR[month - 1]} ${year}`
 }
 
+// Un mois est clôturé si on est au moins le 1er du mois suivant
+function isMonthClosed(year: number, month: number): boolean {
+  return new Date() >= new Date(year, month, 1)
+}
+
+type DialogMode = 'upload' | 'generate'
+
 export function PayslipSection({ employerId, searchTerm = '' }: Props) {
   const now = new Date()
   const currentYear = now.getFullYear()
@@ -67,15 +85,19 @@ export function PayslipSection({ employerId, searchTerm = '' }: Props) {
   const [contracts, setContracts] = useState<ContractWithEmployee[]>([])
   const [selectedContractId, setSelectedContractId] = useState<string>('')
 
-  // ── Formulaire d'upload
+  // ── Formulaire (upload ou génération)
+  const [dialogMode, setDialogMode] = useState<DialogMode>('upload')
   const [selectedYear, setSelectedYear] = useState(defaultYear)
   const [selectedMonth, setSelectedMonth] = useState(defaultMonth)
   const [selectedFile, setSelectedFile] = useState<File | null>(null)
   const [fileError, setFileError] = useState<string | null>(null)
   const fileInputRef = useRef<HTMLInputElement | null>(null)
+  const [isExemptPatronalSS, setIsExemptPatronalSS] = useState(false)
+  const { majDimanche, majFerie, majNuit, majSupp, ruleOvertime } = useConventionSettings()
 
   // ── États UI
   const [isUploading, setIsUploading] = useState(false)
+  const [isGenerating, setIsGenerating] = useState(false)
   const [dialogError, setDialogError] = useState<string | null>(null)
   const [showUploadDialog, setShowUploadDialog] = useState(false)
 
@@ -231,6 +253,75 @@ export function PayslipSection({ employerId, searchTerm = '' }: Props) {
     }
   }
 
+  const handleGenerate = async () => {
+    const employeeId = selectedContract?.employeeId
+    if (!selectedContract || !employeeId) return
+
+    setDialogError(null)
+    if (!isMonthClosed(selectedYear, selectedMonth)) {
+      setDialogError('Ce mois n\'est pas encore terminé. Le bulletin sera disponible à partir du 1er du mois suivant.')
+      return
+    }
+
+    setIsGenerating(true)
+
+    try {
+      const declaration = await getMonthlyDeclarationData(employerId, {
+        format: 'pdf',
+        year: selectedYear,
+        month: selectedMonth,
+        employeeIds: [employeeId],
+        conventionSettings: { majDimanche, majFerie, majNuit, majSupp, ruleOvertime },
+      })
+
+      const data = declaration
+        ? buildPayslipData(declaration, selectedContract.id, { isExemptPatronalSS })
+        : null
+      if (!data) {
+        setDialogError('Aucune intervention enregistrée pour cet employé sur cette période.')
+        return
+      }
+
+      const pdfResult = await generatePayslipPdf(data)
+      if (!pdfResult.success) {
+        setDialogError(pdfResult.error ?? 'Échec de la génération du PDF.')
+        return
+      }
+
+      const result = await saveGeneratedPayslip(data, pdfResult.content)
+      if (!result.success) {
+        setDialogError(result.error ?? 'Échec de l\'enregistrement du bulletin.')
+        return
+      }
+
+      await loadAllPayslips()
+
+      toaster.create({
+        title: 'Bulletin généré',
+        description: `${data.employee.firstName} ${data.employee.lastName} — ${data.periodLabel}, net à payer ${formatCurrency(data.cotisations.netAPayer)}`,
+        type: 'success',
+      })
+
+      setShowUploadDialog(false)
+      resetDialog()
+    } catch (err) {
+      logger.error('Erreur génération bulletin:', err)
+      setDialogError(
+        err instanceof Error && isUnsignedTimesheetError(err.message)
+          ? err.message
+          : 'Une erreur est survenue lors de la génération du bulletin.'
+      )
+    } finally {
+      setIsGenerating(false)
+    }
+  }
+
+  const openDialog = (mode: DialogMode) => {
+    resetDialog()
+    setDialogMode(mode)
+    setShowUploadDialog(true)
+  }
+
   const handleDownload = async (payslip: Payslip) => {
     if (!payslip.storagePath) return
     const url = await getPayslipSignedUrl(payslip.storagePath)
@@ -259,7 +350,7 @@ export function PayslipSection({ employerId, searchTerm = '' }: Props) {
     return (
       <Alert.Root status="info">
         <Alert.Indicator />
-        <Alert.Title>Aucun contrat d'emploi actif : rien à uploader pour l'instant.</Alert.Title>
+        <Alert.Title>Aucun contrat d'emploi actif : aucun bulletin à établir pour l'instant.</Alert.Title>
       </Alert.Root>
     )
   }
@@ -298,20 +389,19 @@ export function PayslipSection({ employerId, searchTerm = '' }: Props) {
           </NativeSelect.Root>
         </HStack>
 
-        <Button
-          size="sm"
-          colorPalette="brand"
-          onClick={() => {
-            resetDialog()
-            setShowUploadDialog(true)
-          }}
-        >
-          Uploader un bulletin
-        </Button>
+        <HStack gap={2}>
+          <Button size="sm" variant="outline" colorPalette="brand" onClick={() => openDialog('generate')}>
+            Générer un bulletin
+          </Button>
+          <Button size="sm" colorPalette="brand" onClick={() => openDialog('upload')}>
+            Uploader un bulletin
+          </Button>
+        </HStack>
       </HStack>
 
       <Text fontSize="xs" color="text.muted">
-        Uploadez le bulletin officiel reçu de l'URSSAF (CESU déclaratif). PDF uniquement, 5 Mo max.
+        Uploadez le bulletin officiel reçu de l'URSSAF (CESU déclaratif, PDF uniquement, 5 Mo max.)
+        ou générez-le à partir des interventions du mois.
       </Text>
 
       {/* ── Historique ── */}
@@ -330,7 +420,7 @@ export function PayslipSection({ employerId, searchTerm = '' }: Props) {
             </>
           }
           title="Aucun bulletin archivé"
-          description="Les bulletins de paie uploadés depuis le portail CESU apparaîtront ici, organisés par employé et par période."
+          description="Les bulletins de paie uploadés depuis le portail CESU ou générés par l'app apparaîtront ici, organisés par employé et par période."
         />
       ) : (
         <Box overflowX="auto">
@@ -339,7 +429,8 @@ export function PayslipSection({ employerId, searchTerm = '' }: Props) {
               <Table.Row>
                 <Table.ColumnHeader>Employé</Table.ColumnHeader>
                 <Table.ColumnHeader>Période</Table.ColumnHeader>
-                <Table.ColumnHeader>Uploadé le</Table.ColumnHeader>
+                <Table.ColumnHeader>Ajouté le</Table.ColumnHeader>
+                <Table.ColumnHeader textAlign="end">Net à payer</Table.ColumnHeader>
                 <Table.ColumnHeader textAlign="center">Actions</Table.ColumnHeader>
               </Table.Row>
             </Table.Header>
@@ -359,6 +450,11 @@ export function PayslipSection({ employerId, searchTerm = '' }: Props) {
                       {formatUploadDate(p.generatedAt)}
                     </Text>
                   </Table.Cell>
+                  <Table.Cell textAlign="end">
+                    <Text fontSize="sm" color={p.netPay !== null ? 'text.default' : 'text.muted'}>
+                      {p.netPay !== null ? formatCurrency(p.netPay) : '—'}
+                    </Text>
+                  </Table.Cell>
                   <Table.Cell textAlign="center">
                     <HStack gap={1} justify="center">
                       {p.storagePath && (
@@ -392,7 +488,7 @@ export function PayslipSection({ employerId, searchTerm = '' }: Props) {
         </Box>
       )}
 
-      {/* ── Dialog d'upload ── */}
+      {/* ── Dialog d'upload / de génération ── */}
       <Dialog.Root
         open={showUploadDialog}
         onOpenChange={(e) => {
@@ -404,7 +500,9 @@ export function PayslipSection({ employerId, searchTerm = '' }: Props) {
         <Dialog.Positioner>
           <Dialog.Content maxW="lg">
             <Dialog.Header>
-              <Dialog.Title>Uploader un bulletin de paie</Dialog.Title>
+              <Dialog.Title>
+                {dialogMode === 'generate' ? 'Générer un bulletin de paie' : 'Uploader un bulletin de paie'}
+              </Dialog.Title>
               <Dialog.CloseTrigger asChild>
                 <CloseButton />
               </Dialog.CloseTrigger>
@@ -463,69 +561,88 @@ export function PayslipSection({ employerId, searchTerm = '' }: Props) {
                   </Field.Root>
                 </HStack>
 
-                <Box>
-                  <Text fontWeight="medium" fontSize="md" mb={2}>
-                    Fichier PDF <Text as="span" color="red.500">*</Text>
-                  </Text>
-                  <Box
-                    borderWidth="2px"
-                    borderStyle="dashed"
-                    borderColor={fileError ? 'red.500' : selectedFile ? 'green.300' : 'border.default'}
-                    borderRadius="12px"
-                    p={4}
-                    bg={fileError ? 'red.50' : selectedFile ? 'accent.subtle' : 'bg.page'}
-                    transition="all 0.2s"
-                  >
-                    {!selectedFile ? (
-                      <Flex direction="column" align="center" gap={2}>
-                        <Text fontSize="sm" color="text.muted" textAlign="center">
-                          Joignez le bulletin officiel URSSAF (PDF, max 5 Mo)
-                        </Text>
-                        <AccessibleButton
-                          variant="outline"
-                          size="sm"
-                          onClick={() => fileInputRef.current?.click()}
-                          accessibleLabel="Sélectionner un bulletin"
-                        >
-                          Parcourir...
-                        </AccessibleButton>
-                        <input
-                          ref={fileInputRef}
-                          type="file"
-                          accept="application/pdf,.pdf"
-                          onChange={handleFileChange}
-                          style={{ display: 'none' }}
-                          aria-label="Sélectionner un bulletin de paie"
-                        />
-                      </Flex>
-                    ) : (
-                      <Flex justify="space-between" align="center">
-                        <Flex align="center" gap={2}>
-                          <Box color="green.600">
-                            <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                              <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z" />
-                              <polyline points="14 2 14 8 20 8" />
-                            </svg>
-                          </Box>
-                          <Box>
-                            <Text fontSize="sm" fontWeight="medium" color="text.default">{selectedFile.name}</Text>
-                            <Text fontSize="xs" color="text.muted">{(selectedFile.size / 1024 / 1024).toFixed(2)} Mo</Text>
-                          </Box>
+                {dialogMode === 'upload' ? (
+                  <Box>
+                    <Text fontWeight="medium" fontSize="md" mb={2}>
+                      Fichier PDF <Text as="span" color="red.500">*</Text>
+                    </Text>
+                    <Box
+                      borderWidth="2px"
+                      borderStyle="dashed"
+                      borderColor={fileError ? 'red.500' : selectedFile ? 'green.300' : 'border.default'}
+                      borderRadius="12px"
+                      p={4}
+                      bg={fileError ? 'red.50' : selectedFile ? 'accent.subtle' : 'bg.page'}
+                      transition="all 0.2s"
+                    >
+                      {!selectedFile ? (
+                        <Flex direction="column" align="center" gap={2}>
+                          <Text fontSize="sm" color="text.muted" textAlign="center">
+                            Joignez le bulletin officiel URSSAF (PDF, max 5 Mo)
+                          </Text>
+                          <AccessibleButton
+                            variant="outline"
+                            size="sm"
+                            onClick={() => fileInputRef.current?.click()}
+                            accessibleLabel="Sélectionner un bulletin"
+                          >
+                            Parcourir...
+                          </AccessibleButton>
+                          <input
+                            ref={fileInputRef}
+                            type="file"
+                            accept="application/pdf,.pdf"
+                            onChange={handleFileChange}
+                            style={{ display: 'none' }}
+                            aria-label="Sélectionner un bulletin de paie"
+                          />
                         </Flex>
-                        <AccessibleButton
-                          variant="ghost"
-                          size="sm"
-                          colorPalette="red"
-                          onClick={handleRemoveFile}
-                          accessibleLabel="Supprimer le fichier"
-                        >
-                          Supprimer
-                        </AccessibleButton>
-                      </Flex>
-                    )}
+                      ) : (
+                        <Flex justify="space-between" align="center">
+                          <Flex align="center" gap={2}>
+                            <Box color="green.600">
+                              <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                                <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z" />
+                                <polyline points="14 2 14 8 20 8" />
+                              </svg>
+                            </Box>
+                            <Box>
+                              <Text fontSize="sm" fontWeight="medium" color="text.default">{selectedFile.name}</Text>
+                              <Text fontSize="xs" color="text.muted">{(selectedFile.size / 1024 / 1024).toFixed(2)} Mo</Text>
+                            </Box>
+                          </Flex>
+                          <AccessibleButton
+                            variant="ghost"
+                            size="sm"
+                            colorPalette="red"
+                            onClick={handleRemoveFile}
+                            accessibleLabel="Supprimer le fichier"
+                          >
+                            Supprimer
+                          </AccessibleButton>
+                        </Flex>
+                      )}
+                    </Box>
+                    {fileError && <Text fontSize="sm" color="red.600" mt={2}>{fileError}</Text>}
+                  </Box>
+                ) : (
+                  <Box>
+                    <Checkbox.Root
+                      checked={isExemptPatronalSS}
+                      onCheckedChange={(e) => setIsExemptPatronalSS(!!e.checked)}
+                    >
+                      <Checkbox.HiddenInput />
+                      <Checkbox.Control />
+                      <Checkbox.Label fontSize="sm">
+                        Exonération des cotisations patronales de Sécurité sociale
+                      </Checkbox.Label>
+                    </Checkbox.Root>
+                    <Text fontSize="xs" color="text.muted" mt={1}>
+                      Particulier employeur invalide, bénéficiaire de la PCH ou âgé de 70 ans et plus.
+                      Le taux PAS appliqué est celui du contrat.
+                    </Text>
                   </Box>
-                  {fileError && <Text fontSize="sm" color="red.600" mt={2}>{fileError}</Text>}
-                </Box>
+                )}
 
                 {dialogError && (
                   <Alert.Root status="error">
@@ -548,16 +665,29 @@ export function PayslipSection({ employerId, searchTerm = '' }: Props) {
                 >
                   Annuler
                 </Button>
-                <Button
-                  colorPalette="brand"
-                  flex={1}
-                  onClick={handleUpload}
-                  loading={isUploading}
-                  loadingText="Upload…"
-                  disabled={!selectedFile || !selectedContract || isUploading}
-                >
-                  Uploader
-                </Button>
+                {dialogMode === 'upload' ? (
+                  <Button
+                    colorPalette="brand"
+                    flex={1}
+                    onClick={handleUpload}
+                    loading={isUploading}
+                    loadingText="Upload…"
+                    disabled={!selectedFile || !selectedContract || isUploading}
+                  >
+                    Uploader
+                  </Button>
+                ) : (
+                  <Button
+                    colorPalette="brand"
+                    flex={1}
+                    onClick={handleGenerate}
+                    loading={isGenerating}
+                    loadingText="Génération…"
+                    disabled={!selectedContract || isGenerating}
+                  >
+                    Générer
+                  </Button>
+                )}
               </HStack>
             </Dialog.Footer>
           </Dialog.Content>
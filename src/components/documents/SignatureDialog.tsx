@@ -0,0 +1,220 @@
+/**
+ * Dialog de signature électronique d'un contrat, d'un avenant ou d'un relevé d'heures.
+ * Le signataire consulte le document, consent à le signer puis trace sa
+ * signature à l'écran ou saisit son nom. L'empreinte du document est
+ * recalculée au moment de signer (voir signatureService).
+ */
+
+import { useRef, useState } from 'react'
+import {
+  Box,
+  VStack,
+  HStack,
+  Text,
+  Button,
+  Dialog,
+  CloseButton,
+  Checkbox,
+  Input,
+  Tabs,
+  Code,
+} from '@chakra-ui/react'
+import { SIGNATURE_CONSENT_TEXT, shortHash } from '@/lib/contract/signature'
+import { getEmployeeDocumentSignedUrl } from '@/services/employeeDocumentService'
+import { signDocument, SIGNATURE_ERROR_MESSAGES } from '@/services/signatureService'
+import { toaster } from '@/lib/toaster'
+import type { SignatureMethod, SignatureRequest } from '@/types'
+
+interface Props {
+  request: SignatureRequest
+  defaultSignerName: string
+  onClose: () => void
+  onSigned: (request: SignatureRequest) => void
+}
+
+const PAD_WIDTH = 440
+const PAD_HEIGHT = 160
+
+/** Zone de signature tracée (souris, doigt ou stylet) */
+function SignaturePad({ onChange }: { onChange: (dataUri: string | null) => void }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const isDrawing = useRef(false)
+
+  const pointFrom = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * PAD_WIDTH,
+      y: ((e.clientY - rect.top) / rect.height) * PAD_HEIGHT,
+    }
+  }
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = e.currentTarget.getContext('2d')
+    if (!ctx) return
+    e.currentTarget.setPointerCapture(e.pointerId)
+    isDrawing.current = true
+    const { x, y } = pointFrom(e)
+    ctx.lineWidth = 2.5
+    ctx.lineCap = 'round'
+    ctx.lineJoin = 'round'
+    ctx.strokeStyle = '#1A202C'
+    ctx.beginPath()
+    ctx.moveTo(x, y)
+  }
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!isDrawing.current) return
+    const ctx = e.currentTarget.getContext('2d')
+    if (!ctx) return
+    const { x, y } = pointFrom(e)
+    ctx.lineTo(x, y)
+    ctx.stroke()
+  }
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!isDrawing.current) return
+    isDrawing.current = false
+    onChange(e.currentTarget.toDataURL('image/png'))
+  }
+
+  const clear = () => {
+    const canvas = canvasRef.current
+    canvas?.getContext('2d')?.clearRect(0, 0, PAD_WIDTH, PAD_HEIGHT)
+    onChange(null)
+  }
+
+  return (
+    <VStack align="stretch" gap={2}>
+      <Box borderWidth="1px" borderColor="border.default" borderRadius="md" bg="white" overflow="hidden">
+        <canvas
+          ref={canvasRef}
+          width={PAD_WIDTH}
+          height={PAD_HEIGHT}
+          aria-label="Zone de signature"
+          style={{ width: '100%', height: 'auto', touchAction: 'none', cursor: 'crosshair', display: 'block' }}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerLeave={handlePointerUp}
+        />
+      </Box>
+      <HStack justify="space-between">
+        <Text fontSize="xs" color="text.muted">Signez dans le cadre ci-dessus</Text>
+        <Button size="xs" variant="ghost" onClick={clear}>Effacer</Button>
+      </HStack>
+    </VStack>
+  )
+}
+
+export function SignatureDialog({ request, defaultSignerName, onClose, onSigned }: Props) {
+  const [method, setMethod] = useState<SignatureMethod>('drawn')
+  const [signerName, setSignerName] = useState(defaultSignerName)
+  const [drawing, setDrawing] = useState<string | null>(null)
+  const [typedName, setTypedName] = useState(defaultSignerName)
+  const [consent, setConsent] = useState(false)
+  const [isSigning, setIsSigning] = useState(false)
+
+  const signatureData = method === 'drawn' ? drawing : typedName.trim()
+  const canSign = consent && !!signerName.trim() && !!signatureData
+
+  const handleOpenDocument = async () => {
+    const url = await getEmployeeDocumentSignedUrl(request.documentPath)
+    if (!url) {
+      toaster.error({ title: 'Erreur', description: 'Impossible de générer le lien du document.' })
+      return
+    }
+    window.open(url, '_blank', 'noopener')
+  }
+
+  const handleSign = async () => {
+    if (!canSign || !signatureData) return
+    setIsSigning(true)
+    const result = await signDocument(request, { method, signatureData, signerName })
+    setIsSigning(false)
+    if (!result.success) {
+      toaster.error({ title: 'Signature', description: SIGNATURE_ERROR_MESSAGES[result.error] })
+      return
+    }
+    toaster.success({
+      title: 'Document signé',
+      description: result.data.status === 'signed'
+        ? 'Le document signé par les deux parties est disponible.'
+        : 'L\'autre partie a été notifiée.',
+    })
+    onSigned(result.data)
+  }
+
+  return (
+    <Dialog.Root open onOpenChange={(e) => { if (!e.open) onClose() }}>
+      <Dialog.Backdrop />
+      <Dialog.Positioner>
+        <Dialog.Content maxW="lg">
+          <Dialog.Header>
+            <Dialog.Title>Signer « {request.title} »</Dialog.Title>
+            <Dialog.CloseTrigger asChild>
+              <CloseButton />
+            </Dialog.CloseTrigger>
+          </Dialog.Header>
+          <Dialog.Body>
+            <VStack gap={4} align="stretch">
+              <HStack justify="space-between" flexWrap="wrap" gap={2}>
+                <Text fontSize="xs" color="text.muted">
+                  Empreinte du document : <Code fontSize="xs">{shortHash(request.documentHash)}</Code>
+                </Text>
+                <Button size="xs" variant="outline" colorPalette="brand" onClick={handleOpenDocument}>
+                  Lire le document
+                </Button>
+              </HStack>
+
+              <Box>
+                <Text fontSize="sm" fontWeight="medium" mb={2}>Nom du signataire</Text>
+                <Input
+                  value={signerName}
+                  onChange={(e) => setSignerName(e.target.value)}
+                  aria-label="Nom du signataire"
+                />
+              </Box>
+
+              <Tabs.Root value={method} onValueChange={(e) => setMethod(e.value as SignatureMethod)} size="sm" variant="enclosed">
+                <Tabs.List>
+                  <Tabs.Trigger value="drawn">Tracer</Tabs.Trigger>
+                  <Tabs.Trigger value="typed">Saisir</Tabs.Trigger>
+                </Tabs.List>
+                <Tabs.Content value="drawn" pt={3}>
+                  <SignaturePad onChange={setDrawing} />
+                </Tabs.Content>
+                <Tabs.Content value="typed" pt={3}>
+                  <Input
+                    value={typedName}
+                    onChange={(e) => setTypedName(e.target.value)}
+                    fontStyle="italic"
+                    fontSize="xl"
+                    aria-label="Signature saisie"
+                  />
+                </Tabs.Content>
+              </Tabs.Root>
+
+              <Checkbox.Root checked={consent} onCheckedChange={(e) => setConsent(!!e.checked)} alignItems="flex-start">
+                <Checkbox.HiddenInput />
+                <Checkbox.Control mt={0.5} />
+                <Checkbox.Label fontSize="sm">{SIGNATURE_CONSENT_TEXT}</Checkbox.Label>
+              </Checkbox.Root>
+            </VStack>
+          </Dialog.Body>
+          <Dialog.Footer>
+            <HStack gap={3}>
+              <Button variant="outline" colorPalette="gray" onClick={onClose}>
+                Annuler
+              </Button>
+              <Button colorPalette="brand" onClick={handleSign} loading={isSigning} disabled={!canSign}>
+                Signer
+              </Button>
+            </HStack>
+          </Dialog.Footer>
+        </Dialog.Content>
+      </Dialog.Positioner>
+    </Dialog.Root>
+  )
+}
+
+export default SignatureDialog
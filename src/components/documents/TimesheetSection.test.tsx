@@ -0,0 +1,229 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { screen, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { renderWithProviders } from '@/test/helpers'
+import type { Shift, SignatureRequest, Timesheet } from '@/types'
+
+vi.mock('@/services/contractService', () => ({
+  getContractsForEmployer: vi.fn(),
+  getContractsForEmployee: vi.fn(),
+}))
+
+vi.mock('@/services/shiftService', () => ({
+  getShifts: vi.fn(),
+}))
+
+vi.mock('@/services/profileService', () => ({
+  getProfileName: vi.fn(),
+}))
+
+vi.mock('@/services/employeeDocumentService', () => ({
+  getEmployeeDocumentSignedUrl: vi.fn(),
+}))
+
+vi.mock('@/services/signatureService', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/services/signatureService')>()),
+  getSignatureRequests: vi.fn(),
+  requestTimesheetSignature: vi.fn(),
+  sealSignatureRequest: vi.fn(),
+}))
+
+vi.mock('@/services/timesheetService', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/services/timesheetService')>()),
+  getTimesheets: vi.fn(),
+  getTimesheetCorrections: vi.fn(),
+  submitTimesheet: vi.fn(),
+  countersignTimesheet: vi.fn(),
+  returnTimesheet: vi.fn(),
+  addTimesheetCorrection: vi.fn(),
+}))
+
+import { getContractsForEmployer, getContractsForEmployee } from '@/services/contractService'
+import { getShifts } from '@/services/shiftService'
+import { getProfileName } from '@/services/profileService'
+import { getSignatureRequests, requestTimesheetSignature } from '@/services/signatureService'
+import { getTimesheets, getTimesheetCorrections, submitTimesheet, countersignTimesheet } from '@/services/timesheetService'
+import { toaster } from '@/lib/toaster'
+import { TimesheetSection } from './TimesheetSection'
+
+const contract = {
+  id: 'contract-1',
+  employerId: 'employer-1',
+  employeeId: 'employee-1',
+  contractCategory: 'employment' as const,
+  contractType: 'CDI' as const,
+  startDate: new Date('2025-01-01'),
+  weeklyHours: 20,
+  hourlyRate: 13,
+  pasRate: 0,
+  status: 'active' as const,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  employee: { firstName: 'Marie', lastName: 'Curie' },
+}
+
+function makeTimesheet(overrides: Partial<Timesheet> = {}): Timesheet {
+  return {
+    id: 'ts-1',
+    contractId: 'contract-1',
+    year: 2026,
+    month: 2,
+    status: 'submitted',
+    contentHash: 'abc',
+    submittedBy: 'employee-1',
+    submittedAt: new Date('2026-03-02T10:00:00'),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  }
+}
+
+function makeShift(overrides: Partial<Shift> = {}): Shift {
+  return {
+    id: 'shift-1',
+    contractId: 'contract-1',
+    date: new Date('2026-02-12'),
+    startTime: '08:00',
+    endTime: '12:00',
+    breakDuration: 0,
+    tasks: [],
+    shiftType: 'effective',
+    isRequalified: false,
+    status: 'completed',
+    computedPay: {
+      basePay: 0, sundayMajoration: 0, holidayMajoration: 0,
+      nightMajoration: 0, overtimeMajoration: 0, presenceResponsiblePay: 0,
+      nightPresenceAllowance: 0, totalPay: 0,
+    },
+    validatedByEmployer: false,
+    validatedByEmployee: false,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  }
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  vi.mocked(getContractsForEmployer).mockResolvedValue([contract])
+  vi.mocked(getContractsForEmployee).mockResolvedValue([contract])
+  vi.mocked(getShifts).mockResolvedValue([])
+  vi.mocked(getProfileName).mockResolvedValue('Paul Durand')
+  vi.mocked(getSignatureRequests).mockResolvedValue([])
+  vi.spyOn(toaster, 'error')
+})
+
+describe('TimesheetSection', () => {
+  it('permet à l\'auxiliaire de soumettre le mois précédent', async () => {
+    const user = userEvent.setup()
+    vi.mocked(getTimesheets).mockResolvedValue([])
+    vi.mocked(submitTimesheet).mockResolvedValue({ success: true, data: makeTimesheet() })
+
+    renderWithProviders(<TimesheetSection profileId="employee-1" profileRole="employee" />)
+
+    expect(await screen.findByText('À soumettre')).toBeInTheDocument()
+    await user.click(screen.getByRole('button', { name: 'Soumettre' }))
+
+    await waitFor(() => {
+      expect(submitTimesheet).toHaveBeenCalledWith('contract-1', expect.any(Number), expect.any(Number))
+    })
+    expect(await screen.findByText('À contresigner')).toBeInTheDocument()
+  })
+
+  it('bloque la contre-signature tant que des écarts sont à arbitrer', async () => {
+    const user = userEvent.setup()
+    vi.mocked(getTimesheets).mockResolvedValue([makeTimesheet()])
+    vi.mocked(getShifts).mockResolvedValue([
+      makeShift({ clockedInAt: new Date('2026-02-12T08:00:00'), clockedOutAt: new Date('2026-02-12T12:30:00') }),
+    ])
+
+    renderWithProviders(<TimesheetSection profileId="employer-1" profileRole="employer" employerId="employer-1" />)
+
+    await user.click(await screen.findByRole('button', { name: 'Contresigner' }))
+
+    await waitFor(() => {
+      expect(toaster.error).toHaveBeenCalledWith(expect.objectContaining({
+        description: expect.stringContaining('1 écart'),
+      }))
+    })
+    expect(countersignTimesheet).not.toHaveBeenCalled()
+  })
+
+  it('contresigne et verrouille le mois', async () => {
+    const user = userEvent.setup()
+    vi.mocked(getTimesheets).mockResolvedValue([makeTimesheet()])
+    vi.mocked(countersignTimesheet).mockResolvedValue({
+      success: true,
+      data: makeTimesheet({ status: 'locked', employerSignedAt: new Date('2026-03-03T09:00:00') }),
+    })
+
+    renderWithProviders(<TimesheetSection profileId="employer-1" profileRole="employer" employerId="employer-1" />)
+
+    await user.click(await screen.findByRole('button', { name: 'Contresigner' }))
+
+    expect(await screen.findByText('Contresigné')).toBeInTheDocument()
+    expect(countersignTimesheet).toHaveBeenCalledWith('ts-1')
+    expect(screen.getByRole('button', { name: 'Corriger' })).toBeInTheDocument()
+  })
+
+  it('affiche une erreur métier renvoyée par le serveur', async () => {
+    const user = userEvent.setup()
+    vi.mocked(getTimesheets).mockResolvedValue([makeTimesheet()])
+    vi.mocked(countersignTimesheet).mockResolvedValue({ success: false, error: 'timesheet_changed' })
+
+    renderWithProviders(<TimesheetSection profileId="employer-1" profileRole="employer" employerId="employer-1" />)
+
+    await user.click(await screen.findByRole('button', { name: 'Contresigner' }))
+
+    await waitFor(() => {
+      expect(toaster.error).toHaveBeenCalledWith(expect.objectContaining({
+        description: expect.stringContaining('modifiées depuis la soumission'),
+      }))
+    })
+  })
+
+  it('soumet un relevé contresigné à la signature électronique', async () => {
+    const user = userEvent.setup()
+    const locked = makeTimesheet({ status: 'locked', employerSignedAt: new Date('2026-03-03T09:00:00') })
+    const request: SignatureRequest = {
+      id: 'req-1',
+      employerId: 'employer-1',
+      employeeId: 'employee-1',
+      contractId: 'contract-1',
+      timesheetId: 'ts-1',
+      documentType: 'timesheet',
+      title: "Relevé d'heures — Février 2026",
+      documentHash: 'a'.repeat(64),
+      documentPath: 'doc.pdf',
+      status: 'pending',
+      createdAt: new Date(),
+    }
+    vi.mocked(getTimesheets).mockResolvedValue([locked])
+    vi.mocked(getTimesheetCorrections).mockResolvedValue([])
+    vi.mocked(requestTimesheetSignature).mockResolvedValue({ success: true, data: request })
+
+    renderWithProviders(<TimesheetSection profileId="employer-1" profileRole="employer" employerId="employer-1" />)
+
+    await user.click(await screen.findByRole('button', { name: 'Faire signer' }))
+
+    await waitFor(() => {
+      expect(requestTimesheetSignature).toHaveBeenCalledWith(contract, expect.objectContaining({
+        timesheet: locked,
+        employeeName: 'Marie Curie',
+        employerName: 'Paul Durand',
+      }))
+    })
+    expect(await screen.findByRole('button', { name: 'Signer' })).toBeInTheDocument()
+    expect(screen.getByText(/À signer par les deux parties/)).toBeInTheDocument()
+  })
+
+  it('reste en lecture seule pour un aidant', async () => {
+    vi.mocked(getTimesheets).mockResolvedValue([makeTimesheet()])
+
+    renderWithProviders(<TimesheetSection profileId="caregiver-1" profileRole="caregiver" employerId="employer-1" />)
+
+    expect(await screen.findByText('À contresigner')).toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: 'Contresigner' })).not.toBeInTheDocument()
+    expect(screen.getByRole('button', { name: 'PDF' })).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,667 @@
+/**
+ * Section "Relevés d'heures" dans la page Documents.
+ * Double signature mensuelle : l'auxiliaire soumet le mois, l'employeur le
+ * contresigne (ou le renvoie avec un motif). Un mois contresigné est verrouillé :
+ * l'employeur le modifie uniquement par une correction tracée dans le relevé.
+ * Un relevé contresigné peut ensuite être soumis à la signature électronique
+ * des deux parties (PDF scellé avec certificat, comme les contrats).
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import {
+  Box,
+  VStack,
+  HStack,
+  Text,
+  Button,
+  Badge,
+  Table,
+  NativeSelect,
+  Dialog,
+  CloseButton,
+  Alert,
+  Spinner,
+  Input,
+  Textarea,
+} from '@chakra-ui/react'
+import { generateTimesheetPdf, downloadExport, MONTHS_FR, type TimesheetPdfData } from '@/lib/export'
+import {
+  getSignatureProgress,
+  getSignerRole,
+  hasSigned,
+  isFullySigned,
+  SIGNATURE_PROGRESS_LABELS,
+} from '@/lib/contract/signature'
+import { summarizeReconciliation } from '@/lib/shifts/reconciliation'
+import { getContractsForEmployer, getContractsForEmployee, type ContractWithEmployee } from '@/services/contractService'
+import { getShifts } from '@/services/shiftService'
+import { getProfileName } from '@/services/profileService'
+import { getEmployeeDocumentSignedUrl } from '@/services/employeeDocumentService'
+import {
+  getSignatureRequests,
+  requestTimesheetSignature,
+  sealSignatureRequest,
+  SIGNATURE_ERROR_MESSAGES,
+  type SignatureError,
+} from '@/services/signatureService'
+import {
+  getTimesheets,
+  getTimesheetCorrections,
+  submitTimesheet,
+  countersignTimesheet,
+  returnTimesheet,
+  addTimesheetCorrection,
+  TIMESHEET_ERROR_MESSAGES,
+  type TimesheetError,
+} from '@/services/timesheetService'
+import { toaster } from '@/lib/toaster'
+import { logger } from '@/lib/logger'
+import { OnboardingEmptyState } from '@/components/ui'
+import { SignatureDialog } from './SignatureDialog'
+import type { Shift, SignatureRequest, Timesheet, TimesheetStatus } from '@/types'
+
+interface Props {
+  profileId: string
+  profileRole: 'employer' | 'employee' | 'caregiver'
+  /** Employeur concerné (employeur connecté ou employeur de l'aidant) */
+  employerId?: string
+}
+
+const STATUS_LABELS: Record<TimesheetStatus | 'pending', { label: string; color: string }> = {
+  pending: { label: 'À soumettre', color: 'gray' },
+  submitted: { label: 'À contresigner', color: 'orange' },
+  returned: { label: 'Renvoyé', color: 'red' },
+  locked: { label: 'Contresigné', color: 'green' },
+}
+
+interface CorrectionForm {
+  shiftId: string
+  startTime: string
+  endTime: string
+  breakDuration: number
+  reason: string
+}
+
+function partyName(contract: ContractWithEmployee): string {
+  const party = contract.employee ?? contract.caregiver
+  return party ? `${party.firstName} ${party.lastName}`.trim() : 'Auxiliaire'
+}
+
+function formatShiftOption(shift: Shift): string {
+  const date = new Date(shift.date).toLocaleDateString('fr-FR', { weekday: 'short', day: '2-digit', month: '2-digit' })
+  return `${date} · ${shift.startTime.slice(0, 5)}–${shift.endTime.slice(0, 5)}`
+}
+
+export function TimesheetSection({ profileId, profileRole, employerId }: Props) {
+  const now = new Date()
+  const currentYear = now.getFullYear()
+  const currentMonth = now.getMonth() + 1
+  const years = [currentYear, currentYear - 1, currentYear - 2]
+
+  const [selectedYear, setSelectedYear] = useState(currentMonth === 1 ? currentYear - 1 : currentYear)
+  const [selectedMonth, setSelectedMonth] = useState(currentMonth === 1 ? 12 : currentMonth - 1)
+
+  const [contracts, setContracts] = useState<ContractWithEmployee[]>([])
+  const [timesheets, setTimesheets] = useState<Timesheet[]>([])
+  const [signatureRequests, setSignatureRequests] = useState<SignatureRequest[]>([])
+  const [ownName, setOwnName] = useState('')
+  const [isLoading, setIsLoading] = useState(true)
+  const [busyContractId, setBusyContractId] = useState<string | null>(null)
+
+  // ── Renvoi (employeur)
+  const [returning, setReturning] = useState<Timesheet | null>(null)
+  const [returnReason, setReturnReason] = useState('')
+
+  // ── Correction d'un mois verrouillé (employeur)
+  const [correcting, setCorrecting] = useState<Timesheet | null>(null)
+  const [correctionShifts, setCorrectionShifts] = useState<Shift[]>([])
+  const [correction, setCorrection] = useState<CorrectionForm | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  // ── Signature électronique d'un relevé contresigné
+  const [signing, setSigning] = useState<SignatureRequest | null>(null)
+
+  const isEmployee = profileRole === 'employee'
+  const canSign = profileRole === 'employer'
+  const isMonthOver = new Date() >= new Date(selectedYear, selectedMonth, 1)
+
+  const loadTimesheets = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const list = isEmployee
+        ? await getContractsForEmployee(profileId)
+        : employerId ? await getContractsForEmployer(employerId) : []
+      const employment = list.filter((c) => c.contractCategory === 'employment')
+      setContracts(employment)
+      const contractIds = employment.map((c) => c.id)
+      const [monthTimesheets, requests, name] = await Promise.all([
+        getTimesheets(contractIds, selectedYear, selectedMonth),
+        getSignatureRequests(contractIds),
+        getProfileName(profileId),
+      ])
+      setTimesheets(monthTimesheets)
+      setSignatureRequests(requests.filter((r) => r.documentType === 'timesheet'))
+      setOwnName(name)
+    } catch (err) {
+      logger.error("Erreur chargement relevés d'heures:", err)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [isEmployee, profileId, employerId, selectedYear, selectedMonth])
+
+  useEffect(() => {
+    loadTimesheets()
+  }, [loadTimesheets])
+
+  /** Interventions réalisées du mois pour un contrat */
+  const loadCompletedShifts = async (contractId: string): Promise<Shift[]> => {
+    const start = new Date(selectedYear, selectedMonth - 1, 1)
+    const end = new Date(selectedYear, selectedMonth, 0, 23, 59, 59)
+    const shifts = isEmployee
+      ? await getShifts(profileId, 'employee', start, end)
+      : await getShifts(employerId ?? '', 'employer', start, end)
+    return shifts.filter((s) => s.contractId === contractId && s.status === 'completed')
+  }
+
+  const showError = (error: TimesheetError) => {
+    toaster.error({ title: "Relevé d'heures", description: TIMESHEET_ERROR_MESSAGES[error] })
+  }
+
+  const showSignatureError = (error: SignatureError) => {
+    toaster.error({ title: 'Signature électronique', description: SIGNATURE_ERROR_MESSAGES[error] })
+  }
+
+  /** Dernière demande de signature du relevé (les demandes sont triées de la plus récente à la plus ancienne) */
+  const findSignatureRequest = (timesheet: Timesheet) =>
+    signatureRequests.find((r) => r.timesheetId === timesheet.id)
+
+  const replaceSignatureRequest = (updated: SignatureRequest) => {
+    setSignatureRequests((prev) => [updated, ...prev.filter((r) => r.id !== updated.id)])
+  }
+
+  const replaceTimesheet = (updated: Timesheet) => {
+    setTimesheets((prev) => [...prev.filter((t) => t.contractId !== updated.contractId), updated])
+  }
+
+  const handleSubmit = async (contract: ContractWithEmployee) => {
+    setBusyContractId(contract.id)
+    const result = await submitTimesheet(contract.id, selectedYear, selectedMonth)
+    setBusyContractId(null)
+    if (!result.success) return showError(result.error)
+    replaceTimesheet(result.data)
+    toaster.success({
+      title: 'Relevé soumis',
+      description: `${MONTHS_FR[selectedMonth - 1]} ${selectedYear} — en attente de contre-signature`,
+    })
+  }
+
+  const handleCountersign = async (timesheet: Timesheet) => {
+    setBusyContractId(timesheet.contractId)
+    try {
+      // Les écarts prévu / réel doivent être arbitrés avant de figer le mois
+      const { pendingCount } = summarizeReconciliation(await loadCompletedShifts(timesheet.contractId))
+      if (pendingCount > 0) {
+        toaster.error({
+          title: "Relevé d'heures",
+          description: `${pendingCount} écart${pendingCount > 1 ? 's' : ''} entre planning et pointage à arbitrer avant de contresigner (Pointage › Rapprochement).`,
+        })
+        return
+      }
+
+      const result = await countersignTimesheet(timesheet.id)
+      if (!result.success) return showError(result.error)
+      replaceTimesheet(result.data)
+      toaster.success({ title: 'Relevé contresigné', description: 'Le mois est désormais verrouillé.' })
+    } finally {
+      setBusyContractId(null)
+    }
+  }
+
+  const handleReturn = async () => {
+    if (!returning || !returnReason.trim()) return
+    setIsSaving(true)
+    const result = await returnTimesheet(returning.id, returnReason.trim())
+    setIsSaving(false)
+    if (!result.success) return showError(result.error)
+    replaceTimesheet(result.data)
+    setReturning(null)
+    setReturnReason('')
+    toaster.create({ title: 'Relevé renvoyé', description: "L'auxiliaire peut corriger puis resoumettre le mois.", type: 'info' })
+  }
+
+  const openCorrection = async (timesheet: Timesheet) => {
+    setBusyContractId(timesheet.contractId)
+    const shifts = await loadCompletedShifts(timesheet.contractId)
+    setBusyContractId(null)
+    if (shifts.length === 0) {
+      toaster.error({ title: "Relevé d'heures", description: 'Aucune intervention réalisée à corriger ce mois-ci.' })
+      return
+    }
+    setCorrectionShifts(shifts)
+    setCorrection(toCorrectionForm(shifts[0]))
+    setCorrecting(timesheet)
+  }
+
+  const handleCorrection = async () => {
+    if (!correction || !correction.reason.trim()) return
+    setIsSaving(true)
+    const result = await addTimesheetCorrection(correction.shiftId, {
+      startTime: correction.startTime,
+      endTime: correction.endTime,
+      breakDuration: correction.breakDuration,
+      reason: correction.reason.trim(),
+    })
+    setIsSaving(false)
+    if (!result.success) return showError(result.error)
+    setCorrecting(null)
+    setCorrection(null)
+    toaster.success({ title: 'Correction enregistrée', description: 'Elle figure désormais sur le relevé contresigné.' })
+  }
+
+  const buildPdfData = async (contract: ContractWithEmployee, timesheet: Timesheet): Promise<TimesheetPdfData> => {
+    const [shifts, corrections, name] = await Promise.all([
+      loadCompletedShifts(contract.id),
+      getTimesheetCorrections(timesheet.id),
+      getProfileName(isEmployee ? profileId : contract.employerId),
+    ])
+    // Pour l'auxiliaire, la partie du contrat est l'employeur
+    return {
+      timesheet,
+      employeeName: isEmployee ? name : partyName(contract),
+      employerName: isEmployee ? partyName(contract) : name,
+      shifts,
+      corrections,
+      generatedAt: new Date(),
+    }
+  }
+
+  const handleDownload = async (contract: ContractWithEmployee, timesheet: Timesheet) => {
+    setBusyContractId(contract.id)
+    try {
+      const result = await generateTimesheetPdf(await buildPdfData(contract, timesheet))
+      if (result.success) {
+        downloadExport(result)
+      } else {
+        toaster.error({ title: 'Erreur', description: result.error || 'Erreur lors de la génération du relevé' })
+      }
+    } finally {
+      setBusyContractId(null)
+    }
+  }
+
+  const handleRequestSignature = async (contract: ContractWithEmployee, timesheet: Timesheet) => {
+    setBusyContractId(contract.id)
+    try {
+      const result = await requestTimesheetSignature(contract, await buildPdfData(contract, timesheet))
+      if (!result.success) return showSignatureError(result.error)
+      replaceSignatureRequest(result.data)
+      toaster.success({ title: 'Relevé envoyé pour signature', description: result.data.title })
+    } finally {
+      setBusyContractId(null)
+    }
+  }
+
+  const handleSeal = async (request: SignatureRequest) => {
+    setBusyContractId(request.contractId)
+    const result = await sealSignatureRequest(request)
+    setBusyContractId(null)
+    if (!result.success) return showSignatureError(result.error)
+    replaceSignatureRequest(result.data)
+    toaster.success({ title: 'Relevé scellé', description: 'Le relevé signé par les deux parties est disponible.' })
+  }
+
+  const handleDownloadSigned = async (request: SignatureRequest) => {
+    const url = await getEmployeeDocumentSignedUrl(request.sealedPath ?? request.documentPath)
+    if (!url) {
+      toaster.error({ title: 'Erreur', description: 'Impossible de générer le lien de téléchargement.' })
+      return
+    }
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `${request.title} (signé).pdf`
+    a.click()
+  }
+
+  const handleSigned = (updated: SignatureRequest) => {
+    replaceSignatureRequest(updated)
+    setSigning(null)
+  }
+
+  const renderSignatureActions = (contract: ContractWithEmployee, timesheet: Timesheet) => {
+    const request = findSignatureRequest(timesheet)
+    const isBusy = busyContractId === contract.id
+
+    if (!request || request.status === 'cancelled') {
+      return canSign && timesheet.status === 'locked' && !!contract.employeeId && (
+        <Button size="xs" variant="outline" colorPalette="brand" loading={isBusy} onClick={() => handleRequestSignature(contract, timesheet)}>
+          Faire signer
+        </Button>
+      )
+    }
+
+    const role = getSignerRole(request, profileId)
+    const isPending = request.status === 'pending'
+    return (
+      <>
+        {role && isPending && !hasSigned(request, role) && (
+          <Button size="xs" colorPalette="brand" onClick={() => setSigning(request)}>
+            Signer
+          </Button>
+        )}
+        {role && isPending && isFullySigned(request) && (
+          <Button size="xs" variant="outline" colorPalette="brand" loading={isBusy} onClick={() => handleSeal(request)}>
+            Finaliser
+          </Button>
+        )}
+        {request.status === 'signed' && (
+          <Button size="xs" variant="ghost" colorPalette="brand" onClick={() => handleDownloadSigned(request)}>
+            PDF signé
+          </Button>
+        )}
+      </>
+    )
+  }
+
+  const renderActions = (contract: ContractWithEmployee, timesheet: Timesheet | undefined) => {
+    const isBusy = busyContractId === contract.id
+    const status = timesheet?.status
+
+    return (
+      <HStack gap={1} justify="flex-end" flexWrap="wrap">
+        {isEmployee && (!timesheet || status === 'returned') && (
+          <Button
+            size="xs"
+            colorPalette="brand"
+            loading={isBusy}
+            disabled={!isMonthOver}
+            onClick={() => handleSubmit(contract)}
+          >
+            Soumettre
+          </Button>
+        )}
+        {canSign && timesheet && status === 'submitted' && (
+          <>
+            <Button size="xs" colorPalette="brand" loading={isBusy} onClick={() => handleCountersign(timesheet)}>
+              Contresigner
+            </Button>
+            <Button size="xs" variant="outline" colorPalette="red" onClick={() => setReturning(timesheet)}>
+              Renvoyer
+            </Button>
+          </>
+        )}
+        {canSign && timesheet && status === 'locked' && (
+          <Button size="xs" variant="outline" colorPalette="brand" loading={isBusy} onClick={() => openCorrection(timesheet)}>
+            Corriger
+          </Button>
+        )}
+        {timesheet && status !== 'returned' && (
+          <Button size="xs" variant="ghost" colorPalette="brand" onClick={() => handleDownload(contract, timesheet)}>
+            PDF
+          </Button>
+        )}
+        {timesheet && status === 'locked' && renderSignatureActions(contract, timesheet)}
+      </HStack>
+    )
+  }
+
+  return (
+    <VStack gap={4} align="stretch">
+      {/* ── Toolbar ── */}
+      <HStack gap={3} flexWrap="wrap">
+        <NativeSelect.Root size="sm" width="auto" minW="140px">
+          <NativeSelect.Field
+            value={selectedMonth}
+            onChange={(e) => setSelectedMonth(Number(e.target.value))}
+            aria-label="Mois"
+          >
+            {MONTHS_FR.map((m, i) => (
+              <option key={i + 1} value={i + 1}>{m}</option>
+            ))}
+          </NativeSelect.Field>
+          <NativeSelect.Indicator />
+        </NativeSelect.Root>
+        <NativeSelect.Root size="sm" width="auto" minW="100px">
+          <NativeSelect.Field
+            value={selectedYear}
+            onChange={(e) => setSelectedYear(Number(e.target.value))}
+            aria-label="Année"
+          >
+            {years.map((y) => (
+              <option key={y} value={y}>{y}</option>
+            ))}
+          </NativeSelect.Field>
+          <NativeSelect.Indicator />
+        </NativeSelect.Root>
+      </HStack>
+
+      <Text fontSize="xs" color="text.muted">
+        {isEmployee
+          ? 'Soumettez le relevé une fois le mois terminé. Après contre-signature par votre employeur, le mois ne peut plus être modifié.'
+          : 'Contresignez les relevés soumis par vos auxiliaires. Un mois contresigné est verrouillé et requis pour la déclaration CESU.'}
+      </Text>
+
+      {isEmployee && !isMonthOver && (
+        <Alert.Root status="info">
+          <Alert.Indicator />
+          <Alert.Title>
+            Ce mois n'est pas encore terminé. Vous pourrez soumettre le relevé à partir du {new Date(selectedYear, selectedMonth, 1).toLocaleDateString('fr-FR')}.
+          </Alert.Title>
+        </Alert.Root>
+      )}
+
+      {/* ── Tableau ── */}
+      {isLoading ? (
+        <HStack justify="center" py={8}>
+          <Spinner size="sm" />
+          <Text fontSize="sm" color="text.muted">Chargement des relevés…</Text>
+        </HStack>
+      ) : contracts.length === 0 ? (
+        <OnboardingEmptyState
+          icon={
+            <>
+              <rect x="3" y="4" width="18" height="18" rx="2" />
+              <line x1="16" y1="2" x2="16" y2="6" />
+              <line x1="8" y1="2" x2="8" y2="6" />
+              <line x1="3" y1="10" x2="21" y2="10" />
+            </>
+          }
+          title="Aucun contrat de travail"
+          description="Les relevés d'heures mensuels apparaîtront ici pour chaque contrat de travail actif."
+        />
+      ) : (
+        <Box overflowX="auto">
+          <Table.Root size="sm">
+            <Table.Header>
+              <Table.Row>
+                <Table.ColumnHeader>{isEmployee ? 'Employeur' : 'Auxiliaire'}</Table.ColumnHeader>
+                <Table.ColumnHeader>Statut</Table.ColumnHeader>
+                <Table.ColumnHeader textAlign="right">Actions</Table.ColumnHeader>
+              </Table.Row>
+            </Table.Header>
+            <Table.Body>
+              {contracts.map((contract) => {
+                const timesheet = timesheets.find((t) => t.contractId === contract.id)
+                const status = STATUS_LABELS[timesheet?.status ?? 'pending']
+                const signatureRequest = timesheet && findSignatureRequest(timesheet)
+                return (
+                  <Table.Row key={contract.id}>
+                    <Table.Cell>
+                      <Text fontWeight="medium" fontSize="sm">{partyName(contract)}</Text>
+                    </Table.Cell>
+                    <Table.Cell>
+                      <Badge colorPalette={status.color} size="sm">{status.label}</Badge>
+                      {timesheet?.status === 'locked' && timesheet.employerSignedAt && (
+                        <Text fontSize="xs" color="text.muted">
+                          le {timesheet.employerSignedAt.toLocaleDateString('fr-FR')}
+                        </Text>
+                      )}
+                      {timesheet?.status === 'returned' && timesheet.returnReason && (
+                        <Text fontSize="xs" color="text.muted">Motif : {timesheet.returnReason}</Text>
+                      )}
+                      {signatureRequest && signatureRequest.status !== 'cancelled' && (
+                        <Text fontSize="xs" color="text.muted">
+                          Signature électronique : {SIGNATURE_PROGRESS_LABELS[getSignatureProgress(signatureRequest)]}
+                        </Text>
+                      )}
+                    </Table.Cell>
+                    <Table.Cell textAlign="right">{renderActions(contract, timesheet)}</Table.Cell>
+                  </Table.Row>
+                )
+              })}
+            </Table.Body>
+          </Table.Root>
+        </Box>
+      )}
+
+      {/* ── Dialog de renvoi ── */}
+      <Dialog.Root open={!!returning} onOpenChange={(e) => { if (!e.open) setReturning(null) }}>
+        <Dialog.Backdrop />
+        <Dialog.Positioner>
+          <Dialog.Content maxW="md">
+            <Dialog.Header>
+              <Dialog.Title>Renvoyer le relevé</Dialog.Title>
+              <Dialog.CloseTrigger asChild>
+                <CloseButton />
+              </Dialog.CloseTrigger>
+            </Dialog.Header>
+            <Dialog.Body>
+              <Text fontSize="sm" fontWeight="medium" mb={2}>Motif du renvoi</Text>
+              <Textarea
+                value={returnReason}
+                onChange={(e) => setReturnReason(e.target.value)}
+                placeholder="Ex. : l'intervention du 12 est manquante"
+                aria-label="Motif du renvoi"
+              />
+            </Dialog.Body>
+            <Dialog.Footer>
+              <HStack gap={3}>
+                <Button variant="outline" colorPalette="gray" onClick={() => setReturning(null)}>
+                  Annuler
+                </Button>
+                <Button colorPalette="red" onClick={handleReturn} loading={isSaving} disabled={!returnReason.trim()}>
+                  Renvoyer
+                </Button>
+              </HStack>
+            </Dialog.Footer>
+          </Dialog.Content>
+        </Dialog.Positioner>
+      </Dialog.Root>
+
+      {/* ── Dialog de correction ── */}
+      <Dialog.Root open={!!correcting} onOpenChange={(e) => { if (!e.open) setCorrecting(null) }}>
+        <Dialog.Backdrop />
+        <Dialog.Positioner>
+          <Dialog.Content maxW="lg">
+            <Dialog.Header>
+              <Dialog.Title>Corriger une intervention</Dialog.Title>
+              <Dialog.CloseTrigger asChild>
+                <CloseButton />
+              </Dialog.CloseTrigger>
+            </Dialog.Header>
+            <Dialog.Body>
+              {correction && (
+                <VStack gap={4} align="stretch">
+                  <Box>
+                    <Text fontSize="sm" fontWeight="medium" mb={2}>Intervention</Text>
+                    <NativeSelect.Root>
+                      <NativeSelect.Field
+                        value={correction.shiftId}
+                        onChange={(e) => {
+                          const shift = correctionShifts.find((s) => s.id === e.target.value)
+                          if (shift) setCorrection({ ...toCorrectionForm(shift), reason: correction.reason })
+                        }}
+                        aria-label="Intervention"
+                      >
+                        {correctionShifts.map((s) => (
+                          <option key={s.id} value={s.id}>{formatShiftOption(s)}</option>
+                        ))}
+                      </NativeSelect.Field>
+                      <NativeSelect.Indicator />
+                    </NativeSelect.Root>
+                  </Box>
+                  <HStack gap={3}>
+                    <Box flex={1}>
+                      <Text fontSize="sm" fontWeight="medium" mb={2}>Début</Text>
+                      <Input
+                        type="time"
+                        value={correction.startTime}
+                        onChange={(e) => setCorrection({ ...correction, startTime: e.target.value })}
+                        aria-label="Début"
+                      />
+                    </Box>
+                    <Box flex={1}>
+                      <Text fontSize="sm" fontWeight="medium" mb={2}>Fin</Text>
+                      <Input
+                        type="time"
+                        value={correction.endTime}
+                        onChange={(e) => setCorrection({ ...correction, endTime: e.target.value })}
+                        aria-label="Fin"
+                      />
+                    </Box>
+                    <Box flex={1}>
+                      <Text fontSize="sm" fontWeight="medium" mb={2}>Pause (min)</Text>
+                      <Input
+                        type="number"
+                        min={0}
+                        value={correction.breakDuration}
+                        onChange={(e) => setCorrection({ ...correction, breakDuration: Number(e.target.value) || 0 })}
+                        aria-label="Pause (min)"
+                      />
+                    </Box>
+                  </HStack>
+                  <Box>
+                    <Text fontSize="sm" fontWeight="medium" mb={2}>Motif de la correction</Text>
+                    <Textarea
+                      value={correction.reason}
+                      onChange={(e) => setCorrection({ ...correction, reason: e.target.value })}
+                      placeholder="Ex. : oubli de pointage en fin d'intervention"
+                      aria-label="Motif de la correction"
+                    />
+                  </Box>
+                  <Text fontSize="xs" color="text.muted">
+                    Les horaires d'origine restent visibles dans le relevé, avec le motif de la correction.
+                  </Text>
+                </VStack>
+              )}
+            </Dialog.Body>
+            <Dialog.Footer>
+              <HStack gap={3}>
+                <Button variant="outline" colorPalette="gray" onClick={() => setCorrecting(null)}>
+                  Annuler
+                </Button>
+                <Button
+                  colorPalette="brand"
+                  onClick={handleCorrection}
+                  loading={isSaving}
+                  disabled={!correction?.reason.trim()}
+                >
+                  Enregistrer la correction
+                </Button>
+              </HStack>
+            </Dialog.Footer>
+          </Dialog.Content>
+        </Dialog.Positioner>
+      </Dialog.Root>
+
+      {signing && (
+        <SignatureDialog
+          key={signing.id}
+          request={signing}
+          defaultSignerName={ownName}
+          onClose={() => setSigning(null)}
+          onSigned={handleSigned}
+        />
+      )}
+    </VStack>
+  )
+}
+
+function toCorrectionForm(shift: Shift): CorrectionForm {
+  return {
+    shiftId: shift.id,
+    startTime: shift.startTime.slice(0, 5),
+    endTime: shift.endTime.slice(0, 5),
+    breakDuration: shift.breakDuration,
+    reason: '',
+  }
+}
@@ -7,4 +7,7 @@ export { ContractsSection } from './ContractsSection'
 export { DocumentManagementSection } from './DocumentManagementSection'
 export { PayslipSection } from './PayslipSection'
 export { EmployeePayslipSection } from './EmployeePayslipSection'
+export { EmployeeDocumentsSection } from './EmployeeDocumentsSection'
+export { ExpenseReportSection } from './ExpenseReportSection'
 export { PlanningExportSection } from './PlanningExportSection'
+export { TimesheetSection } from './TimesheetSection'
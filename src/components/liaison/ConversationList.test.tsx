@@ -1,4 +1,4 @@
-import { describe, it, expect, vi } from 'vitest'
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest'
 import { screen } from '@testing-library/react'
 import userEvent from '@testing-library/user-event'
 import { renderWithProviders } from '@/test/helpers'
@@ -127,4 +127,121 @@ describe('ConversationList', () => {
     })
 
   })
+
+  describe('Filtre mentions', () => {
+    it('n\'affiche que les conversations avec une mention non lue', async () => {
+      const user = userEvent.setup()
+      renderWithProviders(
+        <ConversationList
+          {...defaultProps}
+          conversations={[teamConv, { ...privateConv1, unreadCount: 2, unreadMentionCount: 1 }, privateConv2]}
+        />
+      )
+
+      expect(screen.getByLabelText('1 mention non lue')).toBeInTheDocument()
+      await user.click(screen.getByRole('button', { name: '@ Mentions (1)' }))
+
+      expect(screen.getByText('Marie Dupont')).toBeInTheDocument()
+      expect(screen.queryByText('Jean Martin')).not.toBeInTheDocument()
+      expect(screen.queryByText('Équipe')).not.toBeInTheDocument()
+    })
+
+    it('indique l\'absence de mention non lue', async () => {
+      const user = userEvent.setup()
+      renderWithProviders(<ConversationList {...defaultProps} />)
+
+      await user.click(screen.getByRole('button', { name: '@ Mentions' }))
+
+      expect(screen.getByText('Aucune mention non lue')).toBeInTheDocument()
+    })
+  })
+
+  describe('Archivage et sourdine', () => {
+    // Le positionnement du menu (floating-ui) observe sa taille, absent de jsdom
+    beforeAll(() => {
+      vi.stubGlobal('ResizeObserver', class {
+        observe() {}
+        unobserve() {}
+        disconnect() {}
+      })
+    })
+
+    afterAll(() => {
+      vi.unstubAllGlobals()
+    })
+
+    it('regroupe les conversations archivées dans une section repliée', async () => {
+      const user = userEvent.setup()
+      renderWithProviders(
+        <ConversationList
+          {...defaultProps}
+          conversations={[teamConv, { ...privateConv1, isArchived: true }, privateConv2]}
+        />
+      )
+
+      expect(screen.queryByText('Marie Dupont')).not.toBeInTheDocument()
+      const toggle = screen.getByRole('button', { name: /archivées \(1\)/i })
+      expect(toggle).toHaveAttribute('aria-expanded', 'false')
+
+      await user.click(toggle)
+
+      expect(screen.getByText('Marie Dupont')).toBeInTheDocument()
+    })
+
+    it('grise le badge et affiche l\'icône des conversations en sourdine', () => {
+      renderWithProviders(
+        <ConversationList
+          {...defaultProps}
+          conversations={[teamConv, { ...privateConv1, isMuted: true, unreadCount: 3 }]}
+        />
+      )
+
+      expect(screen.getByLabelText('en sourdine')).toBeInTheDocument()
+      expect(screen.getByLabelText('3 messages non lus')).toBeInTheDocument()
+    })
+
+    it('archive et met en sourdine depuis le menu sans sélectionner la conversation', async () => {
+      const onSelect = vi.fn()
+      const onArchive = vi.fn()
+      const onMute = vi.fn()
+      const user = userEvent.setup()
+      renderWithProviders(
+        <ConversationList {...defaultProps} onSelect={onSelect} onArchive={onArchive} onMute={onMute} />
+      )
+
+      await user.click(screen.getByRole('button', { name: 'Options de la conversation Marie Dupont' }))
+      await user.click(await screen.findByRole('menuitem', { name: 'Archiver' }))
+      expect(onArchive).toHaveBeenCalledWith(privateConv1, true)
+
+      await user.click(screen.getByRole('button', { name: 'Options de la conversation Marie Dupont' }))
+      await user.click(await screen.findByRole('menuitem', { name: 'Pendant 8 heures' }))
+      expect(onMute).toHaveBeenCalledWith(privateConv1, '8h')
+
+      expect(onSelect).not.toHaveBeenCalled()
+    })
+
+    it('propose de réactiver une conversation en sourdine et de changer le niveau', async () => {
+      const onMute = vi.fn()
+      const onSetNotificationLevel = vi.fn()
+      const mutedConv = { ...privateConv1, isMuted: true, notificationLevel: 'mentions' as const }
+      const user = userEvent.setup()
+      renderWithProviders(
+        <ConversationList
+          {...defaultProps}
+          conversations={[teamConv, mutedConv]}
+          onMute={onMute}
+          onSetNotificationLevel={onSetNotificationLevel}
+        />
+      )
+
+      await user.click(screen.getByRole('button', { name: 'Options de la conversation Marie Dupont' }))
+      expect(await screen.findByRole('menuitem', { name: /mentions uniquement/i })).toHaveAttribute('aria-current', 'true')
+      await user.click(screen.getByRole('menuitem', { name: 'Réactiver les notifications' }))
+      expect(onMute).toHaveBeenCalledWith(mutedConv, null)
+
+      await user.click(screen.getByRole('button', { name: 'Options de la conversation Marie Dupont' }))
+      await user.click(await screen.findByRole('menuitem', { name: 'Aucune' }))
+      expect(onSetNotificationLevel).toHaveBeenCalledWith(mutedConv, 'none')
+    })
+  })
 })
@@ -1,7 +1,12 @@
 import { useState, useMemo } from 'react'
-import { Box, Flex, Text, Stack, Input } from '@chakra-ui/react'
+import { Box, Button, Flex, Text, Stack, Input, IconButton, Menu, Portal } from '@chakra-ui/react'
 
-import type { Conversation } from '@/types'
+import type { Conversation, ConversationNotificationLevel } from '@/types'
+import {
+  MUTE_DURATIONS,
+  NOTIFICATION_LEVEL_LABELS,
+  type MuteDuration,
+} from '@/lib/liaison/conversationSettings'
 import { format, isToday, isYesterday, startOfWeek, addDays } from 'date-fns'
 import { fr } from 'date-fns/locale'
 
@@ -24,17 +29,46 @@ interface ConversationListProps {
   selectedId: string | null
   onSelect: (conv: Conversation) => void
   currentUserId: string
+  onArchive?: (conv: Conversation, archived: boolean) => void
+  /** null = réactiver les notifications */
+  onMute?: (conv: Conversation, duration: MuteDuration | null) => void
+  onSetNotificationLevel?: (conv: Conversation, level: ConversationNotificationLevel) => void
+}
+
+type ConvActions = Pick<ConversationListProps, 'onArchive' | 'onMute' | 'onSetNotificationLevel'>
+
+function privateLabel(conv: Conversation): string {
+  return conv.otherParticipant
+    ? `${conv.otherParticipant.firstName} ${conv.otherParticipant.lastName}`
+    : 'Conversation'
 }
 
 export function ConversationList({
   conversations,
   selectedId,
   onSelect,
+  onArchive,
+  onMute,
+  onSetNotificationLevel,
 }: ConversationListProps) {
   const [search, setSearch] = useState('')
+  const [showArchived, setShowArchived] = useState(false)
+  const [mentionsOnly, setMentionsOnly] = useState(false)
+  const actions: ConvActions = { onArchive, onMute, onSetNotificationLevel }
 
-  const team = conversations.find((c) => c.type === 'team')
-  const privates = conversations.filter((c) => c.type === 'private')
+  const mentionCount = conversations.filter((c) => (c.unreadMentionCount ?? 0) > 0).length
+
+  // Les conversations archivées sont regroupées à part, repliées
+  const { team, privates, archived } = useMemo(() => {
+    const visible = mentionsOnly
+      ? conversations.filter((c) => (c.unreadMentionCount ?? 0) > 0)
+      : conversations
+    return {
+      team: visible.find((c) => c.type === 'team' && !c.isArchived),
+      privates: visible.filter((c) => c.type === 'private' && !c.isArchived),
+      archived: visible.filter((c) => c.isArchived),
+    }
+  }, [conversations, mentionsOnly])
 
   // Filter by search query
   const filteredTeam = useMemo(() => {
@@ -96,6 +130,28 @@ export function ConversationList({
             _focus={{ borderColor: 'brand.500', boxShadow: '0 0 0 3px rgba(78,100,120,.1)' }}
           />
         </Box>
+        <Flex gap={2} mt={2} role="group" aria-label="Filtrer les conversations">
+          <Button
+            size="xs"
+            borderRadius="full"
+            variant={mentionsOnly ? 'outline' : 'solid'}
+            colorPalette={mentionsOnly ? 'gray' : 'brand'}
+            aria-pressed={!mentionsOnly}
+            onClick={() => setMentionsOnly(false)}
+          >
+            Toutes
+          </Button>
+          <Button
+            size="xs"
+            borderRadius="full"
+            variant={mentionsOnly ? 'solid' : 'outline'}
+            colorPalette={mentionsOnly ? 'brand' : 'gray'}
+            aria-pressed={mentionsOnly}
+            onClick={() => setMentionsOnly(true)}
+          >
+            @ Mentions{mentionCount > 0 ? ` (${mentionCount})` : ''}
+          </Button>
+        </Flex>
       </Box>
 
       {/* Liste */}
@@ -115,6 +171,7 @@ export function ConversationList({
             conv={filteredTeam}
             isSelected={selectedId === filteredTeam.id}
             onSelect={onSelect}
+            actions={actions}
             label="Équipe"
             icon={<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M17 21v-2a4 4 0 0 0-4-4H5a4 4 0 0 0-4 4v2"/><circle cx="9" cy="7" r="4"/><path d="M23 21v-2a4 4 0 0 0-3-3.87"/><path d="M16 3.13a4 4 0 0 1 0 7.75"/></svg>}
           />
@@ -136,18 +193,23 @@ export function ConversationList({
             conv={conv}
             isSelected={selectedId === conv.id}
             onSelect={onSelect}
-            label={
-              conv.otherParticipant
-                ? `${conv.otherParticipant.firstName} ${conv.otherParticipant.lastName}`
-                : 'Conversation'
-            }
+            actions={actions}
+            label={privateLabel(conv)}
             avatarUrl={conv.otherParticipant?.avatarUrl}
             avatarBg={AVATAR_COLORS[idx % AVATAR_COLORS.length]}
           />
         ))}
 
         {/* État vide */}
-        {filteredPrivates.length === 0 && !filteredTeam && search.trim() && (
+        {mentionsOnly && !filteredTeam && filteredPrivates.length === 0 && archived.length === 0 && (
+          <Box px={4} py={6} textAlign="center">
+            <Text fontSize="sm" color="text.muted">
+              Aucune mention non lue
+            </Text>
+          </Box>
+        )}
+
+        {!mentionsOnly && filteredPrivates.length === 0 && !filteredTeam && search.trim() && (
           <Box px={4} py={6} textAlign="center">
             <Text fontSize="sm" color="text.muted">
               Aucun résultat
@@ -155,13 +217,46 @@ export function ConversationList({
           </Box>
         )}
 
-        {filteredPrivates.length === 0 && !search.trim() && (
+        {!mentionsOnly && filteredPrivates.length === 0 && !search.trim() && (
           <Box px={4} py={3}>
             <Text fontSize="xs" color="text.muted">
               Aucune conversation privée
             </Text>
           </Box>
         )}
+
+        {/* Archivées — repliées par défaut */}
+        {archived.length > 0 && (
+          <Box mt={2} pb={2}>
+            <Box
+              as="button"
+              px={4}
+              py={2}
+              w="100%"
+              textAlign="left"
+              aria-expanded={showArchived}
+              onClick={() => setShowArchived((v) => !v)}
+              _hover={{ bg: 'bg.page' }}
+            >
+              <Text fontSize="xs" color="text.muted" fontWeight="700" textTransform="uppercase" letterSpacing="0.06em">
+                {showArchived ? '▾' : '▸'} Archivées ({archived.length})
+              </Text>
+            </Box>
+            {showArchived &&
+              archived.map((conv) => (
+                <ConvItem
+                  key={conv.id}
+                  conv={conv}
+                  isSelected={selectedId === conv.id}
+                  onSelect={onSelect}
+                  actions={actions}
+                  label={conv.type === 'team' ? 'Équipe' : privateLabel(conv)}
+                  avatarUrl={conv.otherParticipant?.avatarUrl}
+                  avatarBg="gray.400"
+                />
+              ))}
+          </Box>
+        )}
       </Stack>
     </Flex>
   )
@@ -173,14 +268,17 @@ interface ConvItemProps {
   conv: Conversation
   isSelected: boolean
   onSelect: (conv: Conversation) => void
+  actions: ConvActions
   label: string
   icon?: React.ReactNode
   avatarUrl?: string
   avatarBg?: string
 }
 
-function ConvItem({ conv, isSelected, onSelect, label, icon, avatarUrl, avatarBg = 'brand.500' }: ConvItemProps) {
+function ConvItem({ conv, isSelected, onSelect, actions, label, icon, avatarUrl, avatarBg = 'brand.500' }: ConvItemProps) {
   const isUnread = conv.unreadCount > 0
+  const { onArchive, onMute, onSetNotificationLevel } = actions
+  const hasActions = Boolean(onArchive || onMute || onSetNotificationLevel)
 
   return (
     <Flex
@@ -199,6 +297,7 @@ function ConvItem({ conv, isSelected, onSelect, label, icon, avatarUrl, avatarBg
       _hover={{ bg: 'brand.subtle' }}
       onClick={() => onSelect(conv)}
       transition="background 0.15s"
+      role="group"
     >
       {/* Avatar ou icône — proto: conv-avatar 38px */}
       {icon ? (
@@ -250,6 +349,11 @@ function ConvItem({ conv, isSelected, onSelect, label, icon, avatarUrl, avatarBg
             truncate
           >
             {label}
+            {conv.isMuted && (
+              <Box as="span" ml={1} title="Notifications en sourdine" aria-label="en sourdine">
+                🔕
+              </Box>
+            )}
           </Text>
           <Text fontSize="xs" color="text.muted" fontWeight="500" flexShrink={0} ml={2}>
             {formatConvTime(new Date(conv.updatedAt))}
@@ -271,11 +375,31 @@ function ConvItem({ conv, isSelected, onSelect, label, icon, avatarUrl, avatarBg
         )}
       </Box>
 
-      {/* Badge non lus */}
+      {/* Mention non lue */}
+      {(conv.unreadMentionCount ?? 0) > 0 && (
+        <Flex
+          as="span"
+          bg="accent.500"
+          color="white"
+          borderRadius="full"
+          fontSize="xs"
+          fontWeight="800"
+          w="20px"
+          h="20px"
+          justifyContent="center"
+          alignItems="center"
+          flexShrink={0}
+          aria-label={(conv.unreadMentionCount ?? 0) > 1 ? `${conv.unreadMentionCount} mentions non lues` : '1 mention non lue'}
+        >
+          @
+        </Flex>
+      )}
+
+      {/* Badge non lus — grisé quand la conversation est en sourdine */}
       {isUnread && (
         <Flex
           as="span"
-          bg="brand.500"
+          bg={conv.isMuted ? 'gray.400' : 'brand.500'}
           color="white"
           borderRadius="full"
           fontSize="xs"
@@ -290,6 +414,70 @@ function ConvItem({ conv, isSelected, onSelect, label, icon, avatarUrl, avatarBg
           {conv.unreadCount > 99 ? '99+' : conv.unreadCount}
         </Flex>
       )}
+
+      {/* Le menu est rendu dans un portail : ses clics remonteraient jusqu'à l'item */}
+      {hasActions && (
+        <Box flexShrink={0} onClick={(e) => e.stopPropagation()}>
+          <Menu.Root>
+            <Menu.Trigger asChild>
+              <IconButton
+                aria-label={`Options de la conversation ${label}`}
+                variant="ghost"
+                size="xs"
+                color="text.muted"
+              >
+                ⋯
+              </IconButton>
+            </Menu.Trigger>
+            <Portal>
+              <Menu.Positioner>
+                <Menu.Content minW="200px" onClick={(e) => e.stopPropagation()}>
+                  {onArchive && (
+                    <Menu.Item value="archive" onClick={() => onArchive(conv, !conv.isArchived)}>
+                      {conv.isArchived ? 'Désarchiver' : 'Archiver'}
+                    </Menu.Item>
+                  )}
+                  {onMute && (
+                    <Menu.ItemGroup>
+                      <Menu.ItemGroupLabel>Sourdine</Menu.ItemGroupLabel>
+                      {conv.isMuted ? (
+                        <Menu.Item value="unmute" onClick={() => onMute(conv, null)}>
+                          Réactiver les notifications
+                        </Menu.Item>
+                      ) : (
+                        MUTE_DURATIONS.map((d) => (
+                          <Menu.Item key={d.value} value={`mute-${d.value}`} onClick={() => onMute(conv, d.value)}>
+                            {d.label}
+                          </Menu.Item>
+                        ))
+                      )}
+                    </Menu.ItemGroup>
+                  )}
+                  {onSetNotificationLevel && (
+                    <Menu.ItemGroup>
+                      <Menu.ItemGroupLabel>Notifications</Menu.ItemGroupLabel>
+                      {(Object.keys(NOTIFICATION_LEVEL_LABELS) as ConversationNotificationLevel[]).map((level) => {
+                        const isCurrent = (conv.notificationLevel ?? 'all') === level
+                        return (
+                          <Menu.Item
+                            key={level}
+                            value={`level-${level}`}
+                            aria-current={isCurrent || undefined}
+                            fontWeight={isCurrent ? 700 : 400}
+                            onClick={() => onSetNotificationLevel(conv, level)}
+                          >
+                            {isCurrent ? '✓ ' : ''}{NOTIFICATION_LEVEL_LABELS[level]}
+                          </Menu.Item>
+                        )
+                      })}
+                    </Menu.ItemGroup>
+                  )}
+                </Menu.Content>
+              </Menu.Positioner>
+            </Portal>
+          </Menu.Root>
+        </Box>
+      )}
     </Flex>
   )
 }
@@ -1,9 +1,9 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
-import { screen, waitFor } from '@testing-library/react'
+import { act, screen, waitFor } from '@testing-library/react'
 import { renderWithProviders } from '@/test/helpers'
 import { createMockProfile } from '@/test/fixtures'
 import { LiaisonPage } from './LiaisonPage'
-import type { Conversation } from '@/types'
+import type { Conversation, LiaisonMessageWithSender } from '@/types'
 
 // ─── Mocks sous-composants ────────────────────────────────────────────────────
 
@@ -85,6 +85,9 @@ const mockCreateLiaisonMessage = vi.fn()
 const mockDeleteLiaisonMessage = vi.fn()
 const mockGetOlderMessages = vi.fn()
 const mockUploadAttachments = vi.fn()
+const mockGetPinnedMessages = vi.fn()
+const mockSetMessagePinned = vi.fn()
+const mockToggleMessageReaction = vi.fn()
 
 vi.mock('@/services/liaisonService', () => ({
   getConversations: (...args: unknown[]) => mockGetConversations(...args),
@@ -96,6 +99,10 @@ vi.mock('@/services/liaisonService', () => ({
   createLiaisonMessage: (...args: unknown[]) => mockCreateLiaisonMessage(...args),
   deleteLiaisonMessage: (...args: unknown[]) => mockDeleteLiaisonMessage(...args),
   getOlderMessages: (...args: unknown[]) => mockGetOlderMessages(...args),
+  getPinnedMessages: (...args: unknown[]) => mockGetPinnedMessages(...args),
+  setMessagePinned: (...args: unknown[]) => mockSetMessagePinned(...args),
+  toggleMessageReaction: (...args: unknown[]) => mockToggleMessageReaction(...args),
+  getMentionCandidates: () => Promise.resolve([]),
 }))
 
 vi.mock('@/services/attachmentService', () => ({
@@ -123,6 +130,25 @@ function makeConversation(overrides: Partial<Conversation> = {}): Conversation {
   }
 }
 
+function makeMessage(overrides: Partial<LiaisonMessageWithSender> = {}): LiaisonMessageWithSender {
+  return {
+    id: 'msg-1',
+    employerId: 'employer-1',
+    conversationId: 'team-1',
+    senderId: 'employer-1',
+    senderRole: 'employer',
+    content: 'Consigne : fermer le portail',
+    attachments: [],
+    isEdited: false,
+    readBy: [],
+    reactions: {},
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    sender: { firstName: 'Anne', lastName: 'Roy' },
+    ...overrides,
+  }
+}
+
 const defaultResolution = {
   resolvedEmployerId: 'employer-1',
   caregiverPermissions: null,
@@ -135,11 +161,14 @@ const defaultResolution = {
 describe('LiaisonPage', () => {
   beforeEach(() => {
     vi.clearAllMocks()
+    // jsdom n'implémente pas scrollTo (défilement après chargement des messages)
+    HTMLElement.prototype.scrollTo = vi.fn()
     mockUseAuth.mockReturnValue({ profile: employerProfile, isInitialized: true })
     mockUseEmployerResolution.mockReturnValue(defaultResolution)
     mockEnsureTeamConversation.mockResolvedValue(undefined)
     mockGetConversations.mockResolvedValue([])
     mockGetLiaisonMessages.mockResolvedValue({ messages: [], hasMore: false })
+    mockGetPinnedMessages.mockResolvedValue([])
     mockMarkAllMessagesAsRead.mockResolvedValue(undefined)
     mockSubscribeLiaisonMessages.mockReturnValue(() => undefined)
     mockSubscribeTypingIndicator.mockReturnValue({ setTyping: vi.fn(), unsubscribe: vi.fn() })
@@ -274,6 +303,42 @@ describe('LiaisonPage', () => {
     })
   })
 
+  // ── Messages épinglés ─────────────────────────────────────────────────────
+
+  describe('Messages épinglés', () => {
+    it('affiche les consignes épinglées en tête du fil d\'équipe', async () => {
+      mockGetConversations.mockResolvedValue([makeConversation({ id: 'team-1', type: 'team' })])
+      mockGetPinnedMessages.mockResolvedValue([makeMessage({ pinnedAt: new Date() })])
+      renderWithProviders(<LiaisonPage />)
+      await waitFor(() => {
+        expect(screen.getByText(/Consignes de l’équipe \(1\)/)).toBeInTheDocument()
+      })
+      expect(mockGetPinnedMessages).toHaveBeenCalledWith('team-1')
+      expect(screen.getByText('Consigne : fermer le portail')).toBeInTheDocument()
+    })
+
+    it('met à jour les messages épinglés en temps réel', async () => {
+      let onChange: ((eventType: 'INSERT' | 'UPDATE' | 'DELETE', message: LiaisonMessageWithSender) => void) | undefined
+      mockSubscribeLiaisonMessages.mockImplementation((_id: string, cb: typeof onChange) => {
+        onChange = cb
+        return () => undefined
+      })
+      const message = makeMessage()
+      mockGetConversations.mockResolvedValue([makeConversation({ id: 'team-1', type: 'team' })])
+      mockGetLiaisonMessages.mockResolvedValue({ messages: [message], hasMore: false })
+      renderWithProviders(<LiaisonPage />)
+      await waitFor(() => expect(onChange).toBeDefined())
+
+      act(() => onChange!('UPDATE', { ...message, pinnedAt: new Date() }))
+      expect(await screen.findByText(/Consignes de l’équipe \(1\)/)).toBeInTheDocument()
+
+      act(() => onChange!('UPDATE', { ...message, pinnedAt: undefined }))
+      await waitFor(() => {
+        expect(screen.queryByText(/Consignes de l’équipe/)).not.toBeInTheDocument()
+      })
+    })
+  })
+
   // ── Realtime ──────────────────────────────────────────────────────────────
 
   describe('Realtime subscription', () => {
@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback, useRef } from 'react'
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
 import {
   Box,
   Flex,
@@ -18,6 +18,7 @@ import { MessageBubble } from './MessageBubble'
 import { MessageInput } from './MessageInput'
 import { ConversationList } from './ConversationList'
 import { NewConversationModal } from './NewConversationModal'
+import { PinnedMessagesBar } from './PinnedMessagesBar'
 import {
   getConversations,
   getOrCreatePrivateConversation,
@@ -26,14 +27,35 @@ import {
   getOlderMessages,
   createLiaisonMessage,
   deleteLiaisonMessage,
+  getPinnedMessages,
+  setMessagePinned,
+  toggleMessageReaction,
   markAllMessagesAsRead,
+  setConversationArchived,
+  muteConversation,
+  setConversationNotificationLevel,
+  getMentionCandidates,
   subscribeLiaisonMessages,
   subscribeTypingIndicator,
   type TypingUser,
 } from '@/services/liaisonService'
-import { uploadAttachments } from '@/services/attachmentService'
+import { uploadAttachments, uploadVoiceMessage } from '@/services/attachmentService'
 import { logger } from '@/lib/logger'
-import type { Conversation, LiaisonMessageWithSender } from '@/types'
+import { toaster } from '@/lib/toaster'
+import type { RecordedVoice } from '@/lib/voice/voiceRecorder'
+import { muteUntil, type MuteDuration } from '@/lib/liaison/conversationSettings'
+import type { MentionCandidate } from '@/lib/liaison/mentions'
+import type { Conversation, ConversationNotificationLevel, LiaisonMessageWithSender } from '@/types'
+
+/** Met à jour la liste des messages épinglés après un changement realtime */
+function syncPinned(
+  pinned: LiaisonMessageWithSender[],
+  message: LiaisonMessageWithSender
+): LiaisonMessageWithSender[] {
+  const others = pinned.filter(m => m.id !== message.id)
+  if (!message.pinnedAt) return others
+  return [...others, message].sort((a, b) => b.pinnedAt!.getTime() - a.pinnedAt!.getTime())
+}
 
 // ============================================
 // TYPING INDICATOR COMPONENT
@@ -138,6 +160,9 @@ export function LiaisonPage() {
   const [isLoadingMore, setIsLoadingMore] = useState(false)
   const [hasMore, setHasMore] = useState(false)
   const [typingUsers, setTypingUsers] = useState<TypingUser[]>([])
+  const [pinnedMessages, setPinnedMessages] = useState<LiaisonMessageWithSender[]>([])
+  const [replyingTo, setReplyingTo] = useState<LiaisonMessageWithSender | null>(null)
+  const [teamMembers, setTeamMembers] = useState<MentionCandidate[]>([])
 
   const {
     resolvedEmployerId,
@@ -172,21 +197,32 @@ export function LiaisonPage() {
           filter: `employer_id=eq.${resolvedEmployerId}`,
         },
         (payload) => {
-          const msg = payload.new as { conversation_id: string; sender_id: string; content?: string; created_at?: string }
+          const msg = payload.new as {
+            conversation_id: string
+            sender_id: string
+            content?: string
+            created_at?: string
+            mentioned_user_ids?: string[]
+          }
+          const mentionsMe = msg.mentioned_user_ids?.includes(profile.id) ?? false
           // Ignorer ses propres messages
           if (msg.sender_id === profile.id) return
           // Si c'est la conv ouverte, ne pas incrémenter (on la lit en direct)
           if (msg.conversation_id === selectedConvRef.current) return
 
-          // Incrémenter unreadCount + mettre à jour lastMessage/updatedAt
+          // Incrémenter unreadCount + mettre à jour lastMessage/updatedAt.
+          // Un nouveau message fait revenir une conversation archivée.
           setConversations(prev =>
             prev.map(c =>
               c.id === msg.conversation_id
                 ? {
                     ...c,
                     unreadCount: c.unreadCount + 1,
+                    unreadMentionCount: (c.unreadMentionCount ?? 0) + (mentionsMe ? 1 : 0),
                     lastMessage: msg.content || c.lastMessage,
                     updatedAt: msg.created_at ? new Date(msg.created_at) : new Date(),
+                    lastMessageAt: msg.created_at ? new Date(msg.created_at) : new Date(),
+                    isArchived: false,
                   }
                 : c
             )
@@ -200,6 +236,26 @@ export function LiaisonPage() {
     }
   }, [resolvedEmployerId, profile?.id]) // eslint-disable-line react-hooks/exhaustive-deps
 
+  // ---- Membres de l'équipe mentionnables (@Prénom) ----
+  useEffect(() => {
+    if (!resolvedEmployerId || !profile) return
+    let cancelled = false
+    getMentionCandidates(resolvedEmployerId, profile.id)
+      .then((candidates) => {
+        if (!cancelled) setTeamMembers(candidates)
+      })
+      .catch((error) => logger.error('Erreur chargement membres mentionnables:', error))
+    return () => {
+      cancelled = true
+    }
+  }, [resolvedEmployerId, profile?.id]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Dans une conversation privée, seuls ses participants peuvent être mentionnés
+  const mentionCandidates = useMemo(() => {
+    if (!selectedConv || selectedConv.type === 'team') return teamMembers
+    return teamMembers.filter(m => selectedConv.participantIds.includes(m.id))
+  }, [teamMembers, selectedConv])
+
   // ---- Charger les conversations au mount ----
   useEffect(() => {
     async function loadConversations() {
@@ -248,19 +304,25 @@ export function LiaisonPage() {
     setMessages([])
     setHasMore(false)
     setTypingUsers([])
+    setPinnedMessages([])
+    setReplyingTo(null)
     setIsLoadingMessages(true)
 
     async function loadAndSubscribe() {
       if (!selectedConv || !profile) return
 
       try {
-        const result = await getLiaisonMessages(selectedConv.id)
+        const [result, pinned] = await Promise.all([
+          getLiaisonMessages(selectedConv.id),
+          getPinnedMessages(selectedConv.id),
+        ])
         setMessages(result.messages)
         setHasMore(result.hasMore)
+        setPinnedMessages(pinned)
         await markAllMessagesAsRead(selectedConv.id)
         // Mettre à jour le compteur non lu localement
         setConversations(prev =>
-          prev.map(c => c.id === selectedConv.id ? { ...c, unreadCount: 0 } : c)
+          prev.map(c => c.id === selectedConv.id ? { ...c, unreadCount: 0, unreadMentionCount: 0 } : c)
         )
 
         // Scroll to bottom
@@ -288,7 +350,7 @@ export function LiaisonPage() {
             setConversations(prev =>
               prev.map(c =>
                 c.id === selectedConv.id
-                  ? { ...c, lastMessage: message.content, updatedAt: message.createdAt, unreadCount: 0 }
+                  ? { ...c, lastMessage: message.content, updatedAt: message.createdAt, unreadCount: 0, unreadMentionCount: 0 }
                   : c
               )
             )
@@ -299,9 +361,15 @@ export function LiaisonPage() {
               })
             }, 100)
           } else if (eventType === 'UPDATE') {
+            // Modification, réaction ou épinglage
             setMessages(prev => prev.map(m => m.id === message.id ? message : m))
+            setPinnedMessages(prev => syncPinned(prev, message))
           } else if (eventType === 'DELETE') {
-            setMessages(prev => prev.filter(m => m.id !== message.id))
+            setMessages(prev => prev
+              .filter(m => m.id !== message.id)
+              .map(m => m.replyTo?.id === message.id ? { ...m, replyToId: undefined, replyTo: undefined } : m))
+            setPinnedMessages(prev => prev.filter(m => m.id !== message.id))
+            setReplyingTo(prev => prev?.id === message.id ? null : prev)
           }
         }
       )
@@ -410,7 +478,7 @@ export function LiaisonPage() {
   }, [hasMore, isLoadingMore, handleLoadMore])
 
   // ---- Envoyer un message ----
-  const handleSend = useCallback(async (content: string, files?: File[]) => {
+  const handleSend = useCallback(async (content: string, files?: File[], mentionedUserIds?: string[]) => {
     if (!profile || !resolvedEmployerId || !selectedConv) return
 
     let attachments
@@ -425,9 +493,38 @@ export function LiaisonPage() {
       profile.role,
       content,
       undefined,
-      attachments
+      attachments,
+      replyingTo?.id,
+      mentionedUserIds
     )
-  }, [profile, resolvedEmployerId, selectedConv])
+    setReplyingTo(null)
+  }, [profile, resolvedEmployerId, selectedConv, replyingTo])
+
+  // ---- Envoyer un message vocal (la transcription sert de contenu) ----
+  const handleSendVoice = useCallback(async (recording: RecordedVoice, transcript: string) => {
+    if (!profile || !resolvedEmployerId || !selectedConv) return
+
+    try {
+      const audio = await uploadVoiceMessage(selectedConv.id, profile.id, recording)
+      await createLiaisonMessage(
+        resolvedEmployerId,
+        selectedConv.id,
+        profile.id,
+        profile.role,
+        transcript,
+        audio.path,
+        undefined,
+        replyingTo?.id
+      )
+      setReplyingTo(null)
+    } catch (error) {
+      toaster.error({
+        title: 'Erreur',
+        description: error instanceof Error ? error.message : "Impossible d'envoyer le message vocal.",
+      })
+      throw error
+    }
+  }, [profile, resolvedEmployerId, selectedConv, replyingTo])
 
   // ---- Supprimer un message ----
   const handleDelete = useCallback(async (messageId: string) => {
@@ -438,6 +535,90 @@ export function LiaisonPage() {
     }
   }, [])
 
+  // ---- Répondre / réagir / épingler ----
+  const handleReply = useCallback((message: LiaisonMessageWithSender) => {
+    setReplyingTo(message)
+  }, [])
+
+  const handleReact = useCallback(async (messageId: string, emoji: string) => {
+    try {
+      const reactions = await toggleMessageReaction(messageId, emoji)
+      setMessages(prev => prev.map(m => m.id === messageId ? { ...m, reactions } : m))
+    } catch (error) {
+      logger.error('Erreur réaction message:', error)
+    }
+  }, [])
+
+  const handleTogglePin = useCallback(async (message: LiaisonMessageWithSender) => {
+    try {
+      await setMessagePinned(message.id, !message.pinnedAt)
+    } catch (error) {
+      toaster.error({
+        title: 'Erreur',
+        description: error instanceof Error ? error.message : "Impossible d'épingler le message.",
+      })
+    }
+  }, [])
+
+  // ---- Archivage / sourdine / niveau de notification ----
+  const updateConversationSettings = useCallback(async (
+    conv: Conversation,
+    patch: Partial<Conversation>,
+    save: () => Promise<void>,
+    errorMessage: string
+  ) => {
+    try {
+      await save()
+      setConversations(prev => prev.map(c => c.id === conv.id ? { ...c, ...patch } : c))
+    } catch (error) {
+      toaster.error({
+        title: 'Erreur',
+        description: error instanceof Error ? error.message : errorMessage,
+      })
+    }
+  }, [])
+
+  const handleArchiveConv = useCallback((conv: Conversation, archived: boolean) => {
+    if (!profile) return
+    void updateConversationSettings(
+      conv,
+      { isArchived: archived, archivedAt: archived ? new Date() : undefined },
+      () => setConversationArchived(conv.id, profile.id, archived),
+      "Impossible d'archiver la conversation."
+    )
+  }, [profile, updateConversationSettings])
+
+  const handleMuteConv = useCallback((conv: Conversation, duration: MuteDuration | null) => {
+    if (!profile) return
+    void updateConversationSettings(
+      conv,
+      { isMuted: duration !== null, mutedUntil: duration ? muteUntil(duration) ?? undefined : undefined },
+      () => muteConversation(conv.id, profile.id, duration),
+      'Impossible de modifier la sourdine.'
+    )
+  }, [profile, updateConversationSettings])
+
+  const handleSetNotificationLevel = useCallback((conv: Conversation, level: ConversationNotificationLevel) => {
+    if (!profile) return
+    void updateConversationSettings(
+      conv,
+      { notificationLevel: level },
+      () => setConversationNotificationLevel(conv.id, profile.id, level),
+      'Impossible de modifier les notifications.'
+    )
+  }, [profile, updateConversationSettings])
+
+  const handleJumpTo = useCallback((messageId: string) => {
+    document.getElementById(`message-${messageId}`)?.scrollIntoView?.({ behavior: 'smooth', block: 'center' })
+  }, [])
+
+  const replyPreview = useMemo(() => replyingTo && {
+    senderName: replyingTo.sender
+      ? `${replyingTo.sender.firstName} ${replyingTo.sender.lastName}`
+      : 'Utilisateur',
+    content: replyingTo.content,
+  }, [replyingTo])
+
   // ---- Typing ----
   const handleTyping = useCallback((isTyping: boolean) => {
     typingControlRef.current?.setTyping(isTyping)
@@ -500,6 +681,9 @@ export function LiaisonPage() {
     profile.role === 'employee' ||
     (profile.role === 'caregiver' && caregiverPermissions?.canWriteLiaison === true)
 
+  // Épinglage : réservé à l'employeur dans le fil d'équipe (consignes)
+  const canPin = canWrite && (selectedConv?.type === 'private' || profile.role === 'employer')
+
   // Titre et sous-titre de la conversation sélectionnée (prototype)
   const convTitle = selectedConv?.type === 'team'
     ? 'Équipe'
@@ -569,6 +753,9 @@ export function LiaisonPage() {
               selectedId={selectedConv?.id ?? null}
               onSelect={handleSelectConv}
               currentUserId={profile.id}
+              onArchive={handleArchiveConv}
+              onMute={handleMuteConv}
+              onSetNotificationLevel={handleSetNotificationLevel}
             />
           )}
         </Box>
@@ -653,6 +840,17 @@ export function LiaisonPage() {
             </Box>
           </Flex>
 
+          {selectedConv && (
+            <PinnedMessagesBar
+              key={selectedConv.id}
+              messages={pinnedMessages}
+              isTeam={selectedConv.type === 'team'}
+              canUnpin={canPin}
+              onJumpTo={handleJumpTo}
+              onUnpin={handleTogglePin}
+            />
+          )}
+
           {/* Messages container */}
           {!selectedConv ? (
             <Center flex={1}>
@@ -725,7 +923,12 @@ export function LiaisonPage() {
                           key={message.id}
                           message={message}
                           isOwnMessage={message.senderId === profile.id}
+                          currentUserId={profile.id}
                           onDelete={message.senderId === profile.id ? handleDelete : undefined}
+                          onReply={canWrite ? handleReply : undefined}
+                          onReact={canWrite ? handleReact : undefined}
+                          onTogglePin={canPin ? handleTogglePin : undefined}
+                          onJumpTo={handleJumpTo}
                         />
                       ))}
                     </Box>
@@ -737,7 +940,14 @@ export function LiaisonPage() {
 
               {/* Message input */}
               {canWrite ? (
-                <MessageInput onSend={handleSend} onTyping={handleTyping} />
+                <MessageInput
+                  onSend={handleSend}
+                  onSendVoice={handleSendVoice}
+                  onTyping={handleTyping}
+                  replyTo={replyPreview}
+                  onCancelReply={() => setReplyingTo(null)}
+                  mentionCandidates={mentionCandidates}
+                />
               ) : (
                 <Box
                   p={4}
@@ -0,0 +1,67 @@
+import { Box, Flex, Text } from '@chakra-ui/react'
+import { mentionRoleLabel } from '@/lib/liaison/mentions'
+import type { UseMentionAutocompleteReturn } from '@/hooks/useMentionAutocomplete'
+
+interface MentionSuggestionsProps {
+  mention: UseMentionAutocompleteReturn
+}
+
+/**
+ * Liste des personnes mentionnables, affichée au-dessus de la zone de texte.
+ * Le focus reste dans la zone de texte (aria-activedescendant) : la souris
+ * ne doit pas le lui retirer.
+ */
+export function MentionSuggestions({ mention }: MentionSuggestionsProps) {
+  if (!mention.isOpen) return null
+
+  return (
+    <Box
+      id={mention.listboxId}
+      role="listbox"
+      aria-label="Personnes à mentionner"
+      position="absolute"
+      bottom="calc(100% + 4px)"
+      left={0}
+      zIndex={10}
+      minW="220px"
+      maxW="100%"
+      bg="bg.surface"
+      borderWidth="1px"
+      borderColor="border.default"
+      borderRadius="10px"
+      boxShadow="md"
+      py={1}
+    >
+      {mention.suggestions.map((candidate, index) => {
+        const isActive = index === mention.activeIndex
+        return (
+          <Flex
+            key={candidate.id}
+            id={mention.optionId(index)}
+            role="option"
+            aria-selected={isActive}
+            align="center"
+            justify="space-between"
+            gap={3}
+            px={3}
+            py={2}
+            cursor="pointer"
+            bg={isActive ? 'brand.subtle' : 'transparent'}
+            _hover={{ bg: 'brand.subtle' }}
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => mention.select(candidate)}
+          >
+            <Text fontSize="sm" fontWeight="600" truncate>
+              {candidate.firstName} {candidate.lastName}
+            </Text>
+            <Text fontSize="xs" color="text.muted" flexShrink={0}>
+              {mentionRoleLabel(candidate.role)}
+            </Text>
+          </Flex>
+        )
+      })}
+    </Box>
+  )
+}
+
+export default MentionSuggestions
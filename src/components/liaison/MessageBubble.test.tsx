@@ -1,5 +1,6 @@
 import { describe, it, expect, vi } from 'vitest'
 import { screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
 import { renderWithProviders } from '@/test/helpers'
 import { MessageBubble } from './MessageBubble'
 import type { LiaisonMessageWithSender } from '@/types'
@@ -10,18 +11,26 @@ vi.mock('@/lib/sanitize', () => ({
   sanitizeText: (text: string) => text,
 }))
 
+vi.mock('@/components/voice/VoiceMessagePlayer', () => ({
+  VoiceMessagePlayer: ({ audioUrl, label }: { audioUrl: string; label: string }) => (
+    <div role="region" aria-label={label} data-src={audioUrl} />
+  ),
+}))
+
 // ── Helpers ────────────────────────────────────────────────────────────────────
 
 function makeMessage(overrides: Partial<LiaisonMessageWithSender> = {}): LiaisonMessageWithSender {
   return {
     id: 'msg-1',
     employerId: 'emp-1',
+    conversationId: 'conv-1',
     senderId: 'user-1',
     senderRole: 'employee',
     content: 'Bonjour, comment ça va ?',
     attachments: [],
     isEdited: false,
     readBy: ['user-1'],
+    reactions: {},
     createdAt: new Date(),
     updatedAt: new Date(),
     sender: {
@@ -50,6 +59,21 @@ describe('MessageBubble', () => {
       expect(screen.getByText('(modifié)')).toBeInTheDocument()
     })
 
+    it('affiche le lecteur et la transcription d\'un message vocal', () => {
+      renderWithProviders(
+        <MessageBubble
+          message={makeMessage({ audioUrl: 'conv-1/user-1/1_vocal.webm', content: 'Le kiné passe à 15h' })}
+          isOwnMessage={false}
+        />
+      )
+      expect(screen.getByRole('region', { name: 'Message vocal de Jean Martin' })).toHaveAttribute(
+        'data-src',
+        'conv-1/user-1/1_vocal.webm'
+      )
+      expect(screen.getByText('Transcription')).toBeInTheDocument()
+      expect(screen.getByText('Le kiné passe à 15h')).toBeInTheDocument()
+    })
+
     it('n\'affiche pas "(modifié)" si isEdited=false', () => {
       renderWithProviders(
         <MessageBubble message={makeMessage({ isEdited: false })} isOwnMessage={false} />
@@ -129,5 +153,57 @@ describe('MessageBubble', () => {
       )
       expect(screen.queryByRole('button', { name: /options du message/i })).not.toBeInTheDocument()
     })
+
+    it('affiche le bouton options sur le message d\'un autre si onReply fourni', () => {
+      renderWithProviders(
+        <MessageBubble message={makeMessage()} isOwnMessage={false} onReply={vi.fn()} />
+      )
+      expect(screen.getByRole('button', { name: /options du message/i })).toBeInTheDocument()
+    })
+  })
+
+  describe('Réponses, réactions et épinglage', () => {
+    it('affiche le message cité et permet d\'y revenir', async () => {
+      const onJumpTo = vi.fn()
+      renderWithProviders(
+        <MessageBubble
+          message={makeMessage({
+            replyToId: 'msg-0',
+            replyTo: { id: 'msg-0', content: 'Le portail est fermé ?', senderName: 'Anne Roy' },
+          })}
+          isOwnMessage={false}
+          onJumpTo={onJumpTo}
+        />
+      )
+      expect(screen.getByText('Le portail est fermé ?')).toBeInTheDocument()
+
+      await userEvent.click(screen.getByRole('button', { name: /voir le message de anne roy/i }))
+      expect(onJumpTo).toHaveBeenCalledWith('msg-0')
+    })
+
+    it('affiche les réactions et signale celles de l\'utilisateur', async () => {
+      const onReact = vi.fn()
+      renderWithProviders(
+        <MessageBubble
+          message={makeMessage({ reactions: { '👍': ['user-1', 'user-2'], '🙏': ['user-2'] } })}
+          isOwnMessage={false}
+          currentUserId="user-1"
+          onReact={onReact}
+        />
+      )
+      const mine = screen.getByRole('button', { name: 'Réaction 👍 (2)' })
+      expect(mine).toHaveAttribute('aria-pressed', 'true')
+      expect(screen.getByRole('button', { name: 'Réaction 🙏 (1)' })).toHaveAttribute('aria-pressed', 'false')
+
+      await userEvent.click(mine)
+      expect(onReact).toHaveBeenCalledWith('msg-1', '👍')
+    })
+
+    it('affiche l\'indicateur épinglé', () => {
+      renderWithProviders(
+        <MessageBubble message={makeMessage({ pinnedAt: new Date() })} isOwnMessage={false} />
+      )
+      expect(screen.getByText('📌 Épinglé')).toBeInTheDocument()
+    })
   })
 })
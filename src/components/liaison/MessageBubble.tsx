@@ -1,6 +1,7 @@
 import { memo } from 'react'
 import {
   Box,
+  Button,
   Flex,
   Text,
   Avatar,
@@ -14,6 +15,7 @@ import { format, isToday, isYesterday } from 'date-fns'
 import { fr } from 'date-fns/locale'
 import { sanitizeText } from '@/lib/sanitize'
 import { formatSize } from '@/services/attachmentService'
+import { VoiceMessagePlayer } from '@/components/voice/VoiceMessagePlayer'
 import type { Attachment, LiaisonMessageWithSender } from '@/types'
 
 // ============================================
@@ -23,10 +25,20 @@ import type { Attachment, LiaisonMessageWithSender } from '@/types'
 export interface MessageBubbleProps {
   message: LiaisonMessageWithSender
   isOwnMessage: boolean
+  /** Utilisateur courant (réactions déjà posées) */
+  currentUserId?: string
   onEdit?: (messageId: string) => void
   onDelete?: (messageId: string) => void
+  onReply?: (message: LiaisonMessageWithSender) => void
+  onReact?: (messageId: string, emoji: string) => void
+  onTogglePin?: (message: LiaisonMessageWithSender) => void
+  /** Fait défiler jusqu'au message cité */
+  onJumpTo?: (messageId: string) => void
 }
 
+/** Réactions proposées */
+const REACTION_EMOJIS = ['👍', '❤️', '😂', '😮', '🙏', '✅']
+
 // ============================================
 // MENU ICON
 // ============================================
@@ -67,15 +79,25 @@ function formatMessageDate(date: Date): string {
 export const MessageBubble = memo(function MessageBubble({
   message,
   isOwnMessage,
+  currentUserId,
   onEdit,
   onDelete,
+  onReply,
+  onReact,
+  onTogglePin,
+  onJumpTo,
 }: MessageBubbleProps) {
   const senderName = message.sender
     ? `${message.sender.firstName} ${message.sender.lastName}`
     : 'Utilisateur'
 
+  const canEditOwn = isOwnMessage && (onEdit || onDelete)
+  const hasActions = canEditOwn || onReply || onTogglePin
+  const reactions = Object.entries(message.reactions ?? {}).filter(([, users]) => users.length > 0)
+
   return (
     <Flex
+      id={`message-${message.id}`}
       justify={isOwnMessage ? 'flex-end' : 'flex-start'}
       w="full"
       px={2}
@@ -117,11 +139,61 @@ export const MessageBubble = memo(function MessageBubble({
               overflowWrap: 'anywhere',
             }}
           >
+            {message.pinnedAt && (
+              <Text fontSize="xs" fontWeight="600" mb={1} color={isOwnMessage ? 'rgba(255,255,255,0.8)' : 'text.muted'}>
+                📌 Épinglé
+              </Text>
+            )}
+
+            {/* Message cité */}
+            {message.replyTo && (
+              <Button
+                variant="plain"
+                h="auto"
+                w="full"
+                p={0}
+                mb={2}
+                display="block"
+                textAlign="left"
+                whiteSpace="normal"
+                fontWeight="normal"
+                color="inherit"
+                aria-label={`Voir le message de ${message.replyTo.senderName}`}
+                onClick={() => onJumpTo?.(message.replyTo!.id)}
+              >
+                <Box
+                  borderLeftWidth="3px"
+                  borderColor={isOwnMessage ? 'whiteAlpha.700' : 'brand.500'}
+                  bg={isOwnMessage ? 'whiteAlpha.200' : 'bg.surface'}
+                  borderRadius="6px"
+                  px={2}
+                  py={1}
+                >
+                  <Text fontSize="xs" fontWeight="700">{message.replyTo.senderName}</Text>
+                  <Text fontSize="xs" lineClamp={2}>{sanitizeText(message.replyTo.content)}</Text>
+                </Box>
+              </Button>
+            )}
+
+            {/* Message vocal : le contenu est sa transcription */}
+            {message.audioUrl && (
+              <Box mb={message.content ? 2 : 0}>
+                <VoiceMessagePlayer audioUrl={message.audioUrl} label={`Message vocal de ${senderName}`} />
+              </Box>
+            )}
+
             {/* Message text — prototype: var(--fs-sm) */}
             {message.content && (
-              <Text as="p" fontSize="sm" lineHeight="1.6" whiteSpace="pre-wrap">
-                {sanitizeText(message.content)}
-              </Text>
+              <>
+                {message.audioUrl && (
+                  <Text fontSize="xs" fontWeight="600" color={isOwnMessage ? 'rgba(255,255,255,0.8)' : 'text.muted'}>
+                    Transcription
+                  </Text>
+                )}
+                <Text as="p" fontSize="sm" lineHeight="1.6" whiteSpace="pre-wrap">
+                  {sanitizeText(message.content)}
+                </Text>
+              </>
             )}
 
             {/* Attachments */}
@@ -157,10 +229,61 @@ export const MessageBubble = memo(function MessageBubble({
               {formatMessageDate(message.createdAt)}
             </Text>
           </Box>
+
+          {/* Réactions */}
+          {(reactions.length > 0 || onReact) && (
+            <Flex gap={1} mt={1} wrap="wrap" justify={isOwnMessage ? 'flex-end' : 'flex-start'}>
+              {reactions.map(([emoji, users]) => {
+                const mine = !!currentUserId && users.includes(currentUserId)
+                return (
+                  <Button
+                    key={emoji}
+                    size="2xs"
+                    variant={mine ? 'subtle' : 'outline'}
+                    colorPalette={mine ? 'brand' : 'gray'}
+                    borderRadius="full"
+                    aria-pressed={mine}
+                    aria-label={`Réaction ${emoji} (${users.length})`}
+                    disabled={!onReact}
+                    onClick={() => onReact?.(message.id, emoji)}
+                  >
+                    {emoji} {users.length}
+                  </Button>
+                )
+              })}
+              {onReact && (
+                <Menu.Root>
+                  <Menu.Trigger asChild>
+                    <IconButton aria-label="Ajouter une réaction" variant="ghost" size="2xs" borderRadius="full">
+                      <Text as="span" fontSize="xs">☺+</Text>
+                    </IconButton>
+                  </Menu.Trigger>
+                  <Portal>
+                    <Menu.Positioner>
+                      <Menu.Content display="flex" flexDirection="row" gap={1} p={1}>
+                        {REACTION_EMOJIS.map((emoji) => (
+                          <Menu.Item
+                            key={emoji}
+                            value={`react-${emoji}`}
+                            aria-label={`Réagir ${emoji}`}
+                            justifyContent="center"
+                            fontSize="lg"
+                            onClick={() => onReact(message.id, emoji)}
+                          >
+                            {emoji}
+                          </Menu.Item>
+                        ))}
+                      </Menu.Content>
+                    </Menu.Positioner>
+                  </Portal>
+                </Menu.Root>
+              )}
+            </Flex>
+          )}
         </Box>
 
-        {/* Actions menu (own messages only) */}
-        {isOwnMessage && (onEdit || onDelete) && (
+        {/* Actions menu */}
+        {hasActions && (
           <Menu.Root>
             <Menu.Trigger asChild>
               <IconButton
@@ -179,7 +302,17 @@ export const MessageBubble = memo(function MessageBubble({
             <Portal>
               <Menu.Positioner>
                 <Menu.Content minW="120px">
-                  {onEdit && (
+                  {onReply && (
+                    <Menu.Item value="reply" onClick={() => onReply(message)}>
+                      Répondre
+                    </Menu.Item>
+                  )}
+                  {onTogglePin && (
+                    <Menu.Item value="pin" onClick={() => onTogglePin(message)}>
+                      {message.pinnedAt ? 'Désépingler' : 'Épingler'}
+                    </Menu.Item>
+                  )}
+                  {isOwnMessage && onEdit && (
                     <Menu.Item
                       value="edit"
                       onClick={() => onEdit(message.id)}
@@ -187,7 +320,7 @@ export const MessageBubble = memo(function MessageBubble({
                       Modifier
                     </Menu.Item>
                   )}
-                  {onDelete && (
+                  {isOwnMessage && onDelete && (
                     <Menu.Item
                       value="delete"
                       onClick={() => onDelete(message.id)}
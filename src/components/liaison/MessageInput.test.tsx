@@ -20,6 +20,25 @@ vi.mock('@/hooks/useSpeechRecognition', () => ({
   useSpeechRecognition: () => mockSpeechRecognition,
 }))
 
+const mockVoiceMessage = {
+  isSupported: true,
+  status: 'idle' as 'idle' | 'starting' | 'recording' | 'transcribing' | 'ready',
+  recording: null as { blob: Blob; mimeType: string; durationMs: number } | null,
+  transcript: '',
+  setTranscript: vi.fn(),
+  error: null as string | null,
+  modelProgress: 0,
+  elapsedMs: 0,
+  start: vi.fn(),
+  stop: vi.fn(),
+  cancel: vi.fn(),
+  reset: vi.fn(),
+}
+
+vi.mock('@/hooks/useVoiceMessage', () => ({
+  useVoiceMessage: () => mockVoiceMessage,
+}))
+
 vi.mock('@/lib/logger', () => ({
   logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn() },
 }))
@@ -28,6 +47,7 @@ vi.mock('@/services/attachmentService', () => ({
   validateAttachmentFiles: () => ({ valid: true }),
   formatSize: (bytes: number) => `${Math.round(bytes / 1024)} Ko`,
   getAttachmentType: (file: File) => (file.type.startsWith('image/') ? 'image' : 'document'),
+  getVoiceMessageUrl: (url: string) => Promise.resolve(url),
 }))
 
 // ── Tests ──────────────────────────────────────────────────────────────────────
@@ -44,6 +64,9 @@ describe('MessageInput', () => {
     mockSpeechRecognition.isListening = false
     mockSpeechRecognition.transcript = ''
     mockSpeechRecognition.error = null
+    mockVoiceMessage.status = 'idle'
+    mockVoiceMessage.recording = null
+    mockVoiceMessage.transcript = ''
   })
 
   describe('Rendu initial', () => {
@@ -78,6 +101,24 @@ describe('MessageInput', () => {
     })
   })
 
+  describe('Réponse à un message', () => {
+    it('affiche le message cité et permet d\'annuler', async () => {
+      const onCancelReply = vi.fn()
+      renderWithProviders(
+        <MessageInput
+          {...defaultProps}
+          replyTo={{ senderName: 'Anne Roy', content: 'Pensez au portail' }}
+          onCancelReply={onCancelReply}
+        />
+      )
+      expect(screen.getByText('Réponse à Anne Roy')).toBeInTheDocument()
+      expect(screen.getByText('Pensez au portail')).toBeInTheDocument()
+
+      await userEvent.click(screen.getByRole('button', { name: /annuler la réponse/i }))
+      expect(onCancelReply).toHaveBeenCalled()
+    })
+  })
+
   describe('Saisie et envoi', () => {
     it('active le bouton envoyer quand du texte est saisi', async () => {
       const user = userEvent.setup()
@@ -154,6 +195,47 @@ describe('MessageInput', () => {
     })
   })
 
+  describe('Mentions', () => {
+    const mentionCandidates = [
+      { id: 'aux-1', firstName: 'Marie', lastName: 'Dupont', role: 'employee' as const },
+      { id: 'cg-1', firstName: 'Paul', lastName: 'Martin', role: 'caregiver' as const },
+    ]
+
+    it('propose les personnes correspondant à la saisie après @', async () => {
+      const user = userEvent.setup()
+      renderWithProviders(<MessageInput {...defaultProps} mentionCandidates={mentionCandidates} />)
+
+      await user.type(screen.getByPlaceholderText('Écrire un message…'), 'Merci @pa')
+
+      const listbox = screen.getByRole('listbox', { name: /personnes à mentionner/i })
+      expect(listbox).toBeInTheDocument()
+      expect(screen.getAllByRole('option')).toHaveLength(1)
+      expect(screen.getByRole('option')).toHaveTextContent('Paul Martin')
+    })
+
+    it('insère la mention avec Entrée puis transmet les personnes mentionnées', async () => {
+      const onSend = vi.fn().mockResolvedValue(undefined)
+      const user = userEvent.setup()
+      renderWithProviders(
+        <MessageInput {...defaultProps} onSend={onSend} mentionCandidates={mentionCandidates} />
+      )
+
+      const textarea = screen.getByPlaceholderText('Écrire un message…')
+      await user.type(textarea, '@mar')
+      await user.keyboard('{Enter}')
+
+      expect(textarea).toHaveValue('@Marie ')
+      expect(onSend).not.toHaveBeenCalled()
+
+      await user.type(textarea, 'tu peux passer ?')
+      await user.keyboard('{Enter}')
+
+      await waitFor(() => {
+        expect(onSend).toHaveBeenCalledWith('@Marie tu peux passer ?', undefined, ['aux-1'])
+      })
+    })
+  })
+
   describe('Indicateur de saisie (typing)', () => {
     it('appelle onTyping(true) quand l\'utilisateur tape', async () => {
       const onTyping = vi.fn()
@@ -261,6 +343,33 @@ describe('MessageInput', () => {
     })
   })
 
+  describe('Message vocal', () => {
+    it('n\'affiche pas le bouton push-to-talk sans onSendVoice', () => {
+      renderWithProviders(<MessageInput {...defaultProps} />)
+      expect(screen.queryByRole('button', { name: /enregistrer un message vocal/ })).not.toBeInTheDocument()
+    })
+
+    it('envoie l\'enregistrement avec la transcription corrigée', async () => {
+      const recording = { blob: new Blob(['a'], { type: 'audio/webm' }), mimeType: 'audio/webm', durationMs: 2000 }
+      mockVoiceMessage.status = 'ready'
+      mockVoiceMessage.recording = recording
+      mockVoiceMessage.transcript = 'Rendez-vous chez le kiné à 15h'
+      URL.createObjectURL = vi.fn(() => 'blob:http://localhost/preview')
+      URL.revokeObjectURL = vi.fn()
+      const onSendVoice = vi.fn().mockResolvedValue(undefined)
+
+      renderWithProviders(<MessageInput {...defaultProps} onSendVoice={onSendVoice} />)
+      expect(screen.getByRole('button', { name: 'Maintenir pour enregistrer un message vocal' })).toBeDisabled()
+
+      fireEvent.click(screen.getByRole('button', { name: 'Envoyer le message vocal' }))
+
+      await waitFor(() => {
+        expect(onSendVoice).toHaveBeenCalledWith(recording, 'Rendez-vous chez le kiné à 15h')
+      })
+      expect(defaultProps.onSend).not.toHaveBeenCalled()
+    })
+  })
+
   describe('Compteur de caractères', () => {
     it('n\'affiche pas le compteur pour un texte court', () => {
       renderWithProviders(<MessageInput {...defaultProps} />)
@@ -9,7 +9,13 @@ import {
   VisuallyHidden,
 } from '@chakra-ui/react'
 import { useSpeechRecognition } from '@/hooks/useSpeechRecognition'
+import { useVoiceMessage } from '@/hooks/useVoiceMessage'
+import { useMentionAutocomplete } from '@/hooks/useMentionAutocomplete'
+import { PushToTalkButton, VoiceMessageRecorder } from '@/components/voice/VoiceMessageRecorder'
+import { MentionSuggestions } from './MentionSuggestions'
 import { logger } from '@/lib/logger'
+import { extractMentionedUserIds, type MentionCandidate } from '@/lib/liaison/mentions'
+import type { RecordedVoice } from '@/lib/voice/voiceRecorder'
 import {
   validateAttachmentFiles,
   formatSize,
@@ -21,12 +27,21 @@ import {
 // ============================================
 
 export interface MessageInputProps {
-  onSend: (content: string, files?: File[]) => Promise<void>
+  onSend: (content: string, files?: File[], mentionedUserIds?: string[]) => Promise<void>
   onTyping?: (isTyping: boolean) => void
   disabled?: boolean
   placeholder?: string
+  /** Message auquel on répond (bandeau au-dessus de la saisie) */
+  replyTo?: { senderName: string; content: string } | null
+  onCancelReply?: () => void
+  /** Envoi d'un message vocal (bouton push-to-talk affiché si fourni) */
+  onSendVoice?: (recording: RecordedVoice, transcript: string) => Promise<void>
+  /** Personnes mentionnables avec @Prénom (autocomplétion) */
+  mentionCandidates?: MentionCandidate[]
 }
 
+const NO_MENTION_CANDIDATES: MentionCandidate[] = []
+
 // ============================================
 // ICONS
 // ============================================
@@ -104,6 +119,10 @@ export function MessageInput({
   onTyping,
   disabled = false,
   placeholder = 'Écrire un message…',
+  replyTo,
+  onCancelReply,
+  onSendVoice,
+  mentionCandidates = NO_MENTION_CANDIDATES,
 }: MessageInputProps) {
   const [content, setContent] = useState('')
   const [isSending, setIsSending] = useState(false)
@@ -131,6 +150,16 @@ export function MessageInput({
     interimResults: true,
   })
 
+  // Message vocal : l'audio est envoyé avec sa transcription Whisper locale
+  const voiceMessage = useVoiceMessage()
+
+  const mention = useMentionAutocomplete({
+    candidates: mentionCandidates,
+    value: content,
+    onChange: setContent,
+    textareaRef,
+  })
+
   // Real-time: write transcript into the textarea as the user speaks
   useEffect(() => {
     if (isListening && transcript) {
@@ -147,6 +176,11 @@ export function MessageInput({
     }
   }, [content])
 
+  // Focus sur la saisie quand on choisit de répondre
+  useEffect(() => {
+    if (replyTo) textareaRef.current?.focus()
+  }, [replyTo])
+
   // Cleanup typing timeout
   useEffect(() => {
     return () => {
@@ -170,10 +204,12 @@ export function MessageInput({
   }, [onTyping])
 
   // Handle content change (manual typing)
+  const { update: updateMention, close: closeMention, handleKeyDown: handleMentionKeyDown } = mention
   const handleChange = useCallback((e: React.ChangeEvent<HTMLTextAreaElement>) => {
     setContent(e.target.value)
+    updateMention(e.target.value, e.target.selectionStart)
     handleTyping()
-  }, [handleTyping])
+  }, [handleTyping, updateMention])
 
   // Handle file selection
   const handleFileSelect = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
@@ -218,7 +254,13 @@ export function MessageInput({
     onTyping?.(false)
 
     try {
-      await onSend(trimmedContent || '', files.length > 0 ? files : undefined)
+      const mentionedUserIds = extractMentionedUserIds(trimmedContent, mentionCandidates)
+      if (mentionedUserIds.length > 0) {
+        await onSend(trimmedContent, files.length > 0 ? files : undefined, mentionedUserIds)
+      } else {
+        await onSend(trimmedContent || '', files.length > 0 ? files : undefined)
+      }
+      closeMention()
       setContent('')
       setFiles([])
       setFileError(null)
@@ -232,15 +274,16 @@ export function MessageInput({
     } finally {
       setIsSending(false)
     }
-  }, [content, files, isSending, disabled, isListening, onSend, onTyping, stopListening, resetVoice])
+  }, [content, files, isSending, disabled, isListening, onSend, onTyping, stopListening, resetVoice, mentionCandidates, closeMention])
 
-  // Handle keyboard shortcuts
-  const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
+  // Handle keyboard shortcuts (la liste de mentions a la priorité)
+  const handleKeyDown = useCallback((e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (handleMentionKeyDown(e)) return
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault()
       handleSend()
     }
-  }, [handleSend])
+  }, [handleSend, handleMentionKeyDown])
 
   // Toggle voice recognition
   const handleVoiceToggle = useCallback(() => {
@@ -282,6 +325,41 @@ export function MessageInput({
         </Box>
       )}
 
+      {/* Reply banner */}
+      {replyTo && (
+        <Flex
+          align="center"
+          gap={2}
+          bg="bg.page"
+          borderLeftWidth="3px"
+          borderColor="brand.500"
+          borderRadius="6px"
+          px={3}
+          py={2}
+          mb={3}
+        >
+          <Box flex={1} minW={0}>
+            <Text fontSize="xs" fontWeight="700" color="brand.500">
+              Réponse à {replyTo.senderName}
+            </Text>
+            <Text fontSize="sm" color="text.muted" truncate>
+              {replyTo.content}
+            </Text>
+          </Box>
+          {onCancelReply && (
+            <IconButton
+              aria-label="Annuler la réponse"
+              size="xs"
+              variant="ghost"
+              colorPalette="gray"
+              onClick={onCancelReply}
+            >
+              <CloseIcon />
+            </IconButton>
+          )}
+        </Flex>
+      )}
+
       {/* File error banner */}
       {fileError && (
         <Box
@@ -339,6 +417,10 @@ export function MessageInput({
         </Flex>
       )}
 
+      {onSendVoice && (
+        <VoiceMessageRecorder voice={voiceMessage} onSend={onSendVoice} disabled={disabled} />
+      )}
+
       {/* Hidden file input */}
       <input
         ref={fileInputRef}
@@ -423,13 +505,22 @@ export function MessageInput({
           )}
         </Box>
 
+        {onSendVoice && (
+          <PushToTalkButton voice={voiceMessage} disabled={disabled || isSending || isListening} />
+        )}
+
         {/* Text input */}
         <Box flex={1} position="relative">
+          <MentionSuggestions mention={mention} />
           <Textarea
             ref={textareaRef}
             value={content}
             onChange={handleChange}
             onKeyDown={handleKeyDown}
+            onBlur={mention.close}
+            aria-autocomplete={mentionCandidates.length > 0 ? 'list' : undefined}
+            aria-controls={mention.isOpen ? mention.listboxId : undefined}
+            aria-activedescendant={mention.isOpen ? mention.optionId(mention.activeIndex) : undefined}
             placeholder={isListening ? 'Parlez maintenant...' : placeholder}
             disabled={disabled || isSending}
             rows={1}
@@ -506,6 +597,8 @@ export function MessageInput({
       <Text fontSize="xs" color="text.muted" mt={2} textAlign="center">
         {isListening
           ? 'Parlez... Le texte apparaît en temps réel. Cliquez sur le micro pour arrêter.'
+          : mentionCandidates.length > 0
+          ? 'Entrée pour envoyer, Maj+Entrée pour nouvelle ligne, @ pour mentionner'
           : 'Entrée pour envoyer, Maj+Entrée pour nouvelle ligne'}
       </Text>
 
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi } from 'vitest'
+import { screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { renderWithProviders } from '@/test/helpers'
+import { PinnedMessagesBar } from './PinnedMessagesBar'
+import type { LiaisonMessageWithSender } from '@/types'
+
+vi.mock('@/lib/sanitize', () => ({
+  sanitizeText: (text: string) => text,
+}))
+
+function makeMessage(overrides: Partial<LiaisonMessageWithSender> = {}): LiaisonMessageWithSender {
+  return {
+    id: 'msg-1',
+    employerId: 'emp-1',
+    conversationId: 'conv-1',
+    senderId: 'emp-1',
+    senderRole: 'employer',
+    content: 'Clés dans la boîte aux lettres',
+    attachments: [],
+    isEdited: false,
+    readBy: [],
+    reactions: {},
+    pinnedAt: new Date(),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    sender: { firstName: 'Anne', lastName: 'Roy' },
+    ...overrides,
+  }
+}
+
+const pinned = [
+  makeMessage(),
+  makeMessage({ id: 'msg-2', content: 'Pas de sel dans les repas' }),
+]
+
+describe('PinnedMessagesBar', () => {
+  it('ne rend rien sans message épinglé', () => {
+    const { container } = renderWithProviders(
+      <PinnedMessagesBar messages={[]} isTeam canUnpin={false} onJumpTo={vi.fn()} onUnpin={vi.fn()} />
+    )
+    expect(container).toBeEmptyDOMElement()
+  })
+
+  it('déplie les consignes du fil d\'équipe', () => {
+    renderWithProviders(
+      <PinnedMessagesBar messages={pinned} isTeam canUnpin={false} onJumpTo={vi.fn()} onUnpin={vi.fn()} />
+    )
+    expect(screen.getByText(/Consignes de l’équipe \(2\)/)).toBeInTheDocument()
+    expect(screen.getByText('Clés dans la boîte aux lettres')).toBeInTheDocument()
+    expect(screen.getByText('Pas de sel dans les repas')).toBeInTheDocument()
+  })
+
+  it('replie les messages épinglés d\'une conversation privée', async () => {
+    renderWithProviders(
+      <PinnedMessagesBar messages={pinned} isTeam={false} canUnpin={false} onJumpTo={vi.fn()} onUnpin={vi.fn()} />
+    )
+    expect(screen.queryByText('Pas de sel dans les repas')).not.toBeInTheDocument()
+
+    await userEvent.click(screen.getByRole('button', { name: 'Tout voir' }))
+    expect(screen.getByText('Pas de sel dans les repas')).toBeInTheDocument()
+  })
+
+  it('permet de rejoindre et de désépingler un message', async () => {
+    const onJumpTo = vi.fn()
+    const onUnpin = vi.fn()
+    renderWithProviders(
+      <PinnedMessagesBar messages={[pinned[0]]} isTeam canUnpin onJumpTo={onJumpTo} onUnpin={onUnpin} />
+    )
+
+    await userEvent.click(screen.getByRole('button', { name: /voir le message épinglé de anne roy/i }))
+    expect(onJumpTo).toHaveBeenCalledWith('msg-1')
+
+    await userEvent.click(screen.getByRole('button', { name: 'Désépingler' }))
+    expect(onUnpin).toHaveBeenCalledWith(pinned[0])
+  })
+
+  it('masque le bouton désépingler sans droit', () => {
+    renderWithProviders(
+      <PinnedMessagesBar messages={pinned} isTeam canUnpin={false} onJumpTo={vi.fn()} onUnpin={vi.fn()} />
+    )
+    expect(screen.queryByRole('button', { name: 'Désépingler' })).not.toBeInTheDocument()
+  })
+})
@@ -0,0 +1,116 @@
+import { useState } from 'react'
+import { Box, Button, Flex, IconButton, Text } from '@chakra-ui/react'
+import { sanitizeText } from '@/lib/sanitize'
+import type { LiaisonMessageWithSender } from '@/types'
+
+// ============================================
+// PROPS
+// ============================================
+
+export interface PinnedMessagesBarProps {
+  messages: LiaisonMessageWithSender[]
+  /** Fil d'équipe : les messages épinglés sont les consignes permanentes */
+  isTeam: boolean
+  canUnpin: boolean
+  onJumpTo: (messageId: string) => void
+  onUnpin: (message: LiaisonMessageWithSender) => void
+}
+
+// ============================================
+// COMPONENT
+// ============================================
+
+export function PinnedMessagesBar({
+  messages,
+  isTeam,
+  canUnpin,
+  onJumpTo,
+  onUnpin,
+}: PinnedMessagesBarProps) {
+  // Les consignes de l'équipe sont dépliées d'office : c'est ce que les
+  // nouveaux auxiliaires doivent lire en premier.
+  const [isExpanded, setIsExpanded] = useState(isTeam)
+
+  if (messages.length === 0) return null
+
+  const visible = isExpanded ? messages : messages.slice(0, 1)
+  const title = isTeam ? 'Consignes de l’équipe' : 'Messages épinglés'
+
+  return (
+    <Box
+      as="section"
+      aria-label={title}
+      bg="bg.page"
+      borderBottomWidth="1px"
+      borderColor="border.default"
+      px={4}
+      py={2}
+      flexShrink={0}
+      maxH="40%"
+      overflowY="auto"
+    >
+      <Flex align="center" justify="space-between" mb={1}>
+        <Text fontSize="xs" fontWeight="700" color="text.muted">
+          📌 {title} ({messages.length})
+        </Text>
+        {messages.length > 1 && (
+          <Button
+            size="2xs"
+            variant="ghost"
+            colorPalette="brand"
+            aria-expanded={isExpanded}
+            onClick={() => setIsExpanded((v) => !v)}
+          >
+            {isExpanded ? 'Réduire' : 'Tout voir'}
+          </Button>
+        )}
+      </Flex>
+
+      {visible.map((message) => {
+        const senderName = message.sender
+          ? `${message.sender.firstName} ${message.sender.lastName}`
+          : 'Utilisateur'
+        return (
+          <Flex key={message.id} align="flex-start" gap={2} py={1}>
+            <Button
+              variant="plain"
+              h="auto"
+              p={0}
+              flex={1}
+              minW={0}
+              display="block"
+              textAlign="left"
+              whiteSpace="normal"
+              fontWeight="normal"
+              aria-label={`Voir le message épinglé de ${senderName}`}
+              onClick={() => onJumpTo(message.id)}
+            >
+              <Text fontSize="sm" lineClamp={isExpanded ? undefined : 1} whiteSpace="pre-wrap">
+                {sanitizeText(message.content) || '📎 Pièce jointe'}
+              </Text>
+              <Text fontSize="xs" color="text.muted">
+                {senderName}
+              </Text>
+            </Button>
+            {canUnpin && (
+              <IconButton
+                aria-label="Désépingler"
+                size="2xs"
+                variant="ghost"
+                colorPalette="gray"
+                onClick={() => onUnpin(message)}
+              >
+                <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round">
+                  <line x1="18" y1="6" x2="6" y2="18" />
+                  <line x1="6" y1="6" x2="18" y2="18" />
+                </svg>
+              </IconButton>
+            )}
+          </Flex>
+        )
+      })}
+    </Box>
+  )
+}
+
+export default PinnedMessagesBar
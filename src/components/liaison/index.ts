@@ -2,4 +2,6 @@ export { LiaisonPage } from './LiaisonPage'
 export { MessageBubble, type MessageBubbleProps } from './MessageBubble'
 export { MessageInput, type MessageInputProps } from './MessageInput'
 export { ConversationList } from './ConversationList'
+export { PinnedMessagesBar, type PinnedMessagesBarProps } from './PinnedMessagesBar'
 export { NewConversationModal, type NewMessageRecipient } from './NewConversationModal'
+export { MentionSuggestions } from './MentionSuggestions'
@@ -0,0 +1,158 @@
+/**
+ * Champs de saisie d'une fiche de suivi (repas, hydratation, humeur…)
+ * générés à partir de la définition du modèle.
+ */
+
+import { Box, Flex, Stack, Text } from '@chakra-ui/react'
+import { AccessibleButton, AccessibleInput } from '@/components/ui'
+import { CARE_TEMPLATES, type CareFieldDefinition } from '@/lib/logbook/careTemplates'
+import type { CareLogData, CareTemplateId } from '@/types'
+
+interface CareLogFieldsProps {
+  templateId: CareTemplateId
+  value: CareLogData
+  onChange: (value: CareLogData) => void
+}
+
+function OptionButton({
+  label,
+  selected,
+  onClick,
+  ariaLabel,
+}: {
+  label: string
+  selected: boolean
+  onClick: () => void
+  ariaLabel?: string
+}) {
+  return (
+    <AccessibleButton
+      size="sm"
+      minW="40px"
+      px={3}
+      variant={selected ? 'solid' : 'outline'}
+      colorPalette={selected ? 'brand' : 'gray'}
+      aria-pressed={selected}
+      accessibleLabel={ariaLabel}
+      onClick={onClick}
+    >
+      {label}
+    </AccessibleButton>
+  )
+}
+
+function CareField({
+  field,
+  value,
+  onChange,
+}: {
+  field: CareFieldDefinition
+  value: CareLogData[string] | undefined
+  onChange: (value: CareLogData[string] | undefined) => void
+}) {
+  switch (field.kind) {
+    case 'choice':
+      return (
+        <Box as="fieldset">
+          <Text as="legend" fontWeight="medium" fontSize="md" mb={2}>
+            {field.label}
+          </Text>
+          <Flex gap={2} wrap="wrap">
+            {field.options.map((opt) => (
+              <OptionButton
+                key={String(opt.value)}
+                label={opt.label}
+                selected={value === opt.value}
+                onClick={() => onChange(opt.value)}
+              />
+            ))}
+          </Flex>
+        </Box>
+      )
+
+    case 'scale': {
+      const steps = Array.from({ length: field.max - field.min + 1 }, (_, i) => field.min + i)
+      return (
+        <Box as="fieldset">
+          <Text as="legend" fontWeight="medium" fontSize="md" mb={2}>
+            {field.label}
+          </Text>
+          <Flex gap={1} wrap="wrap">
+            {steps.map((step) => (
+              <OptionButton
+                key={step}
+                label={String(step)}
+                ariaLabel={`${field.label} ${step} sur ${field.max}`}
+                selected={value === step}
+                onClick={() => onChange(step)}
+              />
+            ))}
+          </Flex>
+          <Flex justify="space-between" mt={1}>
+            <Text fontSize="xs" color="text.muted">{field.min} — {field.minLabel}</Text>
+            <Text fontSize="xs" color="text.muted">{field.max} — {field.maxLabel}</Text>
+          </Flex>
+        </Box>
+      )
+    }
+
+    case 'number':
+      return (
+        <AccessibleInput
+          label={`${field.label} (${field.unit})`}
+          type="number"
+          inputMode="numeric"
+          min={field.min}
+          max={field.max}
+          step={50}
+          value={typeof value === 'number' ? value : ''}
+          onChange={(e) => onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+        />
+      )
+
+    case 'boolean':
+      return (
+        <Flex as="label" align="center" gap={2} fontSize="md" cursor="pointer">
+          <input
+            type="checkbox"
+            checked={value === true}
+            onChange={(e) => onChange(e.target.checked)}
+          />
+          {field.label}
+        </Flex>
+      )
+
+    case 'text':
+      return (
+        <AccessibleInput
+          label={field.label}
+          maxLength={200}
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      )
+  }
+}
+
+export function CareLogFields({ templateId, value, onChange }: CareLogFieldsProps) {
+  return (
+    <Stack gap={4} p={4} bg="bg.page" borderRadius="10px">
+      {CARE_TEMPLATES[templateId].fields.map((field) => (
+        <CareField
+          key={field.key}
+          field={field}
+          value={value[field.key]}
+          onChange={(fieldValue) => {
+            const next = { ...value }
+            if (fieldValue === undefined) {
+              delete next[field.key]
+            } else {
+              next[field.key] = fieldValue
+            }
+            onChange(next)
+          }}
+        />
+      ))}
+    </Stack>
+  )
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { screen, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { renderWithProviders } from '@/test/helpers'
+
+// ─── Mocks ──────────────────────────────────────────────────────────────────
+
+vi.mock('@/services/logbookService', () => ({
+  getCareLogEntries: vi.fn(),
+}))
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn(), debug: vi.fn() },
+}))
+
+// ─── Imports après mocks ──────────────────────────────────────────────────────
+
+import { getCareLogEntries } from '@/services/logbookService'
+import { CareTrendsPanel } from './CareTrendsPanel'
+import type { LogEntry } from '@/types'
+
+// ─── Fixtures ────────────────────────────────────────────────────────────────
+
+function careEntry(overrides: Partial<LogEntry>): LogEntry {
+  return {
+    id: 'entry-1',
+    employerId: 'employer-1',
+    authorId: 'employee-1',
+    authorRole: 'employee',
+    type: 'info',
+    importance: 'normal',
+    content: 'Fiche',
+    attachments: [],
+    readBy: [],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  }
+}
+
+const props = { employerId: 'employer-1', userId: 'employer-1', userRole: 'employer' as const }
+
+beforeEach(() => {
+  vi.clearAllMocks()
+})
+
+// ─── Tests ───────────────────────────────────────────────────────────────────
+
+describe('CareTrendsPanel', () => {
+  it('affiche un graphique par modèle renseigné', async () => {
+    vi.mocked(getCareLogEntries).mockResolvedValue([
+      careEntry({ id: 'a', templateId: 'mood', careData: { mood: 4 } }),
+      careEntry({ id: 'b', templateId: 'fluids', careData: { volumeMl: 500 } }),
+    ])
+
+    renderWithProviders(<CareTrendsPanel {...props} />)
+
+    expect(await screen.findByText('Humeur moyenne')).toBeInTheDocument()
+    expect(screen.getByText('Boissons par jour')).toBeInTheDocument()
+    expect(screen.queryByText('Part des repas mangée')).not.toBeInTheDocument()
+  })
+
+  it('indique l\'absence de fiche sur la période', async () => {
+    vi.mocked(getCareLogEntries).mockResolvedValue([])
+
+    renderWithProviders(<CareTrendsPanel {...props} />)
+
+    expect(await screen.findByText(/aucune fiche de suivi sur les 14 derniers jours/i)).toBeInTheDocument()
+  })
+
+  it('recharge la période choisie', async () => {
+    vi.mocked(getCareLogEntries).mockResolvedValue([])
+    const user = userEvent.setup()
+
+    renderWithProviders(<CareTrendsPanel {...props} />)
+    await user.click(screen.getByRole('button', { name: '30 jours' }))
+
+    await waitFor(() => {
+      expect(getCareLogEntries).toHaveBeenCalledTimes(2)
+    })
+    const [, , , from, to] = vi.mocked(getCareLogEntries).mock.calls[1]
+    expect(Math.round((to.getTime() - from.getTime()) / 86400000)).toBe(30)
+  })
+})
@@ -0,0 +1,162 @@
+/**
+ * Suivi des fiches structurées du cahier de liaison : une courbe en barres
+ * par modèle (repas, hydratation, humeur…) sur les derniers jours.
+ */
+
+import { useEffect, useMemo, useState } from 'react'
+import { Box, Center, Flex, SimpleGrid, Spinner, Text } from '@chakra-ui/react'
+import { addDays, format, parseISO, subDays } from 'date-fns'
+import { fr } from 'date-fns/locale'
+import { getCareLogEntries } from '@/services/logbookService'
+import {
+  CARE_TEMPLATES,
+  CARE_TEMPLATE_IDS,
+  buildCareSeries,
+  formatCareValue,
+  type CareSeriesPoint,
+} from '@/lib/logbook/careTemplates'
+import { AccessibleButton } from '@/components/ui'
+import { logger } from '@/lib/logger'
+import type { CareTemplateId, LogEntry, UserRole } from '@/types'
+
+const PERIODS = [7, 14, 30] as const
+
+interface CareTrendsPanelProps {
+  employerId: string
+  userId: string
+  userRole: UserRole
+}
+
+function CareTrendChart({
+  templateId,
+  points,
+  days,
+}: {
+  templateId: CareTemplateId
+  points: CareSeriesPoint[]
+  days: string[]
+}) {
+  const { label, max } = CARE_TEMPLATES[templateId].chart
+  const maxValue = Math.max(max ?? 0, ...points.map((p) => p.value), 1)
+  const byDay = new Map(points.map((p) => [p.date, p.value]))
+
+  return (
+    <Box bg="bg.surface" borderRadius="12px" borderWidth="1px" borderColor="border.default" p={4}>
+      <Text fontSize="sm" fontWeight="semibold" color="text.default">
+        {CARE_TEMPLATES[templateId].label}
+      </Text>
+      <Text fontSize="xs" color="text.muted" mb={3}>
+        {label}
+      </Text>
+      <Flex align="flex-end" gap="2px" h="96px" role="img" aria-label={`${label} par jour`}>
+        {days.map((day) => {
+          const value = byDay.get(day)
+          const dayLabel = format(parseISO(day), 'EEE d MMM', { locale: fr })
+          return (
+            <Box
+              key={day}
+              flex={1}
+              h={`${value ? Math.max((value / maxValue) * 100, 4) : 1}%`}
+              bg={value ? 'brand.500' : 'border.default'}
+              borderRadius="3px"
+              title={value === undefined ? `${dayLabel} : —` : `${dayLabel} : ${formatCareValue(templateId, value)}`}
+            />
+          )
+        })}
+      </Flex>
+      <Flex justify="space-between" mt={1}>
+        <Text fontSize="xs" color="text.muted">
+          {format(parseISO(days[0]), 'd MMM', { locale: fr })}
+        </Text>
+        <Text fontSize="xs" color="text.muted">
+          {format(parseISO(days[days.length - 1]), 'd MMM', { locale: fr })}
+        </Text>
+      </Flex>
+    </Box>
+  )
+}
+
+export function CareTrendsPanel({ employerId, userId, userRole }: CareTrendsPanelProps) {
+  const [days, setDays] = useState<(typeof PERIODS)[number]>(14)
+  const [entries, setEntries] = useState<LogEntry[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  const range = useMemo(() => {
+    const now = new Date()
+    const to = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 23, 59, 59)
+    const from = subDays(new Date(now.getFullYear(), now.getMonth(), now.getDate()), days - 1)
+    const dayKeys = Array.from({ length: days }, (_, i) => format(addDays(from, i), 'yyyy-MM-dd'))
+    return { from, to, dayKeys }
+  }, [days])
+
+  useEffect(() => {
+    let cancelled = false
+    getCareLogEntries(employerId, userId, userRole, range.from, range.to)
+      .then((result) => {
+        if (!cancelled) setEntries(result)
+      })
+      .catch((err) => logger.error('Erreur chargement suivi cahier:', err))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [employerId, userId, userRole, range])
+
+  const selectPeriod = (period: (typeof PERIODS)[number]) => {
+    if (period === days) return
+    setIsLoading(true)
+    setDays(period)
+  }
+
+  const charts = useMemo(
+    () =>
+      CARE_TEMPLATE_IDS
+        .filter((id) => entries.some((e) => e.templateId === id))
+        .map((id) => ({ templateId: id, points: buildCareSeries(entries, id, range.from, range.to) })),
+    [entries, range]
+  )
+
+  return (
+    <Box>
+      <Flex gap={1} mb={4} justify="flex-end" role="group" aria-label="Période de suivi">
+        {PERIODS.map((p) => (
+          <AccessibleButton
+            key={p}
+            size="xs"
+            variant={days === p ? 'solid' : 'outline'}
+            colorPalette={days === p ? 'brand' : 'gray'}
+            onClick={() => selectPeriod(p)}
+            aria-pressed={days === p}
+          >
+            {p} jours
+          </AccessibleButton>
+        ))}
+      </Flex>
+
+      {isLoading ? (
+        <Center py={12}>
+          <Spinner size="lg" color="brand.500" />
+        </Center>
+      ) : charts.length === 0 ? (
+        <Box bg="bg.surface" borderRadius="12px" borderWidth="1px" borderColor="border.default" p={8} textAlign="center">
+          <Text color="text.muted">
+            Aucune fiche de suivi sur les {days} derniers jours.
+          </Text>
+        </Box>
+      ) : (
+        <SimpleGrid columns={{ base: 1, md: 2 }} gap={4}>
+          {charts.map((chart) => (
+            <CareTrendChart
+              key={chart.templateId}
+              templateId={chart.templateId}
+              points={chart.points}
+              days={range.dayKeys}
+            />
+          ))}
+        </SimpleGrid>
+      )}
+    </Box>
+  )
+}
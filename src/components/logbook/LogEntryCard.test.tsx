@@ -11,6 +11,10 @@ vi.mock('@/lib/sanitize', () => ({
   sanitizeText: (text: string) => text,
 }))
 
+vi.mock('@/components/voice/VoiceMessagePlayer', () => ({
+  VoiceMessagePlayer: ({ label }: { label: string }) => <div role="region" aria-label={label} />,
+}))
+
 // ── Fixtures ───────────────────────────────────────────────────────────────────
 
 function makeEntry(overrides: Partial<LogEntryWithAuthor> = {}): LogEntryWithAuthor {
@@ -51,6 +55,19 @@ describe('LogEntryCard', () => {
       // Quand author absent, authorName = authorRoleLabels[authorRole] = 'Auxiliaire'
       expect(screen.getAllByText(/Auxiliaire/).length).toBeGreaterThanOrEqual(1)
     })
+
+    it('affiche le lecteur de la note vocale', () => {
+      renderWithProviders(
+        <LogEntryCard entry={makeEntry({ audioUrl: 'conv-1/author-1/1_vocal.webm' })} currentUserId="user-1" />
+      )
+      expect(screen.getByRole('region', { name: 'Note vocale de Marie Dupont' })).toBeInTheDocument()
+      expect(screen.getByText('Contenu de test')).toBeInTheDocument()
+    })
+
+    it('n\'affiche pas de lecteur sans note vocale', () => {
+      renderWithProviders(<LogEntryCard entry={makeEntry()} currentUserId="user-1" />)
+      expect(screen.queryByRole('region', { name: /Note vocale/ })).not.toBeInTheDocument()
+    })
   })
 
   describe('Types d\'entrée', () => {
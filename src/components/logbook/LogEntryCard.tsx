@@ -2,6 +2,7 @@ import { useState } from 'react'
 import { Box, Flex, Text, Badge, Stack, Avatar } from '@chakra-ui/react'
 import { AccessibleButton } from '@/components/ui'
 import { sanitizeText } from '@/lib/sanitize'
+import { VoiceMessagePlayer } from '@/components/voice/VoiceMessagePlayer'
 import type { LogEntryWithAuthor } from '@/services/logbookService'
 
 interface LogEntryCardProps {
@@ -161,6 +162,13 @@ export function LogEntryCard({
           </Box>
         )}
 
+        {/* Note vocale : le contenu en est la transcription */}
+        {entry.audioUrl && (
+          <Box mb={2}>
+            <VoiceMessagePlayer audioUrl={entry.audioUrl} label={`Note vocale de ${authorName}`} />
+          </Box>
+        )}
+
         {/* Content */}
         <Text fontSize="sm" color="text.secondary" whiteSpace="pre-wrap">
           {displayContent}
@@ -112,6 +112,30 @@ describe('LogbookFilters', () => {
     })
   })
 
+  describe('Filtre mentions', () => {
+    it('active le filtre sur les entrées qui me mentionnent', async () => {
+      const user = userEvent.setup()
+      const onFiltersChange = vi.fn()
+      renderWithProviders(
+        <LogbookFilters {...defaultProps} filters={{ authorRole: 'employer' }} onFiltersChange={onFiltersChange} />
+      )
+      await user.click(screen.getByRole('button', { name: '@ Mes mentions' }))
+      expect(onFiltersChange).toHaveBeenCalledWith({ authorRole: 'employer', mentionsMe: true })
+    })
+
+    it('désactive le filtre s\'il est actif', async () => {
+      const user = userEvent.setup()
+      const onFiltersChange = vi.fn()
+      renderWithProviders(
+        <LogbookFilters {...defaultProps} filters={{ mentionsMe: true }} onFiltersChange={onFiltersChange} />
+      )
+      const toggle = screen.getByRole('button', { name: '@ Mes mentions' })
+      expect(toggle).toHaveAttribute('aria-pressed', 'true')
+      await user.click(toggle)
+      expect(onFiltersChange).toHaveBeenCalledWith({ mentionsMe: undefined })
+    })
+  })
+
   describe('Recherche', () => {
     it('appelle onSearchChange quand on tape dans le champ', async () => {
       const user = userEvent.setup()
@@ -41,6 +41,13 @@ export function LogbookFilters({ filters, searchQuery, onSearchChange, onFilters
     })
   }
 
+  const toggleMentionsMe = () => {
+    onFiltersChange({
+      ...filters,
+      mentionsMe: filters.mentionsMe ? undefined : true,
+    })
+  }
+
   return (
     <Flex
       justify="space-between"
@@ -84,6 +91,22 @@ export function LogbookFilters({ filters, searchQuery, onSearchChange, onFilters
 
       {/* Dropdowns — proto: toolbar-right > 2 selects */}
       <Flex gap={3} align="center">
+        <Box
+          as="button"
+          px={3} py="7px"
+          borderWidth="1.5px"
+          borderColor={filters.mentionsMe ? 'brand.500' : 'border.default'}
+          borderRadius="10px"
+          fontSize="14px" fontWeight="500"
+          color={filters.mentionsMe ? 'white' : 'brand.500'}
+          bg={filters.mentionsMe ? 'brand.500' : 'bg.surface'}
+          cursor="pointer"
+          _hover={{ borderColor: 'brand.100' }}
+          onClick={toggleMentionsMe}
+          aria-pressed={!!filters.mentionsMe}
+        >
+          @ Mes mentions
+        </Box>
         <Box
           as="select"
           px={3} py="7px"
@@ -59,6 +59,12 @@ vi.mock('./NewLogEntryModal', () => ({
     ) : null,
 }))
 
+vi.mock('./CareTrendsPanel', () => ({
+  CareTrendsPanel: ({ employerId }: { employerId: string }) => (
+    <div data-testid="care-trends-panel" data-employer-id={employerId} />
+  ),
+}))
+
 vi.mock('./EditLogEntryModal', () => ({
   EditLogEntryModal: ({ entry }: { entry: LogEntryWithAuthor | null }) =>
     entry ? <div data-testid="edit-entry-modal" data-entry-id={entry.id} /> : null,
@@ -359,6 +365,20 @@ describe('LogbookPage', () => {
 
   // ── Recherche client-side ──────────────────────────────────────────────────
 
+  describe('Vue suivi', () => {
+    it('affiche les graphiques des fiches de suivi à la place du journal', async () => {
+      renderWithProviders(<LogbookPage />)
+
+      await waitFor(() => {
+        expect(screen.getByTestId('logbook-filters')).toBeInTheDocument()
+      })
+      fireEvent.click(screen.getByRole('button', { name: 'Suivi' }))
+
+      expect(screen.getByTestId('care-trends-panel')).toHaveAttribute('data-employer-id', 'employer-1')
+      expect(screen.queryByTestId('logbook-filters')).not.toBeInTheDocument()
+    })
+  })
+
   describe('Recherche client-side', () => {
     it('filtre les entrées selon le texte de recherche', async () => {
       const entries = [
@@ -7,6 +7,7 @@ import { LogEntryCard } from './LogEntryCard'
 import { LogbookFilters } from './LogbookFilters'
 import { NewLogEntryModal } from './NewLogEntryModal'
 import { EditLogEntryModal } from './EditLogEntryModal'
+import { CareTrendsPanel } from './CareTrendsPanel'
 import {
   getLogEntries,
   markAsRead,
@@ -57,6 +58,7 @@ export function LogbookPage() {
   const [unreadCount, setUnreadCount] = useState(0)
   const [isNewEntryModalOpen, setIsNewEntryModalOpen] = useState(false)
   const [editingEntry, setEditingEntry] = useState<LogEntryWithAuthor | null>(null)
+  const [view, setView] = useState<'entries' | 'trends'>('entries')
 
   const {
     resolvedEmployerId,
@@ -275,103 +277,128 @@ export function LogbookPage() {
           </Flex>
         )}
 
-        {/* Filters with search */}
-        <LogbookFilters
-          filters={filters}
-          searchQuery={searchQuery}
-          onSearchChange={setSearchQuery}
-          onFiltersChange={handleFiltersChange}
-        />
-
-        {/* Entries list with date separators and timeline */}
-        {isLoadingEntries && entries.length === 0 ? (
-          <Center py={12}>
-            <Spinner size="lg" color="brand.500" />
-          </Center>
-        ) : displayedEntries.length === 0 ? (
-          searchQuery ? (
-            <Box
-              bg="bg.surface"
-              borderRadius="12px"
-              borderWidth="1px"
-              borderColor="border.default"
-              p={8}
-              textAlign="center"
+        {/* Journal / graphiques des fiches de suivi */}
+        <Flex gap={1} mb={3} role="group" aria-label="Affichage du cahier">
+          {([
+            { value: 'entries', label: 'Notes' },
+            { value: 'trends', label: 'Suivi' },
+          ] as const).map((tab) => (
+            <AccessibleButton
+              key={tab.value}
+              size="xs"
+              variant={view === tab.value ? 'solid' : 'ghost'}
+              colorPalette="brand"
+              onClick={() => setView(tab.value)}
+              aria-pressed={view === tab.value}
             >
-              <Text fontSize="lg" color="text.muted">
-                Aucun résultat pour « {searchQuery} »
-              </Text>
-            </Box>
-          ) : (
-            <OnboardingEmptyState
-              icon={
-                <>
-                  <path d="M2 3h6a4 4 0 014 4v14a3 3 0 00-3-3H2z" />
-                  <path d="M22 3h-6a4 4 0 00-4 4v14a3 3 0 013-3h7z" />
-                </>
-              }
-              title="Aucune entrée dans le cahier de liaison"
-              description="Le cahier de liaison permet de partager des notes et observations entre les intervenants. Les entrées apparaîtront ici."
-              actions={
-                canWrite ? (
-                  <AccessibleButton
-                    colorPalette="brand"
-                    onClick={() => setIsNewEntryModalOpen(true)}
-                    accessibleLabel="Créer la première entrée"
-                  >
-                    Créer la première entrée
-                  </AccessibleButton>
-                ) : undefined
-              }
-            />
-          )
+              {tab.label}
+            </AccessibleButton>
+          ))}
+        </Flex>
+
+        {view === 'trends' ? (
+          <CareTrendsPanel employerId={employerId} userId={profile.id} userRole={profile.role} />
         ) : (
-          <Stack gap={0}>
-            {entriesWithSeparators.map((item) => {
-              if (item.type === 'separator') {
-                return (
-                  <Flex key={`sep-${item.key}`} align="center" gap={3} py={3} pl="40px">
-                    <Box h="1px" flex={1} bg="border.default" />
-                    <Text fontSize="xs" fontWeight="semibold" color="text.muted" textTransform="capitalize" whiteSpace="nowrap">
-                      {item.label}
-                    </Text>
-                    <Box h="1px" flex={1} bg="border.default" />
-                  </Flex>
-                )
-              }
-              return (
-                <LogEntryCard
-                  key={item.entry.id}
-                  entry={item.entry}
-                  currentUserId={profile.id}
-                  onMarkAsRead={handleMarkAsRead}
-                  onEdit={handleEdit}
-                  onDelete={handleDelete}
+          <>
+            {/* Filters with search */}
+            <LogbookFilters
+              filters={filters}
+              searchQuery={searchQuery}
+              onSearchChange={setSearchQuery}
+              onFiltersChange={handleFiltersChange}
+            />
+
+            {/* Entries list with date separators and timeline */}
+            {isLoadingEntries && entries.length === 0 ? (
+              <Center py={12}>
+                <Spinner size="lg" color="brand.500" />
+              </Center>
+            ) : displayedEntries.length === 0 ? (
+              searchQuery ? (
+                <Box
+                  bg="bg.surface"
+                  borderRadius="12px"
+                  borderWidth="1px"
+                  borderColor="border.default"
+                  p={8}
+                  textAlign="center"
+                >
+                  <Text fontSize="lg" color="text.muted">
+                    Aucun résultat pour « {searchQuery} »
+                  </Text>
+                </Box>
+              ) : (
+                <OnboardingEmptyState
+                  icon={
+                    <>
+                      <path d="M2 3h6a4 4 0 014 4v14a3 3 0 00-3-3H2z" />
+                      <path d="M22 3h-6a4 4 0 00-4 4v14a3 3 0 013-3h7z" />
+                    </>
+                  }
+                  title="Aucune entrée dans le cahier de liaison"
+                  description="Le cahier de liaison permet de partager des notes et observations entre les intervenants. Les entrées apparaîtront ici."
+                  actions={
+                    canWrite ? (
+                      <AccessibleButton
+                        colorPalette="brand"
+                        onClick={() => setIsNewEntryModalOpen(true)}
+                        accessibleLabel="Créer la première entrée"
+                      >
+                        Créer la première entrée
+                      </AccessibleButton>
+                    ) : undefined
+                  }
                 />
               )
-            })}
-
-            {/* Load more button */}
-            {hasMore && (
-              <Flex justify="center" mt={4}>
-                <AccessibleButton
-                  variant="outline"
-                  onClick={handleLoadMore}
-                  loading={isLoadingEntries}
-                  loadingText="Chargement..."
-                >
-                  Charger plus ({totalCount - entries.length} restantes)
-                </AccessibleButton>
-              </Flex>
+            ) : (
+              <Stack gap={0}>
+                {entriesWithSeparators.map((item) => {
+                  if (item.type === 'separator') {
+                    return (
+                      <Flex key={`sep-${item.key}`} align="center" gap={3} py={3} pl="40px">
+                        <Box h="1px" flex={1} bg="border.default" />
+                        <Text fontSize="xs" fontWeight="semibold" color="text.muted" textTransform="capitalize" whiteSpace="nowrap">
+                          {item.label}
+                        </Text>
+                        <Box h="1px" flex={1} bg="border.default" />
+                      </Flex>
+                    )
+                  }
+                  return (
+                    <LogEntryCard
+                      key={item.entry.id}
+                      entry={item.entry}
+                      currentUserId={profile.id}
+                      onMarkAsRead={handleMarkAsRead}
+                      onEdit={handleEdit}
+                      onDelete={handleDelete}
+                    />
+                  )
+                })}
+
+                {/* Load more button */}
+                {hasMore && (
+                  <Flex justify="center" mt={4}>
+                    <AccessibleButton
+                      variant="outline"
+                      onClick={handleLoadMore}
+                      loading={isLoadingEntries}
+                      loadingText="Chargement..."
+                    >
+                      Charger plus ({totalCount - entries.length} restantes)
+                    </AccessibleButton>
+                  </Flex>
+                )}
+              </Stack>
             )}
-          </Stack>
-        )}
 
-        {/* Results count */}
-        {displayedEntries.length > 0 && (
-          <Text fontSize="sm" color="text.muted" mt={4} textAlign="center">
-            {displayedEntries.length} sur {totalCount} entree{totalCount > 1 ? 's' : ''}
-          </Text>
+            {/* Results count */}
+            {displayedEntries.length > 0 && (
+              <Text fontSize="sm" color="text.muted" mt={4} textAlign="center">
+                {displayedEntries.length} sur {totalCount} entree{totalCount > 1 ? 's' : ''}
+              </Text>
+            )}
+          </>
         )}
       </Box>
 
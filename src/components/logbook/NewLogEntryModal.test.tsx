@@ -7,11 +7,48 @@ import { renderWithProviders } from '@/test/helpers'
 
 vi.mock('@/services/logbookService', () => ({
   createLogEntry: vi.fn(),
+  getCareLogTemplates: vi.fn(),
+  uploadLogEntryVoiceNote: vi.fn(),
+}))
+
+const voiceRecording = { blob: new Blob(['a'], { type: 'audio/webm' }), mimeType: 'audio/webm', durationMs: 8000 }
+const mockVoice = {
+  isSupported: false,
+  status: 'idle' as 'idle' | 'ready',
+  recording: null as typeof voiceRecording | null,
+  transcript: '',
+  setTranscript: vi.fn(),
+  error: null,
+  modelProgress: 0,
+  elapsedMs: 0,
+  start: vi.fn(),
+  stop: vi.fn(),
+  cancel: vi.fn(),
+  reset: vi.fn(),
+}
+
+vi.mock('@/hooks/useVoiceMessage', () => ({
+  useVoiceMessage: () => mockVoice,
+}))
+
+vi.mock('@/components/voice/VoiceMessagePlayer', () => ({
+  VoiceMessagePlayer: () => null,
+}))
+
+vi.mock('@/services/shiftService', () => ({
+  getShifts: vi.fn(),
+}))
+
+vi.mock('@/services/liaisonService', () => ({
+  getMentionCandidates: vi.fn(),
 }))
 
 // ─── Imports après mocks ──────────────────────────────────────────────────────
 
-import { createLogEntry } from '@/services/logbookService'
+import { createLogEntry, getCareLogTemplates, uploadLogEntryVoiceNote } from '@/services/logbookService'
+import { getShifts } from '@/services/shiftService'
+import { getMentionCandidates } from '@/services/liaisonService'
+import { createMockShift } from '@/test/fixtures'
 import { NewLogEntryModal } from './NewLogEntryModal'
 
 // ─── Fixtures ────────────────────────────────────────────────────────────────
@@ -40,6 +77,16 @@ beforeEach(() => {
     createdAt: new Date(),
     updatedAt: new Date(),
   })
+  vi.mocked(getCareLogTemplates).mockResolvedValue(['meal', 'pain'])
+  vi.mocked(getShifts).mockResolvedValue([])
+  vi.mocked(getMentionCandidates).mockResolvedValue([
+    { id: 'aux-1', firstName: 'Marie', lastName: 'Dupont', role: 'employee' },
+    { id: 'cg-1', firstName: 'Paul', lastName: 'Martin', role: 'caregiver' },
+  ])
+  mockVoice.isSupported = false
+  mockVoice.status = 'idle'
+  mockVoice.recording = null
+  mockVoice.transcript = ''
 })
 
 // ─── Tests ───────────────────────────────────────────────────────────────────
@@ -194,6 +241,33 @@ describe('NewLogEntryModal', () => {
       })
     })
 
+    it('mentionne un membre de l\'équipe choisi dans l\'autocomplétion', async () => {
+      const user = userEvent.setup()
+      renderWithProviders(<NewLogEntryModal {...defaultProps} />)
+
+      const textarea = await screen.findByPlaceholderText(/écrivez votre message ici/i)
+      await waitFor(() => expect(getMentionCandidates).toHaveBeenCalledWith('employer-1', 'author-1'))
+
+      await user.type(textarea, 'Merci @mari')
+      const option = await screen.findByRole('option', { name: /marie dupont/i })
+      expect(screen.queryByRole('option', { name: /paul martin/i })).not.toBeInTheDocument()
+      await user.click(option)
+      await user.type(textarea, 'pour le repas')
+
+      expect(textarea).toHaveValue('Merci @Marie pour le repas')
+
+      await user.click(screen.getByRole('button', { name: /enregistrer/i }))
+
+      await waitFor(() => {
+        expect(createLogEntry).toHaveBeenCalledWith(
+          'employer-1',
+          'author-1',
+          'employer',
+          expect.objectContaining({ mentionedUserIds: ['aux-1'] })
+        )
+      })
+    })
+
     it('affiche une erreur si createLogEntry échoue', async () => {
       vi.mocked(createLogEntry).mockRejectedValue(new Error('Erreur réseau'))
       const user = userEvent.setup()
@@ -216,4 +290,94 @@ describe('NewLogEntryModal', () => {
       })
     })
   })
+  describe('Fiches de suivi', () => {
+    it('propose les modèles configurés par l\'employeur', async () => {
+      renderWithProviders(<NewLogEntryModal {...defaultProps} />)
+
+      expect(await screen.findByRole('button', { name: 'Repas' })).toBeInTheDocument()
+      expect(screen.getByRole('button', { name: 'Douleur' })).toBeInTheDocument()
+      expect(screen.queryByRole('button', { name: 'Hydratation' })).not.toBeInTheDocument()
+      expect(getCareLogTemplates).toHaveBeenCalledWith('employer-1')
+    })
+
+    it('enregistre la fiche structurée avec un résumé et l\'intervention du jour', async () => {
+      vi.mocked(getShifts).mockResolvedValue([
+        createMockShift({ id: 'shift-today', startTime: '00:00', endTime: '23:59', status: 'planned' }),
+      ])
+      const user = userEvent.setup()
+      renderWithProviders(<NewLogEntryModal {...defaultProps} />)
+
+      await user.click(await screen.findByRole('button', { name: 'Repas' }))
+      await user.click(screen.getByRole('button', { name: 'Déjeuner' }))
+      await user.click(screen.getByRole('button', { name: '¾' }))
+      await waitFor(() => {
+        expect(screen.getByRole('combobox', { name: /intervention concernée/i })).toHaveValue('shift-today')
+      })
+      await user.click(screen.getByRole('button', { name: /enregistrer/i }))
+
+      await waitFor(() => {
+        expect(createLogEntry).toHaveBeenCalledWith(
+          'employer-1',
+          'author-1',
+          'employer',
+          expect.objectContaining({
+            content: 'Repas — Moment : Déjeuner, Quantité mangée : ¾',
+            templateId: 'meal',
+            careData: { mealType: 'lunch', eaten: 0.75 },
+            shiftId: 'shift-today',
+          })
+        )
+      })
+    })
+
+    it('bloque une fiche incomplète', async () => {
+      const user = userEvent.setup()
+      renderWithProviders(<NewLogEntryModal {...defaultProps} />)
+
+      await user.click(await screen.findByRole('button', { name: 'Douleur' }))
+      await user.click(screen.getByRole('button', { name: /enregistrer/i }))
+
+      expect(await screen.findByText('Intensité : valeur requise')).toBeInTheDocument()
+      expect(createLogEntry).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('Note vocale', () => {
+    it('joint la note vocale et reprend sa transcription dans le contenu', async () => {
+      const user = userEvent.setup()
+      mockVoice.isSupported = true
+      mockVoice.status = 'ready'
+      mockVoice.recording = voiceRecording
+      mockVoice.transcript = 'Mme Dupont a bien dormi'
+      vi.mocked(uploadLogEntryVoiceNote).mockResolvedValue({
+        id: 'att-1',
+        name: 'message_vocal.webm',
+        type: 'audio',
+        path: 'conv-team/author-1/1_vocal.webm',
+        url: '',
+        size: 3,
+      })
+
+      renderWithProviders(<NewLogEntryModal {...defaultProps} />)
+
+      await user.click(await screen.findByRole('button', { name: 'Joindre à l’entrée' }))
+      expect(screen.getByPlaceholderText(/écrivez votre message ici/i)).toHaveValue('Mme Dupont a bien dormi')
+      expect(screen.getByText(/Note vocale jointe \(8 s\)/)).toBeInTheDocument()
+
+      await user.click(screen.getByRole('button', { name: 'Enregistrer' }))
+
+      await waitFor(() => {
+        expect(uploadLogEntryVoiceNote).toHaveBeenCalledWith('employer-1', 'author-1', voiceRecording)
+        expect(createLogEntry).toHaveBeenCalledWith(
+          'employer-1',
+          'author-1',
+          'employer',
+          expect.objectContaining({
+            content: 'Mme Dupont a bien dormi',
+            audioUrl: 'conv-team/author-1/1_vocal.webm',
+          })
+        )
+      })
+    })
+  })
 })
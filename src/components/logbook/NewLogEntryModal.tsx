@@ -1,4 +1,4 @@
-import { useState } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import {
   Dialog,
   Portal,
@@ -12,20 +12,43 @@ import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
 import { AccessibleSelect, AccessibleButton, GhostButton, PrimaryButton } from '@/components/ui'
-import { createLogEntry } from '@/services/logbookService'
+import { createLogEntry, getCareLogTemplates, uploadLogEntryVoiceNote } from '@/services/logbookService'
+import { getShifts } from '@/services/shiftService'
+import { getMentionCandidates } from '@/services/liaisonService'
+import { extractMentionedUserIds, type MentionCandidate } from '@/lib/liaison/mentions'
+import { useMentionAutocomplete } from '@/hooks/useMentionAutocomplete'
+import { MentionSuggestions } from '@/components/liaison/MentionSuggestions'
+import {
+  CARE_TEMPLATES,
+  getInitialCareData,
+  isCareTemplateId,
+  summarizeCareData,
+  validateCareData,
+} from '@/lib/logbook/careTemplates'
 import { logger } from '@/lib/logger'
-import type { UserRole } from '@/types'
-
-const logEntrySchema = z.object({
-  type: z.enum(['info', 'alert', 'incident', 'instruction'], {
-    message: 'Veuillez sélectionner un type',
-  }),
-  importance: z.enum(['normal', 'urgent']),
-  content: z
-    .string()
-    .min(1, 'Le contenu est requis')
-    .max(5000, 'Le contenu ne peut pas dépasser 5000 caractères'),
-})
+import { useVoiceMessage } from '@/hooks/useVoiceMessage'
+import { PushToTalkButton, VoiceMessageRecorder } from '@/components/voice/VoiceMessageRecorder'
+import type { RecordedVoice } from '@/lib/voice/voiceRecorder'
+import { CareLogFields } from './CareLogFields'
+import type { CareLogData, CareTemplateId, Shift, UserRole } from '@/types'
+
+const logEntrySchema = z
+  .object({
+    type: z.enum(['info', 'alert', 'incident', 'instruction'], {
+      message: 'Veuillez sélectionner un type',
+    }),
+    importance: z.enum(['normal', 'urgent']),
+    templateId: z.custom<CareTemplateId>(isCareTemplateId).optional(),
+    shiftId: z.string(),
+    content: z
+      .string()
+      .max(5000, 'Le contenu ne peut pas dépasser 5000 caractères'),
+  })
+  // Le texte est facultatif pour une fiche de suivi (commentaire)
+  .refine((data) => data.templateId !== undefined || data.content.length > 0, {
+    message: 'Le contenu est requis',
+    path: ['content'],
+  })
 
 type LogEntryFormData = z.infer<typeof logEntrySchema>
 
@@ -50,6 +73,22 @@ const importanceOptions = [
   { value: 'urgent', label: 'Urgent' },
 ]
 
+function formatShiftOption(shift: Shift): string {
+  const hours = `${shift.startTime}–${shift.endTime}`
+  return shift.employeeName ? `${hours} · ${shift.employeeName}` : hours
+}
+
+/** Intervention en cours (sinon la seule de la journée) */
+function findCurrentShift(shifts: Shift[], now: Date): Shift | undefined {
+  const time = `${String(now.getHours()).padStart(2, '0')}:${String(now.getMinutes()).padStart(2, '0')}`
+  const ongoing = shifts.find((s) =>
+    s.startTime <= s.endTime
+      ? time >= s.startTime && time <= s.endTime
+      : time >= s.startTime || time <= s.endTime
+  )
+  return ongoing ?? (shifts.length === 1 ? shifts[0] : undefined)
+}
+
 export function NewLogEntryModal({
   isOpen,
   onClose,
@@ -60,42 +99,148 @@ export function NewLogEntryModal({
 }: NewLogEntryModalProps) {
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [submitError, setSubmitError] = useState<string | null>(null)
+  const [careTemplates, setCareTemplates] = useState<CareTemplateId[]>([])
+  const [careData, setCareData] = useState<CareLogData>({})
+  const [todayShifts, setTodayShifts] = useState<Shift[]>([])
+  const [voiceNote, setVoiceNote] = useState<RecordedVoice | null>(null)
+  const [mentionCandidates, setMentionCandidates] = useState<MentionCandidate[]>([])
+  const contentRef = useRef<HTMLTextAreaElement | null>(null)
+  const voice = useVoiceMessage()
 
   const {
     register,
     handleSubmit,
     reset,
     watch,
+    getValues,
+    setValue,
     formState: { errors },
   } = useForm<LogEntryFormData>({
     resolver: zodResolver(logEntrySchema),
     defaultValues: {
       type: 'info',
       importance: 'normal',
+      templateId: undefined,
+      shiftId: '',
       content: '',
     },
   })
 
-  const contentLength = watch('content')?.length || 0
+  const contentValue = watch('content') || ''
+  const contentLength = contentValue.length
+  const templateId = watch('templateId')
+
+  const mention = useMentionAutocomplete({
+    candidates: mentionCandidates,
+    value: contentValue,
+    onChange: (value) => setValue('content', value, { shouldValidate: true }),
+    textareaRef: contentRef,
+  })
+  const { ref: registerContentRef, onChange: onContentChange, onBlur: onContentBlur, ...contentField } = register('content')
+
+  // Modèles de l'employeur et interventions du jour (rattachement)
+  useEffect(() => {
+    if (!isOpen || !employerId) return
+    let cancelled = false
+
+    const now = new Date()
+    const dayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate())
+    const dayEnd = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 23, 59, 59)
+
+    Promise.all([
+      getCareLogTemplates(employerId),
+      getShifts(authorId, authorRole, dayStart, dayEnd),
+    ])
+      .then(([templates, shifts]) => {
+        if (cancelled) return
+        const planned = shifts.filter((s) => s.status !== 'cancelled')
+        setCareTemplates(templates)
+        setTodayShifts(planned)
+        setValue('shiftId', findCurrentShift(planned, now)?.id ?? '')
+      })
+      .catch((err) => logger.error('Erreur chargement fiches de suivi:', err))
+
+    return () => {
+      cancelled = true
+    }
+  }, [isOpen, employerId, authorId, authorRole, setValue])
+
+  // Membres de l'équipe mentionnables (@Prénom)
+  useEffect(() => {
+    if (!isOpen || !employerId) return
+    let cancelled = false
+
+    getMentionCandidates(employerId, authorId)
+      .then((candidates) => {
+        if (!cancelled) setMentionCandidates(candidates)
+      })
+      .catch((err) => logger.error('Erreur chargement membres mentionnables:', err))
+
+    return () => {
+      cancelled = true
+    }
+  }, [isOpen, employerId, authorId])
+
+  const selectTemplate = (id: CareTemplateId | undefined) => {
+    setValue('templateId', id)
+    setValue('type', id ? CARE_TEMPLATES[id].defaultType : 'info')
+    setCareData(id ? getInitialCareData(id) : {})
+    setSubmitError(null)
+  }
+
+  // La transcription de la note vocale complète le contenu (modifiable)
+  const attachVoiceNote = async (recording: RecordedVoice, transcript: string) => {
+    setVoiceNote(recording)
+    const current = getValues('content').trim()
+    setValue('content', [current, transcript].filter(Boolean).join('\n'), { shouldValidate: !!transcript })
+  }
 
   const handleClose = () => {
     reset()
+    setCareData({})
+    setVoiceNote(null)
+    voice.cancel()
     setSubmitError(null)
     onClose()
   }
 
   const onSubmit = async (data: LogEntryFormData) => {
+    if (data.templateId) {
+      const invalid = validateCareData(data.templateId, careData)
+      if (invalid) {
+        setSubmitError(invalid)
+        return
+      }
+    }
+
     setIsSubmitting(true)
     setSubmitError(null)
 
     try {
+      const content = data.templateId
+        ? [summarizeCareData(data.templateId, careData), data.content.trim()].filter(Boolean).join('\n')
+        : data.content
+
+      const audioUrl = voiceNote
+        ? (await uploadLogEntryVoiceNote(employerId, authorId, voiceNote)).path
+        : undefined
+
+      const mentionedUserIds = extractMentionedUserIds(content, mentionCandidates)
+
       await createLogEntry(employerId, authorId, authorRole, {
         type: data.type,
         importance: data.importance,
-        content: data.content,
+        content,
+        templateId: data.templateId,
+        careData: data.templateId ? careData : undefined,
+        shiftId: data.shiftId || undefined,
+        audioUrl,
+        mentionedUserIds: mentionedUserIds.length > 0 ? mentionedUserIds : undefined,
       })
 
       reset()
+      setCareData({})
+      setVoiceNote(null)
       onSuccess()
       onClose()
     } catch (error) {
@@ -144,6 +289,37 @@ export function NewLogEntryModal({
             <Dialog.Body p={6}>
               <form id="new-log-entry-form" onSubmit={handleSubmit(onSubmit)}>
                 <Stack gap={4}>
+                  {/* Fiche de suivi */}
+                  {careTemplates.length > 0 && (
+                    <Box as="fieldset">
+                      <Text as="legend" fontWeight="medium" fontSize="md" mb={2}>
+                        Fiche de suivi
+                      </Text>
+                      <Flex gap={2} wrap="wrap">
+                        {[undefined, ...careTemplates].map((id) => {
+                          const selected = templateId === id
+                          return (
+                            <AccessibleButton
+                              key={id ?? 'free'}
+                              size="xs"
+                              borderRadius="full"
+                              variant={selected ? 'solid' : 'outline'}
+                              colorPalette={selected ? 'brand' : 'gray'}
+                              aria-pressed={selected}
+                              onClick={() => selectTemplate(id)}
+                            >
+                              {id ? CARE_TEMPLATES[id].label : 'Note libre'}
+                            </AccessibleButton>
+                          )
+                        })}
+                      </Flex>
+                    </Box>
+                  )}
+
+                  {templateId && (
+                    <CareLogFields templateId={templateId} value={careData} onChange={setCareData} />
+                  )}
+
                   {/* Type selector */}
                   <AccessibleSelect
                     label="Type d'entrée"
@@ -161,24 +337,79 @@ export function NewLogEntryModal({
                     {...register('importance')}
                   />
 
+                  {/* Rattachement à l'intervention du jour */}
+                  {todayShifts.length > 0 && (
+                    <AccessibleSelect
+                      label="Intervention concernée"
+                      options={[
+                        { value: '', label: 'Aucune' },
+                        ...todayShifts.map((s) => ({ value: s.id, label: formatShiftOption(s) })),
+                      ]}
+                      {...register('shiftId')}
+                    />
+                  )}
+
                   {/* Content textarea */}
                   <Box>
-                    <Text fontWeight="medium" fontSize="md" mb={2}>
-                      Contenu <Text as="span" color="red.500">*</Text>
-                    </Text>
-                    <Textarea
-                      placeholder="Écrivez votre message ici...&#10;&#10;Exemple: Mme Dupont a bien mangé ce midi. Elle était de bonne humeur et a demandé des nouvelles de sa fille."
-                      rows={6}
-                      size="lg"
-                      borderWidth="2px"
-                      {...register('content')}
-                      css={{
-                        '&:focus': {
-                          borderColor: 'var(--chakra-colors-brand-500)',
-                          boxShadow: '0 0 0 3px rgba(78, 100, 120, 0.15)',
-                        },
-                      }}
-                    />
+                    <Flex align="center" justify="space-between" mb={2}>
+                      <Text fontWeight="medium" fontSize="md">
+                        {templateId ? (
+                          'Commentaire'
+                        ) : (
+                          <>
+                            Contenu <Text as="span" color="red.500">*</Text>
+                          </>
+                        )}
+                      </Text>
+                      {!voiceNote && <PushToTalkButton voice={voice} disabled={isSubmitting} />}
+                    </Flex>
+                    <VoiceMessageRecorder voice={voice} onSend={attachVoiceNote} sendLabel="Joindre à l’entrée" />
+                    {voiceNote && (
+                      <Flex align="center" justify="space-between" gap={2} mb={2} px={3} py={2} bg="bg.page" borderRadius="10px">
+                        <Text fontSize="sm">🎙 Note vocale jointe ({Math.round(voiceNote.durationMs / 1000)} s)</Text>
+                        <AccessibleButton size="xs" variant="ghost" onClick={() => setVoiceNote(null)} disabled={isSubmitting}>
+                          Retirer
+                        </AccessibleButton>
+                      </Flex>
+                    )}
+                    <Box position="relative">
+                      <MentionSuggestions mention={mention} />
+                      <Textarea
+                        placeholder={
+                          templateId
+                            ? 'Précisions facultatives'
+                            : 'Écrivez votre message ici...\n\nExemple: Mme Dupont a bien mangé ce midi. Elle était de bonne humeur et a demandé des nouvelles de sa fille.'
+                        }
+                        rows={templateId ? 3 : 6}
+                        size="lg"
+                        borderWidth="2px"
+                        {...contentField}
+                        ref={(el) => {
+                          registerContentRef(el)
+                          contentRef.current = el
+                        }}
+                        onChange={(e) => {
+                          void onContentChange(e)
+                          mention.update(e.target.value, e.target.selectionStart)
+                        }}
+                        onKeyDown={(e) => {
+                          mention.handleKeyDown(e)
+                        }}
+                        onBlur={(e) => {
+                          void onContentBlur(e)
+                          mention.close()
+                        }}
+                        aria-autocomplete={mentionCandidates.length > 0 ? 'list' : undefined}
+                        aria-controls={mention.isOpen ? mention.listboxId : undefined}
+                        aria-activedescendant={mention.isOpen ? mention.optionId(mention.activeIndex) : undefined}
+                        css={{
+                          '&:focus': {
+                            borderColor: 'var(--chakra-colors-brand-500)',
+                            boxShadow: '0 0 0 3px rgba(78, 100, 120, 0.15)',
+                          },
+                        }}
+                      />
+                    </Box>
                     <Flex justify="space-between" mt={1}>
                       {errors.content ? (
                         <Text fontSize="sm" color="red.500">
@@ -186,7 +417,7 @@ export function NewLogEntryModal({
                         </Text>
                       ) : (
                         <Text fontSize="sm" color="text.muted">
-                          Décrivez l'information à partager
+                          Décrivez l'information à partager{mentionCandidates.length > 0 ? ' — @ pour mentionner' : ''}
                         </Text>
                       )}
                       <Text
@@ -87,10 +87,15 @@ const typeConfig: Record<NotificationType, { icon: string; color: string }> = {
   contract_terminated: { icon: '📋', color: 'red' },
   logbook_urgent: { icon: '🚨', color: 'red' },
   logbook_entry_directed: { icon: '📌', color: 'blue' },
+  logbook_mention: { icon: '@', color: 'blue' },
   permissions_updated: { icon: '🔑', color: 'purple' },
   shift_modified: { icon: '✏️', color: 'orange' },
+  shift_reassigned: { icon: '🔁', color: 'blue' },
   absence_requested: { icon: '🏥', color: 'orange' },
   absence_resolved: { icon: '📋', color: 'green' },
+  medication_missed: { icon: '💊', color: 'red' },
+  signature_requested: { icon: '✍️', color: 'orange' },
+  document_signed: { icon: '✅', color: 'green' },
   system: { icon: '🔔', color: 'gray' },
 }
 
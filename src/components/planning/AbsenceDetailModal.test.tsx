@@ -305,6 +305,21 @@ describe('AbsenceDetailModal', () => {
         expect(onClose).toHaveBeenCalledTimes(1)
       })
     })
+
+    it('transmet l\'absence approuvée pour le plan de remplacement', async () => {
+      const user = userEvent.setup()
+      const onApproved = vi.fn()
+
+      renderWithProviders(
+        <AbsenceDetailModal {...defaultProps} userRole="employer" onApproved={onApproved} />
+      )
+
+      await user.click(await screen.findByRole('button', { name: /approuver/i }))
+
+      await waitFor(() => {
+        expect(onApproved).toHaveBeenCalledWith(mockAbsence)
+      })
+    })
   })
 
   describe('Actions — Refuser', () => {
@@ -12,6 +12,7 @@ import { AccessibleButton, StatusPill, GhostButton } from '@/components/ui'
 import { PlanningModal } from './PlanningModal'
 import { updateAbsenceStatus, cancelAbsence } from '@/services/absenceService'
 import { toaster } from '@/lib/toaster'
+import { isMedicalAbsence } from '@/lib/absence'
 import type { Absence, UserRole } from '@/types'
 import {
   ABSENCE_TYPE_LABELS as absenceTypeLabels,
@@ -26,6 +27,8 @@ interface AbsenceDetailModalProps {
   userRole: UserRole
   userId: string
   onSuccess: () => void
+  /** Appelé après approbation par l'employeur (plan de remplacement) */
+  onApproved?: (absence: Absence) => void
 }
 
 export function AbsenceDetailModal({
@@ -35,6 +38,7 @@ export function AbsenceDetailModal({
   userRole,
   userId,
   onSuccess,
+  onApproved,
 }: AbsenceDetailModalProps) {
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [submitError, setSubmitError] = useState<string | null>(null)
@@ -53,6 +57,7 @@ export function AbsenceDetailModal({
       toaster.success({ title: 'Absence approuvée' })
       onSuccess()
       onClose()
+      onApproved?.(absence)
     } catch (error) {
       setSubmitError(error instanceof Error ? error.message : 'Erreur lors de l\'approbation')
     } finally {
@@ -171,7 +176,7 @@ export function AbsenceDetailModal({
                   </>
                 )}
 
-                {absence.absenceType === 'sick' && (
+                {isMedicalAbsence(absence.absenceType) && (
                   <>
                     <Separator />
                     <Box>
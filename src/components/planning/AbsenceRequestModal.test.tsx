@@ -14,6 +14,7 @@ vi.mock('@/services/absenceService', () => ({
 
 vi.mock('@/lib/absence', () => ({
   countBusinessDays: vi.fn(() => 5),
+  isMedicalAbsence: vi.fn((type: string) => ['sick', 'work_accident', 'maternity'].includes(type)),
   FAMILY_EVENT_LABELS: {
     marriage: 'Mariage',
     pacs: 'PACS',
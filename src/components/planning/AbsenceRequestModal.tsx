@@ -16,7 +16,7 @@ import { PlanningModal } from './PlanningModal'
 import { toaster } from '@/lib/toaster'
 import { logger } from '@/lib/logger'
 import { createAbsence, uploadJustification, validateJustificationFile } from '@/services/absenceService'
-import { countBusinessDays, FAMILY_EVENT_LABELS, FAMILY_EVENT_DAYS } from '@/lib/absence'
+import { countBusinessDays, isMedicalAbsence, FAMILY_EVENT_LABELS, FAMILY_EVENT_DAYS } from '@/lib/absence'
 import { useAuth } from '@/hooks/useAuth'
 import { supabase } from '@/lib/supabase/client'
 import type { FamilyEventType, LeaveBalance } from '@/types'
@@ -24,7 +24,10 @@ import type { FamilyEventType, LeaveBalance } from '@/types'
 // ── Schéma de validation ──
 
 const absenceSchema = z.object({
-  absenceType: z.enum(['sick', 'vacation', 'family_event', 'training', 'unavailable', 'emergency'], {
+  absenceType: z.enum([
+    'sick', 'vacation', 'family_event', 'training', 'unavailable', 'emergency',
+    'unpaid_leave', 'maternity', 'work_accident',
+  ], {
     required_error: 'Veuillez sélectionner un type d\'absence',
   }),
   startDate: z.string().min(1, 'La date de début est requise'),
@@ -70,15 +73,15 @@ const CATEGORIES: { key: AbsenceCategory; label: string }[] = [
 const ABSENCE_OPTIONS: Record<AbsenceCategory, AbsenceTypeOption[]> = {
   conges: [
     { value: 'conge_paye', backendType: 'vacation', label: 'Congés payés (CP)', sub: '{days} dispo · Rémunéré · Art. L3141-1', dot: 'brand.500' },
-    { value: 'sans_solde', backendType: 'vacation', label: 'Congé sans solde', sub: 'Durée libre · Accord employeur · Non rémunéré', dot: 'brand.500' },
+    { value: 'sans_solde', backendType: 'unpaid_leave', label: 'Congé sans solde', sub: 'Durée libre · Accord employeur · Non rémunéré', dot: 'brand.500' },
     { value: 'formation', backendType: 'training', label: 'Congé formation (CPF)', sub: 'Variable · Financement CPF · Art. L6323-1', dot: 'brand.500' },
   ],
   medical: [
     { value: 'maladie', backendType: 'sick', label: 'Arrêt maladie', sub: 'Justificatif CPAM sous 48h · Art. L1226-1', dot: '#EF4444' },
-    { value: 'accident_travail', backendType: 'sick', label: 'Accident du travail', sub: 'Déclaration obligatoire 48h · Art. L4121-1', dot: '#EF4444' },
-    { value: 'accident_trajet', backendType: 'sick', label: 'Accident de trajet', sub: 'Déclaration 48h · Art. L411-2 CSS', dot: '#EF4444' },
-    { value: 'maternite', backendType: 'sick', label: 'Congé maternité', sub: '16 semaines (1er enfant) · Art. L1225-17', dot: '#EF4444' },
-    { value: 'paternite', backendType: 'sick', label: 'Congé paternité / 2nd parent', sub: '25 jours · Art. L1225-35', dot: '#EF4444' },
+    { value: 'accident_travail', backendType: 'work_accident', label: 'Accident du travail', sub: 'Déclaration obligatoire 48h · Art. L4121-1', dot: '#EF4444' },
+    { value: 'accident_trajet', backendType: 'work_accident', label: 'Accident de trajet', sub: 'Déclaration 48h · Art. L411-2 CSS', dot: '#EF4444' },
+    { value: 'maternite', backendType: 'maternity', label: 'Congé maternité', sub: '16 semaines (1er enfant) · Art. L1225-17', dot: '#EF4444' },
+    { value: 'paternite', backendType: 'maternity', label: 'Congé paternité / 2nd parent', sub: '25 jours · Art. L1225-35', dot: '#EF4444' },
     { value: 'enfant_malade', backendType: 'sick', label: 'Enfant malade', sub: '3 j/an · Enfant < 16 ans · IDCC 3239 Art. 42', dot: '#EF4444' },
   ],
   familial: Object.entries(FAMILY_EVENT_LABELS).map(([key, label]) => ({
@@ -110,7 +113,7 @@ function getInfoText(
   }
   if (selected.value === 'sans_solde') return 'Congé sans solde · Non rémunéré · Nécessite l\'accord de votre employeur.'
   if (selected.value === 'formation') return 'Congé formation · CPF · Financé via votre Compte Personnel de Formation.'
-  if (selected.backendType === 'sick') return `${selected.label} · Justificatif requis sous 48h.`
+  if (isMedicalAbsence(selected.backendType)) return `${selected.label} · Justificatif requis sous 48h.`
   if (selected.backendType === 'family_event' && selected.familyEventType) {
     const days = FAMILY_EVENT_DAYS[selected.familyEventType]
     return `${selected.label} · ${days} jour(s) ouvré(s) · Convention IDCC 3239 Art. 51.`
@@ -158,7 +161,7 @@ export function AbsenceRequestModal({
     return null
   }, [selectedValue])
 
-  const isSickLeave = selectedOption?.backendType === 'sick'
+  const isSickLeave = !!selectedOption && isMedicalAbsence(selectedOption.backendType)
 
   const {
     register,
@@ -211,7 +214,8 @@ export function AbsenceRequestModal({
         supabase
           .from('leave_balances')
           .select('acquired_days, taken_days, adjustment_days')
-          .eq('employee_id', employeeId),
+          .eq('employee_id', employeeId)
+          .is('closed_at', null),
         supabase
           .from('contracts')
           .select('start_date')
@@ -316,8 +320,8 @@ export function AbsenceRequestModal({
   }
 
   const onSubmit = async (data: AbsenceFormData) => {
-    if (data.absenceType === 'sick' && !justificationFile) {
-      setFileError('L\'arrêt de travail est obligatoire pour une absence maladie')
+    if (isMedicalAbsence(data.absenceType) && !justificationFile) {
+      setFileError('L\'arrêt de travail est obligatoire pour une absence médicale')
       return
     }
 
@@ -326,7 +330,7 @@ export function AbsenceRequestModal({
 
     try {
       let justificationUrl: string | undefined
-      if (justificationFile && data.absenceType === 'sick') {
+      if (justificationFile && isMedicalAbsence(data.absenceType)) {
         const uploadResult = await uploadJustification(employeeId, justificationFile, {
           absenceType: data.absenceType,
           startDate: new Date(data.startDate),
@@ -0,0 +1,72 @@
+/**
+ * Détail mois par mois de l'acquisition des congés payés : jours ouvrables,
+ * jours de travail effectif retenus et absences qui les réduisent, avec la
+ * règle d'assimilation appliquée (cf. calculateLeaveAccrual).
+ */
+
+import { Box, Flex, Stack, Text } from '@chakra-ui/react'
+import { format } from 'date-fns'
+import { fr } from 'date-fns/locale'
+import { LEAVE_ACCRUAL_RULES } from '@/lib/absence'
+import { ABSENCE_TYPE_LABELS } from '@/lib/constants/statusMaps'
+import type { LeaveAccrualBreakdown as LeaveAccrualBreakdownData } from '@/lib/absence'
+
+interface LeaveAccrualBreakdownProps {
+  breakdown: LeaveAccrualBreakdownData
+}
+
+function formatDays(days: number): string {
+  return `${days.toLocaleString('fr-FR', { maximumFractionDigits: 2 })} j`
+}
+
+export function LeaveAccrualBreakdown({ breakdown }: LeaveAccrualBreakdownProps) {
+  if (breakdown.months.length === 0) {
+    return (
+      <Text fontSize="sm" color="text.muted">
+        Aucun jour acquis sur l'année de congés en cours.
+      </Text>
+    )
+  }
+
+  const monthsWorked = Math.floor(breakdown.effectiveDays / 24)
+
+  return (
+    <Box>
+      <Stack gap={0} as="ol" listStyleType="none">
+        {breakdown.months.map((month) => (
+          <Box
+            as="li"
+            key={month.month.getTime()}
+            py={2}
+            borderBottomWidth="1px"
+            borderColor="bg.surface"
+          >
+            <Flex justify="space-between" align="flex-start" gap={3}>
+              <Box>
+                <Text fontSize="sm" color="text.default" textTransform="capitalize">
+                  {format(month.month, 'MMMM yyyy', { locale: fr })}
+                </Text>
+                <Text fontSize="xs" color="text.muted">
+                  {formatDays(month.workingDays)} ouvrables · {formatDays(month.effectiveDays)} de travail effectif
+                </Text>
+              </Box>
+              <Text fontSize="sm" fontWeight={600} whiteSpace="nowrap" color="brand.500">
+                Cumul {formatDays(month.acquiredDays)}
+              </Text>
+            </Flex>
+            {month.absences.map((absence) => (
+              <Text key={absence.absenceType} fontSize="xs" color="text.muted" mt={1} pl={3}>
+                {ABSENCE_TYPE_LABELS[absence.absenceType]} : {formatDays(absence.days)}, dont{' '}
+                {formatDays(absence.countedDays)} retenus — {LEAVE_ACCRUAL_RULES[absence.absenceType].explanation}
+              </Text>
+            ))}
+          </Box>
+        ))}
+      </Stack>
+      <Text fontSize="xs" color="text.muted" mt={2}>
+        {formatDays(breakdown.effectiveDays)} de travail effectif = {monthsWorked} mois de 24 j × 2,5 j
+        → {formatDays(breakdown.acquiredDays)} acquis (arrondi supérieur, 30 j maximum).
+      </Text>
+    </Box>
+  )
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { screen, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { renderWithProviders } from '@/test/helpers'
+import { createMockShift } from '@/test/fixtures'
+
+// ─── Mocks ──────────────────────────────────────────────────────────────────
+
+vi.mock('@/services/medicationService', () => ({
+  getMedications: vi.fn(),
+  getShiftAdministrations: vi.fn(),
+  recordMedicationAdministration: vi.fn(),
+}))
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn(), debug: vi.fn() },
+}))
+
+// ─── Imports après mocks ──────────────────────────────────────────────────────
+
+import {
+  getMedications,
+  getShiftAdministrations,
+  recordMedicationAdministration,
+} from '@/services/medicationService'
+import { MedicationRoundSection } from './MedicationRoundSection'
+import type { Medication } from '@/types'
+
+// ─── Fixtures ────────────────────────────────────────────────────────────────
+
+const medication: Medication = {
+  id: 'med-1',
+  employerId: 'employer-1',
+  name: 'Kardégic',
+  dose: '75 mg',
+  instructions: 'Pendant le repas',
+  times: ['08:00', '20:00'],
+  startDate: new Date(2026, 0, 1),
+  createdAt: new Date(2026, 0, 1),
+  updatedAt: new Date(2026, 0, 1),
+}
+
+const shift = createMockShift({
+  id: 'shift-1',
+  date: new Date(2026, 2, 10),
+  startTime: '07:00',
+  endTime: '12:00',
+  status: 'planned',
+})
+
+const props = { shift, employerId: 'employer-1', userRole: 'employee' as const, profileId: 'employee-1' }
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  vi.mocked(getShiftAdministrations).mockResolvedValue([])
+})
+
+// ─── Tests ───────────────────────────────────────────────────────────────────
+
+describe('MedicationRoundSection', () => {
+  it('liste les prises dues dans la plage de l\'intervention', async () => {
+    vi.mocked(getMedications).mockResolvedValue([medication])
+
+    renderWithProviders(<MedicationRoundSection {...props} />)
+
+    expect(await screen.findByText('08:00')).toBeInTheDocument()
+    expect(screen.getByText('Kardégic — 75 mg')).toBeInTheDocument()
+    expect(screen.getByText('Pendant le repas')).toBeInTheDocument()
+    expect(screen.queryByText('20:00')).not.toBeInTheDocument()
+  })
+
+  it('ne rend rien sans plan de prise', async () => {
+    vi.mocked(getMedications).mockResolvedValue([])
+
+    const { container } = renderWithProviders(<MedicationRoundSection {...props} />)
+
+    await waitFor(() => expect(getMedications).toHaveBeenCalled())
+    expect(container).toBeEmptyDOMElement()
+  })
+
+  it('pointe une prise manquée', async () => {
+    vi.mocked(getMedications).mockResolvedValue([medication])
+    vi.mocked(recordMedicationAdministration).mockResolvedValue({
+      id: 'adm-1',
+      medicationId: 'med-1',
+      shiftId: 'shift-1',
+      scheduledTime: '08:00',
+      status: 'missed',
+      recordedBy: 'employee-1',
+      recordedAt: new Date(),
+    })
+    const user = userEvent.setup()
+
+    renderWithProviders(<MedicationRoundSection {...props} />)
+    await user.click(await screen.findByRole('button', { name: 'Manquée' }))
+
+    expect(recordMedicationAdministration).toHaveBeenCalledWith(expect.objectContaining({
+      shiftId: 'shift-1',
+      status: 'missed',
+      authorId: 'employee-1',
+      authorRole: 'employee',
+    }))
+    await waitFor(() => {
+      expect(screen.getByRole('button', { name: 'Manquée' })).toHaveAttribute('aria-pressed', 'true')
+    })
+  })
+})
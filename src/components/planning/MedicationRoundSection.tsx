@@ -0,0 +1,153 @@
+/**
+ * Prises de médicaments dues pendant l'intervention, à pointer par
+ * l'auxiliaire : donnée, refusée ou manquée.
+ *
+ * Rien n'est affiché sans plan de prise (ou sans consentement santé de
+ * l'employeur : la base ne renvoie alors aucun traitement).
+ */
+
+import { useEffect, useMemo, useState } from 'react'
+import { Box, Flex, Stack, Text } from '@chakra-ui/react'
+import { AccessibleButton } from '@/components/ui'
+import {
+  getMedications,
+  getShiftAdministrations,
+  recordMedicationAdministration,
+} from '@/services/medicationService'
+import { getDosesDue, MEDICATION_STATUS_LABELS, type MedicationDose } from '@/lib/medication/schedule'
+import { sanitizeText } from '@/lib/sanitize'
+import { toaster } from '@/lib/toaster'
+import { logger } from '@/lib/logger'
+import type {
+  Medication,
+  MedicationAdministration,
+  MedicationAdministrationStatus,
+  Shift,
+  UserRole,
+} from '@/types'
+
+const STATUSES: MedicationAdministrationStatus[] = ['given', 'refused', 'missed']
+
+const STATUS_PALETTES: Record<MedicationAdministrationStatus, string> = {
+  given: 'green',
+  refused: 'orange',
+  missed: 'red',
+}
+
+interface MedicationRoundSectionProps {
+  shift: Shift
+  employerId: string
+  userRole: UserRole
+  profileId: string
+}
+
+export function MedicationRoundSection({ shift, employerId, userRole, profileId }: MedicationRoundSectionProps) {
+  const [medications, setMedications] = useState<Medication[]>([])
+  const [administrations, setAdministrations] = useState<MedicationAdministration[]>([])
+  const [pendingKey, setPendingKey] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    Promise.all([getMedications(employerId), getShiftAdministrations(shift.id)])
+      .then(([meds, records]) => {
+        if (cancelled) return
+        setMedications(meds)
+        setAdministrations(records)
+      })
+      .catch((err) => logger.error('Erreur chargement prises intervention:', err))
+    return () => {
+      cancelled = true
+    }
+  }, [employerId, shift.id])
+
+  const doses = useMemo(
+    () => getDosesDue(medications, shift, administrations),
+    [medications, shift, administrations]
+  )
+
+  const canRecord = shift.status !== 'cancelled' && shift.status !== 'absent'
+
+  const record = async (dose: MedicationDose, status: MedicationAdministrationStatus) => {
+    const key = `${dose.medication.id}|${dose.scheduledTime}`
+    setPendingKey(key)
+    try {
+      const saved = await recordMedicationAdministration({
+        dose,
+        shiftId: shift.id,
+        status,
+        authorId: profileId,
+        authorRole: userRole,
+      })
+      setAdministrations((prev) => [
+        ...prev.filter((a) => `${a.medicationId}|${a.scheduledTime}` !== key),
+        saved,
+      ])
+      if (status === 'missed' && dose.administration?.status !== 'missed') {
+        toaster.warning({
+          title: 'Prise manquée signalée',
+          description: 'Une entrée urgente a été ajoutée au cahier de liaison.',
+        })
+      }
+    } catch (err) {
+      logger.error('Erreur pointage prise:', err)
+      toaster.error({
+        title: 'Erreur',
+        description: err instanceof Error ? err.message : "Impossible d'enregistrer la prise.",
+      })
+    } finally {
+      setPendingKey(null)
+    }
+  }
+
+  if (doses.length === 0) return null
+
+  return (
+    <Box py={3} borderBottomWidth="1px" borderColor="border.default">
+      <Text fontSize="12px" color="text.muted" fontWeight="500" mb={2}>
+        Médicaments
+      </Text>
+      <Stack gap={3}>
+        {doses.map((dose) => {
+          const key = `${dose.medication.id}|${dose.scheduledTime}`
+          const current = dose.administration?.status
+          return (
+            <Box key={key} role="group" aria-label={`${dose.medication.name} à ${dose.scheduledTime}`}>
+              <Flex align="baseline" gap={2} wrap="wrap">
+                <Text fontWeight="700" fontSize="14px">{dose.scheduledTime}</Text>
+                <Text fontSize="14px">
+                  {sanitizeText(dose.medication.name)} — {sanitizeText(dose.medication.dose)}
+                </Text>
+              </Flex>
+              {dose.medication.instructions && (
+                <Text fontSize="12px" color="text.muted" mt="2px">
+                  {sanitizeText(dose.medication.instructions)}
+                </Text>
+              )}
+              {canRecord ? (
+                <Flex gap={1} mt={2} wrap="wrap">
+                  {STATUSES.map((status) => (
+                    <AccessibleButton
+                      key={status}
+                      size="xs"
+                      variant={current === status ? 'solid' : 'outline'}
+                      colorPalette={current === status ? STATUS_PALETTES[status] : 'gray'}
+                      aria-pressed={current === status}
+                      disabled={pendingKey === key}
+                      onClick={() => record(dose, status)}
+                    >
+                      {MEDICATION_STATUS_LABELS[status]}
+                    </AccessibleButton>
+                  ))}
+                </Flex>
+              ) : current ? (
+                <Text fontSize="12px" color={`${STATUS_PALETTES[current]}.600`} fontWeight="600" mt={1}>
+                  {MEDICATION_STATUS_LABELS[current]}
+                </Text>
+              ) : null}
+            </Box>
+          )
+        })}
+      </Stack>
+    </Box>
+  )
+}
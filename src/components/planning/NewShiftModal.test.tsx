@@ -42,6 +42,10 @@ vi.mock('@/hooks/useComplianceCheck', () => ({
   })),
 }))
 
+vi.mock('@/hooks/useConventionSettings', () => ({
+  useEmployerPayRateSet: vi.fn(() => undefined),
+}))
+
 vi.mock('@/lib/compliance', () => ({
   calculateNightHours: vi.fn(() => 0),
   calculateShiftDuration: vi.fn(() => 180),
@@ -20,7 +20,7 @@ import { RepeatConfigSection } from './RepeatConfigSection'
 import { RepeatPreviewModal, type RepeatOccurrence } from './RepeatPreviewModal'
 import { useNewShiftForm } from '@/hooks/useNewShiftForm'
 import { useRepeatConfig } from '@/hooks/useRepeatConfig'
-import { createShifts } from '@/services/shiftService'
+import { createShiftSeries } from '@/services/shiftSeriesService'
 import { SHIFT_TYPE_LABELS } from './shiftTypeLabels'
 import { TaskSelector } from './TaskSelector'
 import { logger } from '@/lib/logger'
@@ -143,14 +143,16 @@ export function NewShiftModal({
     ...repeatConfig.generatedDates.map((date) => ({ date, shiftData: buildShiftData() })),
   ]
 
-  const handleRepeatConfirm = async (validOccurrences: RepeatOccurrence[]) => {
-    if (!watchedValues.contractId) return
+  const handleRepeatConfirm = async (validOccurrences: RepeatOccurrence[], blockedDates: Date[]) => {
+    if (!watchedValues.contractId || !baseDate || !repeatConfig.seriesRule) return
     setIsBatchSubmitting(true)
     try {
-      const { failed } = await createShifts(
-        watchedValues.contractId,
-        validOccurrences.map((occ) => ({
-          date: occ.date,
+      // Les dates bloquées sont exclues de la série (EXDATE)
+      const { failed } = await createShiftSeries(watchedValues.contractId, {
+        dtstart: baseDate,
+        rule: repeatConfig.seriesRule,
+        exdates: blockedDates,
+        template: {
           startTime: watchedValues.startTime ?? '09:00',
           endTime: watchedValues.endTime ?? '12:00',
           breakDuration: watchedValues.breakDuration ?? 0,
@@ -162,8 +164,8 @@ export function NewShiftModal({
           isRequalified,
           effectiveHours: effectiveHoursComputed ?? undefined,
           guardSegments: shiftType === 'guard_24h' ? guardSegments : undefined,
-        }))
-      )
+        },
+      })
       if (failed.length > 0) {
         logger.error('Certaines occurrences ont échoué:', failed)
         toaster.success({
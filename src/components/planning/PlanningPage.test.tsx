@@ -36,6 +36,15 @@ vi.mock('@/components/planning/AbsenceDetailModal', () => ({
   AbsenceDetailModal: () => null,
 }))
 
+vi.mock('@/components/planning/ReplacementFinderModal', () => ({
+  ReplacementFinderModal: () => null,
+}))
+
+vi.mock('@/components/planning/WeekSchedulerModal', () => ({
+  WeekSchedulerModal: ({ isOpen }: { isOpen: boolean }) =>
+    isOpen ? <div data-testid="week-scheduler-modal" /> : null,
+}))
+
 vi.mock('@/components/planning/RepeatShiftModal', () => ({
   RepeatShiftModal: () => null,
 }))
@@ -72,6 +81,10 @@ vi.mock('@/services/shiftService', () => ({
   getShifts: vi.fn(),
 }))
 
+vi.mock('@/services/shiftSeriesService', () => ({
+  extendShiftSeries: vi.fn(),
+}))
+
 vi.mock('@/services/absenceService', () => ({
   getAbsencesForEmployee: vi.fn(),
   getAbsencesForEmployer: vi.fn(),
@@ -91,12 +104,14 @@ vi.mock('@/services/caregiverService', () => ({
 
 import { useAuth } from '@/hooks/useAuth'
 import { getShifts } from '@/services/shiftService'
+import { extendShiftSeries } from '@/services/shiftSeriesService'
 import { getAbsencesForEmployer, getAbsencesForEmployee } from '@/services/absenceService'
 import { getCaregiver } from '@/services/caregiverService'
 import { PlanningPage } from './PlanningPage'
 
 const mockUseAuth = vi.mocked(useAuth)
 const mockGetShifts = vi.mocked(getShifts)
+const mockExtendShiftSeries = vi.mocked(extendShiftSeries)
 const mockGetAbsencesForEmployer = vi.mocked(getAbsencesForEmployer)
 const mockGetAbsencesForEmployee = vi.mocked(getAbsencesForEmployee)
 const mockGetCaregiver = vi.mocked(getCaregiver)
@@ -139,6 +154,7 @@ describe('PlanningPage', () => {
   beforeEach(() => {
     vi.clearAllMocks()
     mockGetShifts.mockResolvedValue([])
+    mockExtendShiftSeries.mockResolvedValue(0)
     mockGetAbsencesForEmployer.mockResolvedValue([])
     mockGetAbsencesForEmployee.mockResolvedValue([])
     mockGetCaregiver.mockResolvedValue(null)
@@ -292,6 +308,29 @@ describe('PlanningPage', () => {
     })
   })
 
+  // 7b. Prolonge les séries sans fin une seule fois pour un employeur
+  it('prolonge les séries sans fin avant le premier chargement (employeur)', async () => {
+    const profile = setupEmployerProfile()
+
+    renderWithProviders(<PlanningPage />)
+
+    await waitFor(() => expect(mockGetShifts).toHaveBeenCalled())
+    fireEvent.click(screen.getByRole('button', { name: /semaine suivante/i }))
+    await waitFor(() => expect(mockGetShifts).toHaveBeenCalledTimes(2))
+
+    expect(mockExtendShiftSeries).toHaveBeenCalledTimes(1)
+    expect(mockExtendShiftSeries).toHaveBeenCalledWith(profile.id)
+  })
+
+  it('ne prolonge pas les séries pour un employé', async () => {
+    setupEmployeeProfile()
+
+    renderWithProviders(<PlanningPage />)
+
+    await waitFor(() => expect(mockGetShifts).toHaveBeenCalled())
+    expect(mockExtendShiftSeries).not.toHaveBeenCalled()
+  })
+
   // 8. Appelle getAbsencesForEmployer au montage pour un employeur
   it('appelle getAbsencesForEmployer au montage pour un employeur', async () => {
     const profile = setupEmployerProfile()
@@ -338,6 +377,17 @@ describe('PlanningPage', () => {
     })
   })
 
+  // 10 bis. Pour role='employer' : « Générer ma semaine » ouvre le générateur
+  it('ouvre le générateur de semaine pour un employeur', async () => {
+    setupEmployerProfile()
+
+    renderWithProviders(<PlanningPage />)
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Générer ma semaine' }))
+
+    expect(screen.getByTestId('week-scheduler-modal')).toBeInTheDocument()
+  })
+
   // 11. Gère les erreurs de getShifts silencieusement (pas de crash)
   it('gere les erreurs de getShifts sans crash', async () => {
     setupEmployerProfile()
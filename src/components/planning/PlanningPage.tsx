@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback, useMemo } from 'react'
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
 import { useSearchParams } from 'react-router-dom'
 import { Box, Flex, Text, Center, Spinner } from '@chakra-ui/react'
 import {
@@ -25,9 +25,12 @@ import { ShiftDetailModal } from './ShiftDetailModal'
 import { RepeatShiftModal } from './RepeatShiftModal'
 import { AbsenceRequestModal } from './AbsenceRequestModal'
 import { AbsenceDetailModal } from './AbsenceDetailModal'
+import { ReplacementFinderModal } from './ReplacementFinderModal'
+import { WeekSchedulerModal } from './WeekSchedulerModal'
 // PlanningSidebar remplacé par des dropdowns inline
 import { PlanningStatsBar, NextShiftChip } from './PlanningStatsBar'
 import { getShifts } from '@/services/shiftService'
+import { extendShiftSeries } from '@/services/shiftSeriesService'
 import { getAbsencesForEmployee, getAbsencesForEmployer } from '@/services/absenceService'
 import { getCaregiver, getShiftsForCaregiver } from '@/services/caregiverService'
 import { logger } from '@/lib/logger'
@@ -54,11 +57,14 @@ export function PlanningPage() {
   const [shifts, setShifts] = useState<Shift[]>([])
   const [absences, setAbsences] = useState<Absence[]>([])
   const [isLoadingShifts, setIsLoadingShifts] = useState(true)
+  const seriesExtendedForRef = useRef<string | null>(null)
   const [isNewShiftModalOpen, setIsNewShiftModalOpen] = useState(false)
   const [isAbsenceRequestModalOpen, setIsAbsenceRequestModalOpen] = useState(false)
   const [selectedShift, setSelectedShift] = useState<Shift | null>(null)
   const [repeatShift, setRepeatShift] = useState<Shift | null>(null)
   const [selectedAbsence, setSelectedAbsence] = useState<Absence | null>(null)
+  const [coverageAbsence, setCoverageAbsence] = useState<Absence | null>(null)
+  const [isWeekSchedulerOpen, setIsWeekSchedulerOpen] = useState(false)
   const [caregiver, setCaregiver] = useState<Caregiver | null>(null)
 
   // Menu télécharger
@@ -152,6 +158,12 @@ export function PlanningPage() {
 
     setIsLoadingShifts(true)
     try {
+      // Une fois par session : prolonger les séries sans fin dont l'horizon approche
+      if (profile.role === 'employer' && seriesExtendedForRef.current !== profile.id) {
+        seriesExtendedForRef.current = profile.id
+        await extendShiftSeries(profile.id)
+      }
+
       // Pour les aidants, utiliser getShiftsForCaregiver
       let shiftsPromise: Promise<Shift[]>
       if (profile.role === 'caregiver') {
@@ -420,6 +432,24 @@ export function PlanningPage() {
           +<Box as="span" display={{ base: 'none', sm: 'inline' }}> Absence</Box>
         </Flex>
       )}
+      {profile.role === 'employer' && (
+        <Flex
+          as="button"
+          align="center"
+          gap={1}
+          px={3} py="5px"
+          borderWidth="1.5px" borderColor="border.strong"
+          borderRadius={btnRadius}
+          fontSize="13px" fontWeight="600" color="brand.fg"
+          bg="transparent"
+          _hover={{ bg: 'bg.page' }}
+          onClick={() => setIsWeekSchedulerOpen(true)}
+          aria-label="Générer ma semaine"
+        >
+          <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" width={14} height={14} aria-hidden="true"><rect x="3" y="4" width="18" height="18" rx="2"/><line x1="16" y1="2" x2="16" y2="6"/><line x1="8" y1="2" x2="8" y2="6"/><line x1="3" y1="10" x2="21" y2="10"/></svg>
+          <Box as="span" display={{ base: 'none', sm: 'inline' }}>Générer ma semaine</Box>
+        </Flex>
+      )}
       {canEditPlanning && (
         <Flex
           as="button"
@@ -645,7 +675,28 @@ export function PlanningPage() {
           loadShifts()
           setSelectedAbsence(null)
         }}
+        onApproved={profile.role === 'employer' ? setCoverageAbsence : undefined}
       />
+
+      {profile.role === 'employer' && (
+        <ReplacementFinderModal
+          isOpen={coverageAbsence !== null}
+          onClose={() => setCoverageAbsence(null)}
+          absence={coverageAbsence}
+          employerId={profile.id}
+          onSuccess={loadShifts}
+        />
+      )}
+
+      {profile.role === 'employer' && (
+        <WeekSchedulerModal
+          isOpen={isWeekSchedulerOpen}
+          onClose={() => setIsWeekSchedulerOpen(false)}
+          employerId={profile.id}
+          weekStart={weekStart}
+          onSuccess={loadShifts}
+        />
+      )}
     </DashboardLayout>
   )
 }
@@ -152,7 +152,8 @@ export function PlanningStatsBar({ shifts, role, pchMonthlyHours, employeeId }:
         supabase
           .from('leave_balances')
           .select('acquired_days, taken_days, adjustment_days')
-          .eq('employee_id', employeeId!),
+          .eq('employee_id', employeeId!)
+          .is('closed_at', null),
         supabase
           .from('contracts')
           .select('id, start_date, weekly_hours')
@@ -7,9 +7,8 @@ import {
   Text,
 } from '@chakra-ui/react'
 import { AccessibleButton, StatusPill, GhostButton, PrimaryButton } from '@/components/ui'
-import { validateShift } from '@/lib/compliance'
+import { validateSeriesOccurrences, type SeriesOccurrenceResult } from '@/lib/shifts/series'
 import type { ShiftForValidation, AbsenceForValidation } from '@/lib/compliance'
-import type { ComplianceResult } from '@/types'
 import { format } from 'date-fns'
 import { fr } from 'date-fns/locale'
 
@@ -18,40 +17,6 @@ export interface RepeatOccurrence {
   shiftData: Omit<ShiftForValidation, 'date' | 'id'>
 }
 
-interface OccurrenceResult {
-  date: Date
-  complianceResult: ComplianceResult
-  blocked: boolean
-}
-
-function buildOccurrenceResults(
-  occurrences: RepeatOccurrence[],
-  existingShifts: ShiftForValidation[],
-  approvedAbsences: AbsenceForValidation[]
-): OccurrenceResult[] {
-  // Pour détecter les conflits intra-séquence, on accumule les occurrences déjà "créées"
-  const accumulated: ShiftForValidation[] = [...existingShifts]
-  const results: OccurrenceResult[] = []
-
-  for (const occ of occurrences) {
-    const shiftToValidate: ShiftForValidation = {
-      ...occ.shiftData,
-      date: occ.date,
-    }
-    const result = validateShift(shiftToValidate, accumulated, approvedAbsences)
-    const blocked = !result.valid
-
-    results.push({ date: occ.date, complianceResult: result, blocked })
-
-    // Ajouter au pool même si bloquée (pour détecter les conflits avec les suivantes)
-    if (!blocked) {
-      accumulated.push(shiftToValidate)
-    }
-  }
-
-  return results
-}
-
 interface RepeatPreviewModalProps {
   isOpen: boolean
   onClose: () => void
@@ -60,7 +25,8 @@ interface RepeatPreviewModalProps {
   approvedAbsences: AbsenceForValidation[]
   baseShiftSummary: string
   isSubmitting: boolean
-  onConfirm: (validOccurrences: RepeatOccurrence[]) => void
+  /** Occurrences valides et dates bloquées (exclues de la série) */
+  onConfirm: (validOccurrences: RepeatOccurrence[], blockedDates: Date[]) => void
 }
 
 export function RepeatPreviewModal({
@@ -73,7 +39,13 @@ export function RepeatPreviewModal({
   isSubmitting,
   onConfirm,
 }: RepeatPreviewModalProps) {
-  const results = buildOccurrenceResults(occurrences, existingShifts, approvedAbsences)
+  // Toute la série est validée d'un bloc : les occurrences valides s'accumulent
+  // pour détecter les conflits entre occurrences (repos, durées hebdomadaires…)
+  const results = validateSeriesOccurrences(
+    occurrences.map((occ) => ({ ...occ.shiftData, date: occ.date })),
+    existingShifts,
+    approvedAbsences
+  )
   const validOccurrences = occurrences.filter((_, i) => !results[i].blocked)
   const blockedCount = occurrences.length - validOccurrences.length
 
@@ -135,7 +107,7 @@ export function RepeatPreviewModal({
                 <PrimaryButton
                   loading={isSubmitting}
                   disabled={validOccurrences.length === 0 || isSubmitting}
-                  onClick={() => onConfirm(validOccurrences)}
+                  onClick={() => onConfirm(validOccurrences, results.filter((r) => r.blocked).map((r) => r.date))}
                 >
                   Créer {validOccurrences.length} intervention{validOccurrences.length > 1 ? 's' : ''}
                   {blockedCount > 0 && ` (${blockedCount} ignorée${blockedCount > 1 ? 's' : ''})`}
@@ -149,7 +121,7 @@ export function RepeatPreviewModal({
   )
 }
 
-function OccurrenceRow({ result }: { result: OccurrenceResult }) {
+function OccurrenceRow({ result }: { result: SeriesOccurrenceResult }) {
   const { date, complianceResult, blocked } = result
   const dateLabel = format(date, 'EEE d MMM yyyy', { locale: fr })
 
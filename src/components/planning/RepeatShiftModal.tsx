@@ -12,7 +12,7 @@ import { AccessibleButton, GhostButton, PrimaryButton } from '@/components/ui'
 import { RepeatConfigSection } from './RepeatConfigSection'
 import { RepeatPreviewModal, type RepeatOccurrence } from './RepeatPreviewModal'
 import { useRepeatConfig } from '@/hooks/useRepeatConfig'
-import { createShifts } from '@/services/shiftService'
+import { createShiftSeries } from '@/services/shiftSeriesService'
 import { toaster } from '@/lib/toaster'
 import type { Shift } from '@/types'
 import type { ShiftForValidation, AbsenceForValidation } from '@/lib/compliance'
@@ -68,14 +68,19 @@ export function RepeatShiftModal({
     setIsPreviewOpen(true)
   }
 
-  const handleConfirm = async (validOccurrences: RepeatOccurrence[]) => {
+  const handleConfirm = async (validOccurrences: RepeatOccurrence[], blockedDates: Date[]) => {
+    if (!repeatConfig.seriesRule) return
     setIsSubmitting(true)
     setSubmitError(null)
     try {
-      const { failed } = await createShifts(
-        shift.contractId,
-        validOccurrences.map((occ) => ({
-          date: occ.date,
+      // L'intervention source devient la première occurrence de la série,
+      // les dates bloquées en sont exclues (EXDATE)
+      const { failed } = await createShiftSeries(shift.contractId, {
+        dtstart: shift.date,
+        rule: repeatConfig.seriesRule,
+        exdates: blockedDates,
+        sourceShiftId: shift.id,
+        template: {
           startTime: shift.startTime,
           endTime: shift.endTime,
           breakDuration: shift.breakDuration,
@@ -84,9 +89,11 @@ export function RepeatShiftModal({
           hasNightAction: shift.hasNightAction,
           shiftType: shift.shiftType,
           nightInterventionsCount: shift.nightInterventionsCount,
+          isRequalified: shift.isRequalified,
+          effectiveHours: shift.effectiveHours,
           guardSegments: shift.guardSegments,
-        }))
-      )
+        },
+      })
       if (failed.length > 0) {
         logger.error('Certaines occurrences ont échoué:', failed)
         toaster.success({
@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { screen, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { renderWithProviders } from '@/test/helpers'
+import type { Absence, Shift } from '@/types'
+import type { ReplacementCandidate } from '@/lib/shifts/replacement'
+
+// ─── Mocks ──────────────────────────────────────────────────────────────────
+
+vi.mock('@/services/replacementService', () => ({
+  getAbsenceCoverage: vi.fn(),
+  reassignShift: vi.fn(),
+}))
+
+// ─── Imports après mocks ──────────────────────────────────────────────────────
+
+import { getAbsenceCoverage, reassignShift } from '@/services/replacementService'
+import { ReplacementFinderModal } from './ReplacementFinderModal'
+
+// ─── Fixtures ────────────────────────────────────────────────────────────────
+
+const absence: Absence = {
+  id: 'absence-1',
+  employeeId: 'absent',
+  absenceType: 'sick',
+  startDate: new Date('2026-03-10'),
+  endDate: new Date('2026-03-10'),
+  status: 'approved',
+  createdAt: new Date('2026-03-01'),
+}
+
+const shift: Shift = {
+  id: 'shift-1',
+  contractId: 'contract-absent',
+  employeeId: 'absent',
+  employeeName: 'Marie Curie',
+  date: new Date('2026-03-10'),
+  startTime: '09:00',
+  endTime: '12:00',
+  breakDuration: 0,
+  tasks: [],
+  shiftType: 'effective',
+  isRequalified: false,
+  status: 'cancelled',
+  computedPay: {
+    basePay: 0, sundayMajoration: 0, holidayMajoration: 0,
+    nightMajoration: 0, overtimeMajoration: 0, presenceResponsiblePay: 0,
+    nightPresenceAllowance: 0, totalPay: 0,
+  },
+  validatedByEmployer: false,
+  validatedByEmployee: false,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+}
+
+const lea: ReplacementCandidate = {
+  contractId: 'contract-lea',
+  employeeId: 'lea',
+  name: 'Léa Roux',
+  availability: 'full',
+  compliance: { valid: true, errors: [], warnings: [] },
+}
+
+const paul: ReplacementCandidate = {
+  contractId: 'contract-paul',
+  employeeId: 'paul',
+  name: 'Paul Martin',
+  availability: 'partial',
+  compliance: {
+    valid: false,
+    errors: [{ code: 'OVERLAP', message: 'Chevauchement avec une autre intervention', rule: 'Chevauchement', blocking: true }],
+    warnings: [],
+  },
+}
+
+const defaultProps = {
+  isOpen: true,
+  onClose: vi.fn(),
+  absence,
+  employerId: 'employer-1',
+  onSuccess: vi.fn(),
+}
+
+// ─── Setup ───────────────────────────────────────────────────────────────────
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  vi.mocked(getAbsenceCoverage).mockResolvedValue([{ shift, candidates: [lea, paul] }])
+  vi.mocked(reassignShift).mockResolvedValue(undefined)
+})
+
+// ─── Tests ───────────────────────────────────────────────────────────────────
+
+describe('ReplacementFinderModal', () => {
+  it('liste les remplaçants avec disponibilité et règle bloquante', async () => {
+    renderWithProviders(<ReplacementFinderModal {...defaultProps} />)
+
+    expect(await screen.findByText('Léa Roux')).toBeInTheDocument()
+    expect(getAbsenceCoverage).toHaveBeenCalledWith(absence, 'employer-1')
+    expect(screen.getByText('Disponible')).toBeInTheDocument()
+    expect(screen.getByText('Chevauchement avec une autre intervention')).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: 'Réattribuer à Paul Martin' })).toBeDisabled()
+  })
+
+  it('réattribue l\'intervention en un clic', async () => {
+    const user = userEvent.setup()
+    const onSuccess = vi.fn()
+
+    renderWithProviders(<ReplacementFinderModal {...defaultProps} onSuccess={onSuccess} />)
+
+    await user.click(await screen.findByRole('button', { name: 'Réattribuer à Léa Roux' }))
+
+    await waitFor(() => {
+      expect(reassignShift).toHaveBeenCalledWith(shift, lea)
+      expect(onSuccess).toHaveBeenCalledTimes(1)
+    })
+    expect(await screen.findByText('Aucune intervention à couvrir pendant cette absence.')).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,150 @@
+/**
+ * Plan de couverture d'une absence approuvée : interventions concernées et
+ * remplaçants classés (conformité IDCC 3239 puis disponibilités déclarées).
+ * L'employeur réattribue chaque intervention en un clic.
+ */
+import { useState, useEffect, useCallback } from 'react'
+import { Box, Stack, Flex, Text, Spinner, Center } from '@chakra-ui/react'
+import { format } from 'date-fns'
+import { fr } from 'date-fns/locale'
+import { AccessibleButton, StatusPill, GhostButton } from '@/components/ui'
+import { PlanningModal } from './PlanningModal'
+import { getAbsenceCoverage, reassignShift, type ShiftCoverage } from '@/services/replacementService'
+import type { ReplacementCandidate, AvailabilityMatch } from '@/lib/shifts/replacement'
+import { toaster } from '@/lib/toaster'
+import { logger } from '@/lib/logger'
+import type { Absence } from '@/types'
+
+interface ReplacementFinderModalProps {
+  isOpen: boolean
+  onClose: () => void
+  absence: Absence | null
+  employerId: string
+  onSuccess: () => void
+}
+
+/** Remplaçants proposés par intervention */
+const MAX_CANDIDATES = 3
+
+const AVAILABILITY_LABELS: Record<AvailabilityMatch, { label: string; variant: 'success' | 'pending' | 'off' }> = {
+  full: { label: 'Disponible', variant: 'success' },
+  partial: { label: 'Partiellement disponible', variant: 'pending' },
+  none: { label: 'Non disponible', variant: 'off' },
+}
+
+export function ReplacementFinderModal({
+  isOpen,
+  onClose,
+  absence,
+  employerId,
+  onSuccess,
+}: ReplacementFinderModalProps) {
+  const [coverage, setCoverage] = useState<ShiftCoverage[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [assigningShiftId, setAssigningShiftId] = useState<string | null>(null)
+
+  const loadCoverage = useCallback(async () => {
+    if (!absence) return
+    setIsLoading(true)
+    try {
+      setCoverage(await getAbsenceCoverage(absence, employerId))
+    } catch (error) {
+      logger.error('Erreur chargement couverture absence:', error)
+      setCoverage([])
+    } finally {
+      setIsLoading(false)
+    }
+  }, [absence, employerId])
+
+  useEffect(() => {
+    if (isOpen) loadCoverage()
+  }, [isOpen, loadCoverage])
+
+  const handleReassign = async ({ shift }: ShiftCoverage, candidate: ReplacementCandidate) => {
+    setAssigningShiftId(shift.id)
+    try {
+      await reassignShift(shift, candidate)
+      toaster.success({ title: 'Intervention réattribuée', description: `${candidate.name} assure le remplacement.` })
+      setCoverage((prev) => prev.filter((c) => c.shift.id !== shift.id))
+      onSuccess()
+    } catch (error) {
+      toaster.error({
+        title: 'Réattribution impossible',
+        description: error instanceof Error ? error.message : 'Erreur lors de la réattribution',
+      })
+    } finally {
+      setAssigningShiftId(null)
+    }
+  }
+
+  if (!absence) return null
+
+  return (
+    <PlanningModal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Remplacements"
+      subtitle="Interventions prévues pendant l'absence"
+      large
+      footer={
+        <Flex justify="flex-end" w="full">
+          <GhostButton onClick={onClose}>Fermer</GhostButton>
+        </Flex>
+      }
+    >
+      {isLoading ? (
+        <Center py={8}>
+          <Spinner size="lg" color="brand.500" />
+        </Center>
+      ) : coverage.length === 0 ? (
+        <Text fontSize="sm" color="text.muted">
+          Aucune intervention à couvrir pendant cette absence.
+        </Text>
+      ) : (
+        <Stack gap={4}>
+          {coverage.map((item) => (
+            <Box key={item.shift.id} borderWidth="1px" borderColor="border.default" borderRadius="12px" p={4}>
+              <Text fontWeight="semibold" mb={3}>
+                {format(new Date(item.shift.date), 'EEEE d MMMM', { locale: fr })} · {item.shift.startTime.slice(0, 5)}–{item.shift.endTime.slice(0, 5)}
+              </Text>
+
+              {item.candidates.length === 0 ? (
+                <Text fontSize="sm" color="text.muted">Aucun autre auxiliaire sous contrat.</Text>
+              ) : (
+                <Stack gap={2}>
+                  {item.candidates.slice(0, MAX_CANDIDATES).map((candidate) => {
+                    const availability = AVAILABILITY_LABELS[candidate.availability]
+                    const blockingError = candidate.compliance.errors[0]
+                    return (
+                      <Flex key={candidate.contractId} align="center" gap={3} wrap="wrap">
+                        <Box flex={1} minW="180px">
+                          <Text fontSize="sm" fontWeight="medium">{candidate.name}</Text>
+                          {blockingError ? (
+                            <Text fontSize="xs" color="danger.500">{blockingError.message}</Text>
+                          ) : candidate.compliance.warnings.length > 0 ? (
+                            <Text fontSize="xs" color="warm.600">{candidate.compliance.warnings[0].message}</Text>
+                          ) : null}
+                        </Box>
+                        <StatusPill variant={availability.variant} size="sm">{availability.label}</StatusPill>
+                        <AccessibleButton
+                          size="sm"
+                          colorPalette="brand"
+                          disabled={!candidate.compliance.valid || assigningShiftId !== null}
+                          loading={assigningShiftId === item.shift.id}
+                          onClick={() => handleReassign(item, candidate)}
+                          accessibleLabel={`Réattribuer à ${candidate.name}`}
+                        >
+                          Réattribuer
+                        </AccessibleButton>
+                      </Flex>
+                    )
+                  })}
+                </Stack>
+              )}
+            </Box>
+          ))}
+        </Stack>
+      )}
+    </PlanningModal>
+  )
+}
@@ -0,0 +1,47 @@
+/**
+ * Choix de la portée d'une modification ou d'une suppression sur une
+ * intervention récurrente : cette occurrence, celle-ci et les suivantes,
+ * ou toute la série.
+ */
+
+import { Box, Stack, Flex, Text } from '@chakra-ui/react'
+import type { SeriesEditScope } from '@/lib/shifts/series'
+
+const SCOPE_OPTIONS: { value: SeriesEditScope; label: string }[] = [
+  { value: 'this', label: 'Cette intervention' },
+  { value: 'following', label: 'Celle-ci et les suivantes' },
+  { value: 'all', label: 'Toute la série' },
+]
+
+interface SeriesScopeSelectorProps {
+  value: SeriesEditScope
+  onChange: (scope: SeriesEditScope) => void
+  /** Texte de la question (ex. « Appliquer la modification à : ») */
+  legend: string
+  disabled?: boolean
+}
+
+export function SeriesScopeSelector({ value, onChange, legend, disabled = false }: SeriesScopeSelectorProps) {
+  return (
+    <Box as="fieldset" p={3} bg="bg.page" borderRadius="10px">
+      <Text as="legend" fontSize="sm" fontWeight="medium" color="text.secondary" mb={2}>
+        {legend}
+      </Text>
+      <Stack gap={1}>
+        {SCOPE_OPTIONS.map((opt) => (
+          <Flex key={opt.value} as="label" align="center" gap={2} fontSize="sm" cursor="pointer">
+            <input
+              type="radio"
+              name="series-scope"
+              value={opt.value}
+              checked={value === opt.value}
+              onChange={() => onChange(opt.value)}
+              disabled={disabled}
+            />
+            {opt.label}
+          </Flex>
+        ))}
+      </Stack>
+    </Box>
+  )
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
-import { screen, waitFor } from '@testing-library/react'
+import { screen, waitFor, within } from '@testing-library/react'
 import userEvent from '@testing-library/user-event'
 import { renderWithProviders } from '@/test/helpers'
 import { createMockShift, createMockContract } from '@/test/fixtures'
@@ -19,6 +19,13 @@ vi.mock('@/services/shiftService', () => ({
   getShifts: (...args: unknown[]) => mockGetShifts(...args),
 }))
 
+const mockUpdateShiftSeries = vi.fn()
+const mockDeleteShiftSeriesOccurrences = vi.fn()
+vi.mock('@/services/shiftSeriesService', () => ({
+  updateShiftSeries: (...args: unknown[]) => mockUpdateShiftSeries(...args),
+  deleteShiftSeriesOccurrences: (...args: unknown[]) => mockDeleteShiftSeriesOccurrences(...args),
+}))
+
 const mockGetContractById = vi.fn()
 vi.mock('@/services/contractService', () => ({
   getContractById: (...args: unknown[]) => mockGetContractById(...args),
@@ -28,6 +35,29 @@ vi.mock('@/services/profileService', () => ({
   getEmployer: vi.fn().mockResolvedValue(null),
 }))
 
+vi.mock('@/services/medicationService', () => ({
+  getMedications: vi.fn().mockResolvedValue([]),
+  getShiftAdministrations: vi.fn().mockResolvedValue([]),
+  recordMedicationAdministration: vi.fn(),
+}))
+
+vi.mock('@/services/shoppingExpenseService', () => ({
+  getShiftShoppingExpense: vi.fn().mockResolvedValue(null),
+  saveShiftShoppingExpense: vi.fn(),
+  uploadShoppingReceipt: vi.fn(),
+}))
+
+vi.mock('@/services/shiftTripService', () => ({
+  getShiftTrips: vi.fn().mockResolvedValue([]),
+  addShiftTrip: vi.fn(),
+  deleteShiftTrip: vi.fn(),
+}))
+
+vi.mock('@/services/conventionSettingsService', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/services/conventionSettingsService')>()),
+  getConventionSettings: vi.fn().mockResolvedValue({ mileageRate: 0.636 }),
+}))
+
 // ── Mocks hooks ───────────────────────────────────────────────────────────────
 
 vi.mock('@/hooks/useComplianceCheck', () => ({
@@ -213,6 +243,33 @@ describe('ShiftDetailModal', () => {
         expect(screen.getByRole('button', { name: /valider l'intervention/i })).toBeInTheDocument()
       })
     })
+
+    it('auxiliaire doit renseigner les tâches avant de valider', async () => {
+      const user = userEvent.setup()
+      renderWithProviders(
+        <ShiftDetailModal
+          {...defaultProps}
+          userRole="employee"
+          profileId="employee-1"
+          shift={createShift({ status: 'completed' })}
+        />
+      )
+
+      const validateButton = await screen.findByRole('button', { name: /valider l'intervention/i })
+      expect(validateButton).toBeDisabled()
+      expect(screen.getByText('Renseignez les tâches pour valider')).toBeInTheDocument()
+
+      await user.click(within(screen.getByRole('group', { name: 'Aide au lever' })).getByRole('button', { name: 'Faite' }))
+      await user.click(within(screen.getByRole('group', { name: 'Repas' })).getByRole('button', { name: 'Faite' }))
+
+      await waitFor(() => expect(validateButton).toBeEnabled())
+      expect(mockUpdateShift).toHaveBeenLastCalledWith('shift-1', {
+        taskCompletions: [
+          expect.objectContaining({ task: 'Aide au lever', status: 'done', completedBy: 'employee-1' }),
+          expect.objectContaining({ task: 'Repas', status: 'done', completedBy: 'employee-1' }),
+        ],
+      })
+    })
   })
 
   describe('Mode édition', () => {
@@ -294,6 +351,25 @@ describe('ShiftDetailModal', () => {
         expect(onClose).toHaveBeenCalled()
       })
     })
+
+    it('supprime une occurrence et les suivantes d\'une série selon la portée choisie', async () => {
+      const user = userEvent.setup()
+      mockDeleteShiftSeriesOccurrences.mockResolvedValue(undefined)
+      const shift = createShift({ seriesId: 'series-1' })
+
+      renderWithProviders(<ShiftDetailModal {...defaultProps} shift={shift} />)
+
+      await user.click(await screen.findByRole('button', { name: /supprimer/i }))
+      expect(screen.getByRole('radio', { name: 'Cette intervention' })).toBeChecked()
+
+      await user.click(screen.getByRole('radio', { name: 'Celle-ci et les suivantes' }))
+      await user.click(screen.getByRole('button', { name: /confirmer la suppression/i }))
+
+      await waitFor(() => {
+        expect(mockDeleteShiftSeriesOccurrences).toHaveBeenCalledWith(shift, 'following')
+      })
+      expect(mockDeleteShift).not.toHaveBeenCalled()
+    })
   })
 
   describe('Validation du shift', () => {
@@ -18,6 +18,8 @@ import { AccessibleButton, StatusPill, GhostButton, PrimaryButton } from '@/comp
 import { ComplianceBadge } from '@/components/compliance'
 import { PlanningModal } from './PlanningModal'
 import { updateShift, deleteShift, validateShift } from '@/services/shiftService'
+import { updateShiftSeries, deleteShiftSeriesOccurrences } from '@/services/shiftSeriesService'
+import type { SeriesEditScope } from '@/lib/shifts/series'
 import { toaster } from '@/lib/toaster'
 import { logger } from '@/lib/logger'
 import { FEATURES } from '@/lib/featureFlags'
@@ -25,6 +27,7 @@ import type { Shift, UserRole } from '@/types'
 import { SHIFT_STATUS_VARIANTS as statusVariants, SHIFT_STATUS_LABELS as statusLabels } from '@/lib/constants/statusMaps'
 import { useShiftDetailData } from '@/hooks/useShiftDetailData'
 import { useShiftEditLogic } from '@/hooks/useShiftEditLogic'
+import { useShiftTaskChecklist } from '@/hooks/useShiftTaskChecklist'
 import { ShiftEditForm } from './ShiftEditForm'
 import { ShiftDetailView } from './ShiftDetailView'
 
@@ -44,6 +47,7 @@ type ModalState = {
   hasNightAction: boolean
   shiftType: Shift['shiftType']
   nightInterventionsCount: number
+  seriesScope: SeriesEditScope
 }
 
 type ModalAction =
@@ -53,6 +57,7 @@ type ModalAction =
   | { type: 'SET_SHIFT_TYPE'; shiftType: Shift['shiftType'] }
   | { type: 'SET_HAS_NIGHT_ACTION'; value: boolean }
   | { type: 'SET_NIGHT_INTERVENTIONS'; count: number }
+  | { type: 'SET_SERIES_SCOPE'; scope: SeriesEditScope }
   | { type: 'SHOW_DELETE_CONFIRM' }
   | { type: 'HIDE_DELETE_CONFIRM' }
   | { type: 'ACKNOWLEDGE_WARNINGS' }
@@ -77,6 +82,7 @@ const initialState: ModalState = {
   hasNightAction: false,
   shiftType: 'effective',
   nightInterventionsCount: 0,
+  seriesScope: 'this',
 }
 
 function reducer(state: ModalState, action: ModalAction): ModalState {
@@ -113,6 +119,8 @@ function reducer(state: ModalState, action: ModalAction): ModalState {
       return { ...state, hasNightAction: action.value }
     case 'SET_NIGHT_INTERVENTIONS':
       return { ...state, nightInterventionsCount: action.count }
+    case 'SET_SERIES_SCOPE':
+      return { ...state, seriesScope: action.scope }
     case 'SHOW_DELETE_CONFIRM':
       return { ...state, showDeleteConfirm: true }
     case 'HIDE_DELETE_CONFIRM':
@@ -176,6 +184,7 @@ export function ShiftDetailModal({
     hasNightAction,
     shiftType,
     nightInterventionsCount,
+    seriesScope,
   } = state
 
   // Permissions RBAC
@@ -190,6 +199,16 @@ export function ShiftDetailModal({
       ((userRole === 'employee' || userRole === 'caregiver') && shift.validatedByEmployee)
     : false
 
+  // Check-list des tâches : l'auxiliaire la renseigne avant de valider l'intervention
+  const {
+    taskCompletions,
+    isComplete: isTaskChecklistComplete,
+    isSaving: isSavingChecklist,
+    updateTaskCompletions,
+  } = useShiftTaskChecklist(shift)
+  const canEditChecklist = userRole === 'employee' && shift?.status === 'completed' && !shift.validatedByEmployee
+  const isValidationBlocked = userRole === 'employee' && !isTaskChecklistComplete
+
   // Formulaire (react-hook-form)
   const {
     register,
@@ -307,6 +326,35 @@ export function ShiftDetailModal({
     dispatch({ type: 'SUBMIT_START' })
 
     try {
+      if (shift.seriesId && seriesScope !== 'this') {
+        const { created, failed } = await updateShiftSeries(
+          shift,
+          {
+            startTime: data.startTime,
+            endTime: data.endTime,
+            breakDuration: data.breakDuration,
+            tasks: data.tasks ? data.tasks.split('\n').filter(Boolean) : [],
+            notes: data.notes || undefined,
+            hasNightAction: shiftType === 'effective' && hasNightHours ? hasNightAction : undefined,
+            shiftType,
+            nightInterventionsCount:
+              shiftType === 'presence_night' ? nightInterventionsCount : undefined,
+            isRequalified,
+            effectiveHours: effectiveHoursComputed ?? undefined,
+          },
+          seriesScope
+        )
+        if (failed.length > 0) logger.error('Certaines occurrences ont échoué:', failed)
+        toaster.success({
+          title: 'Série modifiée',
+          description: `${created} intervention${created > 1 ? 's' : ''} mise${created > 1 ? 's' : ''} à jour${failed.length > 0 ? `, ${failed.length} en échec` : ''}`,
+        })
+        onSuccess()
+        dispatch({ type: 'SUBMIT_SUCCESS' })
+        onClose()
+        return
+      }
+
       await updateShift(shift.id, {
         date: new Date(data.date),
         startTime: data.startTime,
@@ -321,6 +369,9 @@ export function ShiftDetailModal({
         isRequalified,
         effectiveHours: effectiveHoursComputed ?? undefined,
         status: data.status,
+        computedPay: computedPay ?? undefined,
+        // Modifiée individuellement : conservée lors des régénérations de la série
+        isSeriesException: shift.seriesId ? true : undefined,
       })
 
       toaster.success({ title: 'Intervention modifiée avec succès' })
@@ -340,8 +391,14 @@ export function ShiftDetailModal({
     if (!shift) return
     dispatch({ type: 'DELETE_START' })
     try {
-      await deleteShift(shift.id)
-      toaster.success({ title: 'Intervention supprimée' })
+      if (shift.seriesId) {
+        await deleteShiftSeriesOccurrences(shift, seriesScope)
+      } else {
+        await deleteShift(shift.id)
+      }
+      toaster.success({
+        title: shift.seriesId && seriesScope !== 'this' ? 'Interventions supprimées' : 'Intervention supprimée',
+      })
       dispatch({ type: 'DELETE_SUCCESS' })
       onSuccess()
       onClose()
@@ -442,8 +499,11 @@ export function ShiftDetailModal({
         )}
       </Flex>
       <Flex gap={3}>
+        {canValidate && !hasValidated && isValidationBlocked && (
+          <Text fontSize="sm" color="orange.600" alignSelf="center">Renseignez les tâches pour valider</Text>
+        )}
         {canValidate && !hasValidated && (
-          <AccessibleButton bg="#16a34a" color="white" _hover={{ bg: '#15803d', transform: 'translateY(-1px)', boxShadow: 'md' }} _active={{ transform: 'translateY(0)' }} onClick={handleValidate} loading={isValidating}>
+          <AccessibleButton bg="#16a34a" color="white" _hover={{ bg: '#15803d', transform: 'translateY(-1px)', boxShadow: 'md' }} _active={{ transform: 'translateY(0)' }} onClick={handleValidate} loading={isValidating} disabled={isValidationBlocked || isSavingChecklist}>
             {"Valider l'intervention"}
           </AccessibleButton>
         )}
@@ -455,7 +515,7 @@ export function ShiftDetailModal({
             Pointer
           </PrimaryButton>
         )}
-        {canEdit && onRepeat && shift && shift.status === 'planned' && (
+        {canEdit && onRepeat && shift && shift.status === 'planned' && !shift.seriesId && (
           <GhostButton onClick={() => onRepeat(shift)}>
             Répéter
           </GhostButton>
@@ -509,6 +569,8 @@ export function ShiftDetailModal({
           isCheckingCompliance={isCheckingCompliance}
           contract={contract}
           submitError={submitError}
+          seriesScope={shift.seriesId ? seriesScope : undefined}
+          onSeriesScopeChange={(scope) => dispatch({ type: 'SET_SERIES_SCOPE', scope })}
           initialTasks={shift?.tasks ?? []}
           setValue={setValue}
           onShiftTypeChange={(t) => dispatch({ type: 'SET_SHIFT_TYPE', shiftType: t })}
@@ -521,12 +583,19 @@ export function ShiftDetailModal({
           shift={shift}
           contract={contract}
           isLoadingContract={isLoadingContract}
+          userRole={userRole}
+          profileId={profileId}
           displayDuration={displayDuration}
           nightHoursCount={nightHoursCount}
           hasNightHours={hasNightHours}
           showDeleteConfirm={showDeleteConfirm}
           isDeleting={isDeleting}
           submitError={submitError}
+          seriesScope={shift.seriesId ? seriesScope : undefined}
+          onSeriesScopeChange={(scope) => dispatch({ type: 'SET_SERIES_SCOPE', scope })}
+          taskCompletions={taskCompletions}
+          onTaskCompletionsChange={canEditChecklist ? updateTaskCompletions : undefined}
+          isSavingChecklist={isSavingChecklist}
           onHideDeleteConfirm={() => dispatch({ type: 'HIDE_DELETE_CONFIRM' })}
           onDelete={handleDelete}
         />
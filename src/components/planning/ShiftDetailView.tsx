@@ -17,18 +17,35 @@ import { Guard24hRecap } from './Guard24hRecap'
 import { sanitizeText } from '@/lib/sanitize'
 import { COURSES_PREFIX, parseShoppingItemString, getShoppingState } from '@/lib/constants/taskDefaults'
 import { SHIFT_TYPE_LABELS } from '@/lib/constants/statusMaps'
-import type { Shift, Contract } from '@/types'
+import type { SeriesEditScope } from '@/lib/shifts/series'
+import { SeriesScopeSelector } from './SeriesScopeSelector'
+import { MedicationRoundSection } from './MedicationRoundSection'
+import { ShoppingPurchaseSection } from './ShoppingPurchaseSection'
+import { ShiftTripsSection } from './ShiftTripsSection'
+import { TaskChecklist } from './TaskChecklist'
+import { getChecklistTasks } from '@/lib/shifts/taskChecklist'
+import type { Shift, Contract, UserRole, ShiftTaskCompletion } from '@/types'
 
 interface ShiftDetailViewProps {
   shift: Shift
   contract: Contract | null
   isLoadingContract: boolean
+  userRole: UserRole
+  profileId: string
   displayDuration: number
   nightHoursCount: number
   hasNightHours: boolean
   showDeleteConfirm: boolean
   isDeleting: boolean
   submitError: string | null
+  /** Série récurrente : portée de la suppression (absent hors série) */
+  seriesScope?: SeriesEditScope
+  onSeriesScopeChange?: (scope: SeriesEditScope) => void
+  /** Check-list des tâches (intervention terminée) */
+  taskCompletions?: ShiftTaskCompletion[]
+  /** Absent : check-list en lecture seule */
+  onTaskCompletionsChange?: (completions: ShiftTaskCompletion[]) => void
+  isSavingChecklist?: boolean
   onHideDeleteConfirm: () => void
   onDelete: () => Promise<void>
 }
@@ -66,12 +83,19 @@ export function ShiftDetailView({
   shift,
   contract,
   isLoadingContract,
+  userRole,
+  profileId,
   displayDuration,
   nightHoursCount,
   hasNightHours,
   showDeleteConfirm,
   isDeleting,
   submitError,
+  seriesScope,
+  onSeriesScopeChange,
+  taskCompletions,
+  onTaskCompletionsChange,
+  isSavingChecklist,
   onHideDeleteConfirm,
   onDelete,
 }: ShiftDetailViewProps) {
@@ -251,6 +275,49 @@ export function ShiftDetailView({
         </DetailRow>
       )}
 
+      {/* Réalisation des tâches (check-list renseignée par l'auxiliaire) */}
+      {shift.status === 'completed' && getChecklistTasks(shift.tasks).length > 0 && (
+        <DetailRow label="Réalisation">
+          <TaskChecklist
+            tasks={shift.tasks}
+            completions={taskCompletions ?? shift.taskCompletions}
+            authorId={onTaskCompletionsChange ? profileId : undefined}
+            onChange={onTaskCompletionsChange}
+            disabled={isSavingChecklist}
+          />
+        </DetailRow>
+      )}
+
+      {/* Médicaments dus pendant l'intervention (plan de prise) */}
+      {contract && (
+        <MedicationRoundSection
+          shift={shift}
+          employerId={contract.employerId}
+          userRole={userRole}
+          profileId={profileId}
+        />
+      )}
+
+      {/* Achats réels et tickets de caisse (liste de courses) */}
+      {contract && (
+        <ShoppingPurchaseSection
+          shift={shift}
+          employerId={contract.employerId}
+          userRole={userRole}
+          profileId={profileId}
+        />
+      )}
+
+      {/* Déplacements pour le bénéficiaire (indemnités kilométriques) */}
+      {contract && (
+        <ShiftTripsSection
+          shift={shift}
+          employerId={contract.employerId}
+          userRole={userRole}
+          profileId={profileId}
+        />
+      )}
+
       {/* Notes */}
       {shift.notes && (
         <DetailRow label="Notes">
@@ -312,6 +379,16 @@ export function ShiftDetailView({
           <Text fontWeight="medium" color="red.800" mb={3}>
             Êtes-vous sûr de vouloir supprimer cette intervention ?
           </Text>
+          {seriesScope && onSeriesScopeChange && (
+            <Box mb={3}>
+              <SeriesScopeSelector
+                value={seriesScope}
+                onChange={onSeriesScopeChange}
+                legend="Supprimer :"
+                disabled={isDeleting}
+              />
+            </Box>
+          )}
           <Flex gap={2}>
             <AccessibleButton
               size="sm"
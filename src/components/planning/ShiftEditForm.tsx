@@ -13,8 +13,10 @@ import { PresenceResponsibleDaySection } from './PresenceResponsibleDaySection'
 import { PresenceResponsibleNightSection } from './PresenceResponsibleNightSection'
 import { NightActionToggle } from './NightActionToggle'
 import { TaskSelector } from './TaskSelector'
+import { SeriesScopeSelector } from './SeriesScopeSelector'
 import type { Shift, Contract, ComplianceResult, ComputedPay } from '@/types'
 import type { ShiftDetailFormData } from '@/lib/validation/shiftSchemas'
+import type { SeriesEditScope } from '@/lib/shifts/series'
 import { formatHoursCompact } from '@/lib/formatHours'
 import { detectPresenceType, getPresenceMix } from '@/lib/presence/detectPresenceType'
 import { PresenceMixedWarning } from './PresenceMixedWarning'
@@ -67,6 +69,9 @@ interface ShiftEditFormProps {
   contract: Contract | null
   // Erreur submit
   submitError: string | null
+  // Série récurrente : portée de la modification (absent hors série)
+  seriesScope?: SeriesEditScope
+  onSeriesScopeChange?: (scope: SeriesEditScope) => void
   // Tasks
   initialTasks: string[]
   setValue: UseFormSetValue<ShiftDetailFormData>
@@ -99,6 +104,8 @@ export function ShiftEditForm({
   hasWarnings,
   contract,
   submitError,
+  seriesScope,
+  onSeriesScopeChange,
   initialTasks,
   setValue,
   onShiftTypeChange,
@@ -305,6 +312,22 @@ export function ShiftEditForm({
           />
         </Box>
 
+        {/* Portée de la modification (intervention récurrente) */}
+        {seriesScope && onSeriesScopeChange && (
+          <Box>
+            <SeriesScopeSelector
+              value={seriesScope}
+              onChange={onSeriesScopeChange}
+              legend="Appliquer la modification à :"
+            />
+            {seriesScope !== 'this' && (
+              <Text fontSize="xs" color="text.muted" mt={1}>
+                Les horaires et le type s'appliquent aux occurrences concernées ; la date reste celle de chaque occurrence.
+              </Text>
+            )}
+          </Box>
+        )}
+
         {/* Erreur de soumission */}
         {submitError && (
           <Box p={4} bg="red.50" borderRadius="10px">
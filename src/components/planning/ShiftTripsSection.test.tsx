@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { screen, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { renderWithProviders } from '@/test/helpers'
+import { createMockShift } from '@/test/fixtures'
+
+// ─── Mocks ──────────────────────────────────────────────────────────────────
+
+vi.mock('@/services/shiftTripService', () => ({
+  getShiftTrips: vi.fn(),
+  addShiftTrip: vi.fn(),
+  deleteShiftTrip: vi.fn(),
+}))
+
+vi.mock('@/services/conventionSettingsService', () => ({
+  getConventionSettings: vi.fn(),
+}))
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn(), debug: vi.fn() },
+}))
+
+// ─── Imports après mocks ──────────────────────────────────────────────────────
+
+import { addShiftTrip, getShiftTrips } from '@/services/shiftTripService'
+import { getConventionSettings } from '@/services/conventionSettingsService'
+import { ShiftTripsSection } from './ShiftTripsSection'
+import type { ShiftTrip } from '@/types'
+
+// ─── Fixtures ────────────────────────────────────────────────────────────────
+
+const shift = createMockShift({ id: 'shift-1', status: 'completed' })
+
+const trip: ShiftTrip = {
+  id: 'trip-1',
+  shiftId: 'shift-1',
+  contractId: 'contract-1',
+  employerId: 'employer-1',
+  employeeId: 'employee-1',
+  purpose: 'Pharmacie',
+  distanceKm: 10,
+  vehicle: 'employee',
+  createdBy: 'employee-1',
+  createdAt: new Date(2026, 2, 10),
+}
+
+const props = { shift, employerId: 'employer-1', userRole: 'employee' as const, profileId: 'employee-1' }
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  vi.mocked(getShiftTrips).mockResolvedValue([])
+  vi.mocked(getConventionSettings).mockResolvedValue({ mileageRate: 0.5 } as Awaited<ReturnType<typeof getConventionSettings>>)
+})
+
+// ─── Tests ───────────────────────────────────────────────────────────────────
+
+describe('ShiftTripsSection', () => {
+  it('enregistre un trajet et calcule l\'indemnité au taux de l\'employeur', async () => {
+    const user = userEvent.setup()
+    vi.mocked(addShiftTrip).mockResolvedValue(trip)
+
+    renderWithProviders(<ShiftTripsSection {...props} />)
+
+    await waitFor(() => expect(getConventionSettings).toHaveBeenCalledWith('employer-1'))
+    await user.type(screen.getByLabelText('Motif du trajet'), 'Pharmacie')
+    await user.type(screen.getByLabelText('Distance (km)'), '10')
+    await user.click(screen.getByRole('button', { name: 'Ajouter le trajet' }))
+
+    expect(addShiftTrip).toHaveBeenCalledWith('shift-1', { purpose: 'Pharmacie', distanceKm: 10, vehicle: 'employee' })
+    expect(await screen.findByText('5,00 €')).toBeInTheDocument()
+  })
+
+  it('n\'indemnise pas les trajets avec le véhicule du bénéficiaire', async () => {
+    vi.mocked(getShiftTrips).mockResolvedValue([{ ...trip, vehicle: 'beneficiary' }])
+
+    renderWithProviders(<ShiftTripsSection {...props} />)
+
+    expect(await screen.findByText('Pharmacie')).toBeInTheDocument()
+    expect(screen.getByText('0,00 €')).toBeInTheDocument()
+  })
+
+  it('reste en lecture seule pour un aidant', async () => {
+    vi.mocked(getShiftTrips).mockResolvedValue([trip])
+
+    renderWithProviders(<ShiftTripsSection {...props} userRole="caregiver" profileId="caregiver-1" />)
+
+    expect(await screen.findByText('Pharmacie')).toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: 'Ajouter le trajet' })).not.toBeInTheDocument()
+  })
+})
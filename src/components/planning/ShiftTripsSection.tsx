@@ -0,0 +1,198 @@
+/**
+ * Déplacements de l'intervention : motif, kilomètres (saisis à la main,
+ * y compris hors ligne) et véhicule utilisé. Les trajets avec le véhicule
+ * de l'auxiliaire ouvrent droit à l'indemnité kilométrique de l'employeur.
+ */
+
+import { useEffect, useState } from 'react'
+import { Box, Flex, Stack, Text } from '@chakra-ui/react'
+import { AccessibleButton, AccessibleInput } from '@/components/ui'
+import { addShiftTrip, deleteShiftTrip, getShiftTrips } from '@/services/shiftTripService'
+import { getConventionSettings } from '@/services/conventionSettingsService'
+import {
+  DEFAULT_MILEAGE_RATE,
+  TRIP_VEHICLE_LABELS,
+  formatKm,
+  isReimbursableTrip,
+  summarizeMileage,
+} from '@/lib/mileage/allowance'
+import { formatEuros } from '@/lib/shopping/expenses'
+import { sanitizeText } from '@/lib/sanitize'
+import { toaster } from '@/lib/toaster'
+import { logger } from '@/lib/logger'
+import type { Shift, ShiftTrip, TripVehicle, UserRole } from '@/types'
+
+const VEHICLES: TripVehicle[] = ['employee', 'beneficiary']
+
+interface ShiftTripsSectionProps {
+  shift: Shift
+  employerId: string
+  userRole: UserRole
+  profileId: string
+}
+
+export function ShiftTripsSection({ shift, employerId, userRole, profileId }: ShiftTripsSectionProps) {
+  const [trips, setTrips] = useState<ShiftTrip[]>([])
+  const [ratePerKm, setRatePerKm] = useState(DEFAULT_MILEAGE_RATE)
+  const [purpose, setPurpose] = useState('')
+  const [distance, setDistance] = useState('')
+  const [vehicle, setVehicle] = useState<TripVehicle>('employee')
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    Promise.all([getShiftTrips(shift.id), getConventionSettings(employerId)])
+      .then(([list, settings]) => {
+        if (cancelled) return
+        setTrips(list)
+        setRatePerKm(settings.mileageRate)
+      })
+      .catch((err) => logger.error('Erreur chargement trajets intervention:', err))
+    return () => {
+      cancelled = true
+    }
+  }, [shift.id, employerId])
+
+  const canRecord =
+    (userRole === 'employee' || userRole === 'employer') &&
+    shift.status !== 'cancelled' &&
+    shift.status !== 'absent'
+
+  const distanceKm = Number(distance.replace(',', '.'))
+  const isValid = purpose.trim().length > 0 && Number.isFinite(distanceKm) && distanceKm > 0 && distanceKm <= 1000
+  const summary = summarizeMileage(trips, ratePerKm)
+
+  const handleAdd = async () => {
+    if (!isValid) return
+    setIsSaving(true)
+    try {
+      const trip = await addShiftTrip(shift.id, { purpose, distanceKm, vehicle })
+      setTrips((prev) => [...prev, trip])
+      setPurpose('')
+      setDistance('')
+    } catch (err) {
+      toaster.error({
+        title: 'Erreur',
+        description: err instanceof Error ? err.message : "Impossible d'enregistrer le trajet.",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (trip: ShiftTrip) => {
+    try {
+      await deleteShiftTrip(trip.id)
+      setTrips((prev) => prev.filter((t) => t.id !== trip.id))
+    } catch (err) {
+      toaster.error({
+        title: 'Erreur',
+        description: err instanceof Error ? err.message : 'Impossible de supprimer le trajet.',
+      })
+    }
+  }
+
+  if (trips.length === 0 && !canRecord) return null
+
+  return (
+    <Box py={3} borderBottomWidth="1px" borderColor="border.default">
+      <Text fontSize="12px" color="text.muted" fontWeight="500" mb={2}>
+        Déplacements
+      </Text>
+
+      {trips.length > 0 && (
+        <Stack gap={1} mb={3}>
+          {trips.map((trip) => (
+            <Flex key={trip.id} align="center" gap={2}>
+              <Text fontSize="14px" flex="1">
+                {sanitizeText(trip.purpose)}
+                <Text as="span" fontSize="xs" color="text.muted" ml={1}>
+                  — {TRIP_VEHICLE_LABELS[trip.vehicle].toLowerCase()}
+                </Text>
+              </Text>
+              <Text fontSize="13px" fontWeight="600">{formatKm(trip.distanceKm)}</Text>
+              {trip.createdBy === profileId && canRecord && (
+                <AccessibleButton
+                  size="xs"
+                  variant="ghost"
+                  colorPalette="red"
+                  accessibleLabel={`Supprimer le trajet ${trip.purpose}`}
+                  onClick={() => handleDelete(trip)}
+                >
+                  ✕
+                </AccessibleButton>
+              )}
+            </Flex>
+          ))}
+          <Text fontSize="13px" color="text.muted" mt={1}>
+            Indemnité kilométrique : <Text as="span" fontWeight="700" color="text.default">{formatEuros(summary.amount)}</Text>
+            {summary.reimbursableKm > 0 && ` (${formatKm(summary.reimbursableKm)} × ${ratePerKm.toFixed(3).replace('.', ',')} €/km)`}
+          </Text>
+        </Stack>
+      )}
+
+      {canRecord && (
+        <Stack gap={2}>
+          <Flex gap={2} wrap="wrap">
+            <Box flex="2" minW="160px">
+              <AccessibleInput
+                label="Motif du trajet"
+                hideLabel
+                size="sm"
+                placeholder="Motif (pharmacie, rendez-vous…)"
+                value={purpose}
+                maxLength={200}
+                disabled={isSaving}
+                onChange={(e) => setPurpose(e.target.value)}
+              />
+            </Box>
+            <Box flex="1" minW="90px">
+              <AccessibleInput
+                label="Distance (km)"
+                hideLabel
+                size="sm"
+                type="number"
+                min={0}
+                step="0.1"
+                placeholder="km"
+                value={distance}
+                disabled={isSaving}
+                onChange={(e) => setDistance(e.target.value)}
+              />
+            </Box>
+          </Flex>
+          <Flex gap={1} wrap="wrap" align="center">
+            {VEHICLES.map((v) => (
+              <AccessibleButton
+                key={v}
+                size="xs"
+                variant={vehicle === v ? 'solid' : 'outline'}
+                colorPalette={vehicle === v ? 'brand' : 'gray'}
+                aria-pressed={vehicle === v}
+                disabled={isSaving}
+                onClick={() => setVehicle(v)}
+              >
+                {TRIP_VEHICLE_LABELS[v]}
+              </AccessibleButton>
+            ))}
+            <AccessibleButton
+              size="xs"
+              colorPalette="brand"
+              ml="auto"
+              loading={isSaving}
+              disabled={!isValid}
+              onClick={handleAdd}
+            >
+              Ajouter le trajet
+            </AccessibleButton>
+          </Flex>
+          {!isReimbursableTrip({ vehicle }) && (
+            <Text fontSize="xs" color="text.muted">
+              Trajet avec le véhicule du bénéficiaire : aucune indemnité kilométrique.
+            </Text>
+          )}
+        </Stack>
+      )}
+    </Box>
+  )
+}
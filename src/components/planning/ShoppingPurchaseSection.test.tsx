@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { screen, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { renderWithProviders } from '@/test/helpers'
+import { createMockShift } from '@/test/fixtures'
+import { COURSES_PREFIX } from '@/lib/constants/taskDefaults'
+
+// ─── Mocks ──────────────────────────────────────────────────────────────────
+
+vi.mock('@/services/shoppingExpenseService', () => ({
+  getShiftShoppingExpense: vi.fn(),
+  saveShiftShoppingExpense: vi.fn(),
+  uploadShoppingReceipt: vi.fn(),
+}))
+
+vi.mock('@/services/attachmentService', () => ({
+  getAttachmentUrl: vi.fn(),
+  validateAttachmentFile: vi.fn(() => ({ valid: true })),
+}))
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn(), debug: vi.fn() },
+}))
+
+// ─── Imports après mocks ──────────────────────────────────────────────────────
+
+import {
+  getShiftShoppingExpense,
+  saveShiftShoppingExpense,
+} from '@/services/shoppingExpenseService'
+import { ShoppingPurchaseSection } from './ShoppingPurchaseSection'
+import type { ShoppingExpense } from '@/types'
+
+// ─── Fixtures ────────────────────────────────────────────────────────────────
+
+const shift = createMockShift({
+  id: 'shift-1',
+  status: 'planned',
+  tasks: ['Courses', `${COURSES_PREFIX}Lait (Lactel) x2`, `${COURSES_PREFIX}Pain`],
+})
+
+const savedExpense: ShoppingExpense = {
+  id: 'exp-1',
+  shiftId: 'shift-1',
+  contractId: 'contract-1',
+  employerId: 'employer-1',
+  employeeId: 'employee-1',
+  items: [{ name: 'Lait', brand: 'Lactel', plannedQuantity: 2, quantity: 2, price: 2.4, bought: true }],
+  receipts: [],
+  amountAdvanced: 2.4,
+  reimbursedAt: new Date(2026, 3, 2),
+  createdAt: new Date(2026, 2, 10),
+  updatedAt: new Date(2026, 2, 10),
+}
+
+const props = { shift, employerId: 'employer-1', userRole: 'employee' as const, profileId: 'employee-1' }
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  vi.mocked(getShiftShoppingExpense).mockResolvedValue(null)
+})
+
+// ─── Tests ───────────────────────────────────────────────────────────────────
+
+describe('ShoppingPurchaseSection', () => {
+  it('calcule le montant avancé et enregistre les achats', async () => {
+    const user = userEvent.setup()
+    vi.mocked(saveShiftShoppingExpense).mockResolvedValue({ ...savedExpense, reimbursedAt: undefined })
+
+    renderWithProviders(<ShoppingPurchaseSection {...props} />)
+
+    await user.click(await screen.findByRole('button', { name: 'Lait acheté' }))
+    await user.type(screen.getByLabelText('Prix Lait'), '2.4')
+
+    expect(screen.getByText('2,40 €')).toBeInTheDocument()
+
+    await user.click(screen.getByRole('button', { name: 'Enregistrer' }))
+
+    await waitFor(() => {
+      expect(saveShiftShoppingExpense).toHaveBeenCalledWith(
+        'shift-1',
+        [
+          { name: 'Lait', brand: 'Lactel', plannedQuantity: 2, quantity: 2, price: 2.4, bought: true },
+          { name: 'Pain', brand: '', plannedQuantity: 1, quantity: 1, bought: false },
+        ],
+        []
+      )
+    })
+  })
+
+  it('passe en lecture seule une fois les frais remboursés', async () => {
+    vi.mocked(getShiftShoppingExpense).mockResolvedValue(savedExpense)
+
+    renderWithProviders(<ShoppingPurchaseSection {...props} />)
+
+    expect(await screen.findByText('Remboursé le 02/04/2026')).toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: 'Enregistrer' })).not.toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: 'Lait acheté' })).not.toBeInTheDocument()
+  })
+
+  it('ne s\'affiche pas sans liste de courses', async () => {
+    renderWithProviders(<ShoppingPurchaseSection {...props} shift={createMockShift({ tasks: ['Ménage'] })} />)
+
+    await waitFor(() => expect(getShiftShoppingExpense).toHaveBeenCalled())
+    expect(screen.queryByText('Achats')).not.toBeInTheDocument()
+  })
+})
@@ -0,0 +1,274 @@
+/**
+ * Courses de l'intervention : l'auxiliaire coche les articles achetés,
+ * saisit la quantité et le prix réels et photographie le ticket de caisse.
+ * Le montant avancé alimente le récapitulatif des frais de l'employeur.
+ *
+ * Rien n'est affiché sans liste de courses ni achat enregistré.
+ */
+
+import { useEffect, useRef, useState } from 'react'
+import { Box, Flex, Stack, Text } from '@chakra-ui/react'
+import { format } from 'date-fns'
+import { AccessibleButton, AccessibleInput } from '@/components/ui'
+import {
+  getShiftShoppingExpense,
+  saveShiftShoppingExpense,
+  uploadShoppingReceipt,
+} from '@/services/shoppingExpenseService'
+import { getAttachmentUrl, validateAttachmentFile } from '@/services/attachmentService'
+import { computeAmountAdvanced, formatEuros, mergePurchases } from '@/lib/shopping/expenses'
+import { sanitizeText } from '@/lib/sanitize'
+import { toaster } from '@/lib/toaster'
+import { logger } from '@/lib/logger'
+import type { Attachment, Shift, ShoppingExpense, ShoppingPurchase, UserRole } from '@/types'
+
+interface ShoppingPurchaseSectionProps {
+  shift: Shift
+  employerId: string
+  userRole: UserRole
+  profileId: string
+}
+
+function parseAmount(value: string): number | undefined {
+  if (value.trim() === '') return undefined
+  const parsed = Number(value.replace(',', '.'))
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined
+}
+
+export function ShoppingPurchaseSection({ shift, employerId, userRole, profileId }: ShoppingPurchaseSectionProps) {
+  const [expense, setExpense] = useState<ShoppingExpense | null>(null)
+  // Saisie en cours (null = valeurs enregistrées)
+  const [draftItems, setDraftItems] = useState<ShoppingPurchase[] | null>(null)
+  const [draftReceipts, setDraftReceipts] = useState<Attachment[] | null>(null)
+  const [isUploading, setIsUploading] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    getShiftShoppingExpense(shift.id)
+      .then((saved) => {
+        if (!cancelled) setExpense(saved)
+      })
+      .catch((err) => logger.error('Erreur chargement courses intervention:', err))
+    return () => {
+      cancelled = true
+    }
+  }, [shift.id])
+
+  const items = draftItems ?? mergePurchases(shift.tasks, expense?.items)
+  const receipts = draftReceipts ?? expense?.receipts ?? []
+  const amount = computeAmountAdvanced(items)
+  const isDirty = draftItems !== null || draftReceipts !== null
+
+  const canEdit =
+    userRole === 'employee' &&
+    shift.status !== 'cancelled' &&
+    shift.status !== 'absent' &&
+    !expense?.reimbursedAt
+
+  const updateItem = (index: number, patch: Partial<ShoppingPurchase>) => {
+    setDraftItems(items.map((item, i) => (i === index ? { ...item, ...patch } : item)))
+  }
+
+  const handleReceiptSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    const validation = validateAttachmentFile(file)
+    if (!validation.valid) {
+      toaster.error({ title: 'Ticket refusé', description: validation.error })
+      return
+    }
+
+    setIsUploading(true)
+    try {
+      const attachment = await uploadShoppingReceipt(employerId, profileId, file)
+      setDraftReceipts([...receipts, attachment])
+    } catch (err) {
+      logger.error('Erreur envoi ticket de caisse:', err)
+      toaster.error({
+        title: 'Erreur',
+        description: err instanceof Error ? err.message : "Impossible d'envoyer le ticket.",
+      })
+    } finally {
+      setIsUploading(false)
+    }
+  }
+
+  const openReceipt = async (receipt: Attachment) => {
+    const url = await getAttachmentUrl(receipt)
+    window.open(url, '_blank', 'noopener,noreferrer')
+  }
+
+  const save = async () => {
+    setIsSaving(true)
+    try {
+      const saved = await saveShiftShoppingExpense(shift.id, items, receipts)
+      setExpense(saved)
+      setDraftItems(null)
+      setDraftReceipts(null)
+      toaster.success({
+        title: 'Courses enregistrées',
+        description: `Montant avancé : ${formatEuros(saved.amountAdvanced)}`,
+      })
+    } catch (err) {
+      logger.error('Erreur enregistrement courses:', err)
+      toaster.error({
+        title: 'Erreur',
+        description: err instanceof Error ? err.message : "Impossible d'enregistrer les courses.",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (items.length === 0 && !expense) return null
+
+  return (
+    <Box py={3} borderBottomWidth="1px" borderColor="border.default">
+      <Flex justify="space-between" align="center" mb={2}>
+        <Text fontSize="12px" color="text.muted" fontWeight="500">
+          Achats
+        </Text>
+        {expense?.reimbursedAt && (
+          <Text fontSize="12px" fontWeight="600" color="green.600">
+            Remboursé le {format(expense.reimbursedAt, 'dd/MM/yyyy')}
+          </Text>
+        )}
+      </Flex>
+
+      <Stack gap={2}>
+        {items.map((item, index) => (
+          <Box key={`${item.name}|${item.brand}`} role="group" aria-label={item.name}>
+            <Flex align="center" gap={2} wrap="wrap">
+              {canEdit ? (
+                <AccessibleButton
+                  size="xs"
+                  variant={item.bought ? 'solid' : 'outline'}
+                  colorPalette={item.bought ? 'green' : 'gray'}
+                  aria-pressed={item.bought}
+                  accessibleLabel={`${item.name} acheté`}
+                  disabled={isSaving}
+                  onClick={() => updateItem(index, { bought: !item.bought })}
+                >
+                  {item.bought ? '✓ Acheté' : 'Acheté ?'}
+                </AccessibleButton>
+              ) : (
+                <Text fontSize="12px" fontWeight="600" color={item.bought ? 'green.600' : 'text.muted'}>
+                  {item.bought ? '✓' : '—'}
+                </Text>
+              )}
+              <Text fontSize="14px" flex="1" minW="120px">
+                {sanitizeText(item.name)}
+                {item.brand && (
+                  <Text as="span" fontSize="xs" fontStyle="italic" ml={1}>
+                    {sanitizeText(item.brand)}
+                  </Text>
+                )}
+                {item.plannedQuantity > 0 && (
+                  <Text as="span" fontSize="xs" color="text.muted" ml={1}>
+                    (prévu x{item.plannedQuantity})
+                  </Text>
+                )}
+              </Text>
+              {!canEdit && item.bought && (
+                <Text fontSize="13px" color="text.muted">
+                  x{item.quantity}
+                  {item.price != null && ` · ${formatEuros(item.price)}`}
+                </Text>
+              )}
+            </Flex>
+            {canEdit && item.bought && (
+              <Flex gap={2} mt={1} ml={1}>
+                <Box w="90px">
+                  <AccessibleInput
+                    label={`Quantité ${item.name}`}
+                    hideLabel
+                    type="number"
+                    min={0}
+                    size="sm"
+                    value={item.quantity}
+                    disabled={isSaving}
+                    onChange={(e) => updateItem(index, { quantity: Math.max(0, Number(e.target.value) || 0) })}
+                  />
+                </Box>
+                <Box w="120px">
+                  <AccessibleInput
+                    label={`Prix ${item.name}`}
+                    hideLabel
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    size="sm"
+                    placeholder="Prix €"
+                    value={item.price ?? ''}
+                    disabled={isSaving}
+                    onChange={(e) => updateItem(index, { price: parseAmount(e.target.value) })}
+                  />
+                </Box>
+              </Flex>
+            )}
+          </Box>
+        ))}
+      </Stack>
+
+      {/* Tickets de caisse */}
+      {(receipts.length > 0 || canEdit) && (
+        <Flex gap={2} mt={3} align="center" wrap="wrap">
+          {receipts.map((receipt) => (
+            <AccessibleButton
+              key={receipt.id}
+              size="xs"
+              variant="ghost"
+              accessibleLabel={`Voir le ticket ${receipt.name}`}
+              onClick={() => openReceipt(receipt)}
+            >
+              🧾 {receipt.name}
+            </AccessibleButton>
+          ))}
+          {canEdit && (
+            <>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="image/jpeg,image/png,image/webp,application/pdf"
+                capture="environment"
+                style={{ display: 'none' }}
+                onChange={handleReceiptSelect}
+                aria-label="Photographier le ticket de caisse"
+              />
+              <AccessibleButton
+                size="xs"
+                variant="outline"
+                loading={isUploading}
+                disabled={isSaving}
+                onClick={() => fileInputRef.current?.click()}
+              >
+                📷 Ajouter un ticket
+              </AccessibleButton>
+            </>
+          )}
+        </Flex>
+      )}
+
+      <Flex justify="space-between" align="center" mt={3}>
+        <Text fontSize="14px">
+          Montant avancé : <Text as="span" fontWeight="700">{formatEuros(amount)}</Text>
+        </Text>
+        {canEdit && (
+          <AccessibleButton
+            size="xs"
+            colorPalette="brand"
+            loading={isSaving}
+            disabled={!isDirty || isUploading}
+            onClick={save}
+          >
+            Enregistrer
+          </AccessibleButton>
+        )}
+      </Flex>
+    </Box>
+  )
+}
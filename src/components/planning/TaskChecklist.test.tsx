@@ -0,0 +1,56 @@
+import { describe, it, expect, vi } from 'vitest'
+import { screen, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { renderWithProviders } from '@/test/helpers'
+import { TaskChecklist } from './TaskChecklist'
+import type { ShiftTaskCompletion } from '@/types'
+
+const TASKS = ['Aide au lever', 'Courses', '[courses]Lait x2']
+
+const notDone: ShiftTaskCompletion = {
+  task: 'Courses',
+  status: 'not_done',
+  reason: 'Manque de temps',
+  comment: 'À faire demain matin',
+  completedAt: new Date(2026, 2, 10, 11, 45),
+  completedBy: 'employee-1',
+}
+
+describe('TaskChecklist', () => {
+  it('affiche la réalisation en lecture seule', () => {
+    renderWithProviders(<TaskChecklist tasks={TASKS} completions={[notDone]} />)
+
+    expect(screen.queryByText('[courses]Lait x2')).not.toBeInTheDocument()
+    expect(screen.getByText('1/2 tâches revues')).toBeInTheDocument()
+    const courses = screen.getByRole('group', { name: 'Courses' })
+    expect(within(courses).getByText('Non faite')).toBeInTheDocument()
+    expect(within(courses).getByText('à 11:45')).toBeInTheDocument()
+    expect(within(courses).getByText('Manque de temps')).toBeInTheDocument()
+    expect(within(courses).getByText('À faire demain matin')).toBeInTheDocument()
+    expect(within(screen.getByRole('group', { name: 'Aide au lever' })).getByText('Non renseignée')).toBeInTheDocument()
+    expect(screen.queryByRole('button')).not.toBeInTheDocument()
+  })
+
+  it('exige un motif pour une tâche non faite', async () => {
+    const onChange = vi.fn()
+    const user = userEvent.setup()
+
+    const { rerender } = renderWithProviders(
+      <TaskChecklist tasks={TASKS} completions={[]} authorId="employee-1" onChange={onChange} />
+    )
+    await user.click(within(screen.getByRole('group', { name: 'Courses' })).getByRole('button', { name: 'Non faite' }))
+
+    const [completions] = onChange.mock.calls[0]
+    expect(completions).toEqual([
+      expect.objectContaining({ task: 'Courses', status: 'not_done', reason: undefined, completedBy: 'employee-1' }),
+    ])
+
+    rerender(<TaskChecklist tasks={TASKS} completions={completions} authorId="employee-1" onChange={onChange} />)
+    expect(screen.getByText('Indiquez un motif')).toBeInTheDocument()
+
+    await user.click(screen.getByRole('button', { name: 'Refus de la personne aidée' }))
+    expect(onChange).toHaveBeenLastCalledWith([
+      expect.objectContaining({ task: 'Courses', status: 'not_done', reason: 'Refus de la personne aidée' }),
+    ])
+  })
+})
@@ -0,0 +1,174 @@
+/**
+ * Check-list des tâches prévues d'une intervention : l'auxiliaire indique
+ * pour chacune si elle a été faite, ou pourquoi elle ne l'a pas été.
+ *
+ * Sans `onChange`, la check-list est en lecture seule (employeur, aidant).
+ */
+
+import { Badge, Box, Flex, Stack, Text } from '@chakra-ui/react'
+import { format } from 'date-fns'
+import { AccessibleButton, AccessibleInput } from '@/components/ui'
+import {
+  findTaskCompletion,
+  getChecklistTasks,
+  isTaskReviewed,
+  summarizeChecklist,
+  TASK_NOT_DONE_REASONS,
+  TASK_STATUS_LABELS,
+  upsertTaskCompletion,
+} from '@/lib/shifts/taskChecklist'
+import { sanitizeText } from '@/lib/sanitize'
+import type { ShiftTaskCompletion, TaskCompletionStatus } from '@/types'
+
+const STATUSES: TaskCompletionStatus[] = ['done', 'not_done']
+
+const STATUS_PALETTES: Record<TaskCompletionStatus, string> = {
+  done: 'green',
+  not_done: 'orange',
+}
+
+interface TaskChecklistProps {
+  tasks: string[]
+  completions: ShiftTaskCompletion[] | undefined
+  /** Profil de l'auxiliaire qui renseigne la check-list */
+  authorId?: string
+  onChange?: (completions: ShiftTaskCompletion[]) => void
+  disabled?: boolean
+}
+
+export function TaskChecklist({ tasks, completions, authorId, onChange, disabled }: TaskChecklistProps) {
+  const checklist = getChecklistTasks(tasks)
+  const summary = summarizeChecklist(tasks, completions)
+  const isEditable = !!onChange && !!authorId
+
+  if (checklist.length === 0) return null
+
+  const update = (task: string, patch: Partial<ShiftTaskCompletion>) => {
+    if (!onChange || !authorId) return
+    const current = findTaskCompletion(completions, task)
+    const status = patch.status ?? current?.status ?? 'done'
+    const next: ShiftTaskCompletion = {
+      task,
+      status,
+      reason: status === 'not_done' ? (patch.reason ?? current?.reason) : undefined,
+      comment: patch.comment ?? current?.comment,
+      // L'horodatage reste celui du premier pointage tant que le statut ne change pas
+      completedAt: current?.status === status ? current.completedAt : new Date(),
+      completedBy: authorId,
+    }
+    onChange(upsertTaskCompletion(tasks, completions, next))
+  }
+
+  return (
+    <Box>
+      <Text fontSize="12px" color={summary.pending > 0 ? 'orange.600' : 'text.muted'} mb={2} aria-live="polite">
+        {summary.total - summary.pending}/{summary.total} tâche{summary.total > 1 ? 's' : ''} revue{summary.total > 1 ? 's' : ''}
+      </Text>
+      <Stack gap={3}>
+        {checklist.map((task) => {
+          const completion = findTaskCompletion(completions, task)
+          const reviewed = isTaskReviewed(completion)
+          return (
+            <Box key={task} role="group" aria-label={task}>
+              <Flex align="center" gap={2} wrap="wrap">
+                <Text fontSize="14px" fontWeight="500">{sanitizeText(task)}</Text>
+                {!isEditable && (
+                  reviewed ? (
+                    <Badge size="sm" colorPalette={STATUS_PALETTES[completion!.status]}>
+                      {TASK_STATUS_LABELS[completion!.status]}
+                    </Badge>
+                  ) : (
+                    <Badge size="sm" colorPalette="gray">Non renseignée</Badge>
+                  )
+                )}
+                {reviewed && (
+                  <Text fontSize="12px" color="text.muted">
+                    à {format(completion!.completedAt, 'HH:mm')}
+                  </Text>
+                )}
+              </Flex>
+
+              {isEditable && (
+                <Flex gap={1} mt={2} wrap="wrap">
+                  {STATUSES.map((status) => (
+                    <AccessibleButton
+                      key={status}
+                      size="xs"
+                      variant={completion?.status === status ? 'solid' : 'outline'}
+                      colorPalette={completion?.status === status ? STATUS_PALETTES[status] : 'gray'}
+                      aria-pressed={completion?.status === status}
+                      disabled={disabled}
+                      onClick={() => update(task, { status })}
+                    >
+                      {TASK_STATUS_LABELS[status]}
+                    </AccessibleButton>
+                  ))}
+                </Flex>
+              )}
+
+              {completion?.status === 'not_done' && (
+                isEditable ? (
+                  <Stack gap={2} mt={2} pl={3} borderLeftWidth="2px" borderColor="orange.200">
+                    <Flex gap={1} wrap="wrap">
+                      {TASK_NOT_DONE_REASONS.map((reason) => (
+                        <AccessibleButton
+                          key={reason}
+                          size="xs"
+                          variant={completion.reason === reason ? 'solid' : 'ghost'}
+                          colorPalette={completion.reason === reason ? 'orange' : 'gray'}
+                          aria-pressed={completion.reason === reason}
+                          disabled={disabled}
+                          onClick={() => update(task, { reason })}
+                        >
+                          {reason}
+                        </AccessibleButton>
+                      ))}
+                    </Flex>
+                    <AccessibleInput
+                      // Remonté quand un motif proposé est choisi, pour refléter la nouvelle valeur
+                      key={`reason-${completion.reason ?? ''}`}
+                      label={`Motif — ${task}`}
+                      hideLabel
+                      placeholder="Pourquoi cette tâche n'a-t-elle pas été faite ?"
+                      maxLength={200}
+                      defaultValue={completion.reason ?? ''}
+                      error={reviewed ? undefined : 'Indiquez un motif'}
+                      disabled={disabled}
+                      onBlur={(e) => {
+                        if (e.target.value !== (completion.reason ?? '')) update(task, { reason: e.target.value })
+                      }}
+                    />
+                  </Stack>
+                ) : completion.reason ? (
+                  <Text fontSize="12px" color="orange.700" mt="2px">
+                    {sanitizeText(completion.reason)}
+                  </Text>
+                ) : null
+              )}
+
+              {isEditable && completion ? (
+                <Box mt={2}>
+                  <AccessibleInput
+                    label={`Commentaire — ${task}`}
+                    hideLabel
+                    placeholder="Commentaire (facultatif)"
+                    maxLength={300}
+                    defaultValue={completion.comment ?? ''}
+                    disabled={disabled}
+                    onBlur={(e) => {
+                      if (e.target.value !== (completion.comment ?? '')) update(task, { comment: e.target.value })
+                    }}
+                  />
+                </Box>
+              ) : completion?.comment ? (
+                <Text fontSize="12px" color="text.muted" mt="2px" fontStyle="italic">
+                  {sanitizeText(completion.comment)}
+                </Text>
+              ) : null}
+            </Box>
+          )
+        })}
+      </Stack>
+    </Box>
+  )
+}
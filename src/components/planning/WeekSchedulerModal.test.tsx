@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { screen, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { renderWithProviders } from '@/test/helpers'
+import type { CoverageWindow, Employer } from '@/types'
+import type { WeekSchedulePreview } from '@/services/schedulerService'
+
+// ─── Mocks ──────────────────────────────────────────────────────────────────
+
+vi.mock('@/services/profileService', () => ({
+  getEmployer: vi.fn(),
+  updateEmployerCoverageWindows: vi.fn(),
+}))
+
+vi.mock('@/services/schedulerService', () => ({
+  previewWeekSchedule: vi.fn(),
+  commitWeekSchedule: vi.fn(),
+}))
+
+// ─── Imports après mocks ──────────────────────────────────────────────────────
+
+import { getEmployer, updateEmployerCoverageWindows } from '@/services/profileService'
+import { previewWeekSchedule, commitWeekSchedule } from '@/services/schedulerService'
+import { WeekSchedulerModal } from './WeekSchedulerModal'
+
+// ─── Fixtures ────────────────────────────────────────────────────────────────
+
+// Lundi 9 mars 2026
+const MONDAY = new Date(2026, 2, 9)
+
+const night: CoverageWindow = { dayOfWeek: 1, startTime: '21:00', endTime: '07:00', shiftType: 'presence_night' }
+const morning: CoverageWindow = { dayOfWeek: 2, startTime: '08:00', endTime: '12:00', shiftType: 'effective' }
+
+const preview: WeekSchedulePreview = {
+  shifts: [
+    {
+      contractId: 'contract-marie',
+      employeeId: 'marie',
+      employeeName: 'Marie Curie',
+      date: new Date(2026, 2, 9),
+      startTime: '21:00',
+      endTime: '07:00',
+      breakDuration: 0,
+      shiftType: 'presence_night',
+      availability: 'full',
+      computedPay: {
+        basePay: 42, sundayMajoration: 0, holidayMajoration: 0,
+        nightMajoration: 0, overtimeMajoration: 0, presenceResponsiblePay: 0,
+        nightPresenceAllowance: 0, totalPay: 42,
+      },
+      estimatedCost: 60,
+      warnings: [],
+    },
+  ],
+  uncovered: [
+    {
+      window: morning,
+      date: new Date(2026, 2, 10),
+      summary: 'Aucun auxiliaire disponible ne respecte les contraintes',
+      reasons: [{ employeeId: 'marie', name: 'Marie Curie', reason: 'Repos quotidien insuffisant' }],
+    },
+  ],
+  totalHours: 0,
+  estimatedCost: 60,
+  envelopes: { '2026-03': 1200 },
+}
+
+const defaultProps = {
+  isOpen: true,
+  onClose: vi.fn(),
+  employerId: 'employer-1',
+  weekStart: MONDAY,
+  onSuccess: vi.fn(),
+}
+
+// ─── Setup ───────────────────────────────────────────────────────────────────
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  vi.mocked(getEmployer).mockResolvedValue({ coverageWindows: [night, morning] } as Employer)
+  vi.mocked(updateEmployerCoverageWindows).mockResolvedValue(undefined)
+  vi.mocked(previewWeekSchedule).mockResolvedValue(preview)
+  vi.mocked(commitWeekSchedule).mockResolvedValue({ created: 1, failed: [] })
+})
+
+// ─── Tests ───────────────────────────────────────────────────────────────────
+
+describe('WeekSchedulerModal', () => {
+  it('reprend les créneaux enregistrés de l\'employeur', async () => {
+    renderWithProviders(<WeekSchedulerModal {...defaultProps} />)
+
+    expect(await screen.findByLabelText('Début du créneau 1')).toHaveValue('21:00')
+    expect(screen.getByLabelText('Type du créneau 1')).toHaveValue('presence_night')
+    expect(screen.getByLabelText('Jour du créneau 2')).toHaveValue('2')
+    expect(getEmployer).toHaveBeenCalledWith('employer-1')
+  })
+
+  it('enregistre les créneaux et affiche la proposition avec les créneaux non couverts', async () => {
+    const user = userEvent.setup()
+    renderWithProviders(<WeekSchedulerModal {...defaultProps} />)
+
+    await user.click(await screen.findByRole('button', { name: 'Supprimer le créneau 2' }))
+    await user.click(screen.getByRole('button', { name: 'Proposer un planning' }))
+
+    expect(updateEmployerCoverageWindows).toHaveBeenCalledWith('employer-1', [night])
+    expect(previewWeekSchedule).toHaveBeenCalledWith('employer-1', MONDAY, [night])
+    expect(await screen.findByText('Marie Curie')).toBeInTheDocument()
+    expect(screen.getByText('Créneaux non couverts')).toBeInTheDocument()
+    expect(screen.getByText('Aucun auxiliaire disponible ne respecte les contraintes')).toBeInTheDocument()
+    expect(screen.getByText('Marie Curie : Repos quotidien insuffisant')).toBeInTheDocument()
+    expect(screen.getByText(/enveloppe PCH mensuelle : 1.200 €/)).toBeInTheDocument()
+  })
+
+  it('crée les interventions proposées après confirmation', async () => {
+    const user = userEvent.setup()
+    const onSuccess = vi.fn()
+    renderWithProviders(<WeekSchedulerModal {...defaultProps} onSuccess={onSuccess} />)
+
+    await user.click(await screen.findByRole('button', { name: 'Proposer un planning' }))
+    await user.click(await screen.findByRole('button', { name: 'Créer 1 intervention' }))
+
+    await waitFor(() => {
+      expect(commitWeekSchedule).toHaveBeenCalledWith(preview.shifts)
+      expect(onSuccess).toHaveBeenCalledTimes(1)
+    })
+  })
+})
@@ -0,0 +1,310 @@
+/**
+ * « Générer ma semaine » : l'employeur décrit les créneaux à couvrir chaque
+ * semaine (nuits comprises), puis prévisualise le planning proposé à partir
+ * des disponibilités de ses auxiliaires, avant de l'enregistrer.
+ * Les créneaux non couverts sont listés avec le motif de chaque refus.
+ */
+import { useState, useEffect, useCallback } from 'react'
+import { Box, Stack, Flex, Text, Input, NativeSelect, Spinner, Center } from '@chakra-ui/react'
+import { format } from 'date-fns'
+import { fr } from 'date-fns/locale'
+import { AccessibleButton, GhostButton, PrimaryButton, StatusPill } from '@/components/ui'
+import { PlanningModal } from './PlanningModal'
+import { SHIFT_TYPE_LABELS } from './shiftTypeLabels'
+import { getEmployer, updateEmployerCoverageWindows } from '@/services/profileService'
+import { previewWeekSchedule, commitWeekSchedule, type WeekSchedulePreview } from '@/services/schedulerService'
+import { toaster } from '@/lib/toaster'
+import { logger } from '@/lib/logger'
+import type { CoverageWindow } from '@/types'
+
+interface WeekSchedulerModalProps {
+  isOpen: boolean
+  onClose: () => void
+  employerId: string
+  /** Lundi de la semaine à générer */
+  weekStart: Date
+  onSuccess: () => void
+}
+
+/** Jours dans l'ordre de la semaine (lundi → dimanche), `getDay()` */
+const WEEK_DAYS = [
+  { value: 1, label: 'Lundi' },
+  { value: 2, label: 'Mardi' },
+  { value: 3, label: 'Mercredi' },
+  { value: 4, label: 'Jeudi' },
+  { value: 5, label: 'Vendredi' },
+  { value: 6, label: 'Samedi' },
+  { value: 0, label: 'Dimanche' },
+]
+
+const WINDOW_TYPES: CoverageWindow['shiftType'][] = ['effective', 'presence_day', 'presence_night']
+
+const NEW_WINDOW: CoverageWindow = { dayOfWeek: 1, startTime: '08:00', endTime: '12:00', shiftType: 'effective' }
+
+function formatEuros(amount: number): string {
+  return `${Math.round(amount).toLocaleString('fr-FR')} €`
+}
+
+/** Enveloppe PCH de chaque mois de la semaine (clé `yyyy-MM`) */
+function formatEnvelopes(envelopes: Record<string, number>): string {
+  const entries = Object.entries(envelopes)
+  if (entries.length === 1) return `enveloppe PCH mensuelle : ${formatEuros(entries[0][1])}`
+  return `enveloppes PCH : ${entries
+    .map(([key, amount]) => `${format(new Date(`${key}-01T00:00:00`), 'MMMM', { locale: fr })} ${formatEuros(amount)}`)
+    .join(', ')}`
+}
+
+export function WeekSchedulerModal({
+  isOpen,
+  onClose,
+  employerId,
+  weekStart,
+  onSuccess,
+}: WeekSchedulerModalProps) {
+  const [windows, setWindows] = useState<CoverageWindow[]>([])
+  const [preview, setPreview] = useState<WeekSchedulePreview | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isGenerating, setIsGenerating] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const loadWindows = useCallback(async () => {
+    setIsLoading(true)
+    setPreview(null)
+    try {
+      const employer = await getEmployer(employerId)
+      setWindows(employer?.coverageWindows ?? [])
+    } catch (error) {
+      logger.error('Erreur chargement créneaux de couverture:', error)
+      setWindows([])
+    } finally {
+      setIsLoading(false)
+    }
+  }, [employerId])
+
+  useEffect(() => {
+    if (isOpen) loadWindows()
+  }, [isOpen, loadWindows])
+
+  const updateWindow = (index: number, changes: Partial<CoverageWindow>) => {
+    setWindows((prev) => prev.map((w, i) => (i === index ? { ...w, ...changes } : w)))
+  }
+
+  const handleGenerate = async () => {
+    setIsGenerating(true)
+    try {
+      await updateEmployerCoverageWindows(employerId, windows)
+      setPreview(await previewWeekSchedule(employerId, weekStart, windows))
+    } catch (error) {
+      toaster.error({
+        title: 'Génération impossible',
+        description: error instanceof Error ? error.message : 'Erreur lors de la génération du planning',
+      })
+    } finally {
+      setIsGenerating(false)
+    }
+  }
+
+  const handleConfirm = async () => {
+    if (!preview) return
+    setIsSubmitting(true)
+    try {
+      const { created, failed } = await commitWeekSchedule(preview.shifts)
+      if (failed.length > 0) {
+        toaster.create({
+          title: `${created} intervention${created > 1 ? 's' : ''} créée${created > 1 ? 's' : ''}`,
+          description: `${failed.length} intervention${failed.length > 1 ? 's' : ''} n'${failed.length > 1 ? 'ont' : 'a'} pas pu être créée${failed.length > 1 ? 's' : ''}.`,
+          type: 'warning',
+        })
+      } else {
+        toaster.success({ title: `${created} intervention${created > 1 ? 's' : ''} planifiée${created > 1 ? 's' : ''}` })
+      }
+      onSuccess()
+      onClose()
+    } catch (error) {
+      toaster.error({
+        title: 'Enregistrement impossible',
+        description: error instanceof Error ? error.message : 'Erreur lors de la création des interventions',
+      })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const weekLabel = `Semaine du ${format(weekStart, 'd MMMM yyyy', { locale: fr })}`
+
+  const footer = preview ? (
+    <Flex justify="space-between" w="full" gap={3}>
+      <GhostButton onClick={() => setPreview(null)} disabled={isSubmitting}>
+        Modifier les créneaux
+      </GhostButton>
+      <PrimaryButton
+        onClick={handleConfirm}
+        loading={isSubmitting}
+        disabled={preview.shifts.length === 0}
+      >
+        Créer {preview.shifts.length} intervention{preview.shifts.length > 1 ? 's' : ''}
+      </PrimaryButton>
+    </Flex>
+  ) : (
+    <Flex justify="flex-end" w="full" gap={3}>
+      <GhostButton onClick={onClose}>Annuler</GhostButton>
+      <PrimaryButton onClick={handleGenerate} loading={isGenerating} disabled={windows.length === 0}>
+        Proposer un planning
+      </PrimaryButton>
+    </Flex>
+  )
+
+  return (
+    <PlanningModal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Générer ma semaine"
+      subtitle={weekLabel}
+      large
+      footer={footer}
+    >
+      {isLoading ? (
+        <Center py={8}>
+          <Spinner size="lg" color="brand.500" />
+        </Center>
+      ) : preview ? (
+        <Stack gap={5}>
+          <Box bg="bg.page" borderRadius="12px" p={4}>
+            <Text fontSize="sm" fontWeight="semibold">
+              {preview.shifts.length} intervention{preview.shifts.length > 1 ? 's' : ''} proposée{preview.shifts.length > 1 ? 's' : ''} · {preview.totalHours}h effectives
+            </Text>
+            <Text fontSize="xs" color="text.muted">
+              Coût employeur estimé : {formatEuros(preview.estimatedCost)}
+              {preview.envelopes && ` · ${formatEnvelopes(preview.envelopes)}`}
+            </Text>
+          </Box>
+
+          {preview.shifts.length > 0 && (
+            <Stack gap={2}>
+              {preview.shifts.map((shift) => (
+                <Flex
+                  key={`${shift.date.toISOString()}-${shift.startTime}`}
+                  align="center"
+                  gap={3}
+                  wrap="wrap"
+                  borderWidth="1px"
+                  borderColor="border.default"
+                  borderRadius="10px"
+                  px={3}
+                  py={2}
+                >
+                  <Box flex={1} minW="180px">
+                    <Text fontSize="sm" fontWeight="medium" textTransform="capitalize">
+                      {format(shift.date, 'EEEE d MMMM', { locale: fr })} · {shift.startTime}–{shift.endTime}
+                    </Text>
+                    <Text fontSize="xs" color="text.muted">{SHIFT_TYPE_LABELS[shift.shiftType]}</Text>
+                    {shift.warnings.length > 0 && (
+                      <Text fontSize="xs" color="warm.600">{shift.warnings[0].message}</Text>
+                    )}
+                  </Box>
+                  <StatusPill variant={shift.availability === 'full' ? 'success' : 'pending'} size="sm">
+                    {shift.employeeName}
+                  </StatusPill>
+                </Flex>
+              ))}
+            </Stack>
+          )}
+
+          {preview.uncovered.length > 0 && (
+            <Box>
+              <Text fontWeight="semibold" mb={2}>Créneaux non couverts</Text>
+              <Stack gap={3}>
+                {preview.uncovered.map((slot) => (
+                  <Box
+                    key={`${slot.date.toISOString()}-${slot.window.startTime}`}
+                    borderWidth="1px"
+                    borderColor="danger.200"
+                    borderRadius="10px"
+                    px={3}
+                    py={2}
+                  >
+                    <Text fontSize="sm" fontWeight="medium" textTransform="capitalize">
+                      {format(slot.date, 'EEEE d MMMM', { locale: fr })} · {slot.window.startTime}–{slot.window.endTime}
+                    </Text>
+                    <Text fontSize="xs" color="danger.500">{slot.summary}</Text>
+                    {slot.reasons.map((r) => (
+                      <Text key={r.employeeId} fontSize="xs" color="text.muted">
+                        {r.name} : {r.reason}
+                      </Text>
+                    ))}
+                  </Box>
+                ))}
+              </Stack>
+            </Box>
+          )}
+        </Stack>
+      ) : (
+        <Stack gap={3}>
+          <Text fontSize="sm" color="text.muted">
+            Indiquez les créneaux à couvrir chaque semaine. Ils sont attribués aux auxiliaires
+            disponibles dans le respect de la convention collective et de votre enveloppe PCH.
+          </Text>
+
+          {windows.map((window, index) => (
+            <Flex key={index} gap={2} align="center" wrap="wrap">
+              <NativeSelect.Root size="sm" width="auto" minW="120px">
+                <NativeSelect.Field
+                  value={window.dayOfWeek}
+                  onChange={(e) => updateWindow(index, { dayOfWeek: Number(e.target.value) })}
+                  aria-label={`Jour du créneau ${index + 1}`}
+                >
+                  {WEEK_DAYS.map((day) => (
+                    <option key={day.value} value={day.value}>{day.label}</option>
+                  ))}
+                </NativeSelect.Field>
+                <NativeSelect.Indicator />
+              </NativeSelect.Root>
+              <Input
+                type="time"
+                size="sm"
+                width="auto"
+                value={window.startTime}
+                onChange={(e) => updateWindow(index, { startTime: e.target.value })}
+                aria-label={`Début du créneau ${index + 1}`}
+              />
+              <Input
+                type="time"
+                size="sm"
+                width="auto"
+                value={window.endTime}
+                onChange={(e) => updateWindow(index, { endTime: e.target.value })}
+                aria-label={`Fin du créneau ${index + 1}`}
+              />
+              <NativeSelect.Root size="sm" width="auto" minW="200px" flex={1}>
+                <NativeSelect.Field
+                  value={window.shiftType}
+                  onChange={(e) => updateWindow(index, { shiftType: e.target.value as CoverageWindow['shiftType'] })}
+                  aria-label={`Type du créneau ${index + 1}`}
+                >
+                  {WINDOW_TYPES.map((type) => (
+                    <option key={type} value={type}>{SHIFT_TYPE_LABELS[type]}</option>
+                  ))}
+                </NativeSelect.Field>
+                <NativeSelect.Indicator />
+              </NativeSelect.Root>
+              <AccessibleButton
+                size="sm"
+                variant="ghost"
+                onClick={() => setWindows((prev) => prev.filter((_, i) => i !== index))}
+                accessibleLabel={`Supprimer le créneau ${index + 1}`}
+              >
+                ×
+              </AccessibleButton>
+            </Flex>
+          ))}
+
+          <Box>
+            <GhostButton onClick={() => setWindows((prev) => [...prev, NEW_WINDOW])}>
+              + Ajouter un créneau
+            </GhostButton>
+          </Box>
+        </Stack>
+      )}
+    </PlanningModal>
+  )
+}
@@ -5,6 +5,8 @@ export { NewShiftModal } from './NewShiftModal'
 export { ShiftDetailModal } from './ShiftDetailModal'
 export { AbsenceRequestModal } from './AbsenceRequestModal'
 export { AbsenceDetailModal } from './AbsenceDetailModal'
+export { ReplacementFinderModal } from './ReplacementFinderModal'
+export { WeekSchedulerModal } from './WeekSchedulerModal'
 export { PresenceResponsibleDaySection } from './PresenceResponsibleDaySection'
 export { PresenceResponsibleNightSection } from './PresenceResponsibleNightSection'
 export { NightActionToggle } from './NightActionToggle'
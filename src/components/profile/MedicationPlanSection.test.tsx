@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { screen, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { renderWithProviders } from '@/test/helpers'
+
+// ─── Mocks ──────────────────────────────────────────────────────────────────
+
+vi.mock('@/hooks/useHealthConsent', () => ({
+  useHealthConsent: vi.fn(),
+}))
+
+vi.mock('@/services/medicationService', () => ({
+  getMedications: vi.fn(),
+  saveMedication: vi.fn(),
+  archiveMedication: vi.fn(),
+}))
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn(), debug: vi.fn() },
+}))
+
+// ─── Imports après mocks ──────────────────────────────────────────────────────
+
+import { useHealthConsent } from '@/hooks/useHealthConsent'
+import { archiveMedication, getMedications, saveMedication } from '@/services/medicationService'
+import { MedicationPlanSection } from './MedicationPlanSection'
+import type { Medication } from '@/types'
+
+// ─── Fixtures ────────────────────────────────────────────────────────────────
+
+const medication: Medication = {
+  id: 'med-1',
+  employerId: 'employer-1',
+  name: 'Kardégic',
+  dose: '75 mg',
+  times: ['08:00', '20:00'],
+  startDate: new Date(2026, 0, 1),
+  createdAt: new Date(2026, 0, 1),
+  updatedAt: new Date(2026, 0, 1),
+}
+
+function mockConsent(hasConsent: boolean) {
+  vi.mocked(useHealthConsent).mockReturnValue({
+    hasConsent,
+    loading: false,
+    grantedAt: hasConsent ? '2026-01-01T00:00:00Z' : null,
+    grantConsent: vi.fn(),
+    revokeConsent: vi.fn(),
+    recheckConsent: vi.fn(),
+  })
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+})
+
+// ─── Tests ───────────────────────────────────────────────────────────────────
+
+describe('MedicationPlanSection', () => {
+  it('demande le consentement santé avant toute saisie', () => {
+    mockConsent(false)
+
+    renderWithProviders(<MedicationPlanSection employerId="employer-1" />)
+
+    expect(screen.getByText('Consentement requis')).toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: 'Ajouter un médicament' })).not.toBeInTheDocument()
+    expect(getMedications).not.toHaveBeenCalled()
+  })
+
+  it('liste les traitements en cours et permet d\'en arrêter un', async () => {
+    mockConsent(true)
+    vi.mocked(getMedications).mockResolvedValue([medication])
+    vi.mocked(archiveMedication).mockResolvedValue()
+    const user = userEvent.setup()
+
+    renderWithProviders(<MedicationPlanSection employerId="employer-1" />)
+
+    expect(await screen.findByText('Kardégic — 75 mg')).toBeInTheDocument()
+    expect(screen.getByText('08:00 · 20:00')).toBeInTheDocument()
+
+    await user.click(screen.getByRole('button', { name: 'Arrêter Kardégic' }))
+    expect(archiveMedication).toHaveBeenCalledWith('med-1')
+    await waitFor(() => {
+      expect(screen.queryByText('Kardégic — 75 mg')).not.toBeInTheDocument()
+    })
+  })
+
+  it('ajoute un médicament au plan', async () => {
+    mockConsent(true)
+    vi.mocked(getMedications).mockResolvedValue([])
+    vi.mocked(saveMedication).mockResolvedValue('med-2')
+    const user = userEvent.setup()
+
+    renderWithProviders(<MedicationPlanSection employerId="employer-1" />)
+
+    await user.click(await screen.findByRole('button', { name: 'Ajouter un médicament' }))
+    await user.click(screen.getByRole('button', { name: 'Enregistrer' }))
+    expect(screen.getByText('Le nom du médicament est requis.')).toBeInTheDocument()
+
+    await user.type(screen.getByLabelText(/médicament/i), 'Doliprane')
+    await user.type(screen.getByLabelText(/dose/i), '1 g')
+    await user.click(screen.getByRole('button', { name: 'Enregistrer' }))
+
+    await waitFor(() => {
+      expect(saveMedication).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'Doliprane', dose: '1 g', times: ['08:00'] }),
+        undefined
+      )
+    })
+    expect(getMedications).toHaveBeenCalledTimes(2)
+  })
+})
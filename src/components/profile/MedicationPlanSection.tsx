@@ -0,0 +1,383 @@
+/**
+ * Section "Plan de prise" du profil employeur : médicaments, doses,
+ * horaires et consignes, pointés par l'auxiliaire à chaque intervention.
+ *
+ * Donnée de santé : la section reste verrouillée tant que le consentement
+ * art. 9 RGPD n'a pas été donné (même règle que les informations médicales).
+ */
+
+import { useEffect, useState } from 'react'
+import { Box, Center, Flex, Spinner, Stack, Text } from '@chakra-ui/react'
+import { format } from 'date-fns'
+import { fr } from 'date-fns/locale'
+import { AccessibleButton, AccessibleInput, GhostButton, PrimaryButton } from '@/components/ui'
+import { useHealthConsent } from '@/hooks/useHealthConsent'
+import {
+  archiveMedication,
+  getMedications,
+  saveMedication,
+  type MedicationInput,
+} from '@/services/medicationService'
+import { isValidDoseTime, normalizeDoseTimes } from '@/lib/medication/schedule'
+import { sanitizeText } from '@/lib/sanitize'
+import { logger } from '@/lib/logger'
+import { HealthDataConsentModal } from './HealthDataConsentModal'
+import type { Medication } from '@/types'
+
+interface MedicationPlanSectionProps {
+  employerId: string
+}
+
+interface MedicationFormState {
+  name: string
+  dose: string
+  instructions: string
+  times: string[]
+  startDate: string
+  endDate: string
+}
+
+function emptyForm(): MedicationFormState {
+  return {
+    name: '',
+    dose: '',
+    instructions: '',
+    times: ['08:00'],
+    startDate: format(new Date(), 'yyyy-MM-dd'),
+    endDate: '',
+  }
+}
+
+function formFromMedication(medication: Medication): MedicationFormState {
+  return {
+    name: medication.name,
+    dose: medication.dose,
+    instructions: medication.instructions ?? '',
+    times: medication.times,
+    startDate: format(medication.startDate, 'yyyy-MM-dd'),
+    endDate: medication.endDate ? format(medication.endDate, 'yyyy-MM-dd') : '',
+  }
+}
+
+function validateForm(form: MedicationFormState): string | null {
+  if (!form.name.trim()) return 'Le nom du médicament est requis.'
+  if (!form.dose.trim()) return 'La dose est requise.'
+  if (!form.times.some(isValidDoseTime)) return 'Indiquez au moins un horaire de prise.'
+  if (!form.startDate) return 'La date de début est requise.'
+  if (form.endDate && form.endDate < form.startDate) return 'La date de fin précède la date de début.'
+  return null
+}
+
+function toInput(form: MedicationFormState): MedicationInput {
+  return {
+    name: form.name,
+    dose: form.dose,
+    instructions: form.instructions.trim() || undefined,
+    times: normalizeDoseTimes(form.times),
+    startDate: new Date(`${form.startDate}T00:00:00`),
+    endDate: form.endDate ? new Date(`${form.endDate}T00:00:00`) : undefined,
+  }
+}
+
+function MedicationForm({
+  initial,
+  onSubmit,
+  onCancel,
+}: {
+  initial: MedicationFormState
+  onSubmit: (input: MedicationInput) => Promise<void>
+  onCancel: () => void
+}) {
+  const [form, setForm] = useState(initial)
+  const [error, setError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const update = (patch: Partial<MedicationFormState>) => setForm((prev) => ({ ...prev, ...patch }))
+
+  const handleSubmit = async () => {
+    const validationError = validateForm(form)
+    if (validationError) {
+      setError(validationError)
+      return
+    }
+    setError(null)
+    setIsSaving(true)
+    try {
+      await onSubmit(toInput(form))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Impossible d\'enregistrer le médicament.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Stack gap={4} p={4} bg="bg.page" borderRadius="10px">
+      <Flex gap={4} direction={{ base: 'column', md: 'row' }}>
+        <Box flex={2}>
+          <AccessibleInput
+            label="Médicament"
+            placeholder="Ex : Kardégic"
+            maxLength={120}
+            required
+            value={form.name}
+            onChange={(e) => update({ name: e.target.value })}
+          />
+        </Box>
+        <Box flex={1}>
+          <AccessibleInput
+            label="Dose"
+            placeholder="Ex : 75 mg, 1 comprimé"
+            maxLength={60}
+            required
+            value={form.dose}
+            onChange={(e) => update({ dose: e.target.value })}
+          />
+        </Box>
+      </Flex>
+
+      <Box as="fieldset">
+        <Text as="legend" fontWeight="medium" fontSize="md" mb={2}>
+          Horaires de prise
+        </Text>
+        <Flex gap={2} wrap="wrap" align="flex-end">
+          {form.times.map((time, index) => (
+            <Flex key={index} align="flex-end" gap={1}>
+              <AccessibleInput
+                label={`Horaire ${index + 1}`}
+                hideLabel
+                type="time"
+                w="120px"
+                value={time}
+                onChange={(e) => update({ times: form.times.map((t, i) => (i === index ? e.target.value : t)) })}
+              />
+              {form.times.length > 1 && (
+                <AccessibleButton
+                  size="sm"
+                  variant="ghost"
+                  accessibleLabel={`Retirer l'horaire ${index + 1}`}
+                  onClick={() => update({ times: form.times.filter((_, i) => i !== index) })}
+                >
+                  ✕
+                </AccessibleButton>
+              )}
+            </Flex>
+          ))}
+          <AccessibleButton
+            size="sm"
+            variant="outline"
+            onClick={() => update({ times: [...form.times, '12:00'] })}
+          >
+            + Horaire
+          </AccessibleButton>
+        </Flex>
+      </Box>
+
+      <AccessibleInput
+        label="Consignes"
+        placeholder="Ex : pendant le repas, écraser le comprimé"
+        maxLength={300}
+        value={form.instructions}
+        onChange={(e) => update({ instructions: e.target.value })}
+      />
+
+      <Flex gap={4} direction={{ base: 'column', md: 'row' }}>
+        <Box flex={1}>
+          <AccessibleInput
+            label="Début du traitement"
+            type="date"
+            required
+            value={form.startDate}
+            onChange={(e) => update({ startDate: e.target.value })}
+          />
+        </Box>
+        <Box flex={1}>
+          <AccessibleInput
+            label="Fin du traitement"
+            type="date"
+            helperText="Laisser vide pour un traitement au long cours"
+            value={form.endDate}
+            onChange={(e) => update({ endDate: e.target.value })}
+          />
+        </Box>
+      </Flex>
+
+      {error && (
+        <Text fontSize="sm" color="red.600">{error}</Text>
+      )}
+
+      <Flex gap={2} justify="flex-end">
+        <GhostButton onClick={onCancel} disabled={isSaving}>
+          Annuler
+        </GhostButton>
+        <PrimaryButton onClick={handleSubmit} loading={isSaving}>
+          Enregistrer
+        </PrimaryButton>
+      </Flex>
+    </Stack>
+  )
+}
+
+export function MedicationPlanSection({ employerId }: MedicationPlanSectionProps) {
+  const { hasConsent, loading: consentLoading, grantConsent } = useHealthConsent()
+  const [showConsentModal, setShowConsentModal] = useState(false)
+  const [medications, setMedications] = useState<Medication[] | null>(null)
+  // 'new' : ajout en cours ; identifiant : modification de ce médicament
+  const [editing, setEditing] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [refreshKey, setRefreshKey] = useState(0)
+
+  useEffect(() => {
+    if (!hasConsent) return
+    let cancelled = false
+    getMedications(employerId).then((result) => {
+      if (!cancelled) setMedications(result)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [employerId, hasConsent, refreshKey])
+
+  const handleSave = async (input: MedicationInput) => {
+    await saveMedication(input, editing === 'new' ? undefined : editing ?? undefined)
+    setEditing(null)
+    setRefreshKey((k) => k + 1)
+  }
+
+  const handleArchive = async (medication: Medication) => {
+    setError(null)
+    try {
+      await archiveMedication(medication.id)
+      setMedications((prev) => prev?.filter((m) => m.id !== medication.id) ?? null)
+    } catch (err) {
+      logger.error('Erreur arrêt traitement:', err)
+      setError('Impossible d\'arrêter ce traitement.')
+    }
+  }
+
+  return (
+    <Box bg="bg.surface" borderRadius="12px" borderWidth="1px" borderColor="border.default" p={6}>
+      <Flex justify="space-between" align="center" mb={2} gap={4}>
+        <Text fontSize="xl" fontWeight="semibold">
+          Traitements en cours
+        </Text>
+        {hasConsent && editing === null && (
+          <AccessibleButton size="sm" colorPalette="brand" onClick={() => setEditing('new')}>
+            Ajouter un médicament
+          </AccessibleButton>
+        )}
+      </Flex>
+      <Text fontSize="sm" color="text.muted" mb={5}>
+        Les prises prévues s&apos;affichent dans chaque intervention pour que l&apos;auxiliaire
+        les pointe. Une prise manquée vous est signalée immédiatement.
+      </Text>
+
+      {consentLoading ? (
+        <Center py={6}><Spinner size="sm" /></Center>
+      ) : !hasConsent ? (
+        <Box
+          p={5}
+          bg="orange.50"
+          borderRadius="10px"
+          borderWidth="1px"
+          borderColor="orange.200"
+          textAlign="center"
+        >
+          <Text fontSize="sm" color="orange.800" mb={1} fontWeight="600">
+            Consentement requis
+          </Text>
+          <Text fontSize="sm" color="orange.700" mb={4} lineHeight="1.6">
+            Votre traitement est une donnée de santé : sa saisie et son partage avec
+            votre équipe nécessitent votre consentement explicite (article 9 du RGPD).
+          </Text>
+          <AccessibleButton
+            colorPalette="orange"
+            size="sm"
+            onClick={() => setShowConsentModal(true)}
+          >
+            Donner mon consentement
+          </AccessibleButton>
+        </Box>
+      ) : medications === null ? (
+        <Center py={6}><Spinner size="sm" /></Center>
+      ) : (
+        <Stack gap={3}>
+          {editing === 'new' && (
+            <MedicationForm initial={emptyForm()} onSubmit={handleSave} onCancel={() => setEditing(null)} />
+          )}
+
+          {medications.length === 0 && editing !== 'new' && (
+            <Text fontSize="sm" color="text.muted">
+              Aucun médicament dans le plan de prise.
+            </Text>
+          )}
+
+          {medications.map((medication) =>
+            editing === medication.id ? (
+              <MedicationForm
+                key={medication.id}
+                initial={formFromMedication(medication)}
+                onSubmit={handleSave}
+                onCancel={() => setEditing(null)}
+              />
+            ) : (
+              <Flex
+                key={medication.id}
+                justify="space-between"
+                align="flex-start"
+                gap={4}
+                py={3}
+                borderBottomWidth="1px"
+                borderColor="border.default"
+                _last={{ borderBottomWidth: 0 }}
+              >
+                <Box minW={0}>
+                  <Text fontWeight="600">
+                    {sanitizeText(medication.name)} — {sanitizeText(medication.dose)}
+                  </Text>
+                  <Text fontSize="sm" color="text.default">
+                    {medication.times.join(' · ')}
+                  </Text>
+                  {medication.instructions && (
+                    <Text fontSize="sm" color="text.muted">{sanitizeText(medication.instructions)}</Text>
+                  )}
+                  <Text fontSize="xs" color="text.muted" mt={1}>
+                    {medication.endDate
+                      ? `Du ${format(medication.startDate, 'd MMM yyyy', { locale: fr })} au ${format(medication.endDate, 'd MMM yyyy', { locale: fr })}`
+                      : `Depuis le ${format(medication.startDate, 'd MMM yyyy', { locale: fr })}`}
+                  </Text>
+                </Box>
+                {editing === null && (
+                  <Flex gap={1} flexShrink={0}>
+                    <AccessibleButton size="xs" variant="outline" onClick={() => setEditing(medication.id)}>
+                      Modifier
+                    </AccessibleButton>
+                    <AccessibleButton
+                      size="xs"
+                      variant="outline"
+                      colorPalette="red"
+                      accessibleLabel={`Arrêter ${medication.name}`}
+                      onClick={() => handleArchive(medication)}
+                    >
+                      Arrêter
+                    </AccessibleButton>
+                  </Flex>
+                )}
+              </Flex>
+            )
+          )}
+
+          {error && (
+            <Text fontSize="sm" color="red.600">{error}</Text>
+          )}
+        </Stack>
+      )}
+
+      <HealthDataConsentModal
+        isOpen={showConsentModal}
+        onClose={() => setShowConsentModal(false)}
+        onConsent={grantConsent}
+      />
+    </Box>
+  )
+}
@@ -51,6 +51,10 @@ vi.mock('@/components/profile/ProfileSidebar', () => ({
   ProfileSidebar: () => <div data-testid="profile-sidebar" />,
 }))
 
+vi.mock('@/components/profile/MedicationPlanSection', () => ({
+  MedicationPlanSection: () => <div data-testid="medication-plan-section" />,
+}))
+
 vi.mock('@/hooks/useAuth', () => ({
   useAuth: vi.fn(),
 }))
@@ -7,6 +7,7 @@ import { ProfileHero } from './ProfileHero'
 import { ProfileJumpNav } from './ProfileJumpNav'
 import { ProfileViewList } from './ProfileViewList'
 import { ProfileSidebar } from './ProfileSidebar'
+import { MedicationPlanSection } from './MedicationPlanSection'
 import {
   PersonalInfoSection,
   EmployerSection,
@@ -121,6 +122,7 @@ export function ProfilePage() {
     ...(userRole === 'employer'
       ? [
           { id: 'section-situation', label: 'Ma situation' },
+          { id: 'section-traitement', label: 'Plan de prise' },
           { id: 'section-urgence', label: "Contacts d'urgence" },
         ]
       : userRole === 'employee'
@@ -199,6 +201,11 @@ export function ProfilePage() {
                   )}
                 </Box>
 
+                <Box id="section-traitement" scrollMarginTop="140px">
+                  <SectionTitle>Plan de prise</SectionTitle>
+                  <MedicationPlanSection employerId={profile.id} />
+                </Box>
+
                 <Box id="section-urgence" scrollMarginTop="140px">
                   <SectionTitle>Contacts d&apos;urgence</SectionTitle>
                   {isEditing ? (
@@ -6,7 +6,8 @@ import { Box, Stack, Flex, Text, Switch, Collapsible } from '@chakra-ui/react'
 import { AccessibleInput, AccessibleButton, AccessibleSelect } from '@/components/ui'
 import { logger } from '@/lib/logger'
 import type { Employer, EmergencyContact, PchType } from '@/types'
-import { PCH_TYPE_LABELS, PCH_TARIFFS_2026, calcEnveloppePch } from '@/lib/pch/pchTariffs'
+import { getPchTypeLabels, getPchTariffs, calcEnveloppePch } from '@/lib/pch/pchTariffs'
+import { useRegulatoryParameters } from '@/hooks/useRegulatoryParameters'
 import { useHealthConsent } from '@/hooks/useHealthConsent'
 import { HealthDataConsentModal } from '@/components/profile/HealthDataConsentModal'
 
@@ -29,10 +30,12 @@ const handicapCategories = [
   { value: 'autre', label: 'Autre' },
 ]
 
-const pchTypeOptions = [
-  { value: '', label: 'Sélectionnez un type' },
-  ...Object.entries(PCH_TYPE_LABELS).map(([value, label]) => ({ value, label })),
-]
+function getPchTypeOptions() {
+  return [
+    { value: '', label: 'Sélectionnez un type' },
+    ...Object.entries(getPchTypeLabels()).map(([value, label]) => ({ value, label })),
+  ]
+}
 
 const employerSchema = z.object({
   address: addressSchema,
@@ -80,6 +83,7 @@ const defaultEmployer: Partial<Employer> = {
 }
 
 export function EmployerSection({ employer = defaultEmployer as Employer, onSave, section = 'all' }: EmployerSectionProps) {
+  useRegulatoryParameters()
   const [isLoading, setIsLoading] = useState(false)
   const [successMessage, setSuccessMessage] = useState<string | null>(null)
   const [formError, setFormError] = useState<string | null>(null)
@@ -119,7 +123,8 @@ export function EmployerSection({ employer = defaultEmployer as Employer, onSave
   const pchType = watch('pchType') as PchType | ''
   const pchMonthlyHours = watch('pchMonthlyHours')
 
-  const pchRate = pchType && pchType in PCH_TARIFFS_2026 ? PCH_TARIFFS_2026[pchType as PchType] : null
+  const pchTariffs = getPchTariffs()
+  const pchRate = pchType && pchType in pchTariffs ? pchTariffs[pchType as PchType] : null
   const pchEnveloppe =
     pchRate && pchMonthlyHours
       ? calcEnveloppePch(pchMonthlyHours, pchType as PchType)
@@ -381,7 +386,7 @@ export function EmployerSection({ employer = defaultEmployer as Employer, onSave
 
               <AccessibleSelect
                 label="Type de dispositif PCH"
-                options={pchTypeOptions}
+                options={getPchTypeOptions()}
                 helperText="Détermine le tarif horaire de référence"
                 {...register('pchType')}
               />
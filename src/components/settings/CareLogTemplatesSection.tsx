@@ -0,0 +1,69 @@
+/**
+ * Section "Fiches de suivi" dans Paramètres > Interventions : modèles
+ * structurés proposés dans le cahier de liaison (repas, hydratation…).
+ */
+
+import { useEffect, useState } from 'react'
+import { Card, Center, Spinner, Text } from '@chakra-ui/react'
+import { useAuth } from '@/hooks/useAuth'
+import { getCareLogTemplates, updateCareLogTemplates } from '@/services/logbookService'
+import { CARE_TEMPLATES, CARE_TEMPLATE_IDS } from '@/lib/logbook/careTemplates'
+import { logger } from '@/lib/logger'
+import { ToggleRow } from './SettingsShared'
+import type { CareTemplateId } from '@/types'
+
+export function CareLogTemplatesSection() {
+  const { profile } = useAuth()
+  const [enabled, setEnabled] = useState<CareTemplateId[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!profile?.id) return
+    getCareLogTemplates(profile.id).then(setEnabled)
+  }, [profile?.id])
+
+  const toggle = async (id: CareTemplateId, checked: boolean) => {
+    if (!profile?.id || !enabled) return
+    const previous = enabled
+    // Conserve l'ordre de référence des modèles
+    const next = CARE_TEMPLATE_IDS.filter((t) => (t === id ? checked : enabled.includes(t)))
+    setEnabled(next)
+    setError(null)
+    try {
+      await updateCareLogTemplates(profile.id, next)
+    } catch (err) {
+      logger.error('Erreur sauvegarde fiches de suivi:', err)
+      setEnabled(previous)
+      setError('Impossible d\'enregistrer la modification.')
+    }
+  }
+
+  return (
+    <Card.Root borderRadius="md" borderWidth="1px" borderColor="border.default" boxShadow="sm">
+      <Card.Header px={4} py={3} borderBottomWidth="1px" borderColor="border.default">
+        <Card.Title fontFamily="heading" fontSize="lg" fontWeight="700">Fiches de suivi</Card.Title>
+        <Text fontSize="sm" color="text.muted" mt={1}>
+          Observations structurées proposées dans le cahier de liaison et suivies en graphiques.
+        </Text>
+      </Card.Header>
+      <Card.Body px={4} py={1}>
+        {enabled === null ? (
+          <Center py={6}><Spinner size="sm" /></Center>
+        ) : (
+          CARE_TEMPLATE_IDS.map((id) => (
+            <ToggleRow
+              key={id}
+              label={CARE_TEMPLATES[id].label}
+              description={CARE_TEMPLATES[id].fields.map((f) => f.label).join(', ')}
+              checked={enabled.includes(id)}
+              onChange={(checked) => toggle(id, checked)}
+            />
+          ))
+        )}
+        {error && (
+          <Text fontSize="sm" color="red.600" py={2}>{error}</Text>
+        )}
+      </Card.Body>
+    </Card.Root>
+  )
+}
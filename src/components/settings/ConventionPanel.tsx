@@ -10,15 +10,20 @@ import {
   Field,
   Spinner,
   Center,
+  NativeSelect,
 } from '@chakra-ui/react'
 import { GhostButton } from '@/components/ui'
 import { useConventionSettings } from '@/hooks/useConventionSettings'
+import { MILEAGE_RATE_PRESETS } from '@/lib/mileage/allowance'
+import { LEAVE_CARRY_OVER_POLICY_LABELS } from '@/lib/absence'
+import type { LeaveCarryOverPolicy } from '@/types'
 import { PanelHeader, ToggleRow } from './SettingsShared'
 
 export function ConventionPanel() {
   const {
     ruleBreak, ruleDailyMax, ruleOvertime, ruleNight,
-    majDimanche, majFerie, majNuit, majSupp,
+    majDimanche, majFerie, majNuit, majSupp, mileageRate,
+    leaveCarryOverPolicy, leaveCarryOverCap,
     isLoading, updateSettings, resetToDefaults,
   } = useConventionSettings()
 
@@ -99,6 +104,67 @@ export function ConventionPanel() {
         </Card.Body>
       </Card.Root>
 
+      <Card.Root borderRadius="md" borderWidth="1px" borderColor="border.default" boxShadow="sm">
+        <Card.Header px={4} py={3} borderBottomWidth="1px" borderColor="border.default">
+          <Card.Title fontFamily="heading" fontSize="lg" fontWeight="700">Frais de déplacement</Card.Title>
+          <Text fontSize="sm" color="text.muted">Trajets faits pour vous avec le véhicule de l'auxiliaire, remboursés hors salaire.</Text>
+        </Card.Header>
+        <Card.Body p={4}>
+          <Grid templateColumns={{ base: '1fr', md: '1fr 1fr' }} gap={4}>
+            <Field.Root>
+              <Field.Label>Barème fiscal (jusqu'à 5 000 km/an)</Field.Label>
+              <NativeSelect.Root>
+                <NativeSelect.Field
+                  value={MILEAGE_RATE_PRESETS.find((p) => p.rate === mileageRate)?.rate ?? ''}
+                  onChange={(e) => { if (e.target.value) updateSettings({ mileageRate: Number(e.target.value) }) }}
+                >
+                  <option value="">Taux personnalisé</option>
+                  {MILEAGE_RATE_PRESETS.map((p) => (
+                    <option key={p.rate} value={p.rate}>{p.label} — {p.rate.toFixed(3).replace('.', ',')} €/km</option>
+                  ))}
+                </NativeSelect.Field>
+                <NativeSelect.Indicator />
+              </NativeSelect.Root>
+            </Field.Root>
+            <Field.Root>
+              <Field.Label>Indemnité kilométrique (€/km)</Field.Label>
+              <Input type="number" min={0} max={5} step={0.001} value={mileageRate} onChange={(e) => updateSettings({ mileageRate: Math.max(0, Number(e.target.value)) })} />
+            </Field.Root>
+          </Grid>
+        </Card.Body>
+      </Card.Root>
+
+      <Card.Root borderRadius="md" borderWidth="1px" borderColor="border.default" boxShadow="sm">
+        <Card.Header px={4} py={3} borderBottomWidth="1px" borderColor="border.default">
+          <Card.Title fontFamily="heading" fontSize="lg" fontWeight="700">Congés payés</Card.Title>
+          <Text fontSize="sm" color="text.muted">Au 1er juin, l'année de congés est clôturée : les jours de fractionnement sont crédités et le reliquat traité selon votre choix.</Text>
+        </Card.Header>
+        <Card.Body p={4}>
+          <Grid templateColumns={{ base: '1fr', md: '1fr 1fr' }} gap={4}>
+            <Field.Root>
+              <Field.Label>Reliquat non pris</Field.Label>
+              <NativeSelect.Root>
+                <NativeSelect.Field
+                  value={leaveCarryOverPolicy}
+                  onChange={(e) => updateSettings({ leaveCarryOverPolicy: e.target.value as LeaveCarryOverPolicy })}
+                >
+                  {(Object.keys(LEAVE_CARRY_OVER_POLICY_LABELS) as LeaveCarryOverPolicy[]).map((policy) => (
+                    <option key={policy} value={policy}>{LEAVE_CARRY_OVER_POLICY_LABELS[policy]}</option>
+                  ))}
+                </NativeSelect.Field>
+                <NativeSelect.Indicator />
+              </NativeSelect.Root>
+            </Field.Root>
+            {leaveCarryOverPolicy === 'capped' && (
+              <Field.Root>
+                <Field.Label>Plafond de report (jours)</Field.Label>
+                <Input type="number" min={0} max={30} step={0.5} value={leaveCarryOverCap} onChange={(e) => updateSettings({ leaveCarryOverCap: Math.min(30, Math.max(0, Number(e.target.value))) })} />
+              </Field.Root>
+            )}
+          </Grid>
+        </Card.Body>
+      </Card.Root>
+
       <HStack gap={2} align="center">
         <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={2} width={14} height={14} aria-hidden="true" style={{ flexShrink: 0 }}><rect x="3" y="3" width="18" height="18" rx="2" /><path d="M3 9h18M9 21V9" /></svg>
         <Text fontSize="sm" color="text.muted">Tous les paramètres sont sauvegardés automatiquement et synchronisés avec votre compte.</Text>
@@ -15,6 +15,7 @@ import { useInterventionSettings } from '@/hooks/useInterventionSettings'
 import { ShoppingListTemplatesSection } from '@/components/profile/ShoppingListTemplatesSection'
 import { DEFAULT_TASKS } from '@/lib/constants/taskDefaults'
 import { PanelHeader } from './SettingsShared'
+import { CareLogTemplatesSection } from './CareLogTemplatesSection'
 
 export function InterventionsPanel() {
   const {
@@ -146,6 +147,8 @@ export function InterventionsPanel() {
       </Card.Root>
 
       <ShoppingListTemplatesSection />
+
+      <CareLogTemplatesSection />
     </VStack>
   )
 }
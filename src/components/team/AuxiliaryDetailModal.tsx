@@ -16,17 +16,18 @@ import {
 } from '@chakra-ui/react'
 import { format } from 'date-fns'
 import { fr } from 'date-fns/locale'
-import { AccessibleButton, AccessibleInput } from '@/components/ui'
+import { AccessibleButton } from '@/components/ui'
 import { logger } from '@/lib/logger'
 import { toaster } from '@/lib/toaster'
 import {
   getAuxiliaryDetails,
-  updateContract,
-  terminateContract,
   suspendContract,
   resumeContract,
   type AuxiliaryWithDetails,
 } from '@/services/auxiliaryService'
+import { TerminateContractWizard } from './TerminateContractWizard'
+import { ContractAmendmentsSection } from './ContractAmendmentsSection'
+import { ContractLeaveHistorySection } from './ContractLeaveHistorySection'
 
 interface AuxiliaryDetailModalProps {
   isOpen: boolean
@@ -44,67 +45,38 @@ export function AuxiliaryDetailModal({
   const [details, setDetails] = useState<AuxiliaryWithDetails | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [activeTab, setActiveTab] = useState('info')
-  const [isEditing, setIsEditing] = useState(false)
-  const [isSaving, setIsSaving] = useState(false)
-  const [isTerminating, setIsTerminating] = useState(false)
-  const [confirmTerminate, setConfirmTerminate] = useState(false)
+  const [showTermination, setShowTermination] = useState(false)
+  const [isTerminated, setIsTerminated] = useState(false)
   const [isSuspending, setIsSuspending] = useState(false)
   const [isResuming, setIsResuming] = useState(false)
 
-  // Valeurs d'édition
-  const [weeklyHours, setWeeklyHours] = useState(0)
-  const [hourlyRate, setHourlyRate] = useState(0)
-
   useEffect(() => {
     if (isOpen && contractId) {
       setIsLoading(true)
       getAuxiliaryDetails(contractId)
-        .then((data) => {
-          setDetails(data)
-          if (data) {
-            setWeeklyHours(data.contract.weeklyHours)
-            setHourlyRate(data.contract.hourlyRate)
-          }
-        })
+        .then((data) => setDetails(data))
         .finally(() => setIsLoading(false))
     }
   }, [isOpen, contractId])
 
-  const handleSave = async () => {
-    if (!details) return
+  const handleAmended = async () => {
+    // Recharger les données (conditions reportées sur le contrat)
+    const updated = await getAuxiliaryDetails(contractId)
+    setDetails(updated)
+    onUpdate()
+  }
 
-    setIsSaving(true)
-    try {
-      await updateContract(contractId, {
-        weeklyHours,
-        hourlyRate,
-      })
-      // Recharger les données
-      const updated = await getAuxiliaryDetails(contractId)
-      setDetails(updated)
-      setIsEditing(false)
-      toaster.success({ title: 'Contrat mis à jour' })
-      onUpdate()
-    } catch (error) {
-      logger.error('Erreur mise à jour:', error)
-      toaster.error({ title: 'Erreur lors de la mise à jour du contrat' })
-    } finally {
-      setIsSaving(false)
-    }
+  const handleTerminated = () => {
+    setIsTerminated(true)
+    toaster.success({ title: 'Contrat résilié' })
+    onUpdate()
   }
 
-  const handleTerminate = async () => {
-    setIsTerminating(true)
-    try {
-      await terminateContract(contractId)
-      toaster.success({ title: 'Contrat résilié' })
-      onUpdate()
+  const handleTerminationClose = () => {
+    setShowTermination(false)
+    if (isTerminated) {
+      setIsTerminated(false)
       onClose()
-    } catch (error) {
-      logger.error('Erreur résiliation:', error)
-      toaster.error({ title: 'Erreur lors de la résiliation' })
-    } finally {
-      setIsTerminating(false)
     }
   }
 
@@ -290,85 +262,13 @@ export function AuxiliaryDetailModal({
 
                       {/* Onglet Contrat */}
                       <Tabs.Content value="contract">
-                        <Stack gap={4}>
-                          {isEditing ? (
-                            <>
-                              <AccessibleInput
-                                label="Heures/semaine"
-                                type="number"
-                                value={weeklyHours}
-                                onChange={(e) => setWeeklyHours(Number(e.target.value))}
-                              />
-                              <AccessibleInput
-                                label="Taux horaire brut (€)"
-                                type="number"
-                                step="0.01"
-                                value={hourlyRate}
-                                onChange={(e) => setHourlyRate(Number(e.target.value))}
-                              />
-
-                              <Flex gap={3}>
-                                <AccessibleButton
-                                  flex={1}
-                                  variant="ghost"
-                                  color="brand.500"
-                                  onClick={() => {
-                                    setIsEditing(false)
-                                    setWeeklyHours(details.contract.weeklyHours)
-                                    setHourlyRate(details.contract.hourlyRate)
-                                  }}
-                                  disabled={isSaving}
-                                >
-                                  Annuler
-                                </AccessibleButton>
-                                <AccessibleButton
-                                  flex={1}
-                                  bg="brand.500"
-                                  color="white"
-                                  _hover={{ bg: 'brand.600' }}
-                                  onClick={handleSave}
-                                  loading={isSaving}
-                                >
-                                  Enregistrer
-                                </AccessibleButton>
-                              </Flex>
-                            </>
-                          ) : (
-                            <>
-                              <InfoRow
-                                label="Type de contrat"
-                                value={details.contract.contractType}
-                              />
-                              <InfoRow
-                                label="Heures hebdomadaires"
-                                value={`${details.contract.weeklyHours}h`}
-                              />
-                              <InfoRow
-                                label="Taux horaire brut"
-                                value={`${details.contract.hourlyRate}€`}
-                              />
-                              <InfoRow
-                                label="Salaire mensuel estimé"
-                                value={`${(
-                                  details.contract.weeklyHours *
-                                  4.33 *
-                                  details.contract.hourlyRate
-                                ).toFixed(2)}€ brut`}
-                              />
-
-                              {isActive && (
-                                <AccessibleButton
-                                  variant="outline"
-                                  borderColor="border.default"
-                                  color="brand.500"
-                                  _hover={{ bg: 'bg.page' }}
-                                  onClick={() => setIsEditing(true)}
-                                >
-                                  Modifier le contrat
-                                </AccessibleButton>
-                              )}
-                            </>
-                          )}
+                        <Stack gap={6}>
+                          <ContractAmendmentsSection
+                            contract={details.contract}
+                            canAmend={isActive}
+                            onAmended={handleAmended}
+                          />
+                          <ContractLeaveHistorySection contract={details.contract} />
                         </Stack>
                       </Tabs.Content>
 
@@ -413,90 +313,62 @@ export function AuxiliaryDetailModal({
             {/* Footer avec actions */}
             {details && (isActive || isSuspended) && (
               <Dialog.Footer p={6} borderTopWidth="1px" borderColor="border.default">
-                {confirmTerminate ? (
-                  <Stack gap={3} w="full">
-                    <Box p={4} bg="danger.subtle" borderRadius="10px" borderWidth="1px" borderColor="danger.100">
-                      <Text color="danger.500" fontWeight={600} fontSize="sm">
-                        Êtes-vous sûr de vouloir mettre fin à ce contrat ?
-                      </Text>
-                      <Text color="danger.600" fontSize="xs" mt={1}>
-                        Cette action marquera le contrat comme terminé à la date
-                        d'aujourd'hui.
-                      </Text>
-                    </Box>
-                    <Flex gap={3}>
-                      <AccessibleButton
-                        flex={1}
-                        variant="ghost"
-                        onClick={() => setConfirmTerminate(false)}
-                        disabled={isTerminating}
-                        color="brand.500"
-                      >
-                        Annuler
-                      </AccessibleButton>
+                <Flex gap={3} justify="space-between" w="full" flexWrap="wrap">
+                  <Flex gap={2}>
+                    <AccessibleButton
+                      variant="outline"
+                      borderColor="danger.500"
+                      color="danger.500"
+                      _hover={{ bg: 'danger.subtle' }}
+                      onClick={() => setShowTermination(true)}
+                    >
+                      Mettre fin au contrat
+                    </AccessibleButton>
+                    {isActive && (
                       <AccessibleButton
-                        flex={1}
-                        bg="danger.500"
-                        color="white"
-                        _hover={{ bg: 'danger.600' }}
-                        onClick={handleTerminate}
-                        loading={isTerminating}
+                        variant="outline"
+                        borderColor="warning.500"
+                        color="warning.500"
+                        _hover={{ bg: 'warning.subtle' }}
+                        onClick={handleSuspend}
+                        loading={isSuspending}
                       >
-                        Confirmer la fin du contrat
+                        Suspendre
                       </AccessibleButton>
-                    </Flex>
-                  </Stack>
-                ) : (
-                  <Flex gap={3} justify="space-between" w="full" flexWrap="wrap">
-                    <Flex gap={2}>
+                    )}
+                    {isSuspended && (
                       <AccessibleButton
                         variant="outline"
-                        borderColor="danger.500"
-                        color="danger.500"
-                        _hover={{ bg: 'danger.subtle' }}
-                        onClick={() => setConfirmTerminate(true)}
+                        borderColor="accent.700"
+                        color="accent.700"
+                        _hover={{ bg: 'success.subtle' }}
+                        onClick={handleResume}
+                        loading={isResuming}
                       >
-                        Mettre fin au contrat
+                        Réactiver
                       </AccessibleButton>
-                      {isActive && (
-                        <AccessibleButton
-                          variant="outline"
-                          borderColor="warning.500"
-                          color="warning.500"
-                          _hover={{ bg: 'warning.subtle' }}
-                          onClick={handleSuspend}
-                          loading={isSuspending}
-                        >
-                          Suspendre
-                        </AccessibleButton>
-                      )}
-                      {isSuspended && (
-                        <AccessibleButton
-                          variant="outline"
-                          borderColor="accent.700"
-                          color="accent.700"
-                          _hover={{ bg: 'success.subtle' }}
-                          onClick={handleResume}
-                          loading={isResuming}
-                        >
-                          Réactiver
-                        </AccessibleButton>
-                      )}
-                    </Flex>
-                    <AccessibleButton
-                      bg="brand.500"
-                      color="white"
-                      _hover={{ bg: 'brand.600' }}
-                      onClick={onClose}
-                    >
-                      Fermer
-                    </AccessibleButton>
+                    )}
                   </Flex>
-                )}
+                  <AccessibleButton
+                    bg="brand.500"
+                    color="white"
+                    _hover={{ bg: 'brand.600' }}
+                    onClick={onClose}
+                  >
+                    Fermer
+                  </AccessibleButton>
+                </Flex>
               </Dialog.Footer>
             )}
           </Dialog.Content>
         </Dialog.Positioner>
+
+        <TerminateContractWizard
+          isOpen={showTermination}
+          onClose={handleTerminationClose}
+          contractId={contractId}
+          onTerminated={handleTerminated}
+        />
       </Portal>
     </Dialog.Root>
   )
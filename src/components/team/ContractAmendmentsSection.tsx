@@ -0,0 +1,305 @@
+/**
+ * Conditions du contrat et historique des avenants (vue employeur).
+ * Chaque avenant s'applique à compter de sa date d'effet : les mois passés
+ * restent calculés avec les conditions de l'époque.
+ */
+
+import { useRef } from 'react'
+import { Box, Flex, Stack, Text, Badge, Spinner, Center } from '@chakra-ui/react'
+import { format } from 'date-fns'
+import { fr } from 'date-fns/locale'
+import { AccessibleButton, AccessibleInput } from '@/components/ui'
+import { formatCurrency } from '@/lib/compliance'
+import { toaster } from '@/lib/toaster'
+import type { ContractTerms, TermsChange } from '@/lib/contract/amendments'
+import { useContractAmendments } from '@/hooks/useContractAmendments'
+import { getEmployeeDocumentSignedUrl } from '@/services/employeeDocumentService'
+import type { Contract, ContractAmendment } from '@/types'
+
+interface ContractAmendmentsSectionProps {
+  contract: Contract
+  canAmend: boolean
+  onAmended: () => void
+}
+
+const TERM_LABELS: Record<keyof ContractTerms, string> = {
+  weeklyHours: 'Heures hebdomadaires',
+  hourlyRate: 'Taux horaire brut',
+  pasRate: 'Taux PAS',
+}
+
+function formatTerm(field: keyof ContractTerms, value: number): string {
+  if (field === 'weeklyHours') return `${value}h`
+  if (field === 'hourlyRate') return formatCurrency(value)
+  return `${(value * 100).toLocaleString('fr-FR', { maximumFractionDigits: 2 })} %`
+}
+
+function formatChange(change: TermsChange): string {
+  return `${TERM_LABELS[change.field]} : ${formatTerm(change.field, change.from)} → ${formatTerm(change.field, change.to)}`
+}
+
+export function ContractAmendmentsSection({ contract, canAmend, onAmended }: ContractAmendmentsSectionProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const {
+    isLoading,
+    showForm,
+    isSubmitting,
+    submitError,
+    signedPdf,
+    setSignedPdf,
+    requestingId,
+    register,
+    errors,
+    currentTerms,
+    timeline,
+    openForm,
+    closeForm,
+    onSubmit,
+    requestSignature,
+  } = useContractAmendments({
+    contract,
+    onAmended: () => {
+      toaster.success({ title: 'Avenant enregistré' })
+      onAmended()
+    },
+  })
+
+  const handleDownload = async (amendment: ContractAmendment) => {
+    const url = await getEmployeeDocumentSignedUrl(amendment.signedDocumentPath!)
+    if (!url) {
+      toaster.error({ title: 'Impossible de générer le lien de téléchargement' })
+      return
+    }
+    window.open(url, '_blank', 'noopener')
+  }
+
+  const handleRequestSignature = async (amendment: ContractAmendment) => {
+    const error = await requestSignature(amendment)
+    if (error) {
+      toaster.error({ title: 'Signature électronique', description: error })
+      return
+    }
+    toaster.success({
+      title: 'Avenant envoyé pour signature',
+      description: 'Suivez la signature dans Documents › Contrats.',
+    })
+  }
+
+  if (isLoading) {
+    return (
+      <Center py={8}>
+        <Spinner size="lg" color="brand.500" />
+      </Center>
+    )
+  }
+
+  return (
+    <Stack gap={4}>
+      <InfoRow label="Type de contrat" value={contract.contractType} />
+      <InfoRow label={TERM_LABELS.weeklyHours} value={formatTerm('weeklyHours', currentTerms.weeklyHours)} />
+      <InfoRow label={TERM_LABELS.hourlyRate} value={formatTerm('hourlyRate', currentTerms.hourlyRate)} />
+      <InfoRow label={TERM_LABELS.pasRate} value={formatTerm('pasRate', currentTerms.pasRate)} />
+      <InfoRow
+        label="Salaire mensuel estimé"
+        value={`${formatCurrency(currentTerms.weeklyHours * 4.33 * currentTerms.hourlyRate)} brut`}
+      />
+
+      {showForm ? (
+        <Box as="form" onSubmit={onSubmit} p={4} bg="bg.page" borderRadius="10px" borderWidth="1px" borderColor="border.default">
+          <Text fontWeight={600} mb={3} color="brand.500">
+            Nouvel avenant
+          </Text>
+          <Stack gap={3}>
+            <AccessibleInput
+              label="Date d'effet"
+              type="date"
+              required
+              error={errors.effectiveDate?.message}
+              {...register('effectiveDate')}
+            />
+            <Flex gap={3}>
+              <Box flex={1}>
+                <AccessibleInput
+                  label="Heures/semaine"
+                  type="number"
+                  step="0.5"
+                  error={errors.weeklyHours?.message}
+                  {...register('weeklyHours')}
+                />
+              </Box>
+              <Box flex={1}>
+                <AccessibleInput
+                  label="Taux horaire brut (€)"
+                  type="number"
+                  step="0.01"
+                  error={errors.hourlyRate?.message}
+                  {...register('hourlyRate')}
+                />
+              </Box>
+            </Flex>
+            <AccessibleInput
+              label="Taux PAS (%)"
+              type="number"
+              step="0.1"
+              helperText="Taux de prélèvement à la source communiqué par l'impôt"
+              error={errors.pasRate?.message}
+              {...register('pasRate')}
+            />
+            <AccessibleInput
+              label="Motif"
+              required
+              placeholder="Ex. : augmentation annuelle, passage à 30h"
+              error={errors.reason?.message}
+              {...register('reason')}
+            />
+
+            <Flex align="center" gap={3} flexWrap="wrap">
+              <AccessibleButton
+                variant="outline"
+                size="sm"
+                onClick={() => fileInputRef.current?.click()}
+                accessibleLabel="Joindre l'avenant signé"
+              >
+                {signedPdf ? 'Changer le PDF' : 'Joindre l\'avenant signé (PDF)'}
+              </AccessibleButton>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="application/pdf"
+                onChange={(e) => setSignedPdf(e.target.files?.[0] ?? null)}
+                style={{ display: 'none' }}
+                aria-label="Sélectionner l'avenant signé"
+              />
+              {signedPdf && (
+                <Text fontSize="sm" color="text.muted">
+                  {signedPdf.name}
+                </Text>
+              )}
+            </Flex>
+
+            {submitError && (
+              <Text fontSize="sm" color="danger.500" role="alert">
+                {submitError}
+              </Text>
+            )}
+
+            <Flex gap={3}>
+              <AccessibleButton flex={1} variant="ghost" color="brand.500" onClick={closeForm} disabled={isSubmitting}>
+                Annuler
+              </AccessibleButton>
+              <AccessibleButton
+                flex={1}
+                type="submit"
+                bg="brand.500"
+                color="white"
+                _hover={{ bg: 'brand.600' }}
+                loading={isSubmitting}
+              >
+                Enregistrer l'avenant
+              </AccessibleButton>
+            </Flex>
+          </Stack>
+        </Box>
+      ) : (
+        canAmend && (
+          <AccessibleButton
+            variant="outline"
+            borderColor="border.default"
+            color="brand.500"
+            _hover={{ bg: 'bg.page' }}
+            onClick={openForm}
+          >
+            Nouvel avenant
+          </AccessibleButton>
+        )
+      )}
+
+      {timeline.length > 0 && (
+        <Box>
+          <Text fontWeight="medium" mb={2}>
+            Historique du contrat
+          </Text>
+          <Stack gap={0} as="ol" listStyleType="none">
+            {timeline.map(({ amendment, isInitial, isCurrent, isUpcoming, changes }) => (
+              <Box
+                as="li"
+                key={amendment.id}
+                pl={4}
+                py={3}
+                borderLeftWidth="2px"
+                borderColor={isUpcoming ? 'border.default' : 'brand.500'}
+              >
+                <Flex align="center" gap={2} mb={1} flexWrap="wrap">
+                  <Text fontSize="sm" fontWeight={600} color="brand.500">
+                    {format(amendment.effectiveDate, 'dd MMMM yyyy', { locale: fr })}
+                  </Text>
+                  {isUpcoming ? (
+                    <Badge colorPalette="orange" size="sm">À venir</Badge>
+                  ) : isCurrent ? (
+                    <Badge colorPalette="green" size="sm">En vigueur</Badge>
+                  ) : null}
+                  {isInitial && <Badge size="sm">Contrat initial</Badge>}
+                </Flex>
+                {!isInitial && (
+                  <Text fontSize="sm" color="text.default">
+                    {amendment.reason}
+                  </Text>
+                )}
+                <Stack gap={0} mt={1}>
+                  {isInitial ? (
+                    <Text fontSize="xs" color="text.muted">
+                      {formatTerm('weeklyHours', amendment.weeklyHours)}/sem · {formatTerm('hourlyRate', amendment.hourlyRate)}/h
+                    </Text>
+                  ) : (
+                    changes.map((change) => (
+                      <Text key={change.field} fontSize="xs" color="text.muted">
+                        {formatChange(change)}
+                      </Text>
+                    ))
+                  )}
+                </Stack>
+                {amendment.signedDocumentPath && (
+                  <AccessibleButton
+                    variant="ghost"
+                    size="xs"
+                    mt={1}
+                    color="brand.500"
+                    onClick={() => handleDownload(amendment)}
+                    accessibleLabel={`Télécharger l'avenant signé du ${format(amendment.effectiveDate, 'dd/MM/yyyy')}`}
+                  >
+                    Avenant signé (PDF)
+                  </AccessibleButton>
+                )}
+                {canAmend && !isInitial && !amendment.signedDocumentPath && (
+                  <AccessibleButton
+                    variant="ghost"
+                    size="xs"
+                    mt={1}
+                    color="brand.500"
+                    loading={requestingId === amendment.id}
+                    onClick={() => handleRequestSignature(amendment)}
+                    accessibleLabel={`Faire signer l'avenant du ${format(amendment.effectiveDate, 'dd/MM/yyyy')}`}
+                  >
+                    Faire signer électroniquement
+                  </AccessibleButton>
+                )}
+              </Box>
+            ))}
+          </Stack>
+        </Box>
+      )}
+    </Stack>
+  )
+}
+
+// Composant ligne d'info
+function InfoRow({ label, value }: { label: string; value: string }) {
+  return (
+    <Flex justify="space-between" align="center" py={2} borderBottomWidth="1px" borderColor="bg.page">
+      <Text fontSize="sm" color="text.muted">{label}</Text>
+      <Text fontSize="sm" fontWeight={600} color="brand.500">{value}</Text>
+    </Flex>
+  )
+}
+
+export default ContractAmendmentsSection
@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { screen } from '@testing-library/react'
+import { renderWithProviders } from '@/test/helpers'
+import { ContractLeaveHistorySection } from './ContractLeaveHistorySection'
+import type { Absence, LeaveBalance, LeaveBalanceEvent } from '@/types'
+
+// ─── Mocks ─────────────────────────────────────────────────────────────
+
+vi.mock('@/services/leaveBalanceService', () => ({
+  getLeaveBalance: vi.fn(),
+  getLeaveBalanceEvents: vi.fn(),
+}))
+
+vi.mock('@/services/absenceService', () => ({
+  getAbsencesForEmployee: vi.fn(),
+}))
+
+import { getLeaveBalance, getLeaveBalanceEvents } from '@/services/leaveBalanceService'
+import { getAbsencesForEmployee } from '@/services/absenceService'
+
+const mockGetLeaveBalance = vi.mocked(getLeaveBalance)
+const mockGetLeaveBalanceEvents = vi.mocked(getLeaveBalanceEvents)
+const mockGetAbsencesForEmployee = vi.mocked(getAbsencesForEmployee)
+
+// ─── Helpers ───────────────────────────────────────────────────────────
+
+const balance: LeaveBalance = {
+  id: 'lb-2',
+  employeeId: 'employee-1',
+  employerId: 'employer-1',
+  contractId: 'c-1',
+  leaveYear: '2026-2027',
+  acquiredDays: 10,
+  takenDays: 2,
+  adjustmentDays: 5,
+  remainingDays: 13,
+  isManualInit: false,
+  openedAt: new Date(2026, 5, 2),
+}
+
+const contract = {
+  id: 'c-1',
+  employeeId: 'employee-1',
+  startDate: new Date(2026, 1, 2), // lundi 2 février 2026
+  weeklyHours: 20,
+}
+
+function makeAbsence(overrides: Partial<Absence>): Absence {
+  return {
+    id: 'abs-1',
+    employeeId: 'employee-1',
+    absenceType: 'unpaid_leave',
+    startDate: contract.startDate,
+    endDate: contract.startDate,
+    status: 'approved',
+    createdAt: contract.startDate,
+    ...overrides,
+  }
+}
+
+function makeEvent(overrides: Partial<LeaveBalanceEvent>): LeaveBalanceEvent {
+  return {
+    id: 'ev-1',
+    contractId: 'c-1',
+    leaveYear: '2025-2026',
+    eventType: 'year_closed',
+    days: 0,
+    details: {},
+    createdAt: new Date(2026, 5, 2),
+    ...overrides,
+  }
+}
+
+// ─── Tests ─────────────────────────────────────────────────────────────
+
+describe('ContractLeaveHistorySection', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockGetLeaveBalance.mockResolvedValue(balance)
+    mockGetLeaveBalanceEvents.mockResolvedValue([])
+    mockGetAbsencesForEmployee.mockResolvedValue([])
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('affiche le solde de l\'année en cours après l\'avoir ouverte', async () => {
+    renderWithProviders(<ContractLeaveHistorySection contract={contract} />)
+
+    expect(await screen.findByText('Solde : 13 j')).toBeInTheDocument()
+    expect(screen.getByText(/Année 2026-2027/)).toBeInTheDocument()
+    expect(screen.getByText('Aucune clôture d\'année pour ce contrat.')).toBeInTheDocument()
+    expect(mockGetLeaveBalance).toHaveBeenCalledWith('c-1', expect.stringMatching(/^\d{4}-\d{4}$/))
+  })
+
+  it('liste le journal de clôture : report, fractionnement et jours perdus', async () => {
+    mockGetLeaveBalanceEvents.mockResolvedValue([
+      makeEvent({ id: 'ev-4', leaveYear: '2026-2027', eventType: 'fractionnement', days: 1, details: { fromLeaveYear: '2025-2026', daysOutsideMainPeriod: 4 } }),
+      makeEvent({ id: 'ev-3', leaveYear: '2026-2027', eventType: 'carry_over', days: 4, details: { fromLeaveYear: '2025-2026', policy: 'capped', cap: 4 } }),
+      makeEvent({ id: 'ev-2', eventType: 'expiry', days: -2.5, details: { policy: 'capped', cap: 4 } }),
+      makeEvent({ id: 'ev-1', eventType: 'year_closed', days: 6.5, details: { acquiredDays: 30, takenDays: 24, adjustmentDays: 0.5 } }),
+    ])
+
+    renderWithProviders(<ContractLeaveHistorySection contract={contract} />)
+
+    expect(await screen.findByText('Clôture de l\'année 2025-2026')).toBeInTheDocument()
+    expect(screen.getByText('Solde 6,5 j')).toBeInTheDocument()
+    expect(screen.getByText('Report du reliquat 2025-2026')).toBeInTheDocument()
+    expect(screen.getByText('+4 j')).toBeInTheDocument()
+    expect(screen.getByText('-2,5 j')).toBeInTheDocument()
+    expect(screen.getByText(/4 j pris hors mai-octobre en 2025-2026/)).toBeInTheDocument()
+    expect(screen.getByText('+1 j')).toBeInTheDocument()
+  })
+
+  it('détaille l\'acquisition mois par mois en expliquant les absences retenues', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date(2026, 2, 16))
+    mockGetAbsencesForEmployee.mockResolvedValue([
+      makeAbsence({ id: 'abs-1', absenceType: 'unpaid_leave' }),
+      makeAbsence({ id: 'abs-2', absenceType: 'unavailable', status: 'pending' }),
+    ])
+
+    renderWithProviders(<ContractLeaveHistorySection contract={contract} />)
+
+    expect(await screen.findByText('Acquisition mois par mois')).toBeInTheDocument()
+    expect(mockGetAbsencesForEmployee).toHaveBeenCalledWith('employee-1')
+    expect(screen.getByText(/Congé sans solde : 1 j, dont 0 j retenus — Non assimilé/)).toBeInTheDocument()
+    expect(screen.queryByText(/Indisponibilité/)).not.toBeInTheDocument()
+    // Février : 24 j ouvrables dont 1 sans solde ; mars : 13 j ouvrables au 16
+    expect(screen.getByText('23 j de travail effectif', { exact: false })).toBeInTheDocument()
+    expect(screen.getByText(/^36 j de travail effectif = 1 mois de 24 j × 2,5 j/)).toBeInTheDocument()
+  })
+})
@@ -1,7 +1,29 @@
-import { Box, Flex, Text, Separator } from '@chakra-ui/react'
+/**
+ * Historique des congés payés d'un contrat.
+ * - À la création d'un contrat rétroactif : reprise de l'historique (mois
+ *   travaillés, jours déjà pris).
+ * - Sur un contrat existant : solde de l'année en cours, détail mensuel de
+ *   l'acquisition selon les absences et journal des clôtures d'années
+ *   (report du reliquat, fractionnement, jours perdus).
+ */
+
+import { useEffect, useMemo, useState } from 'react'
+import { Box, Flex, Stack, Text, Separator, Spinner, Center } from '@chakra-ui/react'
+import { format } from 'date-fns'
+import { fr } from 'date-fns/locale'
 import { AccessibleInput } from '@/components/ui'
+import { LeaveAccrualBreakdown } from '@/components/planning/LeaveAccrualBreakdown'
+import {
+  calculateLeaveAccrual,
+  getLeaveYear,
+  getLeaveYearStartDate,
+  LEAVE_CARRY_OVER_POLICY_LABELS,
+} from '@/lib/absence'
+import { getAbsencesForEmployee } from '@/services/absenceService'
+import { getLeaveBalance, getLeaveBalanceEvents } from '@/services/leaveBalanceService'
 import type { UseFormRegister, FieldErrors } from 'react-hook-form'
 import type { ContractFormData } from '@/lib/validation/contractSchemas'
+import type { Absence, Contract, LeaveBalance, LeaveBalanceEvent } from '@/types'
 
 interface LeavePreview {
   acquired: number
@@ -9,7 +31,7 @@ interface LeavePreview {
   balance: number
 }
 
-interface ContractLeaveHistorySectionProps {
+interface LeaveRepriseProps {
   leaveYearInfo: { startLabel: string; endLabel: string }
   suggestedMonths: number
   leavePreview: LeavePreview
@@ -17,13 +39,185 @@ interface ContractLeaveHistorySectionProps {
   errors: FieldErrors<ContractFormData>
 }
 
-export function ContractLeaveHistorySection({
+interface LeaveYearHistoryProps {
+  contract: Pick<Contract, 'id' | 'employeeId' | 'startDate' | 'endDate' | 'weeklyHours'>
+}
+
+type ContractLeaveHistorySectionProps = LeaveRepriseProps | LeaveYearHistoryProps
+
+export function ContractLeaveHistorySection(props: ContractLeaveHistorySectionProps) {
+  if ('contract' in props) {
+    return <LeaveYearHistory contract={props.contract} />
+  }
+  return <LeaveReprise {...props} />
+}
+
+function formatDays(days: number, signed = false): string {
+  const value = days.toLocaleString('fr-FR', { maximumFractionDigits: 2 })
+  return `${signed && days > 0 ? '+' : ''}${value} j`
+}
+
+function describeEvent(event: LeaveBalanceEvent): { label: string; detail: string } {
+  const { details } = event
+  switch (event.eventType) {
+    case 'year_closed':
+      return {
+        label: `Clôture de l'année ${event.leaveYear}`,
+        detail: `Acquis ${formatDays(details.acquiredDays ?? 0)} · pris ${formatDays(details.takenDays ?? 0)} · ajustements ${formatDays(details.adjustmentDays ?? 0)}`,
+      }
+    case 'carry_over':
+      return {
+        label: `Report du reliquat ${details.fromLeaveYear ?? ''}`.trim(),
+        detail: details.policy === 'capped'
+          ? `Plafond de ${formatDays(details.cap ?? 0)}`
+          : details.policy ? LEAVE_CARRY_OVER_POLICY_LABELS[details.policy] : '',
+      }
+    case 'expiry':
+      return {
+        label: 'Reliquat non reporté',
+        detail: details.policy === 'capped'
+          ? `Au-delà du plafond de ${formatDays(details.cap ?? 0)}`
+          : 'Jours perdus à la clôture',
+      }
+    case 'fractionnement':
+      return {
+        label: 'Jours de fractionnement',
+        detail: `${formatDays(details.daysOutsideMainPeriod ?? 0)} pris hors mai-octobre en ${details.fromLeaveYear ?? ''}`.trim(),
+      }
+  }
+}
+
+function LeaveYearHistory({ contract }: LeaveYearHistoryProps) {
+  const [balance, setBalance] = useState<LeaveBalance | null>(null)
+  const [events, setEvents] = useState<LeaveBalanceEvent[]>([])
+  const [absences, setAbsences] = useState<Absence[]>([])
+  const [loadedContractId, setLoadedContractId] = useState<string | null>(null)
+
+  const contractId = contract.id
+  const employeeId = contract.employeeId
+  const isLoading = loadedContractId !== contractId
+
+  const accrual = useMemo(() => {
+    const today = new Date()
+    const asOfDate = contract.endDate && contract.endDate < today ? contract.endDate : today
+    return calculateLeaveAccrual(contract, getLeaveYearStartDate(getLeaveYear(today)), asOfDate, absences)
+  }, [contract, absences])
+
+  useEffect(() => {
+    let cancelled = false
+
+    async function load() {
+      // La lecture du solde déclenche la clôture de l'année précédente :
+      // le journal est chargé ensuite pour en refléter le résultat
+      const current = await getLeaveBalance(contractId, getLeaveYear(new Date()))
+      const [history, employeeAbsences] = await Promise.all([
+        getLeaveBalanceEvents(contractId),
+        employeeId ? getAbsencesForEmployee(employeeId) : Promise.resolve<Absence[]>([]),
+      ])
+      if (cancelled) return
+      setBalance(current)
+      setEvents(history)
+      setAbsences(employeeAbsences)
+      setLoadedContractId(contractId)
+    }
+
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [contractId, employeeId])
+
+  if (isLoading) {
+    return (
+      <Center py={4}>
+        <Spinner size="md" color="brand.500" />
+      </Center>
+    )
+  }
+
+  return (
+    <Box p={4} bg="bg.page" borderRadius="10px" borderWidth="1px" borderColor="border.default">
+      <Text fontWeight={600} mb={1} color="brand.500">
+        Congés payés
+      </Text>
+      {balance ? (
+        <Flex justify="space-between" flexWrap="wrap" gap={2} mb={3}>
+          <Text fontSize="sm" color="text.muted">
+            Année {balance.leaveYear} — acquis {formatDays(balance.acquiredDays)}, pris{' '}
+            {formatDays(balance.takenDays)}, ajustements {formatDays(balance.adjustmentDays, true)}
+          </Text>
+          <Text fontSize="sm" fontWeight="bold" color={balance.remainingDays >= 0 ? 'accent.700' : 'danger.500'}>
+            Solde : {formatDays(balance.remainingDays)}
+          </Text>
+        </Flex>
+      ) : (
+        <Text fontSize="sm" color="text.muted" mb={3}>
+          Aucun solde de congés pour l'année en cours.
+        </Text>
+      )}
+
+      <Text fontSize="sm" fontWeight="medium" mb={2}>
+        Acquisition mois par mois
+      </Text>
+      <Box mb={4}>
+        <LeaveAccrualBreakdown breakdown={accrual} />
+      </Box>
+
+      <Text fontSize="sm" fontWeight="medium" mb={2}>
+        Clôtures d'années
+      </Text>
+      {events.length === 0 ? (
+        <Text fontSize="sm" color="text.muted">
+          Aucune clôture d'année pour ce contrat.
+        </Text>
+      ) : (
+        <Stack gap={0} as="ol" listStyleType="none">
+          {events.map((event) => {
+            const { label, detail } = describeEvent(event)
+            return (
+              <Flex
+                as="li"
+                key={event.id}
+                justify="space-between"
+                align="flex-start"
+                gap={3}
+                py={2}
+                borderBottomWidth="1px"
+                borderColor="bg.surface"
+              >
+                <Box>
+                  <Text fontSize="sm" color="text.default">{label}</Text>
+                  <Text fontSize="xs" color="text.muted">
+                    {format(event.createdAt, 'dd MMMM yyyy', { locale: fr })}
+                    {detail && ` · ${detail}`}
+                  </Text>
+                </Box>
+                <Text
+                  fontSize="sm"
+                  fontWeight={600}
+                  whiteSpace="nowrap"
+                  color={event.eventType === 'expiry' ? 'danger.500' : 'brand.500'}
+                >
+                  {event.eventType === 'year_closed'
+                    ? `Solde ${formatDays(event.days)}`
+                    : formatDays(event.days, true)}
+                </Text>
+              </Flex>
+            )
+          })}
+        </Stack>
+      )}
+    </Box>
+  )
+}
+
+function LeaveReprise({
   leaveYearInfo,
   suggestedMonths,
   leavePreview,
   register,
   errors,
-}: ContractLeaveHistorySectionProps) {
+}: LeaveRepriseProps) {
   return (
     <>
       <Separator borderColor="border.default" />
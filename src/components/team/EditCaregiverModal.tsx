@@ -15,7 +15,8 @@ import {
 import { AccessibleButton, AccessibleInput, AccessibleSelect, GhostButton } from '@/components/ui'
 import { updateCaregiver, type CaregiverWithProfile } from '@/services/caregiverService'
 import { getActiveCaregiverContract, terminateContract, updateContract } from '@/services/contractService'
-import { PCH_RATES } from '@/types'
+import { getPchRates } from '@/lib/pch/pchTariffs'
+import { useRegulatoryParameters } from '@/hooks/useRegulatoryParameters'
 import type { Contract, CaregiverPermissions, CaregiverContractStatus } from '@/types'
 import { toaster } from '@/lib/toaster'
 import {
@@ -68,6 +69,8 @@ export function EditCaregiverModal({
   const [editWeeklyHours, setEditWeeklyHours] = useState(0)
   const [editPchRate, setEditPchRate] = useState(0)
   const [editCaregiverStatus, setEditCaregiverStatus] = useState<CaregiverContractStatus>('active')
+  useRegulatoryParameters()
+  const pchRates = getPchRates()
 
   // Vérifier si les permissions sont verrouillées (tuteur/curateur)
   const legalStatus = caregiver?.legalStatus
@@ -353,8 +356,8 @@ export function EditCaregiverModal({
                                 label="Type de dédommagement"
                                 value={editCaregiverStatus}
                                 options={[
-                                  { value: 'active', label: `PCH — Maintient une activité pro (${PCH_RATES.active}€/h)` },
-                                  { value: 'full_time', label: `PCH — A cessé son activité pro (${PCH_RATES.full_time}€/h)` },
+                                  { value: 'active', label: `PCH — Maintient une activité pro (${pchRates.active}€/h)` },
+                                  { value: 'full_time', label: `PCH — A cessé son activité pro (${pchRates.full_time}€/h)` },
                                   { value: 'voluntary', label: 'Bénévole — Sans dédommagement' },
                                 ]}
                                 onChange={(e) => {
@@ -363,7 +366,7 @@ export function EditCaregiverModal({
                                   if (status === 'voluntary') {
                                     setEditPchRate(0)
                                   } else {
-                                    setEditPchRate(status === 'full_time' ? PCH_RATES.full_time : PCH_RATES.active)
+                                    setEditPchRate(status === 'full_time' ? pchRates.full_time : pchRates.active)
                                   }
                                 }}
                               />
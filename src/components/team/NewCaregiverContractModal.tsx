@@ -8,7 +8,7 @@ import {
 } from '@chakra-ui/react'
 import { AccessibleInput, AccessibleSelect, AccessibleButton, GhostButton, PrimaryButton } from '@/components/ui'
 import { useNewCaregiverContractForm } from '@/hooks/useNewCaregiverContractForm'
-import { PCH_RATES } from '@/types'
+import { getPchRates } from '@/lib/pch/pchTariffs'
 import type { CaregiverWithProfile } from '@/services/caregiverService'
 
 interface NewCaregiverContractModalProps {
@@ -39,6 +39,7 @@ export function NewCaregiverContractModal({
     reset,
     onSubmit,
   } = useNewCaregiverContractForm({ employerId, caregivers, defaultCaregiverId, onSuccess })
+  const pchRates = getPchRates()
 
   const handleClose = () => {
     reset()
@@ -52,7 +53,7 @@ export function NewCaregiverContractModal({
     if (status === 'voluntary') {
       form.setValue('pchHourlyRate', 0)
     } else {
-      form.setValue('pchHourlyRate', status === 'full_time' ? PCH_RATES.full_time : PCH_RATES.active)
+      form.setValue('pchHourlyRate', status === 'full_time' ? pchRates.full_time : pchRates.active)
     }
   }
 
@@ -110,8 +111,8 @@ export function NewCaregiverContractModal({
                   <AccessibleSelect
                     label="Type de dédommagement"
                     options={[
-                      { value: 'active', label: `PCH — Maintient une activité pro (${PCH_RATES.active}€/h)` },
-                      { value: 'full_time', label: `PCH — A cessé son activité pro (${PCH_RATES.full_time}€/h)` },
+                      { value: 'active', label: `PCH — Maintient une activité pro (${pchRates.active}€/h)` },
+                      { value: 'full_time', label: `PCH — A cessé son activité pro (${pchRates.full_time}€/h)` },
                       { value: 'voluntary', label: 'Bénévole — Sans dédommagement' },
                     ]}
                     error={form.formState.errors.caregiverStatus?.message}
@@ -0,0 +1,385 @@
+import {
+  Dialog,
+  Portal,
+  Box,
+  Stack,
+  Flex,
+  Text,
+  Steps,
+  Spinner,
+  Center,
+  Checkbox,
+  IconButton,
+} from '@chakra-ui/react'
+import { format } from 'date-fns'
+import { fr } from 'date-fns/locale'
+import { AccessibleButton, AccessibleInput, AccessibleSelect } from '@/components/ui'
+import { toaster } from '@/lib/toaster'
+import { formatCurrency } from '@/lib/compliance'
+import { TERMINATION_REASON_LABELS, formatNoticePeriod } from '@/lib/contract/termination'
+import { useContractTermination } from '@/hooks/useContractTermination'
+import { getEmployeeDocumentSignedUrl } from '@/services/employeeDocumentService'
+import type { EmployeeDocument, TerminationReason } from '@/types'
+
+interface TerminateContractWizardProps {
+  isOpen: boolean
+  onClose: () => void
+  contractId: string
+  /** Appelé dès que la rupture est enregistrée */
+  onTerminated: () => void
+}
+
+const REASON_OPTIONS = (Object.keys(TERMINATION_REASON_LABELS) as TerminationReason[]).map((value) => ({
+  value,
+  label: TERMINATION_REASON_LABELS[value],
+}))
+
+function formatLongDate(date: Date): string {
+  return format(date, 'dd MMMM yyyy', { locale: fr })
+}
+
+export function TerminateContractWizard({
+  isOpen,
+  onClose,
+  contractId,
+  onTerminated,
+}: TerminateContractWizardProps) {
+  const {
+    step,
+    setStep,
+    isLoading,
+    loadError,
+    isSubmitting,
+    submitError,
+    context,
+    parties,
+    documents,
+    reason,
+    setReason,
+    notificationDate,
+    setNotificationDate,
+    agreedEndDate,
+    setAgreedEndDate,
+    noticeWaived,
+    setNoticeWaived,
+    outstandingSalary,
+    setOutstandingSalary,
+    referenceSalary,
+    earliestAgreedEndDate,
+    dateError,
+    settlement,
+    reset,
+    onSubmit,
+  } = useContractTermination({ isOpen, contractId, onTerminated })
+
+  const handleClose = () => {
+    reset()
+    onClose()
+  }
+
+  const handleDownload = async (doc: EmployeeDocument) => {
+    const url = await getEmployeeDocumentSignedUrl(doc.storagePath)
+    if (!url) {
+      toaster.error({ title: 'Impossible de générer le lien de téléchargement' })
+      return
+    }
+    window.open(url, '_blank', 'noopener')
+  }
+
+  const isDone = step === 2
+
+  return (
+    <Dialog.Root open={isOpen} onOpenChange={(e) => !e.open && !isSubmitting && handleClose()}>
+      <Portal>
+        <Dialog.Backdrop bg="blackAlpha.600" />
+        <Dialog.Positioner>
+          <Dialog.Content
+            bg="bg.surface"
+            borderRadius="12px"
+            maxW="560px"
+            w="95vw"
+            maxH="90vh"
+            overflow="auto"
+          >
+            <Dialog.Header p={6} borderBottomWidth="1px" borderColor="border.default">
+              <Dialog.Title fontSize="lg" fontWeight={700} color="brand.500">
+                Fin de contrat{parties ? ` — ${parties.employeeName}` : ''}
+              </Dialog.Title>
+              <Dialog.CloseTrigger position="absolute" top={4} right={4} asChild>
+                <AccessibleButton variant="ghost" size="sm" accessibleLabel="Fermer" color="brand.500" disabled={isSubmitting}>
+                  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" width="18" height="18"><line x1="18" y1="6" x2="6" y2="18"/><line x1="6" y1="6" x2="18" y2="18"/></svg>
+                </AccessibleButton>
+              </Dialog.CloseTrigger>
+            </Dialog.Header>
+
+            <Dialog.Body p={6}>
+              <Steps.Root step={step} count={3} mb={6}>
+                <Steps.List>
+                  <Steps.Item index={0}>
+                    <Steps.Trigger>
+                      <Steps.Indicator />
+                      <Steps.Title>Motif & préavis</Steps.Title>
+                    </Steps.Trigger>
+                    <Steps.Separator />
+                  </Steps.Item>
+                  <Steps.Item index={1}>
+                    <Steps.Trigger>
+                      <Steps.Indicator />
+                      <Steps.Title>Montants</Steps.Title>
+                    </Steps.Trigger>
+                    <Steps.Separator />
+                  </Steps.Item>
+                  <Steps.Item index={2}>
+                    <Steps.Trigger>
+                      <Steps.Indicator />
+                      <Steps.Title>Documents</Steps.Title>
+                    </Steps.Trigger>
+                  </Steps.Item>
+                </Steps.List>
+              </Steps.Root>
+
+              {isLoading ? (
+                <Center py={12}>
+                  <Spinner size="xl" color="brand.500" />
+                </Center>
+              ) : loadError || !context ? (
+                <Center py={12}>
+                  <Text color="text.muted">{loadError ?? 'Impossible de charger le contrat'}</Text>
+                </Center>
+              ) : (
+                <>
+                  {/* Etape 1 : Motif et préavis */}
+                  {step === 0 && (
+                    <Stack gap={4}>
+                      <AccessibleSelect
+                        label="Motif de la rupture"
+                        options={REASON_OPTIONS}
+                        value={reason}
+                        onChange={(e) => setReason(e.target.value as TerminationReason)}
+                        required
+                      />
+
+                      <AccessibleInput
+                        label={reason === 'mutual_agreement' ? 'Date de signature de la convention' : 'Date de notification'}
+                        type="date"
+                        value={notificationDate}
+                        onChange={(e) => setNotificationDate(e.target.value)}
+                        helperText={
+                          reason === 'employer_death'
+                            ? 'Date du décès : le contrat prend fin à cette date'
+                            : reason === 'resignation'
+                              ? 'Date de réception de la lettre de démission'
+                              : undefined
+                        }
+                        required
+                      />
+
+                      {reason === 'mutual_agreement' ? (
+                        <AccessibleInput
+                          label="Date de fin convenue"
+                          type="date"
+                          value={agreedEndDate}
+                          onChange={(e) => setAgreedEndDate(e.target.value)}
+                          helperText={
+                            earliestAgreedEndDate
+                              ? `Au plus tôt le ${formatLongDate(earliestAgreedEndDate)}, après rétractation et homologation`
+                              : undefined
+                          }
+                        />
+                      ) : reason !== 'employer_death' && (
+                        <Checkbox.Root
+                          checked={noticeWaived}
+                          onCheckedChange={(e) => setNoticeWaived(!!e.checked)}
+                        >
+                          <Checkbox.HiddenInput />
+                          <Checkbox.Control />
+                          <Checkbox.Label fontSize="sm">
+                            Préavis non effectué (dispense)
+                          </Checkbox.Label>
+                        </Checkbox.Root>
+                      )}
+
+                      {settlement && (
+                        <Box p={4} bg="bg.page" borderRadius="10px">
+                          <Stack gap={1}>
+                            <SummaryRow label="Préavis" value={formatNoticePeriod(settlement.notice)} />
+                            <SummaryRow label="Fin du contrat" value={formatLongDate(settlement.endDate)} />
+                            <SummaryRow
+                              label="Ancienneté"
+                              value={`${Math.floor(settlement.seniorityMonths / 12)} an(s) et ${settlement.seniorityMonths % 12} mois`}
+                            />
+                          </Stack>
+                        </Box>
+                      )}
+
+                      {dateError && (
+                        <Box p={4} bg="red.50" borderRadius="10px">
+                          <Text color="red.700" fontSize="sm">{dateError}</Text>
+                        </Box>
+                      )}
+                    </Stack>
+                  )}
+
+                  {/* Etape 2 : Montants */}
+                  {step === 1 && settlement && (
+                    <Stack gap={4}>
+                      <AccessibleInput
+                        label="Salaire restant dû (€ brut)"
+                        type="number"
+                        step="0.01"
+                        min={0}
+                        value={outstandingSalary}
+                        onChange={(e) => setOutstandingSalary(Number(e.target.value))}
+                        helperText="Heures travaillées du dernier mois non encore payées"
+                      />
+
+                      <Box p={4} bg="bg.page" borderRadius="10px">
+                        <Stack gap={1}>
+                          <SummaryRow label="Salaire de référence" value={`${formatCurrency(referenceSalary)} brut/mois`} />
+                          <SummaryRow
+                            label="Congés payés restants"
+                            value={`${context.remainingLeaveDays} jour${context.remainingLeaveDays > 1 ? 's' : ''}`}
+                          />
+                        </Stack>
+                      </Box>
+
+                      <Stack gap={0}>
+                        {settlement.lines.length === 0 ? (
+                          <Text fontSize="sm" color="text.muted">Aucune somme due</Text>
+                        ) : (
+                          settlement.lines.map((line) => (
+                            <SummaryRow key={line.label} label={line.label} value={formatCurrency(line.amount)} />
+                          ))
+                        )}
+                        <Flex justify="space-between" pt={3}>
+                          <Text fontWeight={700} color="brand.500">Total brut</Text>
+                          <Text fontWeight={700} color="brand.500">{formatCurrency(settlement.total)}</Text>
+                        </Flex>
+                      </Stack>
+
+                      <Box p={4} bg="danger.subtle" borderRadius="10px" borderWidth="1px" borderColor="danger.100">
+                        <Text color="danger.600" fontSize="xs">
+                          Le contrat sera marqué comme terminé au {formatLongDate(settlement.endDate)} et
+                          les documents de fin de contrat seront déposés dans l'espace de l'auxiliaire.
+                        </Text>
+                      </Box>
+
+                      {submitError && (
+                        <Box p={4} bg="red.50" borderRadius="10px">
+                          <Text color="red.700" fontSize="sm">{submitError}</Text>
+                        </Box>
+                      )}
+                    </Stack>
+                  )}
+
+                  {/* Etape 3 : Documents remis */}
+                  {isDone && (
+                    <Stack gap={4}>
+                      <Box p={4} bg="accent.subtle" borderRadius="10px">
+                        <Text fontWeight="semibold" color="green.700">
+                          Contrat clos
+                        </Text>
+                        <Text fontSize="sm" color="green.700">
+                          Les documents suivants ont été déposés dans l'espace Documents de l'auxiliaire.
+                        </Text>
+                      </Box>
+
+                      {documents.map((doc) => (
+                        <Flex
+                          key={doc.id}
+                          justify="space-between"
+                          align="center"
+                          py={2}
+                          borderBottomWidth="1px"
+                          borderColor="bg.page"
+                        >
+                          <Text fontSize="sm" fontWeight={600}>{doc.title}</Text>
+                          <IconButton
+                            aria-label={`Télécharger : ${doc.title}`}
+                            size="xs"
+                            variant="ghost"
+                            colorPalette="brand"
+                            title="Télécharger le PDF"
+                            onClick={() => handleDownload(doc)}
+                          >
+                            ↓
+                          </IconButton>
+                        </Flex>
+                      ))}
+
+                      {submitError && (
+                        <Box p={4} bg="orange.50" borderRadius="10px">
+                          <Text color="orange.700" fontSize="sm">{submitError}</Text>
+                        </Box>
+                      )}
+                    </Stack>
+                  )}
+                </>
+              )}
+            </Dialog.Body>
+
+            <Dialog.Footer p={6} borderTopWidth="1px" borderColor="border.default">
+              <Flex gap={3} justify="flex-end">
+                {isDone ? (
+                  <AccessibleButton
+                    bg="brand.500"
+                    color="white"
+                    _hover={{ bg: 'brand.600' }}
+                    onClick={handleClose}
+                  >
+                    Terminer
+                  </AccessibleButton>
+                ) : (
+                  <>
+                    <AccessibleButton
+                      variant="ghost"
+                      color="brand.500"
+                      onClick={step === 0 ? handleClose : () => setStep(0)}
+                      disabled={isSubmitting}
+                    >
+                      {step === 0 ? 'Annuler' : 'Retour'}
+                    </AccessibleButton>
+
+                    {step === 0 ? (
+                      <AccessibleButton
+                        bg="brand.500"
+                        color="white"
+                        _hover={{ bg: 'brand.600' }}
+                        onClick={() => setStep(1)}
+                        disabled={isLoading || !settlement || !!dateError}
+                      >
+                        Suivant
+                      </AccessibleButton>
+                    ) : (
+                      <AccessibleButton
+                        bg="danger.500"
+                        color="white"
+                        _hover={{ bg: 'danger.600' }}
+                        onClick={onSubmit}
+                        loading={isSubmitting}
+                        loadingText="Clôture..."
+                      >
+                        Confirmer la fin du contrat
+                      </AccessibleButton>
+                    )}
+                  </>
+                )}
+              </Flex>
+            </Dialog.Footer>
+          </Dialog.Content>
+        </Dialog.Positioner>
+      </Portal>
+    </Dialog.Root>
+  )
+}
+
+function SummaryRow({ label, value }: { label: string; value: string }) {
+  return (
+    <Flex justify="space-between" align="center" py={1} gap={4}>
+      <Text fontSize="sm" color="text.muted">{label}</Text>
+      <Text fontSize="sm" fontWeight={600} color="brand.500" textAlign="end">{value}</Text>
+    </Flex>
+  )
+}
+
+export default TerminateContractWizard
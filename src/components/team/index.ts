@@ -8,3 +8,5 @@ export { CaregiverCard } from './CaregiverCard'
 export { AuxiliaryCard } from './AuxiliaryCard'
 export { AuxiliaryTab } from './AuxiliaryTab'
 export { CaregiversTab } from './CaregiversTab'
+export { TerminateContractWizard } from './TerminateContractWizard'
+export { ContractAmendmentsSection } from './ContractAmendmentsSection'
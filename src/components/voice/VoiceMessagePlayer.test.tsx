@@ -0,0 +1,47 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { screen, fireEvent } from '@testing-library/react'
+import { renderWithProviders } from '@/test/helpers'
+
+const mockGetVoiceMessageUrl = vi.fn()
+
+vi.mock('@/services/attachmentService', () => ({
+  getVoiceMessageUrl: (url: string) => mockGetVoiceMessageUrl(url),
+}))
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn() },
+}))
+
+import { VoiceMessagePlayer } from './VoiceMessagePlayer'
+
+describe('VoiceMessagePlayer', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockGetVoiceMessageUrl.mockResolvedValue('https://signed/audio.webm')
+  })
+
+  it('plays the signed URL of the stored recording', async () => {
+    renderWithProviders(<VoiceMessagePlayer audioUrl="conv-1/user-1/1_message.webm" label="Message vocal de Marie" />)
+
+    const audio = await screen.findByLabelText('Message vocal de Marie')
+    expect(mockGetVoiceMessageUrl).toHaveBeenCalledWith('conv-1/user-1/1_message.webm')
+    expect(audio).toHaveAttribute('src', 'https://signed/audio.webm')
+  })
+
+  it('changes the playback speed', async () => {
+    renderWithProviders(<VoiceMessagePlayer audioUrl="path.webm" />)
+    const audio = (await screen.findByLabelText('Message vocal')) as HTMLAudioElement
+
+    expect(screen.getByRole('button', { name: 'Vitesse ×1' })).toHaveAttribute('aria-pressed', 'true')
+    fireEvent.click(screen.getByRole('button', { name: 'Vitesse ×1,5' }))
+
+    expect(audio.playbackRate).toBe(1.5)
+    expect(screen.getByRole('button', { name: 'Vitesse ×1,5' })).toHaveAttribute('aria-pressed', 'true')
+  })
+
+  it('reports a recording that cannot be loaded', async () => {
+    mockGetVoiceMessageUrl.mockResolvedValue('')
+    renderWithProviders(<VoiceMessagePlayer audioUrl="missing.webm" />)
+    expect(await screen.findByText('Message vocal indisponible.')).toBeInTheDocument()
+  })
+})
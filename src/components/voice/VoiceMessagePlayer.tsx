@@ -0,0 +1,84 @@
+import { useEffect, useRef, useState } from 'react'
+import { Box, Button, Flex, Spinner, Text } from '@chakra-ui/react'
+import { getVoiceMessageUrl } from '@/services/attachmentService'
+import { logger } from '@/lib/logger'
+
+// Ralentir aide à la compréhension, accélérer fait gagner du temps en relecture
+const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5, 2]
+
+interface VoiceMessagePlayerProps {
+  /** Chemin Storage (ou URL) du message vocal */
+  audioUrl: string
+  /** Libellé accessible du lecteur, ex. "Message vocal de Marie" */
+  label?: string
+}
+
+function formatRate(rate: number): string {
+  return `×${String(rate).replace('.', ',')}`
+}
+
+export function VoiceMessagePlayer({ audioUrl, label = 'Message vocal' }: VoiceMessagePlayerProps) {
+  const audioRef = useRef<HTMLAudioElement>(null)
+  const [src, setSrc] = useState<string | null>(null)
+  const [failed, setFailed] = useState(false)
+  const [rate, setRate] = useState(1)
+
+  useEffect(() => {
+    let cancelled = false
+    getVoiceMessageUrl(audioUrl)
+      .then((url) => {
+        if (cancelled) return
+        setSrc(url)
+        setFailed(!url)
+      })
+      .catch((err) => {
+        logger.error('Erreur chargement message vocal:', err)
+        if (!cancelled) setFailed(true)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [audioUrl])
+
+  // L'élément <audio> remet playbackRate à 1 quand la source change
+  useEffect(() => {
+    if (audioRef.current) audioRef.current.playbackRate = rate
+  }, [rate, src])
+
+  if (failed) {
+    return (
+      <Text fontSize="xs" color="text.muted">
+        Message vocal indisponible.
+      </Text>
+    )
+  }
+
+  if (!src) {
+    return <Spinner size="xs" aria-label="Chargement du message vocal" />
+  }
+
+  return (
+    <Box>
+      {/* Pas de piste de sous-titres : la transcription est affichée avec le lecteur */}
+      {/* eslint-disable-next-line jsx-a11y/media-has-caption */}
+      <audio ref={audioRef} src={src} controls preload="metadata" aria-label={label} style={{ width: '100%', maxWidth: '280px', height: '36px' }} />
+      <Flex gap={1} mt={1} role="group" aria-label="Vitesse de lecture" wrap="wrap">
+        {PLAYBACK_RATES.map((r) => (
+          <Button
+            key={r}
+            size="2xs"
+            variant={rate === r ? 'solid' : 'ghost'}
+            colorPalette={rate === r ? 'brand' : 'gray'}
+            aria-pressed={rate === r}
+            aria-label={`Vitesse ${formatRate(r)}`}
+            onClick={() => setRate(r)}
+          >
+            {formatRate(r)}
+          </Button>
+        ))}
+      </Flex>
+    </Box>
+  )
+}
+
+export default VoiceMessagePlayer
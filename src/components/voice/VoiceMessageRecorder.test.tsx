@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { screen, fireEvent, waitFor } from '@testing-library/react'
+import { renderWithProviders } from '@/test/helpers'
+import type { UseVoiceMessageReturn } from '@/hooks/useVoiceMessage'
+
+vi.mock('@/services/attachmentService', () => ({
+  getVoiceMessageUrl: (url: string) => Promise.resolve(url),
+}))
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn() },
+}))
+
+import { PushToTalkButton, VoiceMessageRecorder } from './VoiceMessageRecorder'
+
+const recorded = { blob: new Blob(['abc'], { type: 'audio/webm' }), mimeType: 'audio/webm', durationMs: 3000 }
+
+function makeVoice(overrides: Partial<UseVoiceMessageReturn> = {}): UseVoiceMessageReturn {
+  return {
+    isSupported: true,
+    status: 'idle',
+    recording: null,
+    transcript: '',
+    setTranscript: vi.fn(),
+    error: null,
+    modelProgress: 0,
+    elapsedMs: 0,
+    start: vi.fn().mockResolvedValue(undefined),
+    stop: vi.fn().mockResolvedValue(undefined),
+    cancel: vi.fn(),
+    reset: vi.fn(),
+    ...overrides,
+  }
+}
+
+describe('PushToTalkButton', () => {
+  it('does not render when recording is unsupported', () => {
+    renderWithProviders(<PushToTalkButton voice={makeVoice({ isSupported: false })} />)
+    expect(screen.queryByRole('button')).not.toBeInTheDocument()
+  })
+
+  it('records while the pointer is held down', () => {
+    const voice = makeVoice()
+    renderWithProviders(<PushToTalkButton voice={voice} />)
+    const button = screen.getByRole('button', { name: 'Maintenir pour enregistrer un message vocal' })
+
+    fireEvent.pointerDown(button, { button: 0, pointerId: 1 })
+    expect(voice.start).toHaveBeenCalled()
+    fireEvent.pointerUp(button, { pointerId: 1 })
+    expect(voice.stop).toHaveBeenCalled()
+  })
+
+  it('records while Space is held down', () => {
+    const voice = makeVoice()
+    renderWithProviders(<PushToTalkButton voice={voice} />)
+    const button = screen.getByRole('button', { name: 'Maintenir pour enregistrer un message vocal' })
+
+    fireEvent.keyDown(button, { key: ' ' })
+    fireEvent.keyDown(button, { key: ' ', repeat: true })
+    fireEvent.keyUp(button, { key: ' ' })
+
+    expect(voice.start).toHaveBeenCalledTimes(1)
+    expect(voice.stop).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('VoiceMessageRecorder', () => {
+  beforeEach(() => {
+    URL.createObjectURL = vi.fn(() => 'blob:http://localhost/preview')
+    URL.revokeObjectURL = vi.fn()
+  })
+
+  it('renders nothing when idle', () => {
+    const { container } = renderWithProviders(
+      <VoiceMessageRecorder voice={makeVoice()} onSend={vi.fn()} />,
+    )
+    expect(container.textContent).toBe('')
+  })
+
+  it('shows the elapsed time while recording', () => {
+    renderWithProviders(
+      <VoiceMessageRecorder voice={makeVoice({ status: 'recording', elapsedMs: 12500 })} onSend={vi.fn()} />,
+    )
+    expect(screen.getByText('Enregistrement 0:12')).toBeInTheDocument()
+  })
+
+  it('lets the user edit the transcript before sending', async () => {
+    const onSend = vi.fn().mockResolvedValue(undefined)
+    const voice = makeVoice({ status: 'ready', recording: recorded, transcript: ' Pense au pain ' })
+    renderWithProviders(<VoiceMessageRecorder voice={voice} onSend={onSend} />)
+
+    const textarea = screen.getByLabelText('Transcription (modifiable avant l’envoi)')
+    expect(textarea).toHaveValue(' Pense au pain ')
+    fireEvent.change(textarea, { target: { value: 'Pense au pain complet' } })
+    expect(voice.setTranscript).toHaveBeenCalledWith('Pense au pain complet')
+
+    fireEvent.click(screen.getByRole('button', { name: 'Envoyer le message vocal' }))
+    await waitFor(() => expect(onSend).toHaveBeenCalledWith(recorded, 'Pense au pain'))
+    await waitFor(() => expect(voice.reset).toHaveBeenCalled())
+  })
+
+  it('keeps the recording when sending fails', async () => {
+    const onSend = vi.fn().mockRejectedValue(new Error('offline'))
+    const voice = makeVoice({ status: 'ready', recording: recorded, transcript: 'Bonjour' })
+    renderWithProviders(<VoiceMessageRecorder voice={voice} onSend={onSend} />)
+
+    fireEvent.click(screen.getByRole('button', { name: 'Envoyer le message vocal' }))
+    await waitFor(() => expect(onSend).toHaveBeenCalled())
+    expect(voice.reset).not.toHaveBeenCalled()
+  })
+
+  it('shows the transcription fallback message', () => {
+    renderWithProviders(
+      <VoiceMessageRecorder
+        voice={makeVoice({ status: 'ready', recording: recorded, error: 'Transcription automatique indisponible.' })}
+        onSend={vi.fn()}
+      />,
+    )
+    expect(screen.getByRole('alert')).toHaveTextContent('Transcription automatique indisponible.')
+  })
+})
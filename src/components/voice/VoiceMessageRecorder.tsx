@@ -0,0 +1,204 @@
+import { useEffect, useId, useMemo, useState } from 'react'
+import { Box, Button, Flex, IconButton, Spinner, Text, Textarea } from '@chakra-ui/react'
+import { VoiceMessagePlayer } from '@/components/voice/VoiceMessagePlayer'
+import { MAX_VOICE_MESSAGE_MS, type RecordedVoice } from '@/lib/voice/voiceRecorder'
+import type { UseVoiceMessageReturn } from '@/hooks/useVoiceMessage'
+import { logger } from '@/lib/logger'
+
+function formatElapsed(ms: number): string {
+  const seconds = Math.floor(ms / 1000)
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`
+}
+
+function VoiceMessageIcon() {
+  return (
+    <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round">
+      <rect x="9" y="2" width="6" height="12" rx="3" />
+      <path d="M5 10v1a7 7 0 0 0 14 0v-1" />
+      <line x1="12" y1="18" x2="12" y2="22" />
+      <circle cx="19" cy="4" r="2" fill="currentColor" stroke="none" />
+    </svg>
+  )
+}
+
+// ============================================
+// BOUTON PUSH-TO-TALK
+// ============================================
+
+interface PushToTalkButtonProps {
+  voice: UseVoiceMessageReturn
+  disabled?: boolean
+}
+
+/**
+ * Maintenir (souris, doigt, Espace ou Entrée) pour enregistrer, relâcher pour
+ * terminer. La capture du pointeur évite de couper l'enregistrement quand le
+ * doigt glisse hors du bouton.
+ */
+export function PushToTalkButton({ voice, disabled = false }: PushToTalkButtonProps) {
+  if (!voice.isSupported) return null
+
+  const isRecording = voice.status === 'starting' || voice.status === 'recording'
+  const isBusy = voice.status === 'transcribing' || voice.status === 'ready'
+
+  return (
+    <IconButton
+      aria-label={isRecording ? 'Relâcher pour terminer le message vocal' : 'Maintenir pour enregistrer un message vocal'}
+      aria-pressed={isRecording}
+      variant={isRecording ? 'solid' : 'ghost'}
+      colorPalette={isRecording ? 'red' : 'gray'}
+      color={isRecording ? undefined : 'text.muted'}
+      disabled={disabled || isBusy}
+      w="38px"
+      h="38px"
+      minW="38px"
+      minH="38px"
+      p={0}
+      borderRadius="full"
+      flexShrink={0}
+      css={{ touchAction: 'none' }}
+      onPointerDown={(e) => {
+        if (e.button !== 0) return
+        e.currentTarget.setPointerCapture?.(e.pointerId)
+        void voice.start()
+      }}
+      onPointerUp={() => void voice.stop()}
+      onPointerCancel={() => voice.cancel()}
+      onKeyDown={(e) => {
+        if ((e.key === ' ' || e.key === 'Enter') && !e.repeat) {
+          e.preventDefault()
+          void voice.start()
+        }
+      }}
+      onKeyUp={(e) => {
+        if (e.key === ' ' || e.key === 'Enter') {
+          e.preventDefault()
+          void voice.stop()
+        }
+      }}
+      onContextMenu={(e) => e.preventDefault()}
+    >
+      <VoiceMessageIcon />
+    </IconButton>
+  )
+}
+
+// ============================================
+// PANNEAU D'ENREGISTREMENT / RELECTURE
+// ============================================
+
+interface VoiceMessageRecorderProps {
+  voice: UseVoiceMessageReturn
+  onSend: (recording: RecordedVoice, transcript: string) => Promise<void>
+  disabled?: boolean
+  sendLabel?: string
+}
+
+/**
+ * État de l'enregistrement en cours, puis relecture : l'audio peut être
+ * réécouté et la transcription corrigée avant l'envoi.
+ */
+export function VoiceMessageRecorder({
+  voice,
+  onSend,
+  disabled = false,
+  sendLabel = 'Envoyer le message vocal',
+}: VoiceMessageRecorderProps) {
+  const [isSending, setIsSending] = useState(false)
+  const transcriptId = useId()
+  const { status, recording, transcript, error, reset } = voice
+
+  const previewUrl = useMemo(
+    () => (recording ? URL.createObjectURL(recording.blob) : null),
+    [recording],
+  )
+
+  useEffect(() => {
+    return () => {
+      if (previewUrl) URL.revokeObjectURL(previewUrl)
+    }
+  }, [previewUrl])
+
+  if (status === 'idle' && !error) return null
+
+  const handleSend = async () => {
+    if (!recording) return
+    setIsSending(true)
+    try {
+      await onSend(recording, transcript.trim())
+      reset()
+    } catch (err) {
+      logger.error('Erreur envoi message vocal:', err)
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  return (
+    <Box bg="bg.page" borderWidth="1px" borderColor="border.default" borderRadius="10px" p={3} mb={3}>
+      {error && (
+        <Text fontSize="sm" color={status === 'ready' ? 'orange.700' : 'red.700'} role="alert" mb={status === 'idle' ? 0 : 2}>
+          {error}
+        </Text>
+      )}
+
+      {(status === 'starting' || status === 'recording') && (
+        <Flex align="center" gap={2} role="status">
+          <Box w="10px" h="10px" borderRadius="full" bg="red.500" flexShrink={0} />
+          <Text fontSize="sm" fontWeight="600">
+            {status === 'starting' ? 'Ouverture du micro…' : `Enregistrement ${formatElapsed(voice.elapsedMs)}`}
+          </Text>
+          <Text fontSize="xs" color="text.muted">
+            Relâchez pour terminer (max. {formatElapsed(MAX_VOICE_MESSAGE_MS)})
+          </Text>
+        </Flex>
+      )}
+
+      {status === 'transcribing' && (
+        <Flex align="center" gap={2} role="status">
+          <Spinner size="xs" />
+          <Text fontSize="sm">
+            {voice.modelProgress > 0 && voice.modelProgress < 100
+              ? `Chargement du modèle de transcription… ${Math.round(voice.modelProgress)}%`
+              : 'Transcription en cours sur votre appareil…'}
+          </Text>
+        </Flex>
+      )}
+
+      {status === 'ready' && recording && (
+        <>
+          {previewUrl && <VoiceMessagePlayer audioUrl={previewUrl} label="Aperçu du message vocal" />}
+          <Text asChild display="block" fontSize="xs" fontWeight="600" color="text.muted" mt={2} mb={1}>
+            <label htmlFor={transcriptId}>Transcription (modifiable avant l’envoi)</label>
+          </Text>
+          <Textarea
+            id={transcriptId}
+            value={transcript}
+            onChange={(e) => voice.setTranscript(e.target.value)}
+            placeholder="Saisissez le contenu du message pour les personnes qui ne peuvent pas l’écouter"
+            rows={3}
+            maxLength={2000}
+            bg="bg.surface"
+            disabled={isSending}
+          />
+          <Flex justify="flex-end" gap={2} mt={2}>
+            <Button size="sm" variant="ghost" onClick={reset} disabled={isSending}>
+              Annuler
+            </Button>
+            <Button
+              size="sm"
+              colorPalette="brand"
+              onClick={handleSend}
+              loading={isSending}
+              disabled={disabled}
+            >
+              {sendLabel}
+            </Button>
+          </Flex>
+        </>
+      )}
+    </Box>
+  )
+}
+
+export default VoiceMessageRecorder
@@ -2,15 +2,28 @@ import { useState, useEffect, useMemo, useCallback } from 'react'
 import { format, subDays, startOfDay, endOfDay, isSameDay, differenceInDays } from 'date-fns'
 import { useAuth } from '@/hooks/useAuth'
 import { getShifts, updateShift } from '@/services/shiftService'
+import {
+  recordQrClockEvent,
+  recordManualClockEvent,
+  recordRetroactiveClockTimes,
+  syncPendingClockEvents,
+  CLOCK_EVENT_ERROR_MESSAGES,
+} from '@/services/clockInService'
+import { enqueueClockEvent, countPendingClockEvents, type PendingClockEvent } from '@/lib/clockIn/offlineQueue'
+import { parseClockInBadge } from '@/lib/clockIn/qrBadge'
 import { calculateNightHours, calculateShiftDuration } from '@/lib/compliance'
 import { validateShift as checkCompliance } from '@/lib/compliance/complianceChecker'
+import { createDateTime, getShiftEndDateTime } from '@/lib/compliance/utils'
+import { isChecklistComplete } from '@/lib/shifts/taskChecklist'
 import type { ShiftForValidation } from '@/lib/compliance/types'
 import { logger } from '@/lib/logger'
 import { toaster } from '@/lib/toaster'
-import type { Shift } from '@/types'
+import type { Shift, ClockMethod, ShiftTaskCompletion } from '@/types'
 
 export type ClockInStep = 'idle' | 'in-progress' | 'completing'
 
+const CHECKLIST_REQUIRED_MESSAGE = "Passez en revue les tâches prévues avant de terminer l'intervention"
+
 export interface HistoryStats {
   totalHours: number
   totalNightHours: number
@@ -30,12 +43,14 @@ export function useClockIn(
   const [clockInTime, setClockInTime] = useState<string | null>(null)
   const [step, setStep] = useState<ClockInStep>('idle')
   const [hasNightAction, setHasNightAction] = useState(false)
+  const [taskCompletions, setTaskCompletions] = useState<ShiftTaskCompletion[]>([])
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [allFetchedShifts, setAllFetchedShifts] = useState<Shift[]>([])
   const [historyShifts, setHistoryShifts] = useState<Shift[]>([])
   const [isLoadingHistory, setIsLoadingHistory] = useState(true)
   const [historyDays, setHistoryDays] = useState(7)
   const [selectedDate, setSelectedDate] = useState<Date>(new Date())
+  const [pendingSyncCount, setPendingSyncCount] = useState(0)
 
   const loadAllShifts = useCallback(async () => {
     if (!profile) return
@@ -150,17 +165,44 @@ export function useClockIn(
 
   const hasNightHours = nightHoursForActive > 0
 
-  const handleClockIn = (shift: Shift) => {
+  // La fin d'intervention exige une check-list revue (tâche faite, ou non faite avec motif)
+  const isTaskChecklistComplete = !activeShift || isChecklistComplete(activeShift.tasks, taskCompletions)
+
+  const startClock = (shift: Shift, startedAt: Date) => {
     setActiveShiftId(shift.id)
-    // Utiliser l'heure de début prévue du shift, pas l'heure réelle de pointage
-    // L'auxiliaire peut pointer en retard mais l'heure de début reste celle du planning
-    setClockInTime(shift.startTime)
+    // Heure réelle d'arrivée : le planning du shift n'est pas modifié,
+    // l'écart éventuel est soumis à l'employeur (rapprochement prévu / réel)
+    setClockInTime(format(startedAt, 'HH:mm'))
     setStep('in-progress')
     setHasNightAction(shift.hasNightAction ?? false)
+    setTaskCompletions(shift.taskCompletions ?? [])
     setTimeout(() => inProgressRef.current?.focus(), 100)
   }
 
-  const handleClockOut = async () => {
+  const resetClock = () => {
+    setActiveShiftId(null)
+    setClockInTime(null)
+    setStep('idle')
+    setHasNightAction(false)
+    setTaskCompletions([])
+    setTimeout(() => idleSectionRef.current?.focus(), 100)
+  }
+
+  const handleClockIn = (shift: Shift) => {
+    const clockedInAt = new Date()
+    startClock(shift, clockedInAt)
+    // Trace du pointage manuel (sans badge, heure du serveur) pour la revue employeur
+    recordManualClockEvent(shift.id, 'start').catch((err) => {
+      logger.error('Erreur enregistrement pointage manuel:', err)
+    })
+  }
+
+  /**
+   * Clôture l'intervention en cours. Seule l'heure réelle de fin est
+   * enregistrée (pour un scan QR, déjà fait par `record_qr_clock_event`) :
+   * les horaires prévus restent ceux du planning.
+   */
+  const completeActiveShift = async (clockOutAt: Date, method: ClockMethod) => {
     if (!activeShift || !profile) return
 
     if (!clockInTime) {
@@ -168,17 +210,22 @@ export function useClockIn(
       return
     }
 
+    if (!isTaskChecklistComplete) {
+      toaster.error({ title: CHECKLIST_REQUIRED_MESSAGE })
+      return
+    }
+
     setStep('completing')
     setIsSubmitting(true)
 
     try {
-      const clockOutTime = format(new Date(), 'HH:mm')
+      const clockOutTime = format(clockOutAt, 'HH:mm')
 
+      if (method !== 'qr') await recordManualClockEvent(activeShift.id, 'end')
       await updateShift(activeShift.id, {
         status: 'completed',
-        startTime: clockInTime,
-        endTime: clockOutTime,
         hasNightAction: hasNightHours ? hasNightAction : false,
+        ...(taskCompletions.length > 0 && { taskCompletions }),
       })
 
       let complianceWarnings = ''
@@ -221,12 +268,7 @@ export function useClockIn(
       })
 
       await loadAllShifts()
-
-      setActiveShiftId(null)
-      setClockInTime(null)
-      setStep('idle')
-      setHasNightAction(false)
-      setTimeout(() => idleSectionRef.current?.focus(), 100)
+      resetClock()
     } catch (err) {
       logger.error('Erreur clock-out:', err)
       toaster.error({ title: err instanceof Error ? err.message : "Erreur lors de la fin de l'intervention" })
@@ -236,6 +278,127 @@ export function useClockIn(
     }
   }
 
+  const handleClockOut = () => completeActiveShift(new Date(), 'manual')
+
+  const refreshPendingSyncCount = useCallback(async () => {
+    try {
+      setPendingSyncCount(await countPendingClockEvents())
+    } catch (err) {
+      logger.error('Erreur lecture file pointages hors ligne:', err)
+    }
+  }, [])
+
+  /** Conserve un scan sur l'appareil en attendant le retour du réseau */
+  const queueClockEvent = async (event: PendingClockEvent) => {
+    await enqueueClockEvent(event)
+    await refreshPendingSyncCount()
+    toaster.create({
+      type: 'info',
+      title: 'Pointage enregistré hors ligne',
+      description: 'Il sera transmis dès le retour de la connexion.',
+    })
+  }
+
+  const handleQrScan = async (raw: string) => {
+    const badge = parseClockInBadge(raw)
+    if (!badge) {
+      toaster.error({ title: "Ce QR code n'est pas un badge de pointage Unilien" })
+      return
+    }
+
+    const isEnd = step === 'in-progress' && !!activeShift
+    const shift = isEnd
+      ? activeShift
+      : todayShifts.find((s) => s.status === 'planned' && s.contractId === badge.contractId)
+
+    if (!shift || shift.contractId !== badge.contractId) {
+      toaster.error({
+        title: isEnd
+          ? "Ce badge ne correspond pas à l'intervention en cours"
+          : "Aucune intervention prévue aujourd'hui pour ce badge",
+      })
+      return
+    }
+
+    // Vérifiée avant l'envoi du scan de fin, qui clôt l'intervention côté serveur
+    if (isEnd && !isTaskChecklistComplete) {
+      toaster.error({ title: CHECKLIST_REQUIRED_MESSAGE })
+      return
+    }
+
+    const scannedAt = new Date()
+    const event: PendingClockEvent = {
+      nonce: crypto.randomUUID(),
+      payload: badge.payload,
+      shiftId: shift.id,
+      event: isEnd ? 'end' : 'start',
+      scannedAt: scannedAt.toISOString(),
+    }
+
+    try {
+      const result = navigator.onLine
+        ? await recordQrClockEvent(event)
+        : ({ success: false, error: 'network' } as const)
+
+      if (!result.success && result.error !== 'network') {
+        toaster.error({ title: 'Pointage refusé', description: CLOCK_EVENT_ERROR_MESSAGES[result.error] })
+        return
+      }
+
+      if (!isEnd) {
+        if (!result.success) await queueClockEvent(event)
+        startClock(shift, scannedAt)
+        return
+      }
+
+      if (result.success) {
+        await completeActiveShift(scannedAt, 'qr')
+        return
+      }
+
+      // Hors ligne : la clôture sera appliquée à la synchronisation
+      await queueClockEvent({
+        ...event,
+        completion: {
+          hasNightAction: hasNightHours ? hasNightAction : false,
+          ...(taskCompletions.length > 0 && { taskCompletions }),
+        },
+      })
+      resetClock()
+    } catch (err) {
+      logger.error('Erreur pointage QR:', err)
+      toaster.error({ title: "Erreur lors de l'enregistrement du pointage" })
+    }
+  }
+
+  const syncPendingEvents = useCallback(async () => {
+    if (!navigator.onLine) return
+
+    try {
+      const { synced, rejected } = await syncPendingClockEvents()
+      if (synced > 0) {
+        toaster.success({ title: `${synced} pointage(s) hors ligne synchronisé(s)` })
+        await loadAllShifts()
+      }
+      if (rejected > 0) {
+        toaster.error({
+          title: `${rejected} pointage(s) hors ligne refusé(s)`,
+          description: 'Utilisez la saisie a posteriori pour les interventions concernées.',
+        })
+      }
+    } catch (err) {
+      logger.error('Erreur synchronisation pointages hors ligne:', err)
+    } finally {
+      await refreshPendingSyncCount()
+    }
+  }, [loadAllShifts, refreshPendingSyncCount])
+
+  useEffect(() => {
+    syncPendingEvents()
+    window.addEventListener('online', syncPendingEvents)
+    return () => window.removeEventListener('online', syncPendingEvents)
+  }, [syncPendingEvents])
+
   const handleRetroactiveValidation = useCallback(async (
     shiftId: string,
     startTime: string,
@@ -263,12 +426,14 @@ export function useClockIn(
     setIsSubmitting(true)
 
     try {
-      await updateShift(shiftId, {
-        status: 'completed',
-        startTime,
-        endTime,
-        lateEntry: true,
-      })
+      // Heures déclarées a posteriori : heures réelles, soumises au rapprochement
+      const shiftDate = new Date(shift.date)
+      await recordRetroactiveClockTimes(
+        shiftId,
+        createDateTime(shiftDate, startTime),
+        getShiftEndDateTime(shiftDate, startTime, endTime)
+      )
+      await updateShift(shiftId, { status: 'completed', lateEntry: true })
 
       // Compliance check
       try {
@@ -316,13 +481,7 @@ export function useClockIn(
     }
   }, [profile, allFetchedShifts, loadAllShifts])
 
-  const handleCancel = () => {
-    setActiveShiftId(null)
-    setClockInTime(null)
-    setStep('idle')
-    setHasNightAction(false)
-    setTimeout(() => idleSectionRef.current?.focus(), 100)
-  }
+  const handleCancel = resetClock
 
   return {
     profile,
@@ -331,6 +490,7 @@ export function useClockIn(
     isLoadingShifts,
     isLoadingHistory,
     isSubmitting,
+    pendingSyncCount,
     historyDays,
     setHistoryDays,
     // Shifts
@@ -347,6 +507,9 @@ export function useClockIn(
     setHasNightAction,
     hasNightHours,
     nightHoursForActive,
+    taskCompletions,
+    setTaskCompletions,
+    isTaskChecklistComplete,
     // Date navigation
     selectedDate,
     setSelectedDate,
@@ -357,8 +520,10 @@ export function useClockIn(
     handleClockOut,
     handleCancel,
     handleRetroactiveValidation,
+    handleQrScan,
     // Reload
     loadAllShifts,
+    syncPendingEvents,
     // Refs forwarding
     inProgressRef,
     idleSectionRef,
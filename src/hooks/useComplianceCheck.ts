@@ -3,7 +3,7 @@
  */
 
 import { useState, useEffect, useMemo, useCallback } from 'react'
-import type { ComplianceResult, ComputedPay, GuardSegment } from '@/types'
+import type { ComplianceResult, ComputedPay, GuardSegment, PayRateSet } from '@/types'
 import {
   validateShift,
   quickValidate,
@@ -47,6 +47,9 @@ interface UseComplianceCheckOptions {
 
   // Délai avant validation (debounce)
   debounceMs?: number
+
+  // Taux de majoration de l'employeur (défaut : barème IDCC 3239)
+  rateSet?: PayRateSet
 }
 
 interface UseComplianceCheckResult {
@@ -79,6 +82,7 @@ export function useComplianceCheck({
   approvedAbsences = [],
   editingShiftId,
   debounceMs = 300,
+  rateSet,
 }: UseComplianceCheckOptions): UseComplianceCheckResult {
   const [complianceResult, setComplianceResult] = useState<ComplianceResult | null>(null)
   const [computedPay, setComputedPay] = useState<ComputedPay | null>(null)
@@ -164,7 +168,7 @@ export function useComplianceCheck({
             weeklyHours: contract.weeklyHours,
             hourlyRate: contract.hourlyRate,
           }
-          const pay = calculateShiftPay(shiftForValidation, contractForCalc, existingShifts)
+          const pay = calculateShiftPay(shiftForValidation, contractForCalc, existingShifts, false, rateSet)
           setComputedPay(pay)
         } catch (error) {
           logger.error('Erreur calcul paie:', error)
@@ -174,7 +178,7 @@ export function useComplianceCheck({
     } finally {
       setIsValidating(false)
     }
-  }, [shiftForValidation, existingShifts, approvedAbsences, contract])
+  }, [shiftForValidation, existingShifts, approvedAbsences, contract, rateSet])
 
   // Validation avec debounce
   useEffect(() => {
@@ -0,0 +1,181 @@
+import { useState, useEffect, useMemo } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { format, parseISO } from 'date-fns'
+import { logger } from '@/lib/logger'
+import {
+  diffContractTerms,
+  isInForce,
+  resolveContractTerms,
+  sortTermsVersions,
+  type ContractTerms,
+  type TermsChange,
+} from '@/lib/contract/amendments'
+import { amendmentSchema } from '@/lib/validation/contractSchemas'
+import type { AmendmentFormData, AmendmentFormInput } from '@/lib/validation/contractSchemas'
+import { createContractAmendment, getContractAmendments } from '@/services/contractAmendmentService'
+import { requestAmendmentSignature, SIGNATURE_ERROR_MESSAGES } from '@/services/signatureService'
+import type { Contract, ContractAmendment } from '@/types'
+
+interface UseContractAmendmentsOptions {
+  contract: Contract
+  onAmended: () => void
+}
+
+export interface AmendmentTimelineEntry {
+  amendment: ContractAmendment
+  isInitial: boolean
+  isCurrent: boolean
+  isUpcoming: boolean
+  changes: TermsChange[]
+}
+
+export function useContractAmendments({ contract, onAmended }: UseContractAmendmentsOptions) {
+  const [versions, setVersions] = useState<ContractAmendment[]>([])
+  const [loadedContractId, setLoadedContractId] = useState<string | null>(null)
+
+  const [showForm, setShowForm] = useState(false)
+  const [signedPdf, setSignedPdf] = useState<File | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [submitError, setSubmitError] = useState<string | null>(null)
+  const [requestingId, setRequestingId] = useState<string | null>(null)
+
+  const isLoading = loadedContractId !== contract.id
+
+  const form = useForm<AmendmentFormInput, unknown, AmendmentFormData>({
+    resolver: zodResolver(amendmentSchema),
+  })
+
+  useEffect(() => {
+    let cancelled = false
+    getContractAmendments(contract.id)
+      .then((list) => {
+        if (!cancelled) setVersions(list)
+      })
+      .finally(() => {
+        if (!cancelled) setLoadedContractId(contract.id)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [contract.id])
+
+  // Conditions en vigueur aujourd'hui (un avenant à venir n'est pas encore appliqué)
+  const currentTerms = useMemo<ContractTerms>(
+    () =>
+      resolveContractTerms(
+        { weeklyHours: contract.weeklyHours, hourlyRate: contract.hourlyRate, pasRate: contract.pasRate },
+        versions,
+        new Date()
+      ),
+    [contract, versions]
+  )
+
+  // Du plus récent au plus ancien
+  const timeline = useMemo<AmendmentTimelineEntry[]>(() => {
+    const sorted = sortTermsVersions(versions)
+    const currentIndex = sorted.reduce((last, version, i) => (isInForce(version) ? i : last), 0)
+    return sorted
+      .map((amendment, i) => ({
+        amendment,
+        isInitial: i === 0,
+        isCurrent: i === currentIndex,
+        isUpcoming: !isInForce(amendment),
+        changes: i === 0 ? [] : diffContractTerms(sorted[i - 1], amendment),
+      }))
+      .reverse()
+  }, [versions])
+
+  const openForm = () => {
+    form.reset({
+      effectiveDate: format(new Date(), 'yyyy-MM-dd'),
+      weeklyHours: currentTerms.weeklyHours,
+      hourlyRate: currentTerms.hourlyRate,
+      pasRate: Math.round(currentTerms.pasRate * 10000) / 100,
+      reason: '',
+    })
+    setSignedPdf(null)
+    setSubmitError(null)
+    setShowForm(true)
+  }
+
+  const closeForm = () => {
+    setShowForm(false)
+    setSignedPdf(null)
+    setSubmitError(null)
+  }
+
+  const onSubmit = form.handleSubmit(async (data) => {
+    const effectiveDate = parseISO(data.effectiveDate)
+    if (data.effectiveDate < format(contract.startDate, 'yyyy-MM-dd')) {
+      form.setError('effectiveDate', { message: 'L\'avenant ne peut pas précéder le début du contrat' })
+      return
+    }
+    if (versions.some((v) => format(v.effectiveDate, 'yyyy-MM-dd') === data.effectiveDate)) {
+      form.setError('effectiveDate', { message: 'Un avenant prend déjà effet à cette date' })
+      return
+    }
+
+    const terms = { weeklyHours: data.weeklyHours, hourlyRate: data.hourlyRate, pasRate: data.pasRate / 100 }
+    const previous = resolveContractTerms(currentTerms, versions, effectiveDate)
+    if (diffContractTerms(previous, terms).length === 0) {
+      setSubmitError('Les conditions saisies sont identiques à celles déjà en vigueur à cette date')
+      return
+    }
+
+    setIsSubmitting(true)
+    setSubmitError(null)
+    try {
+      const created = await createContractAmendment(
+        {
+          contractId: contract.id,
+          employerId: contract.employerId,
+          employeeId: contract.employeeId!,
+          effectiveDate,
+          ...terms,
+          reason: data.reason,
+        },
+        signedPdf ?? undefined
+      )
+      setVersions((prev) => sortTermsVersions([...prev, created]))
+      setShowForm(false)
+      setSignedPdf(null)
+      onAmended()
+    } catch (error) {
+      logger.error('Erreur création avenant:', error)
+      setSubmitError(error instanceof Error ? error.message : 'Une erreur est survenue')
+    } finally {
+      setIsSubmitting(false)
+    }
+  })
+
+  /** Soumet l'avenant à la signature électronique des deux parties */
+  const requestSignature = async (amendment: ContractAmendment): Promise<string | null> => {
+    setRequestingId(amendment.id)
+    const result = await requestAmendmentSignature(contract, amendment)
+    setRequestingId(null)
+    return result.success ? null : SIGNATURE_ERROR_MESSAGES[result.error]
+  }
+
+  return {
+    // State
+    isLoading,
+    showForm,
+    isSubmitting,
+    submitError,
+    signedPdf,
+    setSignedPdf,
+    requestingId,
+    // Form
+    register: form.register,
+    errors: form.formState.errors,
+    // Computed
+    currentTerms,
+    timeline,
+    // Handlers
+    openForm,
+    closeForm,
+    onSubmit,
+    requestSignature,
+  }
+}
@@ -0,0 +1,293 @@
+import { useState, useEffect, useMemo } from 'react'
+import { format, parseISO, isValid, isBefore } from 'date-fns'
+import { logger } from '@/lib/logger'
+import {
+  computeReferenceSalary,
+  computeTerminationSettlement,
+  getEarliestMutualAgreementEndDate,
+} from '@/lib/contract/termination'
+import {
+  generateFinalPayStatementPdf,
+  generateWorkCertificatePdf,
+  generateFranceTravailCertificatePdf,
+  TERMINATION_DOCUMENT_TITLES,
+  type TerminationDocumentsData,
+} from '@/lib/export'
+import type { ExportResult } from '@/lib/export/types'
+import {
+  getTerminationContext,
+  recordContractTermination,
+  type TerminationContext,
+} from '@/services/contractTerminationService'
+import { saveEmployeeDocument } from '@/services/employeeDocumentService'
+import { getEmployee, getEmployer, getProfileName } from '@/services/profileService'
+import type { Address, EmployeeDocument, EmployeeDocumentType, TerminationReason } from '@/types'
+
+interface UseContractTerminationOptions {
+  isOpen: boolean
+  contractId: string
+  onTerminated: () => void
+}
+
+interface PartiesInfo {
+  employerName: string
+  employerAddress?: string
+  cesuNumber?: string
+  employeeName: string
+  employeeAddress?: string
+  socialSecurityNumber?: string
+}
+
+const DOCUMENT_GENERATORS: Record<EmployeeDocumentType, (data: TerminationDocumentsData) => Promise<ExportResult>> = {
+  final_pay_statement: generateFinalPayStatementPdf,
+  work_certificate: generateWorkCertificatePdf,
+  france_travail_certificate: generateFranceTravailCertificatePdf,
+}
+
+function formatAddress(address?: Address): string | undefined {
+  if (!address?.street) return undefined
+  return `${address.street}, ${address.postalCode} ${address.city}`.trim()
+}
+
+function parseDateInput(value: string): Date | null {
+  if (!value) return null
+  const date = parseISO(value)
+  return isValid(date) ? date : null
+}
+
+async function loadParties(context: TerminationContext): Promise<PartiesInfo> {
+  const { employerId, employeeId } = context.contract
+  const [employerName, employeeName, employer, employee] = await Promise.all([
+    getProfileName(employerId),
+    getProfileName(employeeId!),
+    getEmployer(employerId),
+    getEmployee(employeeId!),
+  ])
+  return {
+    employerName,
+    employerAddress: formatAddress(employer?.address),
+    cesuNumber: employer?.cesuNumber,
+    employeeName,
+    employeeAddress: formatAddress(employee?.address),
+    socialSecurityNumber: employee?.socialSecurityNumber,
+  }
+}
+
+export function useContractTermination({ isOpen, contractId, onTerminated }: UseContractTerminationOptions) {
+  const [context, setContext] = useState<TerminationContext | null>(null)
+  const [parties, setParties] = useState<PartiesInfo | null>(null)
+  const [loadedContractId, setLoadedContractId] = useState<string | null>(null)
+  const [loadError, setLoadError] = useState<string | null>(null)
+
+  const [step, setStep] = useState(0)
+  const [reason, setReason] = useState<TerminationReason>('dismissal')
+  const [notificationDate, setNotificationDate] = useState(format(new Date(), 'yyyy-MM-dd'))
+  const [agreedEndDate, setAgreedEndDate] = useState('')
+  const [noticeWaived, setNoticeWaived] = useState(false)
+  const [outstandingSalary, setOutstandingSalary] = useState(0)
+
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [submitError, setSubmitError] = useState<string | null>(null)
+  const [documents, setDocuments] = useState<EmployeeDocument[]>([])
+
+  const isLoading = isOpen && loadedContractId !== contractId
+  // La rupture conventionnelle n'a pas de préavis à dispenser
+  const effectiveNoticeWaived = reason !== 'mutual_agreement' && noticeWaived
+
+  useEffect(() => {
+    if (!isOpen || !contractId) return
+    let cancelled = false
+
+    getTerminationContext(contractId)
+      .then(async (data) => {
+        if (!data) throw new Error('Contrat introuvable')
+        const info = await loadParties(data)
+        if (cancelled) return
+        setContext(data)
+        setParties(info)
+        setLoadError(null)
+      })
+      .catch((error) => {
+        logger.error('Erreur chargement fin de contrat:', error)
+        if (!cancelled) setLoadError('Impossible de charger les informations du contrat')
+      })
+      .finally(() => {
+        if (!cancelled) setLoadedContractId(contractId)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [isOpen, contractId])
+
+  const monthlySalary = context ? context.contract.weeklyHours * 4.33 * context.contract.hourlyRate : 0
+
+  const referenceSalary = useMemo(() => {
+    if (!context) return 0
+    return computeReferenceSalary(context.recentPayslips.map((p) => p.grossPay ?? 0), monthlySalary)
+  }, [context, monthlySalary])
+
+  const parsedNotificationDate = useMemo(() => parseDateInput(notificationDate), [notificationDate])
+  const parsedAgreedEndDate = useMemo(() => parseDateInput(agreedEndDate), [agreedEndDate])
+
+  const earliestAgreedEndDate = useMemo(
+    () => (parsedNotificationDate ? getEarliestMutualAgreementEndDate(parsedNotificationDate) : null),
+    [parsedNotificationDate]
+  )
+
+  const dateError = useMemo(() => {
+    if (!parsedNotificationDate) return 'Date de notification requise'
+    if (context && isBefore(parsedNotificationDate, context.contract.startDate)) {
+      return 'La notification ne peut pas précéder le début du contrat'
+    }
+    if (reason === 'mutual_agreement' && parsedAgreedEndDate && earliestAgreedEndDate
+      && isBefore(parsedAgreedEndDate, earliestAgreedEndDate)) {
+      return `Fin possible au plus tôt le ${format(earliestAgreedEndDate, 'dd/MM/yyyy')} (rétractation et homologation)`
+    }
+    return null
+  }, [parsedNotificationDate, parsedAgreedEndDate, earliestAgreedEndDate, reason, context])
+
+  const settlement = useMemo(() => {
+    if (!context || !parsedNotificationDate) return null
+    return computeTerminationSettlement({
+      reason,
+      contractStartDate: context.contract.startDate,
+      notificationDate: parsedNotificationDate,
+      agreedEndDate: reason === 'mutual_agreement' ? parsedAgreedEndDate ?? undefined : undefined,
+      noticeWaived: effectiveNoticeWaived,
+      referenceSalary,
+      monthlySalary,
+      remainingLeaveDays: context.remainingLeaveDays,
+      leaveTenthBasis: context.leaveTenthBasis,
+      outstandingSalary: Math.max(outstandingSalary || 0, 0),
+    })
+  }, [context, parsedNotificationDate, parsedAgreedEndDate, reason, effectiveNoticeWaived, referenceSalary, monthlySalary, outstandingSalary])
+
+  const reset = () => {
+    setStep(0)
+    setReason('dismissal')
+    setNotificationDate(format(new Date(), 'yyyy-MM-dd'))
+    setAgreedEndDate('')
+    setNoticeWaived(false)
+    setOutstandingSalary(0)
+    setSubmitError(null)
+    setDocuments([])
+    setLoadedContractId(null)
+  }
+
+  const onSubmit = async () => {
+    if (!context || !parties || !settlement || !parsedNotificationDate) return
+    const { contract } = context
+
+    setIsSubmitting(true)
+    setSubmitError(null)
+
+    try {
+      await recordContractTermination({
+        contractId: contract.id,
+        employerId: contract.employerId,
+        employeeId: contract.employeeId!,
+        reason,
+        notificationDate: parsedNotificationDate,
+        endDate: settlement.endDate,
+        noticeWaived: effectiveNoticeWaived,
+        seniorityMonths: settlement.seniorityMonths,
+        referenceSalary,
+        remainingLeaveDays: context.remainingLeaveDays,
+        outstandingSalary: Math.max(outstandingSalary || 0, 0),
+        leaveIndemnity: settlement.leaveIndemnity,
+        noticeIndemnity: settlement.noticeIndemnity,
+        severancePay: settlement.severancePay,
+        totalAmount: settlement.total,
+      })
+
+      const data: TerminationDocumentsData = {
+        ...parties,
+        contractType: contract.contractType,
+        contractStartDate: contract.startDate,
+        weeklyHours: contract.weeklyHours,
+        reason,
+        notificationDate: parsedNotificationDate,
+        endDate: settlement.endDate,
+        notice: settlement.notice,
+        noticeWaived: effectiveNoticeWaived,
+        lines: settlement.lines,
+        total: settlement.total,
+        salaryHistory: context.recentPayslips.map((p) => ({
+          year: p.year,
+          month: p.month,
+          grossPay: p.grossPay ?? 0,
+          hours: p.totalHours,
+        })),
+        generatedAt: new Date(),
+      }
+
+      // Le contrat est clos : un document en échec n'annule pas la rupture
+      const filed: EmployeeDocument[] = []
+      for (const documentType of Object.keys(DOCUMENT_GENERATORS) as EmployeeDocumentType[]) {
+        try {
+          const result = await DOCUMENT_GENERATORS[documentType](data)
+          if (!result.success) throw new Error(result.error)
+          filed.push(
+            await saveEmployeeDocument(
+              {
+                employerId: contract.employerId,
+                employeeId: contract.employeeId!,
+                contractId: contract.id,
+                documentType,
+                title: TERMINATION_DOCUMENT_TITLES[documentType],
+              },
+              result.content
+            )
+          )
+        } catch (error) {
+          logger.error(`Erreur génération document ${documentType}:`, error)
+        }
+      }
+
+      setDocuments(filed)
+      if (filed.length < Object.keys(DOCUMENT_GENERATORS).length) {
+        setSubmitError('Le contrat est clos mais certains documents n\'ont pas pu être générés')
+      }
+      setStep(2)
+      onTerminated()
+    } catch (error) {
+      logger.error('Erreur fin de contrat:', error)
+      setSubmitError(error instanceof Error ? error.message : 'Une erreur est survenue')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return {
+    // State
+    step,
+    setStep,
+    isLoading,
+    loadError,
+    isSubmitting,
+    submitError,
+    context,
+    parties,
+    documents,
+    // Form values
+    reason,
+    setReason,
+    notificationDate,
+    setNotificationDate,
+    agreedEndDate,
+    setAgreedEndDate,
+    noticeWaived,
+    setNoticeWaived,
+    outstandingSalary,
+    setOutstandingSalary,
+    // Computed
+    referenceSalary,
+    earliestAgreedEndDate,
+    dateError,
+    settlement,
+    // Handlers
+    reset,
+    onSubmit,
+  }
+}
@@ -3,10 +3,13 @@
  * Wrapper autour du store Zustand (qui persiste localStorage + Supabase).
  */
 
-import { useEffect } from 'react'
+import { useEffect, useMemo, useState } from 'react'
 import { useConventionSettingsStore, subscribeSyncToDb } from '@/stores/conventionSettingsStore'
 import { useAuthStore } from '@/stores/authStore'
+import { getConventionSettings } from '@/services/conventionSettingsService'
 import type { ConventionSettings } from '@/services/conventionSettingsService'
+import { getPayRateSet } from '@/lib/compliance'
+import type { PayRateSet } from '@/types'
 
 export function useConventionSettings() {
   const profile = useAuthStore(s => s.profile)
@@ -39,6 +42,9 @@ export function useConventionSettings() {
     majFerie: store.majFerie,
     majNuit: store.majNuit,
     majSupp: store.majSupp,
+    mileageRate: store.mileageRate,
+    leaveCarryOverPolicy: store.leaveCarryOverPolicy,
+    leaveCarryOverCap: store.leaveCarryOverCap,
     isLoading: store.isLoading,
 
     // Actions
@@ -46,3 +52,46 @@ export function useConventionSettings() {
     resetToDefaults: store.resetToDefaults,
   }
 }
+
+/**
+ * Taux de majoration applicables aux interventions d'un employeur.
+ * L'employeur connecté lit son propre store ; un employé ou un aidant
+ * charge les paramètres de l'employeur (lecture seule).
+ * Tant que rien n'est chargé, le barème IDCC 3239 par défaut s'applique.
+ */
+export function useEmployerPayRateSet(employerId: string | undefined): PayRateSet {
+  const profileId = useAuthStore(s => s.profile?.id)
+  const isOwnSettings = !!employerId && employerId === profileId
+
+  const own = useConventionSettingsStore()
+  const [remote, setRemote] = useState<ConventionSettings | null>(null)
+
+  useEffect(() => {
+    if (isOwnSettings && profileId && !own.isSynced && !own.isLoading) {
+      own.loadFromDb(profileId)
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOwnSettings, profileId])
+
+  useEffect(() => {
+    if (!employerId || isOwnSettings) return
+    let cancelled = false
+    getConventionSettings(employerId).then((settings) => {
+      if (!cancelled) setRemote(settings)
+    })
+    return () => { cancelled = true }
+  }, [employerId, isOwnSettings])
+
+  return useMemo(() => {
+    if (isOwnSettings) {
+      return getPayRateSet({
+        majDimanche: own.majDimanche,
+        majFerie: own.majFerie,
+        majNuit: own.majNuit,
+        majSupp: own.majSupp,
+        ruleOvertime: own.ruleOvertime,
+      })
+    }
+    return getPayRateSet(remote)
+  }, [isOwnSettings, remote, own.majDimanche, own.majFerie, own.majNuit, own.majSupp, own.ruleOvertime])
+}
@@ -0,0 +1,116 @@
+import { useCallback, useId, useMemo, useState, type KeyboardEvent, type RefObject } from 'react'
+import {
+  filterMentionCandidates,
+  findMentionQuery,
+  insertMention,
+  mentionLabel,
+  type MentionCandidate,
+} from '@/lib/liaison/mentions'
+
+interface UseMentionAutocompleteOptions {
+  candidates: MentionCandidate[]
+  value: string
+  onChange: (value: string) => void
+  textareaRef: RefObject<HTMLTextAreaElement | null>
+}
+
+export interface UseMentionAutocompleteReturn {
+  suggestions: MentionCandidate[]
+  activeIndex: number
+  isOpen: boolean
+  listboxId: string
+  optionId: (index: number) => string
+  /** À appeler à chaque saisie, avec la valeur et la position du curseur */
+  update: (value: string, caret: number | null) => void
+  /** Renvoie true si la touche a été consommée par la liste de suggestions */
+  handleKeyDown: (e: KeyboardEvent<HTMLTextAreaElement>) => boolean
+  select: (candidate: MentionCandidate) => void
+  close: () => void
+}
+
+/**
+ * Autocomplétion des mentions @Prénom dans une zone de texte : la liste
+ * s'ouvre après "@", se parcourt au clavier (flèches, Entrée/Tab, Échap)
+ * et insère le libellé de la personne choisie.
+ */
+export function useMentionAutocomplete({
+  candidates,
+  value,
+  onChange,
+  textareaRef,
+}: UseMentionAutocompleteOptions): UseMentionAutocompleteReturn {
+  const [mention, setMention] = useState<{ start: number; caret: number; query: string } | null>(null)
+  const [activeIndex, setActiveIndex] = useState(0)
+  const listboxId = useId()
+
+  const suggestions = useMemo(
+    () => (mention ? filterMentionCandidates(candidates, mention.query) : []),
+    [candidates, mention]
+  )
+  const isOpen = suggestions.length > 0
+
+  const update = useCallback((next: string, caret: number | null) => {
+    const found = candidates.length > 0 ? findMentionQuery(next, caret ?? next.length) : null
+    setMention(found && { ...found, caret: caret ?? next.length })
+    setActiveIndex(0)
+  }, [candidates.length])
+
+  const close = useCallback(() => setMention(null), [])
+
+  const select = useCallback((candidate: MentionCandidate) => {
+    if (!mention) return
+    const result = insertMention(value, mention.start, mention.caret, mentionLabel(candidate, candidates))
+    onChange(result.text)
+    setMention(null)
+
+    // Replacer le curseur après la mention, une fois la valeur appliquée
+    requestAnimationFrame(() => {
+      const textarea = textareaRef.current
+      if (!textarea) return
+      textarea.focus()
+      textarea.setSelectionRange(result.caret, result.caret)
+    })
+  }, [mention, value, candidates, onChange, textareaRef])
+
+  const handleKeyDown = useCallback((e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!isOpen) return false
+
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault()
+        setActiveIndex((i) => (i + 1) % suggestions.length)
+        return true
+      case 'ArrowUp':
+        e.preventDefault()
+        setActiveIndex((i) => (i - 1 + suggestions.length) % suggestions.length)
+        return true
+      case 'Enter':
+      case 'Tab':
+        e.preventDefault()
+        select(suggestions[Math.min(activeIndex, suggestions.length - 1)])
+        return true
+      case 'Escape':
+        // Ferme la liste sans fermer la modale qui contient la saisie
+        e.preventDefault()
+        e.stopPropagation()
+        setMention(null)
+        return true
+      default:
+        return false
+    }
+  }, [isOpen, suggestions, activeIndex, select])
+
+  const optionId = useCallback((index: number) => `${listboxId}-option-${index}`, [listboxId])
+
+  return {
+    suggestions,
+    activeIndex,
+    isOpen,
+    listboxId,
+    optionId,
+    update,
+    handleKeyDown,
+    select,
+    close,
+  }
+}
@@ -4,7 +4,8 @@ import { zodResolver } from '@hookform/resolvers/zod'
 import { format } from 'date-fns'
 import { logger } from '@/lib/logger'
 import { createCaregiverContract } from '@/services/contractService'
-import { PCH_RATES } from '@/types'
+import { getPchRates } from '@/lib/pch/pchTariffs'
+import { useRegulatoryParameters } from '@/hooks/useRegulatoryParameters'
 import {
   caregiverContractSchema,
   type CaregiverContractFormData,
@@ -27,6 +28,8 @@ export function useNewCaregiverContractForm({
 }: UseNewCaregiverContractFormOptions) {
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [submitError, setSubmitError] = useState<string | null>(null)
+  const regulatoryLoaded = useRegulatoryParameters()
+  const pchRates = getPchRates()
 
   const form = useForm<CaregiverContractFormData>({
     resolver: zodResolver(caregiverContractSchema),
@@ -35,10 +38,21 @@ export function useNewCaregiverContractForm({
       startDate: format(new Date(), 'yyyy-MM-dd'),
       weeklyHours: 10,
       caregiverStatus: 'active',
-      pchHourlyRate: PCH_RATES.active,
+      pchHourlyRate: pchRates.active,
     },
   })
 
+  // Taux PCH par défaut revalorisé une fois les paramètres réglementaires chargés
+  useEffect(() => {
+    if (
+      regulatoryLoaded &&
+      !form.getFieldState('pchHourlyRate').isDirty &&
+      form.getValues('caregiverStatus') === 'active'
+    ) {
+      form.setValue('pchHourlyRate', getPchRates().active)
+    }
+  }, [regulatoryLoaded, form])
+
   // Pré-sélectionner l'aidant quand defaultCaregiverId change
   useEffect(() => {
     if (defaultCaregiverId) {
@@ -51,7 +65,7 @@ export function useNewCaregiverContractForm({
   const watchRate = form.watch('pchHourlyRate')
 
   const isVoluntary = watchStatus === 'voluntary'
-  const statusRate = watchStatus === 'full_time' ? PCH_RATES.full_time : PCH_RATES.active
+  const statusRate = watchStatus === 'full_time' ? pchRates.full_time : pchRates.active
 
   const caregiverOptions = caregivers.map((c) => ({
     value: c.profileId,
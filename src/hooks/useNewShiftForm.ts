@@ -10,6 +10,7 @@ import {
 import { format } from 'date-fns'
 import { createShift } from '@/services/shiftService'
 import { useComplianceCheck } from '@/hooks/useComplianceCheck'
+import { useEmployerPayRateSet } from '@/hooks/useConventionSettings'
 import { logger } from '@/lib/logger'
 import { toaster } from '@/lib/toaster'
 import type { ShiftType } from '@/types'
@@ -159,6 +160,8 @@ export function useNewShiftForm({
     }
   }, [watchedValues, contracts, hasNightHours, hasNightAction, shiftType, nightInterventionsCount, guardSegments])
 
+  const payRateSet = useEmployerPayRateSet(employerId)
+
   const {
     complianceResult,
     computedPay,
@@ -173,6 +176,7 @@ export function useNewShiftForm({
       : null,
     existingShifts,
     approvedAbsences,
+    rateSet: payRateSet,
   })
 
   // Reset du formulaire à l'ouverture
@@ -223,6 +227,7 @@ export function useNewShiftForm({
         isRequalified,
         effectiveHours: effectiveHoursComputed ?? undefined,
         guardSegments: shiftType === 'guard_24h' ? guardSegments : undefined,
+        computedPay: computedPay ?? undefined,
       })
 
       toaster.success({ title: 'Intervention créée avec succès' })
@@ -0,0 +1,22 @@
+/**
+ * Hook de chargement des paramètres réglementaires publiés en base.
+ * Les composants qui résolvent un paramètre au rendu (tarifs PCH…) sont
+ * re-rendus une fois les revalorisations fusionnées dans le registre.
+ */
+
+import { useEffect, useState } from 'react'
+import { loadRegulatoryParameters } from '@/services/regulatoryParametersService'
+
+export function useRegulatoryParameters(): boolean {
+  const [isLoaded, setIsLoaded] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    loadRegulatoryParameters().then(() => {
+      if (!cancelled) setIsLoaded(true)
+    })
+    return () => { cancelled = true }
+  }, [])
+
+  return isLoaded
+}
@@ -1,5 +1,6 @@
 import { useState, useMemo } from 'react'
-import { generateRepeatDates, type RepeatFrequency } from '@/lib/shifts/repeatDates'
+import { generateRepeatDates, toSeriesRule, type RepeatConfig, type RepeatFrequency } from '@/lib/shifts/repeatDates'
+import type { SeriesRule } from '@/lib/shifts/series'
 
 export interface RepeatConfigState {
   isRepeatEnabled: boolean
@@ -9,6 +10,8 @@ export interface RepeatConfigState {
   repeatCount: number | undefined
   endDate: string
   generatedDates: Date[]
+  /** Règle de la série correspondante (null si répétition désactivée) */
+  seriesRule: SeriesRule | null
   // Actions
   setIsRepeatEnabled: (v: boolean) => void
   setFrequency: (f: RepeatFrequency) => void
@@ -47,19 +50,22 @@ export function useRepeatConfig(baseDate?: Date, initialEnabled = false): Repeat
     setOverride({ baseDay: currentBaseDay ?? -1, days: next })
   }
 
-  const generatedDates = useMemo(() => {
-    if (!isRepeatEnabled || !baseDate) return []
+  const config = useMemo((): RepeatConfig | null => {
+    if (!isRepeatEnabled || !baseDate) return null
 
-    return generateRepeatDates({
+    return {
       startDate: baseDate,
       frequency,
       daysOfWeek: frequency === 'weekly' ? daysOfWeek : undefined,
       intervalDays: frequency === 'custom' ? intervalDays : undefined,
       repeatCount: endDate ? undefined : repeatCount,
       endDate: endDate ? new Date(endDate) : undefined,
-    })
+    }
   }, [isRepeatEnabled, baseDate, frequency, daysOfWeek, intervalDays, repeatCount, endDate])
 
+  const generatedDates = useMemo(() => (config ? generateRepeatDates(config) : []), [config])
+  const seriesRule = useMemo(() => (config ? toSeriesRule(config) : null), [config])
+
   return {
     isRepeatEnabled,
     frequency,
@@ -68,6 +74,7 @@ export function useRepeatConfig(baseDate?: Date, initialEnabled = false): Repeat
     repeatCount,
     endDate,
     generatedDates,
+    seriesRule,
     setIsRepeatEnabled,
     setFrequency,
     toggleDayOfWeek,
@@ -13,6 +13,7 @@ import { useShiftNightHours } from '@/hooks/useShiftNightHours'
 import { useShiftRequalification } from '@/hooks/useShiftRequalification'
 import { useShiftEffectiveHours } from '@/hooks/useShiftEffectiveHours'
 import { useComplianceCheck } from '@/hooks/useComplianceCheck'
+import { useEmployerPayRateSet } from '@/hooks/useConventionSettings'
 
 interface UseShiftEditLogicProps {
   isEditing: boolean
@@ -108,6 +109,8 @@ export function useShiftEditLogic({
     nightInterventionsCount,
   ])
 
+  const payRateSet = useEmployerPayRateSet(contract?.employerId)
+
   const {
     complianceResult,
     computedPay,
@@ -121,6 +124,7 @@ export function useShiftEditLogic({
       ? { weeklyHours: contract.weeklyHours, hourlyRate: contract.hourlyRate }
       : null,
     existingShifts: existingShifts.filter((s) => s.id !== shift?.id),
+    rateSet: payRateSet,
   })
 
   return {
@@ -0,0 +1,45 @@
+/**
+ * Hook pour la check-list des tâches d'une intervention terminée, vue depuis
+ * le détail de l'intervention. Chaque modification est enregistrée aussitôt
+ * (mise à jour optimiste, annulée en cas d'erreur).
+ */
+
+import { useState } from 'react'
+import { updateShift } from '@/services/shiftService'
+import { isChecklistComplete } from '@/lib/shifts/taskChecklist'
+import { logger } from '@/lib/logger'
+import { toaster } from '@/lib/toaster'
+import type { Shift, ShiftTaskCompletion } from '@/types'
+
+export function useShiftTaskChecklist(shift: Shift | null) {
+  // Saisie locale, rattachée à l'intervention pour ne pas déborder sur la suivante
+  const [draft, setDraft] = useState<{ shiftId: string; completions: ShiftTaskCompletion[] } | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const taskCompletions = shift && draft?.shiftId === shift.id
+    ? draft.completions
+    : shift?.taskCompletions ?? []
+
+  const isComplete = shift ? isChecklistComplete(shift.tasks, taskCompletions) : true
+
+  const updateTaskCompletions = async (completions: ShiftTaskCompletion[]) => {
+    if (!shift) return
+    const previous = taskCompletions
+    setDraft({ shiftId: shift.id, completions })
+    setIsSaving(true)
+    try {
+      await updateShift(shift.id, { taskCompletions: completions })
+    } catch (err) {
+      logger.error('Erreur enregistrement check-list:', err)
+      setDraft({ shiftId: shift.id, completions: previous })
+      toaster.error({
+        title: 'Erreur',
+        description: err instanceof Error ? err.message : "Impossible d'enregistrer la check-list.",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return { taskCompletions, isComplete, isSaving, updateTaskCompletions }
+}
@@ -56,6 +56,21 @@ vi.mock('@/services/documentService', () => ({
   getDocumentsForEmployer: vi.fn().mockResolvedValue([]),
 }))
 
+const mockSearchFullText = vi.fn()
+
+vi.mock('@/services/fullTextSearchService', () => ({
+  searchFullText: (...args: unknown[]) => mockSearchFullText(...args),
+}))
+
+const serverResult = (id: string) => ({
+  id: `log-${id}`,
+  category: 'logbook' as const,
+  icon: 'book',
+  title: 'Information',
+  snippet: 'a pris son [[repas]]',
+  href: '/cahier-de-liaison',
+})
+
 // ── Helpers ──────────────────────────────────────────────────────────────────
 
 function wrapper({ children }: { children: React.ReactNode }) {
@@ -67,6 +82,8 @@ function wrapper({ children }: { children: React.ReactNode }) {
 describe('useSpotlightSearch', () => {
   beforeEach(() => {
     vi.useFakeTimers()
+    mockSearchFullText.mockReset()
+    mockSearchFullText.mockResolvedValue({ results: [], hasMore: false })
   })
 
   it('démarre fermé avec query vide', () => {
@@ -170,6 +187,52 @@ describe('useSpotlightSearch', () => {
     expect(result.current.activeIndex).toBe(0)
   })
 
+  it('interroge la recherche plein texte quand les données chargées ne suffisent pas', async () => {
+    mockSearchFullText
+      .mockResolvedValueOnce({ results: [serverResult('1')], hasMore: true })
+      .mockResolvedValueOnce({ results: [serverResult('1'), serverResult('2')], hasMore: false })
+    const { result } = renderHook(() => useSpotlightSearch(), { wrapper })
+
+    act(() => {
+      result.current.open()
+    })
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(100)
+    })
+    act(() => {
+      result.current.setQuery('repas')
+    })
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(350)
+    })
+
+    expect(mockSearchFullText).toHaveBeenCalledWith('user-1', 'repas', { offset: 0 })
+    expect(result.current.results.map((r) => r.id)).toEqual(['log-1'])
+    expect(result.current.hasMore).toBe(true)
+
+    await act(async () => {
+      result.current.loadMore()
+      await vi.advanceTimersByTimeAsync(0)
+    })
+
+    expect(mockSearchFullText).toHaveBeenLastCalledWith('user-1', 'repas', { offset: 1 })
+    expect(result.current.results.map((r) => r.id)).toEqual(['log-1', 'log-2'])
+    expect(result.current.hasMore).toBe(false)
+  })
+
+  it('ne sollicite pas le serveur pour une requête courte', async () => {
+    const { result } = renderHook(() => useSpotlightSearch(), { wrapper })
+
+    act(() => {
+      result.current.setQuery('re')
+    })
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(350)
+    })
+
+    expect(mockSearchFullText).not.toHaveBeenCalled()
+  })
+
   it('écoute Ctrl+K pour toggle', () => {
     const { result } = renderHook(() => useSpotlightSearch(), { wrapper })
 
@@ -9,6 +9,7 @@ import { getShifts } from '@/services/shiftService'
 import { getLogEntries } from '@/services/logbookService'
 import { getConversations } from '@/services/liaisonService'
 import { getDocumentsForEmployer } from '@/services/documentService'
+import { searchFullText } from '@/services/fullTextSearchService'
 
 import {
   searchPages,
@@ -44,6 +45,11 @@ export interface UseSpotlightSearchReturn {
   activeIndex: number
   setActiveIndex: (i: number) => void
   isLoading: boolean
+  /** Recherche plein texte serveur en cours */
+  isSearchingServer: boolean
+  /** D'autres résultats serveur sont disponibles */
+  hasMore: boolean
+  loadMore: () => void
   handleKeyDown: (e: React.KeyboardEvent) => void
   selectResult: (result: SearchResult) => void
 }
@@ -52,6 +58,21 @@ export interface UseSpotlightSearchReturn {
 
 const DEBOUNCE_MS = 300
 
+/** Longueur minimale d'une requête envoyée à la recherche plein texte */
+const FULL_TEXT_MIN_QUERY_LENGTH = 3
+
+/**
+ * En dessous de ce nombre de résultats trouvés dans les données chargées
+ * (hors pages), on interroge la recherche plein texte serveur.
+ */
+const FULL_TEXT_CLIENT_THRESHOLD = 3
+
+/** Ajoute les résultats serveur absents de la liste (même id) */
+function mergeResults(current: SearchResult[], incoming: SearchResult[]): SearchResult[] {
+  const ids = new Set(current.map((r) => r.id))
+  return [...current, ...incoming.filter((r) => !ids.has(r.id))]
+}
+
 export function useSpotlightSearch(): UseSpotlightSearchReturn {
   const { profile, userRole } = useAuth()
   const { resolvedEmployerId, caregiverPermissions } = useEmployerResolution()
@@ -62,9 +83,44 @@ export function useSpotlightSearch(): UseSpotlightSearchReturn {
   const [results, setResults] = useState<SearchResult[]>([])
   const [activeIndex, setActiveIndex] = useState(0)
   const [isLoading, setIsLoading] = useState(false)
+  const [isSearchingServer, setIsSearchingServer] = useState(false)
+  const [hasMore, setHasMore] = useState(false)
 
   const dataCache = useRef<DataCache | null>(null)
   const fetchedForEmployer = useRef<string | null>(null)
+  // Ignore les réponses serveur d'une requête périmée
+  const serverRequestId = useRef(0)
+  const serverOffset = useRef(0)
+
+  const employerId = userRole === 'employer' ? profile?.id : resolvedEmployerId
+
+  const runServerSearch = useCallback(
+    async (searchQuery: string, offset: number) => {
+      if (!employerId) return
+      const requestId = ++serverRequestId.current
+      setIsSearchingServer(true)
+      try {
+        const page = await searchFullText(employerId, searchQuery, { offset })
+        if (requestId !== serverRequestId.current) return
+        serverOffset.current = offset + page.results.length
+        setResults((prev) => mergeResults(prev, page.results))
+        setHasMore(page.hasMore)
+      } catch (err) {
+        logger.error('SpotlightSearch: erreur recherche plein texte', err)
+      } finally {
+        if (requestId === serverRequestId.current) setIsSearchingServer(false)
+      }
+    },
+    [employerId],
+  )
+
+  /** Annule la recherche serveur en cours et sa pagination */
+  const resetServerSearch = useCallback(() => {
+    serverRequestId.current++
+    serverOffset.current = 0
+    setIsSearchingServer(false)
+    setHasMore(false)
+  }, [])
 
   // ── Fetch data on open ─────────────────────────────────────────────────
 
@@ -124,6 +180,8 @@ export function useSpotlightSearch(): UseSpotlightSearchReturn {
   // ── Debounced search ───────────────────────────────────────────────────
 
   useEffect(() => {
+    resetServerSearch()
+
     if (!query.trim()) {
       setResults([])
       setActiveIndex(0)
@@ -153,22 +211,37 @@ export function useSpotlightSearch(): UseSpotlightSearchReturn {
 
       setResults(all)
       setActiveIndex(0)
+
+      // Données plus anciennes ou jamais chargées : recherche serveur
+      const dataResults = all.length - pageResults.length
+      if (
+        query.trim().length >= FULL_TEXT_MIN_QUERY_LENGTH &&
+        dataResults < FULL_TEXT_CLIENT_THRESHOLD
+      ) {
+        runServerSearch(query, 0)
+      }
     }, DEBOUNCE_MS)
 
     return () => clearTimeout(timer)
-  }, [query, userRole, caregiverPermissions])
+  }, [query, userRole, caregiverPermissions, resetServerSearch, runServerSearch])
+
+  const loadMore = useCallback(() => {
+    if (!hasMore || isSearchingServer) return
+    runServerSearch(query, serverOffset.current)
+  }, [hasMore, isSearchingServer, query, runServerSearch])
 
   // ── Navigation ─────────────────────────────────────────────────────────
 
   const selectResult = useCallback(
     (result: SearchResult) => {
+      resetServerSearch()
       setIsOpen(false)
       setQuery('')
       setResults([])
       setActiveIndex(0)
       navigate(result.href)
     },
-    [navigate],
+    [navigate, resetServerSearch],
   )
 
   const handleKeyDown = useCallback(
@@ -192,11 +265,12 @@ export function useSpotlightSearch(): UseSpotlightSearchReturn {
   const open = useCallback(() => setIsOpen(true), [])
 
   const close = useCallback(() => {
+    resetServerSearch()
     setIsOpen(false)
     setQuery('')
     setResults([])
     setActiveIndex(0)
-  }, [])
+  }, [resetServerSearch])
 
   // ── Global Ctrl+K listener ─────────────────────────────────────────────
 
@@ -222,9 +296,15 @@ export function useSpotlightSearch(): UseSpotlightSearchReturn {
       activeIndex,
       setActiveIndex,
       isLoading,
+      isSearchingServer,
+      hasMore,
+      loadMore,
       handleKeyDown,
       selectResult,
     }),
-    [isOpen, open, close, query, results, activeIndex, isLoading, handleKeyDown, selectResult],
+    [
+      isOpen, open, close, query, results, activeIndex, isLoading,
+      isSearchingServer, hasMore, loadMore, handleKeyDown, selectResult,
+    ],
   )
 }
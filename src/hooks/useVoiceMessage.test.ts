@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { renderHook, act } from '@testing-library/react'
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn(), debug: vi.fn() },
+}))
+
+const mockStartVoiceRecording = vi.fn()
+const mockDecodeForWhisper = vi.fn()
+
+vi.mock('@/lib/voice/voiceRecorder', () => ({
+  MAX_VOICE_MESSAGE_MS: 120000,
+  MIN_VOICE_MESSAGE_MS: 500,
+  isVoiceRecordingSupported: () => true,
+  startVoiceRecording: () => mockStartVoiceRecording(),
+  decodeForWhisper: (blob: Blob) => mockDecodeForWhisper(blob),
+}))
+
+const mockTranscribe = vi.fn()
+
+vi.mock('@/lib/voice/whisperEngine', () => ({
+  getTranscriber: vi.fn().mockResolvedValue({}),
+  onProgress: () => () => {},
+  transcribe: (...args: unknown[]) => mockTranscribe(...args),
+}))
+
+import { useVoiceMessage } from './useVoiceMessage'
+
+const recorded = { blob: new Blob(['abc'], { type: 'audio/webm' }), mimeType: 'audio/webm', durationMs: 3000 }
+
+function mockRecording() {
+  const recording = { stop: vi.fn().mockResolvedValue(recorded), cancel: vi.fn() }
+  mockStartVoiceRecording.mockResolvedValue(recording)
+  return recording
+}
+
+describe('useVoiceMessage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockDecodeForWhisper.mockResolvedValue(new Float32Array(16000))
+    mockTranscribe.mockResolvedValue(' Pense à racheter du pain. ')
+  })
+
+  it('enregistre puis transcrit le message', async () => {
+    mockRecording()
+    const { result } = renderHook(() => useVoiceMessage())
+
+    await act(async () => {
+      await result.current.start()
+    })
+    expect(result.current.status).toBe('recording')
+
+    await act(async () => {
+      await result.current.stop()
+    })
+
+    expect(mockTranscribe).toHaveBeenCalledWith(expect.any(Float32Array), { longForm: true })
+    expect(result.current.status).toBe('ready')
+    expect(result.current.recording).toBe(recorded)
+    expect(result.current.transcript).toBe('Pense à racheter du pain.')
+  })
+
+  it('garde le message envoyable si la transcription échoue', async () => {
+    mockRecording()
+    mockTranscribe.mockRejectedValue(new Error('WebGPU indisponible'))
+    const { result } = renderHook(() => useVoiceMessage())
+
+    await act(async () => {
+      await result.current.start()
+    })
+    await act(async () => {
+      await result.current.stop()
+    })
+
+    expect(result.current.status).toBe('ready')
+    expect(result.current.recording).toBe(recorded)
+    expect(result.current.transcript).toBe('')
+    expect(result.current.error).toMatch(/Transcription automatique indisponible/)
+  })
+
+  it('ignore un simple clic sur le bouton', async () => {
+    const recording = mockRecording()
+    recording.stop.mockResolvedValue({ ...recorded, durationMs: 120 })
+    const { result } = renderHook(() => useVoiceMessage())
+
+    await act(async () => {
+      await result.current.start()
+    })
+    await act(async () => {
+      await result.current.stop()
+    })
+
+    expect(mockTranscribe).not.toHaveBeenCalled()
+    expect(result.current.status).toBe('idle')
+    expect(result.current.error).toMatch(/Maintenez le bouton/)
+  })
+
+  it('traduit un refus d\'accès au micro', async () => {
+    mockStartVoiceRecording.mockRejectedValue(new DOMException('denied', 'NotAllowedError'))
+    const { result } = renderHook(() => useVoiceMessage())
+
+    await act(async () => {
+      await result.current.start()
+    })
+
+    expect(result.current.status).toBe('idle')
+    expect(result.current.error).toMatch(/Accès au micro refusé/)
+  })
+
+  it('libère le micro à l\'annulation', async () => {
+    const recording = mockRecording()
+    const { result } = renderHook(() => useVoiceMessage())
+
+    await act(async () => {
+      await result.current.start()
+    })
+    act(() => {
+      result.current.cancel()
+    })
+
+    expect(recording.cancel).toHaveBeenCalled()
+    expect(recording.stop).not.toHaveBeenCalled()
+    expect(result.current.status).toBe('idle')
+  })
+
+  it('s\'arrête dès que le micro est prêt si le bouton a déjà été relâché', async () => {
+    let resolveStart: (value: unknown) => void = () => {}
+    const recording = { stop: vi.fn().mockResolvedValue(recorded), cancel: vi.fn() }
+    mockStartVoiceRecording.mockReturnValue(new Promise((resolve) => { resolveStart = resolve }))
+    const { result } = renderHook(() => useVoiceMessage())
+
+    let starting: Promise<void> = Promise.resolve()
+    act(() => {
+      starting = result.current.start()
+    })
+    await act(async () => {
+      await result.current.stop()
+    })
+    await act(async () => {
+      resolveStart(recording)
+      await starting
+    })
+
+    expect(recording.stop).toHaveBeenCalled()
+    expect(result.current.status).toBe('ready')
+  })
+})
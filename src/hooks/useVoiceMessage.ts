@@ -0,0 +1,199 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import {
+  MAX_VOICE_MESSAGE_MS,
+  MIN_VOICE_MESSAGE_MS,
+  isVoiceRecordingSupported,
+  startVoiceRecording,
+  type RecordedVoice,
+  type VoiceRecording,
+} from '@/lib/voice/voiceRecorder'
+import { formatVoiceError } from '@/lib/voice/errors'
+import { logger } from '@/lib/logger'
+
+export type VoiceMessageStatus = 'idle' | 'starting' | 'recording' | 'transcribing' | 'ready'
+
+export interface UseVoiceMessageReturn {
+  isSupported: boolean
+  status: VoiceMessageStatus
+  /** Enregistrement terminé, prêt à être envoyé */
+  recording: RecordedVoice | null
+  /** Transcription Whisper, modifiable avant l'envoi */
+  transcript: string
+  setTranscript: (value: string) => void
+  error: string | null
+  modelProgress: number
+  elapsedMs: number
+  start: () => Promise<void>
+  stop: () => Promise<void>
+  cancel: () => void
+  reset: () => void
+}
+
+/**
+ * Message vocal en push-to-talk : enregistre tant que le bouton est maintenu,
+ * puis transcrit localement avec Whisper (aucun audio n'est envoyé à un
+ * service tiers). La transcription accompagne le message : elle le rend
+ * cherchable et lisible par les participants sourds ou malentendants.
+ */
+export function useVoiceMessage(): UseVoiceMessageReturn {
+  const [isSupported] = useState(() => isVoiceRecordingSupported())
+  const [status, setStatus] = useState<VoiceMessageStatus>('idle')
+  const [recording, setRecording] = useState<RecordedVoice | null>(null)
+  const [transcript, setTranscript] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [modelProgress, setModelProgress] = useState(0)
+  const [elapsedMs, setElapsedMs] = useState(0)
+
+  const recordingRef = useRef<VoiceRecording | null>(null)
+  const timersRef = useRef<ReturnType<typeof setInterval>[]>([])
+  // Bouton relâché avant que le micro ne soit prêt → on s'arrête dès qu'il l'est
+  const pendingStopRef = useRef(false)
+  const stopRef = useRef<() => Promise<void>>(async () => {})
+  // Incrémenté à chaque annulation : ignore une transcription devenue obsolète
+  const sessionRef = useRef(0)
+
+  const clearTimers = useCallback(() => {
+    timersRef.current.forEach((t) => clearInterval(t))
+    timersRef.current = []
+  }, [])
+
+  const stop = useCallback(async () => {
+    const active = recordingRef.current
+    if (!active) {
+      pendingStopRef.current = true
+      return
+    }
+    recordingRef.current = null
+    clearTimers()
+    const session = sessionRef.current
+
+    let recorded: RecordedVoice
+    try {
+      recorded = await active.stop()
+    } catch (err) {
+      logger.error('Voice message recording error', err)
+      setError(formatVoiceError(err))
+      setStatus('idle')
+      return
+    }
+
+    if (recorded.durationMs < MIN_VOICE_MESSAGE_MS) {
+      setError('Maintenez le bouton appuyé pendant que vous parlez.')
+      setStatus('idle')
+      return
+    }
+
+    setRecording(recorded)
+    setTranscript('')
+    setStatus('transcribing')
+
+    try {
+      const [{ decodeForWhisper }, { getTranscriber, onProgress, transcribe }] = await Promise.all([
+        import('@/lib/voice/voiceRecorder'),
+        import('@/lib/voice/whisperEngine'),
+      ])
+      const unsubscribe = onProgress((e) => {
+        if (e.progress !== undefined) setModelProgress(e.progress)
+      })
+      try {
+        await getTranscriber()
+      } finally {
+        unsubscribe()
+      }
+      const audio = await decodeForWhisper(recorded.blob)
+      const text = await transcribe(audio, { longForm: true })
+      if (session !== sessionRef.current) return
+      setTranscript(text.trim())
+    } catch (err) {
+      if (session !== sessionRef.current) return
+      // Le message reste envoyable : la transcription est saisie à la main
+      logger.warn('Voice message transcription failed', err)
+      setError('Transcription automatique indisponible. Vous pouvez la saisir vous-même.')
+    }
+    setStatus('ready')
+  }, [clearTimers])
+
+  useEffect(() => {
+    stopRef.current = stop
+  }, [stop])
+
+  const start = useCallback(async () => {
+    if (!isSupported || recordingRef.current) return
+    pendingStopRef.current = false
+    setError(null)
+    setRecording(null)
+    setTranscript('')
+    setElapsedMs(0)
+    setStatus('starting')
+    const session = sessionRef.current
+
+    let active: VoiceRecording
+    try {
+      active = await startVoiceRecording()
+    } catch (err) {
+      logger.error('Voice message start error', err)
+      setError(formatVoiceError(err))
+      setStatus('idle')
+      return
+    }
+    if (session !== sessionRef.current) {
+      active.cancel()
+      return
+    }
+    recordingRef.current = active
+
+    setStatus('recording')
+    const startedAt = Date.now()
+    timersRef.current.push(
+      setInterval(() => setElapsedMs(Date.now() - startedAt), 250),
+      setTimeout(() => void stopRef.current(), MAX_VOICE_MESSAGE_MS),
+    )
+
+    if (pendingStopRef.current) await stopRef.current()
+  }, [isSupported])
+
+  const cancel = useCallback(() => {
+    sessionRef.current += 1
+    pendingStopRef.current = true
+    clearTimers()
+    recordingRef.current?.cancel()
+    recordingRef.current = null
+    setRecording(null)
+    setTranscript('')
+    setElapsedMs(0)
+    setStatus('idle')
+  }, [clearTimers])
+
+  const reset = useCallback(() => {
+    sessionRef.current += 1
+    setRecording(null)
+    setTranscript('')
+    setError(null)
+    setElapsedMs(0)
+    setStatus('idle')
+  }, [])
+
+  // Libère le micro si le composant est démonté en cours d'enregistrement
+  useEffect(
+    () => () => {
+      timersRef.current.forEach((t) => clearInterval(t))
+      recordingRef.current?.cancel()
+    },
+    [],
+  )
+
+  return {
+    isSupported,
+    status,
+    recording,
+    transcript,
+    setTranscript,
+    error,
+    modelProgress,
+    elapsedMs,
+    start,
+    stop,
+    cancel,
+    reset,
+  }
+}
@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import {
   calculateAcquiredDays,
+  calculateLeaveAccrual,
   calculateAcquiredFromMonths,
   calculateDefaultMonthsWorked,
   calculateRemainingDays,
@@ -8,6 +9,7 @@ import {
   getLeaveYearStartDate,
   getLeaveYearEndDate,
 } from './balanceCalculator'
+import type { Absence } from '@/types'
 
 describe('calculateAcquiredFromMonths', () => {
   it('devrait retourner 0 pour 0 mois', () => {
@@ -138,6 +140,95 @@ describe('calculateAcquiredDays', () => {
     const asOfDate = new Date('2025-12-01')
     expect(calculateAcquiredDays(contract, leaveYearStart, asOfDate)).toBe(0)
   })
+
+  it('devrait exclure les jours de congé sans solde', () => {
+    // 2 juin → 31 juil 2025 = 52 jours ouvrables, dont 6 sans solde
+    const contract = { startDate: new Date(2025, 5, 2), weeklyHours: 20 }
+    const absences = [
+      { absenceType: 'unpaid_leave' as const, startDate: new Date(2025, 5, 9), endDate: new Date(2025, 5, 14), status: 'approved' as const },
+    ]
+    expect(calculateAcquiredDays(contract, new Date(2025, 5, 1), new Date(2025, 6, 31))).toBe(5)
+    expect(calculateAcquiredDays(contract, new Date(2025, 5, 1), new Date(2025, 6, 31), absences)).toBe(3)
+  })
+})
+
+describe('calculateLeaveAccrual', () => {
+  const contract = { startDate: new Date(2025, 5, 2), weeklyHours: 20 }
+  const leaveYearStart = new Date(2025, 5, 1)
+
+  function absence(absenceType: Absence['absenceType'], startDate: Date, endDate: Date, status: Absence['status'] = 'approved') {
+    return { absenceType, startDate, endDate, status }
+  }
+
+  it('devrait détailler les jours ouvrables mois par mois', () => {
+    const result = calculateLeaveAccrual(contract, leaveYearStart, new Date(2025, 6, 31))
+
+    expect(result.months).toHaveLength(2)
+    expect(result.months[0]).toMatchObject({ workingDays: 25, effectiveDays: 25, acquiredDays: 3, absences: [] })
+    expect(result.months[0].month).toEqual(new Date(2025, 5, 1))
+    expect(result.months[1]).toMatchObject({ workingDays: 27, effectiveDays: 27, acquiredDays: 5 })
+    expect(result).toMatchObject({ workingDays: 52, effectiveDays: 52, acquiredDays: 5 })
+  })
+
+  it('devrait assimiler le congé maternité et l\'accident du travail', () => {
+    const result = calculateLeaveAccrual(contract, leaveYearStart, new Date(2025, 6, 31), [
+      absence('maternity', new Date(2025, 5, 9), new Date(2025, 5, 14)),
+      absence('work_accident', new Date(2025, 6, 7), new Date(2025, 6, 12)),
+    ])
+
+    expect(result.effectiveDays).toBe(52)
+    expect(result.months[0].absences).toEqual([{ absenceType: 'maternity', days: 6, countedDays: 6 }])
+    expect(result.months[1].absences).toEqual([{ absenceType: 'work_accident', days: 6, countedDays: 6 }])
+  })
+
+  it('devrait compter un arrêt maladie à 80 %', () => {
+    const result = calculateLeaveAccrual(contract, leaveYearStart, new Date(2025, 6, 31), [
+      absence('sick', new Date(2025, 5, 9), new Date(2025, 5, 14)),
+    ])
+
+    expect(result.months[0]).toMatchObject({
+      effectiveDays: 23.8,
+      absences: [{ absenceType: 'sick', days: 6, countedDays: 4.8 }],
+    })
+    expect(result.effectiveDays).toBe(50.8)
+  })
+
+  it('devrait plafonner l\'arrêt maladie à 24 jours de CP par an', () => {
+    // Arrêt sur toute l'année : 312 jours ouvrables, assimilés dans la limite de 230,4
+    const result = calculateLeaveAccrual(contract, leaveYearStart, new Date(2026, 4, 31), [
+      absence('sick', new Date(2025, 5, 2), new Date(2026, 4, 31)),
+    ])
+
+    expect(result.workingDays).toBe(312)
+    expect(result.effectiveDays).toBe(230.4)
+    expect(result.acquiredDays).toBe(23)
+    // Plafond atteint en mai : seuls 2 des 26 jours d'arrêt comptent encore
+    expect(result.months[11].absences).toEqual([{ absenceType: 'sick', days: 26, countedDays: 1.6 }])
+  })
+
+  it('ne devrait pas déduire une indisponibilité déclarée', () => {
+    const result = calculateLeaveAccrual(contract, leaveYearStart, new Date(2025, 6, 31), [
+      absence('unavailable', new Date(2025, 5, 9), new Date(2025, 5, 14)),
+    ])
+
+    expect(result.months[0].absences).toEqual([{ absenceType: 'unavailable', days: 6, countedDays: 6 }])
+    expect(result).toMatchObject({ effectiveDays: 52, acquiredDays: 5 })
+  })
+
+  it('devrait ignorer les absences non validées', () => {
+    const result = calculateLeaveAccrual(contract, leaveYearStart, new Date(2025, 6, 31), [
+      absence('unavailable', new Date(2025, 5, 9), new Date(2025, 5, 14), 'pending'),
+      absence('unpaid_leave', new Date(2025, 6, 7), new Date(2025, 6, 12), 'rejected'),
+    ])
+
+    expect(result.effectiveDays).toBe(52)
+    expect(result.months.every((m) => m.absences.length === 0)).toBe(true)
+  })
+
+  it('devrait retourner un détail vide si le contrat n\'a pas commencé', () => {
+    const result = calculateLeaveAccrual({ startDate: new Date(2026, 0, 5), weeklyHours: 20 }, leaveYearStart, new Date(2025, 11, 1))
+    expect(result).toEqual({ months: [], workingDays: 0, effectiveDays: 0, acquiredDays: 0 })
+  })
 })
 
 describe('calculateRemainingDays', () => {
@@ -9,37 +9,123 @@
  * - Période d'acquisition : 1er juin N au 31 mai N+1 (Art. R3141-4 + IDCC 3239)
  * - Temps partiel : mêmes droits que temps plein (IDCC 3239)
  * - Fractionnement : +1j si 3-5j hors mai-oct, +2j si 6+j hors mai-oct
+ * - Absences : assimilées ou non à du travail effectif (Art. L3141-5,
+ *   L3141-5-1), cf. LEAVE_ACCRUAL_RULES
  */
 
-import type { Contract } from '@/types'
-import type { LeaveBalanceForValidation } from './types'
+import type { AbsenceType, Contract } from '@/types'
+import type {
+  AccrualAbsence,
+  LeaveAccrualBreakdown,
+  LeaveAccrualMonth,
+  LeaveBalanceForValidation,
+} from './types'
+import { LEAVE_ACCRUAL_RULES } from './types'
 import { getLeaveYear } from './utils'
 
 /**
  * Calcule le nombre de jours de congés acquis pour un contrat
  * à une date donnée dans la période d'acquisition.
  *
- * Méthode : cumul des jours ouvrables (lun-sam) travaillés sur la période,
- * chaque tranche de 24 jours = 1 mois = 2.5 jours de CP.
+ * Méthode : cumul des jours ouvrables (lun-sam) de travail effectif sur la
+ * période, chaque tranche de 24 jours = 1 mois = 2.5 jours de CP.
  * Arrondi à l'entier supérieur (Art. L3141-7).
  */
 export function calculateAcquiredDays(
   contract: Pick<Contract, 'startDate' | 'weeklyHours'>,
   leaveYearStart: Date,
-  asOfDate: Date
+  asOfDate: Date,
+  absences: AccrualAbsence[] = []
 ): number {
+  return calculateLeaveAccrual(contract, leaveYearStart, asOfDate, absences).acquiredDays
+}
+
+/**
+ * Détail mois par mois de l'acquisition des congés.
+ *
+ * Chaque jour ouvrable compte comme travaillé, sauf s'il est couvert par une
+ * absence validée : il est alors pondéré selon LEAVE_ACCRUAL_RULES (la plus
+ * ancienne absence prévaut en cas de chevauchement). Les plafonds annuels
+ * (arrêt maladie : 24 j de CP) s'apprécient sur la période calculée.
+ */
+export function calculateLeaveAccrual(
+  contract: Pick<Contract, 'startDate' | 'weeklyHours'>,
+  leaveYearStart: Date,
+  asOfDate: Date,
+  absences: AccrualAbsence[] = []
+): LeaveAccrualBreakdown {
   // Début effectif = max(début contrat, début période)
   const effectiveStart = contract.startDate > leaveYearStart
     ? contract.startDate
     : leaveYearStart
 
-  if (effectiveStart > asOfDate) return 0
+  const breakdown: LeaveAccrualBreakdown = { months: [], workingDays: 0, effectiveDays: 0, acquiredDays: 0 }
+  if (effectiveStart > asOfDate) return breakdown
 
-  // Compter les jours ouvrables travaillés
-  const workingDays = countWorkingDays(effectiveStart, asOfDate)
+  const approved = absences
+    .filter((a) => a.status === 'approved')
+    .map((a) => ({ absenceType: a.absenceType, start: startOfDay(a.startDate), end: startOfDay(a.endDate) }))
+    .sort((a, b) => a.start.getTime() - b.start.getTime())
 
+  // Jours effectifs encore assimilables par type d'absence plafonné
+  const remainingAllowance = new Map<AbsenceType, number>()
+
+  const day = startOfDay(effectiveStart)
+  const endDate = startOfDay(asOfDate)
+  let current: LeaveAccrualMonth | null = null
+
+  while (day <= endDate) {
+    if (!current || current.month.getMonth() !== day.getMonth() || current.month.getFullYear() !== day.getFullYear()) {
+      current = {
+        month: new Date(day.getFullYear(), day.getMonth(), 1),
+        workingDays: 0,
+        effectiveDays: 0,
+        absences: [],
+        acquiredDays: acquiredFromEffectiveDays(breakdown.effectiveDays),
+      }
+      breakdown.months.push(current)
+    }
+
+    if (day.getDay() !== 0) { // Exclure dimanche (0)
+      const absence = approved.find((a) => a.start <= day && day <= a.end)
+      let counted = 1
+
+      if (absence) {
+        const rule = LEAVE_ACCRUAL_RULES[absence.absenceType]
+        counted = rule.rate
+        if (rule.maxAcquiredDays !== undefined) {
+          // 24 jours effectifs = 2.5 jours de CP (Art. L3141-4)
+          const allowance = remainingAllowance.get(absence.absenceType) ?? (rule.maxAcquiredDays / 2.5) * 24
+          counted = Math.min(counted, allowance)
+          remainingAllowance.set(absence.absenceType, roundDays(allowance - counted))
+        }
+
+        const entry = current.absences.find((a) => a.absenceType === absence.absenceType)
+        if (entry) {
+          entry.days++
+          entry.countedDays = roundDays(entry.countedDays + counted)
+        } else {
+          current.absences.push({ absenceType: absence.absenceType, days: 1, countedDays: counted })
+        }
+      }
+
+      current.workingDays++
+      current.effectiveDays = roundDays(current.effectiveDays + counted)
+      breakdown.workingDays++
+      breakdown.effectiveDays = roundDays(breakdown.effectiveDays + counted)
+      current.acquiredDays = acquiredFromEffectiveDays(breakdown.effectiveDays)
+    }
+
+    day.setDate(day.getDate() + 1)
+  }
+
+  breakdown.acquiredDays = acquiredFromEffectiveDays(breakdown.effectiveDays)
+  return breakdown
+}
+
+function acquiredFromEffectiveDays(effectiveDays: number): number {
   // 24 jours ouvrables = 1 mois effectif (Art. L3141-4)
-  const monthsWorked = Math.floor(workingDays / 24)
+  const monthsWorked = Math.floor(effectiveDays / 24)
 
   // 2.5 jours ouvrables par mois (max 30 jours/an)
   const baseDays = Math.min(monthsWorked * 2.5, 30)
@@ -48,6 +134,17 @@ export function calculateAcquiredDays(
   return Math.ceil(baseDays)
 }
 
+function startOfDay(date: Date): Date {
+  const day = new Date(date)
+  day.setHours(0, 0, 0, 0)
+  return day
+}
+
+// Évite la dérive des sommes de fractions (0.8 × n)
+function roundDays(days: number): number {
+  return Math.round(days * 100) / 100
+}
+
 /**
  * Calcule les jours restants dans un solde
  */
@@ -1,7 +1,8 @@
 export { validateAbsenceRequest } from './absenceChecker'
-export { countBusinessDays, getLeaveYear, calculateJustificationDueDate } from './utils'
+export { countBusinessDays, getLeaveYear, getNextLeaveYear, calculateJustificationDueDate, isMedicalAbsence } from './utils'
 export {
   calculateAcquiredDays,
+  calculateLeaveAccrual,
   calculateAcquiredFromMonths,
   calculateDefaultMonthsWorked,
   calculateRemainingDays,
@@ -10,10 +11,15 @@ export {
   getLeaveYearStartDate,
   getLeaveYearEndDate,
 } from './balanceCalculator'
-export { FAMILY_EVENT_DAYS, FAMILY_EVENT_LABELS } from './types'
+export { FAMILY_EVENT_DAYS, FAMILY_EVENT_LABELS, LEAVE_ACCRUAL_RULES, LEAVE_CARRY_OVER_POLICY_LABELS } from './types'
 export type {
   AbsenceValidationResult,
   AbsenceRequest,
   ExistingAbsence,
   LeaveBalanceForValidation,
+  AccrualAbsence,
+  LeaveAccrualAbsenceDays,
+  LeaveAccrualMonth,
+  LeaveAccrualBreakdown,
+  LeaveAccrualRule,
 } from './types'
@@ -3,7 +3,7 @@
  * Convention Collective IDCC 3239 - Particuliers Employeurs
  */
 
-import type { FamilyEventType } from '@/types'
+import type { Absence, AbsenceType, FamilyEventType, LeaveCarryOverPolicy } from '@/types'
 
 // Résultat de validation d'une demande d'absence
 export interface AbsenceValidationResult {
@@ -65,3 +65,63 @@ export const FAMILY_EVENT_LABELS: Record<FamilyEventType, string> = {
   child_marriage: 'Mariage d\'un enfant',
   disability_announcement: 'Annonce du handicap d\'un enfant',
 }
+
+// Sort du reliquat à la clôture de l'année de congés
+export const LEAVE_CARRY_OVER_POLICY_LABELS: Record<LeaveCarryOverPolicy, string> = {
+  carry_all: 'Reporter tout le reliquat',
+  capped: 'Reporter dans la limite d\'un plafond',
+  expire: 'Le reliquat est perdu',
+}
+
+// Assimilation d'un jour d'absence à du travail effectif pour l'acquisition des CP
+export interface LeaveAccrualRule {
+  // Part du jour d'absence comptée comme travaillée (1 = assimilé, 0 = non assimilé)
+  rate: number
+  // Plafond annuel de CP acquis au titre de ce type d'absence
+  maxAcquiredDays?: number
+  explanation: string
+}
+
+export const LEAVE_ACCRUAL_RULES: Record<AbsenceType, LeaveAccrualRule> = {
+  vacation: { rate: 1, explanation: 'Assimilé à du travail effectif (Art. L3141-5 1°)' },
+  family_event: { rate: 1, explanation: 'Assimilé à du travail effectif (Art. L3142-2)' },
+  training: { rate: 1, explanation: 'Assimilé à du travail effectif (Art. L6321-2)' },
+  maternity: { rate: 1, explanation: 'Assimilé à du travail effectif (Art. L3141-5 2°)' },
+  work_accident: { rate: 1, explanation: 'Assimilé sans limite de durée (Art. L3141-5 5°)' },
+  sick: {
+    rate: 0.8,
+    maxAcquiredDays: 24,
+    explanation: '2 j de CP par mois au lieu de 2,5, dans la limite de 24 j par an (Art. L3141-5-1)',
+  },
+  unpaid_leave: { rate: 0, explanation: 'Non assimilé : aucun droit acquis' },
+  // Indisponibilité déclarée par l'auxiliaire : aucun travail prévu n'est perdu
+  unavailable: { rate: 1, explanation: 'Non déduit : indisponibilité déclarée, sans travail prévu' },
+  emergency: { rate: 0, explanation: 'Non assimilé : aucun droit acquis' },
+}
+
+// Absence prise en compte dans le calcul de l'acquisition
+export type AccrualAbsence = Pick<Absence, 'absenceType' | 'startDate' | 'endDate' | 'status'>
+
+// Jours d'un type d'absence sur un mois
+export interface LeaveAccrualAbsenceDays {
+  absenceType: AbsenceType
+  days: number
+  countedDays: number
+}
+
+// Détail mensuel de l'acquisition
+export interface LeaveAccrualMonth {
+  month: Date
+  workingDays: number
+  effectiveDays: number
+  absences: LeaveAccrualAbsenceDays[]
+  // Jours acquis cumulés depuis le début de l'année de congés, fin de mois
+  acquiredDays: number
+}
+
+export interface LeaveAccrualBreakdown {
+  months: LeaveAccrualMonth[]
+  workingDays: number
+  effectiveDays: number
+  acquiredDays: number
+}
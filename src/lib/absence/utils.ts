@@ -4,6 +4,7 @@
  */
 
 import { getFrenchPublicHolidays } from '@/lib/compliance/types'
+import type { AbsenceType } from '@/types'
 
 /**
  * Compte les jours ouvrables entre deux dates (incluses)
@@ -57,6 +58,15 @@ export function getLeaveYear(date: Date): string {
   return `${year - 1}-${year}`
 }
 
+/**
+ * Année de congés suivante
+ * Ex: "2025-2026" → "2026-2027"
+ */
+export function getNextLeaveYear(leaveYear: string): string {
+  const endYear = parseInt(leaveYear.split('-')[1], 10)
+  return `${endYear}-${endYear + 1}`
+}
+
 /**
  * Vérifie si une date est dans la période principale de congés (mai-octobre)
  * Le congé principal (12j minimum) doit être pris entre mai et octobre
@@ -76,6 +86,14 @@ export function calculateJustificationDueDate(startDate: Date): Date {
   return dueDate
 }
 
+/**
+ * Absences médicales : arrêt de travail ou certificat à fournir sous 48h
+ * (maladie, accident du travail ou de trajet, maternité / paternité)
+ */
+export function isMedicalAbsence(absenceType: AbsenceType): boolean {
+  return absenceType === 'sick' || absenceType === 'work_accident' || absenceType === 'maternity'
+}
+
 /**
  * Vérifie si deux plages de dates se chevauchent
  */
@@ -0,0 +1,71 @@
+import 'fake-indexeddb/auto'
+import { describe, it, expect, beforeEach } from 'vitest'
+import {
+  enqueueClockEvent,
+  getPendingClockEvents,
+  removePendingClockEvent,
+  countPendingClockEvents,
+  type PendingClockEvent,
+} from './offlineQueue'
+
+function makeEvent(overrides: Partial<PendingClockEvent> = {}): PendingClockEvent {
+  return {
+    nonce: 'nonce-1',
+    payload: 'UNILIEN-CI.1.contract.signature',
+    shiftId: 'shift-1',
+    event: 'start',
+    scannedAt: '2026-03-10T08:02:00.000Z',
+    ...overrides,
+  }
+}
+
+describe('offlineQueue', () => {
+  beforeEach(async () => {
+    for (const event of await getPendingClockEvents()) {
+      await removePendingClockEvent(event.nonce)
+    }
+  })
+
+  it('conserve un scan en attente', async () => {
+    await enqueueClockEvent(makeEvent())
+
+    expect(await countPendingClockEvents()).toBe(1)
+    expect(await getPendingClockEvents()).toEqual([makeEvent()])
+  })
+
+  it('conserve les données de fin d\'intervention', async () => {
+    const event = makeEvent({
+      event: 'end',
+      completion: { hasNightAction: true },
+    })
+    await enqueueClockEvent(event)
+
+    const [stored] = await getPendingClockEvents()
+    expect(stored.completion).toEqual({ hasNightAction: true })
+  })
+
+  it('retourne les scans du plus ancien au plus récent', async () => {
+    await enqueueClockEvent(makeEvent({ nonce: 'b', event: 'end', scannedAt: '2026-03-10T12:00:00.000Z' }))
+    await enqueueClockEvent(makeEvent({ nonce: 'a', scannedAt: '2026-03-10T08:00:00.000Z' }))
+
+    const events = await getPendingClockEvents()
+    expect(events.map((e) => e.nonce)).toEqual(['a', 'b'])
+  })
+
+  it('ne duplique pas un scan ré-enfilé avec le même nonce', async () => {
+    await enqueueClockEvent(makeEvent())
+    await enqueueClockEvent(makeEvent())
+
+    expect(await countPendingClockEvents()).toBe(1)
+  })
+
+  it('retire un scan synchronisé', async () => {
+    await enqueueClockEvent(makeEvent({ nonce: 'a' }))
+    await enqueueClockEvent(makeEvent({ nonce: 'b' }))
+
+    await removePendingClockEvent('a')
+
+    const events = await getPendingClockEvents()
+    expect(events.map((e) => e.nonce)).toEqual(['b'])
+  })
+})
@@ -0,0 +1,77 @@
+/**
+ * File d'attente hors ligne des pointages QR (IndexedDB)
+ *
+ * Au domicile, le réseau est souvent absent : le scan est conservé sur
+ * l'appareil avec son heure réelle et son nonce, puis transmis à
+ * `record_qr_clock_event` au retour de la connexion. Le nonce rend l'envoi
+ * idempotent : un scan déjà enregistré est rejeté comme rejoué.
+ */
+
+import type { ShiftTaskCompletion } from '@/types'
+
+const DB_NAME = 'unilien-clock-in'
+const DB_VERSION = 1
+const STORE = 'pending_events'
+
+export interface PendingClockEvent {
+  /** Identifiant unique du scan (anti-rejeu côté serveur) */
+  nonce: string
+  /** Jeton du badge scanné */
+  payload: string
+  shiftId: string
+  event: 'start' | 'end'
+  /** Heure du scan sur l'appareil (ISO) */
+  scannedAt: string
+  /** Clôture de l'intervention à appliquer une fois le scan de fin accepté */
+  completion?: {
+    hasNightAction: boolean
+    taskCompletions?: ShiftTaskCompletion[]
+  }
+}
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: 'nonce' })
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb()
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(STORE, mode)
+      const request = run(tx.objectStore(STORE))
+      tx.oncomplete = () => resolve(request.result)
+      tx.onerror = () => reject(tx.error)
+      tx.onabort = () => reject(tx.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+export async function enqueueClockEvent(event: PendingClockEvent): Promise<void> {
+  await withStore('readwrite', (store) => store.put(event))
+}
+
+/** Scans en attente, du plus ancien au plus récent */
+export async function getPendingClockEvents(): Promise<PendingClockEvent[]> {
+  const events = await withStore<PendingClockEvent[]>('readonly', (store) => store.getAll())
+  return events.sort((a, b) => a.scannedAt.localeCompare(b.scannedAt))
+}
+
+export async function removePendingClockEvent(nonce: string): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(nonce))
+}
+
+export async function countPendingClockEvents(): Promise<number> {
+  return withStore('readonly', (store) => store.count())
+}
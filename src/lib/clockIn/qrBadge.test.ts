@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest'
+import { parseClockInBadge } from './qrBadge'
+
+const CONTRACT_ID = '3f2b8c1e-4a5d-4e6f-8a9b-0c1d2e3f4a5b'
+const SIGNATURE = 'a'.repeat(64)
+
+describe('parseClockInBadge', () => {
+  it('extrait la version, le contrat et la signature', () => {
+    const payload = `UNILIEN-CI.2.${CONTRACT_ID}.${SIGNATURE}`
+
+    expect(parseClockInBadge(payload)).toEqual({
+      version: 2,
+      contractId: CONTRACT_ID,
+      signature: SIGNATURE,
+      payload,
+    })
+  })
+
+  it('ignore les espaces autour du contenu scanné', () => {
+    const badge = parseClockInBadge(`  UNILIEN-CI.1.${CONTRACT_ID}.${SIGNATURE}\n`)
+    expect(badge?.payload).toBe(`UNILIEN-CI.1.${CONTRACT_ID}.${SIGNATURE}`)
+  })
+
+  it('rejette un QR qui n\'est pas un badge Unilien', () => {
+    expect(parseClockInBadge('https://example.com')).toBeNull()
+    expect(parseClockInBadge(`OTHER.1.${CONTRACT_ID}.${SIGNATURE}`)).toBeNull()
+  })
+
+  it('rejette un badge mal formé', () => {
+    expect(parseClockInBadge(`UNILIEN-CI.v1.${CONTRACT_ID}.${SIGNATURE}`)).toBeNull()
+    expect(parseClockInBadge(`UNILIEN-CI.1.not-a-uuid.${SIGNATURE}`)).toBeNull()
+    expect(parseClockInBadge(`UNILIEN-CI.1.${CONTRACT_ID}.short`)).toBeNull()
+    expect(parseClockInBadge(`UNILIEN-CI.1.${CONTRACT_ID}`)).toBeNull()
+  })
+})
@@ -0,0 +1,38 @@
+/**
+ * Badge QR de pointage
+ *
+ * Le QR collé au domicile encode un jeton brut (pas d'URL) :
+ *   UNILIEN-CI.<version>.<contractId>.<signature>
+ *
+ * La signature HMAC est calculée et vérifiée côté serveur
+ * (`get_clock_in_badge` / `record_qr_clock_event`) : le client se contente de
+ * reconnaître le format et d'en extraire le contrat pour choisir l'intervention.
+ */
+
+export const CLOCK_IN_BADGE_PREFIX = 'UNILIEN-CI'
+
+export interface ClockInBadge {
+  version: number
+  contractId: string
+  signature: string
+  /** Jeton complet, transmis tel quel au serveur */
+  payload: string
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/
+const SIGNATURE_PATTERN = /^[0-9a-f]{64}$/
+
+/**
+ * Lit le contenu d'un QR scanné. Retourne null si ce n'est pas un badge Unilien.
+ */
+export function parseClockInBadge(raw: string): ClockInBadge | null {
+  const payload = raw.trim()
+  const parts = payload.split('.')
+  if (parts.length !== 4 || parts[0] !== CLOCK_IN_BADGE_PREFIX) return null
+
+  const [, versionPart, contractId, signature] = parts
+  if (!/^\d+$/.test(versionPart)) return null
+  if (!UUID_PATTERN.test(contractId) || !SIGNATURE_PATTERN.test(signature)) return null
+
+  return { version: Number(versionPart), contractId, signature, payload }
+}
@@ -4,6 +4,11 @@ import {
   calculateMonthlyEstimate,
   formatCurrency,
   getPayBreakdown,
+  getPayRateSet,
+  DEFAULT_PAY_RATE_SET,
+  splitWeeklyHours,
+  getWeeklyHoursSplit,
+  MAJORATION_RATES,
 } from './calculatePay'
 import type { ShiftForValidation, ContractForCalculation } from './types'
 import type { ComputedPay } from '@/types'
@@ -57,6 +62,30 @@ describe('calculateShiftPay', () => {
     })
   })
 
+  describe('Avenants', () => {
+    const contract: ContractForCalculation = {
+      ...createContract(14, 35),
+      termsHistory: [
+        { effectiveDate: new Date('2025-01-01'), weeklyHours: 35, hourlyRate: 12, pasRate: 0 },
+        { effectiveDate: new Date('2025-01-15'), weeklyHours: 35, hourlyRate: 14, pasRate: 0 },
+      ],
+    }
+
+    it('devrait utiliser le taux en vigueur à la date de l\'intervention', () => {
+      const before = calculateShiftPay(createShift('2025-01-14', '09:00', '17:00'), contract)
+      const from = calculateShiftPay(createShift('2025-01-15', '09:00', '17:00'), contract)
+
+      expect(before.basePay).toBe(96) // 8h * 12€ (avant l'avenant)
+      expect(from.basePay).toBe(112) // 8h * 14€ (jour d'effet inclus)
+    })
+
+    it('devrait utiliser les conditions du contrat sans historique', () => {
+      const pay = calculateShiftPay(createShift('2025-01-14', '09:00', '17:00'), createContract(14, 35))
+
+      expect(pay.basePay).toBe(112)
+    })
+  })
+
   describe('Majoration dimanche (+30%)', () => {
     it('devrait appliquer +30% pour travail le dimanche', () => {
       const shift = createShift('2025-01-19', '09:00', '17:00') // Dimanche 8h
@@ -169,47 +198,52 @@ describe('calculateShiftPay', () => {
   })
 
   describe('Majoration heures supplémentaires', () => {
-    it('devrait appliquer +25% pour les 8 premières heures sup', () => {
+    it('devrait appliquer +25% pour les 8 premières heures au-delà de 40h', () => {
       const existingShifts = [
         createShift('2025-01-13', '09:00', '17:00', 'employee-1', 'shift-1'), // Lundi 8h
         createShift('2025-01-14', '09:00', '17:00', 'employee-1', 'shift-2'), // Mardi 8h
         createShift('2025-01-15', '09:00', '17:00', 'employee-1', 'shift-3'), // Mercredi 8h
         createShift('2025-01-16', '09:00', '17:00', 'employee-1', 'shift-4'), // Jeudi 8h
       ] // 32h
-      // Contrat 35h, donc 3h supplémentaires vendredi
-      const newShift = createShift('2025-01-17', '09:00', '17:00') // Vendredi 8h -> 40h total, 5h sup
-      const contract = createContract(12, 35)
+      const newShift = createShift('2025-01-17', '09:00', '22:00') // Vendredi 13h -> 45h total, 5h sup
+      const contract = createContract(12, 40)
 
       const pay = calculateShiftPay(newShift, contract, existingShifts)
 
-      expect(pay.basePay).toBe(96) // 8h * 12€
+      expect(pay.basePay).toBe(156) // 13h * 12€
       expect(pay.overtimeMajoration).toBe(15) // 5h * 12€ * 0.25
-      expect(pay.totalPay).toBe(111)
     })
 
-    it('devrait appliquer +50% au-delà de 8h supplémentaires', () => {
+    it('devrait appliquer +50% au-delà du 1er palier de 8h sup', () => {
       const existingShifts = [
         createShift('2025-01-13', '06:00', '18:00', 'employee-1', 'shift-1'), // Lundi 12h
         createShift('2025-01-14', '06:00', '18:00', 'employee-1', 'shift-2'), // Mardi 12h
         createShift('2025-01-15', '06:00', '18:00', 'employee-1', 'shift-3'), // Mercredi 12h
         createShift('2025-01-16', '06:00', '14:00', 'employee-1', 'shift-4'), // Jeudi 8h
-      ] // 44h (9h sup déjà, contrat 35h)
-      // +4h vendredi = 48h total, 13h sup total
-      const newShift = createShift('2025-01-17', '09:00', '13:00') // Vendredi 4h
+      ] // 44h (4h sup déjà)
+      const newShift = createShift('2025-01-17', '09:00', '15:00') // Vendredi 6h -> 50h
+      const contract = createContract(12, 40)
+
+      const pay = calculateShiftPay(newShift, contract, existingShifts)
+
+      // 4h restantes du 1er palier (44→48) + 2h au 2nd palier (48→50)
+      expect(pay.overtimeMajoration).toBe(24) // 4h * 12 * 0.25 + 2h * 12 * 0.50
+    })
+
+    it('devrait traiter en heures complémentaires (sans majoration) les heures d\'un temps partiel jusqu\'à 40h', () => {
+      const existingShifts = [
+        createShift('2025-01-13', '09:00', '17:00', 'employee-1', 'shift-1'),
+        createShift('2025-01-14', '09:00', '17:00', 'employee-1', 'shift-2'),
+        createShift('2025-01-15', '09:00', '17:00', 'employee-1', 'shift-3'),
+        createShift('2025-01-16', '09:00', '17:00', 'employee-1', 'shift-4'),
+      ] // 32h
+      const newShift = createShift('2025-01-17', '09:00', '17:00') // Vendredi 8h -> 40h, contrat 35h
       const contract = createContract(12, 35)
 
       const pay = calculateShiftPay(newShift, contract, existingShifts)
 
-      // Calcul des heures sup pour CETTE intervention:
-      // Heures sup avant: max(0, 44-35) = 9h
-      // Heures sup après: max(0, 48-35) = 13h
-      // Heures sup de cette intervention: 13 - 9 = 4h
-      // Ces 4h sont réparties:
-      // - Les heures sup de 9 à 8 = déjà au-delà de 8h
-      // - Donc ces 4h sont au-delà, mais la fonction calcule différemment
-      // La fonction calcule: first8h = min(8, 4) = 4, beyond8h = max(0, 4-8) = 0
-      // Car elle calcule sur les heures de CETTE intervention uniquement
-      expect(pay.overtimeMajoration).toBe(12) // 4h * 12€ * 0.25 (premières 8h de cette intervention)
+      expect(pay.overtimeMajoration).toBe(0)
+      expect(pay.totalPay).toBe(96)
     })
 
     it('devrait ne pas appliquer majoration si en dessous des heures contractuelles', () => {
@@ -224,6 +258,21 @@ describe('calculateShiftPay', () => {
 
       expect(pay.overtimeMajoration).toBe(0)
     })
+
+    it('devrait ignorer les interventions postérieures de la semaine', () => {
+      const laterShifts = [
+        createShift('2025-01-15', '06:00', '18:00', 'employee-1', 'shift-1'),
+        createShift('2025-01-16', '06:00', '18:00', 'employee-1', 'shift-2'),
+        createShift('2025-01-17', '06:00', '18:00', 'employee-1', 'shift-3'),
+        createShift('2025-01-18', '06:00', '18:00', 'employee-1', 'shift-4'),
+      ] // 48h après lundi
+      const mondayShift = createShift('2025-01-13', '09:00', '17:00')
+      const contract = createContract(12, 40)
+
+      const pay = calculateShiftPay(mondayShift, contract, laterShifts)
+
+      expect(pay.overtimeMajoration).toBe(0)
+    })
   })
 
   describe('Combinaison de majorations', () => {
@@ -545,6 +594,135 @@ describe('calculateShiftPay', () => {
   })
 })
 
+describe('Taux de majoration de l\'employeur', () => {
+  const conventionSettings = {
+    majDimanche: 40,
+    majFerie: 80,
+    majNuit: 25,
+    majSupp: 30,
+    ruleOvertime: true,
+  }
+
+  describe('getPayRateSet', () => {
+    it('devrait retourner le barème IDCC 3239 sans paramètres', () => {
+      expect(getPayRateSet()).toBe(DEFAULT_PAY_RATE_SET)
+      expect(getPayRateSet(null).rates).toEqual(MAJORATION_RATES)
+    })
+
+    it('devrait convertir les pourcentages de la convention en taux', () => {
+      const rateSet = getPayRateSet(conventionSettings)
+
+      expect(rateSet.source).toBe('convention_settings')
+      expect(rateSet.rates.SUNDAY).toBe(0.4)
+      expect(rateSet.rates.PUBLIC_HOLIDAY_WORKED).toBe(0.8)
+      expect(rateSet.rates.NIGHT).toBe(0.25)
+      expect(rateSet.rates.OVERTIME_FIRST_8H).toBe(0.3)
+    })
+
+    it('devrait conserver les planchers légaux (férié exceptionnel, heures sup au-delà de 8h)', () => {
+      const rateSet = getPayRateSet(conventionSettings)
+
+      expect(rateSet.rates.PUBLIC_HOLIDAY_EXCEPTIONAL).toBe(1)
+      expect(rateSet.rates.OVERTIME_BEYOND_8H).toBe(0.5)
+      expect(getPayRateSet({ ...conventionSettings, majSupp: 60 }).rates.OVERTIME_BEYOND_8H).toBe(0.6)
+    })
+
+    it('devrait neutraliser les heures sup si la règle est désactivée', () => {
+      const rateSet = getPayRateSet({ ...conventionSettings, ruleOvertime: false })
+
+      expect(rateSet.rates.OVERTIME_FIRST_8H).toBe(0)
+      expect(rateSet.rates.OVERTIME_BEYOND_8H).toBe(0)
+    })
+  })
+
+  describe('calculateShiftPay avec rateSet', () => {
+    it('devrait appliquer la majoration dimanche configurée', () => {
+      const shift = createShift('2025-01-19', '09:00', '17:00') // Dimanche 8h
+      const contract = createContract(12, 35)
+
+      const pay = calculateShiftPay(shift, contract, [], false, getPayRateSet(conventionSettings))
+
+      expect(pay.sundayMajoration).toBe(38.4) // 96 * 0.40
+      expect(pay.totalPay).toBe(134.4)
+    })
+
+    it('devrait enregistrer le jeu de taux utilisé dans computedPay', () => {
+      const shift = createShift('2025-01-15', '09:00', '17:00')
+      const contract = createContract(12, 35)
+      const rateSet = getPayRateSet(conventionSettings)
+
+      expect(calculateShiftPay(shift, contract).rateSet).toEqual(DEFAULT_PAY_RATE_SET)
+      expect(calculateShiftPay(shift, contract, [], false, rateSet).rateSet).toEqual(rateSet)
+    })
+
+    it('devrait détailler la paie avec les taux enregistrés', () => {
+      const shift = createShift('2025-01-19', '09:00', '17:00') // Dimanche
+      const contract = createContract(12, 35)
+      const pay = calculateShiftPay(shift, contract, [], false, getPayRateSet(conventionSettings))
+
+      const sundayLine = getPayBreakdown(pay).find((line) => line.amount === pay.sundayMajoration)
+
+      expect(sundayLine?.percentage).toBe(40)
+    })
+  })
+})
+
+describe('splitWeeklyHours', () => {
+  it('devrait répartir normales / complémentaires / supplémentaires pour un temps partiel', () => {
+    // Contrat 30h, déjà 28h dans la semaine, intervention de 22h -> 50h
+    expect(splitWeeklyHours(28, 22, 30)).toEqual({
+      normalHours: 2,
+      complementaryHours: 10,
+      overtimeFirstTierHours: 8,
+      overtimeSecondTierHours: 2,
+    })
+  })
+
+  it('devrait n\'avoir aucune heure complémentaire pour un temps plein', () => {
+    expect(splitWeeklyHours(38, 4, 40)).toEqual({
+      normalHours: 2,
+      complementaryHours: 0,
+      overtimeFirstTierHours: 2,
+      overtimeSecondTierHours: 0,
+    })
+  })
+
+  it('devrait compter en heures sup les heures contractuelles au-delà de 40h', () => {
+    const split = splitWeeklyHours(0, 45, 45)
+
+    expect(split.normalHours).toBe(40)
+    expect(split.overtimeFirstTierHours).toBe(5)
+  })
+})
+
+describe('getWeeklyHoursSplit', () => {
+  it('devrait cumuler les interventions du mois précédent dans la même semaine', () => {
+    // Semaine du lundi 27 janvier au dimanche 2 février 2025
+    const januaryShifts = [
+      createShift('2025-01-27', '08:00', '18:00', 'employee-1', 'shift-1'),
+      createShift('2025-01-28', '08:00', '18:00', 'employee-1', 'shift-2'),
+      createShift('2025-01-29', '08:00', '18:00', 'employee-1', 'shift-3'),
+      createShift('2025-01-30', '08:00', '18:00', 'employee-1', 'shift-4'),
+    ] // 40h
+    const februaryShift = createShift('2025-02-01', '09:00', '13:00') // Samedi 4h
+
+    const split = getWeeklyHoursSplit(februaryShift, januaryShifts, 40)
+
+    expect(split.normalHours).toBe(0)
+    expect(split.overtimeFirstTierHours).toBe(4)
+  })
+
+  it('devrait ignorer les interventions d\'une autre semaine ou d\'un autre employé', () => {
+    const others = [
+      createShift('2025-01-10', '06:00', '18:00', 'employee-1', 'shift-1'), // semaine précédente
+      createShift('2025-01-13', '06:00', '18:00', 'employee-2', 'shift-2'), // autre employé
+    ]
+    const shift = createShift('2025-01-14', '09:00', '17:00')
+
+    expect(getWeeklyHoursSplit(shift, others, 35).normalHours).toBe(8)
+  })
+})
+
 describe('calculateMonthlyEstimate', () => {
   it('devrait calculer estimation mensuelle de base', () => {
     const estimate = calculateMonthlyEstimate(35, 12, 0, 0)
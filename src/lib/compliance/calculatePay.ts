@@ -3,14 +3,15 @@
  * Convention Collective IDCC 3239 - Particuliers Employeurs
  */
 
-import type { ComputedPay } from '@/types'
+import type { ComputedPay, MajorationRateSet, PayRateSet } from '@/types'
 import type { ShiftForValidation, ContractForCalculation } from './types'
 import { isPublicHoliday, isSunday } from './types'
-import { calculateShiftDuration, calculateNightHours, getWeekStart, calculateTotalHours } from './utils'
+import { calculateShiftDuration, calculateNightHours, getWeekStart, getEffectiveHours } from './utils'
 import { getPresenceMix } from '@/lib/presence/detectPresenceType'
+import { resolveContractTerms } from '@/lib/contract/amendments'
 
 // Taux de majoration (Convention Collective IDCC 3239)
-export const MAJORATION_RATES = {
+export const MAJORATION_RATES: MajorationRateSet = {
   SUNDAY: 0.30, // +30% pour le dimanche
   PUBLIC_HOLIDAY_WORKED: 0.60, // +60% jour férié travaillé habituellement
   PUBLIC_HOLIDAY_EXCEPTIONAL: 1.00, // +100% jour férié travaillé exceptionnellement
@@ -21,6 +22,8 @@ export const MAJORATION_RATES = {
 
 // Seuils & coefficients réglementaires (Convention Collective IDCC 3239)
 export const IDCC_RULES = {
+  /** Durée conventionnelle du temps plein : au-delà, heures supplémentaires (Art. 137) */
+  FULL_TIME_WEEKLY_HOURS: 40,
   /** Seuil du 1er palier d'heures sup : les 8 premières sont à +25%, au-delà à +50% */
   OVERTIME_FIRST_TIER_HOURS: 8,
   /** Présence responsable jour : 1h vaut 2/3h de travail effectif (Art. 137.1) */
@@ -39,16 +42,68 @@ export const PAYROLL_ESTIMATE = {
   EMPLOYER_CHARGE_RATE: 1.42,
 }
 
+/** Jeu de taux par défaut : barème IDCC 3239 */
+export const DEFAULT_PAY_RATE_SET: PayRateSet = {
+  source: 'idcc_default',
+  rates: MAJORATION_RATES,
+}
+
+/** Majorations paramétrables par l'employeur (ConventionSettings, en %) */
+export interface MajorationSettings {
+  majDimanche: number
+  majFerie: number
+  majNuit: number
+  majSupp: number
+  ruleOvertime: boolean
+}
+
+/**
+ * Construit le jeu de taux à partir des paramètres convention de l'employeur.
+ * - majFerie s'applique au férié travaillé habituellement ; l'exceptionnel reste à +100% minimum
+ * - majSupp s'applique aux 8 premières heures sup ; au-delà, +50% minimum
+ * - ruleOvertime désactivé → pas de majoration automatique des heures sup
+ */
+export function getPayRateSet(settings?: MajorationSettings | null): PayRateSet {
+  if (!settings) return DEFAULT_PAY_RATE_SET
+
+  const holidayWorked = settings.majFerie / 100
+  const overtimeFirst = settings.ruleOvertime ? settings.majSupp / 100 : 0
+  const overtimeBeyond = settings.ruleOvertime
+    ? Math.max(MAJORATION_RATES.OVERTIME_BEYOND_8H, overtimeFirst)
+    : 0
+
+  return {
+    source: 'convention_settings',
+    rates: {
+      SUNDAY: settings.majDimanche / 100,
+      PUBLIC_HOLIDAY_WORKED: holidayWorked,
+      PUBLIC_HOLIDAY_EXCEPTIONAL: Math.max(MAJORATION_RATES.PUBLIC_HOLIDAY_EXCEPTIONAL, holidayWorked),
+      NIGHT: settings.majNuit / 100,
+      OVERTIME_FIRST_8H: overtimeFirst,
+      OVERTIME_BEYOND_8H: overtimeBeyond,
+    },
+  }
+}
+
 /**
- * Calcule la rémunération complète d'une intervention avec toutes les majorations
+ * Calcule la rémunération complète d'une intervention avec toutes les majorations.
+ * `rateSet` : taux à appliquer (défaut : barème IDCC 3239), recopiés dans `computedPay.rateSet`.
+ * Taux horaire et durée contractuelle : ceux en vigueur à la date de l'intervention
+ * quand `contract.termsHistory` est fourni.
  */
 export function calculateShiftPay(
   shift: ShiftForValidation,
   contract: ContractForCalculation,
   existingShifts: ShiftForValidation[] = [],
-  isHabitualWorkOnHolidays: boolean = false
+  isHabitualWorkOnHolidays: boolean = false,
+  rateSet: PayRateSet = DEFAULT_PAY_RATE_SET
 ): ComputedPay {
-  const { hourlyRate, weeklyHours: contractualWeeklyHours } = contract
+  const { hourlyRate, weeklyHours: contractualWeeklyHours } = resolveContractTerms(
+    { weeklyHours: contract.weeklyHours, hourlyRate: contract.hourlyRate, pasRate: 0 },
+    contract.termsHistory,
+    shift.date
+  )
+  const rates = rateSet.rates
 
   // Durée effective de l'intervention en heures
   const durationMinutes = calculateShiftDuration(
@@ -64,15 +119,15 @@ export function calculateShiftPay(
   // Majoration dimanche (+30%)
   let sundayMajoration = 0
   if (isSunday(shift.date)) {
-    sundayMajoration = basePay * MAJORATION_RATES.SUNDAY
+    sundayMajoration = basePay * rates.SUNDAY
   }
 
   // Majoration jour férié (+60% ou +100%)
   let holidayMajoration = 0
   if (isPublicHoliday(shift.date)) {
     const rate = isHabitualWorkOnHolidays
-      ? MAJORATION_RATES.PUBLIC_HOLIDAY_WORKED
-      : MAJORATION_RATES.PUBLIC_HOLIDAY_EXCEPTIONAL
+      ? rates.PUBLIC_HOLIDAY_WORKED
+      : rates.PUBLIC_HOLIDAY_EXCEPTIONAL
     holidayMajoration = basePay * rate
   }
 
@@ -82,25 +137,14 @@ export function calculateShiftPay(
   let nightMajoration = 0
   const nightHours = calculateNightHours(shift.date, shift.startTime, shift.endTime)
   if (nightHours > 0 && shift.hasNightAction) {
-    nightMajoration = nightHours * hourlyRate * MAJORATION_RATES.NIGHT
+    nightMajoration = nightHours * hourlyRate * rates.NIGHT
   }
 
-  // Majoration heures supplémentaires
-  let overtimeMajoration = 0
-  const overtimeHours = calculateOvertimeHours(
-    shift,
-    existingShifts,
-    contractualWeeklyHours
-  )
-  if (overtimeHours > 0) {
-    // Premières 8h supplémentaires : +25%
-    const first8h = Math.min(IDCC_RULES.OVERTIME_FIRST_TIER_HOURS, overtimeHours)
-    overtimeMajoration += first8h * hourlyRate * MAJORATION_RATES.OVERTIME_FIRST_8H
-
-    // Au-delà de 8h : +50%
-    const beyond8h = Math.max(0, overtimeHours - IDCC_RULES.OVERTIME_FIRST_TIER_HOURS)
-    overtimeMajoration += beyond8h * hourlyRate * MAJORATION_RATES.OVERTIME_BEYOND_8H
-  }
+  // Majoration heures supplémentaires (palier selon le cumul de la semaine)
+  const hoursSplit = getWeeklyHoursSplit(shift, existingShifts, contractualWeeklyHours)
+  const overtimeMajoration =
+    hoursSplit.overtimeFirstTierHours * hourlyRate * rates.OVERTIME_FIRST_8H +
+    hoursSplit.overtimeSecondTierHours * hourlyRate * rates.OVERTIME_BEYOND_8H
 
   // Présence responsable (jour : conversion 2/3, nuit : forfaitaire 1/4)
   let presenceResponsiblePay = 0
@@ -129,12 +173,12 @@ export function calculateShiftPay(
     // Majorations dimanche/férié sur la base réellement payée
     const totalPaid = presenceResponsiblePay + nightPresenceAllowance
     if (isSunday(shift.date)) {
-      sundayMajoration = totalPaid * MAJORATION_RATES.SUNDAY
+      sundayMajoration = totalPaid * rates.SUNDAY
     }
     if (isPublicHoliday(shift.date)) {
       const rate = isHabitualWorkOnHolidays
-        ? MAJORATION_RATES.PUBLIC_HOLIDAY_WORKED
-        : MAJORATION_RATES.PUBLIC_HOLIDAY_EXCEPTIONAL
+        ? rates.PUBLIC_HOLIDAY_WORKED
+        : rates.PUBLIC_HOLIDAY_EXCEPTIONAL
       holidayMajoration = totalPaid * rate
     }
   } else if (shiftType === 'guard_24h' && shift.guardSegments?.length) {
@@ -160,7 +204,7 @@ export function calculateShiftPay(
         guard24hEffectivePay += effH * hourlyRate
         // Majoration nuit (+20%) automatique sur les heures 21h-6h de ce segment effectif
         const segNightH = calculateNightHours(shift.date, seg.startTime, segEnd)
-        nightMajoration += segNightH * hourlyRate * MAJORATION_RATES.NIGHT
+        nightMajoration += segNightH * hourlyRate * rates.NIGHT
 
       } else if (seg.type === 'presence_day') {
         // Présence jour : coefficient 2/3 (Art. 137.1 IDCC 3239)
@@ -180,12 +224,12 @@ export function calculateShiftPay(
     // Majorations dimanche/férié sur la paie rémunérée (effectif + présence jour)
     const guard24hPayBase = guard24hEffectivePay + presenceResponsiblePay
     sundayMajoration = isSunday(shift.date)
-      ? guard24hPayBase * MAJORATION_RATES.SUNDAY
+      ? guard24hPayBase * rates.SUNDAY
       : 0
     holidayMajoration = isPublicHoliday(shift.date)
       ? guard24hPayBase * (isHabitualWorkOnHolidays
-          ? MAJORATION_RATES.PUBLIC_HOLIDAY_WORKED
-          : MAJORATION_RATES.PUBLIC_HOLIDAY_EXCEPTIONAL)
+          ? rates.PUBLIC_HOLIDAY_WORKED
+          : rates.PUBLIC_HOLIDAY_EXCEPTIONAL)
       : 0
   }
 
@@ -207,53 +251,92 @@ export function calculateShiftPay(
     presenceResponsiblePay: Math.round(presenceResponsiblePay * 100) / 100,
     nightPresenceAllowance: Math.round(nightPresenceAllowance * 100) / 100,
     totalPay: Math.round(totalPay * 100) / 100,
+    rateSet,
   }
 }
 
 /**
- * Calcule le nombre d'heures supplémentaires pour une intervention
+ * Répartition des heures d'une intervention selon le cumul hebdomadaire (IDCC 3239) :
+ * - normales : jusqu'à la durée contractuelle (plafonnée au temps plein de 40h)
+ * - complémentaires : temps partiel, de la durée contractuelle à 40h — payées au taux normal
+ * - supplémentaires : au-delà de 40h, 1er palier sur `OVERTIME_FIRST_TIER_HOURS`, 2nd palier ensuite
+ */
+export interface WeeklyHoursSplit {
+  normalHours: number
+  complementaryHours: number
+  overtimeFirstTierHours: number
+  overtimeSecondTierHours: number
+}
+
+/**
+ * Répartit `shiftHours` sachant que `hoursBefore` heures ont déjà été travaillées dans la semaine
+ */
+export function splitWeeklyHours(
+  hoursBefore: number,
+  shiftHours: number,
+  contractualWeeklyHours: number
+): WeeklyHoursSplit {
+  const fullTime = IDCC_RULES.FULL_TIME_WEEKLY_HOURS
+  const normalCeiling = Math.min(contractualWeeklyHours, fullTime)
+  const firstTierCeiling = fullTime + IDCC_RULES.OVERTIME_FIRST_TIER_HOURS
+  const hoursAfter = hoursBefore + shiftHours
+
+  // Part de [hoursBefore, hoursAfter] comprise dans [from, to]
+  const slice = (from: number, to: number) =>
+    Math.max(0, Math.min(hoursAfter, to) - Math.max(hoursBefore, from))
+
+  return {
+    normalHours: slice(0, normalCeiling),
+    complementaryHours: slice(normalCeiling, fullTime),
+    overtimeFirstTierHours: slice(fullTime, firstTierCeiling),
+    overtimeSecondTierHours: slice(firstTierCeiling, Infinity),
+  }
+}
+
+/**
+ * Ordre chronologique (date puis heure de début) : une intervention n'est jamais
+ * reclassée par une intervention postérieure de la même semaine.
+ */
+function isBefore(a: ShiftForValidation, b: ShiftForValidation): boolean {
+  const dayDiff = a.date.getTime() - b.date.getTime()
+  if (dayDiff !== 0) return dayDiff < 0
+  return a.startTime < b.startTime
+}
+
+/**
+ * Répartition des heures d'une intervention, cumulées avec les interventions
+ * antérieures de la même semaine civile (lundi → dimanche) pour le même employé.
+ * Les interventions d'un mois précédent dans la même semaine comptent dans le cumul.
+ */
+export function getWeeklyHoursSplit(
+  shift: ShiftForValidation,
+  existingShifts: ShiftForValidation[],
+  contractualWeeklyHours: number
+): WeeklyHoursSplit {
+  const weekStart = getWeekStart(shift.date).getTime()
+
+  const hoursBefore = existingShifts
+    .filter((other) => {
+      if (shift.id && other.id === shift.id) return false
+      if (other.employeeId !== shift.employeeId) return false
+      if (getWeekStart(other.date).getTime() !== weekStart) return false
+      return isBefore(other, shift)
+    })
+    .reduce((sum, other) => sum + getEffectiveHours(other), 0)
+
+  return splitWeeklyHours(hoursBefore, getEffectiveHours(shift), contractualWeeklyHours)
+}
+
+/**
+ * Calcule le nombre d'heures supplémentaires (au-delà de 40h/semaine) générées par une intervention
  */
 export function calculateOvertimeHours(
   newShift: ShiftForValidation,
   existingShifts: ShiftForValidation[],
   contractualWeeklyHours: number
 ): number {
-  const weekStart = getWeekStart(newShift.date)
-
-  // Filtrer les interventions de la même semaine pour le même employé
-  const weekShifts = existingShifts.filter((shift) => {
-    if (newShift.id && shift.id === newShift.id) return false
-    if (shift.employeeId !== newShift.employeeId) return false
-    const shiftWeekStart = getWeekStart(shift.date)
-    return shiftWeekStart.getTime() === weekStart.getTime()
-  })
-
-  // Total des heures AVANT cette intervention
-  const previousHours = calculateTotalHours(weekShifts)
-
-  // Durée de cette intervention
-  const thisShiftHours = calculateShiftDuration(
-    newShift.startTime,
-    newShift.endTime,
-    newShift.breakDuration
-  ) / 60
-
-  // Heures totales après cette intervention
-  const totalHours = previousHours + thisShiftHours
-
-  // Si le total dépasse les heures contractuelles, calculer les heures sup
-  if (totalHours > contractualWeeklyHours) {
-    // Heures sup AVANT cette intervention
-    const previousOvertime = Math.max(0, previousHours - contractualWeeklyHours)
-
-    // Heures sup APRÈS cette intervention
-    const totalOvertime = Math.max(0, totalHours - contractualWeeklyHours)
-
-    // Heures sup générées par CETTE intervention
-    return totalOvertime - previousOvertime
-  }
-
-  return 0
+  const split = getWeeklyHoursSplit(newShift, existingShifts, contractualWeeklyHours)
+  return split.overtimeFirstTierHours + split.overtimeSecondTierHours
 }
 
 /**
@@ -312,6 +395,7 @@ export function getPayBreakdown(pay: ComputedPay): Array<{
   amount: number
   percentage?: number
 }> {
+  const rates = (pay.rateSet ?? DEFAULT_PAY_RATE_SET).rates
   const breakdown: Array<{ label: string; amount: number; percentage?: number }> = [
     { label: 'Salaire de base', amount: pay.basePay },
   ]
@@ -320,7 +404,7 @@ export function getPayBreakdown(pay: ComputedPay): Array<{
     breakdown.push({
       label: 'Majoration dimanche',
       amount: pay.sundayMajoration,
-      percentage: MAJORATION_RATES.SUNDAY * 100,
+      percentage: rates.SUNDAY * 100,
     })
   }
 
@@ -336,7 +420,7 @@ export function getPayBreakdown(pay: ComputedPay): Array<{
     breakdown.push({
       label: 'Majoration heures de nuit',
       amount: pay.nightMajoration,
-      percentage: MAJORATION_RATES.NIGHT * 100,
+      percentage: rates.NIGHT * 100,
     })
   }
 
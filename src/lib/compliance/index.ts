@@ -92,7 +92,12 @@ export {
 // Calcul de paie
 export {
   calculateShiftPay,
+  getWeeklyHoursSplit,
+  splitWeeklyHours,
   calculateMonthlyEstimate,
   formatCurrency,
   getPayBreakdown,
+  getPayRateSet,
+  DEFAULT_PAY_RATE_SET,
 } from './calculatePay'
+export type { MajorationSettings, WeeklyHoursSplit } from './calculatePay'
@@ -15,6 +15,9 @@ const ABSENCE_TYPE_LABELS: Record<string, string> = {
   unavailable: 'indisponibilité',
   emergency: 'absence d\'urgence',
   family_event: 'événement familial',
+  unpaid_leave: 'congé sans solde',
+  maternity: 'congé maternité / paternité',
+  work_accident: 'accident du travail',
 }
 
 export interface AbsenceForValidation {
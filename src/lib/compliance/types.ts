@@ -3,6 +3,8 @@
  * Convention Collective IDCC 3239 - Particuliers Employeurs
  */
 
+import type { ContractTermsVersion } from '@/lib/contract/amendments'
+
 // Type d'intervention
 export type ShiftType = 'effective' | 'presence_day' | 'presence_night' | 'guard_24h'
 
@@ -33,6 +35,8 @@ export interface ContractForCalculation {
   id: string
   weeklyHours: number
   hourlyRate: number
+  /** Versions datées des conditions (avenants) : celle en vigueur le jour de l'intervention prime */
+  termsHistory?: ContractTermsVersion[]
 }
 
 // Résultat de validation d'une règle
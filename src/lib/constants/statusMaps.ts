@@ -57,6 +57,9 @@ export const ABSENCE_TYPE_LABELS: Record<Absence['absenceType'], string> = {
   training: 'Congé formation',
   unavailable: 'Indisponibilité',
   emergency: 'Urgence personnelle',
+  unpaid_leave: 'Congé sans solde',
+  maternity: 'Congé maternité / paternité',
+  work_accident: 'Accident du travail',
 }
 
 export const ABSENCE_TYPE_COLORS: Record<Absence['absenceType'], string> = {
@@ -66,6 +69,9 @@ export const ABSENCE_TYPE_COLORS: Record<Absence['absenceType'], string> = {
   training: 'purple',
   unavailable: 'gray',
   emergency: 'orange',
+  unpaid_leave: 'gray',
+  maternity: 'pink',
+  work_accident: 'red',
 }
 
 // ─── Caregiver ───────────────────────────────────────────────────────────────
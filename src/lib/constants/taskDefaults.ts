@@ -108,7 +108,7 @@ export function parseShoppingItemString(str: string): ShoppingItem {
 }
 
 /** Clé unique pour identifier un ShoppingItem */
-export function shoppingItemKey(item: ShoppingItem): string {
+export function shoppingItemKey(item: Pick<ShoppingItem, 'name' | 'brand'>): string {
   return `${item.name}::${item.brand}`
 }
 
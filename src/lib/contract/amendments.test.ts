@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest'
+import {
+  diffContractTerms,
+  isInForce,
+  resolveContractTerms,
+  sortTermsVersions,
+  type ContractTerms,
+  type ContractTermsVersion,
+} from './amendments'
+
+const fallback: ContractTerms = { weeklyHours: 20, hourlyRate: 15, pasRate: 0.05 }
+
+const versions: ContractTermsVersion[] = [
+  { effectiveDate: new Date(2026, 5, 1), weeklyHours: 30, hourlyRate: 14, pasRate: 0.02 },
+  { effectiveDate: new Date(2026, 0, 1), weeklyHours: 20, hourlyRate: 12, pasRate: 0 },
+  { effectiveDate: new Date(2026, 2, 16), weeklyHours: 20, hourlyRate: 13, pasRate: 0 },
+]
+
+describe('sortTermsVersions', () => {
+  it('trie par date d\'effet sans modifier le tableau d\'origine', () => {
+    const sorted = sortTermsVersions(versions)
+
+    expect(sorted.map((v) => v.hourlyRate)).toEqual([12, 13, 14])
+    expect(versions[0].hourlyRate).toBe(14)
+  })
+})
+
+describe('resolveContractTerms', () => {
+  it('retient la version en vigueur à la date', () => {
+    expect(resolveContractTerms(fallback, versions, new Date(2026, 2, 15)).hourlyRate).toBe(12)
+    expect(resolveContractTerms(fallback, versions, new Date(2026, 4, 31)).hourlyRate).toBe(13)
+  })
+
+  it('applique l\'avenant dès son jour d\'effet, quelle que soit l\'heure', () => {
+    expect(resolveContractTerms(fallback, versions, new Date(2026, 2, 16, 7, 30))).toEqual({
+      weeklyHours: 20,
+      hourlyRate: 13,
+      pasRate: 0,
+    })
+  })
+
+  it('retient la dernière version après tous les avenants', () => {
+    expect(resolveContractTerms(fallback, versions, new Date(2027, 0, 1)).weeklyHours).toBe(30)
+  })
+
+  it('retient la plus ancienne version avant le premier avenant connu', () => {
+    expect(resolveContractTerms(fallback, versions, new Date(2025, 11, 31)).hourlyRate).toBe(12)
+  })
+
+  it('utilise les conditions du contrat sans historique', () => {
+    expect(resolveContractTerms(fallback, undefined, new Date())).toBe(fallback)
+    expect(resolveContractTerms(fallback, [], new Date())).toBe(fallback)
+  })
+})
+
+describe('isInForce', () => {
+  const today = new Date(2026, 2, 16, 18, 0)
+
+  it('est vrai à partir du jour d\'effet', () => {
+    expect(isInForce({ effectiveDate: new Date(2026, 2, 16) }, today)).toBe(true)
+    expect(isInForce({ effectiveDate: new Date(2026, 0, 1) }, today)).toBe(true)
+  })
+
+  it('est faux pour un avenant à venir', () => {
+    expect(isInForce({ effectiveDate: new Date(2026, 2, 17) }, today)).toBe(false)
+  })
+})
+
+describe('diffContractTerms', () => {
+  it('liste les seules conditions modifiées', () => {
+    expect(diffContractTerms(versions[1], versions[0])).toEqual([
+      { field: 'weeklyHours', from: 20, to: 30 },
+      { field: 'hourlyRate', from: 12, to: 14 },
+      { field: 'pasRate', from: 0, to: 0.02 },
+    ])
+    expect(diffContractTerms(versions[1], versions[2])).toEqual([
+      { field: 'hourlyRate', from: 12, to: 13 },
+    ])
+  })
+
+  it('retourne un tableau vide si rien ne change', () => {
+    expect(diffContractTerms(fallback, { ...fallback })).toEqual([])
+  })
+})
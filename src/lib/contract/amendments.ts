@@ -0,0 +1,77 @@
+/**
+ * Conditions du contrat en vigueur à une date (avenants)
+ *
+ * Chaque version des conditions (contrat initial puis avenants) s'applique
+ * de sa date d'effet jusqu'à la veille de la suivante. La paie d'une
+ * intervention se calcule avec la version en vigueur le jour de
+ * l'intervention, jamais avec les conditions actuelles du contrat.
+ */
+
+import { format, startOfDay } from 'date-fns'
+import type { ContractAmendment } from '@/types'
+
+export interface ContractTerms {
+  weeklyHours: number
+  hourlyRate: number
+  pasRate: number
+}
+
+/** Version de conditions, telle que stockée ou reçue du calcul de paie */
+export type ContractTermsVersion = ContractTerms & Pick<ContractAmendment, 'effectiveDate'>
+
+function dayKey(date: Date): string {
+  return format(date, 'yyyy-MM-dd')
+}
+
+/** Versions triées par date d'effet croissante */
+export function sortTermsVersions<T extends ContractTermsVersion>(versions: T[]): T[] {
+  return [...versions].sort((a, b) => a.effectiveDate.getTime() - b.effectiveDate.getTime())
+}
+
+/**
+ * Conditions en vigueur à `date`.
+ *
+ * Sans version applicable (date antérieure à la première version, ou
+ * historique vide), on retient la plus ancienne version connue, sinon les
+ * conditions du contrat (`fallback`).
+ */
+export function resolveContractTerms(
+  fallback: ContractTerms,
+  versions: ContractTermsVersion[] | undefined,
+  date: Date
+): ContractTerms {
+  if (!versions || versions.length === 0) return fallback
+
+  const sorted = sortTermsVersions(versions)
+  const day = dayKey(date)
+  let inForce = sorted[0]
+  for (const version of sorted) {
+    if (dayKey(version.effectiveDate) > day) break
+    inForce = version
+  }
+
+  return {
+    weeklyHours: inForce.weeklyHours,
+    hourlyRate: inForce.hourlyRate,
+    pasRate: inForce.pasRate,
+  }
+}
+
+/** Vrai si la version est déjà en vigueur à `today` */
+export function isInForce(version: Pick<ContractTermsVersion, 'effectiveDate'>, today: Date = new Date()): boolean {
+  return startOfDay(version.effectiveDate) <= startOfDay(today)
+}
+
+export interface TermsChange {
+  field: keyof ContractTerms
+  from: number
+  to: number
+}
+
+/** Conditions modifiées par une version par rapport à la précédente */
+export function diffContractTerms(previous: ContractTerms, next: ContractTerms): TermsChange[] {
+  const fields: (keyof ContractTerms)[] = ['weeklyHours', 'hourlyRate', 'pasRate']
+  return fields
+    .filter((field) => previous[field] !== next[field])
+    .map((field) => ({ field, from: previous[field], to: next[field] }))
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getSignatureProgress,
+  getSignerRole,
+  hasSigned,
+  isFullySigned,
+  sha256Hex,
+  shortHash,
+} from './signature'
+
+const request = {
+  employerId: 'employer-1',
+  employeeId: 'employee-1',
+  status: 'pending' as const,
+  employerSignedAt: undefined as Date | undefined,
+  employeeSignedAt: undefined as Date | undefined,
+}
+
+describe('sha256Hex', () => {
+  it('calcule l\'empreinte SHA-256 en hexadécimal', async () => {
+    const hash = await sha256Hex(new TextEncoder().encode('abc'))
+
+    expect(hash).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad')
+  })
+})
+
+describe('getSignerRole', () => {
+  it('identifie la partie', () => {
+    expect(getSignerRole(request, 'employer-1')).toBe('employer')
+    expect(getSignerRole(request, 'employee-1')).toBe('employee')
+    expect(getSignerRole(request, 'someone-else')).toBeNull()
+  })
+})
+
+describe('getSignatureProgress', () => {
+  it('suit les signatures recueillies', () => {
+    expect(getSignatureProgress(request)).toBe('awaiting_both')
+    expect(getSignatureProgress({ ...request, employerSignedAt: new Date() })).toBe('awaiting_employee')
+    expect(getSignatureProgress({ ...request, employeeSignedAt: new Date() })).toBe('awaiting_employer')
+  })
+
+  it('reflète une demande scellée ou annulée', () => {
+    expect(getSignatureProgress({ ...request, status: 'signed' })).toBe('signed')
+    expect(getSignatureProgress({ ...request, status: 'cancelled', employerSignedAt: new Date() })).toBe('cancelled')
+  })
+})
+
+describe('hasSigned / isFullySigned', () => {
+  it('distingue chaque partie', () => {
+    const signedByEmployer = { ...request, employerSignedAt: new Date() }
+
+    expect(hasSigned(signedByEmployer, 'employer')).toBe(true)
+    expect(hasSigned(signedByEmployer, 'employee')).toBe(false)
+    expect(isFullySigned(signedByEmployer)).toBe(false)
+    expect(isFullySigned({ ...signedByEmployer, employeeSignedAt: new Date() })).toBe(true)
+  })
+})
+
+describe('shortHash', () => {
+  it('abrège une empreinte longue', () => {
+    expect(shortHash('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad')).toBe('ba7816bf…f20015ad')
+    expect(shortHash('abc')).toBe('abc')
+  })
+})
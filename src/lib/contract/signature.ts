@@ -0,0 +1,79 @@
+/**
+ * Signature électronique des contrats, avenants et relevés d'heures
+ *
+ * Chaque signature est liée à l'empreinte SHA-256 du PDF présenté au
+ * signataire : le signataire recalcule l'empreinte du document déposé et
+ * le serveur refuse la signature si elle diffère de celle de la demande.
+ */
+
+import type { SignatureRequest, SignerRole } from '@/types'
+
+/** Consentement affiché et enregistré avec chaque signature */
+export const SIGNATURE_CONSENT_TEXT =
+  'J\'ai lu l\'intégralité du document et j\'accepte de le signer électroniquement. ' +
+  'Cette signature a la même valeur qu\'une signature manuscrite (Art. 1367 du Code civil).'
+
+/** État d'une demande, vu des deux parties */
+export type SignatureProgress =
+  | 'awaiting_both'
+  | 'awaiting_employer'
+  | 'awaiting_employee'
+  | 'signed'
+  | 'cancelled'
+
+export const SIGNATURE_PROGRESS_LABELS: Record<SignatureProgress, string> = {
+  awaiting_both: 'À signer par les deux parties',
+  awaiting_employer: 'En attente de l\'employeur',
+  awaiting_employee: 'En attente du salarié',
+  signed: 'Signé',
+  cancelled: 'Annulé',
+}
+
+export const SIGNER_ROLE_LABELS: Record<SignerRole, string> = {
+  employer: 'L\'employeur',
+  employee: 'Le salarié',
+}
+
+/** Empreinte SHA-256 (hexadécimal) */
+export async function sha256Hex(bytes: Uint8Array<ArrayBuffer>): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', bytes)
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+/** Rôle de l'utilisateur dans la demande, null s'il n'en est pas partie */
+export function getSignerRole(
+  request: Pick<SignatureRequest, 'employerId' | 'employeeId'>,
+  userId: string
+): SignerRole | null {
+  if (userId === request.employerId) return 'employer'
+  if (userId === request.employeeId) return 'employee'
+  return null
+}
+
+export function hasSigned(
+  request: Pick<SignatureRequest, 'employerSignedAt' | 'employeeSignedAt'>,
+  role: SignerRole
+): boolean {
+  return role === 'employer' ? !!request.employerSignedAt : !!request.employeeSignedAt
+}
+
+export function getSignatureProgress(
+  request: Pick<SignatureRequest, 'status' | 'employerSignedAt' | 'employeeSignedAt'>
+): SignatureProgress {
+  if (request.status === 'signed') return 'signed'
+  if (request.status === 'cancelled') return 'cancelled'
+  if (!request.employerSignedAt && !request.employeeSignedAt) return 'awaiting_both'
+  return request.employerSignedAt ? 'awaiting_employee' : 'awaiting_employer'
+}
+
+/** Vrai si les deux parties ont signé (le document peut être scellé) */
+export function isFullySigned(request: Pick<SignatureRequest, 'employerSignedAt' | 'employeeSignedAt'>): boolean {
+  return !!request.employerSignedAt && !!request.employeeSignedAt
+}
+
+/** Raccourci lisible d'une empreinte (début…fin) */
+export function shortHash(hash: string): string {
+  return hash.length > 16 ? `${hash.slice(0, 8)}…${hash.slice(-8)}` : hash
+}
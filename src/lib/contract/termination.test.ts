@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest'
+import {
+  computeLeaveIndemnity,
+  computeLegalSeverance,
+  computeReferenceSalary,
+  computeTerminationSettlement,
+  formatNoticePeriod,
+  getEarliestMutualAgreementEndDate,
+  getNoticePeriod,
+  type TerminationInput,
+} from './termination'
+
+const base: TerminationInput = {
+  reason: 'dismissal',
+  contractStartDate: new Date(2023, 0, 1),
+  notificationDate: new Date(2026, 2, 2),
+  noticeWaived: false,
+  referenceSalary: 1200,
+  monthlySalary: 1200,
+  remainingLeaveDays: 13,
+  outstandingSalary: 0,
+}
+
+describe('getNoticePeriod', () => {
+  it('suit l\'ancienneté pour un licenciement', () => {
+    expect(getNoticePeriod('dismissal', 3)).toEqual({ value: 1, unit: 'week' })
+    expect(getNoticePeriod('dismissal', 12)).toEqual({ value: 1, unit: 'month' })
+    expect(getNoticePeriod('dismissal', 30)).toEqual({ value: 2, unit: 'month' })
+  })
+
+  it('est plus court pour une démission', () => {
+    expect(getNoticePeriod('resignation', 12)).toEqual({ value: 2, unit: 'week' })
+    expect(getNoticePeriod('resignation', 30)).toEqual({ value: 1, unit: 'month' })
+  })
+
+  it('n\'existe pas pour une rupture conventionnelle', () => {
+    expect(getNoticePeriod('mutual_agreement', 30)).toBeNull()
+    expect(formatNoticePeriod(null)).toBe('Aucun')
+  })
+})
+
+describe('computeReferenceSalary', () => {
+  it('retient la moyenne la plus favorable des 12 ou 3 derniers mois', () => {
+    const pays = [...Array(9).fill(1000), 1300, 1300, 1300]
+    expect(computeReferenceSalary(pays, 900)).toBe(1300)
+  })
+
+  it('se replie sur le salaire contractuel sans bulletin', () => {
+    expect(computeReferenceSalary([], 1126.67)).toBe(1126.67)
+  })
+})
+
+describe('computeLegalSeverance', () => {
+  it('applique 1/4 de mois par année puis 1/3 au-delà de 10 ans', () => {
+    expect(computeLegalSeverance(1200, 24)).toBe(600)
+    expect(computeLegalSeverance(1200, 18)).toBe(450)
+    expect(computeLegalSeverance(1200, 144)).toBe(3800)
+  })
+})
+
+describe('computeLeaveIndemnity', () => {
+  it('retient le maintien de salaire ou le dixième, le plus favorable', () => {
+    expect(computeLeaveIndemnity(13, 1300)).toBe(650)
+    expect(computeLeaveIndemnity(15, 1300, { referencePeriodGross: 18000, acquiredDays: 30 })).toBe(900)
+    expect(computeLeaveIndemnity(0, 1300)).toBe(0)
+  })
+})
+
+describe('getEarliestMutualAgreementEndDate', () => {
+  it('ajoute la rétractation puis l\'homologation', () => {
+    // Signature le lundi 2 mars 2026 : rétractation jusqu'au 17, homologation
+    // acquise le 3 avril (15 jours ouvrables), fin possible le 4 avril
+    expect(getEarliestMutualAgreementEndDate(new Date(2026, 2, 2))).toEqual(new Date(2026, 3, 4))
+  })
+})
+
+describe('computeTerminationSettlement', () => {
+  it('licenciement avec préavis effectué : fin au terme du préavis', () => {
+    const result = computeTerminationSettlement(base)
+
+    expect(result.notice).toEqual({ value: 2, unit: 'month' })
+    expect(result.endDate).toEqual(new Date(2026, 4, 2))
+    expect(result.seniorityMonths).toBe(40)
+    expect(result.noticeIndemnity).toBe(0)
+    expect(result.severancePay).toBe(1000)
+    expect(result.leaveIndemnity).toBe(600)
+    expect(result.total).toBe(1600)
+  })
+
+  it('licenciement avec dispense de préavis : préavis indemnisé', () => {
+    const result = computeTerminationSettlement({ ...base, noticeWaived: true })
+
+    expect(result.endDate).toEqual(base.notificationDate)
+    expect(result.noticeIndemnity).toBe(2400)
+    expect(result.seniorityMonths).toBe(40)
+  })
+
+  it('démission : ni indemnité de licenciement ni préavis indemnisé', () => {
+    const result = computeTerminationSettlement({ ...base, reason: 'resignation', noticeWaived: true })
+
+    expect(result.severancePay).toBe(0)
+    expect(result.noticeIndemnity).toBe(0)
+    expect(result.lines.map((l) => l.label)).toEqual(['Indemnité compensatrice de congés payés (13 j)'])
+  })
+
+  it('décès de l\'employeur : fin immédiate, préavis et indemnité dus', () => {
+    const result = computeTerminationSettlement({ ...base, reason: 'employer_death' })
+
+    expect(result.endDate).toEqual(base.notificationDate)
+    expect(result.noticeIndemnity).toBe(2400)
+    expect(result.severancePay).toBe(1000)
+  })
+
+  it('pas d\'indemnité de licenciement avant 8 mois d\'ancienneté', () => {
+    const result = computeTerminationSettlement({
+      ...base,
+      contractStartDate: new Date(2025, 9, 1),
+    })
+
+    expect(result.severancePay).toBe(0)
+  })
+
+  it('rupture conventionnelle : indemnité spécifique même sous 8 mois', () => {
+    const result = computeTerminationSettlement({
+      ...base,
+      reason: 'mutual_agreement',
+      contractStartDate: new Date(2025, 9, 1),
+      agreedEndDate: new Date(2026, 3, 30),
+      outstandingSalary: 350,
+    })
+
+    expect(result.notice).toBeNull()
+    expect(result.endDate).toEqual(new Date(2026, 3, 30))
+    expect(result.severancePay).toBe(150)
+    expect(result.lines[0]).toEqual({ label: 'Salaire restant dû', amount: 350 })
+    expect(result.total).toBe(1100)
+  })
+
+  it('congés : le maintien suit le salaire actuel, pas le salaire de référence', () => {
+    const result = computeTerminationSettlement({ ...base, referenceSalary: 1500, monthlySalary: 1300 })
+
+    expect(result.leaveIndemnity).toBe(650)
+  })
+
+  it('congés : retient le dixième quand il est plus favorable', () => {
+    // Maintien : 1200 / 26 × 13 = 600 ; dixième : 14 400 / 10 × 13 / 25 = 748,80
+    const result = computeTerminationSettlement({
+      ...base,
+      leaveTenthBasis: { referencePeriodGross: 14_400, acquiredDays: 25 },
+    })
+
+    expect(result.leaveIndemnity).toBe(748.8)
+    expect(result.total).toBe(1748.8)
+  })
+})
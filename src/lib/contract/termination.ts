@@ -0,0 +1,254 @@
+/**
+ * Calculs de fin de contrat — Convention Collective IDCC 3239
+ *
+ * Sources :
+ * - Préavis de licenciement : 1 semaine (< 6 mois), 1 mois (6 mois à 2 ans),
+ *   2 mois (≥ 2 ans) ; de démission : 1 semaine, 2 semaines, 1 mois
+ * - Décès de l'employeur : fin de plein droit du contrat à la date du décès,
+ *   préavis et indemnité de licenciement dus (IDCC 3239)
+ * - Indemnité de licenciement (Art. L1234-9, R1234-2) : à partir de 8 mois
+ *   d'ancienneté, 1/4 de mois par année jusqu'à 10 ans, 1/3 au-delà,
+ *   années incomplètes au prorata des mois
+ * - Rupture conventionnelle (Art. L1237-13) : indemnité spécifique au moins
+ *   égale à l'indemnité légale, sans condition d'ancienneté ; rétractation
+ *   de 15 jours calendaires puis homologation en 15 jours ouvrables
+ * - Salaire de référence (Art. R1234-4) : moyenne la plus favorable des
+ *   12 ou des 3 derniers mois
+ * - Congés non pris (Art. L3141-28, L3141-24) : indemnité compensatrice, la
+ *   plus favorable du maintien du salaire mensuel actuel et du dixième de la
+ *   rémunération brute de la période de référence, au prorata des jours restants
+ */
+
+import { addDays, addMonths, addWeeks, differenceInMonths } from 'date-fns'
+import type { TerminationReason } from '@/types'
+
+export const TERMINATION_REASON_LABELS: Record<TerminationReason, string> = {
+  resignation: 'Démission',
+  dismissal: 'Licenciement',
+  mutual_agreement: 'Rupture conventionnelle',
+  employer_death: "Décès de l'employeur",
+}
+
+/** Ancienneté minimale ouvrant droit à l'indemnité de licenciement */
+export const SEVERANCE_MIN_SENIORITY_MONTHS = 8
+
+/** Jours ouvrables par mois, pour la valeur d'un jour de congé (maintien) */
+const WORKING_DAYS_PER_MONTH = 26
+
+export interface NoticePeriod {
+  value: number
+  unit: 'week' | 'month'
+}
+
+/** Base du dixième : rémunération et jours acquis sur la période de référence */
+export interface LeaveTenthBasis {
+  referencePeriodGross: number
+  acquiredDays: number
+}
+
+export interface TerminationInput {
+  reason: TerminationReason
+  contractStartDate: Date
+  notificationDate: Date
+  /** Date de fin convenue (rupture conventionnelle uniquement) */
+  agreedEndDate?: Date
+  /** Préavis non effectué */
+  noticeWaived: boolean
+  /** Salaire mensuel brut de référence (préavis, licenciement) */
+  referenceSalary: number
+  /** Salaire mensuel brut actuel, base du maintien de salaire des congés */
+  monthlySalary: number
+  remainingLeaveDays: number
+  leaveTenthBasis?: LeaveTenthBasis
+  /** Salaire restant dû pour la dernière période travaillée */
+  outstandingSalary: number
+}
+
+export interface TerminationLine {
+  label: string
+  amount: number
+}
+
+export interface TerminationSettlement {
+  notice: NoticePeriod | null
+  endDate: Date
+  seniorityMonths: number
+  leaveIndemnity: number
+  noticeIndemnity: number
+  severancePay: number
+  lines: TerminationLine[]
+  total: number
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100
+}
+
+/** Ancienneté en mois complets à une date donnée */
+export function getSeniorityMonths(startDate: Date, asOfDate: Date): number {
+  return Math.max(0, differenceInMonths(asOfDate, startDate))
+}
+
+/** Durée du préavis selon le motif et l'ancienneté (aucun préavis sinon) */
+export function getNoticePeriod(reason: TerminationReason, seniorityMonths: number): NoticePeriod | null {
+  if (reason === 'dismissal' || reason === 'employer_death') {
+    if (seniorityMonths < 6) return { value: 1, unit: 'week' }
+    if (seniorityMonths < 24) return { value: 1, unit: 'month' }
+    return { value: 2, unit: 'month' }
+  }
+  if (reason === 'resignation') {
+    if (seniorityMonths < 6) return { value: 1, unit: 'week' }
+    if (seniorityMonths < 24) return { value: 2, unit: 'week' }
+    return { value: 1, unit: 'month' }
+  }
+  return null
+}
+
+export function formatNoticePeriod(notice: NoticePeriod | null): string {
+  if (!notice) return 'Aucun'
+  if (notice.unit === 'month') return `${notice.value} mois`
+  return `${notice.value} semaine${notice.value > 1 ? 's' : ''}`
+}
+
+export function addNoticePeriod(date: Date, notice: NoticePeriod): Date {
+  return notice.unit === 'month' ? addMonths(date, notice.value) : addWeeks(date, notice.value)
+}
+
+/**
+ * Date de fin la plus proche pour une rupture conventionnelle signée à
+ * cette date : 15 jours de rétractation puis 15 jours ouvrables d'instruction.
+ */
+export function getEarliestMutualAgreementEndDate(signatureDate: Date): Date {
+  let date = addDays(signatureDate, 15)
+  let workingDays = 0
+  while (workingDays < 15) {
+    date = addDays(date, 1)
+    if (date.getDay() !== 0) workingDays++
+  }
+  return addDays(date, 1)
+}
+
+/** Moyenne mensuelle la plus favorable des 12 ou des 3 derniers mois */
+export function computeReferenceSalary(monthlyGrossPays: number[], fallbackMonthly: number): number {
+  if (monthlyGrossPays.length === 0) return round2(fallbackMonthly)
+  const average = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length
+  const last12 = monthlyGrossPays.slice(-12)
+  const last3 = monthlyGrossPays.slice(-3)
+  return round2(Math.max(average(last12), average(last3)))
+}
+
+/** Indemnité légale de licenciement (prorata des années incomplètes) */
+export function computeLegalSeverance(referenceSalary: number, seniorityMonths: number): number {
+  const years = seniorityMonths / 12
+  const firstTenYears = Math.min(years, 10)
+  const beyond = Math.max(years - 10, 0)
+  return round2(referenceSalary * (firstTenYears / 4 + beyond / 3))
+}
+
+/**
+ * Indemnité compensatrice de congés payés : la plus favorable du maintien
+ * de salaire et du dixième (quand la rémunération de la période est connue).
+ */
+export function computeLeaveIndemnity(
+  remainingDays: number,
+  monthlySalary: number,
+  tenth?: LeaveTenthBasis
+): number {
+  if (remainingDays <= 0) return 0
+  const maintien = (monthlySalary / WORKING_DAYS_PER_MONTH) * remainingDays
+  const dixieme = tenth && tenth.acquiredDays > 0
+    ? (tenth.referencePeriodGross / 10) * (remainingDays / tenth.acquiredDays)
+    : 0
+  return round2(Math.max(maintien, dixieme))
+}
+
+function noticeIndemnityFor(notice: NoticePeriod, referenceSalary: number): number {
+  const months = notice.unit === 'month' ? notice.value : (notice.value * 12) / 52
+  return round2(referenceSalary * months)
+}
+
+/**
+ * Calcule la date de fin et les sommes dues à la fin du contrat.
+ *
+ * Le préavis non effectué n'est indemnisé que lorsque l'employeur en est à
+ * l'origine : dispense lors d'un licenciement, ou décès de l'employeur. Une
+ * démission dispensée de préavis à la demande de l'auxiliaire ne l'est pas.
+ */
+export function computeTerminationSettlement(input: TerminationInput): TerminationSettlement {
+  const {
+    reason,
+    contractStartDate,
+    notificationDate,
+    referenceSalary,
+    monthlySalary,
+    remainingLeaveDays,
+    leaveTenthBasis,
+    outstandingSalary,
+  } = input
+  const notice = getNoticePeriod(reason, getSeniorityMonths(contractStartDate, notificationDate))
+  const noticeWorked = !!notice && reason !== 'employer_death' && !input.noticeWaived
+
+  let endDate: Date
+  if (reason === 'mutual_agreement') {
+    endDate = input.agreedEndDate ?? getEarliestMutualAgreementEndDate(notificationDate)
+  } else if (noticeWorked && notice) {
+    endDate = addNoticePeriod(notificationDate, notice)
+  } else {
+    endDate = notificationDate
+  }
+
+  // L'ancienneté court jusqu'à la fin du préavis, même non effectué
+  const seniorityMonths = getSeniorityMonths(
+    contractStartDate,
+    notice && !noticeWorked ? addNoticePeriod(notificationDate, notice) : endDate
+  )
+
+  const noticeIndemnity = notice && !noticeWorked && (reason === 'dismissal' || reason === 'employer_death')
+    ? noticeIndemnityFor(notice, referenceSalary)
+    : 0
+
+  let severancePay = 0
+  if (reason === 'mutual_agreement') {
+    severancePay = computeLegalSeverance(referenceSalary, seniorityMonths)
+  } else if (
+    (reason === 'dismissal' || reason === 'employer_death') &&
+    seniorityMonths >= SEVERANCE_MIN_SENIORITY_MONTHS
+  ) {
+    severancePay = computeLegalSeverance(referenceSalary, seniorityMonths)
+  }
+
+  const leaveIndemnity = computeLeaveIndemnity(remainingLeaveDays, monthlySalary, leaveTenthBasis)
+
+  const lines: TerminationLine[] = []
+  if (outstandingSalary > 0) {
+    lines.push({ label: 'Salaire restant dû', amount: round2(outstandingSalary) })
+  }
+  if (leaveIndemnity > 0) {
+    lines.push({
+      label: `Indemnité compensatrice de congés payés (${remainingLeaveDays} j)`,
+      amount: leaveIndemnity,
+    })
+  }
+  if (noticeIndemnity > 0) {
+    lines.push({ label: 'Indemnité compensatrice de préavis', amount: noticeIndemnity })
+  }
+  if (severancePay > 0) {
+    lines.push({
+      label: reason === 'mutual_agreement'
+        ? 'Indemnité spécifique de rupture conventionnelle'
+        : 'Indemnité de licenciement',
+      amount: severancePay,
+    })
+  }
+
+  return {
+    notice,
+    endDate,
+    seniorityMonths,
+    leaveIndemnity,
+    noticeIndemnity,
+    severancePay,
+    lines,
+    total: round2(lines.reduce((sum, line) => sum + line.amount, 0)),
+  }
+}
@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest'
+import { dataUriToBlob, dataUriToBytes } from './dataUri'
+
+// "%PDF" encodé en base64
+const PDF_DATA_URI = 'data:application/pdf;base64,JVBERg=='
+
+describe('dataUriToBytes', () => {
+  it('décode le contenu base64 d\'un data URI', () => {
+    expect(Array.from(dataUriToBytes(PDF_DATA_URI))).toEqual([37, 80, 68, 70])
+  })
+})
+
+describe('dataUriToBlob', () => {
+  it('conserve le type MIME du data URI', async () => {
+    const blob = dataUriToBlob(PDF_DATA_URI)
+
+    expect(blob.type).toBe('application/pdf')
+    expect(Array.from(new Uint8Array(await blob.arrayBuffer()))).toEqual([37, 80, 68, 70])
+  })
+
+  it('retombe sur le type PDF sans type MIME', () => {
+    expect(dataUriToBlob('data:;base64,JVBERg==').type).toBe('application/pdf')
+  })
+})
@@ -0,0 +1,22 @@
+/**
+ * Décodage des data URI base64 produits par les générateurs PDF
+ * (cf. renderReactPdf), avant dépôt dans Supabase Storage ou calcul d'empreinte.
+ */
+
+/** Octets d'un data URI base64 */
+export function dataUriToBytes(dataUri: string): Uint8Array<ArrayBuffer> {
+  const base64 = dataUri.slice(dataUri.indexOf(',') + 1)
+  const binary = atob(base64)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+/** Blob binaire d'un data URI base64 (type MIME du data URI, PDF par défaut) */
+export function dataUriToBlob(dataUri: string): Blob {
+  const mimeMatch = dataUri.match(/^data:([^;,]+)/)
+  const mime = mimeMatch ? mimeMatch[1] : 'application/pdf'
+  return new Blob([dataUriToBytes(dataUri)], { type: mime })
+}
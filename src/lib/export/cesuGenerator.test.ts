@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest'
 import { generateCesuCsv, generateCesuSummary } from './cesuGenerator'
 import type { MonthlyDeclarationData } from './types'
+import { getPayRateSet } from '@/lib/compliance'
 
 // ── Fixtures ───────────────────────────────────────────────────────────────────
 
@@ -97,6 +98,14 @@ const dataMultiEmployees: MonthlyDeclarationData = {
 
 // ── generateCesuCsv ────────────────────────────────────────────────────────────
 
+const employerRateSet = getPayRateSet({
+  majDimanche: 40,
+  majFerie: 60,
+  majNuit: 20,
+  majSupp: 25,
+  ruleOvertime: true,
+})
+
 describe('generateCesuCsv', () => {
   describe('Résultat succès', () => {
     it('retourne success=true', () => {
@@ -146,6 +155,20 @@ describe('generateCesuCsv', () => {
     })
   })
 
+  describe('Taux de majoration', () => {
+    it('indique le barème IDCC 3239 pour une déclaration sans taux tracés', () => {
+      const { content } = generateCesuCsv(baseData)
+      expect(content).toContain('# Taux de majoration: dimanche +30% · férié +60% · nuit +20%')
+      expect(content).toContain('(barème IDCC 3239)')
+    })
+
+    it('indique les taux de l\'employeur quand ils ont servi au calcul', () => {
+      const { content } = generateCesuCsv({ ...baseData, rateSet: employerRateSet })
+      expect(content).toContain('dimanche +40%')
+      expect(content).toContain("(paramètres de convention de l'employeur)")
+    })
+  })
+
   describe('Données des employés (CSV)', () => {
     it('contient le nom de l\'employé', () => {
       const { content } = generateCesuCsv(baseData)
@@ -164,6 +187,12 @@ describe('generateCesuCsv', () => {
       expect(content).toContain('Taux horaire')
       expect(content).toContain('Total brut')
     })
+
+    it('sépare les heures complémentaires des heures sup', () => {
+      const { content } = generateCesuCsv({ ...baseData, employees: [makeEmployee({ complementaryHours: 3 })] })
+      expect(content).toContain('Heures compl.;Heures sup')
+      expect(content).toContain(';3,00;0,00;')
+    })
   })
 
   describe('Section totaux', () => {
@@ -299,6 +328,23 @@ describe('generateCesuSummary', () => {
       expect(content).toContain('Majoration dimanche')
     })
 
+    it('affiche les heures complémentaires au taux normal si > 0', () => {
+      const { content } = generateCesuSummary({ ...baseData, employees: [makeEmployee({ complementaryHours: 3 })] })
+      expect(content).toContain('Heures complémentaires:  3,00 h (taux normal)')
+    })
+
+    it('n\'affiche pas les heures complémentaires si absentes', () => {
+      const { content } = generateCesuSummary(baseData)
+      expect(content).not.toContain('Heures complémentaires')
+    })
+
+    it('affiche le taux dimanche appliqué à la déclaration', () => {
+      const { content } = generateCesuSummary({ ...baseData, rateSet: employerRateSet })
+      expect(content).toContain('Heures dimanche:')
+      expect(content).toContain('(+40%)')
+      expect(content).toContain("Taux de majoration appliqués : dimanche +40%")
+    })
+
     it('affiche "TOTAL GÉNÉRAL"', () => {
       const { content } = generateCesuSummary(baseData)
       expect(content).toContain('TOTAL GÉNÉRAL')
@@ -310,6 +356,36 @@ describe('generateCesuSummary', () => {
     })
   })
 
+  describe('Indemnités kilométriques', () => {
+    const mileageData: MonthlyDeclarationData = {
+      ...baseData,
+      employees: [makeEmployee({
+        mileage: { tripsCount: 3, totalKm: 45, reimbursableKm: 40, ratePerKm: 0.636, amount: 25.44 },
+      })],
+      totalMileageAllowance: 25.44,
+    }
+
+    it('affiche les frais à côté du brut, hors brut', () => {
+      const { content } = generateCesuSummary(mileageData)
+      expect(content).toContain('Indemnités km:           25,44 € (frais non imposables, hors brut — ne pas déclarer)')
+      expect(content).toContain('TOTAL BRUT:              940,00 €')
+    })
+
+    it('détaille le calcul et le total à verser', () => {
+      const { content } = generateCesuSummary(mileageData)
+      expect(content).toContain("Véhicule de l'auxiliaire: 40,00 km × 0,636 €/km = 25,44 €")
+      expect(content).toContain('Véhicule du bénéficiaire: 5,00 km (non indemnisés)')
+      expect(content).toContain('TOTAL À VERSER:          765,44 € (net + frais)')
+      expect(content).toContain('Indemnités km:         25,44 € (hors brut)')
+    })
+
+    it("n'affiche rien sans trajet", () => {
+      const { content } = generateCesuSummary(baseData)
+      expect(content).not.toContain('Indemnités km')
+      expect(content).not.toContain('FRAIS DE DÉPLACEMENT')
+    })
+  })
+
   describe('Formatage des interventions', () => {
     it('affiche la date au format dd/MM', () => {
       const { content } = generateCesuSummary(baseData)
@@ -9,8 +9,8 @@
 
 import { format } from 'date-fns'
 import { fr } from 'date-fns/locale'
-import { MAJORATION_RATES } from '@/lib/compliance/calculatePay'
 import type { MonthlyDeclarationData, ExportResult } from './types'
+import { getDeclarationRateSet, formatRatePercent, RATE_SET_SOURCE_LABELS } from './types'
 
 /**
  * Génère un fichier CSV pour la déclaration CESU
@@ -23,6 +23,7 @@ export function generateCesuCsv(data: MonthlyDeclarationData): ExportResult {
     lines.push('# DÉCLARATION CESU - RÉCAPITULATIF MENSUEL')
     lines.push(`# Période: ${data.periodLabel}`)
     lines.push(`# Généré le: ${format(data.generatedAt, 'dd/MM/yyyy à HH:mm', { locale: fr })}`)
+    lines.push(`# Taux de majoration: ${describeRateSet(data)}`)
     lines.push('')
 
     // Informations employeur
@@ -49,6 +50,7 @@ export function generateCesuCsv(data: MonthlyDeclarationData): ExportResult {
       'Heures dimanche',
       'Heures fériés',
       'Heures nuit',
+      'Heures compl.',
       'Heures sup',
       'Salaire effectif',
       'Présence jour (×2/3)',
@@ -76,6 +78,7 @@ export function generateCesuCsv(data: MonthlyDeclarationData): ExportResult {
         formatNumber(employee.sundayHours),
         formatNumber(employee.holidayHours),
         formatNumber(employee.nightHours),
+        formatNumber(employee.complementaryHours ?? 0),
         formatNumber(employee.overtimeHours),
         formatCurrency(employee.basePay),
         formatCurrency(employee.presenceResponsiblePay),
@@ -156,6 +159,7 @@ export function generateCesuCsv(data: MonthlyDeclarationData): ExportResult {
 export function generateCesuSummary(data: MonthlyDeclarationData): ExportResult {
   try {
     const lines: string[] = []
+    const { rates } = getDeclarationRateSet(data)
 
     lines.push('═══════════════════════════════════════════════════════')
     lines.push(`     RÉCAPITULATIF CESU - ${data.periodLabel.toUpperCase()}`)
@@ -184,6 +188,9 @@ export function generateCesuSummary(data: MonthlyDeclarationData): ExportResult
       lines.push(`  • Nombre d'heures totales: ${formatNumber(employee.totalHours)} h`)
       lines.push(`  • Net à verser:            ${formatCurrency(employee.netPay)}`)
       lines.push(`  • (Brut correspondant:     ${formatCurrency(employee.totalGrossPay)})`)
+      if (employee.mileage && employee.mileage.amount > 0) {
+        lines.push(`  • Indemnités km:           ${formatCurrency(employee.mileage.amount)} (frais non imposables, hors brut — ne pas déclarer)`)
+      }
       lines.push('')
 
       // Détail des heures
@@ -198,16 +205,19 @@ export function generateCesuSummary(data: MonthlyDeclarationData): ExportResult
         lines.push(`  • Présence resp. nuit:     ${formatNumber(employee.presenceNightHours)} h (forfait ×1/4 ou requalif. Art. 148)`)
       }
       if (employee.sundayHours > 0) {
-        lines.push(`  • Heures dimanche:         ${formatNumber(employee.sundayHours)} h (+${MAJORATION_RATES.SUNDAY * 100}%)`)
+        lines.push(`  • Heures dimanche:         ${formatNumber(employee.sundayHours)} h (+${formatRatePercent(rates.SUNDAY)}%)`)
       }
       if (employee.holidayHours > 0) {
-        lines.push(`  • Heures jours fériés:     ${formatNumber(employee.holidayHours)} h (+${MAJORATION_RATES.PUBLIC_HOLIDAY_WORKED * 100}%)`)
+        lines.push(`  • Heures jours fériés:     ${formatNumber(employee.holidayHours)} h (+${formatRatePercent(rates.PUBLIC_HOLIDAY_WORKED)}%)`)
       }
       if (employee.nightHours > 0) {
-        lines.push(`  • Heures de nuit:          ${formatNumber(employee.nightHours)} h (+${MAJORATION_RATES.NIGHT * 100}%)`)
+        lines.push(`  • Heures de nuit:          ${formatNumber(employee.nightHours)} h (+${formatRatePercent(rates.NIGHT)}%)`)
+      }
+      if ((employee.complementaryHours ?? 0) > 0) {
+        lines.push(`  • Heures complémentaires:  ${formatNumber(employee.complementaryHours ?? 0)} h (taux normal)`)
       }
       if (employee.overtimeHours > 0) {
-        lines.push(`  • Heures sup:              ${formatNumber(employee.overtimeHours)} h (+${MAJORATION_RATES.OVERTIME_FIRST_8H * 100}%/+${MAJORATION_RATES.OVERTIME_BEYOND_8H * 100}%)`)
+        lines.push(`  • Heures sup (> 40h/sem.): ${formatNumber(employee.overtimeHours)} h (+${formatRatePercent(rates.OVERTIME_FIRST_8H)}%/+${formatRatePercent(rates.OVERTIME_BEYOND_8H)}%)`)
       }
       lines.push('')
 
@@ -240,6 +250,18 @@ export function generateCesuSummary(data: MonthlyDeclarationData): ExportResult
       lines.push(`  • NET À VERSER:            ${formatCurrency(employee.netPay)}`)
       lines.push('')
 
+      // Frais de déplacement : remboursés en plus du net, sans cotisations
+      if (employee.mileage && employee.mileage.tripsCount > 0) {
+        const { mileage } = employee
+        lines.push('FRAIS DE DÉPLACEMENT (non imposables, à verser en plus du net):')
+        lines.push(`  • Véhicule de l'auxiliaire: ${formatNumber(mileage.reimbursableKm)} km × ${formatRate(mileage.ratePerKm)} €/km = ${formatCurrency(mileage.amount)}`)
+        if (mileage.totalKm > mileage.reimbursableKm) {
+          lines.push(`  • Véhicule du bénéficiaire: ${formatNumber(mileage.totalKm - mileage.reimbursableKm)} km (non indemnisés)`)
+        }
+        lines.push(`  • TOTAL À VERSER:          ${formatCurrency(employee.netPay + mileage.amount)} (net + frais)`)
+        lines.push('')
+      }
+
       // Interventions
       lines.push(`INTERVENTIONS (${employee.shiftsCount}):`)
       for (const shift of employee.shiftsDetails) {
@@ -263,8 +285,12 @@ export function generateCesuSummary(data: MonthlyDeclarationData): ExportResult
     lines.push(`  Total heures:          ${formatNumber(data.totalHours)} h`)
     lines.push(`  Total brut:            ${formatCurrency(data.totalGrossPay)}`)
     lines.push(`  Total NET à verser:    ${formatCurrency(data.totalNetPay)}`)
+    if (data.totalMileageAllowance) {
+      lines.push(`  Indemnités km:         ${formatCurrency(data.totalMileageAllowance)} (hors brut)`)
+    }
     lines.push('═══════════════════════════════════════════════════════')
     lines.push('')
+    lines.push(`Taux de majoration appliqués : ${describeRateSet(data)}.`)
     lines.push('Date limite de déclaration : avant le 5 du mois suivant.')
 
     const content = lines.join('\n')
@@ -295,3 +321,20 @@ function formatNumber(n: number): string {
 function formatCurrency(n: number): string {
   return n.toFixed(2).replace('.', ',') + ' €'
 }
+
+function formatRate(n: number): string {
+  return n.toFixed(3).replace('.', ',')
+}
+
+/**
+ * Résumé des taux de majoration utilisés et de leur origine (traçabilité de l'export)
+ */
+function describeRateSet(data: MonthlyDeclarationData): string {
+  const { source, rates } = getDeclarationRateSet(data)
+  return [
+    `dimanche +${formatRatePercent(rates.SUNDAY)}%`,
+    `férié +${formatRatePercent(rates.PUBLIC_HOLIDAY_WORKED)}%`,
+    `nuit +${formatRatePercent(rates.NIGHT)}%`,
+    `heures sup +${formatRatePercent(rates.OVERTIME_FIRST_8H)}%/+${formatRatePercent(rates.OVERTIME_BEYOND_8H)}%`,
+  ].join(' · ') + ` (${RATE_SET_SOURCE_LABELS[source]})`
+}
@@ -12,6 +12,8 @@
 import React from 'react'
 import { Document, Page, View, Text, StyleSheet, Link } from '@react-pdf/renderer'
 import type { MonthlyDeclarationData, EmployeeDeclarationData, ExportResult } from './types'
+import { getDeclarationRateSet, formatRatePercent, RATE_SET_SOURCE_LABELS } from './types'
+import type { PayRateSet } from '@/types'
 import { renderReactPdf } from './pdfReactRenderer'
 import {
   colors,
@@ -338,6 +340,7 @@ function formatShortDate(date: Date): string {
 }
 
 function CesuDocument({ data }: { data: MonthlyDeclarationData }) {
+  const rateSet = getDeclarationRateSet(data)
   return (
     <Document>
       <Page size="A4" style={baseStyles.page}>
@@ -363,12 +366,15 @@ function CesuDocument({ data }: { data: MonthlyDeclarationData }) {
             <Text style={s.periodLine}>
               Période d{'’'}emploi : du {formatShortDate(data.periodStartDate)} au {formatShortDate(data.periodEndDate)}
             </Text>
+            <Text style={s.periodLine}>
+              Taux de majoration : {RATE_SET_SOURCE_LABELS[rateSet.source]}
+            </Text>
           </View>
 
           <SectionTitle>Employés ({data.totalEmployees})</SectionTitle>
 
           {data.employees.map((emp, i) => (
-            <EmployeeCard key={i} emp={emp} />
+            <EmployeeCard key={i} emp={emp} rateSet={rateSet} />
           ))}
 
           {/* Grand total */}
@@ -403,13 +409,16 @@ interface BreakdownLine {
   amount: number
 }
 
-function buildBreakdown(emp: EmployeeDeclarationData): BreakdownLine[] {
+function buildBreakdown(emp: EmployeeDeclarationData, { rates }: PayRateSet): BreakdownLine[] {
   const lines: BreakdownLine[] = []
 
   if (emp.basePay > 0) {
+    const complementary = emp.complementaryHours
+      ? ` (dont ${hrs(emp.complementaryHours)} complémentaires)`
+      : ''
     lines.push({
       label: 'Travail effectif',
-      detail: `${hrs(emp.effectiveWorkHours)} × ${euro(emp.hourlyRate)}/h`,
+      detail: `${hrs(emp.effectiveWorkHours)} × ${euro(emp.hourlyRate)}/h${complementary}`,
       amount: emp.basePay,
     })
   }
@@ -429,37 +438,37 @@ function buildBreakdown(emp: EmployeeDeclarationData): BreakdownLine[] {
   }
   if (emp.sundayMajoration > 0) {
     lines.push({
-      label: 'Majoration dimanche (+30%)',
+      label: `Majoration dimanche (+${formatRatePercent(rates.SUNDAY)}%)`,
       detail: `${hrs(emp.sundayHours)} le dimanche`,
       amount: emp.sundayMajoration,
     })
   }
   if (emp.holidayMajoration > 0) {
     lines.push({
-      label: 'Majoration jour férié',
+      label: `Majoration jour férié (+${formatRatePercent(rates.PUBLIC_HOLIDAY_WORKED)}%)`,
       detail: `${hrs(emp.holidayHours)} sur jour férié`,
       amount: emp.holidayMajoration,
     })
   }
   if (emp.nightMajoration > 0) {
     lines.push({
-      label: 'Majoration heures de nuit (+20%)',
+      label: `Majoration heures de nuit (+${formatRatePercent(rates.NIGHT)}%)`,
       detail: `${hrs(emp.nightHours)} entre 21h et 6h`,
       amount: emp.nightMajoration,
     })
   }
   if (emp.overtimeMajoration > 0) {
     lines.push({
-      label: 'Heures supplémentaires (+25% / +50%)',
-      detail: `${hrs(emp.overtimeHours)} au-delà de l{'’'}horaire contractuel`,
+      label: `Heures supplémentaires (+${formatRatePercent(rates.OVERTIME_FIRST_8H)}% / +${formatRatePercent(rates.OVERTIME_BEYOND_8H)}%)`,
+      detail: `${hrs(emp.overtimeHours)} au-delà de 40h/semaine`,
       amount: emp.overtimeMajoration,
     })
   }
   return lines
 }
 
-function EmployeeCard({ emp }: { emp: EmployeeDeclarationData }) {
-  const lines = buildBreakdown(emp)
+function EmployeeCard({ emp, rateSet }: { emp: EmployeeDeclarationData; rateSet: PayRateSet }) {
+  const lines = buildBreakdown(emp, rateSet)
   const contractLine = (() => {
     const parts: string[] = [`${euro(emp.hourlyRate)}/h`]
     if (emp.contractStartDate) {
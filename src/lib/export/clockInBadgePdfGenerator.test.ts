@@ -0,0 +1,59 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { generateClockInBadgePdf, getClockInBadgeFilename, type ClockInBadgeData } from './clockInBadgePdfGenerator'
+
+// ── Mocks ──────────────────────────────────────────────────────────────────────
+
+vi.mock('./pdfReactRenderer', () => ({
+  renderReactPdf: vi.fn(async () => 'data:application/pdf;base64,MOCK_PDF'),
+}))
+
+vi.mock('qrcode', () => ({
+  default: { toDataURL: vi.fn(async () => 'data:image/png;base64,MOCK_QR') },
+}))
+
+// ── Helpers ────────────────────────────────────────────────────────────────────
+
+function makeData(overrides: Partial<ClockInBadgeData> = {}): ClockInBadgeData {
+  return {
+    payload: `UNILIEN-CI.2.3f2b8c1e-4a5d-4e6f-8a9b-0c1d2e3f4a5b.${'a'.repeat(64)}`,
+    employeeName: 'Hélène Martin',
+    employerName: 'Paul Durand',
+    generatedAt: new Date('2026-03-10T09:00:00'),
+    ...overrides,
+  }
+}
+
+// ── Tests ──────────────────────────────────────────────────────────────────────
+
+describe('generateClockInBadgePdf', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('encode le jeton brut du badge dans le QR', async () => {
+    const QRCode = (await import('qrcode')).default
+    const data = makeData()
+
+    const result = await generateClockInBadgePdf(data)
+
+    expect(result.success).toBe(true)
+    expect(result.content).toBe('data:application/pdf;base64,MOCK_PDF')
+    expect(QRCode.toDataURL).toHaveBeenCalledWith(data.payload, expect.any(Object))
+  })
+
+  it('retourne success=false si le QR ne peut pas être généré', async () => {
+    const QRCode = (await import('qrcode')).default
+    vi.mocked(QRCode.toDataURL).mockRejectedValueOnce(new Error('QR failed') as never)
+
+    const result = await generateClockInBadgePdf(makeData())
+    expect(result.success).toBe(false)
+    expect(result.error).toContain('QR failed')
+  })
+})
+
+describe('getClockInBadgeFilename', () => {
+  it('retire accents et caractères spéciaux du nom', () => {
+    expect(getClockInBadgeFilename({ employeeName: "Hélène D'Arc" }))
+      .toBe('badge_pointage_helene_darc.pdf')
+  })
+})
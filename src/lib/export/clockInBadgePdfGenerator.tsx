@@ -0,0 +1,146 @@
+/* eslint-disable react-refresh/only-export-components */
+/**
+ * Générateur PDF du badge de pointage QR
+ * Une page A4 à imprimer et coller au domicile : le QR encode le jeton signé
+ * du contrat (cf. `get_clock_in_badge`), scanné par l'auxiliaire en début et
+ * en fin d'intervention.
+ */
+import { Document, Page, View, Text, Image, StyleSheet } from '@react-pdf/renderer'
+import QRCode from 'qrcode'
+import { parseClockInBadge } from '@/lib/clockIn/qrBadge'
+import type { ExportResult } from './types'
+import { renderReactPdf } from './pdfReactRenderer'
+import { colors, baseStyles, formatDateTime, PdfHeader, PdfFooter } from './pdfReactTheme'
+
+export interface ClockInBadgeData {
+  /** Jeton signé retourné par `get_clock_in_badge` */
+  payload: string
+  employeeName: string
+  employerName: string
+  generatedAt: Date
+}
+
+const s = StyleSheet.create({
+  body: {
+    padding: '32px 28px',
+    alignItems: 'center',
+  },
+  sticker: {
+    alignItems: 'center',
+    border: `2px dashed ${colors.border}`,
+    borderRadius: 12,
+    padding: '24px 32px',
+  },
+  stickerTitle: {
+    fontSize: 16,
+    fontWeight: 700,
+    color: colors.navy,
+    marginBottom: 4,
+  },
+  stickerSubtitle: {
+    fontSize: 10,
+    color: colors.textMuted,
+    marginBottom: 16,
+  },
+  qr: {
+    width: 220,
+    height: 220,
+  },
+  version: {
+    fontSize: 8,
+    color: colors.textMuted,
+    marginTop: 8,
+  },
+  instructions: {
+    marginTop: 28,
+    width: '80%',
+    backgroundColor: colors.bgSection,
+    borderRadius: 6,
+    padding: '12px 14px',
+  },
+  instructionsTitle: {
+    fontSize: 10,
+    fontWeight: 600,
+    color: colors.navy,
+    marginBottom: 6,
+  },
+  instruction: {
+    fontSize: 9,
+    color: colors.text,
+    marginBottom: 3,
+  },
+})
+
+export async function generateClockInBadgePdf(data: ClockInBadgeData): Promise<ExportResult> {
+  try {
+    const qrDataUri = await QRCode.toDataURL(data.payload, { errorCorrectionLevel: 'M', margin: 1, width: 600 })
+    const content = await renderReactPdf(<ClockInBadgeDocument data={data} qrDataUri={qrDataUri} />)
+    return { success: true, filename: getClockInBadgeFilename(data), content, mimeType: 'application/pdf' }
+  } catch (error) {
+    return {
+      success: false,
+      filename: '',
+      content: '',
+      mimeType: '',
+      error: error instanceof Error ? error.message : 'Erreur lors de la génération du badge',
+    }
+  }
+}
+
+/** Nom de fichier du badge : badge_pointage_<nom>.pdf */
+export function getClockInBadgeFilename(data: Pick<ClockInBadgeData, 'employeeName'>): string {
+  const name = data.employeeName
+    .trim()
+    .replace(/\s+/g, '_')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-zA-Z0-9_-]/g, '')
+    .toLowerCase()
+  return `badge_pointage_${name}.pdf`
+}
+
+function ClockInBadgeDocument({ data, qrDataUri }: { data: ClockInBadgeData; qrDataUri: string }) {
+  const version = parseClockInBadge(data.payload)?.version
+
+  return (
+    <Document>
+      <Page size="A4" style={baseStyles.page}>
+        <PdfHeader
+          title="BADGE DE POINTAGE"
+          subtitle={data.employerName}
+          rightText={`Généré le ${formatDateTime(data.generatedAt)}`}
+        />
+
+        <View style={s.body}>
+          <View style={s.sticker} wrap={false}>
+            <Text style={s.stickerTitle}>Pointage Unilien</Text>
+            <Text style={s.stickerSubtitle}>
+              Intervenant : {data.employeeName}
+            </Text>
+            <Image style={s.qr} src={qrDataUri} />
+            {version !== undefined && <Text style={s.version}>Badge n° {version}</Text>}
+          </View>
+
+          <View style={s.instructions} wrap={false}>
+            <Text style={s.instructionsTitle}>Mode d'emploi</Text>
+            <Text style={s.instruction}>1. Collez ce badge au domicile, à un endroit accessible.</Text>
+            <Text style={s.instruction}>
+              2. L'intervenant le scanne depuis la page Pointage en arrivant, puis en partant.
+            </Text>
+            <Text style={s.instruction}>
+              3. Sans réseau, le scan est conservé sur le téléphone et transmis au retour de la connexion.
+            </Text>
+            <Text style={s.instruction}>
+              4. Badge perdu ou photographié : régénérez-le, l'ancien cesse d'être accepté.
+            </Text>
+          </View>
+        </View>
+
+        <PdfFooter
+          legal="Ce badge est propre à un contrat. Ne le diffusez pas."
+          page="Page 1/1"
+        />
+      </Page>
+    </Document>
+  )
+}
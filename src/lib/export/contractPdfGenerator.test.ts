@@ -0,0 +1,81 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import {
+  generateContractDocumentPdf,
+  getContractDocumentFilename,
+  getContractDocumentTitle,
+  type ContractDocumentData,
+} from './contractPdfGenerator'
+import { renderReactPdf } from './pdfReactRenderer'
+
+// ── Mocks ──────────────────────────────────────────────────────────────────────
+
+vi.mock('./pdfReactRenderer', () => ({
+  renderReactPdf: vi.fn(async () => 'data:application/pdf;base64,MOCK_PDF'),
+}))
+
+const data: ContractDocumentData = {
+  documentType: 'contract',
+  employerName: 'Paul Durand',
+  employeeName: 'Hélène Martin',
+  contractType: 'CDI',
+  startDate: '2026-01-05',
+  weeklyHours: 20,
+  hourlyRate: 14,
+  generatedAt: '2026-01-02T10:00:00.000Z',
+}
+
+const amendment: ContractDocumentData = {
+  ...data,
+  documentType: 'amendment',
+  amendment: {
+    effectiveDate: '2026-06-01',
+    reason: 'Revalorisation',
+    changes: [{ field: 'hourlyRate', from: 14, to: 15 }],
+  },
+}
+
+// ── Tests ──────────────────────────────────────────────────────────────────────
+
+describe('contractPdfGenerator', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('génère le contrat à signer', async () => {
+    const result = await generateContractDocumentPdf(data)
+
+    expect(result).toMatchObject({
+      success: true,
+      filename: 'contrat_cdi_helene_martin.pdf',
+      content: 'data:application/pdf;base64,MOCK_PDF',
+      mimeType: 'application/pdf',
+    })
+    expect(renderReactPdf).toHaveBeenCalledTimes(1)
+  })
+
+  it('suffixe le document scellé', async () => {
+    const result = await generateContractDocumentPdf(amendment, {
+      documentHash: 'a'.repeat(64),
+      signatures: [
+        { signerRole: 'employer', signerName: 'Paul Durand', method: 'typed', signatureData: 'Paul Durand', signedAt: new Date() },
+        { signerRole: 'employee', signerName: 'Hélène Martin', method: 'typed', signatureData: 'Hélène Martin', signedAt: new Date() },
+      ],
+    })
+
+    expect(result.filename).toBe('avenant_2026-06-01_helene_martin_signe.pdf')
+  })
+
+  it('remonte l\'erreur de rendu', async () => {
+    vi.mocked(renderReactPdf).mockRejectedValueOnce(new Error('boom'))
+
+    const result = await generateContractDocumentPdf(data)
+
+    expect(result).toMatchObject({ success: false, error: 'boom' })
+  })
+
+  it('titre le document selon son type', () => {
+    expect(getContractDocumentTitle(data)).toBe('Contrat de travail CDI')
+    expect(getContractDocumentTitle(amendment)).toBe('Avenant au contrat — effet au 1 juin 2026')
+    expect(getContractDocumentFilename(data, true)).toBe('contrat_cdi_helene_martin_signe.pdf')
+  })
+})
@@ -0,0 +1,319 @@
+/* eslint-disable react-refresh/only-export-components */
+/**
+ * Générateur PDF du contrat de travail et de ses avenants, soumis à la
+ * signature électronique des deux parties.
+ *
+ * Les données sont un instantané sérialisable (dates ISO) conservé avec la
+ * demande de signature : le PDF scellé est rendu à partir du même instantané,
+ * complété des signatures et d'un certificat de signature.
+ */
+import { Document, Page, View, Text, StyleSheet } from '@react-pdf/renderer'
+import type { ContractTerms, TermsChange } from '@/lib/contract/amendments'
+import type { SignatureDocumentType } from '@/types'
+import type { ExportResult } from './types'
+import { renderReactPdf } from './pdfReactRenderer'
+import { SignatureBlocks, SignatureCertificatePage, type SignatureSeal } from './signaturePdfBlocks'
+import {
+  colors,
+  baseStyles,
+  euro,
+  hrs,
+  pct,
+  formatDateTime,
+  PdfHeader,
+  PdfFooter,
+  SectionTitle,
+} from './pdfReactTheme'
+
+export interface ContractDocumentData {
+  documentType: SignatureDocumentType
+  employerName: string
+  employerAddress?: string
+  cesuNumber?: string
+  employeeName: string
+  employeeAddress?: string
+  socialSecurityNumber?: string
+  contractType: 'CDI' | 'CDD'
+  /** Dates au format yyyy-MM-dd */
+  startDate: string
+  endDate?: string
+  weeklyHours: number
+  hourlyRate: number
+  /** Avenant : nouvelles conditions à compter de la date d'effet */
+  amendment?: {
+    effectiveDate: string
+    reason: string
+    changes: TermsChange[]
+  }
+  /** Horodatage ISO de la génération */
+  generatedAt: string
+}
+
+const JOB_TITLE = 'Assistant(e) de vie — emploi à domicile (IDCC 3239)'
+
+const TERM_LABELS: Record<keyof ContractTerms, string> = {
+  weeklyHours: 'Heures hebdomadaires',
+  hourlyRate: 'Taux horaire brut',
+  pasRate: 'Taux PAS',
+}
+
+function formatTerm(field: keyof ContractTerms, value: number): string {
+  if (field === 'weeklyHours') return hrs(value)
+  if (field === 'hourlyRate') return euro(value)
+  return pct(value)
+}
+
+const s = StyleSheet.create({
+  body: {
+    padding: '20px 28px 20px',
+  },
+  parties: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 16,
+  },
+  party: {
+    flex: 1,
+    backgroundColor: colors.bgSection,
+    border: `1px solid ${colors.border}`,
+    borderRadius: 6,
+    padding: '10px 12px',
+  },
+  partyLabel: {
+    fontSize: 8,
+    fontWeight: 600,
+    color: colors.navy,
+    textTransform: 'uppercase',
+    letterSpacing: 0.8,
+    marginBottom: 6,
+  },
+  partyName: {
+    fontSize: 11,
+    fontWeight: 600,
+  },
+  partyDetail: {
+    fontSize: 9,
+    color: colors.textMuted,
+    marginTop: 2,
+  },
+  article: {
+    fontSize: 10,
+    fontWeight: 600,
+    color: colors.navy,
+    marginTop: 8,
+    marginBottom: 4,
+  },
+  paragraph: {
+    fontSize: 10,
+    lineHeight: 1.5,
+    marginBottom: 6,
+  },
+  change: {
+    flexDirection: 'row',
+    fontSize: 10,
+    paddingVertical: 3,
+    borderBottom: `1px solid ${colors.border}`,
+  },
+  changeLabel: {
+    width: '40%',
+    color: colors.textMuted,
+  },
+  changeValue: {
+    width: '30%',
+  },
+  changeNew: {
+    width: '30%',
+    fontWeight: 600,
+  },
+  legal: {
+    fontSize: 8.5,
+    color: colors.textMuted,
+    lineHeight: 1.4,
+    marginTop: 12,
+  },
+})
+
+function formatDate(isoDate: string): string {
+  const [year, month, day] = isoDate.split('-').map(Number)
+  return new Date(year, month - 1, day).toLocaleDateString('fr-FR', { day: 'numeric', month: 'long', year: 'numeric' })
+}
+
+function slugify(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[̀-ͯ]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_|_$/g, '')
+}
+
+export function getContractDocumentTitle(data: Pick<ContractDocumentData, 'documentType' | 'contractType' | 'amendment'>): string {
+  return data.documentType === 'amendment' && data.amendment
+    ? `Avenant au contrat — effet au ${formatDate(data.amendment.effectiveDate)}`
+    : `Contrat de travail ${data.contractType}`
+}
+
+export function getContractDocumentFilename(data: ContractDocumentData, sealed = false): string {
+  const prefix = data.documentType === 'amendment' && data.amendment
+    ? `avenant_${data.amendment.effectiveDate}`
+    : `contrat_${data.contractType.toLowerCase()}`
+  return `${prefix}_${slugify(data.employeeName)}${sealed ? '_signe' : ''}.pdf`
+}
+
+/**
+ * Rendu du contrat ou de l'avenant. Avec `seal`, les signatures sont apposées
+ * et un certificat de signature est ajouté en dernière page.
+ */
+export async function generateContractDocumentPdf(
+  data: ContractDocumentData,
+  seal?: SignatureSeal
+): Promise<ExportResult> {
+  try {
+    const content = await renderReactPdf(<ContractDocument data={data} seal={seal} />)
+    return {
+      success: true,
+      filename: getContractDocumentFilename(data, !!seal),
+      content,
+      mimeType: 'application/pdf',
+    }
+  } catch (error) {
+    return {
+      success: false,
+      filename: '',
+      content: '',
+      mimeType: '',
+      error: error instanceof Error ? error.message : 'Erreur lors de la génération du document',
+    }
+  }
+}
+
+// ─── Blocs ──────────────────────────────────────────────────────────────────
+
+function Parties({ data }: { data: ContractDocumentData }) {
+  return (
+    <View style={s.parties}>
+      <View style={s.party}>
+        <Text style={s.partyLabel}>Employeur</Text>
+        <Text style={s.partyName}>{data.employerName}</Text>
+        {data.employerAddress && <Text style={s.partyDetail}>{data.employerAddress}</Text>}
+        {data.cesuNumber && <Text style={s.partyDetail}>N° CESU : {data.cesuNumber}</Text>}
+      </View>
+      <View style={s.party}>
+        <Text style={s.partyLabel}>Salarié(e)</Text>
+        <Text style={s.partyName}>{data.employeeName}</Text>
+        {data.employeeAddress && <Text style={s.partyDetail}>{data.employeeAddress}</Text>}
+        {data.socialSecurityNumber && (
+          <Text style={s.partyDetail}>N° de sécurité sociale : {data.socialSecurityNumber}</Text>
+        )}
+      </View>
+    </View>
+  )
+}
+
+function Article({ title, children }: { title: string; children: string }) {
+  return (
+    <View wrap={false}>
+      <Text style={s.article}>{title}</Text>
+      <Text style={s.paragraph}>{children}</Text>
+    </View>
+  )
+}
+
+// ─── Documents ──────────────────────────────────────────────────────────────
+
+function ContractDocument({ data, seal }: { data: ContractDocumentData; seal?: SignatureSeal }) {
+  const isAmendment = data.documentType === 'amendment' && !!data.amendment
+  const generatedAt = new Date(data.generatedAt)
+  const monthlyHours = Math.round(((data.weeklyHours * 52) / 12) * 100) / 100
+
+  return (
+    <Document>
+      <Page size="A4" style={baseStyles.page}>
+        <PdfHeader
+          title={isAmendment ? 'AVENANT AU CONTRAT DE TRAVAIL' : 'CONTRAT DE TRAVAIL'}
+          subtitle={isAmendment
+            ? `Contrat ${data.contractType} du ${formatDate(data.startDate)}`
+            : `${data.contractType === 'CDI' ? 'Contrat à durée indéterminée' : 'Contrat à durée déterminée'} — IDCC 3239`}
+          rightText={`Généré le ${formatDateTime(generatedAt)}`}
+          badge={seal ? 'SIGNÉ' : undefined}
+        />
+
+        <View style={s.body}>
+          <Parties data={data} />
+
+          {isAmendment && data.amendment ? (
+            <>
+              <Text style={s.paragraph}>
+                Les parties conviennent de modifier le contrat de travail {data.contractType} conclu le
+                {' '}{formatDate(data.startDate)} dans les conditions suivantes, à compter du
+                {' '}{formatDate(data.amendment.effectiveDate)}.
+              </Text>
+              <Article title="Motif">{data.amendment.reason}</Article>
+
+              <SectionTitle>Conditions modifiées</SectionTitle>
+              <View style={s.change}>
+                <Text style={s.changeLabel}>Clause</Text>
+                <Text style={s.changeValue}>Avant</Text>
+                <Text style={s.changeNew}>À compter de la date d'effet</Text>
+              </View>
+              {data.amendment.changes.map((change) => (
+                <View key={change.field} style={s.change}>
+                  <Text style={s.changeLabel}>{TERM_LABELS[change.field]}</Text>
+                  <Text style={s.changeValue}>{formatTerm(change.field, change.from)}</Text>
+                  <Text style={s.changeNew}>{formatTerm(change.field, change.to)}</Text>
+                </View>
+              ))}
+
+              <Text style={[s.paragraph, { marginTop: 10 }]}>
+                Les autres clauses du contrat de travail demeurent inchangées.
+              </Text>
+            </>
+          ) : (
+            <>
+              <Article title="Article 1 — Engagement">
+                {`${data.employerName}, particulier employeur, engage ${data.employeeName} en qualité de ${JOB_TITLE}. Le contrat est régi par la Convention collective nationale des particuliers employeurs et de l'emploi à domicile (IDCC 3239).`}
+              </Article>
+              <Article title="Article 2 — Durée du contrat">
+                {data.contractType === 'CDI'
+                  ? `Le contrat prend effet le ${formatDate(data.startDate)} pour une durée indéterminée.`
+                  : `Le contrat prend effet le ${formatDate(data.startDate)} et prend fin le ${data.endDate ? formatDate(data.endDate) : '—'}.`}
+              </Article>
+              <Article title="Article 3 — Durée du travail">
+                {`La durée hebdomadaire de travail est fixée à ${hrs(data.weeklyHours)}, soit ${hrs(monthlyHours)} par mois en moyenne (mensualisation sur 52 semaines). Les heures effectuées au-delà sont rémunérées conformément à la convention collective.`}
+              </Article>
+              <Article title="Article 4 — Rémunération">
+                {`Le salaire horaire brut est fixé à ${euro(data.hourlyRate)}, soit un salaire mensuel brut de ${euro(monthlyHours * data.hourlyRate)}. S'y ajoutent les majorations prévues par la convention collective (dimanches, jours fériés, heures de nuit).`}
+              </Article>
+              <Article title="Article 5 — Congés payés">
+                Le salarié acquiert 2,5 jours ouvrables de congés payés par mois de travail effectif, sur la période de référence du 1er juin au 31 mai.
+              </Article>
+              <Article title="Article 6 — Déclaration et prélèvement à la source">
+                L'employeur déclare le salaire via le CESU, qui calcule les cotisations sociales et applique le prélèvement à la source au taux transmis par l'administration fiscale.
+              </Article>
+            </>
+          )}
+
+          <SignatureBlocks seal={seal} />
+
+          <Text style={s.legal}>
+            Document établi en deux exemplaires électroniques, un pour chaque partie, et signé par voie
+            électronique dans l'application Unilien.
+          </Text>
+        </View>
+
+        <PdfFooter
+          legal={isAmendment ? 'Avenant au contrat de travail — IDCC 3239' : 'Contrat de travail — IDCC 3239'}
+          page={seal ? '1/2' : '1/1'}
+        />
+      </Page>
+
+      {seal && (
+        <SignatureCertificatePage
+          documentTitle={getContractDocumentTitle(data)}
+          generatedAt={generatedAt}
+          seal={seal}
+        />
+      )}
+    </Document>
+  )
+}
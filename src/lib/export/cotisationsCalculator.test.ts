@@ -1,4 +1,4 @@
-import { describe, it, expect } from 'vitest'
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest'
 import {
   calculateCotisations,
   PASS_MONTHLY_2025,
@@ -19,6 +19,16 @@ describe('calculateCotisations', () => {
   // Salaire au-dessus de 2,5×SMIC et 3,5×SMIC pour déclencher taux pleins
   const GROSS_HIGH = 10_000
 
+  // Les barèmes sont datés : on fige « aujourd'hui » en 2025 pour les cas de référence
+  beforeAll(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date(2025, 5, 15))
+  })
+
+  afterAll(() => {
+    vi.useRealTimers()
+  })
+
   describe('Constantes exportées', () => {
     it('PASS mensuel 2025 = 3 925 €', () => {
       expect(PASS_MONTHLY_2025).toBe(3_925)
@@ -276,4 +286,26 @@ describe('calculateCotisations', () => {
       expect(calculateCotisations(GROSS_1500).isExemptPatronalSS).toBe(false)
     })
   })
+
+  describe('Barèmes datés (periodDate)', () => {
+    it('utilise le PASS 2026 pour une période de 2026', () => {
+      const result = calculateCotisations(GROSS_1500, { periodDate: new Date(2026, 2, 1) })
+      expect(result.passMonthly).toBe(4_005)
+    })
+
+    it('conserve le PASS 2025 pour une période de 2025 recalculée plus tard', () => {
+      vi.setSystemTime(new Date(2026, 9, 15))
+      const result = calculateCotisations(GROSS_1500, { periodDate: new Date(2025, 11, 1) })
+      expect(result.passMonthly).toBe(PASS_MONTHLY_2025)
+      vi.setSystemTime(new Date(2025, 5, 15))
+    })
+
+    it('plafonne la vieillesse au PASS en vigueur sur la période', () => {
+      const result = calculateCotisations(GROSS_HIGH, { periodDate: new Date(2026, 0, 1) })
+      const cappedLine = result.employeeCotisations.find(
+        (c) => c.label === 'Vieillesse de base (plafonnée)'
+      )!
+      expect(cappedLine.base).toBe(4_005)
+    })
+  })
 })
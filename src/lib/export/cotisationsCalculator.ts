@@ -1,14 +1,16 @@
 /**
  * Calcul des cotisations sociales IDCC 3239 – salariat direct
- * Barèmes 2025 (PASS mensuel = 3 925 €, SMIC mensuel brut = 1 801,80 €)
+ * Barèmes résolus à la date de la période via le registre réglementaire
+ * (`lib/regulatory/parameters`).
  *
  * Ces taux sont indicatifs. Consulter un expert-comptable ou l'URSSAF pour
  * les taux en vigueur et les éventuelles exonérations applicables.
  */
 
 import type { CotisationLine, CotisationsResult } from './types'
+import { getParametersAt } from '@/lib/regulatory/parameters'
 
-// ─── Constantes 2025 ─────────────────────────────────────────────────────────
+// ─── Constantes 2025 (historique) ────────────────────────────────────────────
 /** Plafond Annuel Sécurité Sociale mensuel 2025 */
 export const PASS_MONTHLY_2025 = 3_925
 /** SMIC mensuel brut 2025 (35h/sem) */
@@ -26,17 +28,18 @@ function round2(n: number): number {
  *                  (employeur invalide ≥80%, ≥60 ans avec tierce personne, MTP, PCTP)
  *                  Depuis le 01/10/2006, sans limitation de durée.
  *                  Restent dues : AGIRC-ARRCO, chômage, FNAL, CSA, AT/MP.
+ *                  periodDate : date de la période calculée (défaut : aujourd'hui),
+ *                  détermine les PASS, SMIC et taux en vigueur
  */
 export function calculateCotisations(
   grossPay: number,
-  options: { pasRate?: number; isExemptPatronalSS?: boolean } = {}
+  options: { pasRate?: number; isExemptPatronalSS?: boolean; periodDate?: Date } = {}
 ): CotisationsResult {
-  const { pasRate = 0, isExemptPatronalSS = false } = options
-  const pass = PASS_MONTHLY_2025
-  const smic = SMIC_MONTHLY_2025
+  const { pasRate = 0, isExemptPatronalSS = false, periodDate = new Date() } = options
+  const { passMonthly: pass, smicMonthly: smic, cotisationRates: r } = getParametersAt(periodDate)
 
   // Assiette CSG/CRDS = 98.25% du brut
-  const csgBase = round2(grossPay * 0.9825)
+  const csgBase = round2(grossPay * r.csgBaseRatio)
   // Assiette plafonnée SS = min(brut, PASS mensuel)
   const cappedBase = Math.min(grossPay, pass)
 
@@ -45,45 +48,45 @@ export function calculateCotisations(
     {
       label: 'CSG déductible',
       base: csgBase,
-      rate: 0.068,
-      amount: round2(csgBase * 0.068),
+      rate: r.csgDeductible,
+      amount: round2(csgBase * r.csgDeductible),
       isEmployer: false,
     },
     {
       label: 'CSG non déductible',
       base: csgBase,
-      rate: 0.024,
-      amount: round2(csgBase * 0.024),
+      rate: r.csgNonDeductible,
+      amount: round2(csgBase * r.csgNonDeductible),
       isEmployer: false,
     },
     {
       label: 'CRDS',
       base: csgBase,
-      rate: 0.005,
-      amount: round2(csgBase * 0.005),
+      rate: r.crds,
+      amount: round2(csgBase * r.crds),
       isEmployer: false,
     },
     {
       label: 'Vieillesse de base (plafonnée)',
       base: cappedBase,
-      rate: 0.069,
-      amount: round2(cappedBase * 0.069),
+      rate: r.vieillessePlafonneeSalariale,
+      amount: round2(cappedBase * r.vieillessePlafonneeSalariale),
       isEmployer: false,
     },
     {
       label: 'Retraite complémentaire AGIRC-ARRCO T1',
       base: cappedBase,
-      rate: 0.0315,
-      amount: round2(cappedBase * 0.0315),
+      rate: r.agircArrcoT1Salariale,
+      amount: round2(cappedBase * r.agircArrcoT1Salariale),
       isEmployer: false,
     },
   ]
 
   // ── Cotisations patronales ──────────────────────────────────────────────
   // Maladie : taux réduit si brut ≤ 2.5 × SMIC mensuel
-  const maladieRate = grossPay <= 2.5 * smic ? 0.07 : 0.13
+  const maladieRate = grossPay <= r.maladieSmicThreshold * smic ? r.maladieReduit : r.maladiePlein
   // Allocations familiales : taux réduit si brut ≤ 3.5 × SMIC mensuel
-  const allocFamRate = grossPay <= 3.5 * smic ? 0.0345 : 0.0525
+  const allocFamRate = grossPay <= r.allocFamSmicThreshold * smic ? r.allocFamReduit : r.allocFamPlein
 
   // Cotisations de Sécurité Sociale patronales — exonérées si isExemptPatronalSS
   // (Art. L241-10 CSS — employeur invalide ≥80%, ≥60 ans / tierce personne, MTP, PCTP)
@@ -101,16 +104,16 @@ export function calculateCotisations(
     {
       label: 'Vieillesse de base (plafonnée)',
       base: cappedBase,
-      rate: 0.0855,
-      amount: exo ? 0 : round2(cappedBase * 0.0855),
+      rate: r.vieillessePlafonneePatronale,
+      amount: exo ? 0 : round2(cappedBase * r.vieillessePlafonneePatronale),
       isEmployer: true,
       exempted: exo,
     },
     {
       label: 'Vieillesse de base (déplafonnée)',
       base: grossPay,
-      rate: 0.019,
-      amount: exo ? 0 : round2(grossPay * 0.019),
+      rate: r.vieillesseDeplafonneePatronale,
+      amount: exo ? 0 : round2(grossPay * r.vieillesseDeplafonneePatronale),
       isEmployer: true,
       exempted: exo,
     },
@@ -126,36 +129,36 @@ export function calculateCotisations(
     {
       label: 'AT/MP (taux moyen)',
       base: grossPay,
-      rate: 0.005,
-      amount: round2(grossPay * 0.005),
+      rate: r.atMp,
+      amount: round2(grossPay * r.atMp),
       isEmployer: true,
     },
     {
       label: 'Assurance chômage',
       base: grossPay,
-      rate: 0.0405,
-      amount: round2(grossPay * 0.0405),
+      rate: r.chomage,
+      amount: round2(grossPay * r.chomage),
       isEmployer: true,
     },
     {
       label: 'FNAL',
       base: grossPay,
-      rate: 0.001,
-      amount: round2(grossPay * 0.001),
+      rate: r.fnal,
+      amount: round2(grossPay * r.fnal),
       isEmployer: true,
     },
     {
       label: 'CSA (Contribution solidarité autonomie)',
       base: grossPay,
-      rate: 0.003,
-      amount: round2(grossPay * 0.003),
+      rate: r.csa,
+      amount: round2(grossPay * r.csa),
       isEmployer: true,
     },
     {
       label: 'Retraite complémentaire AGIRC-ARRCO T1',
       base: cappedBase,
-      rate: 0.0472,
-      amount: round2(cappedBase * 0.0472),
+      rate: r.agircArrcoT1Patronale,
+      amount: round2(cappedBase * r.agircArrcoT1Patronale),
       isEmployer: true,
     },
   ]
@@ -1,6 +1,7 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import { getMonthlyDeclarationData } from './declarationService'
 import { MAJORATION_RATES } from '@/lib/compliance/calculatePay'
+import { registerParameterVersions, resetParameterRegistry } from '@/lib/regulatory/parameters'
 import type { ExportOptions } from './types'
 
 // ─── Mocks ──────────────────────────────────────────────────────────
@@ -13,6 +14,19 @@ vi.mock('@/lib/supabase/client', () => ({
   },
 }))
 
+const mockLoadRegulatoryParameters = vi.fn()
+
+vi.mock('@/services/regulatoryParametersService', () => ({
+  loadRegulatoryParameters: () => mockLoadRegulatoryParameters(),
+}))
+
+const mockGetUnsignedTimesheetContractIds = vi.fn()
+
+vi.mock('@/services/timesheetService', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/services/timesheetService')>()),
+  getUnsignedTimesheetContractIds: (...args: unknown[]) => mockGetUnsignedTimesheetContractIds(...args),
+}))
+
 vi.mock('@/lib/logger', () => ({
   logger: {
     error: vi.fn(),
@@ -37,6 +51,7 @@ function mockSupabaseSequence(calls: Array<{ data: unknown; error: unknown }>) {
     chain.in = vi.fn().mockReturnValue(chain)
     chain.gte = vi.fn().mockReturnValue(chain)
     chain.lte = vi.fn().mockReturnValue(chain)
+    chain.or = vi.fn().mockReturnValue(chain)
     chain.order = vi.fn().mockResolvedValue(resolved)
     chain.single = vi.fn().mockResolvedValue(resolved)
     chain.maybeSingle = vi.fn().mockResolvedValue(resolved)
@@ -107,11 +122,15 @@ const defaultOptions: ExportOptions = {
  *   1. profiles (employeur)
  *   2. employers
  *   3. contracts
- *   4. shifts (par contrat)
+ *   4. contract_amendments (avenants des contrats)
+ *   5. shifts (par contrat)
+ *   6. shift_trips (contrats déclarés)
  */
 function setupStandardMocks(
   shifts: Record<string, unknown>[] = [createMockShiftRow()],
   contractOverrides: Record<string, unknown> = {},
+  trips: Record<string, unknown>[] = [],
+  amendments: Record<string, unknown>[] = [],
 ) {
   return mockSupabaseSequence([
     // 1. profiles → employeur
@@ -120,8 +139,12 @@ function setupStandardMocks(
     { data: { address: { street: '1 rue Test', city: 'Paris', postalCode: '75001' }, cesu_number: 'CESU-123' }, error: null },
     // 3. contracts
     { data: [createMockContract(contractOverrides)], error: null },
-    // 4. shifts
+    // 4. contract_amendments
+    { data: amendments, error: null },
+    // 5. shifts
     { data: shifts, error: null },
+    // 6. shift_trips
+    { data: trips, error: null },
   ])
 }
 
@@ -130,6 +153,7 @@ function setupStandardMocks(
 describe('declarationService', () => {
   beforeEach(() => {
     vi.clearAllMocks()
+    mockGetUnsignedTimesheetContractIds.mockResolvedValue([])
   })
 
   // ================================================================
@@ -170,6 +194,18 @@ describe('declarationService', () => {
       expect(result).toBeNull()
     })
 
+    it('devrait retenir les contrats en cours sur le mois, quel que soit leur statut', async () => {
+      const chains = setupStandardMocks([createMockShiftRow()], { status: 'terminated', end_date: '2024-03-20' })
+
+      const result = await getMonthlyDeclarationData('employer-1', defaultOptions)
+
+      const contractsQuery = chains[2]
+      expect(contractsQuery.eq).not.toHaveBeenCalledWith('status', expect.anything())
+      expect(contractsQuery.lte).toHaveBeenCalledWith('start_date', '2024-03-31')
+      expect(contractsQuery.or).toHaveBeenCalledWith('end_date.is.null,end_date.gte.2024-03-01')
+      expect(result!.employees).toHaveLength(1)
+    })
+
     it('devrait retourner un résultat avec 0 employés si aucun shift', async () => {
       setupStandardMocks([]) // aucun shift
 
@@ -238,6 +274,7 @@ describe('declarationService', () => {
         { data: { first_name: 'Jean', last_name: 'Dupont' }, error: null },
         { data: { address: { street: '1 rue', city: 'Lyon', postalCode: '69001' }, cesu_number: null }, error: null },
         { data: [createMockContract()], error: null },
+        { data: [], error: null },
         { data: [createMockShiftRow()], error: null },
       ])
 
@@ -251,6 +288,7 @@ describe('declarationService', () => {
         { data: { first_name: 'Jean', last_name: 'Dupont' }, error: null },
         { data: { address: null, cesu_number: null }, error: null },
         { data: [createMockContract()], error: null },
+        { data: [], error: null },
         { data: [createMockShiftRow()], error: null },
       ])
 
@@ -315,6 +353,48 @@ describe('declarationService', () => {
     })
   })
 
+  // ================================================================
+  // Heures réelles pointées
+  // ================================================================
+
+  describe('Heures réelles pointées', () => {
+    const clockedRow = (actualReview: string | null) => createMockShiftRow({
+      start_time: '09:00',
+      end_time: '17:00',
+      break_duration: 0,
+      clocked_in_at: '2024-03-15T09:00:00',
+      clocked_out_at: '2024-03-15T18:00:00',
+      actual_review: actualReview,
+    })
+
+    it('devrait payer les heures réelles quand l\'écart est accepté', async () => {
+      setupStandardMocks([clockedRow('accepted')])
+
+      const result = await getMonthlyDeclarationData('employer-1', defaultOptions)
+      const emp = result!.employees[0]
+
+      // 09:00-18:00 = 9h au lieu des 8h prévues
+      expect(emp.totalHours).toBe(9)
+      expect(emp.shiftsDetails[0].endTime).toBe('18:00')
+    })
+
+    it('devrait garder le planning quand l\'écart est refusé', async () => {
+      setupStandardMocks([clockedRow('rejected')])
+
+      const result = await getMonthlyDeclarationData('employer-1', defaultOptions)
+
+      expect(result!.employees[0].totalHours).toBe(8)
+    })
+
+    it('devrait garder le planning tant que l\'écart n\'est pas revu', async () => {
+      setupStandardMocks([clockedRow(null)])
+
+      const result = await getMonthlyDeclarationData('employer-1', defaultOptions)
+
+      expect(result!.employees[0].totalHours).toBe(8)
+    })
+  })
+
   // ================================================================
   // Majoration dimanche (+30%)
   // ================================================================
@@ -500,9 +580,9 @@ describe('declarationService', () => {
   // Heures supplémentaires
   // ================================================================
 
-  describe('Heures supplémentaires', () => {
-    it('devrait calculer les heures sup au-delà des heures contractuelles', async () => {
-      // Contrat 35h/semaine. 5 shifts de 8h = 40h => 5h sup
+  describe('Heures complémentaires et supplémentaires', () => {
+    it('devrait classer en heures complémentaires les heures d\'un temps partiel jusqu\'à 40h', async () => {
+      // Contrat 35h/semaine. 5 shifts de 8h = 40h => 5h complémentaires, aucune heure sup
       // Tous dans la même semaine (lundi 11 au vendredi 15 mars 2024)
       const shifts = [
         createMockShiftRow({ id: 's1', date: '2024-03-11', start_time: '08:00', end_time: '16:00', break_duration: 0 }),
@@ -516,15 +596,15 @@ describe('declarationService', () => {
       const result = await getMonthlyDeclarationData('employer-1', defaultOptions)
       const emp = result!.employees[0]
 
-      // 40h total, 35h contractuelles → 5h sup
       expect(emp.totalHours).toBe(40)
-      expect(emp.overtimeHours).toBe(5)
-      // 5h * 12.5€ * 25% = 15.63€
-      expect(emp.overtimeMajoration).toBeCloseTo(15.63, 1)
+      expect(emp.complementaryHours).toBe(5)
+      expect(emp.overtimeHours).toBe(0)
+      expect(emp.overtimeMajoration).toBe(0)
+      expect(emp.totalGrossPay).toBe(500) // 40h * 12.5€, heures complémentaires au taux normal
     })
 
-    it('devrait ne pas compter d\'heures sup si en dessous du contractuel', async () => {
-      // 4 shifts de 8h = 32h sur contrat 35h → 0 heures sup
+    it('devrait ne compter ni heures compl. ni heures sup si en dessous du contractuel', async () => {
+      // 4 shifts de 8h = 32h sur contrat 35h
       const shifts = [
         createMockShiftRow({ id: 's1', date: '2024-03-11', start_time: '09:00', end_time: '17:00', break_duration: 0 }),
         createMockShiftRow({ id: 's2', date: '2024-03-12', start_time: '09:00', end_time: '17:00', break_duration: 0 }),
@@ -537,12 +617,13 @@ describe('declarationService', () => {
       const emp = result!.employees[0]
 
       expect(emp.totalHours).toBe(32)
+      expect(emp.complementaryHours).toBe(0)
       expect(emp.overtimeHours).toBe(0)
       expect(emp.overtimeMajoration).toBe(0)
     })
 
-    it('devrait appliquer +50% au-delà de 8h supplémentaires', async () => {
-      // 6 shifts de 8h = 48h sur contrat 35h → 13h sup (8 à +25%, 5 à +50%)
+    it('devrait appliquer +25% puis +50% au-delà de 40h', async () => {
+      // 7 shifts de 8h = 56h sur contrat 35h → 5h compl., 16h sup (8 à +25%, 8 à +50%)
       const shifts = [
         createMockShiftRow({ id: 's1', date: '2024-03-11', start_time: '07:00', end_time: '15:00', break_duration: 0 }),
         createMockShiftRow({ id: 's2', date: '2024-03-12', start_time: '07:00', end_time: '15:00', break_duration: 0 }),
@@ -550,15 +631,71 @@ describe('declarationService', () => {
         createMockShiftRow({ id: 's4', date: '2024-03-14', start_time: '07:00', end_time: '15:00', break_duration: 0 }),
         createMockShiftRow({ id: 's5', date: '2024-03-15', start_time: '07:00', end_time: '15:00', break_duration: 0 }),
         createMockShiftRow({ id: 's6', date: '2024-03-16', start_time: '07:00', end_time: '15:00', break_duration: 0 }),
+        createMockShiftRow({ id: 's7', date: '2024-03-17', start_time: '07:00', end_time: '15:00', break_duration: 0 }),
       ]
       setupStandardMocks(shifts, { weekly_hours: 35 })
 
       const result = await getMonthlyDeclarationData('employer-1', defaultOptions)
       const emp = result!.employees[0]
 
-      expect(emp.overtimeHours).toBe(13)
-      // 8h * 12.5 * 0.25 = 25€ + 5h * 12.5 * 0.50 = 31.25€ = 56.25€
-      expect(emp.overtimeMajoration).toBeCloseTo(56.25, 1)
+      expect(emp.complementaryHours).toBe(5)
+      expect(emp.overtimeHours).toBe(16)
+      // 8h * 12.5 * 0.25 = 25€ + 8h * 12.5 * 0.50 = 50€ = 75€
+      expect(emp.overtimeMajoration).toBeCloseTo(75, 2)
+    })
+
+    it('devrait repartir de zéro chaque semaine', async () => {
+      // 2 semaines de 44h sur contrat 40h → 4h sup par semaine, toutes au 1er palier
+      const week = (monday: number) => [0, 1, 2, 3].map((d) => createMockShiftRow({
+        id: `s${monday + d}`,
+        date: `2024-03-${String(monday + d).padStart(2, '0')}`,
+        start_time: '07:00',
+        end_time: '18:00',
+        break_duration: 0,
+      }))
+      setupStandardMocks([...week(4), ...week(11)], { weekly_hours: 40 })
+
+      const result = await getMonthlyDeclarationData('employer-1', defaultOptions)
+      const emp = result!.employees[0]
+
+      expect(emp.overtimeHours).toBe(8)
+      // 8h * 12.5 * 0.25 = 25€
+      expect(emp.overtimeMajoration).toBeCloseTo(25, 2)
+    })
+
+    it('devrait cumuler la fin du mois précédent pour une semaine à cheval', async () => {
+      // Semaine du lundi 26 février au dimanche 3 mars 2024 — contrat 40h
+      // Février : 4 × 8h = 32h (contexte, non déclarées)
+      // Mars : vendredi 1er 10h (32→42 : 2h sup) + samedi 2 8h (42→50 : 6h à +25%, 2h à +50%)
+      const shifts = [
+        createMockShiftRow({ id: 'f1', date: '2024-02-26', start_time: '08:00', end_time: '16:00', break_duration: 0 }),
+        createMockShiftRow({ id: 'f2', date: '2024-02-27', start_time: '08:00', end_time: '16:00', break_duration: 0 }),
+        createMockShiftRow({ id: 'f3', date: '2024-02-28', start_time: '08:00', end_time: '16:00', break_duration: 0 }),
+        createMockShiftRow({ id: 'f4', date: '2024-02-29', start_time: '08:00', end_time: '16:00', break_duration: 0 }),
+        createMockShiftRow({ id: 'm1', date: '2024-03-01', start_time: '08:00', end_time: '18:00', break_duration: 0 }),
+        createMockShiftRow({ id: 'm2', date: '2024-03-02', start_time: '08:00', end_time: '16:00', break_duration: 0 }),
+      ]
+      setupStandardMocks(shifts, { weekly_hours: 40 })
+
+      const result = await getMonthlyDeclarationData('employer-1', defaultOptions)
+      const emp = result!.employees[0]
+
+      expect(emp.shiftsCount).toBe(2)
+      expect(emp.totalHours).toBe(18)
+      expect(emp.overtimeHours).toBe(10)
+      // 8h * 12.5 * 0.25 = 25€ + 2h * 12.5 * 0.50 = 12.5€
+      expect(emp.overtimeMajoration).toBeCloseTo(37.5, 2)
+      expect(emp.shiftsDetails.map((d) => d.date.getDate())).toEqual([1, 2])
+    })
+
+    it('devrait ignorer un contrat qui n\'a que des interventions du mois précédent', async () => {
+      setupStandardMocks([
+        createMockShiftRow({ id: 'f1', date: '2024-02-29', start_time: '08:00', end_time: '16:00', break_duration: 0 }),
+      ])
+
+      const result = await getMonthlyDeclarationData('employer-1', defaultOptions)
+
+      expect(result!.employees).toHaveLength(0)
     })
   })
 
@@ -587,6 +724,132 @@ describe('declarationService', () => {
     })
   })
 
+  // ================================================================
+  // Taux de majoration de l'employeur (convention_settings)
+  // ================================================================
+
+  describe('Taux de majoration de l\'employeur', () => {
+    const conventionSettings = {
+      majDimanche: 40,
+      majFerie: 60,
+      majNuit: 20,
+      majSupp: 25,
+      ruleOvertime: true,
+    }
+
+    it('devrait appliquer le barème IDCC 3239 par défaut et le tracer', async () => {
+      setupStandardMocks()
+
+      const result = await getMonthlyDeclarationData('employer-1', defaultOptions)
+
+      expect(result!.rateSet?.source).toBe('idcc_default')
+    })
+
+    it('devrait appliquer la majoration dimanche configurée par l\'employeur', async () => {
+      setupStandardMocks([createMockShiftRow({
+        date: '2024-03-17', // dimanche
+        start_time: '09:00',
+        end_time: '17:00',
+        break_duration: 0,
+      })])
+
+      const result = await getMonthlyDeclarationData('employer-1', { ...defaultOptions, conventionSettings })
+      const emp = result!.employees[0]
+
+      // sundayMajoration = 100 * 0.40 = 40
+      expect(emp.sundayMajoration).toBe(40)
+      expect(emp.totalGrossPay).toBe(140)
+      expect(result!.rateSet?.source).toBe('convention_settings')
+      expect(result!.rateSet?.rates.SUNDAY).toBe(0.4)
+    })
+  })
+
+  // ================================================================
+  // Indemnités kilométriques
+  // ================================================================
+
+  describe('Indemnités kilométriques', () => {
+    const trips = [
+      { contract_id: 'contract-1', distance_km: '20.0', vehicle: 'employee' },
+      { contract_id: 'contract-1', distance_km: '8.5', vehicle: 'beneficiary' },
+    ]
+
+    it('devrait indemniser les trajets en véhicule personnel, hors brut', async () => {
+      setupStandardMocks(undefined, {}, trips)
+
+      const result = await getMonthlyDeclarationData('employer-1', { ...defaultOptions, mileageRate: 0.5 })
+      const emp = result!.employees[0]
+
+      expect(emp.mileage).toEqual({
+        tripsCount: 2,
+        totalKm: 28.5,
+        reimbursableKm: 20,
+        ratePerKm: 0.5,
+        amount: 10,
+      })
+      expect(emp.totalGrossPay).toBe(87.5)
+      expect(result!.totalMileageAllowance).toBe(10)
+    })
+
+    it('ne devrait rien ajouter sans trajet', async () => {
+      setupStandardMocks()
+
+      const result = await getMonthlyDeclarationData('employer-1', defaultOptions)
+
+      expect(result!.employees[0].mileage).toBeUndefined()
+      expect(result!.totalMileageAllowance).toBeUndefined()
+    })
+  })
+
+  // ================================================================
+  // Avenants
+  // ================================================================
+
+  describe('Avenants', () => {
+    const amendments = [
+      { contract_id: 'contract-1', effective_date: '2024-01-01', weekly_hours: 35, hourly_rate: 12.5, pas_rate: 0 },
+      { contract_id: 'contract-1', effective_date: '2024-03-18', weekly_hours: 35, hourly_rate: 14, pas_rate: 0.05 },
+    ]
+
+    it('devrait payer chaque intervention au taux en vigueur à sa date', async () => {
+      setupStandardMocks(
+        [
+          createMockShiftRow({ id: 's1', date: '2024-03-15' }), // 7h avant l'avenant
+          createMockShiftRow({ id: 's2', date: '2024-03-19' }), // 7h après l'avenant
+        ],
+        { hourly_rate: 14, pas_rate: 0.05 },
+        [],
+        amendments,
+      )
+
+      const result = await getMonthlyDeclarationData('employer-1', defaultOptions)
+      const emp = result!.employees[0]
+
+      expect(emp.shiftsDetails.map((d) => d.pay)).toEqual([87.5, 98])
+      expect(emp.totalGrossPay).toBe(185.5)
+      // Taux affiché et PAS : conditions de fin de mois
+      expect(emp.hourlyRate).toBe(14)
+      expect(emp.pasRate).toBe(0.05)
+    })
+
+    it('ne devrait pas recalculer un mois passé avec un avenant postérieur', async () => {
+      setupStandardMocks(
+        [createMockShiftRow({ date: '2024-03-15' })],
+        { hourly_rate: 14 },
+        [],
+        [
+          amendments[0],
+          { ...amendments[1], effective_date: '2024-04-01' },
+        ],
+      )
+
+      const result = await getMonthlyDeclarationData('employer-1', defaultOptions)
+
+      expect(result!.employees[0].totalGrossPay).toBe(87.5)
+      expect(result!.employees[0].hourlyRate).toBe(12.5)
+    })
+  })
+
   // ================================================================
   // Détails des shifts
   // ================================================================
@@ -648,6 +911,8 @@ describe('declarationService', () => {
         { data: { address: { street: '1 rue', city: 'Paris', postalCode: '75001' }, cesu_number: null }, error: null },
         // contracts (2 contrats)
         { data: [contract1, contract2], error: null },
+        // contract_amendments
+        { data: [], error: null },
         // shifts contrat 1 (8h)
         { data: [createMockShiftRow({ id: 's1', contract_id: 'c1', start_time: '09:00', end_time: '17:00', break_duration: 0 })], error: null },
         // shifts contrat 2 (4h)
@@ -687,9 +952,9 @@ describe('declarationService', () => {
   // ================================================================
 
   describe('Calcul heures normales vs spéciales', () => {
-    it('devrait déduire dimanche + férié + overtime des heures normales', async () => {
+    it('devrait déduire dimanche + férié + heures compl. + overtime des heures normales, sans double comptage', async () => {
       // Dimanche 17 mars : 8h = sundayHours
-      // Lundi-vendredi (11-15) : 5 * 8h = 40h, dont 5h sup
+      // Lundi-vendredi (11-15) : 5 * 8h = 40h, dont 5h complémentaires (contrat 35h)
       const shifts = [
         createMockShiftRow({ id: 's1', date: '2024-03-11', start_time: '08:00', end_time: '16:00', break_duration: 0 }),
         createMockShiftRow({ id: 's2', date: '2024-03-12', start_time: '08:00', end_time: '16:00', break_duration: 0 }),
@@ -703,11 +968,35 @@ describe('declarationService', () => {
       const result = await getMonthlyDeclarationData('employer-1', defaultOptions)
       const emp = result!.employees[0]
 
-      // total = 48h, sunday = 8h, overtime = 13h
-      // normal = 48 - 8 - 0 (holiday) - 13 = 27
+      // total = 48h, sunday = 8h, complémentaires = 5h, overtime = 8h (dimanche 40→48)
+      // Les heures sup du dimanche sont aussi des heures du dimanche : normal = 40 - 5 = 35
       expect(emp.totalHours).toBe(48)
       expect(emp.sundayHours).toBe(8)
-      expect(emp.normalHours).toBe(emp.totalHours - emp.sundayHours - emp.holidayHours - emp.overtimeHours)
+      expect(emp.complementaryHours).toBe(5)
+      expect(emp.overtimeHours).toBe(8)
+      expect(emp.normalHours).toBe(35)
+    })
+
+    it('devrait compter une seule fois les heures d\'un dimanche qui franchit le seuil hebdomadaire', async () => {
+      // Lundi-jeudi (11-14) : 4 * 9h = 36h, dont 1h complémentaire (contrat 35h)
+      // Dimanche 17 mars : 8h (36→44) = 4h complémentaires + 4h sup
+      const shifts = [
+        createMockShiftRow({ id: 's1', date: '2024-03-11', start_time: '08:00', end_time: '17:00', break_duration: 0 }),
+        createMockShiftRow({ id: 's2', date: '2024-03-12', start_time: '08:00', end_time: '17:00', break_duration: 0 }),
+        createMockShiftRow({ id: 's3', date: '2024-03-13', start_time: '08:00', end_time: '17:00', break_duration: 0 }),
+        createMockShiftRow({ id: 's4', date: '2024-03-14', start_time: '08:00', end_time: '17:00', break_duration: 0 }),
+        createMockShiftRow({ id: 's5', date: '2024-03-17', start_time: '08:00', end_time: '16:00', break_duration: 0 }), // dimanche
+      ]
+      setupStandardMocks(shifts, { weekly_hours: 35 })
+
+      const result = await getMonthlyDeclarationData('employer-1', defaultOptions)
+      const emp = result!.employees[0]
+
+      expect(emp.totalHours).toBe(44)
+      expect(emp.sundayHours).toBe(8)
+      expect(emp.complementaryHours).toBe(5)
+      expect(emp.overtimeHours).toBe(4)
+      expect(emp.normalHours).toBe(35)
     })
   })
 
@@ -761,4 +1050,53 @@ describe('declarationService', () => {
       expect(emp.lastName).toBe('')
     })
   })
+
+  // ================================================================
+  // Paramètres réglementaires
+  // ================================================================
+
+  describe('Paramètres réglementaires', () => {
+    afterEach(() => {
+      mockLoadRegulatoryParameters.mockReset()
+      resetParameterRegistry()
+    })
+
+    it('applique les revalorisations publiées en base, chargées avant le calcul', async () => {
+      const shift = createMockShiftRow({ start_time: '09:00', end_time: '17:00', break_duration: 0 })
+      setupStandardMocks([shift])
+      const before = await getMonthlyDeclarationData('employer-1', defaultOptions)
+
+      mockLoadRegulatoryParameters.mockImplementation(async () => {
+        registerParameterVersions([{ key: 'passMonthly', effectiveFrom: '2024-03-01', value: 1 }])
+      })
+      setupStandardMocks([shift])
+      const after = await getMonthlyDeclarationData('employer-1', defaultOptions)
+
+      expect(mockLoadRegulatoryParameters).toHaveBeenCalled()
+      expect(after!.employees[0].totalEmployeeDeductions)
+        .toBeLessThan(before!.employees[0].totalEmployeeDeductions)
+    })
+  })
+
+  // ================================================================
+  // Relevés d'heures contresignés
+  // ================================================================
+
+  describe('Relevés d\'heures', () => {
+    it('vérifie les relevés des seuls contrats déclarés du mois', async () => {
+      setupStandardMocks()
+
+      await getMonthlyDeclarationData('employer-1', defaultOptions)
+
+      expect(mockGetUnsignedTimesheetContractIds).toHaveBeenCalledWith(['contract-1'], 2024, 3)
+    })
+
+    it('refuse la déclaration si un relevé du mois n\'est pas contresigné', async () => {
+      setupStandardMocks()
+      mockGetUnsignedTimesheetContractIds.mockResolvedValue(['contract-1'])
+
+      await expect(getMonthlyDeclarationData('employer-1', defaultOptions))
+        .rejects.toThrow('Relevé d\'heures non contresigné pour Marie Martin')
+    })
+  })
 })
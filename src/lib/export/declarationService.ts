@@ -5,10 +5,20 @@
 
 import { supabase } from '@/lib/supabase/client'
 import { format, startOfMonth, endOfMonth } from 'date-fns'
-import { calculateShiftDuration, calculateNightHours } from '@/lib/compliance/utils'
+import { calculateShiftDuration, calculateNightHours, getWeekStart } from '@/lib/compliance/utils'
 import { isPublicHoliday, isSunday } from '@/lib/compliance/types'
-import { calculateShiftPay, calculateOvertimeHours, MAJORATION_RATES } from '@/lib/compliance/calculatePay'
+import { calculateShiftPay, getWeeklyHoursSplit, getPayRateSet } from '@/lib/compliance/calculatePay'
 import type { ShiftForValidation, ContractForCalculation, GuardSegment } from '@/lib/compliance/types'
+import type { PayRateSet } from '@/types'
+import { getPayableTimes } from '@/lib/shifts/reconciliation'
+import { DEFAULT_MILEAGE_RATE, summarizeMileage } from '@/lib/mileage/allowance'
+import { resolveContractTerms, type ContractTermsVersion } from '@/lib/contract/amendments'
+import { loadRegulatoryParameters } from '@/services/regulatoryParametersService'
+import {
+  DECLARED_SHIFT_STATUSES,
+  getUnsignedTimesheetContractIds,
+  unsignedTimesheetMessage,
+} from '@/services/timesheetService'
 import { calculateCotisations } from './cotisationsCalculator'
 import type {
   MonthlyDeclarationData,
@@ -17,7 +27,8 @@ import type {
   ExportOptions,
 } from './types'
 import { getMonthLabel } from './types'
-import type { AddressDb, ShiftDbRow } from '@/types/database'
+import type { AddressDb, ContractAmendmentDbRow, ShiftDbRow, ShiftTripDbRow } from '@/types/database'
+import type { ShiftTrip } from '@/types'
 import { logger } from '@/lib/logger'
 
 // Types pour les données de la DB
@@ -52,17 +63,24 @@ interface ContractForDeclarationDb {
 
 /**
  * Récupère les données complètes pour une déclaration mensuelle
+ *
+ * Lève une erreur si un relevé d'heures déclaré n'est pas contresigné :
+ * la déclaration CESU et les bulletins ne reprennent que des heures validées.
  */
 export async function getMonthlyDeclarationData(
   employerId: string,
   options: ExportOptions
 ): Promise<MonthlyDeclarationData | null> {
-  const { year, month, employeeIds } = options
+  const { year, month, employeeIds, conventionSettings, mileageRate = DEFAULT_MILEAGE_RATE } = options
+  const rateSet = getPayRateSet(conventionSettings)
 
   // Dates de la période
   const startDate = startOfMonth(new Date(year, month - 1))
   const endDate = endOfMonth(new Date(year, month - 1))
 
+  // Revalorisations publiées en base (PASS, SMIC, taux) avant le calcul des cotisations
+  await loadRegulatoryParameters()
+
   // Récupérer les infos employeur
   const employerData = await getEmployerData(employerId)
   if (!employerData) {
@@ -70,28 +88,63 @@ export async function getMonthlyDeclarationData(
     return null
   }
 
-  // Récupérer les contrats actifs avec leurs employés
-  const contracts = await getActiveContracts(employerId, employeeIds)
+  // Contrats en cours sur le mois déclaré (y compris terminés depuis), avec leurs employés
+  const contracts = await getContractsForPeriod(employerId, startDate, endDate, employeeIds)
   if (contracts.length === 0) {
-    logger.error('Aucun contrat actif trouvé')
+    logger.error('Aucun contrat en cours sur le mois déclaré')
     return null
   }
 
-  // Pour chaque contrat, récupérer les shifts du mois et calculer
+  // Pour chaque contrat, récupérer les shifts du mois et calculer.
+  // La requête remonte au lundi de la semaine du 1er : les heures de fin du mois
+  // précédent comptent dans le cumul hebdomadaire (heures compl./sup) sans être déclarées.
   const employees: EmployeeDeclarationData[] = []
+  const contextStartDate = getWeekStart(startDate)
+  const termsHistory = await getTermsHistory(contracts.map((c) => c.id))
 
   for (const contract of contracts) {
-    const shifts = await getShiftsForPeriod(contract.id, startDate, endDate)
-    if (shifts.length === 0) continue
-
-    const employeeData = calculateEmployeeDeclaration(contract, shifts)
+    const shifts = await getShiftsForPeriod(contract.id, contextStartDate, endDate)
+    if (!shifts.some((shift) => isInPeriod(shift, startDate))) continue
+
+    const employeeData = calculateEmployeeDeclaration(
+      contract,
+      shifts,
+      startDate,
+      rateSet,
+      termsHistory.get(contract.id)
+    )
     employees.push(employeeData)
   }
 
+  // Heures déclarées : relevés du mois contresignés par les deux parties
+  const unsignedContractIds = await getUnsignedTimesheetContractIds(
+    employees.map((e) => e.contractId),
+    year,
+    month
+  )
+  if (unsignedContractIds.length > 0) {
+    const names = employees
+      .filter((e) => unsignedContractIds.includes(e.contractId))
+      .map((e) => `${e.firstName} ${e.lastName}`.trim())
+    throw new Error(unsignedTimesheetMessage(names))
+  }
+
+  // Indemnités kilométriques des trajets du mois (hors brut)
+  if (employees.length > 0) {
+    const trips = await getTripsForPeriod(employees.map((e) => e.contractId), startDate, endDate)
+    for (const employee of employees) {
+      const contractTrips = trips.filter((t) => t.contractId === employee.contractId)
+      if (contractTrips.length > 0) {
+        employee.mileage = summarizeMileage(contractTrips, mileageRate)
+      }
+    }
+  }
+
   // Calculer les totaux
   const totalHours = employees.reduce((sum, e) => sum + e.totalHours, 0)
   const totalGrossPay = employees.reduce((sum, e) => sum + e.totalGrossPay, 0)
   const totalNetPay = employees.reduce((sum, e) => sum + e.netPay, 0)
+  const totalMileageAllowance = employees.reduce((sum, e) => sum + (e.mileage?.amount ?? 0), 0)
 
   return {
     year,
@@ -108,8 +161,12 @@ export async function getMonthlyDeclarationData(
     totalHours: Math.round(totalHours * 100) / 100,
     totalGrossPay: Math.round(totalGrossPay * 100) / 100,
     totalNetPay: Math.round(totalNetPay * 100) / 100,
+    ...(employees.some((e) => e.mileage) && {
+      totalMileageAllowance: Math.round(totalMileageAllowance * 100) / 100,
+    }),
     totalEmployees: employees.length,
     generatedAt: new Date(),
+    rateSet,
   }
 }
 
@@ -148,10 +205,13 @@ async function getEmployerData(employerId: string): Promise<EmployerDataDb | nul
 }
 
 /**
- * Récupère les contrats actifs pour un employeur
+ * Récupère les contrats d'un employeur en cours sur la période, quel que soit
+ * leur statut : un contrat rompu depuis reste déclaré pour ses heures du mois.
  */
-async function getActiveContracts(
+async function getContractsForPeriod(
   employerId: string,
+  startDate: Date,
+  endDate: Date,
   employeeIds?: string[]
 ): Promise<ContractForDeclarationDb[]> {
   let query = supabase
@@ -174,7 +234,8 @@ async function getActiveContracts(
       )
     `)
     .eq('employer_id', employerId)
-    .eq('status', 'active')
+    .lte('start_date', format(endDate, 'yyyy-MM-dd'))
+    .or(`end_date.is.null,end_date.gte.${format(startDate, 'yyyy-MM-dd')}`)
 
   if (employeeIds && employeeIds.length > 0) {
     query = query.in('employee_id', employeeIds)
@@ -190,6 +251,39 @@ async function getActiveContracts(
   return (data || []) as ContractForDeclarationDb[]
 }
 
+/**
+ * Versions datées des conditions (avenants) de chaque contrat.
+ * En cas d'erreur, les conditions actuelles du contrat s'appliquent.
+ */
+async function getTermsHistory(contractIds: string[]): Promise<Map<string, ContractTermsVersion[]>> {
+  const history = new Map<string, ContractTermsVersion[]>()
+
+  const { data, error } = await supabase
+    .from('contract_amendments')
+    .select('contract_id, effective_date, weekly_hours, hourly_rate, pas_rate')
+    .in('contract_id', contractIds)
+    .order('effective_date', { ascending: true })
+
+  if (error) {
+    logger.error('Erreur récupération avenants:', error)
+    return history
+  }
+
+  for (const row of (data || []) as ContractAmendmentDbRow[]) {
+    history.set(row.contract_id, [
+      ...(history.get(row.contract_id) ?? []),
+      {
+        effectiveDate: new Date(row.effective_date),
+        weeklyHours: Number(row.weekly_hours),
+        hourlyRate: Number(row.hourly_rate),
+        pasRate: Number(row.pas_rate),
+      },
+    ])
+  }
+
+  return history
+}
+
 /**
  * Récupère les interventions pour une période
  */
@@ -204,7 +298,7 @@ async function getShiftsForPeriod(
     .eq('contract_id', contractId)
     .gte('date', format(startDate, 'yyyy-MM-dd'))
     .lte('date', format(endDate, 'yyyy-MM-dd'))
-    .in('status', ['completed', 'planned']) // Inclure planifiées et complétées
+    .in('status', DECLARED_SHIFT_STATUSES) // Inclure planifiées et complétées
     .order('date', { ascending: true })
 
   if (error) {
@@ -215,6 +309,68 @@ async function getShiftsForPeriod(
   return (data || []) as ShiftDbRow[]
 }
 
+/**
+ * Trajets des interventions déclarées du mois (planifiées ou réalisées)
+ */
+async function getTripsForPeriod(
+  contractIds: string[],
+  startDate: Date,
+  endDate: Date
+): Promise<Pick<ShiftTrip, 'contractId' | 'distanceKm' | 'vehicle'>[]> {
+  const { data, error } = await supabase
+    .from('shift_trips')
+    .select('contract_id, distance_km, vehicle, shift:shifts!inner(date, status)')
+    .in('contract_id', contractIds)
+    .gte('shift.date', format(startDate, 'yyyy-MM-dd'))
+    .lte('shift.date', format(endDate, 'yyyy-MM-dd'))
+    .in('shift.status', DECLARED_SHIFT_STATUSES)
+
+  if (error) {
+    logger.error('Erreur récupération trajets:', error)
+    return []
+  }
+
+  return ((data || []) as unknown as ShiftTripDbRow[])
+    .map((row) => ({
+      contractId: row.contract_id,
+      distanceKm: Number(row.distance_km) || 0,
+      vehicle: row.vehicle,
+    }))
+    .filter((trip) => trip.distanceKm > 0)
+}
+
+/**
+ * Vrai si l'intervention appartient au mois déclaré (et non à la semaine de contexte)
+ */
+function isInPeriod(shift: ShiftDbRow, periodStart: Date): boolean {
+  return shift.date >= format(periodStart, 'yyyy-MM-dd')
+}
+
+/**
+ * Ordre chronologique (date puis heure de début) pour le cumul hebdomadaire
+ */
+function compareShifts(a: ShiftDbRow, b: ShiftDbRow): number {
+  return a.date.localeCompare(b.date) || a.start_time.localeCompare(b.start_time)
+}
+
+/**
+ * Remplace le planning par les heures réelles quand l'employeur a accepté l'écart
+ * (cf. `getPayableTimes`) : seules ces heures sont payées et déclarées.
+ */
+function withPayableTimes(shift: ShiftDbRow): ShiftDbRow {
+  const { startTime, endTime } = getPayableTimes({
+    date: new Date(shift.date),
+    startTime: shift.start_time,
+    endTime: shift.end_time,
+    breakDuration: shift.break_duration || 0,
+    shiftType: shift.shift_type ?? 'effective',
+    clockedInAt: shift.clocked_in_at ? new Date(shift.clocked_in_at) : undefined,
+    clockedOutAt: shift.clocked_out_at ? new Date(shift.clocked_out_at) : undefined,
+    actualReview: shift.actual_review ?? undefined,
+  })
+  return { ...shift, start_time: startTime, end_time: endTime }
+}
+
 /**
  * Convertit un ShiftDbRow en ShiftForValidation enrichi pour calculateShiftPay.
  */
@@ -241,28 +397,48 @@ function toShiftForCalc(shift: ShiftDbRow, employeeId: string, contractId: strin
  * IDCC 3239 — y compris le split jour/nuit pour les présences mixtes), puis agrège
  * les composants pour obtenir les totaux mensuels.
  *
- * Le NET estimé est calculé via `calculateCotisations` à partir du brut total.
+ * Les heures sont cumulées semaine par semaine dans l'ordre chronologique pour
+ * les répartir en normales / complémentaires / supplémentaires. `shifts` peut inclure
+ * des interventions antérieures à `periodDate` (même semaine) : elles alimentent le
+ * cumul mais ne sont pas déclarées.
+ *
+ * Le NET estimé est calculé via `calculateCotisations` à partir du brut total, avec les
+ * barèmes en vigueur sur la période déclarée (`periodDate`) et non à la date de génération.
+ *
+ * Avec `termsHistory`, chaque intervention est payée aux conditions (taux, durée
+ * contractuelle) en vigueur à sa date ; taux affiché et taux PAS sont ceux de la fin du mois.
  */
 function calculateEmployeeDeclaration(
   contract: ContractForDeclarationDb,
-  shifts: ShiftDbRow[]
+  shifts: ShiftDbRow[],
+  periodDate: Date,
+  rateSet: PayRateSet,
+  termsHistory?: ContractTermsVersion[]
 ): EmployeeDeclarationData {
-  const hourlyRate = contract.hourly_rate
-  const contractualWeeklyHours = contract.weekly_hours || 35
+  const currentTerms = {
+    weeklyHours: contract.weekly_hours || 35,
+    hourlyRate: contract.hourly_rate,
+    pasRate: contract.pas_rate ?? 0,
+  }
+  const termsAt = (date: Date) => resolveContractTerms(currentTerms, termsHistory, date)
+  const { hourlyRate, pasRate } = termsAt(endOfMonth(periodDate))
   const contractForCalc: ContractForCalculation = {
     id: contract.id,
-    weeklyHours: contractualWeeklyHours,
-    hourlyRate,
+    weeklyHours: currentTerms.weeklyHours,
+    hourlyRate: currentTerms.hourlyRate,
+    termsHistory,
   }
   const shiftsDetails: ShiftDeclarationDetail[] = []
 
   let totalHours = 0
+  let normalHours = 0
   let effectiveWorkHours = 0
   let presenceDayHours = 0
   let presenceNightHours = 0
   let sundayHours = 0
   let holidayHours = 0
   let nightHours = 0
+  let complementaryHours = 0
   let overtimeHours = 0
 
   let basePay = 0
@@ -273,13 +449,20 @@ function calculateEmployeeDeclaration(
   let presenceResponsiblePay = 0
   let nightPresenceAllowance = 0
 
-  // Tous les shifts au format calcul (utile pour les heures sup contextualisées)
-  const allShiftsForCalc = shifts.map((s) =>
+  // Tous les shifts au format calcul, en ordre chronologique (cumul hebdomadaire),
+  // avec les heures réelles acceptées à la place du planning
+  const sortedShifts = shifts.map(withPayableTimes).sort(compareShifts)
+  const allShiftsForCalc = sortedShifts.map((s) =>
     toShiftForCalc(s, contract.employee_id, contract.id)
   )
+  let declaredShiftsCount = 0
+
+  for (let i = 0; i < sortedShifts.length; i++) {
+    const shift = sortedShifts[i]
+    // Semaine de contexte (mois précédent) : cumul uniquement
+    if (!isInPeriod(shift, periodDate)) continue
+    declaredShiftsCount++
 
-  for (let i = 0; i < shifts.length; i++) {
-    const shift = shifts[i]
     const shiftDate = new Date(shift.date)
     const shiftType = shift.shift_type || 'effective'
     const fullDurationHours =
@@ -289,16 +472,17 @@ function calculateEmployeeDeclaration(
     const isHolidayShift = isPublicHoliday(shiftDate)
 
     // Calcul de paie centralisé (split jour/nuit, requalification, garde 24h, majorations).
-    // Hypothèse : travail habituel sur jours fériés → +60% (comportement historique du récap CESU).
+    // Hypothèse : travail habituel sur jours fériés → taux « férié » de l'employeur (+60% par défaut).
     const shiftForCalc = allShiftsForCalc[i]
     const previousShifts = allShiftsForCalc.slice(0, i)
-    const pay = calculateShiftPay(shiftForCalc, contractForCalc, previousShifts, true)
+    const pay = calculateShiftPay(shiftForCalc, contractForCalc, previousShifts, true, rateSet)
 
-    // Agrégation des composants de paie (overtime recalculé en cumulatif plus bas)
+    // Agrégation des composants de paie
     basePay += pay.basePay
     sundayMajoration += pay.sundayMajoration
     holidayMajoration += pay.holidayMajoration
     nightMajoration += pay.nightMajoration
+    overtimeMajoration += pay.overtimeMajoration
     presenceResponsiblePay += pay.presenceResponsiblePay
     nightPresenceAllowance += pay.nightPresenceAllowance
 
@@ -322,17 +506,18 @@ function calculateEmployeeDeclaration(
       nightHours += shiftNightHours
     }
 
-    // Heures sup : calcul cumulatif sur la semaine pour répartir +25% / +50%
-    const shiftOvertime = calculateOvertimeHours(shiftForCalc, previousShifts, contractualWeeklyHours)
-    if (shiftOvertime > 0) {
-      const before = overtimeHours
-      const after = overtimeHours + shiftOvertime
-      const first8hAdded = Math.min(8, after) - Math.min(8, before)
-      const beyond8hAdded = Math.max(0, after - 8) - Math.max(0, before - 8)
-      overtimeMajoration += first8hAdded * hourlyRate * MAJORATION_RATES.OVERTIME_FIRST_8H
-      overtimeMajoration += beyond8hAdded * hourlyRate * MAJORATION_RATES.OVERTIME_BEYOND_8H
-      overtimeHours += shiftOvertime
-    }
+    // Heures complémentaires / supplémentaires selon le cumul de la semaine
+    const hoursSplit = getWeeklyHoursSplit(shiftForCalc, previousShifts, termsAt(shiftDate).weeklyHours)
+    const extraHours =
+      hoursSplit.complementaryHours + hoursSplit.overtimeFirstTierHours + hoursSplit.overtimeSecondTierHours
+    complementaryHours += hoursSplit.complementaryHours
+    overtimeHours += hoursSplit.overtimeFirstTierHours + hoursSplit.overtimeSecondTierHours
+
+    // Heures normales : ni dimanche / férié, ni complémentaires / supplémentaires.
+    // Les catégories se recoupent (heure sup un dimanche, férié tombant un dimanche) :
+    // chaque heure n'est retirée qu'une fois
+    const specialHours = isSundayShift || isHolidayShift ? fullDurationHours : 0
+    normalHours += Math.max(0, fullDurationHours - Math.max(specialHours, extraHours))
 
     shiftsDetails.push({
       date: shiftDate,
@@ -352,16 +537,14 @@ function calculateEmployeeDeclaration(
     })
   }
 
-  // Heures normales = total - spéciales - supplémentaires (sans double comptage)
-  const normalHours = Math.max(0, totalHours - sundayHours - holidayHours - overtimeHours)
-
   const totalGrossPay =
     basePay + sundayMajoration + holidayMajoration + nightMajoration +
     overtimeMajoration + presenceResponsiblePay + nightPresenceAllowance
 
   // Net estimé via le calculateur de cotisations IDCC 3239
   const cotisations = calculateCotisations(totalGrossPay, {
-    pasRate: contract.pas_rate ?? 0,
+    pasRate,
+    periodDate,
   })
 
   return {
@@ -381,6 +564,7 @@ function calculateEmployeeDeclaration(
     sundayHours: Math.round(sundayHours * 100) / 100,
     holidayHours: Math.round(holidayHours * 100) / 100,
     nightHours: Math.round(nightHours * 100) / 100,
+    complementaryHours: Math.round(complementaryHours * 100) / 100,
     overtimeHours: Math.round(overtimeHours * 100) / 100,
     basePay: Math.round(basePay * 100) / 100,
     sundayMajoration: Math.round(sundayMajoration * 100) / 100,
@@ -392,7 +576,8 @@ function calculateEmployeeDeclaration(
     totalGrossPay: Math.round(totalGrossPay * 100) / 100,
     netPay: cotisations.netAPayer,
     totalEmployeeDeductions: cotisations.totalEmployeeDeductions,
-    shiftsCount: shifts.length,
+    pasRate,
+    shiftsCount: declaredShiftsCount,
     shiftsDetails,
   }
 }
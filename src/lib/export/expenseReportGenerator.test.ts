@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest'
+import {
+  generateExpenseReportCsv,
+  getExpenseReportFilename,
+  type ExpenseReportData,
+} from './expenseReportGenerator'
+import type { ShoppingExpense } from '@/types'
+
+function makeExpense(overrides: Partial<ShoppingExpense> = {}): ShoppingExpense {
+  return {
+    id: 'exp-1',
+    shiftId: 'shift-1',
+    contractId: 'contract-1',
+    employerId: 'employer-1',
+    employeeId: 'employee-1',
+    shiftDate: new Date(2026, 2, 10),
+    items: [
+      { name: 'Lait', brand: 'Lactel', plannedQuantity: 2, quantity: 2, price: 2.4, bought: true },
+      { name: 'Pain', brand: '', plannedQuantity: 1, quantity: 1, bought: false },
+      { name: 'Sel; fin', brand: '', plannedQuantity: 0, quantity: 1, price: 1, bought: true },
+    ],
+    receipts: [{ id: 'r1', url: 'https://x', type: 'image', name: 'ticket.jpg', size: 10 }],
+    amountAdvanced: 3.4,
+    createdAt: new Date(2026, 2, 10),
+    updatedAt: new Date(2026, 2, 10),
+    ...overrides,
+  }
+}
+
+function makeData(): ExpenseReportData {
+  const expenses = [
+    makeExpense(),
+    makeExpense({ id: 'exp-2', shiftDate: new Date(2026, 2, 12), amountAdvanced: 5, reimbursedAt: new Date(2026, 2, 20) }),
+  ]
+  return {
+    year: 2026,
+    month: 3,
+    employerName: 'Paul Durand',
+    report: {
+      contractId: 'contract-1',
+      employeeName: 'Hélène Martin',
+      expenses,
+      total: 8.4,
+      reimbursedTotal: 5,
+      pendingTotal: 3.4,
+    },
+    generatedAt: new Date(2026, 3, 1, 9, 0),
+  }
+}
+
+describe('generateExpenseReportCsv', () => {
+  it('liste les interventions et les totaux', () => {
+    const result = generateExpenseReportCsv(makeData())
+
+    expect(result.success).toBe(true)
+    expect(result.mimeType).toBe('text/csv;charset=utf-8')
+    const lines = result.content.split('\n')
+    expect(lines).toContain('10/03/2026;"Lait x2, Sel; fin";1;3,40 €;')
+    expect(lines).toContain('12/03/2026;"Lait x2, Sel; fin";1;5,00 €;20/03/2026')
+    expect(lines).toContain('Reste à rembourser;3,40 €')
+  })
+})
+
+describe('getExpenseReportFilename', () => {
+  it('utilise le nom de l\'auxiliaire sans accents', () => {
+    expect(getExpenseReportFilename(makeData(), 'pdf')).toBe('frais_avances_helene_martin_2026_03.pdf')
+  })
+})
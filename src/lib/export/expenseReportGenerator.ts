@@ -0,0 +1,101 @@
+/**
+ * Générateur CSV du récapitulatif mensuel des frais avancés
+ *
+ * Une ligne par intervention avec des courses payées par l'auxiliaire :
+ * articles achetés, nombre de tickets, montant et état du remboursement.
+ */
+
+import { format } from 'date-fns'
+import { fr } from 'date-fns/locale'
+import type { AuxiliaryExpenseReport } from '@/lib/shopping/expenses'
+import type { ShoppingExpense } from '@/types'
+import type { ExportResult } from './types'
+import { getMonthLabel } from './types'
+
+export interface ExpenseReportData {
+  year: number
+  month: number
+  employerName: string
+  report: AuxiliaryExpenseReport
+  generatedAt: Date
+}
+
+/** Articles achetés d'une intervention, ex. « Lait x2, Pain » */
+export function describePurchases(expense: ShoppingExpense): string {
+  return expense.items
+    .filter((item) => item.bought)
+    .map((item) => (item.quantity > 1 ? `${item.name} x${item.quantity}` : item.name))
+    .join(', ')
+}
+
+/** Nom de fichier : frais_avances_<auxiliaire>_YYYY_MM.<ext> */
+export function getExpenseReportFilename(
+  data: Pick<ExpenseReportData, 'year' | 'month' | 'report'>,
+  extension: 'csv' | 'pdf'
+): string {
+  const slug = data.report.employeeName
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_|_$/g, '')
+  return `frais_avances_${slug}_${data.year}_${String(data.month).padStart(2, '0')}.${extension}`
+}
+
+/**
+ * Génère le récapitulatif CSV des frais avancés d'un auxiliaire
+ */
+export function generateExpenseReportCsv(data: ExpenseReportData): ExportResult {
+  try {
+    const { report } = data
+    const lines: string[] = []
+
+    lines.push('# FRAIS AVANCÉS - RÉCAPITULATIF MENSUEL')
+    lines.push(`# Période: ${getMonthLabel(data.year, data.month)}`)
+    lines.push(`# Employeur: ${data.employerName}`)
+    lines.push(`# Auxiliaire: ${report.employeeName}`)
+    lines.push(`# Généré le: ${format(data.generatedAt, 'dd/MM/yyyy à HH:mm', { locale: fr })}`)
+    lines.push('')
+
+    lines.push(['Date', 'Articles achetés', 'Tickets', 'Montant', 'Remboursé le'].join(';'))
+    for (const expense of report.expenses) {
+      lines.push([
+        expense.shiftDate ? format(expense.shiftDate, 'dd/MM/yyyy') : '',
+        escapeCsv(describePurchases(expense)),
+        expense.receipts.length.toString(),
+        formatCurrency(expense.amountAdvanced),
+        expense.reimbursedAt ? format(expense.reimbursedAt, 'dd/MM/yyyy') : '',
+      ].join(';'))
+    }
+    lines.push('')
+
+    lines.push('# TOTAUX')
+    lines.push(`Total avancé;${formatCurrency(report.total)}`)
+    lines.push(`Déjà remboursé;${formatCurrency(report.reimbursedTotal)}`)
+    lines.push(`Reste à rembourser;${formatCurrency(report.pendingTotal)}`)
+
+    return {
+      success: true,
+      filename: getExpenseReportFilename(data, 'csv'),
+      content: lines.join('\n'),
+      mimeType: 'text/csv;charset=utf-8',
+    }
+  } catch (error) {
+    return {
+      success: false,
+      filename: '',
+      content: '',
+      mimeType: '',
+      error: error instanceof Error ? error.message : 'Erreur lors de la génération',
+    }
+  }
+}
+
+/** Les libellés d'articles sont libres : on neutralise le séparateur */
+function escapeCsv(value: string): string {
+  return /[;"\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+function formatCurrency(n: number): string {
+  return n.toFixed(2).replace('.', ',') + ' €'
+}
@@ -0,0 +1,51 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { generateExpenseReportPdf } from './expenseReportPdfGenerator'
+import { renderReactPdf } from './pdfReactRenderer'
+import type { ExpenseReportData } from './expenseReportGenerator'
+
+// ── Mocks ──────────────────────────────────────────────────────────────────────
+
+vi.mock('./pdfReactRenderer', () => ({
+  renderReactPdf: vi.fn(async () => 'data:application/pdf;base64,MOCK_PDF'),
+}))
+
+const data: ExpenseReportData = {
+  year: 2026,
+  month: 3,
+  employerName: 'Paul Durand',
+  report: {
+    contractId: 'contract-1',
+    employeeName: 'Hélène Martin',
+    expenses: [],
+    total: 0,
+    reimbursedTotal: 0,
+    pendingTotal: 0,
+  },
+  generatedAt: new Date(2026, 3, 1),
+}
+
+// ── Tests ──────────────────────────────────────────────────────────────────────
+
+describe('generateExpenseReportPdf', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('renvoie un PDF nommé d\'après l\'auxiliaire et le mois', async () => {
+    const result = await generateExpenseReportPdf(data)
+
+    expect(result).toMatchObject({
+      success: true,
+      filename: 'frais_avances_helene_martin_2026_03.pdf',
+      mimeType: 'application/pdf',
+    })
+  })
+
+  it('remonte l\'erreur de rendu', async () => {
+    vi.mocked(renderReactPdf).mockRejectedValueOnce(new Error('boom'))
+
+    const result = await generateExpenseReportPdf(data)
+
+    expect(result).toMatchObject({ success: false, error: 'boom' })
+  })
+})
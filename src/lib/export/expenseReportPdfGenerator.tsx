@@ -0,0 +1,109 @@
+/* eslint-disable react-refresh/only-export-components */
+/**
+ * Générateur PDF du récapitulatif mensuel des frais avancés
+ * Une ligne par intervention avec courses payées par l'auxiliaire, puis
+ * les totaux avancé / remboursé / restant dû.
+ */
+import { Document, Page, View, Text, StyleSheet } from '@react-pdf/renderer'
+import type { ExportResult } from './types'
+import { getMonthLabel } from './types'
+import { renderReactPdf } from './pdfReactRenderer'
+import { describePurchases, getExpenseReportFilename, type ExpenseReportData } from './expenseReportGenerator'
+import {
+  colors,
+  baseStyles,
+  euro,
+  formatDateTime,
+  PdfHeader,
+  PdfFooter,
+  PdfTable,
+  SectionTitle,
+  TotalRow,
+} from './pdfReactTheme'
+
+const s = StyleSheet.create({
+  body: {
+    padding: '20px 28px 20px',
+  },
+  parties: {
+    fontSize: 10,
+    color: colors.textMuted,
+    marginBottom: 12,
+  },
+})
+
+const HEADERS = ['Date', 'Articles achetés', 'Tickets', 'Montant', 'Remboursé']
+const WIDTHS = ['14%', '44%', '10%', '14%', '18%']
+
+export async function generateExpenseReportPdf(data: ExpenseReportData): Promise<ExportResult> {
+  try {
+    const content = await renderReactPdf(<ExpenseReportDocument data={data} />)
+    return {
+      success: true,
+      filename: getExpenseReportFilename(data, 'pdf'),
+      content,
+      mimeType: 'application/pdf',
+    }
+  } catch (error) {
+    return {
+      success: false,
+      filename: '',
+      content: '',
+      mimeType: '',
+      error: error instanceof Error ? error.message : 'Erreur lors de la génération du récapitulatif',
+    }
+  }
+}
+
+function formatShortDate(date: Date | undefined): string {
+  return date ? date.toLocaleDateString('fr-FR', { weekday: 'short', day: '2-digit', month: '2-digit' }) : '—'
+}
+
+function ExpenseReportDocument({ data }: { data: ExpenseReportData }) {
+  const { report } = data
+  const period = getMonthLabel(data.year, data.month)
+
+  return (
+    <Document>
+      <Page size="A4" style={baseStyles.page}>
+        <PdfHeader
+          title="FRAIS AVANCÉS"
+          subtitle={period}
+          rightText={`Généré le ${formatDateTime(data.generatedAt)}`}
+          badge={report.pendingTotal === 0 ? 'REMBOURSÉ' : undefined}
+        />
+
+        <View style={s.body}>
+          <Text style={s.parties}>
+            Avancés par {report.employeeName} pour le compte de {data.employerName}
+          </Text>
+
+          <SectionTitle>Courses de la période</SectionTitle>
+          <PdfTable
+            headers={HEADERS}
+            widths={WIDTHS}
+            rows={report.expenses.map((expense) => ({
+              cells: [
+                formatShortDate(expense.shiftDate),
+                describePurchases(expense) || '—',
+                String(expense.receipts.length),
+                euro(expense.amountAdvanced),
+                expense.reimbursedAt ? expense.reimbursedAt.toLocaleDateString('fr-FR') : 'À rembourser',
+              ],
+            }))}
+          />
+          <TotalRow label="Total avancé" amount={euro(report.total)} />
+          {report.reimbursedTotal > 0 && (
+            <TotalRow label="Déjà remboursé" amount={euro(report.reimbursedTotal)} />
+          )}
+          <TotalRow label="Reste à rembourser" amount={euro(report.pendingTotal)} />
+        </View>
+
+        <PdfFooter
+          legal="Frais remboursés sur justificatifs (tickets de caisse joints aux interventions dans Unilien)."
+          page={period}
+        />
+      </Page>
+    </Document>
+  )
+}
@@ -21,12 +21,55 @@ export { getMonthlyDeclarationData } from './declarationService'
 export { generateCesuCsv, generateCesuSummary } from './cesuGenerator'
 export { generateCesuPdf } from './cesuPdfGenerator'
 
-// ─── Calculs paie (prévisionnel / simulation) ────────────────────────────────
-// Note : la génération PDF du bulletin a été retirée au profit de l'upload
-// du bulletin officiel URSSAF. Les calculs restent utiles pour un dashboard
-// prévisionnel ou des contrôles de cohérence côté app.
-export type { CotisationsResult, CotisationLine } from './types'
+// ─── Bulletin de paie ────────────────────────────────────────────────────────
+// Le bulletin généré côté app coexiste avec l'upload du bulletin officiel URSSAF.
+export type { CotisationsResult, CotisationLine, PayslipData } from './types'
 export { calculateCotisations, PASS_MONTHLY_2025, SMIC_MONTHLY_2025 } from './cotisationsCalculator'
+export { buildPayslipData, type PayslipBuildOptions } from './payslipBuilder'
+export { generatePayslipPdf, getPayslipFilename } from './payslipPdfGenerator'
+
+// ─── Badge de pointage QR ────────────────────────────────────────────────────
+export {
+  generateClockInBadgePdf,
+  getClockInBadgeFilename,
+  type ClockInBadgeData,
+} from './clockInBadgePdfGenerator'
+
+// ─── Relevé d'heures mensuel ─────────────────────────────────────────────────
+export {
+  generateTimesheetPdf,
+  getTimesheetFilename,
+  getTimesheetDocumentTitle,
+  parseTimesheetPdfData,
+  type TimesheetPdfData,
+} from './timesheetPdfGenerator'
+
+// ─── Frais avancés (courses) ─────────────────────────────────────────────────
+export {
+  generateExpenseReportCsv,
+  getExpenseReportFilename,
+  type ExpenseReportData,
+} from './expenseReportGenerator'
+export { generateExpenseReportPdf } from './expenseReportPdfGenerator'
+
+// ─── Documents de fin de contrat ─────────────────────────────────────────────
+export {
+  generateFinalPayStatementPdf,
+  generateWorkCertificatePdf,
+  generateFranceTravailCertificatePdf,
+  getTerminationDocumentFilename,
+  TERMINATION_DOCUMENT_TITLES,
+  type TerminationDocumentsData,
+} from './terminationPdfGenerator'
+
+// ─── Contrat et avenants à signer ────────────────────────────────────────────
+export {
+  generateContractDocumentPdf,
+  getContractDocumentFilename,
+  getContractDocumentTitle,
+  type ContractDocumentData,
+} from './contractPdfGenerator'
+export type { SignatureSeal, SealedSignature } from './signaturePdfBlocks'
 
 // ─── Export Planning ─────────────────────────────────────────────────────────
 export type {
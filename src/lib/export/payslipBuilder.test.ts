@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest'
+import { buildPayslipData } from './payslipBuilder'
+import { calculateCotisations } from './cotisationsCalculator'
+import type { MonthlyDeclarationData, EmployeeDeclarationData } from './types'
+
+// ── Helpers ────────────────────────────────────────────────────────────────────
+
+function makeEmployee(overrides: Partial<EmployeeDeclarationData> = {}): EmployeeDeclarationData {
+  return {
+    employeeId: 'emp-1',
+    firstName: 'Marie',
+    lastName: 'Curie',
+    contractId: 'contract-1',
+    contractType: 'CDI',
+    hourlyRate: 12.5,
+    totalHours: 120,
+    normalHours: 120,
+    effectiveWorkHours: 120,
+    presenceDayHours: 0,
+    presenceNightHours: 0,
+    sundayHours: 0,
+    holidayHours: 0,
+    nightHours: 0,
+    overtimeHours: 0,
+    basePay: 1500,
+    sundayMajoration: 0,
+    holidayMajoration: 0,
+    nightMajoration: 0,
+    overtimeMajoration: 0,
+    presenceResponsiblePay: 0,
+    nightPresenceAllowance: 0,
+    totalGrossPay: 1500,
+    netPay: 1170,
+    totalEmployeeDeductions: 330,
+    pasRate: 0.05,
+    shiftsCount: 20,
+    shiftsDetails: [],
+    ...overrides,
+  }
+}
+
+function makeDeclaration(overrides: Partial<MonthlyDeclarationData> = {}): MonthlyDeclarationData {
+  return {
+    year: 2025,
+    month: 6,
+    periodLabel: 'Juin 2025',
+    periodStartDate: new Date(2025, 5, 1),
+    periodEndDate: new Date(2025, 5, 30),
+    employerId: 'employer-1',
+    employerFirstName: 'Paul',
+    employerLastName: 'Durand',
+    employerAddress: '12 rue de la Paix, 75001 Paris',
+    cesuNumber: 'CESU-123',
+    employees: [makeEmployee()],
+    totalHours: 120,
+    totalGrossPay: 1500,
+    totalNetPay: 1170,
+    totalEmployees: 1,
+    generatedAt: new Date(2025, 6, 1),
+    ...overrides,
+  }
+}
+
+// ── Tests ──────────────────────────────────────────────────────────────────────
+
+describe('buildPayslipData', () => {
+  it('retourne null si le contrat est absent de la déclaration', () => {
+    expect(buildPayslipData(makeDeclaration(), 'unknown-contract')).toBeNull()
+  })
+
+  it('reprend la période, l\'employeur et le salarié de la déclaration', () => {
+    const data = buildPayslipData(makeDeclaration(), 'contract-1')!
+
+    expect(data.year).toBe(2025)
+    expect(data.month).toBe(6)
+    expect(data.periodLabel).toBe('Juin 2025')
+    expect(data.employerLastName).toBe('Durand')
+    expect(data.cesuNumber).toBe('CESU-123')
+    expect(data.employee.contractId).toBe('contract-1')
+  })
+
+  it('sélectionne le contrat demandé parmi plusieurs employés', () => {
+    const declaration = makeDeclaration({
+      employees: [
+        makeEmployee(),
+        makeEmployee({ employeeId: 'emp-2', contractId: 'contract-2', firstName: 'Albert', totalGrossPay: 800 }),
+      ],
+    })
+
+    const data = buildPayslipData(declaration, 'contract-2')!
+    expect(data.employee.firstName).toBe('Albert')
+    expect(data.cotisations.grossPay).toBe(800)
+  })
+
+  it('calcule les cotisations sur le brut avec le taux PAS du contrat, à la date de la période', () => {
+    const data = buildPayslipData(makeDeclaration(), 'contract-1')!
+    const expected = calculateCotisations(1500, { pasRate: 0.05, periodDate: new Date(2025, 5, 1) })
+
+    expect(data.cotisations).toEqual(expected)
+    expect(data.cotisations.pasRate).toBe(0.05)
+    expect(data.cotisations.pasAmount).toBeGreaterThan(0)
+  })
+
+  it('retombe sur un taux PAS nul pour les déclarations sans taux', () => {
+    const data = buildPayslipData(
+      makeDeclaration({ employees: [makeEmployee({ pasRate: undefined })] }),
+      'contract-1'
+    )!
+
+    expect(data.cotisations.pasRate).toBe(0)
+    expect(data.cotisations.pasAmount).toBe(0)
+  })
+
+  it('applique l\'exonération des cotisations patronales de Sécurité sociale', () => {
+    const standard = buildPayslipData(makeDeclaration(), 'contract-1')!
+    const exempt = buildPayslipData(makeDeclaration(), 'contract-1', { isExemptPatronalSS: true })!
+
+    expect(exempt.cotisations.isExemptPatronalSS).toBe(true)
+    expect(exempt.cotisations.totalEmployerContributions).toBeLessThan(
+      standard.cotisations.totalEmployerContributions
+    )
+    // L'exonération patronale ne change pas le net du salarié
+    expect(exempt.cotisations.netAPayer).toBe(standard.cotisations.netAPayer)
+  })
+
+  it('utilise le barème IDCC par défaut pour les déclarations sans taux tracés', () => {
+    const data = buildPayslipData(makeDeclaration(), 'contract-1')!
+    expect(data.rateSet.source).toBe('idcc_default')
+  })
+})
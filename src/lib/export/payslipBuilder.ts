@@ -0,0 +1,52 @@
+/**
+ * Construction des données d'un bulletin de paie
+ *
+ * Combine la déclaration mensuelle (heures et décomposition du brut, déjà
+ * calculées pour le récap CESU) et le calculateur de cotisations IDCC 3239
+ * (lignes salariales / patronales, net imposable, PAS, net à payer).
+ */
+
+import { calculateCotisations } from './cotisationsCalculator'
+import { getDeclarationRateSet } from './types'
+import type { MonthlyDeclarationData, PayslipData } from './types'
+
+export interface PayslipBuildOptions {
+  /** Exonération des cotisations patronales de Sécurité sociale (ex : employeur invalide ou âgé de 70 ans et plus) */
+  isExemptPatronalSS?: boolean
+}
+
+/**
+ * Construit le bulletin d'un contrat à partir de la déclaration du mois.
+ * Retourne null si le contrat n'a aucune donnée dans la déclaration.
+ */
+export function buildPayslipData(
+  declaration: MonthlyDeclarationData,
+  contractId: string,
+  options: PayslipBuildOptions = {}
+): PayslipData | null {
+  const employee = declaration.employees.find((e) => e.contractId === contractId)
+  if (!employee) return null
+
+  const cotisations = calculateCotisations(employee.totalGrossPay, {
+    pasRate: employee.pasRate ?? 0,
+    isExemptPatronalSS: options.isExemptPatronalSS ?? false,
+    periodDate: declaration.periodStartDate,
+  })
+
+  return {
+    year: declaration.year,
+    month: declaration.month,
+    periodLabel: declaration.periodLabel,
+    periodStartDate: declaration.periodStartDate,
+    periodEndDate: declaration.periodEndDate,
+    employerId: declaration.employerId,
+    employerFirstName: declaration.employerFirstName,
+    employerLastName: declaration.employerLastName,
+    employerAddress: declaration.employerAddress,
+    cesuNumber: declaration.cesuNumber,
+    employee,
+    rateSet: getDeclarationRateSet(declaration),
+    cotisations,
+    generatedAt: new Date(),
+  }
+}
@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { generatePayslipPdf, getPayslipFilename } from './payslipPdfGenerator'
+import { calculateCotisations } from './cotisationsCalculator'
+import { DEFAULT_PAY_RATE_SET } from '@/lib/compliance/calculatePay'
+import type { PayslipData, EmployeeDeclarationData } from './types'
+
+// ── Mock react-pdf renderer ────────────────────────────────────────────────
+
+vi.mock('./pdfReactRenderer', () => ({
+  renderReactPdf: vi.fn(async () => 'data:application/pdf;base64,MOCK_PDF'),
+}))
+
+// ── Helpers ────────────────────────────────────────────────────────────────────
+
+function makeEmployee(overrides: Partial<EmployeeDeclarationData> = {}): EmployeeDeclarationData {
+  return {
+    employeeId: 'emp-1',
+    firstName: 'Marie',
+    lastName: 'Curie',
+    contractId: 'contract-1',
+    contractType: 'CDI',
+    contractStartDate: new Date('2025-01-06'),
+    hourlyRate: 12.5,
+    totalHours: 130,
+    normalHours: 118,
+    effectiveWorkHours: 130,
+    presenceDayHours: 0,
+    presenceNightHours: 0,
+    sundayHours: 8,
+    holidayHours: 0,
+    nightHours: 4,
+    complementaryHours: 4,
+    overtimeHours: 0,
+    basePay: 1625,
+    sundayMajoration: 30,
+    holidayMajoration: 0,
+    nightMajoration: 10,
+    overtimeMajoration: 0,
+    presenceResponsiblePay: 0,
+    nightPresenceAllowance: 0,
+    totalGrossPay: 1665,
+    netPay: 1300,
+    totalEmployeeDeductions: 365,
+    pasRate: 0.03,
+    shiftsCount: 22,
+    shiftsDetails: [],
+    ...overrides,
+  }
+}
+
+function makeData(overrides: Partial<PayslipData> = {}): PayslipData {
+  return {
+    year: 2026,
+    month: 3,
+    periodLabel: 'Mars 2026',
+    periodStartDate: new Date(2026, 2, 1),
+    periodEndDate: new Date(2026, 2, 31),
+    employerId: 'employer-1',
+    employerFirstName: 'Paul',
+    employerLastName: 'Durand',
+    employerAddress: '12 rue de la Paix, 75001 Paris',
+    employee: makeEmployee(),
+    rateSet: DEFAULT_PAY_RATE_SET,
+    cotisations: calculateCotisations(1665, { pasRate: 0.03, periodDate: new Date(2026, 2, 1) }),
+    generatedAt: new Date('2026-04-02T09:00:00'),
+    ...overrides,
+  }
+}
+
+// ── Tests ──────────────────────────────────────────────────────────────────────
+
+describe('generatePayslipPdf', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('retourne success=true et le contenu PDF du renderer', async () => {
+    const result = await generatePayslipPdf(makeData())
+    expect(result.success).toBe(true)
+    expect(result.mimeType).toBe('application/pdf')
+    expect(result.content).toBe('data:application/pdf;base64,MOCK_PDF')
+  })
+
+  it('retourne un filename au format bulletin_YYYY_MM.pdf', async () => {
+    const result = await generatePayslipPdf(makeData({ year: 2026, month: 3 }))
+    expect(result.filename).toBe('bulletin_2026_03.pdf')
+  })
+
+  it('accepte un bulletin avec exonération patronale et numéro CESU', async () => {
+    const result = await generatePayslipPdf(
+      makeData({
+        cesuNumber: 'CESU-12345',
+        cotisations: calculateCotisations(1665, { isExemptPatronalSS: true, periodDate: new Date(2026, 2, 1) }),
+      })
+    )
+    expect(result.success).toBe(true)
+  })
+
+  it('accepte un salarié avec présence responsable et heures supplémentaires', async () => {
+    const result = await generatePayslipPdf(
+      makeData({
+        employee: makeEmployee({
+          presenceDayHours: 12,
+          presenceNightHours: 10,
+          presenceResponsiblePay: 100,
+          nightPresenceAllowance: 31.25,
+          overtimeHours: 6,
+          overtimeMajoration: 18.75,
+        }),
+      })
+    )
+    expect(result.success).toBe(true)
+  })
+
+  it('retourne success=false si le renderer échoue', async () => {
+    const { renderReactPdf } = await import('./pdfReactRenderer')
+    vi.mocked(renderReactPdf).mockRejectedValueOnce(new Error('Render failed'))
+
+    const result = await generatePayslipPdf(makeData())
+    expect(result.success).toBe(false)
+    expect(result.error).toContain('Render failed')
+  })
+})
+
+describe('getPayslipFilename', () => {
+  it('padde le mois avec un zéro', () => {
+    expect(getPayslipFilename({ year: 2026, month: 1 })).toBe('bulletin_2026_01.pdf')
+  })
+})
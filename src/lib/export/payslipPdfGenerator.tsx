@@ -0,0 +1,331 @@
+/* eslint-disable react-refresh/only-export-components */
+/**
+ * Générateur PDF du bulletin de salaire
+ * Un bulletin par salarié et par mois : rémunération brute détaillée,
+ * cotisations salariales et patronales, net imposable, prélèvement à la
+ * source (PAS) et net à payer.
+ *
+ * Les données viennent de `buildPayslipData` (déclaration mensuelle +
+ * calculateur de cotisations IDCC 3239).
+ */
+import { Document, Page, View, Text, StyleSheet } from '@react-pdf/renderer'
+import type { PayslipData, CotisationLine, ExportResult } from './types'
+import { formatRatePercent } from './types'
+import { renderReactPdf } from './pdfReactRenderer'
+import {
+  colors,
+  baseStyles,
+  euro,
+  hrs,
+  pct,
+  formatDateTime,
+  PdfHeader,
+  PdfFooter,
+  PdfTable,
+  SectionTitle,
+  TotalRow,
+} from './pdfReactTheme'
+
+const s = StyleSheet.create({
+  body: {
+    padding: '20px 28px 20px',
+  },
+  parties: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 16,
+  },
+  party: {
+    flex: 1,
+    backgroundColor: colors.bgSection,
+    border: `1px solid ${colors.border}`,
+    borderRadius: 6,
+    padding: '10px 12px',
+  },
+  partyLabel: {
+    fontSize: 8,
+    fontWeight: 600,
+    color: colors.navy,
+    textTransform: 'uppercase',
+    letterSpacing: 0.8,
+    marginBottom: 6,
+  },
+  partyName: {
+    fontSize: 11,
+    fontWeight: 600,
+  },
+  partyLine: {
+    fontSize: 9,
+    color: colors.textMuted,
+    marginTop: 2,
+  },
+  exemptionNote: {
+    fontSize: 8,
+    color: colors.warningText,
+    marginTop: 4,
+  },
+  netBlock: {
+    marginTop: 18,
+    backgroundColor: colors.greenBg,
+    borderRadius: 6,
+    padding: '12px 14px',
+  },
+  netRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 3,
+  },
+  netLabel: {
+    fontSize: 10,
+    color: colors.text,
+  },
+  netAmount: {
+    fontSize: 10,
+    fontWeight: 600,
+    color: colors.text,
+  },
+  netPayRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 6,
+    paddingTop: 8,
+    borderTop: `1px solid ${colors.green}`,
+  },
+  netPayLabel: {
+    fontSize: 13,
+    fontWeight: 700,
+    color: colors.greenDark,
+  },
+  netPayAmount: {
+    fontSize: 16,
+    fontWeight: 700,
+    color: colors.greenDark,
+  },
+  employerCost: {
+    fontSize: 9,
+    color: colors.textMuted,
+    marginTop: 10,
+    textAlign: 'right',
+  },
+})
+
+const TABLE_HEADERS = ['Élément', 'Base', 'Taux', 'Montant']
+const TABLE_WIDTHS = ['46%', '20%', '14%', '20%']
+
+export async function generatePayslipPdf(data: PayslipData): Promise<ExportResult> {
+  try {
+    const content = await renderReactPdf(<PayslipDocument data={data} />)
+    return { success: true, filename: getPayslipFilename(data), content, mimeType: 'application/pdf' }
+  } catch (error) {
+    return {
+      success: false,
+      filename: '',
+      content: '',
+      mimeType: '',
+      error: error instanceof Error ? error.message : 'Erreur lors de la génération du bulletin',
+    }
+  }
+}
+
+/** Nom de fichier du bulletin : bulletin_YYYY_MM.pdf */
+export function getPayslipFilename(data: Pick<PayslipData, 'year' | 'month'>): string {
+  return `bulletin_${data.year}_${String(data.month).padStart(2, '0')}.pdf`
+}
+
+function formatShortDate(date: Date): string {
+  return date.toLocaleDateString('fr-FR', { day: '2-digit', month: '2-digit', year: 'numeric' })
+}
+
+interface GrossLine {
+  label: string
+  base: string
+  rate: string
+  amount: number
+}
+
+/** Décomposition du brut (mêmes rubriques que le récapitulatif CESU) */
+function buildGrossLines({ employee: emp, rateSet: { rates } }: PayslipData): GrossLine[] {
+  const lines: GrossLine[] = []
+
+  if (emp.basePay > 0) {
+    lines.push({
+      label: emp.complementaryHours
+        ? `Salaire de base (dont ${hrs(emp.complementaryHours)} complémentaires)`
+        : 'Salaire de base',
+      base: hrs(emp.effectiveWorkHours),
+      rate: euro(emp.hourlyRate),
+      amount: emp.basePay,
+    })
+  }
+  if (emp.presenceResponsiblePay > 0) {
+    lines.push({
+      label: 'Présence responsable jour (2/3)',
+      base: hrs(emp.presenceDayHours),
+      rate: euro(emp.hourlyRate),
+      amount: emp.presenceResponsiblePay,
+    })
+  }
+  if (emp.nightPresenceAllowance > 0) {
+    lines.push({
+      label: 'Présence responsable nuit',
+      base: hrs(emp.presenceNightHours),
+      rate: '',
+      amount: emp.nightPresenceAllowance,
+    })
+  }
+  if (emp.sundayMajoration > 0) {
+    lines.push({
+      label: 'Majoration dimanche',
+      base: hrs(emp.sundayHours),
+      rate: `+${formatRatePercent(rates.SUNDAY)} %`,
+      amount: emp.sundayMajoration,
+    })
+  }
+  if (emp.holidayMajoration > 0) {
+    lines.push({
+      label: 'Majoration jour férié',
+      base: hrs(emp.holidayHours),
+      rate: `+${formatRatePercent(rates.PUBLIC_HOLIDAY_WORKED)} %`,
+      amount: emp.holidayMajoration,
+    })
+  }
+  if (emp.nightMajoration > 0) {
+    lines.push({
+      label: 'Majoration heures de nuit',
+      base: hrs(emp.nightHours),
+      rate: `+${formatRatePercent(rates.NIGHT)} %`,
+      amount: emp.nightMajoration,
+    })
+  }
+  if (emp.overtimeMajoration > 0) {
+    lines.push({
+      label: 'Majoration heures supplémentaires',
+      base: hrs(emp.overtimeHours),
+      rate: `+${formatRatePercent(rates.OVERTIME_FIRST_8H)} / ${formatRatePercent(rates.OVERTIME_BEYOND_8H)} %`,
+      amount: emp.overtimeMajoration,
+    })
+  }
+  return lines
+}
+
+function cotisationRows(lines: CotisationLine[]) {
+  return lines.map((line) => ({
+    cells: [
+      line.label,
+      euro(line.base),
+      pct(line.rate),
+      line.exempted ? 'Exonérée' : euro(line.amount),
+    ],
+  }))
+}
+
+function PayslipDocument({ data }: { data: PayslipData }) {
+  const { employee: emp, cotisations } = data
+  const grossLines = buildGrossLines(data)
+
+  const contractLine = (() => {
+    const parts: string[] = [emp.contractType]
+    if (emp.contractStartDate) {
+      parts.push(`depuis le ${formatShortDate(emp.contractStartDate)}`)
+    }
+    parts.push(`${hrs(emp.totalHours)} sur la période`)
+    return parts.join(' · ')
+  })()
+
+  return (
+    <Document>
+      <Page size="A4" style={baseStyles.page}>
+        <PdfHeader
+          title="BULLETIN DE SALAIRE"
+          subtitle={data.periodLabel}
+          rightText={`Généré le ${formatDateTime(data.generatedAt)}`}
+          badge="IDCC 3239"
+        />
+
+        <View style={s.body}>
+          {/* Parties */}
+          <View style={s.parties} wrap={false}>
+            <View style={s.party}>
+              <Text style={s.partyLabel}>Employeur</Text>
+              <Text style={s.partyName}>{data.employerFirstName} {data.employerLastName}</Text>
+              <Text style={s.partyLine}>{data.employerAddress}</Text>
+              {data.cesuNumber && <Text style={s.partyLine}>N° CESU : {data.cesuNumber}</Text>}
+            </View>
+            <View style={s.party}>
+              <Text style={s.partyLabel}>Salarié</Text>
+              <Text style={s.partyName}>{emp.firstName} {emp.lastName}</Text>
+              <Text style={s.partyLine}>{contractLine}</Text>
+              <Text style={s.partyLine}>
+                Période : du {formatShortDate(data.periodStartDate)} au {formatShortDate(data.periodEndDate)}
+              </Text>
+            </View>
+          </View>
+
+          {/* Rémunération brute */}
+          <SectionTitle>Rémunération brute</SectionTitle>
+          <PdfTable
+            headers={TABLE_HEADERS}
+            widths={TABLE_WIDTHS}
+            rows={grossLines.map((line) => ({
+              cells: [line.label, line.base, line.rate, euro(line.amount)],
+            }))}
+          />
+          <TotalRow label="Salaire brut" amount={euro(cotisations.grossPay)} />
+
+          {/* Cotisations salariales */}
+          <SectionTitle>Cotisations salariales</SectionTitle>
+          <PdfTable
+            headers={TABLE_HEADERS}
+            widths={TABLE_WIDTHS}
+            rows={cotisationRows(cotisations.employeeCotisations)}
+          />
+          <TotalRow label="Total cotisations salariales" amount={euro(cotisations.totalEmployeeDeductions)} />
+
+          {/* Cotisations patronales */}
+          <SectionTitle>Cotisations patronales</SectionTitle>
+          <PdfTable
+            headers={TABLE_HEADERS}
+            widths={TABLE_WIDTHS}
+            rows={cotisationRows(cotisations.employerCotisations)}
+          />
+          <TotalRow label="Total cotisations patronales" amount={euro(cotisations.totalEmployerContributions)} />
+          {cotisations.isExemptPatronalSS && (
+            <Text style={s.exemptionNote}>
+              Exonération des cotisations patronales de Sécurité sociale appliquée.
+            </Text>
+          )}
+
+          {/* Net */}
+          <View style={s.netBlock} wrap={false}>
+            <View style={s.netRow}>
+              <Text style={s.netLabel}>Net imposable</Text>
+              <Text style={s.netAmount}>{euro(cotisations.netImposable)}</Text>
+            </View>
+            <View style={s.netRow}>
+              <Text style={s.netLabel}>Net à payer avant impôt sur le revenu</Text>
+              <Text style={s.netAmount}>{euro(cotisations.netAPayer + cotisations.pasAmount)}</Text>
+            </View>
+            <View style={s.netRow}>
+              <Text style={s.netLabel}>Impôt sur le revenu prélevé à la source ({pct(cotisations.pasRate)})</Text>
+              <Text style={s.netAmount}>− {euro(cotisations.pasAmount)}</Text>
+            </View>
+            <View style={s.netPayRow}>
+              <Text style={s.netPayLabel}>Net à payer</Text>
+              <Text style={s.netPayAmount}>{euro(cotisations.netAPayer)}</Text>
+            </View>
+          </View>
+
+          <Text style={s.employerCost}>
+            Coût total employeur : {euro(cotisations.grossPay + cotisations.totalEmployerContributions)}
+          </Text>
+        </View>
+
+        <PdfFooter
+          legal="Dans votre intérêt, conservez ce bulletin de paie sans limitation de durée."
+          page="Page 1/1"
+        />
+      </Page>
+    </Document>
+  )
+}
@@ -9,11 +9,12 @@ import { calculateShiftDuration } from '@/lib/compliance/utils'
 import { isPublicHoliday, isSunday } from '@/lib/compliance/types'
 import { MAJORATION_RATES } from '@/lib/compliance/calculatePay'
 import { logger } from '@/lib/logger'
-import type { ShiftDbRow, AbsenceDbRow } from '@/types/database'
+import type { ShiftDbRow, ShiftSeriesDbRow, AbsenceDbRow } from '@/types/database'
 import type {
   PlanningExportData,
   EmployeePlanningData,
   PlanningShiftEntry,
+  PlanningSeriesEntry,
   PlanningAbsenceEntry,
   PlanningExportOptions,
 } from './types'
@@ -79,7 +80,10 @@ export async function getPlanningExportData(
       getAbsencesForPeriod(contract.employee_id, startDate, endDate),
     ])
 
-    const employeeData = buildEmployeeData(contract, shifts, absences)
+    const seriesIds = [...new Set(shifts.map((s) => s.series_id).filter((id): id is string => !!id))]
+    const series = await getSeriesByIds(seriesIds)
+
+    const employeeData = buildEmployeeData(contract, shifts, absences, series)
     employees.push(employeeData)
   }
 
@@ -206,10 +210,26 @@ async function getAbsencesForPeriod(
   return (data || []) as AbsenceDbRow[]
 }
 
+async function getSeriesByIds(seriesIds: string[]): Promise<ShiftSeriesDbRow[]> {
+  if (seriesIds.length === 0) return []
+
+  const { data, error } = await supabase
+    .from('shift_series')
+    .select('id, rrule, dtstart, exdates, start_time, end_time, shift_type')
+    .in('id', seriesIds)
+
+  if (error) {
+    logger.error('Erreur récupération séries planning:', error)
+    return []
+  }
+  return (data || []) as unknown as ShiftSeriesDbRow[]
+}
+
 function buildEmployeeData(
   contract: ContractForPlanningDb,
   shifts: ShiftDbRow[],
-  absences: AbsenceDbRow[]
+  absences: AbsenceDbRow[],
+  series: ShiftSeriesDbRow[] = []
 ): EmployeePlanningData {
   const hourlyRate = contract.hourly_rate
 
@@ -238,9 +258,22 @@ function buildEmployeeData(
       isSunday: isSundayShift,
       isHoliday: isHolidayShift,
       totalPay: Math.round(totalPay * 100) / 100,
+      seriesId: s.series_id ?? undefined,
+      seriesOccurrenceDate: s.series_occurrence_date ? parseISO(s.series_occurrence_date) : undefined,
+      isSeriesException: s.is_series_exception ?? false,
     }
   })
 
+  const planningSeries: PlanningSeriesEntry[] = series.map((s) => ({
+    id: s.id,
+    rrule: s.rrule,
+    dtstart: parseISO(s.dtstart),
+    exdates: (s.exdates || []).map((d) => parseISO(d)),
+    startTime: s.start_time,
+    endTime: s.end_time,
+    shiftType: s.shift_type,
+  }))
+
   const planningAbsences: PlanningAbsenceEntry[] = absences.map((a) => ({
     id: a.id,
     startDate: parseISO(a.start_date),
@@ -264,6 +297,7 @@ function buildEmployeeData(
     weeklyHours: contract.weekly_hours || 0,
     hourlyRate,
     shifts: planningShifts,
+    series: planningSeries,
     absences: planningAbsences,
     totalShifts,
     totalHours: Math.round(totalHours * 100) / 100,
@@ -1,6 +1,12 @@
 import { describe, it, expect } from 'vitest'
 import { generatePlanningIcal } from './planningIcalGenerator'
-import type { PlanningExportData, EmployeePlanningData, PlanningShiftEntry, PlanningAbsenceEntry } from './types'
+import type {
+  PlanningExportData,
+  EmployeePlanningData,
+  PlanningShiftEntry,
+  PlanningSeriesEntry,
+  PlanningAbsenceEntry,
+} from './types'
 
 function makeShift(overrides: Partial<PlanningShiftEntry> = {}): PlanningShiftEntry {
   return {
@@ -19,6 +25,19 @@ function makeShift(overrides: Partial<PlanningShiftEntry> = {}): PlanningShiftEn
   }
 }
 
+function makeSeries(overrides: Partial<PlanningSeriesEntry> = {}): PlanningSeriesEntry {
+  return {
+    id: 'series-1',
+    rrule: 'FREQ=WEEKLY;INTERVAL=1;BYDAY=FR;UNTIL=20240426',
+    dtstart: new Date('2024-03-01'),
+    exdates: [new Date('2024-03-08')],
+    startTime: '09:00',
+    endTime: '17:00',
+    shiftType: 'effective',
+    ...overrides,
+  }
+}
+
 function makeAbsence(overrides: Partial<PlanningAbsenceEntry> = {}): PlanningAbsenceEntry {
   return {
     id: 'absence-1',
@@ -146,6 +165,51 @@ describe('generatePlanningIcal', () => {
     expect(result.filename).toMatch(/planning_.*\.ics/)
   })
 
+  it('exporte une série en RRULE / EXDATE sans aplatir ses occurrences', () => {
+    const data = makeData({
+      employees: [makeEmployee({
+        series: [makeSeries()],
+        shifts: [makeShift({ id: 'shift-occ', seriesId: 'series-1', seriesOccurrenceDate: new Date('2024-03-15') })],
+      })],
+    })
+    const result = generatePlanningIcal(data)
+
+    expect(result.content).toContain('UID:unilien-series-series-1@unilien.app')
+    expect(result.content).toContain('RRULE:FREQ=WEEKLY;INTERVAL=1;BYDAY=FR;UNTIL=20240426T235959Z')
+    expect(result.content).toContain('EXDATE;TZID=Europe/Paris:20240308T090000')
+    expect(result.content).not.toContain('unilien-shift-shift-occ@unilien.app')
+    expect(result.content.match(/BEGIN:VEVENT/g)).toHaveLength(1)
+  })
+
+  it('exporte une occurrence modifiée avec le UID de la série et un RECURRENCE-ID', () => {
+    const data = makeData({
+      employees: [makeEmployee({
+        series: [makeSeries()],
+        shifts: [makeShift({
+          id: 'shift-occ',
+          startTime: '10:00',
+          seriesId: 'series-1',
+          seriesOccurrenceDate: new Date('2024-03-15'),
+          isSeriesException: true,
+        })],
+      })],
+    })
+    const result = generatePlanningIcal(data)
+
+    expect(result.content.match(/UID:unilien-series-series-1@unilien.app/g)).toHaveLength(2)
+    expect(result.content).toContain('RECURRENCE-ID;TZID=Europe/Paris:20240315T090000')
+    expect(result.content).toContain('DTSTART;TZID=Europe/Paris:20240315T100000')
+  })
+
+  it('termine le lendemain une intervention de nuit', () => {
+    const data = makeData({
+      employees: [makeEmployee({ shifts: [makeShift({ startTime: '21:00', endTime: '07:00' })] })],
+    })
+    const result = generatePlanningIcal(data)
+
+    expect(result.content).toContain('DTEND;TZID=Europe/Paris:20240316T070000')
+  })
+
   it('gère les données sans shift ni absence', () => {
     const data = makeData({
       employees: [makeEmployee({ shifts: [], absences: [] })],
@@ -1,10 +1,14 @@
 /**
  * Générateur iCal (RFC 5545) pour le planning mensuel
  * Aucune dépendance externe — format hand-crafted
+ *
+ * Les interventions récurrentes sont exportées une seule fois par série
+ * (RRULE + EXDATE) ; seules les occurrences modifiées ou annulées sont
+ * ajoutées, avec le même UID et un RECURRENCE-ID.
  */
 
 import { format, addDays } from 'date-fns'
-import type { PlanningExportData, PlanningShiftEntry, PlanningAbsenceEntry } from './types'
+import type { PlanningExportData, PlanningShiftEntry, PlanningSeriesEntry, PlanningAbsenceEntry } from './types'
 import type { ExportResult } from './types'
 import { ABSENCE_TYPE_LABELS } from '@/lib/constants/statusMaps'
 
@@ -47,22 +51,38 @@ function formatDateOnly(date: Date): string {
   return format(date, 'yyyyMMdd')
 }
 
-/** Génère un VEVENT pour un shift */
+/** Date de fin d'un créneau (lendemain si l'heure de fin précède le début) */
+function endDateOf(date: Date, startTime: string, endTime: string): Date {
+  return endTime <= startTime ? addDays(date, 1) : date
+}
+
+function seriesUid(seriesId: string): string {
+  return `unilien-series-${seriesId}@unilien.app`
+}
+
+/**
+ * Génère un VEVENT pour un shift.
+ * Une occurrence de série devient une exception de la série (RECURRENCE-ID).
+ */
 function shiftToVEvent(
   shift: PlanningShiftEntry,
   employeeName: string,
-  now: string
+  now: string,
+  series?: PlanningSeriesEntry
 ): string {
   const summary = `${SHIFT_TYPE_LABELS[shift.shiftType] ?? 'Intervention'} – ${employeeName}`
   const dtStart = formatDtLocal(shift.date, shift.startTime)
-  const dtEnd = formatDtLocal(shift.date, shift.endTime)
+  const dtEnd = formatDtLocal(endDateOf(shift.date, shift.startTime, shift.endTime), shift.endTime)
   const status = shift.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED'
-  const uid = `unilien-shift-${shift.id}@unilien.app`
+  const uid = series ? seriesUid(series.id) : `unilien-shift-${shift.id}@unilien.app`
 
   const lines = [
     'BEGIN:VEVENT',
     foldLine(`UID:${uid}`),
     `DTSTAMP:${now}`,
+    ...(series
+      ? [foldLine(`RECURRENCE-ID;TZID=Europe/Paris:${formatDtLocal(shift.seriesOccurrenceDate ?? shift.date, series.startTime)}`)]
+      : []),
     foldLine(`DTSTART;TZID=Europe/Paris:${dtStart}`),
     foldLine(`DTEND;TZID=Europe/Paris:${dtEnd}`),
     foldLine(`SUMMARY:${summary}`),
@@ -72,6 +92,37 @@ function shiftToVEvent(
   return lines.join('\r\n')
 }
 
+/**
+ * Génère le VEVENT maître d'une série (RRULE + EXDATE).
+ * UNTIL est converti en date-heure UTC, DTSTART étant une date-heure (RFC 5545 §3.3.10).
+ */
+function seriesToVEvent(
+  series: PlanningSeriesEntry,
+  employeeName: string,
+  now: string
+): string {
+  const summary = `${SHIFT_TYPE_LABELS[series.shiftType] ?? 'Intervention'} – ${employeeName}`
+  const dtStart = formatDtLocal(series.dtstart, series.startTime)
+  const dtEnd = formatDtLocal(endDateOf(series.dtstart, series.startTime, series.endTime), series.endTime)
+  const rrule = series.rrule.replace(/UNTIL=(\d{8})(?!T)/, 'UNTIL=$1T235959Z')
+
+  const lines = [
+    'BEGIN:VEVENT',
+    foldLine(`UID:${seriesUid(series.id)}`),
+    `DTSTAMP:${now}`,
+    foldLine(`DTSTART;TZID=Europe/Paris:${dtStart}`),
+    foldLine(`DTEND;TZID=Europe/Paris:${dtEnd}`),
+    foldLine(`RRULE:${rrule}`),
+    ...(series.exdates.length > 0
+      ? [foldLine(`EXDATE;TZID=Europe/Paris:${series.exdates.map((d) => formatDtLocal(d, series.startTime)).join(',')}`)]
+      : []),
+    foldLine(`SUMMARY:${summary}`),
+    'STATUS:CONFIRMED',
+    'END:VEVENT',
+  ]
+  return lines.join('\r\n')
+}
+
 /** Génère un VEVENT all-day pour une absence approuvée */
 function absenceToVEvent(
   absence: PlanningAbsenceEntry,
@@ -107,8 +158,16 @@ export function generatePlanningIcal(data: PlanningExportData): ExportResult {
     for (const employee of data.employees) {
       const name = `${employee.firstName} ${employee.lastName}`.trim()
 
+      const seriesById = new Map((employee.series ?? []).map((s) => [s.id, s]))
+      for (const series of seriesById.values()) {
+        events.push(seriesToVEvent(series, name, now))
+      }
+
       for (const shift of employee.shifts) {
-        events.push(shiftToVEvent(shift, name, now))
+        const series = shift.seriesId ? seriesById.get(shift.seriesId) : undefined
+        // Occurrence conforme à la série : déjà couverte par la RRULE
+        if (series && !shift.isSeriesException && shift.status !== 'cancelled') continue
+        events.push(shiftToVEvent(shift, name, now, series))
       }
 
       for (const absence of employee.absences.filter((a) => a.status === 'approved')) {
@@ -0,0 +1,171 @@
+/**
+ * Blocs communs aux PDF scellés après signature électronique (contrat,
+ * avenant, relevé d'heures) : cadres de signature et certificat de signature.
+ */
+import { Page, View, Text, Image, StyleSheet } from '@react-pdf/renderer'
+import { SIGNATURE_CONSENT_TEXT, SIGNER_ROLE_LABELS } from '@/lib/contract/signature'
+import type { SignatureMethod, SignerRole } from '@/types'
+import { colors, baseStyles, formatDateTime, PdfHeader, PdfFooter, SectionTitle } from './pdfReactTheme'
+
+export interface SealedSignature {
+  signerRole: SignerRole
+  signerName: string
+  method: SignatureMethod
+  signatureData: string
+  signedAt: Date
+}
+
+/** Signatures apposées sur le PDF scellé */
+export interface SignatureSeal {
+  documentHash: string
+  signatures: SealedSignature[]
+}
+
+const s = StyleSheet.create({
+  body: {
+    padding: '20px 28px 20px',
+  },
+  signatures: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 20,
+  },
+  signatureBox: {
+    flex: 1,
+    minHeight: 90,
+    border: `1px solid ${colors.borderDark}`,
+    borderRadius: 6,
+    padding: '8px 10px',
+  },
+  signatureLabel: {
+    fontSize: 9,
+    color: colors.textMuted,
+    marginBottom: 4,
+  },
+  signatureImage: {
+    height: 44,
+    objectFit: 'contain',
+  },
+  signatureTyped: {
+    fontSize: 16,
+    fontStyle: 'italic',
+    marginVertical: 10,
+  },
+  signatureMeta: {
+    fontSize: 8,
+    color: colors.textMuted,
+    marginTop: 4,
+  },
+  certificateRow: {
+    flexDirection: 'row',
+    fontSize: 9,
+    paddingVertical: 4,
+    borderBottom: `1px solid ${colors.border}`,
+  },
+  certificateLabel: {
+    width: '35%',
+    color: colors.textMuted,
+  },
+  certificateValue: {
+    width: '65%',
+  },
+  hash: {
+    fontFamily: 'Courier',
+    fontSize: 8,
+  },
+  legal: {
+    fontSize: 8.5,
+    color: colors.textMuted,
+    lineHeight: 1.4,
+    marginTop: 12,
+  },
+})
+
+const METHOD_LABELS: Record<SignatureMethod, string> = {
+  drawn: 'Signature tracée à l\'écran',
+  typed: 'Nom saisi au clavier',
+}
+
+function SignatureBox({ signerRole, signature }: { signerRole: SignerRole; signature?: SealedSignature }) {
+  return (
+    <View style={s.signatureBox}>
+      <Text style={s.signatureLabel}>{SIGNER_ROLE_LABELS[signerRole]} — signature</Text>
+      {signature && (
+        <>
+          {signature.method === 'drawn' ? (
+            <Image style={s.signatureImage} src={signature.signatureData} />
+          ) : (
+            <Text style={s.signatureTyped}>{signature.signatureData}</Text>
+          )}
+          <Text style={s.signatureMeta}>
+            {signature.signerName} — signé électroniquement le {formatDateTime(signature.signedAt)}
+          </Text>
+        </>
+      )}
+    </View>
+  )
+}
+
+/** Cadres de signature des deux parties, vides tant que le document n'est pas scellé */
+export function SignatureBlocks({ seal }: { seal?: SignatureSeal }) {
+  const find = (role: SignerRole) => seal?.signatures.find((sig) => sig.signerRole === role)
+  return (
+    <View style={s.signatures} wrap={false}>
+      <SignatureBox signerRole="employer" signature={find('employer')} />
+      <SignatureBox signerRole="employee" signature={find('employee')} />
+    </View>
+  )
+}
+
+/** Dernière page du PDF scellé : empreinte du document et trace de chaque signature */
+export function SignatureCertificatePage({ documentTitle, generatedAt, seal }: {
+  documentTitle: string
+  generatedAt: Date
+  seal: SignatureSeal
+}) {
+  return (
+    <Page size="A4" style={baseStyles.page}>
+      <PdfHeader
+        title="CERTIFICAT DE SIGNATURE"
+        subtitle={documentTitle}
+        rightText="Signature électronique simple"
+      />
+      <View style={s.body}>
+        <SectionTitle>Document signé</SectionTitle>
+        <View style={s.certificateRow}>
+          <Text style={s.certificateLabel}>Empreinte SHA-256 du document</Text>
+          <Text style={[s.certificateValue, s.hash]}>{seal.documentHash}</Text>
+        </View>
+        <View style={s.certificateRow}>
+          <Text style={s.certificateLabel}>Document généré le</Text>
+          <Text style={s.certificateValue}>{formatDateTime(generatedAt)}</Text>
+        </View>
+
+        {seal.signatures.map((signature) => (
+          <View key={signature.signerRole}>
+            <SectionTitle>{SIGNER_ROLE_LABELS[signature.signerRole]}</SectionTitle>
+            <View style={s.certificateRow}>
+              <Text style={s.certificateLabel}>Signataire</Text>
+              <Text style={s.certificateValue}>{signature.signerName}</Text>
+            </View>
+            <View style={s.certificateRow}>
+              <Text style={s.certificateLabel}>Mode de signature</Text>
+              <Text style={s.certificateValue}>{METHOD_LABELS[signature.method]}</Text>
+            </View>
+            <View style={s.certificateRow}>
+              <Text style={s.certificateLabel}>Horodatage (serveur)</Text>
+              <Text style={s.certificateValue}>{signature.signedAt.toISOString()}</Text>
+            </View>
+          </View>
+        ))}
+
+        <Text style={s.legal}>
+          Chaque signataire a consenti à la mention suivante : « {SIGNATURE_CONSENT_TEXT} » Avant
+          d'être acceptée, chaque signature a été vérifiée contre l'empreinte du document
+          ci-dessus : toute modification du document la rendrait invalide.
+        </Text>
+      </View>
+      <PdfFooter legal="Certificat de signature électronique — Art. 1366 et 1367 du Code civil" page="2/2" />
+    </Page>
+  )
+}
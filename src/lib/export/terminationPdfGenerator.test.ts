@@ -0,0 +1,65 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import {
+  generateFinalPayStatementPdf,
+  generateFranceTravailCertificatePdf,
+  generateWorkCertificatePdf,
+  getTerminationDocumentFilename,
+  type TerminationDocumentsData,
+} from './terminationPdfGenerator'
+import { renderReactPdf } from './pdfReactRenderer'
+
+// ── Mocks ──────────────────────────────────────────────────────────────────────
+
+vi.mock('./pdfReactRenderer', () => ({
+  renderReactPdf: vi.fn(async () => 'data:application/pdf;base64,MOCK_PDF'),
+}))
+
+const data: TerminationDocumentsData = {
+  employerName: 'Paul Durand',
+  employeeName: 'Hélène Martin',
+  contractType: 'CDI',
+  contractStartDate: new Date(2023, 0, 1),
+  weeklyHours: 20,
+  reason: 'dismissal',
+  notificationDate: new Date(2026, 2, 2),
+  endDate: new Date(2026, 4, 2),
+  notice: { value: 2, unit: 'month' },
+  noticeWaived: false,
+  lines: [{ label: 'Indemnité de licenciement', amount: 1000 }],
+  total: 1000,
+  salaryHistory: [{ year: 2026, month: 2, grossPay: 1200, hours: 86.67 }],
+  generatedAt: new Date(2026, 4, 2),
+}
+
+// ── Tests ──────────────────────────────────────────────────────────────────────
+
+describe('terminationPdfGenerator', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('nomme chaque document d\'après son type et l\'auxiliaire', async () => {
+    expect(await generateFinalPayStatementPdf(data)).toMatchObject({
+      success: true,
+      filename: 'solde_de_tout_compte_helene_martin.pdf',
+      mimeType: 'application/pdf',
+    })
+    expect((await generateWorkCertificatePdf(data)).filename).toBe('certificat_de_travail_helene_martin.pdf')
+    expect((await generateFranceTravailCertificatePdf(data)).filename).toBe('attestation_france_travail_helene_martin.pdf')
+    expect(renderReactPdf).toHaveBeenCalledTimes(3)
+  })
+
+  it('remonte l\'erreur de rendu', async () => {
+    vi.mocked(renderReactPdf).mockRejectedValueOnce(new Error('boom'))
+
+    const result = await generateWorkCertificatePdf(data)
+
+    expect(result).toMatchObject({ success: false, error: 'boom' })
+  })
+
+  it('construit un nom de fichier sans accent', () => {
+    expect(getTerminationDocumentFilename('work_certificate', 'Zoé  Lefèvre-Noël')).toBe(
+      'certificat_de_travail_zoe_lefevre_noel.pdf'
+    )
+  })
+})
@@ -0,0 +1,400 @@
+/* eslint-disable react-refresh/only-export-components */
+/**
+ * Générateurs PDF des documents de fin de contrat
+ * - Reçu pour solde de tout compte (Art. L1234-20)
+ * - Certificat de travail (Art. L1234-19, D1234-6)
+ * - Attestation employeur destinée à France Travail (Art. R1234-9) :
+ *   récapitulatif des informations à reporter lors de la déclaration
+ */
+import React from 'react'
+import { Document, Page, View, Text, StyleSheet } from '@react-pdf/renderer'
+import { TERMINATION_REASON_LABELS, formatNoticePeriod, type TerminationLine, type NoticePeriod } from '@/lib/contract/termination'
+import type { EmployeeDocumentType, TerminationReason } from '@/types'
+import type { ExportResult } from './types'
+import { getMonthLabel } from './types'
+import { renderReactPdf } from './pdfReactRenderer'
+import {
+  colors,
+  baseStyles,
+  euro,
+  formatDateTime,
+  PdfHeader,
+  PdfFooter,
+  PdfTable,
+  SectionTitle,
+  TotalRow,
+} from './pdfReactTheme'
+
+export interface TerminationDocumentsData {
+  employerName: string
+  employerAddress?: string
+  cesuNumber?: string
+  employeeName: string
+  employeeAddress?: string
+  socialSecurityNumber?: string
+  contractType: 'CDI' | 'CDD'
+  contractStartDate: Date
+  weeklyHours: number
+  reason: TerminationReason
+  notificationDate: Date
+  endDate: Date
+  notice: NoticePeriod | null
+  noticeWaived: boolean
+  /** Sommes versées à la rupture */
+  lines: TerminationLine[]
+  total: number
+  /** Salaires bruts des 12 derniers mois (attestation France Travail) */
+  salaryHistory: { year: number; month: number; grossPay: number; hours: number | null }[]
+  generatedAt: Date
+}
+
+export const TERMINATION_DOCUMENT_TITLES: Record<EmployeeDocumentType, string> = {
+  final_pay_statement: 'Reçu pour solde de tout compte',
+  work_certificate: 'Certificat de travail',
+  france_travail_certificate: 'Attestation employeur France Travail',
+}
+
+const FILENAME_PREFIXES: Record<EmployeeDocumentType, string> = {
+  final_pay_statement: 'solde_de_tout_compte',
+  work_certificate: 'certificat_de_travail',
+  france_travail_certificate: 'attestation_france_travail',
+}
+
+const JOB_TITLE = 'Assistant(e) de vie — emploi à domicile (IDCC 3239)'
+
+const s = StyleSheet.create({
+  body: {
+    padding: '20px 28px 20px',
+  },
+  parties: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 16,
+  },
+  party: {
+    flex: 1,
+    backgroundColor: colors.bgSection,
+    border: `1px solid ${colors.border}`,
+    borderRadius: 6,
+    padding: '10px 12px',
+  },
+  partyLabel: {
+    fontSize: 8,
+    fontWeight: 600,
+    color: colors.navy,
+    textTransform: 'uppercase',
+    letterSpacing: 0.8,
+    marginBottom: 6,
+  },
+  partyName: {
+    fontSize: 11,
+    fontWeight: 600,
+  },
+  partyDetail: {
+    fontSize: 9,
+    color: colors.textMuted,
+    marginTop: 2,
+  },
+  paragraph: {
+    fontSize: 10,
+    lineHeight: 1.5,
+    marginBottom: 10,
+  },
+  facts: {
+    marginBottom: 14,
+  },
+  fact: {
+    flexDirection: 'row',
+    fontSize: 10,
+    paddingVertical: 3,
+    borderBottom: `1px solid ${colors.border}`,
+  },
+  factLabel: {
+    width: '45%',
+    color: colors.textMuted,
+  },
+  factValue: {
+    width: '55%',
+    fontWeight: 600,
+  },
+  legal: {
+    fontSize: 8.5,
+    color: colors.textMuted,
+    lineHeight: 1.4,
+    marginTop: 12,
+  },
+  signatures: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 24,
+  },
+  signatureBox: {
+    flex: 1,
+    height: 80,
+    border: `1px solid ${colors.borderDark}`,
+    borderRadius: 6,
+    padding: '8px 10px',
+    fontSize: 9,
+    color: colors.textMuted,
+  },
+})
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString('fr-FR', { day: 'numeric', month: 'long', year: 'numeric' })
+}
+
+export function getTerminationDocumentFilename(type: EmployeeDocumentType, employeeName: string): string {
+  const slug = employeeName
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_|_$/g, '')
+  return `${FILENAME_PREFIXES[type]}_${slug}.pdf`
+}
+
+async function renderDocument(
+  type: EmployeeDocumentType,
+  data: TerminationDocumentsData,
+  element: React.ReactElement
+): Promise<ExportResult> {
+  try {
+    const content = await renderReactPdf(element)
+    return {
+      success: true,
+      filename: getTerminationDocumentFilename(type, data.employeeName),
+      content,
+      mimeType: 'application/pdf',
+    }
+  } catch (error) {
+    return {
+      success: false,
+      filename: '',
+      content: '',
+      mimeType: '',
+      error: error instanceof Error ? error.message : 'Erreur lors de la génération du document',
+    }
+  }
+}
+
+export function generateFinalPayStatementPdf(data: TerminationDocumentsData): Promise<ExportResult> {
+  return renderDocument('final_pay_statement', data, <FinalPayStatementDocument data={data} />)
+}
+
+export function generateWorkCertificatePdf(data: TerminationDocumentsData): Promise<ExportResult> {
+  return renderDocument('work_certificate', data, <WorkCertificateDocument data={data} />)
+}
+
+export function generateFranceTravailCertificatePdf(data: TerminationDocumentsData): Promise<ExportResult> {
+  return renderDocument('france_travail_certificate', data, <FranceTravailCertificateDocument data={data} />)
+}
+
+// ─── Blocs communs ──────────────────────────────────────────────────────────
+
+function Parties({ data }: { data: TerminationDocumentsData }) {
+  return (
+    <View style={s.parties}>
+      <View style={s.party}>
+        <Text style={s.partyLabel}>Employeur</Text>
+        <Text style={s.partyName}>{data.employerName}</Text>
+        {data.employerAddress && <Text style={s.partyDetail}>{data.employerAddress}</Text>}
+        {data.cesuNumber && <Text style={s.partyDetail}>N° CESU : {data.cesuNumber}</Text>}
+      </View>
+      <View style={s.party}>
+        <Text style={s.partyLabel}>Salarié(e)</Text>
+        <Text style={s.partyName}>{data.employeeName}</Text>
+        {data.employeeAddress && <Text style={s.partyDetail}>{data.employeeAddress}</Text>}
+        {data.socialSecurityNumber && (
+          <Text style={s.partyDetail}>N° de sécurité sociale : {data.socialSecurityNumber}</Text>
+        )}
+      </View>
+    </View>
+  )
+}
+
+function Fact({ label, value }: { label: string; value: string }) {
+  return (
+    <View style={s.fact}>
+      <Text style={s.factLabel}>{label}</Text>
+      <Text style={s.factValue}>{value}</Text>
+    </View>
+  )
+}
+
+function Signatures({ left, right }: { left: string; right: string }) {
+  return (
+    <View style={s.signatures}>
+      <Text style={s.signatureBox}>{left}</Text>
+      <Text style={s.signatureBox}>{right}</Text>
+    </View>
+  )
+}
+
+function noticeLabel(data: TerminationDocumentsData): string {
+  if (!data.notice) return 'Aucun'
+  const duration = formatNoticePeriod(data.notice)
+  if (data.reason === 'employer_death') return `${duration} (non effectué, indemnisé)`
+  return data.noticeWaived ? `${duration} (dispense)` : `${duration} (effectué)`
+}
+
+// ─── Documents ──────────────────────────────────────────────────────────────
+
+function FinalPayStatementDocument({ data }: { data: TerminationDocumentsData }) {
+  return (
+    <Document>
+      <Page size="A4" style={baseStyles.page}>
+        <PdfHeader
+          title="SOLDE DE TOUT COMPTE"
+          subtitle={`Fin de contrat au ${formatDate(data.endDate)}`}
+          rightText={`Généré le ${formatDateTime(data.generatedAt)}`}
+        />
+
+        <View style={s.body}>
+          <Parties data={data} />
+
+          <Text style={s.paragraph}>
+            Je soussigné(e) {data.employeeName} reconnais avoir reçu de {data.employerName}, pour
+            solde de tout compte, la somme brute de {euro(data.total)} en paiement des salaires,
+            accessoires du salaire et indemnités dus au titre de l'exécution et de la cessation de
+            mon contrat de travail, détaillée ci-dessous.
+          </Text>
+
+          <SectionTitle>Sommes versées</SectionTitle>
+          <PdfTable
+            headers={['Nature', 'Montant brut']}
+            widths={['70%', '30%']}
+            rows={data.lines.map((line) => ({ cells: [line.label, euro(line.amount)] }))}
+          />
+          <TotalRow label="Total brut" amount={euro(data.total)} />
+
+          <Text style={s.legal}>
+            Le présent reçu est établi en double exemplaire, dont un est remis au salarié. Il peut
+            être dénoncé dans les six mois qui suivent sa signature, délai au-delà duquel il devient
+            libératoire pour l'employeur pour les sommes qui y sont mentionnées (Art. L1234-20 du
+            Code du travail). Les cotisations sociales sont déclarées via le CESU.
+          </Text>
+
+          <Signatures
+            left="L'employeur — date et signature"
+            right="Le salarié — « Pour solde de tout compte », date et signature"
+          />
+        </View>
+
+        <PdfFooter legal="Reçu pour solde de tout compte — Art. L1234-20 du Code du travail" page="1/1" />
+      </Page>
+    </Document>
+  )
+}
+
+function WorkCertificateDocument({ data }: { data: TerminationDocumentsData }) {
+  return (
+    <Document>
+      <Page size="A4" style={baseStyles.page}>
+        <PdfHeader
+          title="CERTIFICAT DE TRAVAIL"
+          subtitle={data.employeeName}
+          rightText={`Généré le ${formatDateTime(data.generatedAt)}`}
+        />
+
+        <View style={s.body}>
+          <Parties data={data} />
+
+          <Text style={s.paragraph}>
+            Je soussigné(e) {data.employerName}, particulier employeur, certifie avoir employé
+            {' '}{data.employeeName} du {formatDate(data.contractStartDate)} au {formatDate(data.endDate)}
+            {' '}en qualité de {JOB_TITLE}.
+          </Text>
+
+          <View style={s.facts}>
+            <Fact label="Date d'entrée" value={formatDate(data.contractStartDate)} />
+            <Fact label="Date de sortie" value={formatDate(data.endDate)} />
+            <Fact label="Emploi occupé" value={JOB_TITLE} />
+            <Fact label="Contrat" value={`${data.contractType} — ${data.weeklyHours} h par semaine`} />
+          </View>
+
+          <Text style={s.paragraph}>
+            {data.employeeName} quitte son emploi libre de tout engagement.
+          </Text>
+
+          <Text style={s.legal}>
+            Le salarié bénéficie du maintien à titre gratuit des garanties de prévoyance (IRCEM
+            Prévoyance) pendant sa période de chômage indemnisé, dans la limite de la durée de son
+            dernier contrat et de 12 mois (portabilité, Art. L911-8 du Code de la sécurité sociale).
+          </Text>
+
+          <Signatures
+            left={`Fait le ${formatDate(data.generatedAt)}, pour servir et valoir ce que de droit`}
+            right="L'employeur — signature"
+          />
+        </View>
+
+        <PdfFooter legal="Certificat de travail — Art. L1234-19 et D1234-6 du Code du travail" page="1/1" />
+      </Page>
+    </Document>
+  )
+}
+
+function FranceTravailCertificateDocument({ data }: { data: TerminationDocumentsData }) {
+  return (
+    <Document>
+      <Page size="A4" style={baseStyles.page}>
+        <PdfHeader
+          title="ATTESTATION EMPLOYEUR"
+          subtitle="Destinée à France Travail"
+          rightText={`Généré le ${formatDateTime(data.generatedAt)}`}
+        />
+
+        <View style={s.body}>
+          <Parties data={data} />
+
+          <SectionTitle>Emploi et rupture</SectionTitle>
+          <View style={s.facts}>
+            <Fact label="Emploi occupé" value={JOB_TITLE} />
+            <Fact label="Nature du contrat" value={data.contractType} />
+            <Fact label="Durée hebdomadaire" value={`${data.weeklyHours} h`} />
+            <Fact label="Date d'entrée" value={formatDate(data.contractStartDate)} />
+            <Fact label="Dernier jour travaillé et payé" value={formatDate(data.endDate)} />
+            <Fact label="Motif de la rupture" value={TERMINATION_REASON_LABELS[data.reason]} />
+            <Fact label="Date de notification" value={formatDate(data.notificationDate)} />
+            <Fact label="Préavis" value={noticeLabel(data)} />
+          </View>
+
+          <SectionTitle>Salaires des 12 derniers mois</SectionTitle>
+          {data.salaryHistory.length > 0 ? (
+            <PdfTable
+              headers={['Période', 'Heures', 'Salaire brut']}
+              widths={['50%', '20%', '30%']}
+              rows={data.salaryHistory.map((m) => ({
+                cells: [
+                  getMonthLabel(m.year, m.month),
+                  m.hours !== null ? String(m.hours) : '—',
+                  euro(m.grossPay),
+                ],
+              }))}
+            />
+          ) : (
+            <Text style={s.paragraph}>Aucun bulletin enregistré dans Unilien sur la période.</Text>
+          )}
+
+          <SectionTitle>Sommes versées à l'occasion de la rupture</SectionTitle>
+          <PdfTable
+            headers={['Nature', 'Montant brut']}
+            widths={['70%', '30%']}
+            rows={data.lines.map((line) => ({ cells: [line.label, euro(line.amount)] }))}
+          />
+          <TotalRow label="Total brut" amount={euro(data.total)} />
+
+          <Text style={s.legal}>
+            Le particulier employeur remet l'attestation employeur au salarié à l'expiration du
+            contrat (Art. R1234-9 du Code du travail). Ce récapitulatif reprend les informations à
+            reporter sur l'attestation établie auprès de France Travail.
+          </Text>
+
+          <Signatures left={`Fait le ${formatDate(data.generatedAt)}`} right="L'employeur — signature" />
+        </View>
+
+        <PdfFooter legal="Attestation employeur — Art. R1234-9 du Code du travail" page="1/1" />
+      </Page>
+    </Document>
+  )
+}
@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import {
+  generateTimesheetPdf,
+  getTimesheetFilename,
+  buildTimesheetRows,
+  parseTimesheetPdfData,
+  type TimesheetPdfData,
+} from './timesheetPdfGenerator'
+import type { Shift } from '@/types'
+
+// ── Mocks ──────────────────────────────────────────────────────────────────────
+
+vi.mock('./pdfReactRenderer', () => ({
+  renderReactPdf: vi.fn(async () => 'data:application/pdf;base64,MOCK_PDF'),
+}))
+
+// ── Helpers ────────────────────────────────────────────────────────────────────
+
+function makeShift(overrides: Partial<Shift> = {}): Shift {
+  return {
+    id: 'shift-1',
+    contractId: 'contract-1',
+    date: new Date(2026, 1, 10),
+    startTime: '09:00',
+    endTime: '12:00',
+    breakDuration: 0,
+    tasks: [],
+    shiftType: 'effective',
+    isRequalified: false,
+    status: 'completed',
+    computedPay: {
+      basePay: 0, sundayMajoration: 0, holidayMajoration: 0,
+      nightMajoration: 0, overtimeMajoration: 0, presenceResponsiblePay: 0,
+      nightPresenceAllowance: 0, totalPay: 0,
+    },
+    validatedByEmployer: true,
+    validatedByEmployee: true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  }
+}
+
+function makeData(overrides: Partial<TimesheetPdfData> = {}): TimesheetPdfData {
+  return {
+    timesheet: {
+      id: 'ts-1',
+      contractId: 'contract-1',
+      year: 2026,
+      month: 2,
+      status: 'locked',
+      contentHash: 'f'.repeat(64),
+      submittedBy: 'employee-1',
+      submittedAt: new Date('2026-03-02T10:00:00'),
+      employerSignedBy: 'employer-1',
+      employerSignedAt: new Date('2026-03-03T09:00:00'),
+      createdAt: new Date('2026-03-02T10:00:00'),
+      updatedAt: new Date('2026-03-03T09:00:00'),
+    },
+    employeeName: 'Hélène Martin',
+    employerName: 'Paul Durand',
+    shifts: [makeShift()],
+    corrections: [],
+    generatedAt: new Date('2026-03-10T09:00:00'),
+    ...overrides,
+  }
+}
+
+// ── Tests ──────────────────────────────────────────────────────────────────────
+
+describe('generateTimesheetPdf', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('génère le PDF du relevé', async () => {
+    const result = await generateTimesheetPdf(makeData())
+
+    expect(result.success).toBe(true)
+    expect(result.content).toBe('data:application/pdf;base64,MOCK_PDF')
+    expect(result.filename).toBe('releve_heures_helene_martin_2026_02.pdf')
+  })
+
+  it('retourne success=false si le rendu échoue', async () => {
+    const { renderReactPdf } = await import('./pdfReactRenderer')
+    vi.mocked(renderReactPdf).mockRejectedValueOnce(new Error('Render failed'))
+
+    const result = await generateTimesheetPdf(makeData())
+    expect(result.success).toBe(false)
+    expect(result.error).toContain('Render failed')
+  })
+
+  it('nomme le relevé scellé après signature électronique', async () => {
+    const result = await generateTimesheetPdf(makeData(), {
+      documentHash: 'a'.repeat(64),
+      signatures: [
+        { signerRole: 'employer', signerName: 'Paul Durand', method: 'typed', signatureData: 'Paul Durand', signedAt: new Date('2026-03-11T09:00:00Z') },
+        { signerRole: 'employee', signerName: 'Hélène Martin', method: 'typed', signatureData: 'Hélène Martin', signedAt: new Date('2026-03-12T09:00:00Z') },
+      ],
+    })
+
+    expect(result.success).toBe(true)
+    expect(result.filename).toBe('releve_heures_helene_martin_2026_02_signe.pdf')
+  })
+})
+
+describe('parseTimesheetPdfData', () => {
+  it('restitue les dates de l\'instantané conservé en JSON', () => {
+    const data = makeData()
+
+    const parsed = parseTimesheetPdfData(JSON.parse(JSON.stringify(data)))
+
+    expect(parsed).toEqual(data)
+    expect(parsed.shifts[0].date).toBeInstanceOf(Date)
+  })
+})
+
+describe('buildTimesheetRows', () => {
+  it('paie les heures réelles acceptées et le planning sinon', () => {
+    const rows = buildTimesheetRows([
+      makeShift({
+        id: 'late',
+        date: new Date(2026, 1, 12),
+        clockedInAt: new Date(2026, 1, 12, 9, 0),
+        clockedOutAt: new Date(2026, 1, 12, 13, 0),
+        actualReview: 'accepted',
+      }),
+      makeShift({
+        id: 'rejected',
+        date: new Date(2026, 1, 11),
+        clockedInAt: new Date(2026, 1, 11, 9, 0),
+        clockedOutAt: new Date(2026, 1, 11, 14, 0),
+        actualReview: 'rejected',
+      }),
+    ])
+
+    // Triées par date
+    expect(rows.map((r) => r.minutes)).toEqual([180, 240])
+    expect(rows[1].cells[2]).toBe('09:00–13:00')
+    expect(rows[1].cells[4]).toBe('4h')
+  })
+})
+
+describe('getTimesheetFilename', () => {
+  it('retire accents et caractères spéciaux du nom', () => {
+    expect(getTimesheetFilename({ timesheet: { year: 2026, month: 11 }, employeeName: "Léa D'Arc" }))
+      .toBe('releve_heures_lea_d_arc_2026_11.pdf')
+  })
+})
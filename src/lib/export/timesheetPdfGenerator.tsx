@@ -0,0 +1,247 @@
+/* eslint-disable react-refresh/only-export-components */
+/**
+ * Générateur PDF du relevé d'heures mensuel contresigné
+ * Une ligne par intervention réalisée (horaires prévus, pointés et payés),
+ * les corrections apportées après verrouillage, puis le bloc des deux
+ * signatures avec l'empreinte des interventions au moment de la soumission.
+ *
+ * Un relevé contresigné peut ensuite être signé électroniquement : les données
+ * sont alors conservées en instantané avec la demande de signature, et le PDF
+ * scellé est rendu à partir de cet instantané, avec un certificat de signature.
+ */
+import { Document, Page, View, Text, StyleSheet } from '@react-pdf/renderer'
+import { getShiftDurationMinutes } from '@/lib/compliance'
+import { reconcileShift, getPayableTimes } from '@/lib/shifts/reconciliation'
+import type { Shift, Timesheet, TimesheetCorrection } from '@/types'
+import type { ExportResult } from './types'
+import { getMonthLabel } from './types'
+import { renderReactPdf } from './pdfReactRenderer'
+import { SignatureBlocks, SignatureCertificatePage, type SignatureSeal } from './signaturePdfBlocks'
+import {
+  colors,
+  baseStyles,
+  hrs,
+  formatDateTime,
+  PdfHeader,
+  PdfFooter,
+  PdfTable,
+  SectionTitle,
+  TotalRow,
+} from './pdfReactTheme'
+
+export interface TimesheetPdfData {
+  timesheet: Timesheet
+  employeeName: string
+  employerName: string
+  /** Interventions réalisées du mois */
+  shifts: Shift[]
+  corrections: TimesheetCorrection[]
+  generatedAt: Date
+}
+
+const s = StyleSheet.create({
+  body: {
+    padding: '20px 28px 20px',
+  },
+  parties: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 16,
+  },
+  party: {
+    flex: 1,
+    backgroundColor: colors.bgSection,
+    border: `1px solid ${colors.border}`,
+    borderRadius: 6,
+    padding: '10px 12px',
+  },
+  partyLabel: {
+    fontSize: 8,
+    fontWeight: 600,
+    color: colors.navy,
+    textTransform: 'uppercase',
+    letterSpacing: 0.8,
+    marginBottom: 6,
+  },
+  partyName: {
+    fontSize: 11,
+    fontWeight: 600,
+  },
+  signatureLine: {
+    fontSize: 9,
+    color: colors.textMuted,
+    marginTop: 4,
+  },
+  signatureMissing: {
+    fontSize: 9,
+    color: colors.warningText,
+    marginTop: 4,
+  },
+  fingerprint: {
+    marginTop: 14,
+    fontSize: 8,
+    color: colors.textMuted,
+  },
+})
+
+const SHIFT_HEADERS = ['Date', 'Prévu', 'Pointé', 'Pause', 'Heures payées']
+const SHIFT_WIDTHS = ['24%', '20%', '20%', '14%', '22%']
+const CORRECTION_HEADERS = ['Date', 'Avant', 'Après', 'Motif']
+const CORRECTION_WIDTHS = ['18%', '20%', '20%', '42%']
+
+/**
+ * Rendu du relevé. Avec `seal`, les signatures électroniques sont apposées
+ * et un certificat de signature est ajouté en dernière page.
+ */
+export async function generateTimesheetPdf(data: TimesheetPdfData, seal?: SignatureSeal): Promise<ExportResult> {
+  try {
+    const content = await renderReactPdf(<TimesheetDocument data={data} seal={seal} />)
+    return { success: true, filename: getTimesheetFilename(data, !!seal), content, mimeType: 'application/pdf' }
+  } catch (error) {
+    return {
+      success: false,
+      filename: '',
+      content: '',
+      mimeType: '',
+      error: error instanceof Error ? error.message : 'Erreur lors de la génération du relevé',
+    }
+  }
+}
+
+/** Nom de fichier : releve_heures_<auxiliaire>_YYYY_MM[_signe].pdf */
+export function getTimesheetFilename(
+  data: { timesheet: Pick<Timesheet, 'year' | 'month'>; employeeName: string },
+  sealed = false
+): string {
+  const slug = data.employeeName
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_|_$/g, '')
+  const period = `${data.timesheet.year}_${String(data.timesheet.month).padStart(2, '0')}`
+  return `releve_heures_${slug}_${period}${sealed ? '_signe' : ''}.pdf`
+}
+
+export function getTimesheetDocumentTitle(timesheet: Pick<Timesheet, 'year' | 'month'>): string {
+  return `Relevé d'heures — ${getMonthLabel(timesheet.year, timesheet.month)}`
+}
+
+const ISO_DATETIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/
+
+/**
+ * Relit l'instantané conservé avec la demande de signature (JSON) : les dates,
+ * sérialisées en ISO, redeviennent des `Date`.
+ */
+export function parseTimesheetPdfData(snapshot: unknown): TimesheetPdfData {
+  return JSON.parse(JSON.stringify(snapshot), (_key, value) =>
+    typeof value === 'string' && ISO_DATETIME.test(value) ? new Date(value) : value
+  ) as TimesheetPdfData
+}
+
+function formatShortDate(date: Date): string {
+  return date.toLocaleDateString('fr-FR', { weekday: 'short', day: '2-digit', month: '2-digit' })
+}
+
+/** Lignes du relevé : heures payées = réel accepté, sinon planning */
+export function buildTimesheetRows(shifts: Shift[]): { cells: string[]; minutes: number }[] {
+  return [...shifts]
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime() || a.startTime.localeCompare(b.startTime))
+    .map((shift) => {
+      const rec = reconcileShift(shift)
+      const minutes = getShiftDurationMinutes({ ...shift, ...getPayableTimes(shift) })
+      return {
+        minutes,
+        cells: [
+          formatShortDate(new Date(shift.date)),
+          `${shift.startTime.slice(0, 5)}–${shift.endTime.slice(0, 5)}`,
+          rec.actualStartTime ? `${rec.actualStartTime}–${rec.actualEndTime}` : '—',
+          shift.breakDuration ? `${shift.breakDuration} min` : '—',
+          hrs(minutes / 60),
+        ],
+      }
+    })
+}
+
+function TimesheetDocument({ data, seal }: { data: TimesheetPdfData; seal?: SignatureSeal }) {
+  const { timesheet } = data
+  const rows = buildTimesheetRows(data.shifts)
+  const totalMinutes = rows.reduce((sum, row) => sum + row.minutes, 0)
+
+  return (
+    <Document>
+      <Page size="A4" style={baseStyles.page}>
+        <PdfHeader
+          title="RELEVÉ D'HEURES"
+          subtitle={getMonthLabel(timesheet.year, timesheet.month)}
+          rightText={`Généré le ${formatDateTime(data.generatedAt)}`}
+          badge={seal ? 'SIGNÉ' : timesheet.status === 'locked' ? 'CONTRESIGNÉ' : undefined}
+        />
+
+        <View style={s.body}>
+          <SectionTitle>Interventions réalisées</SectionTitle>
+          <PdfTable
+            headers={SHIFT_HEADERS}
+            widths={SHIFT_WIDTHS}
+            rows={rows.map((row) => ({ cells: row.cells }))}
+          />
+          <TotalRow label="Total des heures" amount={hrs(totalMinutes / 60)} />
+
+          {data.corrections.length > 0 && (
+            <>
+              <SectionTitle>Corrections après contre-signature</SectionTitle>
+              <PdfTable
+                headers={CORRECTION_HEADERS}
+                widths={CORRECTION_WIDTHS}
+                rows={data.corrections.map((c) => ({
+                  cells: [
+                    formatShortDate(c.shiftDate),
+                    `${c.previousStartTime}–${c.previousEndTime}`,
+                    `${c.startTime}–${c.endTime}`,
+                    c.reason,
+                  ],
+                }))}
+              />
+            </>
+          )}
+
+          <SectionTitle>Signatures</SectionTitle>
+          <View style={s.parties} wrap={false}>
+            <View style={s.party}>
+              <Text style={s.partyLabel}>Salarié</Text>
+              <Text style={s.partyName}>{data.employeeName}</Text>
+              <Text style={s.signatureLine}>Soumis le {formatDateTime(timesheet.submittedAt)}</Text>
+            </View>
+            <View style={s.party}>
+              <Text style={s.partyLabel}>Employeur</Text>
+              <Text style={s.partyName}>{data.employerName}</Text>
+              {timesheet.employerSignedAt ? (
+                <Text style={s.signatureLine}>Contresigné le {formatDateTime(timesheet.employerSignedAt)}</Text>
+              ) : (
+                <Text style={s.signatureMissing}>En attente de contre-signature</Text>
+              )}
+            </View>
+          </View>
+
+          <Text style={s.fingerprint}>
+            Empreinte des interventions à la soumission (SHA-256) : {timesheet.contentHash}
+          </Text>
+
+          {seal && <SignatureBlocks seal={seal} />}
+        </View>
+
+        <PdfFooter
+          legal="Relevé signé électroniquement par les deux parties dans Unilien."
+          page={getMonthLabel(timesheet.year, timesheet.month)}
+        />
+      </Page>
+      {seal && (
+        <SignatureCertificatePage
+          documentTitle={getTimesheetDocumentTitle(timesheet)}
+          generatedAt={data.generatedAt}
+          seal={seal}
+        />
+      )}
+    </Document>
+  )
+}
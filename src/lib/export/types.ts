@@ -2,6 +2,10 @@
  * Types pour l'export des déclarations CESU
  */
 
+import type { PayRateSet } from '@/types'
+import { DEFAULT_PAY_RATE_SET, type MajorationSettings } from '@/lib/compliance/calculatePay'
+import type { MileageSummary } from '@/lib/mileage/allowance'
+
 // Format d'export
 export type ExportFormat = 'csv' | 'pdf' | 'summary'
 
@@ -24,7 +28,8 @@ export interface EmployeeDeclarationData {
   sundayHours: number
   holidayHours: number
   nightHours: number
-  overtimeHours: number
+  complementaryHours?: number  // Heures complémentaires (temps partiel, jusqu'à 40h/semaine, taux normal ; absent sur les déclarations antérieures)
+  overtimeHours: number        // Heures supplémentaires (au-delà de 40h/semaine)
   // Rémunération brute
   basePay: number
   sundayMajoration: number
@@ -37,6 +42,9 @@ export interface EmployeeDeclarationData {
   // Net estimé (montant à reporter sur CESU)
   netPay: number
   totalEmployeeDeductions: number
+  pasRate?: number             // Taux PAS du contrat (0 à 1 ; absent sur les déclarations antérieures)
+  // Indemnités kilométriques : frais non imposables, versés avec le net mais hors brut (absent sans trajet)
+  mileage?: MileageSummary
   // Détails des interventions
   shiftsCount: number
   shiftsDetails: ShiftDeclarationDetail[]
@@ -75,9 +83,11 @@ export interface MonthlyDeclarationData {
   totalHours: number
   totalGrossPay: number
   totalNetPay: number
+  totalMileageAllowance?: number // Indemnités kilométriques du mois (absent sans trajet)
   totalEmployees: number
   // Métadonnées
   generatedAt: Date
+  rateSet?: PayRateSet // Taux de majoration appliqués (absent sur les déclarations antérieures)
 }
 
 // Options de génération
@@ -87,6 +97,8 @@ export interface ExportOptions {
   month: number
   employeeIds?: string[] // Si vide, tous les employés
   includeDetails?: boolean
+  conventionSettings?: MajorationSettings // Majorations de l'employeur (défaut : barème IDCC 3239)
+  mileageRate?: number // Indemnité kilométrique de l'employeur, €/km (défaut : barème fiscal 5 CV)
 }
 
 // Résultat de l'export
@@ -109,6 +121,22 @@ export function getMonthLabel(year: number, month: number): string {
   return `${MONTHS_FR[month - 1]} ${year}`
 }
 
+// Libellé de l'origine des taux de majoration
+export const RATE_SET_SOURCE_LABELS: Record<PayRateSet['source'], string> = {
+  idcc_default: 'barème IDCC 3239',
+  convention_settings: 'paramètres de convention de l\'employeur',
+}
+
+// Taux appliqués à une déclaration (barème par défaut pour les déclarations antérieures au traçage)
+export function getDeclarationRateSet(data: MonthlyDeclarationData): PayRateSet {
+  return data.rateSet ?? DEFAULT_PAY_RATE_SET
+}
+
+// Pourcentage affichable : 0.3 → "30"
+export function formatRatePercent(rate: number): string {
+  return String(Math.round(rate * 10000) / 100).replace('.', ',')
+}
+
 // ─── Export Planning ─────────────────────────────────────────────────────────
 
 import type { ShiftType, AbsenceType } from '@/types'
@@ -136,6 +164,23 @@ export interface PlanningShiftEntry {
   isSunday: boolean
   isHoliday: boolean
   totalPay: number
+  /** Série récurrente d'origine */
+  seriesId?: string
+  /** Date prévue par la règle de la série (RECURRENCE-ID) */
+  seriesOccurrenceDate?: Date
+  /** Occurrence modifiée individuellement */
+  isSeriesException?: boolean
+}
+
+/** Une série récurrente du planning (exportée en RRULE / EXDATE) */
+export interface PlanningSeriesEntry {
+  id: string
+  rrule: string
+  dtstart: Date
+  exdates: Date[]
+  startTime: string
+  endTime: string
+  shiftType: ShiftType
 }
 
 /** Une entrée absence dans le planning */
@@ -157,6 +202,8 @@ export interface EmployeePlanningData {
   weeklyHours: number
   hourlyRate: number
   shifts: PlanningShiftEntry[]
+  /** Séries dont au moins une occurrence tombe dans la période */
+  series?: PlanningSeriesEntry[]
   absences: PlanningAbsenceEntry[]
   totalShifts: number
   totalHours: number
@@ -206,3 +253,24 @@ export interface CotisationsResult {
   isExemptPatronalSS: boolean
 }
 
+/** Données d'un bulletin de paie généré (un employé × un mois) */
+export interface PayslipData {
+  year: number
+  month: number // 1-12
+  periodLabel: string
+  periodStartDate: Date
+  periodEndDate: Date
+  // Employeur
+  employerId: string
+  employerFirstName: string
+  employerLastName: string
+  employerAddress: string
+  cesuNumber?: string
+  // Salarié : heures et décomposition du brut issues de la déclaration mensuelle
+  employee: EmployeeDeclarationData
+  rateSet: PayRateSet
+  // Cotisations, net imposable, PAS et net à payer
+  cotisations: CotisationsResult
+  generatedAt: Date
+}
+
@@ -7,10 +7,8 @@
  */
 export const FEATURES = {
   /**
-   * Pointage / Suivi des heures.
-   * Désactivé pour la v1 le temps de livrer le pointage par QR code
-   * (cf. docs/QR_CLOCKIN_IMPLEMENTATION.md). Le code, les services et
-   * la table DB `clock_in_entries` restent intacts pour réactivation rapide.
+   * Pointage / Suivi des heures, avec badge QR par contrat
+   * (cf. docs/QR_CLOCKIN_IMPLEMENTATION.md).
    */
-  clockIn: false,
+  clockIn: true,
 } as const
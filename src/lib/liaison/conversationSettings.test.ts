@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest'
+import { isArchivedSince, isMuteActive, muteUntil } from './conversationSettings'
+
+const now = new Date('2026-03-14T10:00:00')
+
+describe('muteUntil', () => {
+  it('calcule la fin de la sourdine', () => {
+    expect(muteUntil('1h', now)).toEqual(new Date('2026-03-14T11:00:00'))
+    expect(muteUntil('8h', now)).toEqual(new Date('2026-03-14T18:00:00'))
+  })
+
+  it('renvoie null jusqu\'à réactivation', () => {
+    expect(muteUntil('forever', now)).toBeNull()
+  })
+})
+
+describe('isMuteActive', () => {
+  it('est active jusqu\'à la date de fin', () => {
+    expect(isMuteActive(true, new Date('2026-03-14T10:30:00'), now)).toBe(true)
+    expect(isMuteActive(true, new Date('2026-03-14T09:59:00'), now)).toBe(false)
+  })
+
+  it('est active sans date de fin', () => {
+    expect(isMuteActive(true, undefined, now)).toBe(true)
+    expect(isMuteActive(false, undefined, now)).toBe(false)
+  })
+})
+
+describe('isArchivedSince', () => {
+  const archivedAt = new Date('2026-03-14T09:00:00')
+
+  it('reste archivée sans nouveau message', () => {
+    expect(isArchivedSince(archivedAt, new Date('2026-03-14T08:00:00'))).toBe(true)
+    expect(isArchivedSince(archivedAt, undefined)).toBe(true)
+  })
+
+  it('revient dès qu\'un message plus récent arrive', () => {
+    expect(isArchivedSince(archivedAt, new Date('2026-03-14T09:30:00'))).toBe(false)
+  })
+
+  it('n\'est pas archivée sans date d\'archivage', () => {
+    expect(isArchivedSince(undefined, now)).toBe(false)
+  })
+})
@@ -0,0 +1,47 @@
+/**
+ * Réglages d'une conversation propres à chaque utilisateur : archivage,
+ * sourdine et niveau de notification.
+ *
+ * L'archivage n'est pas remis à zéro en base quand un message arrive : une
+ * conversation n'est archivée que si aucun message n'est plus récent que
+ * son archivage.
+ */
+
+import { addHours } from 'date-fns'
+import type { ConversationNotificationLevel } from '@/types'
+
+export type MuteDuration = '1h' | '8h' | 'forever'
+
+export const MUTE_DURATIONS: { value: MuteDuration; label: string }[] = [
+  { value: '1h', label: 'Pendant 1 heure' },
+  { value: '8h', label: 'Pendant 8 heures' },
+  { value: 'forever', label: 'Jusqu’à réactivation' },
+]
+
+export const NOTIFICATION_LEVEL_LABELS: Record<ConversationNotificationLevel, string> = {
+  all: 'Tous les messages',
+  mentions: 'Mentions uniquement',
+  none: 'Aucune',
+}
+
+/** Fin de la sourdine (null = jusqu'à réactivation) */
+export function muteUntil(duration: MuteDuration, now: Date = new Date()): Date | null {
+  switch (duration) {
+    case '1h':
+      return addHours(now, 1)
+    case '8h':
+      return addHours(now, 8)
+    case 'forever':
+      return null
+  }
+}
+
+export function isMuteActive(muted: boolean, mutedUntil: Date | undefined, now: Date = new Date()): boolean {
+  return muted && (!mutedUntil || mutedUntil > now)
+}
+
+/** Archivée, et aucun message arrivé depuis l'archivage */
+export function isArchivedSince(archivedAt: Date | undefined, lastMessageAt: Date | undefined): boolean {
+  if (!archivedAt) return false
+  return !lastMessageAt || lastMessageAt <= archivedAt
+}
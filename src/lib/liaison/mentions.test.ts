@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest'
+import {
+  extractMentionedUserIds,
+  filterMentionCandidates,
+  findMentionQuery,
+  insertMention,
+  mentionLabel,
+  type MentionCandidate,
+} from './mentions'
+
+const marie: MentionCandidate = { id: 'u-1', firstName: 'Marie', lastName: 'Dupont', role: 'employee' }
+const helene: MentionCandidate = { id: 'u-2', firstName: 'Hélène', lastName: 'Martin', role: 'caregiver' }
+const marieB: MentionCandidate = { id: 'u-3', firstName: 'Marie', lastName: 'Bernard', role: 'employee' }
+
+describe('findMentionQuery', () => {
+  it('détecte la mention en cours avant le curseur', () => {
+    expect(findMentionQuery('Bonjour @Ma', 11)).toEqual({ start: 8, query: 'Ma' })
+    expect(findMentionQuery('@', 1)).toEqual({ start: 0, query: '' })
+  })
+
+  it('ignore les adresses email et les mentions terminées', () => {
+    expect(findMentionQuery('contact@mail', 12)).toBeNull()
+    expect(findMentionQuery('@Marie merci', 12)).toBeNull()
+  })
+})
+
+describe('filterMentionCandidates', () => {
+  it('filtre par début de prénom ou de nom, sans tenir compte des accents', () => {
+    expect(filterMentionCandidates([marie, helene], 'hel')).toEqual([helene])
+    expect(filterMentionCandidates([marie, helene], 'dup')).toEqual([marie])
+    expect(filterMentionCandidates([marie, helene], '')).toEqual([marie, helene])
+  })
+})
+
+describe('mentionLabel', () => {
+  it('utilise le prénom, ou le nom complet en cas d\'homonymie', () => {
+    expect(mentionLabel(marie, [marie, helene])).toBe('Marie')
+    expect(mentionLabel(marie, [marie, marieB])).toBe('Marie Dupont')
+  })
+})
+
+describe('insertMention', () => {
+  it('remplace la saisie et place le curseur après la mention', () => {
+    expect(insertMention('Merci @Ma pour hier', 6, 9, 'Marie')).toEqual({
+      text: 'Merci @Marie pour hier',
+      caret: 12,
+    })
+    expect(insertMention('@Ma', 0, 3, 'Marie')).toEqual({ text: '@Marie ', caret: 7 })
+  })
+})
+
+describe('extractMentionedUserIds', () => {
+  it('retrouve les personnes mentionnées', () => {
+    expect(extractMentionedUserIds('@Marie et @Hélène, RDV à 14h', [marie, helene])).toEqual(['u-1', 'u-2'])
+  })
+
+  it('ne confond pas un prénom avec un préfixe', () => {
+    expect(extractMentionedUserIds('@Mariette a appelé', [marie])).toEqual([])
+  })
+
+  it('distingue les homonymes par leur nom', () => {
+    expect(extractMentionedUserIds('Merci @Marie Bernard', [marie, marieB])).toEqual(['u-3'])
+  })
+})
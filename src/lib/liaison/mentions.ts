@@ -0,0 +1,95 @@
+/**
+ * Mentions @Prénom dans la messagerie et le cahier de liaison.
+ *
+ * Une mention s'écrit avec le prénom seul ; quand deux membres de l'équipe
+ * partagent le même prénom, elle s'écrit « @Prénom Nom ». Les personnes
+ * mentionnées sont retrouvées dans le texte au moment de l'envoi, à partir
+ * de la même liste de candidats que l'autocomplétion.
+ */
+
+export interface MentionCandidate {
+  id: string
+  firstName: string
+  lastName: string
+  avatarUrl?: string
+  role: 'employer' | 'employee' | 'caregiver'
+}
+
+export const MAX_MENTION_SUGGESTIONS = 6
+
+const MENTION_ROLE_LABELS: Record<MentionCandidate['role'], string> = {
+  employer: 'Employeur',
+  employee: 'Auxiliaire',
+  caregiver: 'Aidant',
+}
+
+export function mentionRoleLabel(role: MentionCandidate['role']): string {
+  return MENTION_ROLE_LABELS[role]
+}
+
+// "@" en début de texte ou après un espace, suivi du début d'un prénom
+const MENTION_QUERY = /(?:^|\s)@([\p{L}\p{M}'-]*)$/u
+
+function normalize(value: string): string {
+  return value.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase()
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/** Mention en cours de saisie juste avant le curseur */
+export function findMentionQuery(text: string, caret: number): { start: number; query: string } | null {
+  const match = MENTION_QUERY.exec(text.slice(0, caret))
+  if (!match) return null
+  return { start: caret - match[1].length - 1, query: match[1] }
+}
+
+/** Texte inséré après "@" pour ce candidat */
+export function mentionLabel(candidate: MentionCandidate, candidates: MentionCandidate[]): string {
+  const sameFirstName = candidates.filter(
+    (c) => normalize(c.firstName) === normalize(candidate.firstName)
+  )
+  return sameFirstName.length > 1 ? `${candidate.firstName} ${candidate.lastName}` : candidate.firstName
+}
+
+/** Candidats dont le prénom ou le nom commence par la saisie (accents ignorés) */
+export function filterMentionCandidates(candidates: MentionCandidate[], query: string): MentionCandidate[] {
+  const q = normalize(query)
+  return candidates
+    .filter((c) => {
+      if (!q) return true
+      return (
+        normalize(c.firstName).startsWith(q) ||
+        normalize(c.lastName).startsWith(q) ||
+        normalize(`${c.firstName} ${c.lastName}`).startsWith(q)
+      )
+    })
+    .slice(0, MAX_MENTION_SUGGESTIONS)
+}
+
+/** Remplace la saisie en cours par la mention complète */
+export function insertMention(
+  text: string,
+  start: number,
+  caret: number,
+  label: string
+): { text: string; caret: number } {
+  const after = text.slice(caret)
+  const inserted = /^\s/.test(after) ? `@${label}` : `@${label} `
+  return {
+    text: text.slice(0, start) + inserted + after,
+    caret: start + inserted.length,
+  }
+}
+
+/** Identifiants des candidats mentionnés dans le texte */
+export function extractMentionedUserIds(text: string, candidates: MentionCandidate[]): string[] {
+  if (!text.includes('@')) return []
+  return candidates
+    .filter((c) => {
+      const label = escapeRegExp(mentionLabel(c, candidates))
+      return new RegExp(`(?:^|\\s)@${label}(?![\\p{L}\\p{M}])`, 'u').test(text)
+    })
+    .map((c) => c.id)
+}
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildCareSeries,
+  formatCareValue,
+  getInitialCareData,
+  summarizeCareData,
+  validateCareData,
+} from './careTemplates'
+import type { CareLogData, CareTemplateId } from '@/types'
+
+const entry = (templateId: CareTemplateId, careData: CareLogData, createdAt: string) => ({
+  templateId,
+  careData,
+  createdAt: new Date(createdAt),
+})
+
+const FROM = new Date(2026, 2, 2)
+const TO = new Date(2026, 2, 4, 23, 59)
+
+describe('validateCareData', () => {
+  it('exige les champs requis', () => {
+    expect(validateCareData('meal', { mealType: 'lunch' })).toBe('Quantité mangée : valeur requise')
+    expect(validateCareData('meal', { mealType: 'lunch', eaten: 0.75 })).toBeNull()
+  })
+
+  it('borne les échelles et quantités', () => {
+    expect(validateCareData('pain', { score: 11 })).toBe('Intensité : entre 0 et 10')
+    expect(validateCareData('fluids', { volumeMl: -50 })).toBe('Quantité bue : entre 0 et 5000')
+  })
+
+  it('accepte une fiche sans champ requis', () => {
+    expect(validateCareData('fall', getInitialCareData('fall'))).toBeNull()
+  })
+})
+
+describe('summarizeCareData', () => {
+  it('résume les valeurs saisies', () => {
+    expect(summarizeCareData('meal', { mealType: 'lunch', eaten: 0.75 }))
+      .toBe('Repas — Moment : Déjeuner, Quantité mangée : ¾')
+    expect(summarizeCareData('pain', { score: 6, location: 'dos' }))
+      .toBe('Douleur — Intensité : 6/10, Localisation : dos')
+  })
+
+  it('ne liste que les cases cochées', () => {
+    expect(summarizeCareData('elimination', { bowel: false, urine: true })).toBe('Élimination — Urines')
+    expect(summarizeCareData('elimination', { bowel: false, urine: false }))
+      .toBe('Élimination — Ni selles ni urines')
+  })
+})
+
+describe('buildCareSeries', () => {
+  it('moyenne par jour en omettant les jours sans entrée', () => {
+    const points = buildCareSeries(
+      [
+        entry('meal', { mealType: 'lunch', eaten: 1 }, '2026-03-02T12:00:00'),
+        entry('meal', { mealType: 'dinner', eaten: 0.5 }, '2026-03-02T19:00:00'),
+        entry('meal', { mealType: 'lunch', eaten: 0.25 }, '2026-03-04T12:00:00'),
+        entry('mood', { mood: 4 }, '2026-03-03T12:00:00'),
+      ],
+      'meal',
+      FROM,
+      TO
+    )
+
+    expect(points).toEqual([
+      { date: '2026-03-02', value: 0.75 },
+      { date: '2026-03-04', value: 0.25 },
+    ])
+  })
+
+  it('additionne les volumes, jours vides à zéro', () => {
+    const points = buildCareSeries(
+      [
+        entry('fluids', { volumeMl: 250 }, '2026-03-03T09:00:00'),
+        entry('fluids', { volumeMl: 500 }, '2026-03-03T15:00:00'),
+      ],
+      'fluids',
+      FROM,
+      TO
+    )
+
+    expect(points.map((p) => p.value)).toEqual([0, 750, 0])
+  })
+
+  it('compte les entrées où le champ est vrai', () => {
+    const points = buildCareSeries(
+      [
+        entry('elimination', { bowel: true, urine: true }, '2026-03-02T09:00:00'),
+        entry('elimination', { bowel: false, urine: true }, '2026-03-02T15:00:00'),
+        entry('fall', { injured: false }, '2026-03-02T15:00:00'),
+      ],
+      'elimination',
+      FROM,
+      TO
+    )
+
+    expect(points[0]).toEqual({ date: '2026-03-02', value: 1 })
+    expect(buildCareSeries([entry('fall', { injured: false }, '2026-03-04T10:00:00')], 'fall', FROM, TO)[2].value).toBe(1)
+  })
+})
+
+describe('formatCareValue', () => {
+  it('formate selon l\'unité du modèle', () => {
+    expect(formatCareValue('meal', 0.75)).toBe('75 %')
+    expect(formatCareValue('fluids', 750)).toBe('750 ml')
+    expect(formatCareValue('mood', 3.5)).toBe('3,5')
+  })
+})
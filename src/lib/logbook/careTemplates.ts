@@ -0,0 +1,263 @@
+/**
+ * Fiches de suivi structurées du cahier de liaison
+ *
+ * Chaque modèle décrit ses champs (saisie), le résumé texte stocké dans
+ * `content` et la série tracée sur la page du cahier (agrégat par jour).
+ */
+
+import { format } from 'date-fns'
+import type { CareLogData, CareTemplateId, LogEntry } from '@/types'
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export type CareFieldDefinition =
+  | { key: string; label: string; kind: 'choice'; options: { value: string | number; label: string }[]; required?: boolean }
+  | { key: string; label: string; kind: 'number'; unit: string; min: number; max: number; required?: boolean }
+  | { key: string; label: string; kind: 'scale'; min: number; max: number; minLabel: string; maxLabel: string; required?: boolean }
+  | { key: string; label: string; kind: 'boolean' }
+  | { key: string; label: string; kind: 'text' }
+
+/**
+ * Série tracée par jour :
+ * - `average` / `sum` : moyenne ou total de `field`
+ * - `count` : nombre d'entrées (ou d'entrées où `field` est vrai)
+ */
+export interface CareChartDefinition {
+  label: string
+  aggregate: 'average' | 'sum' | 'count'
+  field?: string
+  unit?: string
+  /** Borne haute de l'axe (sinon la valeur max de la période) */
+  max?: number
+}
+
+export interface CareTemplate {
+  id: CareTemplateId
+  label: string
+  /** Type d'entrée proposé par défaut */
+  defaultType: LogEntry['type']
+  fields: CareFieldDefinition[]
+  chart: CareChartDefinition
+}
+
+export interface CareSeriesPoint {
+  /** Jour (yyyy-MM-dd, heure locale) */
+  date: string
+  value: number
+}
+
+// ── Modèles ──────────────────────────────────────────────────────────────────
+
+const MEAL_TYPE_OPTIONS = [
+  { value: 'breakfast', label: 'Petit-déjeuner' },
+  { value: 'lunch', label: 'Déjeuner' },
+  { value: 'snack', label: 'Goûter' },
+  { value: 'dinner', label: 'Dîner' },
+]
+
+const EATEN_OPTIONS = [
+  { value: 0, label: 'Rien' },
+  { value: 0.25, label: '¼' },
+  { value: 0.5, label: '½' },
+  { value: 0.75, label: '¾' },
+  { value: 1, label: 'Tout' },
+]
+
+export const CARE_TEMPLATES: Record<CareTemplateId, CareTemplate> = {
+  meal: {
+    id: 'meal',
+    label: 'Repas',
+    defaultType: 'info',
+    fields: [
+      { key: 'mealType', label: 'Moment', kind: 'choice', options: MEAL_TYPE_OPTIONS, required: true },
+      { key: 'eaten', label: 'Quantité mangée', kind: 'choice', options: EATEN_OPTIONS, required: true },
+    ],
+    chart: { label: 'Part des repas mangée', aggregate: 'average', field: 'eaten', unit: '%', max: 1 },
+  },
+  fluids: {
+    id: 'fluids',
+    label: 'Hydratation',
+    defaultType: 'info',
+    fields: [
+      { key: 'volumeMl', label: 'Quantité bue', kind: 'number', unit: 'ml', min: 0, max: 5000, required: true },
+    ],
+    chart: { label: 'Boissons par jour', aggregate: 'sum', field: 'volumeMl', unit: 'ml' },
+  },
+  elimination: {
+    id: 'elimination',
+    label: 'Élimination',
+    defaultType: 'info',
+    fields: [
+      { key: 'bowel', label: 'Selles', kind: 'boolean' },
+      { key: 'urine', label: 'Urines', kind: 'boolean' },
+    ],
+    chart: { label: 'Selles par jour', aggregate: 'count', field: 'bowel' },
+  },
+  mood: {
+    id: 'mood',
+    label: 'Humeur',
+    defaultType: 'info',
+    fields: [
+      { key: 'mood', label: 'Humeur', kind: 'scale', min: 1, max: 5, minLabel: 'Très basse', maxLabel: 'Très bonne', required: true },
+    ],
+    chart: { label: 'Humeur moyenne', aggregate: 'average', field: 'mood', max: 5 },
+  },
+  fall: {
+    id: 'fall',
+    label: 'Chute',
+    defaultType: 'incident',
+    fields: [
+      { key: 'injured', label: 'Blessure constatée', kind: 'boolean' },
+      { key: 'helpNeeded', label: 'Aide nécessaire pour se relever', kind: 'boolean' },
+    ],
+    chart: { label: 'Chutes', aggregate: 'count' },
+  },
+  pain: {
+    id: 'pain',
+    label: 'Douleur',
+    defaultType: 'info',
+    fields: [
+      { key: 'score', label: 'Intensité', kind: 'scale', min: 0, max: 10, minLabel: 'Aucune', maxLabel: 'Maximale', required: true },
+      { key: 'location', label: 'Localisation', kind: 'text' },
+    ],
+    chart: { label: 'Douleur moyenne', aggregate: 'average', field: 'score', max: 10 },
+  },
+}
+
+export const CARE_TEMPLATE_IDS = Object.keys(CARE_TEMPLATES) as CareTemplateId[]
+
+export function isCareTemplateId(value: unknown): value is CareTemplateId {
+  return typeof value === 'string' && value in CARE_TEMPLATES
+}
+
+// ── Saisie ───────────────────────────────────────────────────────────────────
+
+/** Valeurs initiales d'une fiche (cases à cocher décochées) */
+export function getInitialCareData(templateId: CareTemplateId): CareLogData {
+  const data: CareLogData = {}
+  for (const field of CARE_TEMPLATES[templateId].fields) {
+    if (field.kind === 'boolean') data[field.key] = false
+  }
+  return data
+}
+
+/** Message d'erreur du premier champ invalide, ou null */
+export function validateCareData(templateId: CareTemplateId, data: CareLogData): string | null {
+  for (const field of CARE_TEMPLATES[templateId].fields) {
+    const value = data[field.key]
+    const missing = value === undefined || value === ''
+
+    switch (field.kind) {
+      case 'choice':
+        if (missing) {
+          if (field.required) return `${field.label} : valeur requise`
+        } else if (!field.options.some((o) => o.value === value)) {
+          return `${field.label} : valeur invalide`
+        }
+        break
+      case 'number':
+      case 'scale':
+        if (missing) {
+          if (field.required) return `${field.label} : valeur requise`
+        } else if (typeof value !== 'number' || Number.isNaN(value) || value < field.min || value > field.max) {
+          return `${field.label} : entre ${field.min} et ${field.max}`
+        }
+        break
+      case 'boolean':
+        if (value !== undefined && typeof value !== 'boolean') return `${field.label} : valeur invalide`
+        break
+      case 'text':
+        if (value !== undefined && typeof value !== 'string') return `${field.label} : valeur invalide`
+        break
+    }
+  }
+  return null
+}
+
+/**
+ * Résumé lisible d'une fiche, stocké dans `content`
+ * (ex. « Repas — Moment : Déjeuner, Quantité mangée : ¾ »).
+ */
+export function summarizeCareData(templateId: CareTemplateId, data: CareLogData): string {
+  const template = CARE_TEMPLATES[templateId]
+  const parts: string[] = []
+
+  for (const field of template.fields) {
+    const value = data[field.key]
+    if (value === undefined || value === '') continue
+
+    switch (field.kind) {
+      case 'choice': {
+        const option = field.options.find((o) => o.value === value)
+        parts.push(`${field.label} : ${option?.label ?? value}`)
+        break
+      }
+      case 'number':
+        parts.push(`${field.label} : ${value} ${field.unit}`)
+        break
+      case 'scale':
+        parts.push(`${field.label} : ${value}/${field.max}`)
+        break
+      case 'boolean':
+        if (value === true) parts.push(field.label)
+        break
+      case 'text':
+        parts.push(`${field.label} : ${value}`)
+        break
+    }
+  }
+
+  if (templateId === 'elimination' && parts.length === 0) parts.push('Ni selles ni urines')
+  return parts.length > 0 ? `${template.label} — ${parts.join(', ')}` : template.label
+}
+
+// ── Graphiques ───────────────────────────────────────────────────────────────
+
+/**
+ * Série quotidienne d'un modèle sur [from, to] : un point par jour,
+ * jours sans entrée omis pour `average`, à zéro pour `sum` et `count`.
+ */
+export function buildCareSeries(
+  entries: Pick<LogEntry, 'templateId' | 'careData' | 'createdAt'>[],
+  templateId: CareTemplateId,
+  from: Date,
+  to: Date
+): CareSeriesPoint[] {
+  const { chart } = CARE_TEMPLATES[templateId]
+  const byDay = new Map<string, number[]>()
+
+  for (const entry of entries) {
+    if (entry.templateId !== templateId || !entry.careData) continue
+    if (entry.createdAt < from || entry.createdAt > to) continue
+
+    const day = format(entry.createdAt, 'yyyy-MM-dd')
+    const raw = chart.field ? entry.careData[chart.field] : true
+    const value = chart.aggregate === 'count' ? (raw === true ? 1 : 0) : raw
+    if (typeof value !== 'number') continue
+
+    byDay.set(day, [...(byDay.get(day) ?? []), value])
+  }
+
+  const points: CareSeriesPoint[] = []
+  const cursor = new Date(from.getFullYear(), from.getMonth(), from.getDate())
+  while (cursor <= to) {
+    const day = format(cursor, 'yyyy-MM-dd')
+    const values = byDay.get(day)
+    if (values) {
+      const total = values.reduce((sum, v) => sum + v, 0)
+      points.push({ date: day, value: chart.aggregate === 'average' ? total / values.length : total })
+    } else if (chart.aggregate !== 'average') {
+      points.push({ date: day, value: 0 })
+    }
+    cursor.setDate(cursor.getDate() + 1)
+  }
+  return points
+}
+
+/** Valeur d'un point de série, formatée pour l'axe et les infobulles */
+export function formatCareValue(templateId: CareTemplateId, value: number): string {
+  const { chart } = CARE_TEMPLATES[templateId]
+  if (chart.unit === '%') return `${Math.round(value * 100)} %`
+  const rounded = Number.isInteger(value) ? String(value) : value.toFixed(1).replace('.', ',')
+  return chart.unit ? `${rounded} ${chart.unit}` : rounded
+}
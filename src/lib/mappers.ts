@@ -1,5 +1,5 @@
-import type { ProfileDbRow } from '@/types/database'
-import type { Profile, UserRole } from '@/types'
+import type { ProfileDbRow, ShiftTaskCompletionDb } from '@/types/database'
+import type { Profile, ShiftTaskCompletion, UserRole } from '@/types'
 import { resolveAvatarUrl } from '@/lib/supabase/avatars'
 
 /**
@@ -42,3 +42,17 @@ export function createDefaultProfile(
     updatedAt: new Date(),
   }
 }
+
+/**
+ * Convertit une entrée de check-list DB (snake_case) en réalisation de tâche app
+ */
+export function mapTaskCompletionFromDb(data: ShiftTaskCompletionDb): ShiftTaskCompletion {
+  return {
+    task: data.task,
+    status: data.status,
+    reason: data.reason,
+    comment: data.comment,
+    completedAt: new Date(data.completed_at),
+    completedBy: data.completed_by,
+  }
+}
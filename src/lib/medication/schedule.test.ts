@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest'
+import { getDosesDue, isMedicationActiveOn, normalizeDoseTimes } from './schedule'
+import type { Medication, MedicationAdministration, Shift } from '@/types'
+
+function medication(overrides: Partial<Medication>): Medication {
+  return {
+    id: 'med-1',
+    employerId: 'employer-1',
+    name: 'Doliprane',
+    dose: '1 g',
+    times: ['08:00'],
+    startDate: new Date(2026, 0, 1),
+    createdAt: new Date(2026, 0, 1),
+    updatedAt: new Date(2026, 0, 1),
+    ...overrides,
+  }
+}
+
+function shift(overrides: Partial<Pick<Shift, 'date' | 'startTime' | 'endTime' | 'shiftType'>> = {}) {
+  return {
+    date: new Date(2026, 2, 10),
+    startTime: '07:00',
+    endTime: '12:00',
+    shiftType: 'effective' as const,
+    ...overrides,
+  }
+}
+
+describe('normalizeDoseTimes', () => {
+  it('trie, dédoublonne et écarte les heures invalides', () => {
+    expect(normalizeDoseTimes(['20:00', ' 08:00', '08:00', '25:00', 'midi'])).toEqual(['08:00', '20:00'])
+  })
+})
+
+describe('isMedicationActiveOn', () => {
+  it('respecte la période et l\'arrêt du traitement', () => {
+    const med = medication({ startDate: new Date(2026, 2, 5), endDate: new Date(2026, 2, 10) })
+    expect(isMedicationActiveOn(med, new Date(2026, 2, 4))).toBe(false)
+    expect(isMedicationActiveOn(med, new Date(2026, 2, 10, 22))).toBe(true)
+    expect(isMedicationActiveOn(med, new Date(2026, 2, 11))).toBe(false)
+    expect(isMedicationActiveOn({ ...med, archivedAt: new Date() }, new Date(2026, 2, 6))).toBe(false)
+  })
+})
+
+describe('getDosesDue', () => {
+  it('retient les prises comprises dans la plage de l\'intervention, triées', () => {
+    const doses = getDosesDue(
+      [
+        medication({ id: 'a', name: 'Kardégic', times: ['08:00', '12:00', '20:00'] }),
+        medication({ id: 'b', name: 'Doliprane', times: ['07:00', '11:30'] }),
+      ],
+      shift()
+    )
+
+    expect(doses.map((d) => `${d.scheduledTime} ${d.medication.name}`)).toEqual([
+      '07:00 Doliprane',
+      '08:00 Kardégic',
+      '11:30 Doliprane',
+    ])
+  })
+
+  it('date les prises après minuit au lendemain pour une intervention de nuit', () => {
+    const doses = getDosesDue(
+      [medication({ times: ['06:00', '22:00'], endDate: new Date(2026, 2, 10) })],
+      shift({ startTime: '21:00', endTime: '07:00' })
+    )
+
+    // La prise de 6 h tombe le 11, après la fin du traitement
+    expect(doses).toHaveLength(1)
+    expect(doses[0].scheduledTime).toBe('22:00')
+  })
+
+  it('couvre 24 h pour une garde', () => {
+    const doses = getDosesDue(
+      [medication({ times: ['08:00', '20:00'] })],
+      shift({ startTime: '09:00', endTime: '09:00', shiftType: 'guard_24h' })
+    )
+
+    expect(doses.map((d) => d.scheduledTime)).toEqual(['20:00', '08:00'])
+    expect(doses[1].date.getDate()).toBe(11)
+  })
+
+  it('associe les prises déjà pointées', () => {
+    const administration: MedicationAdministration = {
+      id: 'adm-1',
+      medicationId: 'med-1',
+      shiftId: 'shift-1',
+      scheduledTime: '08:00',
+      status: 'refused',
+      recordedBy: 'employee-1',
+      recordedAt: new Date(),
+    }
+
+    const [dose] = getDosesDue([medication({})], shift(), [administration])
+    expect(dose.administration?.status).toBe('refused')
+  })
+})
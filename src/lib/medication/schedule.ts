@@ -0,0 +1,93 @@
+/**
+ * Plan de prise : prises dues pendant une intervention.
+ *
+ * Une prise est due si son heure tombe dans la plage [début, fin[ de
+ * l'intervention. Une intervention de nuit (fin ≤ début) ou une garde 24h
+ * déborde sur le lendemain : les heures après minuit portent la date du
+ * lendemain, qui sert à vérifier la période du traitement.
+ */
+
+import { addDays, format } from 'date-fns'
+import { timeToMinutes } from '@/lib/compliance'
+import type {
+  Medication,
+  MedicationAdministration,
+  MedicationAdministrationStatus,
+  Shift,
+} from '@/types'
+
+const MINUTES_PER_DAY = 24 * 60
+
+const DOSE_TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/
+
+export const MEDICATION_STATUS_LABELS: Record<MedicationAdministrationStatus, string> = {
+  given: 'Donnée',
+  refused: 'Refusée',
+  missed: 'Manquée',
+}
+
+export interface MedicationDose {
+  medication: Medication
+  scheduledTime: string
+  /** Jour de la prise (lendemain pour la partie après minuit) */
+  date: Date
+  administration?: MedicationAdministration
+}
+
+export function isValidDoseTime(time: string): boolean {
+  return DOSE_TIME_PATTERN.test(time)
+}
+
+/** Heures valides, sans doublon, triées */
+export function normalizeDoseTimes(times: string[]): string[] {
+  return Array.from(new Set(times.map((t) => t.trim()).filter(isValidDoseTime))).sort()
+}
+
+/** Traitement en cours ce jour-là (ni arrêté, ni hors période) */
+export function isMedicationActiveOn(medication: Medication, day: Date): boolean {
+  if (medication.archivedAt) return false
+  const key = format(day, 'yyyy-MM-dd')
+  if (key < format(medication.startDate, 'yyyy-MM-dd')) return false
+  return !medication.endDate || key <= format(medication.endDate, 'yyyy-MM-dd')
+}
+
+export function getDosesDue(
+  medications: Medication[],
+  shift: Pick<Shift, 'date' | 'startTime' | 'endTime' | 'shiftType'>,
+  administrations: MedicationAdministration[] = []
+): MedicationDose[] {
+  const start = timeToMinutes(shift.startTime)
+  let end = shift.shiftType === 'guard_24h' ? start + MINUTES_PER_DAY : timeToMinutes(shift.endTime)
+  if (end <= start) end += MINUTES_PER_DAY
+
+  const recorded = new Map(
+    administrations.map((a) => [`${a.medicationId}|${a.scheduledTime}`, a])
+  )
+
+  const doses: { dose: MedicationDose; minutes: number }[] = []
+  for (const medication of medications) {
+    for (const time of medication.times) {
+      for (const dayOffset of [0, 1]) {
+        const minutes = timeToMinutes(time) + dayOffset * MINUTES_PER_DAY
+        if (minutes < start || minutes >= end) continue
+
+        const date = addDays(shift.date, dayOffset)
+        if (!isMedicationActiveOn(medication, date)) continue
+
+        doses.push({
+          dose: {
+            medication,
+            scheduledTime: time,
+            date,
+            administration: recorded.get(`${medication.id}|${time}`),
+          },
+          minutes,
+        })
+      }
+    }
+  }
+
+  return doses
+    .sort((a, b) => a.minutes - b.minutes || a.dose.medication.name.localeCompare(b.dose.medication.name, 'fr'))
+    .map(({ dose }) => dose)
+}
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest'
+import { formatKm, summarizeMileage } from './allowance'
+
+describe('summarizeMileage', () => {
+  it('n\'indemnise que les trajets avec le véhicule de l\'auxiliaire', () => {
+    const summary = summarizeMileage(
+      [
+        { distanceKm: 12.4, vehicle: 'employee' },
+        { distanceKm: 3.1, vehicle: 'employee' },
+        { distanceKm: 20, vehicle: 'beneficiary' },
+      ],
+      0.636
+    )
+
+    expect(summary).toEqual({
+      tripsCount: 3,
+      totalKm: 35.5,
+      reimbursableKm: 15.5,
+      ratePerKm: 0.636,
+      amount: 9.86,
+    })
+  })
+
+  it('renvoie zéro sans trajet', () => {
+    expect(summarizeMileage([], 0.5).amount).toBe(0)
+  })
+})
+
+describe('formatKm', () => {
+  it('formate à la française', () => {
+    expect(formatKm(12.5)).toBe('12,5 km')
+  })
+})
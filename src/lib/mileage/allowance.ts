@@ -0,0 +1,59 @@
+/**
+ * Indemnités kilométriques des trajets effectués pour le bénéficiaire.
+ *
+ * Seuls les trajets avec le véhicule personnel de l'auxiliaire sont
+ * indemnisés, au taux au kilomètre choisi par l'employeur (paramètres de
+ * convention). L'indemnité est un remboursement de frais : elle s'ajoute au
+ * net versé mais n'entre pas dans le brut déclaré.
+ */
+
+import type { ShiftTrip, TripVehicle } from '@/types'
+
+/** Barème fiscal 2024, 5 CV, jusqu'à 5 000 km/an */
+export const DEFAULT_MILEAGE_RATE = 0.636
+
+/** Barème fiscal 2024 (jusqu'à 5 000 km/an), par puissance administrative */
+export const MILEAGE_RATE_PRESETS: { label: string; rate: number }[] = [
+  { label: '3 CV et moins', rate: 0.529 },
+  { label: '4 CV', rate: 0.606 },
+  { label: '5 CV', rate: 0.636 },
+  { label: '6 CV', rate: 0.665 },
+  { label: '7 CV et plus', rate: 0.697 },
+]
+
+export const TRIP_VEHICLE_LABELS: Record<TripVehicle, string> = {
+  employee: "Véhicule de l'auxiliaire",
+  beneficiary: 'Véhicule du bénéficiaire',
+}
+
+export interface MileageSummary {
+  tripsCount: number
+  totalKm: number
+  /** Kilomètres parcourus avec le véhicule de l'auxiliaire */
+  reimbursableKm: number
+  ratePerKm: number
+  amount: number
+}
+
+export function isReimbursableTrip(trip: Pick<ShiftTrip, 'vehicle'>): boolean {
+  return trip.vehicle === 'employee'
+}
+
+export function summarizeMileage(
+  trips: Pick<ShiftTrip, 'distanceKm' | 'vehicle'>[],
+  ratePerKm: number
+): MileageSummary {
+  const totalKm = trips.reduce((sum, t) => sum + t.distanceKm, 0)
+  const reimbursableKm = trips.filter(isReimbursableTrip).reduce((sum, t) => sum + t.distanceKm, 0)
+  return {
+    tripsCount: trips.length,
+    totalKm: Math.round(totalKm * 10) / 10,
+    reimbursableKm: Math.round(reimbursableKm * 10) / 10,
+    ratePerKm,
+    amount: Math.round(reimbursableKm * ratePerKm * 100) / 100,
+  }
+}
+
+export function formatKm(km: number): string {
+  return `${km.toLocaleString('fr-FR', { maximumFractionDigits: 1 })} km`
+}
@@ -1,11 +1,13 @@
-import { describe, it, expect } from 'vitest'
+import { describe, it, expect, afterEach } from 'vitest'
 import {
   getPchElementRate,
   calcEnveloppePch,
   PCH_TARIFFS_2026,
-  PCH_TYPE_LABELS,
+  getPchTypeLabels,
+  getPchRates,
   type PchType,
 } from './pchTariffs'
+import { registerParameterVersions, resetParameterRegistry, PCH_TARIFFS_2026 as BASE } from '@/lib/regulatory/parameters'
 
 describe('pchTariffs', () => {
   describe('PCH_TARIFFS_2026', () => {
@@ -34,7 +36,7 @@ describe('pchTariffs', () => {
     })
   })
 
-  describe('PCH_TYPE_LABELS', () => {
+  describe('getPchTypeLabels', () => {
     it('fournit un label pour chaque type', () => {
       const types: PchType[] = [
         'emploiDirect',
@@ -44,15 +46,15 @@ describe('pchTariffs', () => {
         'aidantFamilialCessation',
       ]
       types.forEach((t) => {
-        expect(PCH_TYPE_LABELS[t]).toBeDefined()
-        expect(PCH_TYPE_LABELS[t].length).toBeGreaterThan(0)
+        expect(getPchTypeLabels()[t]).toBeDefined()
+        expect(getPchTypeLabels()[t].length).toBeGreaterThan(0)
       })
     })
 
     it('les labels incluent le tarif horaire', () => {
-      expect(PCH_TYPE_LABELS.emploiDirect).toContain('19,92')
-      expect(PCH_TYPE_LABELS.mandataire).toContain('21,91')
-      expect(PCH_TYPE_LABELS.prestataire).toContain('25,00')
+      expect(getPchTypeLabels().emploiDirect).toContain('19,92')
+      expect(getPchTypeLabels().mandataire).toContain('21,91')
+      expect(getPchTypeLabels().prestataire).toContain('25,00')
     })
   })
 
@@ -98,4 +100,28 @@ describe('pchTariffs', () => {
       expect(calcEnveloppePch(100, 'aidantFamilial')).toBeCloseTo(493, 2)
     })
   })
+
+  describe('tarifs datés', () => {
+    afterEach(() => {
+      resetParameterRegistry()
+    })
+
+    it('résout le tarif en vigueur à la date demandée', () => {
+      registerParameterVersions([
+        { key: 'pchTariffs', effectiveFrom: '2027-06-01', value: { ...BASE, emploiDirect: 20.5 } },
+      ])
+      expect(getPchElementRate('emploiDirect', new Date(2027, 2, 1))).toBe(19.92)
+      expect(getPchElementRate('emploiDirect', new Date(2027, 6, 1))).toBe(20.5)
+      expect(calcEnveloppePch(10, 'emploiDirect', new Date(2027, 6, 1))).toBeCloseTo(205, 2)
+    })
+
+    it('les labels et taux aidants suivent la date', () => {
+      registerParameterVersions([
+        { key: 'pchTariffs', effectiveFrom: '2027-06-01', value: { ...BASE, aidantFamilial: 5.1 } },
+      ])
+      expect(getPchTypeLabels(new Date(2027, 6, 1)).aidantFamilial).toContain('5,10')
+      expect(getPchRates(new Date(2027, 6, 1)).active).toBe(5.1)
+      expect(getPchRates(new Date(2026, 6, 1)).active).toBe(4.93)
+    })
+  })
 })
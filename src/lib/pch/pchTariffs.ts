@@ -1,42 +1,66 @@
 /**
  * Tarifs PCH (Prestation de Compensation du Handicap)
- * Référence : Art. L245-12 CASF — tarifs en vigueur au 01/06/2026
- * Source : CNSA, « Tarifs PCH au 1er juin 2026 » (relèvement SMIC + arrêté du 4 mai 2026,
- * extension de l'avenant n°10 du 5 février 2026 à la convention IDCC 3239)
- * Indexés sur IDCC 3239 + SMIC
+ * Référence : Art. L245-12 CASF
+ * Indexés sur IDCC 3239 + SMIC — les tarifs sont datés dans le registre
+ * réglementaire (`lib/regulatory/parameters`) et résolus à la date demandée.
  */
 
-export type PchType =
-  | 'emploiDirect'
-  | 'mandataire'
-  | 'prestataire'
-  | 'aidantFamilial'
-  | 'aidantFamilialCessation'
-
-/** Tarifs horaires PCH Élément 1 au 01/06/2026 (€/h) */
-export const PCH_TARIFFS_2026: Record<PchType, number> = {
-  emploiDirect:            19.92,
-  mandataire:              21.91,
-  prestataire:             25.00,
-  aidantFamilial:           4.93,
-  aidantFamilialCessation:  7.39,
+import { getParameter, PCH_TARIFFS_2026, type PchType } from '@/lib/regulatory/parameters'
+
+export type { PchType }
+export { PCH_TARIFFS_2026 }
+
+const PCH_TYPE_NAMES: Record<PchType, string> = {
+  emploiDirect:            'Emploi direct',
+  mandataire:              'Mandataire',
+  prestataire:             'Prestataire',
+  aidantFamilial:          'Aidant familial',
+  aidantFamilialCessation: 'Aidant familial (cessation activité)',
+}
+
+function formatRate(rate: number): string {
+  return rate.toFixed(2).replace('.', ',')
+}
+
+/** Tarifs horaires PCH Élément 1 en vigueur à une date (€/h) */
+export function getPchTariffs(date: Date = new Date()): Record<PchType, number> {
+  return getParameter('pchTariffs', date)
+}
+
+/** Labels affichés dans l'interface, avec le tarif en vigueur à la date */
+export function getPchTypeLabels(date: Date = new Date()): Record<PchType, string> {
+  const tariffs = getPchTariffs(date)
+  return Object.fromEntries(
+    (Object.keys(PCH_TYPE_NAMES) as PchType[]).map((type) => [
+      type,
+      `${PCH_TYPE_NAMES[type]} — ${formatRate(tariffs[type])} €/h`,
+    ])
+  ) as Record<PchType, string>
 }
 
-/** Labels affichés dans l'interface */
-export const PCH_TYPE_LABELS: Record<PchType, string> = {
-  emploiDirect:            'Emploi direct — 19,92 €/h',
-  mandataire:              'Mandataire — 21,91 €/h',
-  prestataire:             'Prestataire — 25,00 €/h',
-  aidantFamilial:          'Aidant familial — 4,93 €/h',
-  aidantFamilialCessation: 'Aidant familial (cessation activité) — 7,39 €/h',
+/**
+ * Taux de dédommagement des aidants familiaux en vigueur à une date.
+ * active = aidant familial dédommagé (50% SMIC net)
+ * full_time = aidant ayant cessé son activité (75% SMIC net)
+ */
+export function getPchRates(date: Date = new Date()): { active: number; full_time: number } {
+  const tariffs = getPchTariffs(date)
+  return {
+    active: tariffs.aidantFamilial,
+    full_time: tariffs.aidantFamilialCessation,
+  }
 }
 
-/** Retourne le tarif horaire PCH pour un type donné */
-export function getPchElementRate(pchType: PchType): number {
-  return PCH_TARIFFS_2026[pchType]
+/** Retourne le tarif horaire PCH pour un type donné, en vigueur à la date */
+export function getPchElementRate(pchType: PchType, date: Date = new Date()): number {
+  return getPchTariffs(date)[pchType]
 }
 
-/** Calcule l'enveloppe PCH mensuelle (€) */
-export function calcEnveloppePch(pchMonthlyHours: number, pchType: PchType): number {
-  return pchMonthlyHours * getPchElementRate(pchType)
+/** Calcule l'enveloppe PCH mensuelle (€) au tarif en vigueur à la date */
+export function calcEnveloppePch(
+  pchMonthlyHours: number,
+  pchType: PchType,
+  date: Date = new Date()
+): number {
+  return pchMonthlyHours * getPchElementRate(pchType, date)
 }
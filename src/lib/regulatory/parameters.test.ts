@@ -0,0 +1,95 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn(), debug: vi.fn() },
+}))
+
+import { logger } from '@/lib/logger'
+import {
+  getParameter,
+  getParametersAt,
+  getParameterHistory,
+  registerParameterVersions,
+  resetParameterRegistry,
+  COTISATION_RATES_2025,
+  PCH_TARIFFS_2025,
+  PCH_TARIFFS_2026,
+} from './parameters'
+
+describe('regulatory parameters', () => {
+  afterEach(() => {
+    resetParameterRegistry()
+    vi.clearAllMocks()
+  })
+
+  describe('getParameter', () => {
+    it('résout la version en vigueur à la date', () => {
+      expect(getParameter('passMonthly', new Date(2025, 11, 31))).toBe(3_925)
+      expect(getParameter('passMonthly', new Date(2026, 0, 1))).toBe(4_005)
+    })
+
+    it('accepte une date au format yyyy-MM-dd', () => {
+      expect(getParameter('passMonthly', '2025-03-01')).toBe(3_925)
+    })
+
+    it('retient la première version pour une date antérieure et le journalise une fois', () => {
+      expect(getParameter('smicMonthly', new Date(2020, 0, 1))).toBe(1_766.92)
+      expect(getParameter('smicMonthly', new Date(2021, 0, 1))).toBe(1_766.92)
+      expect(logger.warn).toHaveBeenCalledTimes(1)
+      expect(vi.mocked(logger.warn).mock.calls[0][0]).toContain('smicMonthly')
+    })
+
+    it('ne journalise rien pour une date couverte', () => {
+      getParameter('smicMonthly', new Date(2024, 5, 1))
+      expect(logger.warn).not.toHaveBeenCalled()
+    })
+
+    it('applique les tarifs PCH en vigueur avant la revalorisation de juin 2026', () => {
+      expect(getParameter('pchTariffs', new Date(2026, 2, 15))).toEqual(PCH_TARIFFS_2025)
+      expect(getParameter('pchTariffs', new Date(2026, 5, 1))).toEqual(PCH_TARIFFS_2026)
+    })
+  })
+
+  describe('registerParameterVersions', () => {
+    it('insère une revalorisation et conserve l\'historique', () => {
+      registerParameterVersions([
+        { key: 'smicMonthly', effectiveFrom: '2026-06-01', value: 1_850 },
+      ])
+      expect(getParameter('smicMonthly', new Date(2026, 2, 15))).toBe(1_801.80)
+      expect(getParameter('smicMonthly', new Date(2026, 9, 15))).toBe(1_850)
+    })
+
+    it('remplace une version à date d\'effet identique', () => {
+      registerParameterVersions([
+        { key: 'passMonthly', effectiveFrom: '2026-01-01', value: 4_100 },
+      ])
+      expect(getParameterHistory('passMonthly')).toHaveLength(3)
+      expect(getParameter('passMonthly', new Date(2026, 5, 1))).toBe(4_100)
+    })
+
+    it('garde la chronologie triée même si les versions arrivent dans le désordre', () => {
+      registerParameterVersions([
+        { key: 'passMonthly', effectiveFrom: '2028-01-01', value: 4_300 },
+        { key: 'passMonthly', effectiveFrom: '2027-01-01', value: 4_200 },
+      ])
+      expect(getParameterHistory('passMonthly').map((v) => v.effectiveFrom)).toEqual([
+        '2024-01-01',
+        '2025-01-01',
+        '2026-01-01',
+        '2027-01-01',
+        '2028-01-01',
+      ])
+      expect(getParameter('passMonthly', new Date(2027, 6, 1))).toBe(4_200)
+    })
+  })
+
+  describe('getParametersAt', () => {
+    it('regroupe toutes les valeurs en vigueur', () => {
+      const params = getParametersAt(new Date(2026, 2, 1))
+      expect(params.passMonthly).toBe(4_005)
+      expect(params.smicMonthly).toBe(1_801.80)
+      expect(params.cotisationRates).toEqual(COTISATION_RATES_2025)
+      expect(params.pchTariffs.emploiDirect).toBe(19.34)
+    })
+  })
+})
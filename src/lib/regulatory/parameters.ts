@@ -0,0 +1,211 @@
+/**
+ * Registre des paramètres réglementaires datés (SMIC, PASS, tarifs PCH, taux de cotisations)
+ *
+ * Chaque paramètre est une chronologie de versions `{ effectiveFrom, value }`.
+ * Les calculs résolvent la valeur en vigueur à la date de la période calculée :
+ * un récap CESU de mars 2026 régénéré en octobre utilise toujours les taux de mars.
+ *
+ * Les versions intégrées ci-dessous servent de socle ; les revalorisations publiées
+ * après une release sont ajoutées en base (table `regulatory_parameters`) et
+ * fusionnées via `registerParameterVersions` (cf. `loadRegulatoryParameters`, à
+ * attendre avant tout calcul daté).
+ *
+ * Une date antérieure à la première version connue n'a pas de valeur fiable :
+ * la première version est retenue et l'écart est journalisé.
+ */
+
+import { format } from 'date-fns'
+import { logger } from '@/lib/logger'
+
+export type PchType =
+  | 'emploiDirect'
+  | 'mandataire'
+  | 'prestataire'
+  | 'aidantFamilial'
+  | 'aidantFamilialCessation'
+
+/** Taux de cotisations IDCC 3239 (décimaux, ex: 0.068 pour 6,8 %) */
+export interface CotisationRates {
+  /** Part du brut soumise à CSG/CRDS (abattement frais pro 1,75 %) */
+  csgBaseRatio: number
+  csgDeductible: number
+  csgNonDeductible: number
+  crds: number
+  vieillessePlafonneeSalariale: number
+  agircArrcoT1Salariale: number
+  /** Maladie : taux réduit si brut ≤ `maladieSmicThreshold` × SMIC mensuel */
+  maladieReduit: number
+  maladiePlein: number
+  maladieSmicThreshold: number
+  /** Allocations familiales : taux réduit si brut ≤ `allocFamSmicThreshold` × SMIC mensuel */
+  allocFamReduit: number
+  allocFamPlein: number
+  allocFamSmicThreshold: number
+  vieillessePlafonneePatronale: number
+  vieillesseDeplafonneePatronale: number
+  atMp: number
+  chomage: number
+  fnal: number
+  csa: number
+  agircArrcoT1Patronale: number
+}
+
+/** Ensemble des paramètres résolus pour une date donnée */
+export interface RegulatoryParameters {
+  /** Plafond mensuel de la Sécurité Sociale (€) */
+  passMonthly: number
+  /** SMIC mensuel brut base 35h (€) */
+  smicMonthly: number
+  /** Tarifs horaires PCH Élément 1 (€/h) */
+  pchTariffs: Record<PchType, number>
+  cotisationRates: CotisationRates
+}
+
+export type RegulatoryParameterKey = keyof RegulatoryParameters
+
+export interface ParameterVersion<K extends RegulatoryParameterKey = RegulatoryParameterKey> {
+  key: K
+  /** Date d'entrée en vigueur, format yyyy-MM-dd */
+  effectiveFrom: string
+  value: RegulatoryParameters[K]
+  /** Texte de référence (arrêté, décret, circulaire…) */
+  source?: string
+}
+
+// ─── Versions intégrées ──────────────────────────────────────────────────────
+
+/** Tarifs horaires PCH Élément 1 au 01/01/2025 (€/h) */
+export const PCH_TARIFFS_2025: Record<PchType, number> = {
+  emploiDirect:            19.34,
+  mandataire:              21.27,
+  prestataire:             24.58,
+  aidantFamilial:           4.70,
+  aidantFamilialCessation:  7.05,
+}
+
+/** Tarifs horaires PCH Élément 1 au 01/06/2026 (€/h) */
+export const PCH_TARIFFS_2026: Record<PchType, number> = {
+  emploiDirect:            19.92,
+  mandataire:              21.91,
+  prestataire:             25.00,
+  aidantFamilial:           4.93,
+  aidantFamilialCessation:  7.39,
+}
+
+/** Taux de cotisations salariat direct en vigueur au 01/01/2025 */
+export const COTISATION_RATES_2025: CotisationRates = {
+  csgBaseRatio: 0.9825,
+  csgDeductible: 0.068,
+  csgNonDeductible: 0.024,
+  crds: 0.005,
+  vieillessePlafonneeSalariale: 0.069,
+  agircArrcoT1Salariale: 0.0315,
+  maladieReduit: 0.07,
+  maladiePlein: 0.13,
+  maladieSmicThreshold: 2.5,
+  allocFamReduit: 0.0345,
+  allocFamPlein: 0.0525,
+  allocFamSmicThreshold: 3.5,
+  vieillessePlafonneePatronale: 0.0855,
+  vieillesseDeplafonneePatronale: 0.019,
+  atMp: 0.005,
+  chomage: 0.0405,
+  fnal: 0.001,
+  csa: 0.003,
+  agircArrcoT1Patronale: 0.0472,
+}
+
+const BUILTIN_VERSIONS: ParameterVersion[] = [
+  { key: 'passMonthly', effectiveFrom: '2024-01-01', value: 3_864 },
+  { key: 'passMonthly', effectiveFrom: '2025-01-01', value: 3_925 },
+  { key: 'passMonthly', effectiveFrom: '2026-01-01', value: 4_005 },
+  { key: 'smicMonthly', effectiveFrom: '2024-01-01', value: 1_766.92 },
+  { key: 'smicMonthly', effectiveFrom: '2024-11-01', value: 1_801.80 },
+  { key: 'pchTariffs', effectiveFrom: '2025-01-01', value: PCH_TARIFFS_2025, source: 'CNSA, tarifs PCH au 1er janvier 2025' },
+  { key: 'pchTariffs', effectiveFrom: '2026-06-01', value: PCH_TARIFFS_2026, source: 'CNSA, tarifs PCH au 1er juin 2026' },
+  { key: 'cotisationRates', effectiveFrom: '2025-01-01', value: COTISATION_RATES_2025 },
+]
+
+// ─── Registre ────────────────────────────────────────────────────────────────
+
+type Registry = { [K in RegulatoryParameterKey]: ParameterVersion<K>[] }
+
+function emptyRegistry(): Registry {
+  return { passMonthly: [], smicMonthly: [], pchTariffs: [], cotisationRates: [] }
+}
+
+let registry: Registry = emptyRegistry()
+
+function toDateKey(date: Date | string): string {
+  return typeof date === 'string' ? date.slice(0, 10) : format(date, 'yyyy-MM-dd')
+}
+
+/**
+ * Ajoute (ou remplace, à date d'effet identique) des versions de paramètres.
+ * Les chronologies restent triées par date d'effet croissante.
+ */
+export function registerParameterVersions(versions: ParameterVersion[]): void {
+  for (const version of versions) {
+    const timeline = registry[version.key] as ParameterVersion[]
+    const effectiveFrom = toDateKey(version.effectiveFrom)
+    const index = timeline.findIndex((v) => v.effectiveFrom === effectiveFrom)
+    const entry = { ...version, effectiveFrom }
+    if (index >= 0) {
+      timeline[index] = entry
+    } else {
+      timeline.push(entry)
+    }
+    timeline.sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom))
+  }
+}
+
+const warnedBeforeFirstVersion = new Set<RegulatoryParameterKey>()
+
+/** Réinitialise le registre aux seules versions intégrées (tests) */
+export function resetParameterRegistry(): void {
+  registry = emptyRegistry()
+  warnedBeforeFirstVersion.clear()
+  registerParameterVersions(BUILTIN_VERSIONS)
+}
+
+resetParameterRegistry()
+
+/** Chronologie complète d'un paramètre (copie, triée par date d'effet) */
+export function getParameterHistory<K extends RegulatoryParameterKey>(key: K): ParameterVersion<K>[] {
+  return [...registry[key]]
+}
+
+/**
+ * Valeur d'un paramètre en vigueur à une date.
+ * Une date antérieure à la première version connue retient cette première
+ * version et le signale dans les logs (une fois par paramètre).
+ */
+export function getParameter<K extends RegulatoryParameterKey>(
+  key: K,
+  date: Date | string = new Date()
+): RegulatoryParameters[K] {
+  const timeline = registry[key]
+  const dateKey = toDateKey(date)
+  let current = timeline[0]
+  if (dateKey < current.effectiveFrom && !warnedBeforeFirstVersion.has(key)) {
+    warnedBeforeFirstVersion.add(key)
+    logger.warn(
+      `Paramètre réglementaire "${key}" inconnu au ${dateKey} : première version (${current.effectiveFrom}) retenue`
+    )
+  }
+  for (const version of timeline) {
+    if (version.effectiveFrom > dateKey) break
+    current = version
+  }
+  return current.value
+}
+
+/** Tous les paramètres en vigueur à une date */
+export function getParametersAt(date: Date | string = new Date()): RegulatoryParameters {
+  return {
+    passMonthly: getParameter('passMonthly', date),
+    smicMonthly: getParameter('smicMonthly', date),
+    pchTariffs: getParameter('pchTariffs', date),
+    cotisationRates: getParameter('cotisationRates', date),
+  }
+}
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest'
+import {
+  reconcileShift,
+  getPayableTimes,
+  summarizeReconciliation,
+  DEVIATION_TOLERANCE_MINUTES,
+  type ReconcilableShift,
+} from './reconciliation'
+
+function makeShift(overrides: Partial<ReconcilableShift> = {}): ReconcilableShift {
+  return {
+    date: new Date(2026, 2, 10),
+    startTime: '09:00',
+    endTime: '12:00',
+    breakDuration: 0,
+    shiftType: 'effective',
+    ...overrides,
+  }
+}
+
+const at = (h: number, m: number, day = 10) => new Date(2026, 2, day, h, m)
+
+describe('reconcileShift', () => {
+  it('sans pointage : pas d\'écart, durée prévue seule', () => {
+    const rec = reconcileShift(makeShift())
+
+    expect(rec.plannedMinutes).toBe(180)
+    expect(rec.actualMinutes).toBeNull()
+    expect(rec.deltaMinutes).toBe(0)
+    expect(rec.status).toBe('none')
+  })
+
+  it('ignore un écart dans la tolérance', () => {
+    const rec = reconcileShift(makeShift({
+      clockedInAt: at(9, DEVIATION_TOLERANCE_MINUTES),
+      clockedOutAt: at(12, 0),
+    }))
+
+    expect(rec.startDeltaMinutes).toBe(DEVIATION_TOLERANCE_MINUTES)
+    expect(rec.deltaMinutes).toBe(-DEVIATION_TOLERANCE_MINUTES)
+    expect(rec.status).toBe('none')
+  })
+
+  it('soumet un dépassement à l\'employeur', () => {
+    const rec = reconcileShift(makeShift({
+      clockedInAt: at(8, 58),
+      clockedOutAt: at(12, 40),
+    }))
+
+    expect(rec.actualStartTime).toBe('08:58')
+    expect(rec.actualEndTime).toBe('12:40')
+    expect(rec.actualMinutes).toBe(222)
+    expect(rec.deltaMinutes).toBe(42)
+    expect(rec.endDeltaMinutes).toBe(40)
+    expect(rec.status).toBe('pending')
+  })
+
+  it('reprend la décision de l\'employeur', () => {
+    const rec = reconcileShift(makeShift({
+      clockedInAt: at(9, 30),
+      clockedOutAt: at(12, 0),
+      actualReview: 'rejected',
+    }))
+
+    expect(rec.status).toBe('rejected')
+  })
+
+  it('déduit la pause et gère le passage de minuit', () => {
+    const rec = reconcileShift(makeShift({
+      startTime: '22:00',
+      endTime: '02:00',
+      breakDuration: 30,
+      clockedInAt: at(22, 0),
+      clockedOutAt: at(3, 0, 11),
+    }))
+
+    expect(rec.plannedMinutes).toBe(210)
+    expect(rec.actualMinutes).toBe(270)
+    expect(rec.endDeltaMinutes).toBe(60)
+  })
+
+  it('ne rapproche pas une garde de 24h', () => {
+    const rec = reconcileShift(makeShift({
+      shiftType: 'guard_24h',
+      clockedInAt: at(10, 0),
+      clockedOutAt: at(11, 0),
+    }))
+
+    expect(rec.status).toBe('none')
+  })
+})
+
+describe('getPayableTimes', () => {
+  const clocked = { clockedInAt: at(8, 30), clockedOutAt: at(12, 45) }
+
+  it('paie les heures réelles acceptées', () => {
+    expect(getPayableTimes(makeShift({ ...clocked, actualReview: 'accepted' })))
+      .toEqual({ startTime: '08:30', endTime: '12:45' })
+  })
+
+  it('garde le planning tant que l\'écart n\'est pas accepté', () => {
+    expect(getPayableTimes(makeShift(clocked))).toEqual({ startTime: '09:00', endTime: '12:00' })
+    expect(getPayableTimes(makeShift({ ...clocked, actualReview: 'rejected' })))
+      .toEqual({ startTime: '09:00', endTime: '12:00' })
+  })
+
+  it('garde le planning sans pointage de fin', () => {
+    expect(getPayableTimes(makeShift({ clockedInAt: at(8, 30), actualReview: 'accepted' })))
+      .toEqual({ startTime: '09:00', endTime: '12:00' })
+  })
+})
+
+describe('summarizeReconciliation', () => {
+  it('cumule prévu, réel (prévu à défaut) et statuts', () => {
+    const summary = summarizeReconciliation([
+      makeShift(),
+      makeShift({ clockedInAt: at(9, 0), clockedOutAt: at(12, 30) }),
+      makeShift({ clockedInAt: at(9, 0), clockedOutAt: at(11, 0), actualReview: 'accepted' }),
+    ])
+
+    expect(summary.plannedMinutes).toBe(540)
+    expect(summary.actualMinutes).toBe(180 + 210 + 120)
+    expect(summary.deltaMinutes).toBe(30 - 60)
+    expect(summary.pendingCount).toBe(1)
+    expect(summary.acceptedCount).toBe(1)
+    expect(summary.rejectedCount).toBe(0)
+  })
+})
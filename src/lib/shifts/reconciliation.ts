@@ -0,0 +1,148 @@
+/**
+ * Rapprochement horaires prévus / réels.
+ *
+ * Le planning (`startTime` / `endTime`) n'est jamais réécrit par le pointage :
+ * les heures réelles sont `clockedInAt` / `clockedOutAt`. Un écart au-delà de
+ * la tolérance est soumis à l'employeur ; seules les heures réelles acceptées
+ * remplacent le planning dans le calcul de paie et la déclaration CESU.
+ */
+
+import { differenceInMinutes, format } from 'date-fns'
+import { createDateTime, getShiftEndDateTime, getShiftDurationMinutes } from '@/lib/compliance/utils'
+import type { ActualReview, ShiftType } from '@/types'
+
+/** Écart toléré (début ou fin) avant revue par l'employeur */
+export const DEVIATION_TOLERANCE_MINUTES = 5
+
+/**
+ * - `none` : pas d'heures réelles, ou écart dans la tolérance
+ * - `pending` : écart en attente de décision de l'employeur
+ */
+export type DeviationStatus = 'none' | 'pending' | ActualReview
+
+/** Champs nécessaires au rapprochement (Shift ou ligne DB convertie) */
+export interface ReconcilableShift {
+  date: Date
+  startTime: string
+  endTime: string
+  breakDuration: number
+  shiftType?: ShiftType
+  effectiveHours?: number
+  clockedInAt?: Date
+  clockedOutAt?: Date
+  actualReview?: ActualReview
+}
+
+export interface ShiftReconciliation {
+  plannedMinutes: number
+  /** Durée réelle (pause déduite), null sans pointage complet */
+  actualMinutes: number | null
+  /** Réel − prévu, en minutes */
+  deltaMinutes: number
+  /** Arrivée réelle − début prévu (positif = retard) */
+  startDeltaMinutes: number
+  /** Départ réel − fin prévue (positif = départ plus tard) */
+  endDeltaMinutes: number
+  actualStartTime?: string
+  actualEndTime?: string
+  status: DeviationStatus
+}
+
+export interface ReconciliationSummary {
+  plannedMinutes: number
+  /** Réel quand il existe, prévu sinon */
+  actualMinutes: number
+  deltaMinutes: number
+  pendingCount: number
+  acceptedCount: number
+  rejectedCount: number
+}
+
+/** Heures réelles "HH:mm", si début et fin ont été pointés */
+export function getActualTimes(
+  shift: Pick<ReconcilableShift, 'clockedInAt' | 'clockedOutAt'>
+): { startTime: string; endTime: string } | null {
+  if (!shift.clockedInAt || !shift.clockedOutAt) return null
+  return {
+    startTime: format(shift.clockedInAt, 'HH:mm'),
+    endTime: format(shift.clockedOutAt, 'HH:mm'),
+  }
+}
+
+export function reconcileShift(shift: ReconcilableShift): ShiftReconciliation {
+  const plannedMinutes = getShiftDurationMinutes(shift)
+  const actual = getActualTimes(shift)
+
+  // Garde 24h : la durée payée vient des segments, pas des heures de pointage
+  if (!actual || shift.shiftType === 'guard_24h') {
+    return {
+      plannedMinutes,
+      actualMinutes: null,
+      deltaMinutes: 0,
+      startDeltaMinutes: 0,
+      endDeltaMinutes: 0,
+      status: 'none',
+    }
+  }
+
+  const date = new Date(shift.date)
+  const startDeltaMinutes = differenceInMinutes(shift.clockedInAt!, createDateTime(date, shift.startTime))
+  const endDeltaMinutes = differenceInMinutes(
+    shift.clockedOutAt!,
+    getShiftEndDateTime(date, shift.startTime, shift.endTime)
+  )
+  const actualMinutes = Math.max(
+    0,
+    differenceInMinutes(shift.clockedOutAt!, shift.clockedInAt!) - shift.breakDuration
+  )
+
+  const hasDeviation =
+    Math.abs(startDeltaMinutes) > DEVIATION_TOLERANCE_MINUTES ||
+    Math.abs(endDeltaMinutes) > DEVIATION_TOLERANCE_MINUTES
+
+  return {
+    plannedMinutes,
+    actualMinutes,
+    deltaMinutes: actualMinutes - plannedMinutes,
+    startDeltaMinutes,
+    endDeltaMinutes,
+    actualStartTime: actual.startTime,
+    actualEndTime: actual.endTime,
+    status: hasDeviation ? (shift.actualReview ?? 'pending') : 'none',
+  }
+}
+
+/**
+ * Horaires à payer : les heures réelles si l'employeur a accepté l'écart,
+ * le planning sinon (écart en attente, refusé, ou pas de pointage).
+ */
+export function getPayableTimes(shift: ReconcilableShift): { startTime: string; endTime: string } {
+  const actual = getActualTimes(shift)
+  if (actual && shift.actualReview === 'accepted' && shift.shiftType !== 'guard_24h') {
+    return actual
+  }
+  return { startTime: shift.startTime, endTime: shift.endTime }
+}
+
+export function summarizeReconciliation(shifts: ReconcilableShift[]): ReconciliationSummary {
+  const summary: ReconciliationSummary = {
+    plannedMinutes: 0,
+    actualMinutes: 0,
+    deltaMinutes: 0,
+    pendingCount: 0,
+    acceptedCount: 0,
+    rejectedCount: 0,
+  }
+
+  for (const shift of shifts) {
+    const rec = reconcileShift(shift)
+    summary.plannedMinutes += rec.plannedMinutes
+    summary.actualMinutes += rec.actualMinutes ?? rec.plannedMinutes
+    summary.deltaMinutes += rec.deltaMinutes
+    if (rec.status === 'pending') summary.pendingCount++
+    if (rec.status === 'accepted') summary.acceptedCount++
+    if (rec.status === 'rejected') summary.rejectedCount++
+  }
+
+  return summary
+}
@@ -4,6 +4,8 @@
  * YYYY-MM-DD stockées en base (interprétées comme UTC midnight).
  */
 
+import { expandSeries, type SeriesRule } from './series'
+
 export type RepeatFrequency = 'weekly' | 'custom'
 
 export interface RepeatConfig {
@@ -20,59 +22,37 @@ export interface RepeatConfig {
   endDate?: Date
 }
 
-/** Nombre maximum d'occurrences pour éviter les boucles infinies */
-const MAX_OCCURRENCES = 52
+/**
+ * Convertit la configuration du formulaire en règle de série.
+ * La date de référence est la première occurrence : COUNT = répétitions + 1.
+ * Retourne null si aucun jour n'est sélectionné en mode hebdomadaire.
+ */
+export function toSeriesRule(config: RepeatConfig): SeriesRule | null {
+  const { frequency, endDate, daysOfWeek, intervalDays = 7, repeatCount } = config
+
+  const bounds = {
+    count: !endDate && repeatCount ? repeatCount + 1 : undefined,
+    until: endDate,
+  }
+
+  if (frequency === 'weekly') {
+    if (!daysOfWeek || daysOfWeek.length === 0) return null
+    return { freq: 'WEEKLY', interval: 1, byDay: daysOfWeek, ...bounds }
+  }
 
-/** Crée une date UTC midnight à partir des composantes UTC d'une date */
-function toUTCMidnight(date: Date): Date {
-  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+  return { freq: 'DAILY', interval: Math.max(1, intervalDays), ...bounds }
 }
 
 /**
  * Génère la liste des dates des occurrences à créer.
  * - Exclut la date de référence (startDate)
  * - Tri croissant
- * - Max 52 occurrences
+ * - Sans date de fin ni nombre, bornée à l'horizon des séries (1 an) ;
+ *   les occurrences suivantes sont créées au fil de l'eau
  */
 export function generateRepeatDates(config: RepeatConfig): Date[] {
-  const { startDate, frequency, endDate, daysOfWeek, intervalDays = 7, repeatCount } = config
-
-  const dates: Date[] = []
-  const start = toUTCMidnight(startDate)
-  const end = endDate ? toUTCMidnight(endDate) : null
-
-  if (frequency === 'weekly') {
-    if (!daysOfWeek || daysOfWeek.length === 0) return []
-
-    // Commencer au lendemain de startDate
-    const cursor = new Date(start)
-    cursor.setUTCDate(cursor.getUTCDate() + 1)
-
-    while (dates.length < MAX_OCCURRENCES) {
-      if (end && cursor > end) break
-
-      if (daysOfWeek.includes(cursor.getUTCDay())) {
-        dates.push(new Date(cursor))
-      }
-
-      cursor.setUTCDate(cursor.getUTCDate() + 1)
-
-      if (repeatCount && dates.length >= repeatCount) break
-    }
-  } else {
-    // custom : intervalles fixes en jours
-    const interval = Math.max(1, intervalDays)
-    const cursor = new Date(start)
-    cursor.setUTCDate(cursor.getUTCDate() + interval)
-
-    while (dates.length < MAX_OCCURRENCES) {
-      if (end && cursor > end) break
-      if (repeatCount && dates.length >= repeatCount) break
-
-      dates.push(new Date(cursor))
-      cursor.setUTCDate(cursor.getUTCDate() + interval)
-    }
-  }
+  const rule = toSeriesRule(config)
+  if (!rule) return []
 
-  return dates.sort((a, b) => a.getTime() - b.getTime())
+  return expandSeries(rule, config.startDate).slice(1)
 }
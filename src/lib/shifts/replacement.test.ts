@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getAvailabilityMatch,
+  rankReplacementCandidates,
+  type ReplacementCandidateInput,
+} from './replacement'
+import type { ShiftForValidation } from '@/lib/compliance'
+import type { AvailabilityTemplate } from '@/types'
+
+function makeTemplate(overrides: Partial<AvailabilityTemplate> = {}): AvailabilityTemplate {
+  return {
+    monday: [],
+    tuesday: [],
+    wednesday: [],
+    thursday: [],
+    friday: [],
+    saturday: [],
+    sunday: [],
+    ...overrides,
+  }
+}
+
+// Mardi 10 mars 2026
+const TUESDAY = new Date(2026, 2, 10)
+
+const shift = {
+  date: TUESDAY,
+  startTime: '09:00',
+  endTime: '12:00',
+  breakDuration: 0,
+}
+
+describe('getAvailabilityMatch', () => {
+  it('reconnaît un créneau qui couvre toute l\'intervention', () => {
+    const template = makeTemplate({ tuesday: [{ startTime: '08:00', endTime: '13:00' }] })
+
+    expect(getAvailabilityMatch(template, TUESDAY, '09:00', '12:00')).toBe('full')
+  })
+
+  it('signale une disponibilité partielle', () => {
+    const template = makeTemplate({ tuesday: [{ startTime: '10:00', endTime: '18:00' }] })
+
+    expect(getAvailabilityMatch(template, TUESDAY, '09:00', '12:00')).toBe('partial')
+  })
+
+  it('ne tient compte que du jour de l\'intervention', () => {
+    const template = makeTemplate({ monday: [{ startTime: '08:00', endTime: '18:00' }] })
+
+    expect(getAvailabilityMatch(template, TUESDAY, '09:00', '12:00')).toBe('none')
+    expect(getAvailabilityMatch(undefined, TUESDAY, '09:00', '12:00')).toBe('none')
+  })
+
+  it('évalue une intervention de nuit jusqu\'à minuit', () => {
+    const template = makeTemplate({ tuesday: [{ startTime: '20:00', endTime: '00:00' }] })
+
+    expect(getAvailabilityMatch(template, TUESDAY, '21:00', '07:00')).toBe('full')
+  })
+})
+
+describe('rankReplacementCandidates', () => {
+  const available: ReplacementCandidateInput = {
+    contractId: 'c-available',
+    employeeId: 'e-available',
+    name: 'Zoé Martin',
+    availabilityTemplate: makeTemplate({ tuesday: [{ startTime: '08:00', endTime: '18:00' }] }),
+  }
+  const unavailable: ReplacementCandidateInput = {
+    contractId: 'c-unavailable',
+    employeeId: 'e-unavailable',
+    name: 'Anne Roux',
+    availabilityTemplate: makeTemplate(),
+  }
+  const busy: ReplacementCandidateInput = {
+    contractId: 'c-busy',
+    employeeId: 'e-busy',
+    name: 'Bruno Petit',
+    availabilityTemplate: makeTemplate({ tuesday: [{ startTime: '08:00', endTime: '18:00' }] }),
+  }
+
+  // Bruno travaille déjà sur le créneau
+  const existingShifts: ShiftForValidation[] = [
+    { id: 's-busy', contractId: 'c-busy', employeeId: 'e-busy', date: TUESDAY, startTime: '10:00', endTime: '14:00', breakDuration: 0 },
+  ]
+
+  it('place les candidats conformes et disponibles en tête', () => {
+    const ranked = rankReplacementCandidates(shift, [busy, unavailable, available], existingShifts)
+
+    expect(ranked.map((c) => c.employeeId)).toEqual(['e-available', 'e-unavailable', 'e-busy'])
+    expect(ranked[0]).toMatchObject({ availability: 'full', compliance: { valid: true } })
+  })
+
+  it('bloque un candidat en conflit avec les règles de conformité', () => {
+    const [candidate] = rankReplacementCandidates(shift, [busy], existingShifts)
+
+    expect(candidate.compliance.valid).toBe(false)
+    expect(candidate.compliance.errors.length).toBeGreaterThan(0)
+  })
+
+  it('bloque un candidat lui-même absent', () => {
+    const [candidate] = rankReplacementCandidates(shift, [available], [], [
+      {
+        id: 'abs-1',
+        employeeId: 'e-available',
+        absenceType: 'vacation',
+        startDate: TUESDAY,
+        endDate: TUESDAY,
+        status: 'approved',
+      },
+    ])
+
+    expect(candidate.compliance.valid).toBe(false)
+  })
+})
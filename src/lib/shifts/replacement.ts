@@ -0,0 +1,99 @@
+/**
+ * Recherche de remplaçant pour les interventions d'une absence approuvée.
+ *
+ * Chaque auxiliaire sous contrat est confronté au jeu complet de règles
+ * `validateShift` (repos quotidien, heures hebdomadaires, nuits consécutives…)
+ * puis classé selon ses disponibilités déclarées (`availabilityTemplate`).
+ */
+
+import {
+  timeToMinutes,
+  validateShift,
+  type ShiftForValidation,
+  type AbsenceForValidation,
+} from '@/lib/compliance'
+import type { AvailabilityTemplate, ComplianceResult } from '@/types'
+
+/**
+ * - `full` : un créneau de disponibilité couvre toute l'intervention
+ * - `partial` : un créneau chevauche l'intervention
+ * - `none` : aucune disponibilité déclarée sur ce créneau
+ */
+export type AvailabilityMatch = 'full' | 'partial' | 'none'
+
+export interface ReplacementCandidateInput {
+  contractId: string
+  employeeId: string
+  name: string
+  availabilityTemplate?: AvailabilityTemplate
+}
+
+export interface ReplacementCandidate extends ReplacementCandidateInput {
+  availability: AvailabilityMatch
+  compliance: ComplianceResult
+}
+
+const DAY_KEYS: (keyof AvailabilityTemplate)[] = [
+  'sunday',
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+]
+
+const AVAILABILITY_RANK: Record<AvailabilityMatch, number> = { full: 0, partial: 1, none: 2 }
+
+/**
+ * Disponibilité d'un auxiliaire pour un créneau.
+ * Une intervention de nuit (fin ≤ début) est évaluée jusqu'à minuit le jour de début.
+ */
+export function getAvailabilityMatch(
+  template: AvailabilityTemplate | undefined,
+  date: Date,
+  startTime: string,
+  endTime: string
+): AvailabilityMatch {
+  const slots = template?.[DAY_KEYS[date.getDay()]] ?? []
+  const start = timeToMinutes(startTime)
+  const rawEnd = timeToMinutes(endTime)
+  const end = rawEnd <= start ? 24 * 60 : rawEnd
+
+  let match: AvailabilityMatch = 'none'
+  for (const slot of slots) {
+    const slotStart = timeToMinutes(slot.startTime)
+    const slotEnd = timeToMinutes(slot.endTime) || 24 * 60
+    if (slotStart <= start && slotEnd >= end) return 'full'
+    if (slotStart < end && slotEnd > start) match = 'partial'
+  }
+  return match
+}
+
+/**
+ * Classe les remplaçants possibles d'une intervention : conformes d'abord,
+ * puis par disponibilité, puis par nombre d'avertissements.
+ */
+export function rankReplacementCandidates(
+  shift: Omit<ShiftForValidation, 'contractId' | 'employeeId'>,
+  candidates: ReplacementCandidateInput[],
+  existingShifts: ShiftForValidation[],
+  approvedAbsences: AbsenceForValidation[] = []
+): ReplacementCandidate[] {
+  return candidates
+    .map((candidate) => ({
+      ...candidate,
+      availability: getAvailabilityMatch(candidate.availabilityTemplate, shift.date, shift.startTime, shift.endTime),
+      compliance: validateShift(
+        { ...shift, contractId: candidate.contractId, employeeId: candidate.employeeId },
+        existingShifts,
+        approvedAbsences
+      ),
+    }))
+    .sort((a, b) =>
+      Number(b.compliance.valid) - Number(a.compliance.valid) ||
+      AVAILABILITY_RANK[a.availability] - AVAILABILITY_RANK[b.availability] ||
+      a.compliance.warnings.length - b.compliance.warnings.length ||
+      a.name.localeCompare(b.name, 'fr')
+    )
+}
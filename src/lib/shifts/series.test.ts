@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest'
+import {
+  expandSeries,
+  formatRRule,
+  parseRRule,
+  splitSeriesRule,
+  validateSeriesOccurrences,
+  toSeriesDateKey,
+  SERIES_HORIZON_DAYS,
+  type SeriesRule,
+} from './series'
+import { generateRepeatDates, toSeriesRule } from './repeatDates'
+import type { ShiftForValidation } from '@/lib/compliance'
+
+const d = (iso: string) => new Date(`${iso}T00:00:00.000Z`)
+const keys = (dates: Date[]) => dates.map(toSeriesDateKey)
+
+// Lundi 2 mars 2026
+const MONDAY = d('2026-03-02')
+
+describe('formatRRule / parseRRule', () => {
+  it('sérialise et relit une règle hebdomadaire', () => {
+    const rule: SeriesRule = { freq: 'WEEKLY', interval: 2, byDay: [4, 1], until: d('2026-06-30') }
+
+    const rrule = formatRRule(rule)
+
+    expect(rrule).toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;UNTIL=20260630')
+    expect(parseRRule(`RRULE:${rrule}`)).toEqual({ ...rule, byDay: [1, 4] })
+  })
+
+  it('refuse les fréquences non supportées', () => {
+    expect(() => parseRRule('FREQ=MONTHLY;BYMONTHDAY=1')).toThrow('Fréquence de série non supportée')
+  })
+})
+
+describe('expandSeries', () => {
+  it('commence toujours par DTSTART et applique BYDAY', () => {
+    const dates = expandSeries({ freq: 'WEEKLY', interval: 1, byDay: [3, 5], count: 4 }, MONDAY)
+
+    expect(keys(dates)).toEqual(['2026-03-02', '2026-03-04', '2026-03-06', '2026-03-11'])
+  })
+
+  it('respecte l\'intervalle en semaines', () => {
+    const dates = expandSeries({ freq: 'WEEKLY', interval: 2, byDay: [1], until: d('2026-03-31') }, MONDAY)
+
+    expect(keys(dates)).toEqual(['2026-03-02', '2026-03-16', '2026-03-30'])
+  })
+
+  it('compte les dates exclues dans COUNT sans les retourner', () => {
+    const dates = expandSeries(
+      { freq: 'DAILY', interval: 3, count: 3 },
+      MONDAY,
+      { exdates: [d('2026-03-05')] }
+    )
+
+    expect(keys(dates)).toEqual(['2026-03-02', '2026-03-08'])
+  })
+
+  it('ne retourne que les occurrences à partir de `from`', () => {
+    const dates = expandSeries({ freq: 'DAILY', interval: 1, count: 5 }, MONDAY, { from: d('2026-03-05') })
+
+    expect(keys(dates)).toEqual(['2026-03-05', '2026-03-06'])
+  })
+
+  it('borne une série sans fin à l\'horizon', () => {
+    const dates = expandSeries({ freq: 'WEEKLY', interval: 1 }, MONDAY)
+
+    expect(dates.length).toBe(Math.floor(SERIES_HORIZON_DAYS / 7) + 1)
+  })
+
+  it('fait glisser l\'horizon à partir de `from`', () => {
+    const dates = expandSeries({ freq: 'WEEKLY', interval: 1 }, MONDAY, { from: d('2028-03-06') })
+
+    expect(keys(dates)[0]).toBe('2028-03-06')
+    expect(dates.length).toBe(Math.floor(SERIES_HORIZON_DAYS / 7) + 1)
+  })
+})
+
+describe('splitSeriesRule', () => {
+  it('arrête la série la veille et reporte le reste du COUNT', () => {
+    const rule: SeriesRule = { freq: 'WEEKLY', interval: 1, byDay: [1], count: 6 }
+
+    const { before, after } = splitSeriesRule(rule, MONDAY, d('2026-03-16'))
+
+    expect(before).toEqual({ freq: 'WEEKLY', interval: 1, byDay: [1], count: undefined, until: d('2026-03-15') })
+    expect(after.count).toBe(4)
+    expect(keys(expandSeries(before, MONDAY))).toEqual(['2026-03-02', '2026-03-09'])
+    expect(expandSeries(after, d('2026-03-16'))).toHaveLength(4)
+  })
+})
+
+describe('repeatDates → série', () => {
+  it('inclut la date de référence dans COUNT', () => {
+    const rule = toSeriesRule({ startDate: MONDAY, frequency: 'weekly', daysOfWeek: [1], repeatCount: 4 })
+
+    expect(rule).toEqual({ freq: 'WEEKLY', interval: 1, byDay: [1], count: 5, until: undefined })
+  })
+
+  it('génère au-delà de 52 occurrences jusqu\'à la date de fin', () => {
+    const dates = generateRepeatDates({
+      startDate: MONDAY,
+      frequency: 'custom',
+      intervalDays: 1,
+      endDate: d('2026-06-30'),
+    })
+
+    expect(dates).toHaveLength(120)
+    expect(toSeriesDateKey(dates[0])).toBe('2026-03-03')
+  })
+})
+
+describe('validateSeriesOccurrences', () => {
+  it('détecte les conflits entre occurrences de la même série', () => {
+    const base: Omit<ShiftForValidation, 'date'> = {
+      contractId: 'c-1',
+      employeeId: 'e-1',
+      startTime: '09:00',
+      endTime: '12:00',
+      breakDuration: 0,
+    }
+    const occurrences = [
+      { ...base, date: MONDAY },
+      { ...base, date: MONDAY, startTime: '10:00', endTime: '11:00' },
+    ]
+
+    const results = validateSeriesOccurrences(occurrences, [], [])
+
+    expect(results[0].blocked).toBe(false)
+    expect(results[1].blocked).toBe(true)
+  })
+})
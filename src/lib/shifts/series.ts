@@ -0,0 +1,221 @@
+/**
+ * Séries d'interventions récurrentes (sous-ensemble RFC 5545 : FREQ=DAILY|WEEKLY,
+ * INTERVAL, BYDAY, COUNT, UNTIL).
+ *
+ * Une série est définie par sa règle, sa première occurrence (DTSTART) et ses
+ * dates exclues (EXDATE). Comme `repeatDates`, toutes les dates sont manipulées
+ * en UTC midnight pour correspondre aux dates YYYY-MM-DD stockées en base.
+ */
+
+import { validateShift, type ShiftForValidation, type AbsenceForValidation } from '@/lib/compliance'
+import type { ComplianceResult } from '@/types'
+
+export type SeriesFrequency = 'DAILY' | 'WEEKLY'
+
+/** Portée d'une modification sur une intervention appartenant à une série */
+export type SeriesEditScope = 'this' | 'following' | 'all'
+
+export interface SeriesRule {
+  freq: SeriesFrequency
+  /** Tous les N jours (DAILY) ou toutes les N semaines (WEEKLY) */
+  interval: number
+  /** WEEKLY : jours de semaine (0=dim, 1=lun, …, 6=sam, UTC) — défaut : jour de DTSTART */
+  byDay?: number[]
+  /** Nombre total d'occurrences, DTSTART et dates exclues comprises */
+  count?: number
+  /** Dernière date possible (incluse) */
+  until?: Date
+}
+
+export interface SeriesOccurrenceResult {
+  date: Date
+  complianceResult: ComplianceResult
+  blocked: boolean
+}
+
+/**
+ * Horizon de matérialisation d'une série sans fin (ni COUNT ni UNTIL) :
+ * les occurrences au-delà sont créées au fil de l'eau (cf. `extendShiftSeries`).
+ */
+export const SERIES_HORIZON_DAYS = 365
+
+/** Borne de sécurité pour les séries à COUNT élevé ou UNTIL lointain */
+const MAX_SERIES_DAYS = 5 * 365
+
+const RRULE_DAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** Crée une date UTC midnight à partir des composantes UTC d'une date */
+function toUTCMidnight(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+}
+
+function addUTCDays(date: Date, days: number): Date {
+  const next = new Date(date)
+  next.setUTCDate(next.getUTCDate() + days)
+  return next
+}
+
+/** Lundi (UTC) de la semaine de `date` */
+function weekMonday(date: Date): Date {
+  return addUTCDays(date, -((date.getUTCDay() + 6) % 7))
+}
+
+/** Clé YYYY-MM-DD (UTC) d'une date */
+export function toSeriesDateKey(date: Date): string {
+  return toUTCMidnight(date).toISOString().split('T')[0]
+}
+
+function toBasicDate(date: Date): string {
+  return toSeriesDateKey(date).replace(/-/g, '')
+}
+
+function fromBasicDate(value: string): Date {
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value)
+  if (!match) throw new Error(`Date de règle invalide : ${value}`)
+  return new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])))
+}
+
+/** Sérialise une règle au format RRULE (sans le préfixe `RRULE:`) */
+export function formatRRule(rule: SeriesRule): string {
+  const parts = [`FREQ=${rule.freq}`, `INTERVAL=${Math.max(1, rule.interval)}`]
+  if (rule.freq === 'WEEKLY' && rule.byDay && rule.byDay.length > 0) {
+    const days = [...rule.byDay].sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7))
+    parts.push(`BYDAY=${days.map((d) => RRULE_DAYS[d]).join(',')}`)
+  }
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`)
+  if (rule.until) parts.push(`UNTIL=${toBasicDate(rule.until)}`)
+  return parts.join(';')
+}
+
+/** Lit une règle RRULE ; lève une erreur si elle sort du sous-ensemble supporté */
+export function parseRRule(value: string): SeriesRule {
+  const fields = new Map(
+    value
+      .replace(/^RRULE:/, '')
+      .split(';')
+      .filter(Boolean)
+      .map((part) => {
+        const [key, val = ''] = part.split('=')
+        return [key.toUpperCase(), val] as const
+      })
+  )
+
+  const freq = fields.get('FREQ')
+  if (freq !== 'DAILY' && freq !== 'WEEKLY') {
+    throw new Error(`Fréquence de série non supportée : ${freq ?? 'absente'}`)
+  }
+
+  const rule: SeriesRule = { freq, interval: Math.max(1, Number(fields.get('INTERVAL') ?? 1) || 1) }
+
+  const byDay = fields.get('BYDAY')
+  if (byDay) {
+    rule.byDay = byDay.split(',').map((day) => {
+      const index = RRULE_DAYS.indexOf(day.trim().toUpperCase())
+      if (index === -1) throw new Error(`Jour de règle invalide : ${day}`)
+      return index
+    })
+  }
+
+  const count = fields.get('COUNT')
+  if (count) rule.count = Number(count)
+
+  const until = fields.get('UNTIL')
+  if (until) rule.until = fromBasicDate(until)
+
+  return rule
+}
+
+function matchesRule(rule: SeriesRule, dtstart: Date, date: Date): boolean {
+  const interval = Math.max(1, rule.interval)
+
+  if (rule.freq === 'DAILY') {
+    const days = Math.round((date.getTime() - dtstart.getTime()) / DAY_MS)
+    return days % interval === 0
+  }
+
+  const byDay = rule.byDay && rule.byDay.length > 0 ? rule.byDay : [dtstart.getUTCDay()]
+  if (!byDay.includes(date.getUTCDay())) return false
+  const weeks = Math.round((weekMonday(date).getTime() - weekMonday(dtstart).getTime()) / (7 * DAY_MS))
+  return weeks % interval === 0
+}
+
+/**
+ * Développe une série en dates d'occurrences (UTC midnight, tri croissant).
+ * - DTSTART est toujours la première occurrence
+ * - Les dates exclues comptent dans COUNT mais ne sont pas retournées
+ * - `from` ne retourne que les occurrences à partir de cette date
+ * - Sans COUNT ni UNTIL, la série est bornée à `SERIES_HORIZON_DAYS` après
+ *   `from` (ou DTSTART s'il est postérieur)
+ */
+export function expandSeries(
+  rule: SeriesRule,
+  dtstart: Date,
+  options: { exdates?: Date[]; from?: Date } = {}
+): Date[] {
+  const start = toUTCMidnight(dtstart)
+  const excluded = new Set((options.exdates ?? []).map(toSeriesDateKey))
+  const from = options.from ? toUTCMidnight(options.from) : start
+
+  const limit = rule.count === undefined && !rule.until
+    ? addUTCDays(from > start ? from : start, SERIES_HORIZON_DAYS)
+    : addUTCDays(start, MAX_SERIES_DAYS)
+  const end = rule.until && toUTCMidnight(rule.until) < limit ? toUTCMidnight(rule.until) : limit
+
+  const dates: Date[] = []
+  let matched = 0
+  for (let cursor = start; cursor <= end; cursor = addUTCDays(cursor, 1)) {
+    if (rule.count !== undefined && matched >= rule.count) break
+    if (cursor.getTime() !== start.getTime() && !matchesRule(rule, start, cursor)) continue
+
+    matched++
+    if (cursor >= from && !excluded.has(toSeriesDateKey(cursor))) {
+      dates.push(cursor)
+    }
+  }
+
+  return dates
+}
+
+/**
+ * Coupe une série à une occurrence (« celle-ci et les suivantes ») :
+ * `before` s'arrête la veille, `after` démarre à `at` avec le reste du COUNT.
+ */
+export function splitSeriesRule(
+  rule: SeriesRule,
+  dtstart: Date,
+  at: Date
+): { before: SeriesRule; after: SeriesRule } {
+  const before: SeriesRule = { ...rule, count: undefined, until: addUTCDays(toUTCMidnight(at), -1) }
+
+  if (rule.count === undefined) return { before, after: { ...rule } }
+
+  // Occurrences (exclusions comprises) déjà consommées avant la coupure
+  const consumed = expandSeries({ ...rule, until: before.until }, dtstart).length
+  return { before, after: { ...rule, count: Math.max(1, rule.count - consumed) } }
+}
+
+/**
+ * Valide chaque occurrence d'une série avant enregistrement.
+ * Les occurrences valides sont accumulées pour détecter les conflits
+ * entre occurrences de la même série (repos, durées hebdomadaires…).
+ */
+export function validateSeriesOccurrences(
+  occurrences: ShiftForValidation[],
+  existingShifts: ShiftForValidation[],
+  approvedAbsences: AbsenceForValidation[]
+): SeriesOccurrenceResult[] {
+  const accumulated: ShiftForValidation[] = [...existingShifts]
+  const results: SeriesOccurrenceResult[] = []
+
+  for (const occurrence of occurrences) {
+    const complianceResult = validateShift(occurrence, accumulated, approvedAbsences)
+    const blocked = !complianceResult.valid
+
+    results.push({ date: occurrence.date, complianceResult, blocked })
+    if (!blocked) accumulated.push(occurrence)
+  }
+
+  return results
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest'
+import {
+  aggregateTaskCompletions,
+  getChecklistTasks,
+  isChecklistComplete,
+  summarizeChecklist,
+  upsertTaskCompletion,
+} from './taskChecklist'
+import { COURSES_PREFIX } from '@/lib/constants/taskDefaults'
+import type { ShiftTaskCompletion } from '@/types'
+
+function completion(overrides: Partial<ShiftTaskCompletion> = {}): ShiftTaskCompletion {
+  return {
+    task: 'Aide au lever',
+    status: 'done',
+    completedAt: new Date(2026, 2, 10, 9, 0),
+    completedBy: 'employee-1',
+    ...overrides,
+  }
+}
+
+const TASKS = ['Aide au lever', 'Courses', `${COURSES_PREFIX}Lait x2`]
+
+describe('getChecklistTasks', () => {
+  it('exclut les articles de courses et les doublons', () => {
+    expect(getChecklistTasks([...TASKS, 'Aide au lever'])).toEqual(['Aide au lever', 'Courses'])
+  })
+})
+
+describe('summarizeChecklist / isChecklistComplete', () => {
+  it('compte les tâches faites, non faites et à revoir', () => {
+    const completions = [completion(), completion({ task: 'Courses', status: 'not_done', reason: 'Manque de temps' })]
+
+    expect(summarizeChecklist(TASKS, completions)).toEqual({ total: 2, done: 1, notDone: 1, pending: 0 })
+    expect(isChecklistComplete(TASKS, completions)).toBe(true)
+  })
+
+  it('considère une tâche non faite sans motif comme non revue', () => {
+    const completions = [completion(), completion({ task: 'Courses', status: 'not_done', reason: '  ' })]
+
+    expect(summarizeChecklist(TASKS, completions).pending).toBe(1)
+    expect(isChecklistComplete(TASKS, completions)).toBe(false)
+  })
+
+  it('est complète sans tâche prévue', () => {
+    expect(isChecklistComplete([], undefined)).toBe(true)
+  })
+})
+
+describe('upsertTaskCompletion', () => {
+  it('remplace la réalisation existante et écarte les tâches retirées', () => {
+    const result = upsertTaskCompletion(
+      TASKS,
+      [completion(), completion({ task: 'Repassage / linge' })],
+      completion({ status: 'not_done', reason: 'Refus de la personne aidée' })
+    )
+
+    expect(result).toHaveLength(1)
+    expect(result[0]).toMatchObject({ task: 'Aide au lever', status: 'not_done' })
+  })
+})
+
+describe('aggregateTaskCompletions', () => {
+  it('agrège plusieurs interventions et classe les motifs', () => {
+    const totals = aggregateTaskCompletions([
+      {
+        tasks: TASKS,
+        taskCompletions: [
+          completion(),
+          completion({ task: 'Courses', status: 'not_done', reason: 'Manque de temps' }),
+        ],
+      },
+      {
+        tasks: ['Aide au lever', 'Courses'],
+        taskCompletions: [
+          completion({ status: 'not_done', reason: 'Manque de temps' }),
+        ],
+      },
+    ])
+
+    expect(totals).toMatchObject({ total: 4, done: 1, notDone: 2, pending: 1 })
+    expect(totals.reasons).toEqual([{ reason: 'Manque de temps', count: 2 }])
+  })
+})
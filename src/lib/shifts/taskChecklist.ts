@@ -0,0 +1,122 @@
+/**
+ * Check-list des tâches d'une intervention : chaque tâche prévue est
+ * cochée « faite » ou « non faite » (avec motif) par l'auxiliaire.
+ *
+ * Les articles de courses (`[courses]…`) ne sont pas des tâches : seule la
+ * tâche « Courses » figure dans la check-list.
+ */
+
+import { COURSES_PREFIX } from '@/lib/constants/taskDefaults'
+import type { ShiftTaskCompletion, TaskCompletionStatus } from '@/types'
+
+export const TASK_STATUS_LABELS: Record<TaskCompletionStatus, string> = {
+  done: 'Faite',
+  not_done: 'Non faite',
+}
+
+/** Motifs proposés pour une tâche non faite (saisie libre possible) */
+export const TASK_NOT_DONE_REASONS = [
+  'Refus de la personne aidée',
+  'Manque de temps',
+  'Matériel ou produit manquant',
+  'Personne absente',
+  'Reportée à une autre intervention',
+]
+
+export interface ChecklistSummary {
+  total: number
+  done: number
+  notDone: number
+  pending: number
+}
+
+export interface TaskCompletionTotals extends ChecklistSummary {
+  /** Motifs de non-réalisation, du plus fréquent au moins fréquent */
+  reasons: { reason: string; count: number }[]
+}
+
+/** Tâches de l'intervention soumises à la check-list */
+export function getChecklistTasks(tasks: string[]): string[] {
+  return [...new Set(tasks.filter((t) => !t.startsWith(COURSES_PREFIX)))]
+}
+
+export function findTaskCompletion(
+  completions: ShiftTaskCompletion[] | undefined,
+  task: string
+): ShiftTaskCompletion | undefined {
+  return completions?.find((c) => c.task === task)
+}
+
+/** Une tâche est revue si elle est faite, ou non faite avec un motif */
+export function isTaskReviewed(completion: ShiftTaskCompletion | undefined): boolean {
+  if (!completion) return false
+  return completion.status === 'done' || !!completion.reason?.trim()
+}
+
+/**
+ * Remplace (ou ajoute) la réalisation d'une tâche. Les réalisations de
+ * tâches retirées du planning depuis sont écartées.
+ */
+export function upsertTaskCompletion(
+  tasks: string[],
+  completions: ShiftTaskCompletion[] | undefined,
+  completion: ShiftTaskCompletion
+): ShiftTaskCompletion[] {
+  const checklist = getChecklistTasks(tasks)
+  return [
+    ...(completions ?? []).filter((c) => c.task !== completion.task && checklist.includes(c.task)),
+    completion,
+  ]
+}
+
+export function summarizeChecklist(
+  tasks: string[],
+  completions: ShiftTaskCompletion[] | undefined
+): ChecklistSummary {
+  const summary: ChecklistSummary = { total: 0, done: 0, notDone: 0, pending: 0 }
+  for (const task of getChecklistTasks(tasks)) {
+    const completion = findTaskCompletion(completions, task)
+    summary.total++
+    if (!isTaskReviewed(completion)) summary.pending++
+    else if (completion!.status === 'done') summary.done++
+    else summary.notDone++
+  }
+  return summary
+}
+
+/** Toutes les tâches prévues ont été revues (vrai s'il n'y a aucune tâche) */
+export function isChecklistComplete(
+  tasks: string[],
+  completions: ShiftTaskCompletion[] | undefined
+): boolean {
+  return summarizeChecklist(tasks, completions).pending === 0
+}
+
+/** Agrège les check-lists de plusieurs interventions (rapport par auxiliaire) */
+export function aggregateTaskCompletions(
+  shifts: { tasks: string[]; taskCompletions?: ShiftTaskCompletion[] }[]
+): TaskCompletionTotals {
+  const totals: TaskCompletionTotals = { total: 0, done: 0, notDone: 0, pending: 0, reasons: [] }
+  const reasonCounts = new Map<string, number>()
+
+  for (const shift of shifts) {
+    const summary = summarizeChecklist(shift.tasks, shift.taskCompletions)
+    totals.total += summary.total
+    totals.done += summary.done
+    totals.notDone += summary.notDone
+    totals.pending += summary.pending
+
+    for (const task of getChecklistTasks(shift.tasks)) {
+      const completion = findTaskCompletion(shift.taskCompletions, task)
+      if (completion?.status !== 'not_done' || !isTaskReviewed(completion)) continue
+      const reason = completion.reason!.trim()
+      reasonCounts.set(reason, (reasonCounts.get(reason) ?? 0) + 1)
+    }
+  }
+
+  totals.reasons = [...reasonCounts.entries()]
+    .map(([reason, count]) => ({ reason, count }))
+    .sort((a, b) => b.count - a.count || a.reason.localeCompare(b.reason))
+
+  return totals
+}
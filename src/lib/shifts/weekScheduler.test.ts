@@ -0,0 +1,224 @@
+import { describe, it, expect } from 'vitest'
+import { generateWeekSchedule, getWindowDate, type SchedulerAuxiliary } from './weekScheduler'
+import { DEFAULT_PAY_RATE_SET, type ShiftForValidation } from '@/lib/compliance'
+import type { AvailabilityTemplate, CoverageWindow } from '@/types'
+
+function makeTemplate(overrides: Partial<AvailabilityTemplate> = {}): AvailabilityTemplate {
+  return {
+    monday: [],
+    tuesday: [],
+    wednesday: [],
+    thursday: [],
+    friday: [],
+    saturday: [],
+    sunday: [],
+    ...overrides,
+  }
+}
+
+const allDay = [{ startTime: '00:00', endTime: '00:00' }]
+const alwaysAvailable = makeTemplate({
+  monday: allDay, tuesday: allDay, wednesday: allDay, thursday: allDay,
+  friday: allDay, saturday: allDay, sunday: allDay,
+})
+
+// Lundi 9 mars 2026
+const MONDAY = new Date(2026, 2, 9)
+
+function makeAux(overrides: Partial<SchedulerAuxiliary> = {}): SchedulerAuxiliary {
+  return {
+    contractId: 'c-marie',
+    employeeId: 'e-marie',
+    name: 'Marie Curie',
+    weeklyHours: 35,
+    hourlyRate: 14,
+    availabilityTemplate: alwaysAvailable,
+    ...overrides,
+  }
+}
+
+const morning: CoverageWindow = { dayOfWeek: 2, startTime: '08:00', endTime: '12:00', shiftType: 'effective' }
+
+describe('getWindowDate', () => {
+  it('place le créneau dans la semaine du lundi au dimanche', () => {
+    expect(getWindowDate(MONDAY, 1)).toEqual(new Date(2026, 2, 9))
+    expect(getWindowDate(MONDAY, 2)).toEqual(new Date(2026, 2, 10))
+    expect(getWindowDate(MONDAY, 0)).toEqual(new Date(2026, 2, 15))
+  })
+})
+
+describe('generateWeekSchedule', () => {
+  it('attribue chaque créneau à un auxiliaire disponible', () => {
+    const schedule = generateWeekSchedule({
+      weekStart: MONDAY,
+      windows: [morning],
+      auxiliaries: [makeAux()],
+      existingShifts: [],
+    })
+
+    expect(schedule.uncovered).toEqual([])
+    expect(schedule.shifts).toHaveLength(1)
+    expect(schedule.shifts[0]).toMatchObject({
+      contractId: 'c-marie',
+      date: new Date(2026, 2, 10),
+      startTime: '08:00',
+      endTime: '12:00',
+      breakDuration: 0,
+    })
+    expect(schedule.totalHours).toBe(4)
+    // 4h × 14 € × 1,42 (charges)
+    expect(schedule.estimatedCost).toBeCloseTo(79.52)
+  })
+
+  it('ajoute la pause obligatoire au-delà de 6h de travail effectif', () => {
+    const schedule = generateWeekSchedule({
+      weekStart: MONDAY,
+      windows: [{ dayOfWeek: 2, startTime: '08:00', endTime: '15:00', shiftType: 'effective' }],
+      auxiliaries: [makeAux()],
+      existingShifts: [],
+    })
+
+    expect(schedule.shifts[0].breakDuration).toBe(20)
+  })
+
+  it('préfère la disponibilité totale puis l\'auxiliaire le moins chargé', () => {
+    const partial = makeAux({
+      contractId: 'c-anne', employeeId: 'e-anne', name: 'Anne Roux',
+      availabilityTemplate: makeTemplate({ tuesday: [{ startTime: '10:00', endTime: '18:00' }] }),
+    })
+    const busy = makeAux({ contractId: 'c-bruno', employeeId: 'e-bruno', name: 'Bruno Petit', weeklyHours: 10 })
+    const existingShifts: ShiftForValidation[] = [
+      { id: 's-1', contractId: 'c-bruno', employeeId: 'e-bruno', date: MONDAY, startTime: '08:00', endTime: '12:00', breakDuration: 0 },
+    ]
+
+    const schedule = generateWeekSchedule({
+      weekStart: MONDAY,
+      windows: [morning],
+      auxiliaries: [partial, busy, makeAux()],
+      existingShifts,
+    })
+
+    expect(schedule.shifts[0].employeeId).toBe('e-marie')
+  })
+
+  it('respecte les heures contractuelles hebdomadaires', () => {
+    const schedule = generateWeekSchedule({
+      weekStart: MONDAY,
+      windows: [morning, { ...morning, dayOfWeek: 3 }],
+      auxiliaries: [makeAux({ weeklyHours: 6 })],
+      existingShifts: [],
+    })
+
+    expect(schedule.shifts).toHaveLength(1)
+    expect(schedule.uncovered).toHaveLength(1)
+    expect(schedule.uncovered[0].reasons[0]).toEqual({
+      employeeId: 'e-marie',
+      name: 'Marie Curie',
+      reason: 'Heures contractuelles atteintes (4h / 6h)',
+    })
+  })
+
+  it('tient compte des interventions proposées pour la conformité (repos quotidien)', () => {
+    const schedule = generateWeekSchedule({
+      weekStart: MONDAY,
+      windows: [
+        { dayOfWeek: 2, startTime: '14:00', endTime: '23:00', shiftType: 'effective' },
+        { dayOfWeek: 3, startTime: '05:00', endTime: '08:00', shiftType: 'effective' },
+      ],
+      auxiliaries: [makeAux()],
+      existingShifts: [],
+    })
+
+    expect(schedule.shifts).toHaveLength(1)
+    expect(schedule.uncovered[0].summary).toBe('Aucun auxiliaire disponible ne respecte les contraintes')
+    expect(schedule.uncovered[0].reasons[0].reason).not.toBe('Indisponible sur ce créneau')
+  })
+
+  it('couvre les nuits en présence responsable sans les décompter en heures effectives', () => {
+    const schedule = generateWeekSchedule({
+      weekStart: MONDAY,
+      windows: [{ dayOfWeek: 1, startTime: '21:00', endTime: '07:00', shiftType: 'presence_night' }],
+      auxiliaries: [makeAux({ weeklyHours: 1 })],
+      existingShifts: [],
+    })
+
+    expect(schedule.shifts).toHaveLength(1)
+    expect(schedule.shifts[0].shiftType).toBe('presence_night')
+    expect(schedule.totalHours).toBe(0)
+  })
+
+  it('refuse un créneau qui dépasserait l\'enveloppe PCH du mois', () => {
+    const schedule = generateWeekSchedule({
+      weekStart: MONDAY,
+      windows: [morning],
+      auxiliaries: [makeAux()],
+      existingShifts: [],
+      budget: { envelopes: { '2026-03': 1000 }, committed: { '2026-03': 950 } },
+    })
+
+    expect(schedule.shifts).toEqual([])
+    expect(schedule.uncovered[0].reasons[0].reason).toBe('Enveloppe PCH du mois dépassée')
+  })
+
+  it('applique l\'enveloppe de chaque mois d\'une semaine à cheval', () => {
+    // Lundi 30 mars 2026 : mardi 31 mars, mercredi 1er avril
+    const schedule = generateWeekSchedule({
+      weekStart: new Date(2026, 2, 30),
+      windows: [morning, { ...morning, dayOfWeek: 3 }],
+      auxiliaries: [makeAux()],
+      existingShifts: [],
+      budget: { envelopes: { '2026-03': 1000, '2026-04': 1000 }, committed: { '2026-03': 990 } },
+    })
+
+    expect(schedule.shifts.map((s) => s.date)).toEqual([new Date(2026, 3, 1)])
+    expect(schedule.uncovered[0].date).toEqual(new Date(2026, 2, 31))
+  })
+
+  it('calcule la rémunération selon les avenants et les majorations de l\'employeur', () => {
+    const schedule = generateWeekSchedule({
+      weekStart: MONDAY,
+      windows: [{ dayOfWeek: 0, startTime: '08:00', endTime: '12:00', shiftType: 'effective' }],
+      auxiliaries: [makeAux({
+        termsHistory: [{ effectiveDate: new Date(2026, 0, 1), weeklyHours: 35, hourlyRate: 20, pasRate: 0 }],
+      })],
+      existingShifts: [],
+      rateSet: { source: 'convention_settings', rates: { ...DEFAULT_PAY_RATE_SET.rates, SUNDAY: 0.5 } },
+    })
+
+    // 4h au taux de l'avenant (20 €), dimanche majoré de 50 %
+    expect(schedule.shifts[0].computedPay).toMatchObject({ basePay: 80, sundayMajoration: 40 })
+  })
+
+  it('explique les créneaux sans auxiliaire disponible ou sous contrat', () => {
+    const unavailable = generateWeekSchedule({
+      weekStart: MONDAY,
+      windows: [morning],
+      auxiliaries: [makeAux({ availabilityTemplate: makeTemplate() })],
+      existingShifts: [],
+    })
+    const nobody = generateWeekSchedule({
+      weekStart: MONDAY,
+      windows: [morning],
+      auxiliaries: [],
+      existingShifts: [],
+    })
+
+    expect(unavailable.uncovered[0].summary).toBe('Aucun auxiliaire disponible sur ce créneau')
+    expect(unavailable.uncovered[0].reasons[0].reason).toBe('Indisponible sur ce créneau')
+    expect(nobody.uncovered[0].summary).toBe('Aucun auxiliaire sous contrat')
+  })
+
+  it('ignore les créneaux déjà couverts par une intervention', () => {
+    const schedule = generateWeekSchedule({
+      weekStart: MONDAY,
+      windows: [morning],
+      auxiliaries: [makeAux()],
+      existingShifts: [
+        { id: 's-1', contractId: 'c-other', employeeId: 'e-other', date: new Date(2026, 2, 10), startTime: '07:00', endTime: '13:00', breakDuration: 0 },
+      ],
+    })
+
+    expect(schedule.shifts).toEqual([])
+    expect(schedule.uncovered).toEqual([])
+  })
+})
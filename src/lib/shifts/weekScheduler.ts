@@ -0,0 +1,250 @@
+/**
+ * Génération automatique d'une semaine de planning (« Générer ma semaine »).
+ *
+ * Chaque créneau à couvrir (`CoverageWindow`) est attribué, dans l'ordre
+ * chronologique, au premier auxiliaire qui :
+ *   1. est disponible (`availabilityTemplate`, disponibilité totale en priorité) ;
+ *   2. reste dans ses heures contractuelles hebdomadaires ;
+ *   3. respecte toutes les règles IDCC 3239 (`validateShift`) compte tenu des
+ *      interventions existantes et de celles déjà proposées ;
+ *   4. garde la dépense de chaque mois dans l'enveloppe PCH de ce mois.
+ * À disponibilité égale, l'auxiliaire le moins chargé est préféré.
+ * Un créneau sans auxiliaire éligible est rendu avec le motif de chaque refus.
+ */
+
+import {
+  calculateShiftPay,
+  getRecommendedBreak,
+  timeToMinutes,
+  validateShift,
+  type ShiftForValidation,
+  type AbsenceForValidation,
+} from '@/lib/compliance'
+import { PAYROLL_ESTIMATE } from '@/lib/compliance/calculatePay'
+import { getEffectiveHours, getShiftDurationMinutes } from '@/lib/compliance/utils'
+import type { ContractTermsVersion } from '@/lib/contract/amendments'
+import {
+  getAvailabilityMatch,
+  type AvailabilityMatch,
+  type ReplacementCandidateInput,
+} from './replacement'
+import type { ComplianceWarning, ComputedPay, CoverageWindow, PayRateSet } from '@/types'
+
+export interface SchedulerAuxiliary extends ReplacementCandidateInput {
+  weeklyHours: number
+  hourlyRate: number
+  /** Versions datées des conditions (avenants) du contrat */
+  termsHistory?: ContractTermsVersion[]
+}
+
+export interface WeekScheduleInput {
+  /** Lundi de la semaine à générer */
+  weekStart: Date
+  windows: CoverageWindow[]
+  auxiliaries: SchedulerAuxiliary[]
+  existingShifts: ShiftForValidation[]
+  approvedAbsences?: AbsenceForValidation[]
+  /**
+   * Enveloppe PCH et dépense déjà engagée par mois (€, clé `yyyy-MM`).
+   * Sans budget, la dépense n'est pas plafonnée.
+   */
+  budget?: { envelopes: Record<string, number>; committed: Record<string, number> }
+  /** Majorations de la convention de l'employeur */
+  rateSet?: PayRateSet
+}
+
+export interface ProposedShift extends ShiftForValidation {
+  shiftType: CoverageWindow['shiftType']
+  employeeName: string
+  availability: AvailabilityMatch
+  /** Rémunération de l'intervention, enregistrée avec elle */
+  computedPay: ComputedPay
+  /** Coût employeur estimé (salaire + charges) */
+  estimatedCost: number
+  warnings: ComplianceWarning[]
+}
+
+export interface UncoveredSlot {
+  window: CoverageWindow
+  date: Date
+  /** Motif principal affiché à l'employeur */
+  summary: string
+  /** Motif de refus par auxiliaire */
+  reasons: Array<{ employeeId: string; name: string; reason: string }>
+}
+
+export interface WeekSchedule {
+  shifts: ProposedShift[]
+  uncovered: UncoveredSlot[]
+  /** Heures effectives proposées */
+  totalHours: number
+  estimatedCost: number
+}
+
+const AVAILABILITY_RANK: Record<AvailabilityMatch, number> = { full: 0, partial: 1, none: 2 }
+
+/** Au-delà de 6h de travail effectif, la pause est obligatoire (Art. L3121-16) */
+const MANDATORY_BREAK_THRESHOLD_MINUTES = 6 * 60
+
+function toMonthKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`
+}
+
+function isSameDay(a: Date, b: Date): boolean {
+  return a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate()
+}
+
+/** Bornes en minutes ; une fin ≤ début passe au lendemain */
+function toMinuteRange(startTime: string, endTime: string): [number, number] {
+  const start = timeToMinutes(startTime)
+  const end = timeToMinutes(endTime)
+  return [start, end <= start ? end + 24 * 60 : end]
+}
+
+/** Date du créneau dans la semaine (la semaine commence le lundi) */
+export function getWindowDate(weekStart: Date, dayOfWeek: number): Date {
+  const date = new Date(weekStart.getFullYear(), weekStart.getMonth(), weekStart.getDate())
+  date.setDate(date.getDate() + ((dayOfWeek + 6) % 7))
+  return date
+}
+
+function formatHours(hours: number): string {
+  return `${Math.round(hours * 10) / 10}h`
+}
+
+export function generateWeekSchedule({
+  weekStart,
+  windows,
+  auxiliaries,
+  existingShifts,
+  approvedAbsences = [],
+  budget,
+  rateSet,
+}: WeekScheduleInput): WeekSchedule {
+  const monday = getWindowDate(weekStart, 1)
+  const weekEnd = getWindowDate(weekStart, 0)
+  weekEnd.setDate(weekEnd.getDate() + 1)
+
+  const proposed: ProposedShift[] = []
+  const uncovered: UncoveredSlot[] = []
+  const proposedSpend: Record<string, number> = {}
+
+  const slots = windows
+    .map((window) => ({ window, date: getWindowDate(weekStart, window.dayOfWeek) }))
+    .sort((a, b) => a.date.getTime() - b.date.getTime() || a.window.startTime.localeCompare(b.window.startTime))
+
+  // Heures effectives du contrat sur la semaine (existant + proposé)
+  const weekHours = (contractId: string): number =>
+    [...existingShifts, ...proposed]
+      .filter((s) => s.contractId === contractId && s.date >= monday && s.date < weekEnd)
+      .reduce((total, s) => total + getEffectiveHours(s), 0)
+
+  for (const { window, date } of slots) {
+    const [windowStart, windowEnd] = toMinuteRange(window.startTime, window.endTime)
+
+    // Créneau déjà couvert par une intervention planifiée : rien à proposer
+    const alreadyCovered = existingShifts.some((s) => {
+      if (!isSameDay(s.date, date)) return false
+      const [start, end] = toMinuteRange(s.startTime, s.endTime)
+      return start <= windowStart && end >= windowEnd
+    })
+    if (alreadyCovered) continue
+
+    const durationMinutes = getShiftDurationMinutes({ startTime: window.startTime, endTime: window.endTime, breakDuration: 0 })
+    const breakDuration = window.shiftType === 'effective' && durationMinutes > MANDATORY_BREAK_THRESHOLD_MINUTES
+      ? getRecommendedBreak(durationMinutes)
+      : 0
+    const slot = { date, startTime: window.startTime, endTime: window.endTime, breakDuration, shiftType: window.shiftType }
+    const slotHours = getEffectiveHours(slot)
+    const monthKey = toMonthKey(date)
+
+    const candidates = auxiliaries
+      .map((aux) => ({
+        aux,
+        availability: getAvailabilityMatch(aux.availabilityTemplate, date, window.startTime, window.endTime),
+        load: aux.weeklyHours > 0 ? weekHours(aux.contractId) / aux.weeklyHours : 1,
+      }))
+      .sort((a, b) =>
+        AVAILABILITY_RANK[a.availability] - AVAILABILITY_RANK[b.availability] ||
+        a.load - b.load ||
+        a.aux.name.localeCompare(b.aux.name, 'fr')
+      )
+
+    const reasons: UncoveredSlot['reasons'] = []
+    let assigned: ProposedShift | null = null
+
+    for (const { aux, availability } of candidates) {
+      const refuse = (reason: string) => reasons.push({ employeeId: aux.employeeId, name: aux.name, reason })
+
+      if (availability === 'none') {
+        refuse('Indisponible sur ce créneau')
+        continue
+      }
+
+      const plannedHours = weekHours(aux.contractId)
+      if (plannedHours + slotHours > aux.weeklyHours) {
+        refuse(`Heures contractuelles atteintes (${formatHours(plannedHours)} / ${formatHours(aux.weeklyHours)})`)
+        continue
+      }
+
+      const shift: ShiftForValidation = { ...slot, contractId: aux.contractId, employeeId: aux.employeeId }
+      const allShifts = [...existingShifts, ...proposed]
+      const compliance = validateShift(shift, allShifts, approvedAbsences)
+      if (!compliance.valid) {
+        refuse(compliance.errors[0]?.message ?? 'Règle de conformité non respectée')
+        continue
+      }
+
+      const computedPay = calculateShiftPay(
+        shift,
+        { id: aux.contractId, weeklyHours: aux.weeklyHours, hourlyRate: aux.hourlyRate, termsHistory: aux.termsHistory },
+        allShifts,
+        false,
+        rateSet
+      )
+      const cost = computedPay.totalPay * PAYROLL_ESTIMATE.EMPLOYER_CHARGE_RATE
+      if (budget) {
+        const monthSpend = (budget.committed[monthKey] ?? 0) + (proposedSpend[monthKey] ?? 0)
+        if (monthSpend + cost > (budget.envelopes[monthKey] ?? 0)) {
+          refuse('Enveloppe PCH du mois dépassée')
+          continue
+        }
+      }
+
+      assigned = {
+        ...shift,
+        shiftType: window.shiftType,
+        employeeName: aux.name,
+        availability,
+        computedPay,
+        estimatedCost: Math.round(cost * 100) / 100,
+        warnings: compliance.warnings,
+      }
+      proposedSpend[monthKey] = (proposedSpend[monthKey] ?? 0) + cost
+      break
+    }
+
+    if (assigned) {
+      proposed.push(assigned)
+      continue
+    }
+
+    uncovered.push({
+      window,
+      date,
+      summary: auxiliaries.length === 0
+        ? 'Aucun auxiliaire sous contrat'
+        : candidates.every((c) => c.availability === 'none')
+          ? 'Aucun auxiliaire disponible sur ce créneau'
+          : 'Aucun auxiliaire disponible ne respecte les contraintes',
+      reasons,
+    })
+  }
+
+  return {
+    shifts: proposed,
+    uncovered,
+    totalHours: Math.round(proposed.reduce((total, s) => total + getEffectiveHours(s), 0) * 100) / 100,
+    estimatedCost: Math.round(proposed.reduce((total, s) => total + s.estimatedCost, 0) * 100) / 100,
+  }
+}
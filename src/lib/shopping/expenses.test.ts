@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildExpenseReport,
+  computeAmountAdvanced,
+  getPlannedPurchases,
+  mergePurchases,
+} from './expenses'
+import { COURSES_PREFIX } from '@/lib/constants/taskDefaults'
+import type { ShoppingExpense, ShoppingPurchase } from '@/types'
+
+const TASKS = ['Courses', `${COURSES_PREFIX}Lait (Lactel) x2`, `${COURSES_PREFIX}Pain`]
+
+function expense(overrides: Partial<ShoppingExpense> = {}): ShoppingExpense {
+  return {
+    id: 'exp-1',
+    shiftId: 'shift-1',
+    contractId: 'contract-1',
+    employerId: 'employer-1',
+    employeeId: 'employee-1',
+    shiftDate: new Date(2026, 2, 10),
+    items: [],
+    receipts: [],
+    amountAdvanced: 12.5,
+    createdAt: new Date(2026, 2, 10),
+    updatedAt: new Date(2026, 2, 10),
+    ...overrides,
+  }
+}
+
+describe('getPlannedPurchases', () => {
+  it('lit les articles de la liste de courses', () => {
+    expect(getPlannedPurchases(TASKS)).toEqual([
+      { name: 'Lait', brand: 'Lactel', plannedQuantity: 2, quantity: 2, bought: false },
+      { name: 'Pain', brand: '', plannedQuantity: 1, quantity: 1, bought: false },
+    ])
+  })
+})
+
+describe('mergePurchases', () => {
+  it('superpose les achats enregistrés et conserve les articles hors liste', () => {
+    const saved: ShoppingPurchase[] = [
+      { name: 'Lait', brand: 'Lactel', plannedQuantity: 2, quantity: 1, price: 1.2, bought: true },
+      { name: 'Piles', brand: '', plannedQuantity: 0, quantity: 4, price: 5, bought: true },
+    ]
+
+    const merged = mergePurchases(TASKS, saved)
+
+    expect(merged.map((p) => p.name)).toEqual(['Lait', 'Pain', 'Piles'])
+    expect(merged[0]).toMatchObject({ quantity: 1, price: 1.2, bought: true })
+    expect(merged[1].bought).toBe(false)
+  })
+})
+
+describe('computeAmountAdvanced', () => {
+  it('additionne les lignes achetées au centime près', () => {
+    expect(computeAmountAdvanced([
+      { name: 'A', brand: '', plannedQuantity: 1, quantity: 1, price: 0.1, bought: true },
+      { name: 'B', brand: '', plannedQuantity: 1, quantity: 1, price: 0.2, bought: true },
+      { name: 'C', brand: '', plannedQuantity: 1, quantity: 1, price: 9, bought: false },
+      { name: 'D', brand: '', plannedQuantity: 1, quantity: 1, bought: true },
+    ])).toBe(0.3)
+  })
+})
+
+describe('buildExpenseReport', () => {
+  it('regroupe par auxiliaire et sépare remboursé / à rembourser', () => {
+    const report = buildExpenseReport(
+      [
+        expense({ id: 'e2', shiftDate: new Date(2026, 2, 20), amountAdvanced: 7.5 }),
+        expense({ id: 'e1', reimbursedAt: new Date(2026, 2, 15) }),
+        expense({ id: 'e3', contractId: 'contract-2', amountAdvanced: 0 }),
+      ],
+      { 'contract-1': 'Marie Curie' }
+    )
+
+    expect(report).toHaveLength(1)
+    expect(report[0]).toMatchObject({
+      employeeName: 'Marie Curie',
+      total: 20,
+      reimbursedTotal: 12.5,
+      pendingTotal: 7.5,
+    })
+    expect(report[0].expenses.map((e) => e.id)).toEqual(['e1', 'e2'])
+  })
+})
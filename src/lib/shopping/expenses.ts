@@ -0,0 +1,99 @@
+/**
+ * Courses d'une intervention : articles achetés, montant avancé par
+ * l'auxiliaire et récapitulatif mensuel des frais à rembourser.
+ *
+ * La liste prévue vient de `shift.tasks` (articles `[courses]…`) ; les
+ * achats enregistrés s'y superposent article par article.
+ */
+
+import {
+  COURSES_PREFIX,
+  parseShoppingItemString,
+  shoppingItemKey,
+} from '@/lib/constants/taskDefaults'
+import type { ShoppingExpense, ShoppingPurchase } from '@/types'
+
+export interface AuxiliaryExpenseReport {
+  contractId: string
+  employeeName: string
+  /** Interventions avec frais avancés, par date */
+  expenses: ShoppingExpense[]
+  total: number
+  reimbursedTotal: number
+  pendingTotal: number
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/** Articles prévus dans la liste de courses de l'intervention */
+export function getPlannedPurchases(tasks: string[]): ShoppingPurchase[] {
+  return tasks
+    .filter((t) => t.startsWith(COURSES_PREFIX))
+    .map((t) => {
+      const item = parseShoppingItemString(t.slice(COURSES_PREFIX.length))
+      return {
+        name: item.name,
+        brand: item.brand,
+        plannedQuantity: item.quantity,
+        quantity: item.quantity,
+        bought: false,
+      }
+    })
+}
+
+/**
+ * Liste prévue complétée par les achats déjà enregistrés. Les articles
+ * achetés hors liste restent en fin de liste.
+ */
+export function mergePurchases(tasks: string[], saved: ShoppingPurchase[] | undefined): ShoppingPurchase[] {
+  const savedByKey = new Map((saved ?? []).map((p) => [shoppingItemKey(p), p]))
+  const planned = getPlannedPurchases(tasks).map((p) => {
+    const existing = savedByKey.get(shoppingItemKey(p))
+    savedByKey.delete(shoppingItemKey(p))
+    return existing ? { ...existing, plannedQuantity: p.plannedQuantity } : p
+  })
+  return [...planned, ...savedByKey.values()]
+}
+
+/** Montant avancé : somme des lignes achetées dont le prix est renseigné */
+export function computeAmountAdvanced(items: ShoppingPurchase[]): number {
+  return roundCents(items.reduce((sum, p) => (p.bought && p.price ? sum + p.price : sum), 0))
+}
+
+export function formatEuros(amount: number): string {
+  return amount.toLocaleString('fr-FR', { style: 'currency', currency: 'EUR' })
+}
+
+/** Regroupe les frais avancés du mois par auxiliaire (contrat) */
+export function buildExpenseReport(
+  expenses: ShoppingExpense[],
+  employeeNames: Record<string, string>
+): AuxiliaryExpenseReport[] {
+  const byContract = new Map<string, ShoppingExpense[]>()
+  for (const expense of expenses) {
+    if (expense.amountAdvanced <= 0) continue
+    byContract.set(expense.contractId, [...(byContract.get(expense.contractId) ?? []), expense])
+  }
+
+  return [...byContract.entries()]
+    .map(([contractId, list]) => {
+      const sorted = [...list].sort(
+        (a, b) => (a.shiftDate?.getTime() ?? 0) - (b.shiftDate?.getTime() ?? 0)
+      )
+      const total = roundCents(sorted.reduce((sum, e) => sum + e.amountAdvanced, 0))
+      const reimbursedTotal = roundCents(
+        sorted.filter((e) => e.reimbursedAt).reduce((sum, e) => sum + e.amountAdvanced, 0)
+      )
+      return {
+        contractId,
+        employeeName: employeeNames[contractId] ?? 'Auxiliaire',
+        expenses: sorted,
+        total,
+        reimbursedTotal,
+        pendingTotal: roundCents(total - reimbursedTotal),
+      }
+    })
+    .sort((a, b) => a.employeeName.localeCompare(b.employeeName))
+}
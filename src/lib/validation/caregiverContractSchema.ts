@@ -1,5 +1,4 @@
 import { z } from 'zod'
-import { PCH_RATES } from '@/types'
 
 export const caregiverContractSchema = z
   .object({
@@ -25,5 +24,3 @@ export const caregiverContractSchema = z
   )
 
 export type CaregiverContractFormData = z.infer<typeof caregiverContractSchema>
-
-export { PCH_RATES }
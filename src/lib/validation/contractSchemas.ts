@@ -63,5 +63,29 @@ export const contractSchema = z
     }
   )
 
+/** Avenant : nouvelles conditions à compter d'une date d'effet (PAS saisi en %) */
+export const amendmentSchema = z.object({
+  effectiveDate: z.string().min(1, 'La date d\'effet est requise'),
+  weeklyHours: z.coerce
+    .number()
+    .min(1, 'Minimum 1 heure')
+    .max(48, 'Maximum 48 heures par semaine'),
+  hourlyRate: z.coerce
+    .number()
+    .min(11.65, 'Le taux horaire minimum est de 11,65€ (SMIC)')
+    .max(100, 'Taux horaire maximum dépassé'),
+  pasRate: z.coerce
+    .number()
+    .min(0, 'Le taux PAS ne peut pas être négatif')
+    .max(100, 'Le taux PAS ne peut pas dépasser 100 %'),
+  reason: z
+    .string()
+    .trim()
+    .min(1, 'Le motif de l\'avenant est requis')
+    .max(500, 'Motif trop long (500 caractères maximum)'),
+})
+
 export type SearchFormData = z.infer<typeof searchSchema>
 export type ContractFormData = z.infer<typeof contractSchema>
+export type AmendmentFormData = z.infer<typeof amendmentSchema>
+export type AmendmentFormInput = z.input<typeof amendmentSchema>
@@ -0,0 +1,50 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { baseMimeType, mixToMono, pickAudioMimeType, voiceFileName } from './voiceRecorder'
+
+describe('pickAudioMimeType', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('prefers Opus in WebM when supported', () => {
+    vi.stubGlobal('MediaRecorder', { isTypeSupported: () => true })
+    expect(pickAudioMimeType()).toBe('audio/webm;codecs=opus')
+  })
+
+  it('falls back to AAC (Safari)', () => {
+    vi.stubGlobal('MediaRecorder', { isTypeSupported: (type: string) => type === 'audio/mp4' })
+    expect(pickAudioMimeType()).toBe('audio/mp4')
+  })
+
+  it('lets the browser choose when nothing matches', () => {
+    vi.stubGlobal('MediaRecorder', { isTypeSupported: () => false })
+    expect(pickAudioMimeType()).toBe('')
+  })
+})
+
+describe('baseMimeType', () => {
+  it('strips codec parameters', () => {
+    expect(baseMimeType('audio/webm;codecs=opus')).toBe('audio/webm')
+    expect(baseMimeType('')).toBe('audio/webm')
+  })
+})
+
+describe('voiceFileName', () => {
+  it('builds a timestamped name with the matching extension', () => {
+    const date = new Date(2026, 2, 14, 9, 5, 7)
+    expect(voiceFileName('audio/webm;codecs=opus', date)).toBe('message_vocal_20260314_090507.webm')
+    expect(voiceFileName('audio/mp4', date)).toBe('message_vocal_20260314_090507.m4a')
+  })
+})
+
+describe('mixToMono', () => {
+  it('averages channels', () => {
+    const mono = mixToMono([new Float32Array([1, 0.5]), new Float32Array([0, 0.5])])
+    expect(Array.from(mono)).toEqual([0.5, 0.5])
+  })
+
+  it('returns a single channel as is', () => {
+    const channel = new Float32Array([0.1, 0.2])
+    expect(mixToMono([channel])).toBe(channel)
+  })
+})
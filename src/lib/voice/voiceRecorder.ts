@@ -0,0 +1,144 @@
+// Enregistrement des messages vocaux (messagerie, cahier de liaison).
+//
+// Contrairement à `audioCapture.ts` (VAD, coupe à la fin de la parole pour
+// la nav vocale), l'utilisateur garde la main : appui maintenu = enregistrement
+// (push-to-talk). Le fichier compressé (Opus) est envoyé tel quel ; une copie
+// décodée à 16 kHz mono alimente la transcription Whisper locale.
+
+import { format } from 'date-fns'
+
+/** Durée max d'un message vocal (la transcription reste raisonnable sur CPU) */
+export const MAX_VOICE_MESSAGE_MS = 2 * 60 * 1000
+
+/** En dessous, on considère un simple clic sur le bouton (rien à envoyer) */
+export const MIN_VOICE_MESSAGE_MS = 500
+
+const WHISPER_SAMPLE_RATE = 16000
+
+// Par ordre de préférence : Opus (Chrome/Firefox), puis AAC (Safari)
+const PREFERRED_MIME_TYPES = [
+  'audio/webm;codecs=opus',
+  'audio/webm',
+  'audio/ogg;codecs=opus',
+  'audio/mp4',
+]
+
+const EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'm4a',
+}
+
+export interface RecordedVoice {
+  blob: Blob
+  /** Type MIME sans paramètres de codec (ex. audio/webm) */
+  mimeType: string
+  durationMs: number
+}
+
+export interface VoiceRecording {
+  /** Termine l'enregistrement et renvoie l'audio */
+  stop: () => Promise<RecordedVoice>
+  /** Abandonne l'enregistrement et libère le micro */
+  cancel: () => void
+}
+
+export function isVoiceRecordingSupported(): boolean {
+  return (
+    typeof MediaRecorder !== 'undefined' &&
+    typeof navigator !== 'undefined' &&
+    !!navigator.mediaDevices?.getUserMedia
+  )
+}
+
+/** Premier format pris en charge par le navigateur ('' = choix du navigateur) */
+export function pickAudioMimeType(): string {
+  if (typeof MediaRecorder === 'undefined' || !MediaRecorder.isTypeSupported) return ''
+  return PREFERRED_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) ?? ''
+}
+
+/** Type MIME de base, sans `;codecs=…` */
+export function baseMimeType(mimeType: string): string {
+  return mimeType.split(';')[0].trim() || 'audio/webm'
+}
+
+/** Nom du fichier envoyé, horodaté */
+export function voiceFileName(mimeType: string, date: Date = new Date()): string {
+  const ext = EXTENSIONS[baseMimeType(mimeType)] ?? 'webm'
+  return `message_vocal_${format(date, 'yyyyMMdd_HHmmss')}.${ext}`
+}
+
+/** Moyenne des canaux → mono */
+export function mixToMono(channels: Float32Array[]): Float32Array {
+  if (channels.length === 0) return new Float32Array(0)
+  if (channels.length === 1) return channels[0]
+
+  const mono = new Float32Array(channels[0].length)
+  for (const channel of channels) {
+    for (let i = 0; i < mono.length; i++) mono[i] += channel[i] / channels.length
+  }
+  return mono
+}
+
+/**
+ * Démarre l'enregistrement. Rejette si le micro est refusé ou absent
+ * (erreurs à passer par `formatVoiceError`).
+ */
+export async function startVoiceRecording(): Promise<VoiceRecording> {
+  // Contrairement à la nav vocale, on garde réduction de bruit et annulation
+  // d'écho : le message est réécouté par un humain.
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: { echoCancellation: true, noiseSuppression: true, autoGainControl: true },
+  })
+
+  const preferred = pickAudioMimeType()
+  const recorder = new MediaRecorder(stream, preferred ? { mimeType: preferred } : undefined)
+  const chunks: Blob[] = []
+  const startedAt = performance.now()
+
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data)
+  }
+
+  const release = () => stream.getTracks().forEach((t) => t.stop())
+
+  recorder.start()
+
+  return {
+    stop: () =>
+      new Promise<RecordedVoice>((resolve, reject) => {
+        recorder.onstop = () => {
+          release()
+          const mimeType = baseMimeType(recorder.mimeType || preferred)
+          resolve({
+            blob: new Blob(chunks, { type: mimeType }),
+            mimeType,
+            durationMs: Math.round(performance.now() - startedAt),
+          })
+        }
+        recorder.onerror = () => {
+          release()
+          reject(new Error("L'enregistrement a échoué."))
+        }
+        if (recorder.state === 'inactive') recorder.onstop(new Event('stop'))
+        else recorder.stop()
+      }),
+    cancel: () => {
+      recorder.onstop = null
+      if (recorder.state !== 'inactive') recorder.stop()
+      release()
+    },
+  }
+}
+
+/** Décode l'enregistrement en PCM 16 kHz mono, le format attendu par Whisper */
+export async function decodeForWhisper(blob: Blob): Promise<Float32Array> {
+  const context = new AudioContext({ sampleRate: WHISPER_SAMPLE_RATE })
+  try {
+    const buffer = await context.decodeAudioData(await blob.arrayBuffer())
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i))
+    return mixToMono(channels)
+  } finally {
+    void context.close()
+  }
+}
@@ -117,7 +117,15 @@ export async function getTranscriber(): Promise<Transcriber> {
   return transcriberPromise
 }
 
-export async function transcribe(audio: Float32Array): Promise<string> {
+export interface TranscribeOptions {
+  /**
+   * Audio long (message vocal, > 30 s possible) : découpage par fenêtres de
+   * 30 s avec recouvrement, décodage glouton pour garder une latence correcte.
+   */
+  longForm?: boolean
+}
+
+export async function transcribe(audio: Float32Array, opts: TranscribeOptions = {}): Promise<string> {
   const transcriber = await getTranscriber()
   // Trim silences (head/tail) + peak-normalize. Évite les hallucinations sur le
   // padding VAD et compense un mic faible avant que Whisper voie le signal.
@@ -137,6 +145,7 @@ export async function transcribe(audio: Float32Array): Promise<string> {
       num_beams: 3,
       no_repeat_ngram_size: 3,
       compression_ratio_threshold: 2.4,
+      ...(opts.longForm ? { chunk_length_s: 30, stride_length_s: 5, num_beams: 1 } : {}),
     }
 
     const result = await transcriber(processed, options)
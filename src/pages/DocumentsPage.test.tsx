@@ -21,8 +21,8 @@ vi.mock('@/components/documents', () => ({
   CesuDeclarationSection: ({ employerId }: { employerId: string }) => (
     <div data-testid="cesu-section" data-employer-id={employerId} />
   ),
-  ContractsSection: ({ employerId }: { employerId: string }) => (
-    <div data-testid="contracts-section" data-employer-id={employerId} />
+  ContractsSection: ({ employerId, profileRole }: { employerId?: string; profileRole: string }) => (
+    <div data-testid="contracts-section" data-employer-id={employerId} data-role={profileRole} />
   ),
   DocumentManagementSection: ({ employerId }: { employerId: string }) => (
     <div data-testid="doc-section" data-employer-id={employerId} />
@@ -31,7 +31,12 @@ vi.mock('@/components/documents', () => ({
   EmployeePayslipSection: ({ employeeId }: { employeeId: string }) => (
     <div data-testid="employee-payslip-section" data-employee-id={employeeId} />
   ),
+  EmployeeDocumentsSection: ({ employeeId }: { employeeId: string }) => (
+    <div data-testid="employee-documents-section" data-employee-id={employeeId} />
+  ),
   PlanningExportSection: () => <div data-testid="planning-export-section" />,
+  TimesheetSection: () => <div data-testid="timesheet-section" />,
+  ExpenseReportSection: () => <div data-testid="expense-report-section" />,
 }))
 
 // ── Imports apres mocks ────────────────────────────────────────────────────────
@@ -96,6 +101,30 @@ describe('DocumentsPage', () => {
     })
   })
 
+  it('affiche l\'onglet Mes documents pour un employé uniquement', async () => {
+    const profile = createMockProfile({ id: 'employee-7', role: 'employee' })
+    mockUseAuth.mockReturnValue({ profile } as ReturnType<typeof useAuth>)
+
+    renderWithProviders(<DocumentsPage />)
+
+    await waitFor(() => {
+      expect(screen.getByRole('tab', { name: 'Mes documents' })).toBeInTheDocument()
+    })
+    expect(screen.queryByRole('tab', { name: 'Absences' })).not.toBeInTheDocument()
+  })
+
+  it('affiche l\'onglet Contrats à l\'employé pour signer ses contrats', async () => {
+    const profile = createMockProfile({ id: 'employee-7', role: 'employee' })
+    mockUseAuth.mockReturnValue({ profile } as ReturnType<typeof useAuth>)
+
+    renderWithProviders(<DocumentsPage />)
+
+    await waitFor(() => {
+      expect(screen.getByRole('tab', { name: 'Contrats' })).toBeInTheDocument()
+    })
+    expect(screen.getByTestId('contracts-section')).toHaveAttribute('data-role', 'employee')
+  })
+
   it('redirige si caregiver sans canExportData', async () => {
     const profile = createMockProfile({ id: 'caregiver-1', role: 'caregiver' })
     mockUseAuth.mockReturnValue({ profile } as ReturnType<typeof useAuth>)
@@ -118,7 +147,7 @@ describe('DocumentsPage', () => {
     expect(screen.queryByRole('tablist')).not.toBeInTheDocument()
   })
 
-  it('affiche les 5 onglets pour un employeur', async () => {
+  it('affiche les 7 onglets pour un employeur', async () => {
     const profile = createMockProfile({ id: 'employer-99', role: 'employer' })
     mockUseAuth.mockReturnValue({ profile } as ReturnType<typeof useAuth>)
 
@@ -131,7 +160,10 @@ describe('DocumentsPage', () => {
     expect(screen.getByRole('tab', { name: 'Contrats' })).toBeInTheDocument()
     expect(screen.getByRole('tab', { name: 'Absences' })).toBeInTheDocument()
     expect(screen.getByRole('tab', { name: 'Export planning' })).toBeInTheDocument()
+    expect(screen.getByRole('tab', { name: "Relevés d'heures" })).toBeInTheDocument()
+    expect(screen.getByRole('tab', { name: 'Frais avancés' })).toBeInTheDocument()
     expect(screen.getByRole('tab', { name: 'Déclarations CESU' })).toBeInTheDocument()
+    expect(screen.queryByRole('tab', { name: 'Mes documents' })).not.toBeInTheDocument()
   })
 
   it('rend les sections avec le bon employerId pour un employeur', async () => {
@@ -1,5 +1,6 @@
 /**
- * Page Documents - Bulletins, contrats, absences, export planning, declarations CESU
+ * Page Documents - Bulletins, contrats, absences, export planning, relevés d'heures, declarations CESU,
+ * documents remis à l'auxiliaire
  */
 
 import { useState, useEffect } from 'react'
@@ -22,15 +23,18 @@ import {
   CesuDeclarationSection,
   ContractsSection,
   DocumentManagementSection,
+  EmployeeDocumentsSection,
   EmployeePayslipSection,
+  ExpenseReportSection,
   PayslipSection,
   PlanningExportSection,
+  TimesheetSection,
 } from '@/components/documents'
 import type { Caregiver } from '@/types'
 
 const SEARCH_PLACEHOLDERS: Record<string, string> = {
   payslips: 'Rechercher un bulletin (employé, période)…',
-  contracts: 'Rechercher un contrat (employé)…',
+  contracts: 'Rechercher un contrat (nom, type)…',
   absences: 'Rechercher une absence (employé, motif)…',
   declarations: 'Rechercher une déclaration (période)…',
 }
@@ -114,11 +118,9 @@ export function DocumentsPage() {
               <Tabs.Trigger value="payslips">
                 Bulletins de paie
               </Tabs.Trigger>
-              {!isEmployee && (
-                <Tabs.Trigger value="contracts">
-                  Contrats
-                </Tabs.Trigger>
-              )}
+              <Tabs.Trigger value="contracts">
+                Contrats
+              </Tabs.Trigger>
               {!isEmployee && (
                 <Tabs.Trigger value="absences">
                   Absences
@@ -127,11 +129,22 @@ export function DocumentsPage() {
               <Tabs.Trigger value="planning">
                 Export planning
               </Tabs.Trigger>
+              <Tabs.Trigger value="timesheets">
+                Relevés d'heures
+              </Tabs.Trigger>
+              <Tabs.Trigger value="expenses">
+                Frais avancés
+              </Tabs.Trigger>
               {!isEmployee && (
                 <Tabs.Trigger value="declarations">
                   Déclarations CESU
                 </Tabs.Trigger>
               )}
+              {isEmployee && (
+                <Tabs.Trigger value="employee-documents">
+                  Mes documents
+                </Tabs.Trigger>
+              )}
             </Tabs.List>
 
             <Tabs.Content value="payslips" pt={6}>
@@ -147,18 +160,21 @@ export function DocumentsPage() {
               )}
             </Tabs.Content>
 
-            {!isEmployee && (
-              <Tabs.Content value="contracts" pt={6}>
-                {effectiveEmployerId ? (
-                  <ContractsSection employerId={effectiveEmployerId} searchTerm={searchTerm} />
-                ) : (
-                  <Alert.Root status="warning">
-                    <Alert.Indicator />
-                    <Alert.Title>Impossible de charger les contrats</Alert.Title>
-                  </Alert.Root>
-                )}
-              </Tabs.Content>
-            )}
+            <Tabs.Content value="contracts" pt={6}>
+              {isEmployee || effectiveEmployerId ? (
+                <ContractsSection
+                  profileId={profile.id}
+                  profileRole={profile.role as 'employer' | 'employee' | 'caregiver'}
+                  employerId={effectiveEmployerId}
+                  searchTerm={searchTerm}
+                />
+              ) : (
+                <Alert.Root status="warning">
+                  <Alert.Indicator />
+                  <Alert.Title>Impossible de charger les contrats</Alert.Title>
+                </Alert.Root>
+              )}
+            </Tabs.Content>
 
             {!isEmployee && (
               <Tabs.Content value="absences" pt={6}>
@@ -181,6 +197,22 @@ export function DocumentsPage() {
               />
             </Tabs.Content>
 
+            <Tabs.Content value="timesheets" pt={6}>
+              <TimesheetSection
+                profileId={profile.id}
+                profileRole={profile.role as 'employer' | 'employee' | 'caregiver'}
+                employerId={effectiveEmployerId}
+              />
+            </Tabs.Content>
+
+            <Tabs.Content value="expenses" pt={6}>
+              <ExpenseReportSection
+                profileId={profile.id}
+                profileRole={profile.role as 'employer' | 'employee' | 'caregiver'}
+                employerId={effectiveEmployerId}
+              />
+            </Tabs.Content>
+
             {!isEmployee && (
               <Tabs.Content value="declarations" pt={6}>
                 {effectiveEmployerId ? (
@@ -193,6 +225,12 @@ export function DocumentsPage() {
                 )}
               </Tabs.Content>
             )}
+
+            {isEmployee && (
+              <Tabs.Content value="employee-documents" pt={6}>
+                <EmployeeDocumentsSection employeeId={profile.id} />
+              </Tabs.Content>
+            )}
           </Tabs.Root>
         </VStack>
       </Container>
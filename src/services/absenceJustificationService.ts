@@ -1,6 +1,7 @@
 import { supabase } from '@/lib/supabase/client'
 import { logger } from '@/lib/logger'
 import { sanitizeFileExtension } from '@/lib/sanitize'
+import { isMedicalAbsence } from '@/lib/absence'
 import type { Absence } from '@/types'
 
 const JUSTIFICATIONS_BUCKET = 'justifications'
@@ -39,7 +40,7 @@ function generateJustificationFileName(
   const day = String(date.getDate()).padStart(2, '0')
   const dateStr = `${year}_${month}_${day}`
 
-  const baseName = options?.absenceType === 'sick'
+  const baseName = options?.absenceType && isMedicalAbsence(options.absenceType)
     ? `arret_${dateStr}`
     : `justificatif_${dateStr}`
 
@@ -49,6 +49,7 @@ vi.mock('@/lib/absence', () => ({
   countBusinessDays: (...args: unknown[]) => mockCountBusinessDays(...args),
   getLeaveYear: (...args: unknown[]) => mockGetLeaveYear(...args),
   calculateJustificationDueDate: (...args: unknown[]) => mockCalculateJustificationDueDate(...args),
+  isMedicalAbsence: (type: string) => ['sick', 'work_accident', 'maternity'].includes(type),
 }))
 
 const mockGetProfileName = vi.fn()
@@ -599,6 +600,20 @@ describe('absenceService', () => {
       expect(mockCalculateJustificationDueDate).toHaveBeenCalledWith(baseAbsenceData.startDate)
     })
 
+    it('devrait calculer justificationDueDate pour un accident du travail', async () => {
+      const createdRow = createMockAbsenceDbRow({ absence_type: 'work_accident' })
+      const chains = mockSupabaseQuerySequence([
+        { data: [], error: null },
+        { data: createdRow, error: null },
+        { data: { employer_id: 'employer-789' }, error: null },
+      ])
+      chains[1].single!.mockResolvedValue({ data: createdRow, error: null })
+
+      await createAbsence('emp-456', { ...baseAbsenceData, absenceType: 'work_accident' })
+
+      expect(mockCalculateJustificationDueDate).toHaveBeenCalledWith(baseAbsenceData.startDate)
+    })
+
     it('devrait ne pas calculer justificationDueDate pour vacation', async () => {
       const createdRow = createMockAbsenceDbRow({ absence_type: 'vacation', leave_year: '2023-2024' })
       const chains = mockSupabaseQuerySequence([
@@ -13,6 +13,7 @@ import {
   countBusinessDays,
   getLeaveYear,
   calculateJustificationDueDate,
+  isMedicalAbsence,
 } from '@/lib/absence'
 import { addTakenDays, restoreTakenDays, getLeaveBalance, initializeLeaveBalance } from '@/services/leaveBalanceService'
 
@@ -190,7 +191,7 @@ export async function createAbsence(
   }
 
   const businessDaysCount = countBusinessDays(absenceData.startDate, absenceData.endDate)
-  const justificationDueDate = absenceData.absenceType === 'sick'
+  const justificationDueDate = isMedicalAbsence(absenceData.absenceType)
     ? calculateJustificationDueDate(absenceData.startDate)
     : null
   const leaveYear = absenceData.absenceType === 'vacation'
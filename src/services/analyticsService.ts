@@ -5,6 +5,9 @@
 import { supabase } from '@/lib/supabase/client'
 import { startOfMonth, endOfMonth, subMonths, format } from 'date-fns'
 import { calculateShiftDuration } from '@/lib/compliance/utils'
+import { aggregateTaskCompletions, type TaskCompletionTotals } from '@/lib/shifts/taskChecklist'
+import { mapTaskCompletionFromDb } from '@/lib/mappers'
+import type { ShiftTaskCompletionDb } from '@/types/database'
 
 export interface MonthlyData {
   month: string // 'YYYY-MM'
@@ -37,10 +40,18 @@ export interface PresenceRate {
   rate: number // percentage
 }
 
+export interface AuxiliaryTaskCompletion extends TaskCompletionTotals {
+  contractId: string
+  employeeName: string
+  shiftsCount: number
+  rate: number // percentage de tâches faites parmi les tâches prévues
+}
+
 export interface AnalyticsSummary {
   monthlyData: MonthlyData[]
   auxiliaryBreakdown: AuxiliaryBreakdown[]
   presenceRates: PresenceRate[]
+  taskCompletion: AuxiliaryTaskCompletion[]
   totals: {
     totalHours: number
     totalCost: number
@@ -58,6 +69,48 @@ function formatMonthLabel(date: Date): string {
   return `${MONTH_LABELS[date.getMonth()]} ${date.getFullYear()}`
 }
 
+interface ContractNameRow {
+  id: string
+  employee_profile: { profile?: { first_name: string; last_name: string } | null } | null
+}
+
+interface ShiftTasksRow {
+  contract_id: string
+  status: string
+  tasks: string[] | null
+  task_completions: ShiftTaskCompletionDb[] | null
+}
+
+/**
+ * Rapport de réalisation des tâches par auxiliaire, sur les interventions
+ * terminées de la période (check-list renseignée en fin d'intervention)
+ */
+function buildTaskCompletionReport(
+  contracts: ContractNameRow[],
+  shifts: ShiftTasksRow[],
+): AuxiliaryTaskCompletion[] {
+  return contracts.map(contract => {
+    const contractShifts = shifts
+      .filter(s => s.contract_id === contract.id && s.status === 'completed' && (s.tasks?.length ?? 0) > 0)
+      .map(s => ({
+        tasks: s.tasks ?? [],
+        taskCompletions: (s.task_completions ?? []).map(mapTaskCompletionFromDb),
+      }))
+    const totals = aggregateTaskCompletions(contractShifts)
+    const profile = contract.employee_profile?.profile
+
+    return {
+      contractId: contract.id,
+      employeeName: profile
+        ? `${profile.first_name} ${profile.last_name}`
+        : 'Inconnu',
+      shiftsCount: contractShifts.length,
+      rate: totals.total > 0 ? Math.round((totals.done / totals.total) * 100) : 0,
+      ...totals,
+    }
+  }).filter(a => a.total > 0)
+}
+
 /**
  * Récupère les analytics employeur sur N mois
  */
@@ -81,6 +134,7 @@ export async function getEmployerAnalytics(
       monthlyData: [],
       auxiliaryBreakdown: [],
       presenceRates: [],
+      taskCompletion: [],
       totals: { totalHours: 0, totalCost: 0, avgHoursPerMonth: 0, avgCostPerMonth: 0 },
     }
   }
@@ -92,7 +146,7 @@ export async function getEmployerAnalytics(
   // Récupérer tous les shifts de la période
   const { data: allShifts } = await supabase
     .from('shifts')
-    .select('start_time, end_time, break_duration, status, date, contract_id, shift_type, effective_hours')
+    .select('start_time, end_time, break_duration, status, date, contract_id, shift_type, effective_hours, tasks, task_completions')
     .in('contract_id', contractIds)
     .gte('date', format(rangeStart, 'yyyy-MM-dd'))
     .lte('date', format(rangeEnd, 'yyyy-MM-dd'))
@@ -178,6 +232,11 @@ export async function getEmployerAnalytics(
     }
   }).filter(a => a.shiftsCount > 0)
 
+  const taskCompletion = buildTaskCompletionReport(
+    (contracts || []) as unknown as ContractNameRow[],
+    shifts as unknown as ShiftTasksRow[],
+  )
+
   // Totaux
   const totalHours = monthlyData.reduce((sum, m) => sum + m.totalHours, 0)
   const totalCost = monthlyData.reduce((sum, m) => sum + m.costWithCharges, 0)
@@ -186,6 +245,7 @@ export async function getEmployerAnalytics(
     monthlyData,
     auxiliaryBreakdown,
     presenceRates,
+    taskCompletion,
     totals: {
       totalHours: round(totalHours),
       totalCost: Math.round(totalCost),
@@ -217,6 +277,7 @@ export async function getEmployeeAnalytics(
       monthlyData: [],
       auxiliaryBreakdown: [],
       presenceRates: [],
+      taskCompletion: [],
       totals: { totalHours: 0, totalCost: 0, avgHoursPerMonth: 0, avgCostPerMonth: 0 },
     }
   }
@@ -299,6 +360,7 @@ export async function getEmployeeAnalytics(
     monthlyData,
     auxiliaryBreakdown: [],
     presenceRates,
+    taskCompletion: [],
     totals: {
       totalHours: round(totalHours),
       totalCost: Math.round(totalRevenue),
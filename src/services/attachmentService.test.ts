@@ -1,10 +1,26 @@
-import { describe, it, expect } from 'vitest'
+import { describe, it, expect, vi, beforeEach } from 'vitest'
 import {
   validateAttachmentFile,
   validateAttachmentFiles,
   formatSize,
+  uploadVoiceMessage,
+  getVoiceMessageUrl,
 } from './attachmentService'
 
+const mockUpload = vi.fn()
+const mockCreateSignedUrl = vi.fn()
+
+vi.mock('@/lib/supabase/client', () => ({
+  supabase: {
+    storage: {
+      from: () => ({
+        upload: (...args: unknown[]) => mockUpload(...args),
+        createSignedUrl: (...args: unknown[]) => mockCreateSignedUrl(...args),
+      }),
+    },
+  },
+}))
+
 // ── Helpers ────────────────────────────────────────────────────────────────────
 
 function makeFile(name: string, size: number, type: string): File {
@@ -132,4 +148,44 @@ describe('attachmentService', () => {
       expect(formatSize(2.5 * 1024 * 1024)).toBe('2.5 Mo')
     })
   })
+
+  describe('messages vocaux', () => {
+    beforeEach(() => {
+      vi.clearAllMocks()
+      mockUpload.mockResolvedValue({ error: null })
+      mockCreateSignedUrl.mockResolvedValue({ data: { signedUrl: 'https://signed/audio' }, error: null })
+    })
+
+    it('upload l\'enregistrement comme pièce jointe audio', async () => {
+      const attachment = await uploadVoiceMessage('conv-1', 'user-1', {
+        blob: new Blob(['abc'], { type: 'audio/webm' }),
+        mimeType: 'audio/webm',
+        durationMs: 4000,
+      })
+
+      expect(attachment.type).toBe('audio')
+      expect(attachment.path).toMatch(/^conv-1\/user-1\/\d+_message_vocal_\d{8}_\d{6}\.webm$/)
+      expect(mockUpload).toHaveBeenCalledWith(attachment.path, expect.any(File), expect.any(Object))
+    })
+
+    it('rejette un format audio inconnu', async () => {
+      await expect(uploadVoiceMessage('conv-1', 'user-1', {
+        blob: new Blob(['abc'], { type: 'audio/wav' }),
+        mimeType: 'audio/wav',
+        durationMs: 4000,
+      })).rejects.toThrow('Format audio non supporté')
+      expect(mockUpload).not.toHaveBeenCalled()
+    })
+
+    it('signe le chemin Storage à la lecture', async () => {
+      expect(await getVoiceMessageUrl('conv-1/user-1/1_message.webm')).toBe('https://signed/audio')
+      expect(mockCreateSignedUrl).toHaveBeenCalledWith('conv-1/user-1/1_message.webm', 3600)
+    })
+
+    it('conserve une URL complète', async () => {
+      expect(await getVoiceMessageUrl('https://cdn/audio.webm')).toBe('https://cdn/audio.webm')
+      expect(await getVoiceMessageUrl('blob:http://localhost/abc')).toBe('blob:http://localhost/abc')
+      expect(mockCreateSignedUrl).not.toHaveBeenCalled()
+    })
+  })
 })
@@ -1,5 +1,6 @@
 import { supabase } from '@/lib/supabase/client'
 import { logger } from '@/lib/logger'
+import { voiceFileName, type RecordedVoice } from '@/lib/voice/voiceRecorder'
 import type { Attachment } from '@/types'
 
 const ATTACHMENTS_BUCKET = 'liaison-attachments'
@@ -16,6 +17,9 @@ const ALLOWED_TYPES: Record<string, Attachment['type']> = {
   'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'document',
 }
 
+// Messages vocaux enregistrés dans l'app (pas de fichier audio en pièce jointe libre)
+const VOICE_TYPES = ['audio/webm', 'audio/ogg', 'audio/mp4']
+
 /**
  * Valide un fichier avant upload.
  */
@@ -69,6 +73,41 @@ export async function uploadAttachment(
     throw new Error(validation.error)
   }
 
+  return storeFile(conversationId, senderId, file, ALLOWED_TYPES[file.type] || 'document')
+}
+
+/**
+ * Upload un message vocal. Le chemin renvoyé (`path`) est conservé dans
+ * `audio_url` : l'URL signée est régénérée à la lecture.
+ */
+export async function uploadVoiceMessage(
+  conversationId: string,
+  senderId: string,
+  recording: RecordedVoice
+): Promise<Attachment> {
+  if (!VOICE_TYPES.includes(recording.mimeType)) {
+    throw new Error('Format audio non supporté par ce navigateur.')
+  }
+  if (recording.blob.size > MAX_FILE_SIZE) {
+    throw new Error('Message vocal trop long. Maximum : 5 Mo.')
+  }
+
+  const file = new File([recording.blob], voiceFileName(recording.mimeType), { type: recording.mimeType })
+  return storeFile(conversationId, senderId, file, 'audio')
+}
+
+/** URL de lecture d'un message vocal (chemin Storage, URL complète ou aperçu local `blob:`) */
+export async function getVoiceMessageUrl(audioUrl: string): Promise<string> {
+  if (/^(https?:\/\/|blob:)/.test(audioUrl)) return audioUrl
+  return (await createSignedUrl(audioUrl)) ?? ''
+}
+
+async function storeFile(
+  conversationId: string,
+  senderId: string,
+  file: File,
+  type: Attachment['type']
+): Promise<Attachment> {
   // Sanitiser le nom de fichier (whitelist) pour prévenir le path traversal
   const rawName = (() => { try { return decodeURIComponent(file.name) } catch { return file.name } })()
   const ext = rawName.includes('.') ? rawName.split('.').pop()!.toLowerCase().replace(/[^a-z0-9]/g, '') : ''
@@ -106,10 +145,32 @@ export async function uploadAttachment(
   return {
     id: crypto.randomUUID(),
     url: urlData.signedUrl,
-    type: ALLOWED_TYPES[file.type] || 'document',
+    type,
     name: file.name,
     size: file.size,
+    path: fileName,
+  }
+}
+
+/**
+ * Régénère l'URL signée d'une pièce jointe conservée (ex. ticket de caisse),
+ * l'URL enregistrée à l'upload n'étant valable qu'une heure.
+ */
+export async function getAttachmentUrl(attachment: Attachment): Promise<string> {
+  if (!attachment.path) return attachment.url
+  return (await createSignedUrl(attachment.path)) ?? attachment.url
+}
+
+async function createSignedUrl(path: string): Promise<string | null> {
+  const { data, error } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .createSignedUrl(path, 3600)
+
+  if (error || !data?.signedUrl) {
+    logger.error('Erreur génération URL signée pièce jointe:', error)
+    return null
   }
+  return data.signedUrl
 }
 
 /**
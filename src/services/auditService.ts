@@ -1,7 +1,7 @@
 import { supabase } from '@/lib/supabase/client'
 import { logger } from '@/lib/logger'
 
-type AuditAction = 'read' | 'create' | 'update' | 'delete' | 'grant_consent' | 'revoke_consent'
+type AuditAction = 'read' | 'create' | 'update' | 'delete' | 'grant_consent' | 'revoke_consent' | 'sign'
 
 interface AuditEntry {
   action: AuditAction
@@ -11,6 +11,7 @@
 
 import { supabase } from '@/lib/supabase/client'
 import { logger } from '@/lib/logger'
+import { dataUriToBlob } from '@/lib/dataUri'
 import type { CesuDeclarationRecord } from '@/types'
 import type { CesuDeclarationDbRow } from '@/types/database'
 import type { MonthlyDeclarationData } from '@/lib/export/types'
@@ -73,21 +74,6 @@ function deserializeDeclarationData(raw: Record<string, unknown>): MonthlyDeclar
 
 // ─── Helpers Storage ────────────────────────────────────────────────────────
 
-/**
- * Convertit un data URI base64 en Blob binaire.
- */
-function dataUriToBlob(dataUri: string): Blob {
-  const [header, base64] = dataUri.split(',')
-  const mimeMatch = header.match(/:(.*?);/)
-  const mime = mimeMatch ? mimeMatch[1] : 'application/pdf'
-  const binary = atob(base64)
-  const bytes = new Uint8Array(binary.length)
-  for (let i = 0; i < binary.length; i++) {
-    bytes[i] = binary.charCodeAt(i)
-  }
-  return new Blob([bytes], { type: mime })
-}
-
 /**
  * Upload le PDF d'une déclaration CESU dans Supabase Storage.
  * Chemin : <employerId>/<year>/<month>/cesu_YYYY_MM.pdf
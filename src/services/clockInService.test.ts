@@ -0,0 +1,228 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import {
+  getClockInBadgePayload,
+  rotateClockInBadge,
+  recordQrClockEvent,
+  recordManualClockEvent,
+  recordRetroactiveClockTimes,
+  syncPendingClockEvents,
+} from './clockInService'
+import type { PendingClockEvent } from '@/lib/clockIn/offlineQueue'
+
+// ============================================================
+// MOCKS
+// ============================================================
+
+const mockRpc = vi.fn()
+const mockGetPending = vi.fn()
+const mockRemovePending = vi.fn()
+const mockUpdateShift = vi.fn()
+
+vi.mock('@/lib/supabase/client', () => ({
+  supabase: {
+    rpc: (...args: unknown[]) => mockRpc(...args),
+  },
+}))
+
+vi.mock('@/lib/clockIn/offlineQueue', () => ({
+  getPendingClockEvents: () => mockGetPending(),
+  removePendingClockEvent: (...args: unknown[]) => mockRemovePending(...args),
+}))
+
+vi.mock('@/services/shiftService', () => ({
+  updateShift: (...args: unknown[]) => mockUpdateShift(...args),
+}))
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn(), debug: vi.fn() },
+}))
+
+function makeEvent(overrides: Partial<PendingClockEvent> = {}): PendingClockEvent {
+  return {
+    nonce: 'nonce-1',
+    payload: 'UNILIEN-CI.1.contract.signature',
+    shiftId: 'shift-1',
+    event: 'start',
+    scannedAt: '2026-03-10T08:02:00.000Z',
+    ...overrides,
+  }
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  mockRemovePending.mockResolvedValue(undefined)
+  mockUpdateShift.mockResolvedValue(undefined)
+})
+
+// ============================================================
+// BADGES
+// ============================================================
+
+describe('getClockInBadgePayload', () => {
+  it('retourne le contenu du QR du contrat', async () => {
+    mockRpc.mockResolvedValue({ data: 'UNILIEN-CI.1.contract.sig', error: null })
+
+    const payload = await getClockInBadgePayload('contract-1')
+
+    expect(mockRpc).toHaveBeenCalledWith('get_clock_in_badge', { p_contract_id: 'contract-1' })
+    expect(payload).toBe('UNILIEN-CI.1.contract.sig')
+  })
+
+  it('retourne null en cas d\'erreur', async () => {
+    mockRpc.mockResolvedValue({ data: null, error: { message: 'not_authorized' } })
+    expect(await getClockInBadgePayload('contract-1')).toBeNull()
+  })
+})
+
+describe('rotateClockInBadge', () => {
+  it('appelle la RPC de régénération', async () => {
+    mockRpc.mockResolvedValue({ data: 'UNILIEN-CI.2.contract.sig', error: null })
+
+    const payload = await rotateClockInBadge('contract-1')
+
+    expect(mockRpc).toHaveBeenCalledWith('rotate_clock_in_badge', { p_contract_id: 'contract-1' })
+    expect(payload).toBe('UNILIEN-CI.2.contract.sig')
+  })
+})
+
+// ============================================================
+// SCANS
+// ============================================================
+
+describe('recordQrClockEvent', () => {
+  it('transmet le scan en ligne, horodaté par le serveur', async () => {
+    mockRpc.mockResolvedValue({ error: null })
+
+    const result = await recordQrClockEvent(makeEvent())
+
+    expect(result).toEqual({ success: true })
+    expect(mockRpc).toHaveBeenCalledWith('record_qr_clock_event', {
+      p_payload: 'UNILIEN-CI.1.contract.signature',
+      p_shift_id: 'shift-1',
+      p_event: 'start',
+      p_scanned_at: '2026-03-10T08:02:00.000Z',
+      p_nonce: 'nonce-1',
+      p_offline: false,
+    })
+  })
+
+  it.each(['invalid_badge', 'replayed_scan', 'scan_out_of_window', 'not_authorized'] as const)(
+    'remonte le refus serveur %s',
+    async (code) => {
+      mockRpc.mockResolvedValue({ error: { message: code } })
+      expect(await recordQrClockEvent(makeEvent())).toEqual({ success: false, error: code })
+    }
+  )
+
+  it('classe une erreur inconnue ou une exception comme réseau', async () => {
+    mockRpc.mockResolvedValueOnce({ error: { message: 'TypeError: Failed to fetch' } })
+    expect(await recordQrClockEvent(makeEvent())).toEqual({ success: false, error: 'network' })
+
+    mockRpc.mockRejectedValueOnce(new Error('offline'))
+    expect(await recordQrClockEvent(makeEvent())).toEqual({ success: false, error: 'network' })
+  })
+})
+
+describe('recordManualClockEvent', () => {
+  it('enregistre le pointage sans badge', async () => {
+    mockRpc.mockResolvedValue({ error: null })
+
+    await recordManualClockEvent('shift-1', 'end')
+
+    expect(mockRpc).toHaveBeenCalledWith('record_manual_clock_event', { p_shift_id: 'shift-1', p_event: 'end' })
+  })
+
+  it('traduit le refus serveur', async () => {
+    mockRpc.mockResolvedValue({ error: { message: 'not_authorized' } })
+
+    await expect(recordManualClockEvent('shift-1', 'start')).rejects.toThrow(
+      "Ce badge ne correspond pas à l'une de vos interventions."
+    )
+  })
+})
+
+describe('recordRetroactiveClockTimes', () => {
+  it('transmet les heures déclarées', async () => {
+    mockRpc.mockResolvedValue({ error: null })
+
+    await recordRetroactiveClockTimes(
+      'shift-1',
+      new Date('2026-03-10T08:00:00.000Z'),
+      new Date('2026-03-10T16:00:00.000Z')
+    )
+
+    expect(mockRpc).toHaveBeenCalledWith('record_retroactive_clock_times', {
+      p_shift_id: 'shift-1',
+      p_clocked_in_at: '2026-03-10T08:00:00.000Z',
+      p_clocked_out_at: '2026-03-10T16:00:00.000Z',
+    })
+  })
+
+  it('signale un relevé d\'heures verrouillé', async () => {
+    mockRpc.mockResolvedValue({ error: { message: 'timesheet_locked' } })
+
+    await expect(
+      recordRetroactiveClockTimes('shift-1', new Date(), new Date())
+    ).rejects.toThrow(/verrouill/i)
+  })
+})
+
+describe('syncPendingClockEvents', () => {
+  it('transmet les scans en attente et les retire de la file', async () => {
+    mockGetPending.mockResolvedValue([makeEvent({ nonce: 'a' }), makeEvent({ nonce: 'b', event: 'end' })])
+    mockRpc.mockResolvedValue({ error: null })
+
+    const result = await syncPendingClockEvents()
+
+    expect(result).toEqual({ synced: 2, rejected: 0, remaining: 0 })
+    // Scans hors ligne : le serveur retient l'heure de l'appareil
+    expect(mockRpc).toHaveBeenCalledWith('record_qr_clock_event', expect.objectContaining({ p_nonce: 'a', p_offline: true }))
+    expect(mockRemovePending).toHaveBeenCalledWith('a')
+    expect(mockRemovePending).toHaveBeenCalledWith('b')
+  })
+
+  it('applique la fin d\'intervention d\'un scan de fin accepté', async () => {
+    const completion = { hasNightAction: false }
+    mockGetPending.mockResolvedValue([makeEvent({ event: 'end', completion })])
+    mockRpc.mockResolvedValue({ error: null })
+
+    await syncPendingClockEvents()
+
+    expect(mockUpdateShift).toHaveBeenCalledWith('shift-1', { status: 'completed', ...completion })
+  })
+
+  it('considère un scan rejoué comme déjà enregistré', async () => {
+    const completion = { hasNightAction: false }
+    mockGetPending.mockResolvedValue([makeEvent({ event: 'end', completion })])
+    mockRpc.mockResolvedValue({ error: { message: 'replayed_scan' } })
+
+    const result = await syncPendingClockEvents()
+
+    expect(result.synced).toBe(1)
+    expect(mockUpdateShift).toHaveBeenCalled()
+    expect(mockRemovePending).toHaveBeenCalledWith('nonce-1')
+  })
+
+  it('retire un scan refusé sans clôturer l\'intervention', async () => {
+    const completion = { hasNightAction: false }
+    mockGetPending.mockResolvedValue([makeEvent({ event: 'end', completion })])
+    mockRpc.mockResolvedValue({ error: { message: 'invalid_badge' } })
+
+    const result = await syncPendingClockEvents()
+
+    expect(result).toEqual({ synced: 0, rejected: 1, remaining: 0 })
+    expect(mockUpdateShift).not.toHaveBeenCalled()
+    expect(mockRemovePending).toHaveBeenCalledWith('nonce-1')
+  })
+
+  it('s\'interrompt et conserve la file sur échec réseau', async () => {
+    mockGetPending.mockResolvedValue([makeEvent({ nonce: 'a' }), makeEvent({ nonce: 'b' })])
+    mockRpc.mockRejectedValue(new Error('offline'))
+
+    const result = await syncPendingClockEvents()
+
+    expect(result).toEqual({ synced: 0, rejected: 0, remaining: 2 })
+    expect(mockRpc).toHaveBeenCalledTimes(1)
+    expect(mockRemovePending).not.toHaveBeenCalled()
+  })
+})
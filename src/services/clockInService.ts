@@ -0,0 +1,183 @@
+import { supabase } from '@/lib/supabase/client'
+import { logger } from '@/lib/logger'
+import {
+  getPendingClockEvents,
+  removePendingClockEvent,
+  type PendingClockEvent,
+} from '@/lib/clockIn/offlineQueue'
+import { updateShift } from '@/services/shiftService'
+import { isTimesheetLockedError, TIMESHEET_LOCKED_MESSAGE } from '@/services/timesheetService'
+
+/** Motifs de refus renvoyés par `record_qr_clock_event` (+ échec réseau) */
+export type ClockEventError =
+  | 'invalid_badge'
+  | 'replayed_scan'
+  | 'scan_out_of_window'
+  | 'not_authorized'
+  | 'network'
+
+export type RecordClockEventResult =
+  | { success: true }
+  | { success: false; error: ClockEventError }
+
+export interface SyncClockEventsResult {
+  synced: number
+  rejected: number
+  remaining: number
+}
+
+const SERVER_ERRORS: ClockEventError[] = ['invalid_badge', 'replayed_scan', 'scan_out_of_window', 'not_authorized']
+
+export const CLOCK_EVENT_ERROR_MESSAGES: Record<ClockEventError, string> = {
+  invalid_badge: 'Badge invalide ou révoqué. Demandez un nouveau badge à votre employeur.',
+  replayed_scan: 'Ce pointage a déjà été enregistré.',
+  scan_out_of_window: "L'heure du scan ne correspond pas à l'intervention.",
+  not_authorized: "Ce badge ne correspond pas à l'une de vos interventions.",
+  network: 'Connexion indisponible.',
+}
+
+function toClockEventError(message: string | undefined): ClockEventError {
+  return SERVER_ERRORS.find((code) => message?.includes(code)) ?? 'network'
+}
+
+function toClockError(message: string): Error {
+  if (isTimesheetLockedError(message)) return new Error(TIMESHEET_LOCKED_MESSAGE)
+  const code = SERVER_ERRORS.find((c) => message.includes(c))
+  return new Error(code ? CLOCK_EVENT_ERROR_MESSAGES[code] : message)
+}
+
+/**
+ * Contenu du QR de pointage d'un contrat (employeur uniquement).
+ * Le badge est créé au premier appel.
+ */
+export async function getClockInBadgePayload(contractId: string): Promise<string | null> {
+  const { data, error } = await supabase.rpc('get_clock_in_badge', { p_contract_id: contractId })
+
+  if (error) {
+    logger.error('Erreur récupération badge pointage:', error)
+    return null
+  }
+
+  return data as string
+}
+
+/**
+ * Révoque le badge d'un contrat et retourne le nouveau contenu du QR.
+ * Les stickers déjà imprimés ne sont plus acceptés.
+ */
+export async function rotateClockInBadge(contractId: string): Promise<string | null> {
+  const { data, error } = await supabase.rpc('rotate_clock_in_badge', { p_contract_id: contractId })
+
+  if (error) {
+    logger.error('Erreur régénération badge pointage:', error)
+    return null
+  }
+
+  return data as string
+}
+
+/**
+ * Transmet un scan de badge au serveur, qui vérifie la signature et le nonce
+ * avant d'enregistrer le pointage. Un scan en ligne est horodaté par le
+ * serveur ; `offline` (synchronisation de la file) fait retenir `scannedAt`,
+ * accepté s'il date de moins de 12 heures.
+ */
+export async function recordQrClockEvent(
+  event: Pick<PendingClockEvent, 'payload' | 'shiftId' | 'event' | 'scannedAt' | 'nonce'>,
+  options: { offline?: boolean } = {}
+): Promise<RecordClockEventResult> {
+  try {
+    const { error } = await supabase.rpc('record_qr_clock_event', {
+      p_payload: event.payload,
+      p_shift_id: event.shiftId,
+      p_event: event.event,
+      p_scanned_at: event.scannedAt,
+      p_nonce: event.nonce,
+      p_offline: options.offline ?? false,
+    })
+
+    if (error) {
+      const code = toClockEventError(error.message)
+      logger.error('Erreur enregistrement pointage QR:', error)
+      return { success: false, error: code }
+    }
+
+    return { success: true }
+  } catch (err) {
+    logger.error('Erreur réseau pointage QR:', err)
+    return { success: false, error: 'network' }
+  }
+}
+
+/**
+ * Pointage sans badge : l'heure enregistrée est celle du serveur.
+ */
+export async function recordManualClockEvent(shiftId: string, event: 'start' | 'end'): Promise<void> {
+  const { error } = await supabase.rpc('record_manual_clock_event', {
+    p_shift_id: shiftId,
+    p_event: event,
+  })
+
+  if (error) {
+    logger.error('Erreur enregistrement pointage manuel:', error)
+    throw toClockError(error.message)
+  }
+}
+
+/**
+ * Heures réelles déclarées a posteriori (7 jours au plus),
+ * soumises au rapprochement par l'employeur.
+ */
+export async function recordRetroactiveClockTimes(
+  shiftId: string,
+  clockedInAt: Date,
+  clockedOutAt: Date
+): Promise<void> {
+  const { error } = await supabase.rpc('record_retroactive_clock_times', {
+    p_shift_id: shiftId,
+    p_clocked_in_at: clockedInAt.toISOString(),
+    p_clocked_out_at: clockedOutAt.toISOString(),
+  })
+
+  if (error) {
+    logger.error('Erreur saisie rétroactive du pointage:', error)
+    throw toClockError(error.message)
+  }
+}
+
+/**
+ * Rejoue les scans faits hors ligne, du plus ancien au plus récent.
+ * Un scan refusé par le serveur est retiré de la file ; un échec réseau
+ * interrompt la synchronisation, qui reprendra au prochain retour en ligne.
+ */
+export async function syncPendingClockEvents(): Promise<SyncClockEventsResult> {
+  const pending = await getPendingClockEvents()
+  let synced = 0
+  let rejected = 0
+
+  for (const event of pending) {
+    const result = await recordQrClockEvent(event, { offline: true })
+
+    if (!result.success && result.error === 'network') break
+
+    // Un scan rejoué a déjà été enregistré : sa fin d'intervention reste à appliquer
+    const accepted = result.success || result.error === 'replayed_scan'
+    if (accepted) {
+      if (event.completion) {
+        try {
+          await updateShift(event.shiftId, { status: 'completed', ...event.completion })
+        } catch (err) {
+          logger.error('Erreur clôture intervention synchronisée:', err)
+          break
+        }
+      }
+      synced++
+    } else {
+      rejected++
+    }
+
+    await removePendingClockEvent(event.nonce)
+  }
+
+  return { synced, rejected, remaining: pending.length - synced - rejected }
+}
@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { getContractAmendments, createContractAmendment } from './contractAmendmentService'
+
+// ─── Mocks ──────────────────────────────────────────────────────────
+
+const mockFrom = vi.fn()
+const mockStorageFrom = vi.fn()
+const mockUpdateContract = vi.fn()
+
+vi.mock('@/lib/supabase/client', () => ({
+  supabase: {
+    from: (...args: unknown[]) => mockFrom(...args),
+    storage: {
+      from: (...args: unknown[]) => mockStorageFrom(...args),
+    },
+  },
+}))
+
+vi.mock('@/lib/logger', () => ({
+  logger: {
+    error: vi.fn(),
+    warn: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn(),
+  },
+}))
+
+vi.mock('@/services/contractService', () => ({
+  updateContract: (...args: unknown[]) => mockUpdateContract(...args),
+}))
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+function mockSupabaseChain(result: { data: unknown; error: unknown }) {
+  const chain: Record<string, ReturnType<typeof vi.fn>> = {}
+  chain.select = vi.fn().mockReturnValue(chain)
+  chain.eq = vi.fn().mockReturnValue(chain)
+  chain.order = vi.fn().mockResolvedValue(result)
+  chain.single = vi.fn().mockResolvedValue(result)
+  chain.insert = vi.fn().mockReturnValue(chain)
+
+  mockFrom.mockReturnValue(chain)
+  return chain
+}
+
+function makeDbRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'am-1',
+    contract_id: 'c-1',
+    employer_id: 'emp-1',
+    effective_date: '2026-03-01',
+    weekly_hours: 28,
+    hourly_rate: 14.5,
+    pas_rate: 0.025,
+    reason: 'Augmentation',
+    signed_document_path: null,
+    created_at: '2026-02-20T10:00:00.000Z',
+    ...overrides,
+  }
+}
+
+const input = {
+  contractId: 'c-1',
+  employerId: 'emp-1',
+  employeeId: 'ee-1',
+  effectiveDate: new Date(2026, 2, 1),
+  weeklyHours: 28,
+  hourlyRate: 14.5,
+  pasRate: 0.025,
+  reason: '  Augmentation ',
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  vi.useFakeTimers()
+  vi.setSystemTime(new Date(2026, 3, 15))
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+// ── getContractAmendments ──
+
+describe('getContractAmendments', () => {
+  it('retourne les versions dans l\'ordre chronologique, dates converties', async () => {
+    const chain = mockSupabaseChain({
+      data: [makeDbRow({ id: 'initial', reason: 'Contrat initial' }), makeDbRow()],
+      error: null,
+    })
+
+    const result = await getContractAmendments('c-1')
+
+    expect(mockFrom).toHaveBeenCalledWith('contract_amendments')
+    expect(chain.eq).toHaveBeenCalledWith('contract_id', 'c-1')
+    expect(chain.order).toHaveBeenCalledWith('effective_date', { ascending: true })
+    expect(result).toHaveLength(2)
+    expect(result[1].hourlyRate).toBe(14.5)
+    expect(result[1].pasRate).toBe(0.025)
+    expect(result[1].signedDocumentPath).toBeUndefined()
+    expect(result[1].effectiveDate).toBeInstanceOf(Date)
+  })
+
+  it('retourne un tableau vide en cas d\'erreur', async () => {
+    mockSupabaseChain({ data: null, error: { message: 'error' } })
+
+    expect(await getContractAmendments('c-1')).toEqual([])
+  })
+})
+
+// ── createContractAmendment ──
+
+describe('createContractAmendment', () => {
+  it('enregistre l\'avenant et reporte sur le contrat les conditions en vigueur', async () => {
+    const chain = mockSupabaseChain({ data: makeDbRow(), error: null })
+
+    const result = await createContractAmendment(input)
+
+    expect(chain.insert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        contract_id: 'c-1',
+        effective_date: '2026-03-01',
+        hourly_rate: 14.5,
+        reason: 'Augmentation',
+        signed_document_path: null,
+      })
+    )
+    expect(mockStorageFrom).not.toHaveBeenCalled()
+    expect(mockUpdateContract).toHaveBeenCalledWith('c-1', {
+      weeklyHours: 28,
+      hourlyRate: 14.5,
+      pasRate: 0.025,
+    })
+    expect(result.id).toBe('am-1')
+  })
+
+  it('ne modifie pas le contrat pour un avenant à venir', async () => {
+    mockSupabaseChain({ data: makeDbRow({ effective_date: '2026-06-01' }), error: null })
+
+    await createContractAmendment({ ...input, effectiveDate: new Date(2026, 5, 1) })
+
+    expect(mockUpdateContract).not.toHaveBeenCalled()
+  })
+
+  it('dépose l\'avenant signé dans le dossier du contrat', async () => {
+    const mockUpload = vi.fn().mockResolvedValue({ error: null })
+    mockStorageFrom.mockReturnValue({ upload: mockUpload })
+    const path = 'emp-1/ee-1/c-1/avenants/2026-03-01.pdf'
+    const chain = mockSupabaseChain({ data: makeDbRow({ signed_document_path: path }), error: null })
+    const file = new File(['%PDF'], 'avenant.pdf', { type: 'application/pdf' })
+
+    const result = await createContractAmendment(input, file)
+
+    expect(mockStorageFrom).toHaveBeenCalledWith('employee-documents')
+    expect(mockUpload).toHaveBeenCalledWith(path, file, { contentType: 'application/pdf', upsert: true })
+    expect(chain.insert).toHaveBeenCalledWith(expect.objectContaining({ signed_document_path: path }))
+    expect(result.signedDocumentPath).toBe(path)
+  })
+
+  it('refuse un fichier qui n\'est pas un PDF', async () => {
+    const file = new File(['x'], 'avenant.png', { type: 'image/png' })
+
+    await expect(createContractAmendment(input, file)).rejects.toThrow('L\'avenant signé doit être un PDF')
+    expect(mockFrom).not.toHaveBeenCalled()
+  })
+
+  it('signale un avenant déjà enregistré à la même date', async () => {
+    mockSupabaseChain({ data: null, error: { code: '23505', message: 'duplicate key' } })
+
+    await expect(createContractAmendment(input)).rejects.toThrow('Un avenant prend déjà effet à cette date')
+    expect(mockUpdateContract).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,145 @@
+/**
+ * Service des avenants au contrat
+ *
+ * Responsabilités :
+ *  - Historique daté des conditions du contrat (table contract_amendments),
+ *    contrat initial compris
+ *  - Enregistrement d'un avenant, avec son PDF signé facultatif
+ *    (bucket "employee-documents", dossier avenants/ du contrat)
+ *  - Report sur le contrat des conditions déjà en vigueur (les avenants
+ *    futurs le sont par la base à leur date d'effet)
+ *
+ * L'historique n'est jamais réécrit : un changement de conditions est
+ * toujours un nouvel avenant.
+ */
+
+import { format } from 'date-fns'
+import { supabase } from '@/lib/supabase/client'
+import { logger } from '@/lib/logger'
+import { isInForce } from '@/lib/contract/amendments'
+import { updateContract } from '@/services/contractService'
+import type { ContractAmendment } from '@/types'
+import type { ContractAmendmentDbRow } from '@/types/database'
+
+const BUCKET = 'employee-documents'
+const MAX_FILE_SIZE = 10 * 1024 * 1024 // 10 Mo
+
+const SELECT_COLUMNS = 'id, contract_id, employer_id, effective_date, weekly_hours, hourly_rate, pas_rate, reason, signed_document_path, created_at'
+
+export interface ContractAmendmentInput {
+  contractId: string
+  employerId: string
+  employeeId: string
+  effectiveDate: Date
+  weeklyHours: number
+  hourlyRate: number
+  pasRate: number
+  reason: string
+}
+
+// ─── Helpers privés ──────────────────────────────────────────────────────────
+
+function mapFromDb(row: ContractAmendmentDbRow): ContractAmendment {
+  return {
+    id: row.id,
+    contractId: row.contract_id,
+    employerId: row.employer_id,
+    effectiveDate: new Date(row.effective_date),
+    weeklyHours: row.weekly_hours,
+    hourlyRate: row.hourly_rate,
+    pasRate: row.pas_rate ?? 0,
+    reason: row.reason,
+    signedDocumentPath: row.signed_document_path || undefined,
+    createdAt: new Date(row.created_at),
+  }
+}
+
+async function uploadSignedAmendment(input: ContractAmendmentInput, file: File): Promise<string> {
+  if (file.type !== 'application/pdf') {
+    throw new Error('L\'avenant signé doit être un PDF')
+  }
+  if (file.size > MAX_FILE_SIZE) {
+    throw new Error('L\'avenant signé dépasse 10 Mo')
+  }
+
+  const path = `${input.employerId}/${input.employeeId}/${input.contractId}/avenants/${format(input.effectiveDate, 'yyyy-MM-dd')}.pdf`
+
+  const { error } = await supabase.storage
+    .from(BUCKET)
+    .upload(path, file, { contentType: 'application/pdf', upsert: true })
+
+  if (error) {
+    logger.error('Erreur upload avenant signé:', error)
+    throw new Error('Erreur lors de l\'envoi de l\'avenant signé')
+  }
+
+  return path
+}
+
+// ─── Publics ─────────────────────────────────────────────────────────────────
+
+/**
+ * Versions des conditions d'un contrat, de la plus ancienne à la plus récente.
+ */
+export async function getContractAmendments(contractId: string): Promise<ContractAmendment[]> {
+  const { data, error } = await supabase
+    .from('contract_amendments')
+    .select(SELECT_COLUMNS)
+    .eq('contract_id', contractId)
+    .order('effective_date', { ascending: true })
+
+  if (error) {
+    logger.error('Erreur récupération avenants:', error)
+    return []
+  }
+
+  return (data || []).map((row) => mapFromDb(row as ContractAmendmentDbRow))
+}
+
+/**
+ * Enregistre un avenant. Si sa date d'effet est atteinte, les conditions
+ * du contrat sont mises à jour immédiatement ; sinon elles le sont côté
+ * serveur le jour de la date d'effet (tâche planifiée
+ * `apply_due_contract_amendments`, migration 018).
+ */
+export async function createContractAmendment(
+  input: ContractAmendmentInput,
+  signedPdf?: File
+): Promise<ContractAmendment> {
+  const signedDocumentPath = signedPdf ? await uploadSignedAmendment(input, signedPdf) : null
+
+  const { data, error } = await supabase
+    .from('contract_amendments')
+    .insert({
+      contract_id: input.contractId,
+      employer_id: input.employerId,
+      effective_date: format(input.effectiveDate, 'yyyy-MM-dd'),
+      weekly_hours: input.weeklyHours,
+      hourly_rate: input.hourlyRate,
+      pas_rate: input.pasRate,
+      reason: input.reason.trim(),
+      signed_document_path: signedDocumentPath,
+    })
+    .select(SELECT_COLUMNS)
+    .single()
+
+  if (error || !data) {
+    logger.error('Erreur création avenant:', error)
+    if (error?.code === '23505') {
+      throw new Error('Un avenant prend déjà effet à cette date')
+    }
+    throw new Error('Erreur lors de l\'enregistrement de l\'avenant')
+  }
+
+  const amendment = mapFromDb(data as ContractAmendmentDbRow)
+
+  if (isInForce(amendment)) {
+    await updateContract(input.contractId, {
+      weeklyHours: amendment.weeklyHours,
+      hourlyRate: amendment.hourlyRate,
+      pasRate: amendment.pasRate,
+    })
+  }
+
+  return amendment
+}
@@ -48,6 +48,7 @@ interface CaregiverContractCreateData {
 interface ContractUpdateData {
   weeklyHours?: number
   hourlyRate?: number
+  pasRate?: number
   pchHourlyRate?: number
   caregiverStatus?: CaregiverContractStatus
   status?: 'active' | 'terminated' | 'suspended'
@@ -315,6 +316,9 @@ export async function updateContract(
   if (updates.hourlyRate !== undefined) {
     dbUpdates.hourly_rate = updates.hourlyRate
   }
+  if (updates.pasRate !== undefined) {
+    dbUpdates.pas_rate = updates.pasRate
+  }
   if (updates.pchHourlyRate !== undefined) {
     dbUpdates.pch_hourly_rate = updates.pchHourlyRate
   }
@@ -0,0 +1,276 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import {
+  getTerminationContext,
+  getContractTermination,
+  recordContractTermination,
+} from './contractTerminationService'
+import type { Contract, LeaveBalance, Payslip } from '@/types'
+
+// ─── Mocks ──────────────────────────────────────────────────────────
+
+const mockFrom = vi.fn()
+const mockRpc = vi.fn()
+
+vi.mock('@/lib/supabase/client', () => ({
+  supabase: {
+    from: (...args: unknown[]) => mockFrom(...args),
+    rpc: (...args: unknown[]) => mockRpc(...args),
+  },
+}))
+
+vi.mock('@/lib/logger', () => ({
+  logger: {
+    error: vi.fn(),
+    warn: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn(),
+  },
+}))
+
+vi.mock('@/services/contractService', () => ({
+  getContractById: vi.fn(),
+}))
+
+vi.mock('@/services/notificationService', () => ({
+  createContractTerminatedNotification: vi.fn(),
+}))
+
+vi.mock('@/services/profileService', () => ({
+  getProfileName: vi.fn(),
+}))
+
+vi.mock('@/services/leaveBalanceService', () => ({
+  getLeaveBalancesForEmployee: vi.fn(),
+}))
+
+vi.mock('@/services/payslipStorageService', () => ({
+  getPayslipsHistory: vi.fn(),
+}))
+
+import { getContractById } from '@/services/contractService'
+import { createContractTerminatedNotification } from '@/services/notificationService'
+import { getProfileName } from '@/services/profileService'
+import { getLeaveBalancesForEmployee } from '@/services/leaveBalanceService'
+import { getPayslipsHistory } from '@/services/payslipStorageService'
+
+const mockGetContractById = vi.mocked(getContractById)
+const mockNotifyTerminated = vi.mocked(createContractTerminatedNotification)
+const mockGetProfileName = vi.mocked(getProfileName)
+const mockGetLeaveBalances = vi.mocked(getLeaveBalancesForEmployee)
+const mockGetPayslipsHistory = vi.mocked(getPayslipsHistory)
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+function mockSupabaseChain(result: { data: unknown; error: unknown }) {
+  const chain: Record<string, ReturnType<typeof vi.fn>> = {}
+  chain.select = vi.fn().mockReturnValue(chain)
+  chain.eq = vi.fn().mockReturnValue(chain)
+  chain.single = vi.fn().mockResolvedValue(result)
+  chain.maybeSingle = vi.fn().mockResolvedValue(result)
+
+  mockFrom.mockReturnValue(chain)
+  return chain
+}
+
+const contract = {
+  id: 'c-1',
+  employerId: 'emp-1',
+  employeeId: 'ee-1',
+  contractCategory: 'employment',
+  contractType: 'CDI',
+  startDate: new Date(2023, 0, 1),
+  weeklyHours: 20,
+  hourlyRate: 13,
+  pasRate: 0,
+  status: 'active',
+  createdAt: new Date(2023, 0, 1),
+  updatedAt: new Date(2023, 0, 1),
+} as Contract
+
+function makePayslip(month: number, overrides: Partial<Payslip> = {}): Payslip {
+  return {
+    id: `p-${month}`,
+    employerId: 'emp-1',
+    employeeId: 'ee-1',
+    contractId: 'c-1',
+    year: 2026,
+    month,
+    periodLabel: null,
+    grossPay: 1100 + month,
+    netPay: null,
+    totalHours: 86,
+    pasRate: 0,
+    isExemptPatronalSS: false,
+    storagePath: null,
+    storageUrl: null,
+    generatedAt: new Date(),
+    createdAt: new Date(),
+    ...overrides,
+  }
+}
+
+const sampleDbRow = {
+  id: 'term-1',
+  contract_id: 'c-1',
+  employer_id: 'emp-1',
+  employee_id: 'ee-1',
+  reason: 'dismissal',
+  notification_date: '2026-03-02',
+  end_date: '2026-05-02',
+  notice_waived: false,
+  seniority_months: 40,
+  reference_salary: '1200.00',
+  remaining_leave_days: '13.0',
+  outstanding_salary: '0.00',
+  leave_indemnity: '600.00',
+  notice_indemnity: '0.00',
+  severance_pay: '1000.00',
+  total_amount: '1600.00',
+  created_at: '2026-03-02T10:00:00.000Z',
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+})
+
+// ── getTerminationContext ──
+
+describe('getTerminationContext', () => {
+  it('additionne les congés restants du contrat (hors années clôturées) et garde les bulletins du plus ancien au plus récent', async () => {
+    mockGetContractById.mockResolvedValue(contract)
+    mockGetLeaveBalances.mockResolvedValue([
+      { contractId: 'c-1', leaveYear: '2025-2026', acquiredDays: 20, remainingDays: 10 },
+      { contractId: 'c-1', leaveYear: '2026-2027', acquiredDays: 5, remainingDays: 3 },
+      { contractId: 'c-1', leaveYear: '2026-2027', acquiredDays: 0, remainingDays: -2 },
+      { contractId: 'c-1', leaveYear: '2024-2025', acquiredDays: 25, remainingDays: 6, closedAt: new Date(2025, 5, 1) },
+      { contractId: 'autre', leaveYear: '2025-2026', acquiredDays: 30, remainingDays: 8 },
+    ] as LeaveBalance[])
+    mockGetPayslipsHistory.mockResolvedValue([
+      makePayslip(3),
+      makePayslip(2, { grossPay: null }),
+      makePayslip(1),
+      makePayslip(1, { contractId: 'autre' }),
+    ])
+
+    const result = await getTerminationContext('c-1')
+
+    expect(mockGetLeaveBalances).toHaveBeenCalledWith('ee-1')
+    expect(mockGetPayslipsHistory).toHaveBeenCalledWith('emp-1', 'ee-1')
+    expect(result!.remainingLeaveDays).toBe(13)
+    expect(result!.recentPayslips.map((p) => p.month)).toEqual([1, 3])
+  })
+
+  it('calcule la base du dixième sur les périodes d\'acquisition des années ouvertes', async () => {
+    mockGetContractById.mockResolvedValue(contract)
+    mockGetLeaveBalances.mockResolvedValue([
+      { contractId: 'c-1', leaveYear: '2025-2026', acquiredDays: 20, remainingDays: 12 },
+      { contractId: 'c-1', leaveYear: '2024-2025', acquiredDays: 25, remainingDays: 0, closedAt: new Date(2025, 5, 1) },
+    ] as LeaveBalance[])
+    mockGetPayslipsHistory.mockResolvedValue([
+      makePayslip(3),
+      makePayslip(1),
+      makePayslip(5, { year: 2025 }),
+      makePayslip(2, { contractId: 'autre' }),
+    ])
+
+    const result = await getTerminationContext('c-1')
+
+    // Janvier et mars 2026 (période juin 2025 – mai 2026) ; mai 2025 relève de l'année clôturée
+    expect(result!.leaveTenthBasis).toEqual({ referencePeriodGross: 2204, acquiredDays: 20 })
+  })
+
+  it('retourne null si le contrat est introuvable', async () => {
+    mockGetContractById.mockResolvedValue(null)
+
+    expect(await getTerminationContext('c-1')).toBeNull()
+    expect(mockGetLeaveBalances).not.toHaveBeenCalled()
+  })
+})
+
+// ── getContractTermination ──
+
+describe('getContractTermination', () => {
+  it('retourne la rupture mappée', async () => {
+    mockSupabaseChain({ data: sampleDbRow, error: null })
+
+    const result = await getContractTermination('c-1')
+
+    expect(mockFrom).toHaveBeenCalledWith('contract_terminations')
+    expect(result!.reason).toBe('dismissal')
+    expect(result!.severancePay).toBe(1000)
+    expect(result!.endDate).toBeInstanceOf(Date)
+  })
+
+  it('retourne null en cas d\'erreur', async () => {
+    mockSupabaseChain({ data: null, error: { message: 'error' } })
+
+    expect(await getContractTermination('c-1')).toBeNull()
+  })
+})
+
+// ── recordContractTermination ──
+
+describe('recordContractTermination', () => {
+  const input = {
+    contractId: 'c-1',
+    employerId: 'emp-1',
+    employeeId: 'ee-1',
+    reason: 'dismissal' as const,
+    notificationDate: new Date(2026, 2, 2),
+    endDate: new Date(2026, 4, 2),
+    noticeWaived: false,
+    seniorityMonths: 40,
+    referenceSalary: 1200,
+    remainingLeaveDays: 13,
+    outstandingSalary: 0,
+    leaveIndemnity: 600,
+    noticeIndemnity: 0,
+    severancePay: 1000,
+    totalAmount: 1600,
+  }
+
+  it('enregistre la rupture et clôt le contrat en une transaction, puis prévient l\'auxiliaire', async () => {
+    mockRpc.mockResolvedValue({ data: sampleDbRow, error: null })
+    mockGetProfileName.mockResolvedValue('Marie Dupont')
+
+    const result = await recordContractTermination(input)
+
+    expect(mockRpc).toHaveBeenCalledWith(
+      'record_contract_termination',
+      expect.objectContaining({
+        p_contract_id: 'c-1',
+        p_notification_date: '2026-03-02',
+        p_end_date: '2026-05-02',
+        p_total_amount: 1600,
+      })
+    )
+    expect(mockFrom).not.toHaveBeenCalled()
+    expect(mockNotifyTerminated).toHaveBeenCalledWith('ee-1', 'Marie Dupont')
+    expect(result.id).toBe('term-1')
+  })
+
+  it('lève une erreur sans notifier si l\'enregistrement échoue', async () => {
+    mockRpc.mockResolvedValue({ data: null, error: { message: 'violates check constraint' } })
+
+    await expect(recordContractTermination(input)).rejects.toThrow(
+      'Erreur lors de l\'enregistrement de la fin de contrat'
+    )
+    expect(mockNotifyTerminated).not.toHaveBeenCalled()
+  })
+
+  it('signale un contrat déjà clos', async () => {
+    mockRpc.mockResolvedValue({ data: null, error: { message: 'already_terminated' } })
+
+    await expect(recordContractTermination(input)).rejects.toThrow('Ce contrat a déjà été clos')
+  })
+
+  it('conserve la rupture si la notification échoue', async () => {
+    mockRpc.mockResolvedValue({ data: sampleDbRow, error: null })
+    mockGetProfileName.mockResolvedValue('Marie Dupont')
+    mockNotifyTerminated.mockRejectedValue(new Error('network'))
+
+    const result = await recordContractTermination(input)
+
+    expect(result.id).toBe('term-1')
+  })
+})
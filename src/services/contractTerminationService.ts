@@ -0,0 +1,160 @@
+/**
+ * Service de fin de contrat
+ *
+ * Responsabilités :
+ *  - Rassembler ce qu'il faut pour calculer le solde de tout compte : contrat,
+ *    congés restants (LeaveBalance.remainingDays), base du dixième et
+ *    bulletins récents
+ *  - Enregistrer la rupture (table contract_terminations) et clore le
+ *    contrat en une seule transaction (`record_contract_termination`)
+ *
+ * Les documents (PDF) sont générés côté composant puis classés via
+ * `saveEmployeeDocument` (employeeDocumentService).
+ */
+
+import { format } from 'date-fns'
+import { supabase } from '@/lib/supabase/client'
+import { logger } from '@/lib/logger'
+import { getLeaveYearEndDate, getLeaveYearStartDate } from '@/lib/absence'
+import type { LeaveTenthBasis } from '@/lib/contract/termination'
+import type { Contract, ContractTermination, Payslip } from '@/types'
+import type { ContractTerminationDbRow } from '@/types/database'
+import { getContractById } from '@/services/contractService'
+import { createContractTerminatedNotification } from '@/services/notificationService'
+import { getProfileName } from '@/services/profileService'
+import { getLeaveBalancesForEmployee } from '@/services/leaveBalanceService'
+import { getPayslipsHistory } from '@/services/payslipStorageService'
+
+export interface TerminationContext {
+  contract: Contract
+  /** Jours de congés acquis et non pris, toutes années confondues */
+  remainingLeaveDays: number
+  /** Brut des bulletins et jours acquis sur les périodes d'acquisition de ces congés */
+  leaveTenthBasis: LeaveTenthBasis
+  /** Bulletins des 12 derniers mois du contrat, du plus ancien au plus récent */
+  recentPayslips: Payslip[]
+}
+
+export type ContractTerminationInput = Omit<ContractTermination, 'id' | 'createdAt'>
+
+const SELECT_COLUMNS =
+  'id, contract_id, employer_id, employee_id, reason, notification_date, end_date, notice_waived, seniority_months, reference_salary, remaining_leave_days, outstanding_salary, leave_indemnity, notice_indemnity, severance_pay, total_amount, created_at'
+
+function mapFromDb(row: ContractTerminationDbRow): ContractTermination {
+  return {
+    id: row.id,
+    contractId: row.contract_id,
+    employerId: row.employer_id,
+    employeeId: row.employee_id,
+    reason: row.reason,
+    notificationDate: new Date(row.notification_date),
+    endDate: new Date(row.end_date),
+    noticeWaived: row.notice_waived,
+    seniorityMonths: row.seniority_months,
+    referenceSalary: Number(row.reference_salary),
+    remainingLeaveDays: Number(row.remaining_leave_days),
+    outstandingSalary: Number(row.outstanding_salary),
+    leaveIndemnity: Number(row.leave_indemnity),
+    noticeIndemnity: Number(row.notice_indemnity),
+    severancePay: Number(row.severance_pay),
+    totalAmount: Number(row.total_amount),
+    createdAt: new Date(row.created_at),
+  }
+}
+
+/**
+ * Données nécessaires au calcul de la fin d'un contrat d'auxiliaire.
+ */
+export async function getTerminationContext(contractId: string): Promise<TerminationContext | null> {
+  const contract = await getContractById(contractId)
+  if (!contract?.employeeId) return null
+
+  const [balances, payslips] = await Promise.all([
+    getLeaveBalancesForEmployee(contract.employeeId),
+    getPayslipsHistory(contract.employerId, contract.employeeId),
+  ])
+
+  // Une année clôturée a été reportée sur la suivante
+  const openBalances = balances.filter((b) => b.contractId === contractId && !b.closedAt)
+  const remainingLeaveDays = openBalances.reduce((sum, b) => sum + Math.max(b.remainingDays, 0), 0)
+
+  const contractPayslips = payslips.filter((p) => p.contractId === contractId && p.grossPay !== null)
+
+  const isInAcquisitionPeriod = (p: Payslip) => {
+    const month = new Date(p.year, p.month - 1, 1)
+    return openBalances.some(
+      (b) => month >= getLeaveYearStartDate(b.leaveYear) && month <= getLeaveYearEndDate(b.leaveYear)
+    )
+  }
+  const leaveTenthBasis: LeaveTenthBasis = {
+    referencePeriodGross: contractPayslips
+      .filter(isInAcquisitionPeriod)
+      .reduce((sum, p) => sum + (p.grossPay ?? 0), 0),
+    acquiredDays: openBalances.reduce((sum, b) => sum + b.acquiredDays, 0),
+  }
+
+  // L'historique arrive du plus récent au plus ancien
+  const recentPayslips = contractPayslips.slice(0, 12).reverse()
+
+  return { contract, remainingLeaveDays, leaveTenthBasis, recentPayslips }
+}
+
+/**
+ * Rupture déjà enregistrée pour un contrat.
+ */
+export async function getContractTermination(contractId: string): Promise<ContractTermination | null> {
+  const { data, error } = await supabase
+    .from('contract_terminations')
+    .select(SELECT_COLUMNS)
+    .eq('contract_id', contractId)
+    .maybeSingle()
+
+  if (error) {
+    logger.error('Erreur récupération fin de contrat:', error)
+    return null
+  }
+
+  return data ? mapFromDb(data as ContractTerminationDbRow) : null
+}
+
+/**
+ * Enregistre la rupture et clôt le contrat à sa date de fin, dans une même
+ * transaction (`record_contract_termination`), puis prévient l'auxiliaire.
+ */
+export async function recordContractTermination(
+  input: ContractTerminationInput
+): Promise<ContractTermination> {
+  const { data, error } = await supabase.rpc('record_contract_termination', {
+    p_contract_id: input.contractId,
+    p_reason: input.reason,
+    p_notification_date: format(input.notificationDate, 'yyyy-MM-dd'),
+    p_end_date: format(input.endDate, 'yyyy-MM-dd'),
+    p_notice_waived: input.noticeWaived,
+    p_seniority_months: input.seniorityMonths,
+    p_reference_salary: input.referenceSalary,
+    p_remaining_leave_days: input.remainingLeaveDays,
+    p_outstanding_salary: input.outstandingSalary,
+    p_leave_indemnity: input.leaveIndemnity,
+    p_notice_indemnity: input.noticeIndemnity,
+    p_severance_pay: input.severancePay,
+    p_total_amount: input.totalAmount,
+  })
+
+  if (error || !data) {
+    logger.error('Erreur enregistrement fin de contrat:', error)
+    throw new Error(
+      error?.message?.includes('already_terminated')
+        ? 'Ce contrat a déjà été clos'
+        : 'Erreur lors de l\'enregistrement de la fin de contrat'
+    )
+  }
+
+  try {
+    const employerName = await getProfileName(input.employerId)
+    await createContractTerminatedNotification(input.employeeId, employerName)
+  } catch (err) {
+    logger.error('Erreur notification fin contrat:', err)
+  }
+
+  return mapFromDb(data as ContractTerminationDbRow)
+}
@@ -55,6 +55,9 @@ const DB_ROW = {
   maj_ferie: 100,
   maj_nuit: 30,
   maj_supp: 50,
+  mileage_rate: '0.500',
+  leave_carry_over_policy: 'capped',
+  leave_carry_over_cap: '5.0',
   created_at: '2026-01-01T00:00:00Z',
   updated_at: '2026-01-01T00:00:00Z',
 }
@@ -68,6 +71,9 @@ const MAPPED_SETTINGS: ConventionSettings = {
   majFerie: 100,
   majNuit: 30,
   majSupp: 50,
+  mileageRate: 0.5,
+  leaveCarryOverPolicy: 'capped',
+  leaveCarryOverCap: 5,
 }
 
 // ============================================================
@@ -176,6 +182,9 @@ describe('upsertConventionSettings', () => {
         maj_ferie: 100,
         maj_nuit: 30,
         maj_supp: 50,
+        mileage_rate: 0.5,
+        leave_carry_over_policy: 'capped',
+        leave_carry_over_cap: 5,
       }),
       { onConflict: 'profile_id' }
     )
@@ -1,11 +1,14 @@
 /**
- * Service CRUD pour les paramètres de convention collective (règles + majorations).
+ * Service CRUD pour les paramètres de convention collective (règles, majorations,
+ * indemnité kilométrique).
  * Table : convention_settings (une ligne par employeur).
  */
 
 import { supabase } from '@/lib/supabase/client'
 import { logger } from '@/lib/logger'
+import { DEFAULT_MILEAGE_RATE } from '@/lib/mileage/allowance'
 import type { ConventionSettingsDbRow } from '@/types/database'
+import type { LeaveCarryOverPolicy } from '@/types'
 
 export interface ConventionSettings {
   ruleBreak: boolean
@@ -16,6 +19,12 @@ export interface ConventionSettings {
   majFerie: number
   majNuit: number
   majSupp: number
+  /** Indemnité kilométrique (€/km), véhicule de l'auxiliaire */
+  mileageRate: number
+  /** Sort du reliquat de congés à la clôture de l'année (1er juin) */
+  leaveCarryOverPolicy: LeaveCarryOverPolicy
+  /** Jours reportés au plus avec la politique `capped` */
+  leaveCarryOverCap: number
 }
 
 export const CONVENTION_DEFAULTS: ConventionSettings = {
@@ -27,6 +36,9 @@ export const CONVENTION_DEFAULTS: ConventionSettings = {
   majFerie: 60,
   majNuit: 25,
   majSupp: 25,
+  mileageRate: DEFAULT_MILEAGE_RATE,
+  leaveCarryOverPolicy: 'carry_all',
+  leaveCarryOverCap: 6,
 }
 
 function mapFromDb(row: ConventionSettingsDbRow): ConventionSettings {
@@ -39,13 +51,16 @@ function mapFromDb(row: ConventionSettingsDbRow): ConventionSettings {
     majFerie: row.maj_ferie,
     majNuit: row.maj_nuit,
     majSupp: row.maj_supp,
+    mileageRate: row.mileage_rate != null ? Number(row.mileage_rate) : DEFAULT_MILEAGE_RATE,
+    leaveCarryOverPolicy: row.leave_carry_over_policy ?? CONVENTION_DEFAULTS.leaveCarryOverPolicy,
+    leaveCarryOverCap: row.leave_carry_over_cap != null ? Number(row.leave_carry_over_cap) : CONVENTION_DEFAULTS.leaveCarryOverCap,
   }
 }
 
 export async function getConventionSettings(profileId: string): Promise<ConventionSettings> {
   const { data, error } = await supabase
     .from('convention_settings')
-    .select('profile_id, rule_break, rule_daily_max, rule_overtime, rule_night, maj_dimanche, maj_ferie, maj_nuit, maj_supp, created_at, updated_at')
+    .select('profile_id, rule_break, rule_daily_max, rule_overtime, rule_night, maj_dimanche, maj_ferie, maj_nuit, maj_supp, mileage_rate, leave_carry_over_policy, leave_carry_over_cap, created_at, updated_at')
     .eq('profile_id', profileId)
     .single()
 
@@ -73,6 +88,9 @@ export async function upsertConventionSettings(
       maj_ferie: settings.majFerie,
       maj_nuit: settings.majNuit,
       maj_supp: settings.majSupp,
+      mileage_rate: settings.mileageRate,
+      leave_carry_over_policy: settings.leaveCarryOverPolicy,
+      leave_carry_over_cap: settings.leaveCarryOverCap,
       updated_at: new Date().toISOString(),
     }, { onConflict: 'profile_id' })
 
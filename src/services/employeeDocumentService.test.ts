@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import {
+  saveEmployeeDocument,
+  getEmployeeDocuments,
+  getEmployeeDocumentSignedUrl,
+} from './employeeDocumentService'
+
+// ─── Mocks ──────────────────────────────────────────────────────────
+
+const mockFrom = vi.fn()
+const mockStorageFrom = vi.fn()
+
+vi.mock('@/lib/supabase/client', () => ({
+  supabase: {
+    from: (...args: unknown[]) => mockFrom(...args),
+    storage: {
+      from: (...args: unknown[]) => mockStorageFrom(...args),
+    },
+  },
+}))
+
+vi.mock('@/lib/logger', () => ({
+  logger: {
+    error: vi.fn(),
+    warn: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn(),
+  },
+}))
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+function mockSupabaseChain(result: { data: unknown; error: unknown }) {
+  const chain: Record<string, ReturnType<typeof vi.fn>> = {}
+  chain.select = vi.fn().mockReturnValue(chain)
+  chain.eq = vi.fn().mockReturnValue(chain)
+  chain.order = vi.fn().mockResolvedValue(result)
+  chain.single = vi.fn().mockResolvedValue(result)
+  chain.upsert = vi.fn().mockReturnValue(chain)
+
+  mockFrom.mockReturnValue(chain)
+  return chain
+}
+
+const sampleDbRow = {
+  id: 'doc-1',
+  employer_id: 'emp-1',
+  employee_id: 'ee-1',
+  contract_id: 'c-1',
+  document_type: 'work_certificate',
+  title: 'Certificat de travail',
+  storage_path: 'emp-1/ee-1/c-1/work_certificate.pdf',
+  created_at: '2026-05-02T10:00:00.000Z',
+}
+
+const input = {
+  employerId: 'emp-1',
+  employeeId: 'ee-1',
+  contractId: 'c-1',
+  documentType: 'work_certificate' as const,
+  title: 'Certificat de travail',
+}
+
+// "%PDF" encodé en base64
+const PDF_DATA_URI = 'data:application/pdf;base64,JVBERg=='
+
+beforeEach(() => {
+  vi.clearAllMocks()
+})
+
+// ── saveEmployeeDocument ──
+
+describe('saveEmployeeDocument', () => {
+  it('dépose le PDF puis classe le document par contrat et type', async () => {
+    const mockUpload = vi.fn().mockResolvedValue({ error: null })
+    mockStorageFrom.mockReturnValue({ upload: mockUpload })
+    const chain = mockSupabaseChain({ data: sampleDbRow, error: null })
+
+    const result = await saveEmployeeDocument(input, PDF_DATA_URI)
+
+    expect(mockStorageFrom).toHaveBeenCalledWith('employee-documents')
+    expect(mockUpload).toHaveBeenCalledWith(
+      'emp-1/ee-1/c-1/work_certificate.pdf',
+      expect.any(Blob),
+      { contentType: 'application/pdf', upsert: true }
+    )
+    expect(mockFrom).toHaveBeenCalledWith('employee_documents')
+    expect(chain.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        employee_id: 'ee-1',
+        document_type: 'work_certificate',
+        storage_path: 'emp-1/ee-1/c-1/work_certificate.pdf',
+      }),
+      { onConflict: 'contract_id,document_type' }
+    )
+    expect(result.id).toBe('doc-1')
+    expect(result.documentType).toBe('work_certificate')
+    expect(result.createdAt).toBeInstanceOf(Date)
+  })
+
+  it('lève une erreur si l\'upload échoue, sans classer le document', async () => {
+    mockStorageFrom.mockReturnValue({
+      upload: vi.fn().mockResolvedValue({ error: { message: 'quota' } }),
+    })
+
+    await expect(saveEmployeeDocument(input, PDF_DATA_URI)).rejects.toThrow(
+      'Erreur lors de l\'enregistrement du document'
+    )
+    expect(mockFrom).not.toHaveBeenCalled()
+  })
+
+  it('lève une erreur si le classement en base échoue', async () => {
+    mockStorageFrom.mockReturnValue({ upload: vi.fn().mockResolvedValue({ error: null }) })
+    mockSupabaseChain({ data: null, error: { message: 'RLS' } })
+
+    await expect(saveEmployeeDocument(input, PDF_DATA_URI)).rejects.toThrow()
+  })
+})
+
+// ── getEmployeeDocuments ──
+
+describe('getEmployeeDocuments', () => {
+  it('retourne les documents de l\'auxiliaire', async () => {
+    const chain = mockSupabaseChain({ data: [sampleDbRow], error: null })
+
+    const result = await getEmployeeDocuments('ee-1')
+
+    expect(chain.eq).toHaveBeenCalledWith('employee_id', 'ee-1')
+    expect(chain.order).toHaveBeenCalledWith('created_at', { ascending: false })
+    expect(result).toHaveLength(1)
+    expect(result[0].title).toBe('Certificat de travail')
+  })
+
+  it('retourne un tableau vide en cas d\'erreur', async () => {
+    mockSupabaseChain({ data: null, error: { message: 'error' } })
+
+    expect(await getEmployeeDocuments('ee-1')).toEqual([])
+  })
+})
+
+// ── getEmployeeDocumentSignedUrl ──
+
+describe('getEmployeeDocumentSignedUrl', () => {
+  it('retourne l\'URL signée', async () => {
+    mockStorageFrom.mockReturnValue({
+      createSignedUrl: vi.fn().mockResolvedValue({ data: { signedUrl: 'https://signed' }, error: null }),
+    })
+
+    expect(await getEmployeeDocumentSignedUrl('a/b/c.pdf')).toBe('https://signed')
+  })
+
+  it('retourne null en cas d\'erreur', async () => {
+    mockStorageFrom.mockReturnValue({
+      createSignedUrl: vi.fn().mockResolvedValue({ data: null, error: { message: 'not found' } }),
+    })
+
+    expect(await getEmployeeDocumentSignedUrl('a/b/c.pdf')).toBeNull()
+  })
+})
@@ -0,0 +1,145 @@
+/**
+ * Service des documents remis à l'auxiliaire
+ *
+ * Responsabilités :
+ *  - Upload du PDF dans Supabase Storage (bucket "employee-documents")
+ *  - Classement du document en DB (table employee_documents), un document
+ *    de chaque type par contrat
+ *  - Récupération des documents d'un auxiliaire ou d'un contrat
+ *  - Génération d'URL signées pour le téléchargement
+ */
+
+import { supabase } from '@/lib/supabase/client'
+import { logger } from '@/lib/logger'
+import { dataUriToBlob } from '@/lib/dataUri'
+import type { EmployeeDocument, EmployeeDocumentType } from '@/types'
+import type { EmployeeDocumentDbRow } from '@/types/database'
+
+const BUCKET = 'employee-documents'
+const SIGNED_URL_TTL_SECONDS = 3600
+
+const SELECT_COLUMNS = 'id, employer_id, employee_id, contract_id, document_type, title, storage_path, created_at'
+
+export interface EmployeeDocumentInput {
+  employerId: string
+  employeeId: string
+  contractId: string
+  documentType: EmployeeDocumentType
+  title: string
+}
+
+// ─── Helpers privés ──────────────────────────────────────────────────────────
+
+function mapFromDb(row: EmployeeDocumentDbRow): EmployeeDocument {
+  return {
+    id: row.id,
+    employerId: row.employer_id,
+    employeeId: row.employee_id,
+    contractId: row.contract_id,
+    documentType: row.document_type,
+    title: row.title,
+    storagePath: row.storage_path,
+    createdAt: new Date(row.created_at),
+  }
+}
+
+// ─── Publics ─────────────────────────────────────────────────────────────────
+
+/**
+ * Dépose un document PDF et le classe dans l'espace Documents de l'auxiliaire.
+ * Chemin : <employerId>/<employeeId>/<contractId>/<documentType>.pdf
+ * Un document du même type pour le même contrat est remplacé.
+ */
+export async function saveEmployeeDocument(
+  input: EmployeeDocumentInput,
+  pdfDataUri: string
+): Promise<EmployeeDocument> {
+  const path = `${input.employerId}/${input.employeeId}/${input.contractId}/${input.documentType}.pdf`
+
+  const { error: uploadError } = await supabase.storage
+    .from(BUCKET)
+    .upload(path, dataUriToBlob(pdfDataUri), {
+      contentType: 'application/pdf',
+      upsert: true,
+    })
+
+  if (uploadError) {
+    logger.error('Erreur upload document auxiliaire:', uploadError)
+    throw new Error('Erreur lors de l\'enregistrement du document')
+  }
+
+  const { data, error } = await supabase
+    .from('employee_documents')
+    .upsert(
+      {
+        employer_id: input.employerId,
+        employee_id: input.employeeId,
+        contract_id: input.contractId,
+        document_type: input.documentType,
+        title: input.title,
+        storage_path: path,
+      },
+      { onConflict: 'contract_id,document_type' }
+    )
+    .select(SELECT_COLUMNS)
+    .single()
+
+  if (error || !data) {
+    logger.error('Erreur classement document auxiliaire:', error)
+    throw new Error('Erreur lors de l\'enregistrement du document')
+  }
+
+  return mapFromDb(data as EmployeeDocumentDbRow)
+}
+
+/**
+ * Documents d'un auxiliaire (sa propre vue), du plus récent au plus ancien.
+ */
+export async function getEmployeeDocuments(employeeId: string): Promise<EmployeeDocument[]> {
+  const { data, error } = await supabase
+    .from('employee_documents')
+    .select(SELECT_COLUMNS)
+    .eq('employee_id', employeeId)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    logger.error('Erreur récupération documents auxiliaire:', error)
+    return []
+  }
+
+  return (data || []).map((row) => mapFromDb(row as EmployeeDocumentDbRow))
+}
+
+/**
+ * Documents remis au titre d'un contrat (vue employeur).
+ */
+export async function getContractDocuments(contractId: string): Promise<EmployeeDocument[]> {
+  const { data, error } = await supabase
+    .from('employee_documents')
+    .select(SELECT_COLUMNS)
+    .eq('contract_id', contractId)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    logger.error('Erreur récupération documents contrat:', error)
+    return []
+  }
+
+  return (data || []).map((row) => mapFromDb(row as EmployeeDocumentDbRow))
+}
+
+/**
+ * Génère une URL signée valable SIGNED_URL_TTL_SECONDS secondes.
+ */
+export async function getEmployeeDocumentSignedUrl(storagePath: string): Promise<string | null> {
+  const { data, error } = await supabase.storage
+    .from(BUCKET)
+    .createSignedUrl(storagePath, SIGNED_URL_TTL_SECONDS)
+
+  if (error || !data) {
+    logger.error('Erreur génération URL signée document:', error)
+    return null
+  }
+
+  return data.signedUrl
+}
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { searchFullText } from './fullTextSearchService'
+
+// ============================================================
+// MOCKS
+// ============================================================
+
+const mockRpc = vi.fn()
+
+vi.mock('@/lib/supabase/client', () => ({
+  supabase: {
+    rpc: (...args: unknown[]) => mockRpc(...args),
+  },
+}))
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn(), debug: vi.fn() },
+}))
+
+const hit = (overrides: Record<string, unknown>) => ({
+  source: 'logbook',
+  id: 'id-1',
+  title: null,
+  snippet: 'a bien [[mangé]]',
+  rank: 0.5,
+  occurred_at: '2025-11-03T10:00:00Z',
+  link_id: null,
+  ...overrides,
+})
+
+beforeEach(() => {
+  vi.clearAllMocks()
+})
+
+describe('searchFullText', () => {
+  it('appelle search_everything avec une ligne de plus que la page', async () => {
+    mockRpc.mockResolvedValue({ data: [], error: null })
+
+    await searchFullText('employer-1', '  repas  ', { limit: 10, offset: 20 })
+
+    expect(mockRpc).toHaveBeenCalledWith('search_everything', {
+      p_employer_id: 'employer-1',
+      p_query: 'repas',
+      p_limit: 11,
+      p_offset: 20,
+    })
+  })
+
+  it('ne sollicite pas le serveur pour une requête vide', async () => {
+    const page = await searchFullText('employer-1', '   ')
+
+    expect(mockRpc).not.toHaveBeenCalled()
+    expect(page).toEqual({ results: [], hasMore: false })
+  })
+
+  it('convertit chaque source en résultat navigable', async () => {
+    mockRpc.mockResolvedValue({
+      data: [
+        hit({ source: 'message', id: 'm-1', link_id: 'conv-1' }),
+        hit({ source: 'logbook', id: 'l-1', title: 'incident' }),
+        hit({ source: 'shift', id: 's-1', link_id: '2025-11-03' }),
+        hit({ source: 'absence', id: 'a-1', title: 'sick', snippet: '' }),
+        hit({ source: 'payslip', id: 'p-1', title: 'Novembre 2025' }),
+      ],
+      error: null,
+    })
+
+    const { results } = await searchFullText('employer-1', 'repas')
+
+    expect(results.map((r) => [r.id, r.category, r.href])).toEqual([
+      ['message-m-1', 'messages', '/messagerie?conv=conv-1'],
+      ['log-l-1', 'logbook', '/cahier-de-liaison'],
+      ['shift-s-1', 'shifts', '/planning?date=2025-11-03'],
+      ['doc-a-1', 'documents', '/documents'],
+      ['payslip-p-1', 'payslips', '/documents'],
+    ])
+    expect(results[1].title).toMatch(/^Incident · /)
+    expect(results[1].snippet).toBe('a bien [[mangé]]')
+    expect(results[3]).toMatchObject({ title: 'Arrêt maladie', snippet: undefined })
+    expect(results[4].title).toBe('Bulletin Novembre 2025')
+  })
+
+  it('signale une page suivante', async () => {
+    mockRpc.mockResolvedValue({
+      data: [hit({ id: '1' }), hit({ id: '2' }), hit({ id: '3' })],
+      error: null,
+    })
+
+    const page = await searchFullText('employer-1', 'repas', { limit: 2 })
+
+    expect(page.results).toHaveLength(2)
+    expect(page.hasMore).toBe(true)
+  })
+
+  it('retourne une page vide en cas d\'erreur', async () => {
+    mockRpc.mockResolvedValue({ data: null, error: { message: 'boom' } })
+
+    expect(await searchFullText('employer-1', 'repas')).toEqual({ results: [], hasMore: false })
+  })
+})
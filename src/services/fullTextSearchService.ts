@@ -0,0 +1,135 @@
+/**
+ * Recherche plein texte côté serveur (RPC `search_everything`)
+ * Messages, cahier de liaison, interventions, absences et bulletins de paie,
+ * y compris les données jamais chargées côté client. Les politiques RLS
+ * s'appliquent : chacun ne trouve que ce qu'il peut déjà consulter.
+ */
+
+import { supabase } from '@/lib/supabase/client'
+import { logger } from '@/lib/logger'
+import { ABSENCE_TYPE_LABELS } from '@/lib/constants/statusMaps'
+import { LOG_TYPE_LABELS, formatShiftDate } from '@/services/searchService'
+import type { SearchResult } from '@/services/searchService'
+import type { Absence } from '@/types'
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+type FullTextSource = 'message' | 'logbook' | 'shift' | 'absence' | 'payslip'
+
+interface FullTextHitRow {
+  source: FullTextSource
+  id: string
+  title: string | null
+  snippet: string
+  rank: number
+  occurred_at: string
+  link_id: string | null
+}
+
+export interface FullTextSearchPage {
+  results: SearchResult[]
+  hasMore: boolean
+}
+
+export const FULL_TEXT_PAGE_SIZE = 10
+
+// ── Mapping ──────────────────────────────────────────────────────────────────
+
+function formatDay(iso: string): string {
+  return new Intl.DateTimeFormat('fr-FR', { day: 'numeric', month: 'short', year: 'numeric' })
+    .format(new Date(iso))
+}
+
+function mapHit(row: FullTextHitRow): SearchResult | null {
+  switch (row.source) {
+    case 'message':
+      return {
+        id: `message-${row.id}`,
+        category: 'messages',
+        icon: 'message',
+        title: `Message du ${formatDay(row.occurred_at)}`,
+        snippet: row.snippet,
+        href: row.link_id ? `/messagerie?conv=${row.link_id}` : '/messagerie',
+      }
+    case 'logbook':
+      return {
+        id: `log-${row.id}`,
+        category: 'logbook',
+        icon: 'book',
+        title: [row.title ? LOG_TYPE_LABELS[row.title] : undefined, formatDay(row.occurred_at)]
+          .filter(Boolean)
+          .join(' · '),
+        snippet: row.snippet,
+        href: '/cahier-de-liaison',
+      }
+    case 'shift':
+      return {
+        id: `shift-${row.id}`,
+        category: 'shifts',
+        icon: 'calendar',
+        title: row.link_id ? formatShiftDate(new Date(row.link_id)) : 'Intervention',
+        snippet: row.snippet,
+        href: row.link_id ? `/planning?date=${row.link_id}` : '/planning',
+      }
+    case 'absence':
+      return {
+        id: `doc-${row.id}`,
+        category: 'documents',
+        icon: 'file',
+        title: ABSENCE_TYPE_LABELS[row.title as Absence['absenceType']] ?? 'Absence',
+        subtitle: formatDay(row.occurred_at),
+        snippet: row.snippet || undefined,
+        href: '/documents',
+      }
+    case 'payslip':
+      return {
+        id: `payslip-${row.id}`,
+        category: 'payslips',
+        icon: 'file',
+        title: row.title ? `Bulletin ${row.title}` : 'Bulletin de paie',
+        snippet: row.snippet,
+        href: '/documents',
+      }
+    default:
+      return null
+  }
+}
+
+// ── Recherche ────────────────────────────────────────────────────────────────
+
+/**
+ * Recherche plein texte (français, sans accents) pour un employeur.
+ * Résultats classés par pertinence puis date ; `offset` pour paginer.
+ */
+export async function searchFullText(
+  employerId: string,
+  query: string,
+  options: { limit?: number; offset?: number } = {}
+): Promise<FullTextSearchPage> {
+  const { limit = FULL_TEXT_PAGE_SIZE, offset = 0 } = options
+  const trimmed = query.trim()
+  if (!trimmed) return { results: [], hasMore: false }
+
+  // Une ligne de plus pour savoir s'il reste une page
+  const { data, error } = await supabase.rpc('search_everything', {
+    p_employer_id: employerId,
+    p_query: trimmed,
+    p_limit: limit + 1,
+    p_offset: offset,
+  })
+
+  if (error) {
+    logger.error('Erreur recherche plein texte:', error)
+    return { results: [], hasMore: false }
+  }
+
+  const rows = (data || []) as unknown as FullTextHitRow[]
+
+  return {
+    results: rows
+      .slice(0, limit)
+      .map(mapHit)
+      .filter((r): r is SearchResult => r !== null),
+    hasMore: rows.length > limit,
+  }
+}
@@ -18,6 +18,7 @@ vi.mock('@/lib/absence', () => ({
   calculateAcquiredDays: vi.fn(() => 25),
   calculateRemainingDays: vi.fn((balance) => balance.acquiredDays - balance.takenDays + balance.adjustmentDays),
   getLeaveYearStartDate: vi.fn(() => new Date('2025-06-01')),
+  getNextLeaveYear: vi.fn(() => '2026'),
 }))
 
 // Helper pour mock chain
@@ -70,7 +71,10 @@ function mockSupabaseQuerySequence(results: Array<{ data?: unknown; error?: unkn
   })
 }
 
-beforeEach(() => { vi.clearAllMocks() })
+beforeEach(() => {
+  vi.clearAllMocks()
+  mockRpc.mockResolvedValue({ data: null, error: null })
+})
 
 // ============================================
 // FIXTURES
@@ -86,6 +90,8 @@ function makeLeaveBalanceDbRow(overrides: Partial<{
   taken_days: number
   adjustment_days: number
   is_manual_init: boolean
+  opened_at: string | null
+  closed_at: string | null
   created_at: string
   updated_at: string
 }> = {}) {
@@ -99,6 +105,8 @@ function makeLeaveBalanceDbRow(overrides: Partial<{
     taken_days: overrides.taken_days ?? 5,
     adjustment_days: overrides.adjustment_days ?? 2,
     is_manual_init: overrides.is_manual_init ?? false,
+    opened_at: overrides.opened_at !== undefined ? overrides.opened_at : '2025-06-01T00:00:00Z',
+    closed_at: overrides.closed_at ?? null,
     created_at: overrides.created_at ?? '2025-06-01T00:00:00Z',
     updated_at: overrides.updated_at ?? '2025-06-01T00:00:00Z',
   }
@@ -134,13 +142,73 @@ describe('leaveBalanceService', () => {
       expect(result!.remainingDays).toBe(22)
     })
 
-    it('retourne null si data est null (solde inexistant)', async () => {
+    it('retourne null si data est null (solde inexistant, annee non commencee)', async () => {
       mockSupabaseQuery({ data: null, error: null })
+      const { getLeaveYearStartDate } = await import('@/lib/absence')
+      vi.mocked(getLeaveYearStartDate).mockReturnValueOnce(new Date('2999-06-01'))
 
       const { getLeaveBalance } = await import('@/services/leaveBalanceService')
       const result = await getLeaveBalance('contract-xxx', '2025')
 
       expect(result).toBeNull()
+      expect(mockRpc).not.toHaveBeenCalled()
+    })
+
+    it('ouvre l annee via rollover_leave_year au premier acces a une annee commencee', async () => {
+      mockSupabaseQuery({ data: null, error: null })
+      mockRpc.mockResolvedValueOnce({
+        data: makeLeaveBalanceDbRow({ opened_at: '2025-06-02T08:00:00Z', adjustment_days: 4 }),
+        error: null,
+      })
+
+      const { getLeaveBalance } = await import('@/services/leaveBalanceService')
+      const result = await getLeaveBalance('contract-001', '2025')
+
+      expect(mockRpc).toHaveBeenCalledWith('rollover_leave_year', {
+        p_contract_id: 'contract-001',
+        p_leave_year: '2025',
+      })
+      expect(result!.adjustmentDays).toBe(4)
+      expect(result!.openedAt).toEqual(new Date('2025-06-02T08:00:00Z'))
+    })
+
+    it('bascule un solde existant pas encore ouvert', async () => {
+      mockSupabaseQuery({ data: makeLeaveBalanceDbRow({ opened_at: null }), error: null })
+      mockRpc.mockResolvedValueOnce({ data: makeLeaveBalanceDbRow({ adjustment_days: 7 }), error: null })
+
+      const { getLeaveBalance } = await import('@/services/leaveBalanceService')
+      const result = await getLeaveBalance('contract-001', '2025')
+
+      expect(mockRpc).toHaveBeenCalledWith('rollover_leave_year', expect.anything())
+      expect(result!.adjustmentDays).toBe(7)
+    })
+
+    it('ne rebascule ni une annee ouverte ni une annee cloturee', async () => {
+      const { getLeaveBalance } = await import('@/services/leaveBalanceService')
+
+      mockSupabaseQuery({ data: makeLeaveBalanceDbRow(), error: null })
+      await getLeaveBalance('contract-001', '2025')
+
+      mockSupabaseQuery({ data: makeLeaveBalanceDbRow({ opened_at: null, closed_at: '2026-06-01T00:00:00Z' }), error: null })
+      const closed = await getLeaveBalance('contract-001', '2025')
+
+      expect(mockRpc).not.toHaveBeenCalled()
+      expect(closed!.closedAt).toEqual(new Date('2026-06-01T00:00:00Z'))
+    })
+
+    it('retourne le solde lu si la bascule echoue', async () => {
+      mockSupabaseQuery({ data: makeLeaveBalanceDbRow({ opened_at: null }), error: null })
+      mockRpc.mockResolvedValueOnce({ data: null, error: { message: 'access denied' } })
+
+      const { getLeaveBalance } = await import('@/services/leaveBalanceService')
+      const { logger } = await import('@/lib/logger')
+      const result = await getLeaveBalance('contract-001', '2025')
+
+      expect(result!.id).toBe('lb-001')
+      expect(logger.error).toHaveBeenCalledWith(
+        'Erreur bascule année de congés:',
+        expect.objectContaining({ message: 'access denied' })
+      )
     })
 
     it('retourne null et log erreur si erreur DB', async () => {
@@ -170,6 +238,53 @@ describe('leaveBalanceService', () => {
     })
   })
 
+  // ============================================
+  // TESTS: getLeaveBalanceEvents
+  // ============================================
+
+  describe('getLeaveBalanceEvents', () => {
+    it('retourne le journal des clotures mappe, du plus recent au plus ancien', async () => {
+      const chain = mockSupabaseQuery({
+        data: [{
+          id: 'ev-1',
+          contract_id: 'contract-001',
+          employer_id: 'employer-001',
+          employee_id: 'emp-001',
+          leave_year: '2026-2027',
+          event_type: 'carry_over',
+          days: '4.00',
+          details: { fromLeaveYear: '2025-2026', policy: 'capped', cap: 4 },
+          created_by: 'emp-001',
+          created_at: '2026-06-02T08:00:00Z',
+        }],
+        error: null,
+      })
+
+      const { getLeaveBalanceEvents } = await import('@/services/leaveBalanceService')
+      const result = await getLeaveBalanceEvents('contract-001')
+
+      expect(mockFrom).toHaveBeenCalledWith('leave_balance_events')
+      expect(chain.eq).toHaveBeenCalledWith('contract_id', 'contract-001')
+      expect(chain.order).toHaveBeenCalledWith('created_at', { ascending: false })
+      expect(result).toEqual([{
+        id: 'ev-1',
+        contractId: 'contract-001',
+        leaveYear: '2026-2027',
+        eventType: 'carry_over',
+        days: 4,
+        details: { fromLeaveYear: '2025-2026', policy: 'capped', cap: 4 },
+        createdAt: new Date('2026-06-02T08:00:00Z'),
+      }])
+    })
+
+    it('retourne un tableau vide si erreur DB', async () => {
+      mockSupabaseQuery({ data: null, error: { message: 'DB error' } })
+
+      const { getLeaveBalanceEvents } = await import('@/services/leaveBalanceService')
+      expect(await getLeaveBalanceEvents('contract-001')).toEqual([])
+    })
+  })
+
   // ============================================
   // TESTS: getLeaveBalancesForEmployee
   // ============================================
@@ -347,6 +462,23 @@ describe('leaveBalanceService', () => {
       await expect(addTakenDays('c-xxx', '2025', 2)).rejects.toThrow('Solde de congés introuvable')
     })
 
+    it('impute les jours sur l annee suivante si l annee est cloturee', async () => {
+      const closedResult = { data: { taken_days: 5, closed_at: '2026-06-01T00:00:00Z' }, error: null }
+      const nextResult = { data: { taken_days: 2, closed_at: null }, error: null }
+      const updateResult = { data: null, error: null }
+
+      mockSupabaseQuerySequence([closedResult, nextResult, updateResult])
+
+      const { addTakenDays } = await import('@/services/leaveBalanceService')
+      await addTakenDays('c-001', '2025', 3)
+
+      const nextFetch = mockFrom.mock.results[1].value
+      const update = mockFrom.mock.results[2].value
+      expect(nextFetch.eq).toHaveBeenCalledWith('leave_year', '2026')
+      expect(update.update).toHaveBeenCalledWith(expect.objectContaining({ taken_days: 5 }))
+      expect(update.eq).toHaveBeenCalledWith('leave_year', '2026')
+    })
+
     it('throw et log si erreur lors de update', async () => {
       const fetchResult = { data: { taken_days: 5 }, error: null }
       const updateResult = { data: null, error: { message: 'Update failed' } }
@@ -1,20 +1,24 @@
 import { supabase } from '@/lib/supabase/client'
 import { logger } from '@/lib/logger'
-import type { LeaveBalance } from '@/types'
-import type { LeaveBalanceDbRow } from '@/types/database'
-import { calculateRemainingDays } from '@/lib/absence'
+import type { LeaveBalance, LeaveBalanceEvent } from '@/types'
+import type { LeaveBalanceDbRow, LeaveBalanceEventDbRow } from '@/types/database'
+import { calculateRemainingDays, getLeaveYearStartDate, getNextLeaveYear } from '@/lib/absence'
 
 // ============================================
 // GET LEAVE BALANCE
 // ============================================
 
+/**
+ * Solde d'une année de congés. Au premier accès à une année commencée,
+ * la bascule d'année est déclenchée (voir rolloverLeaveYear).
+ */
 export async function getLeaveBalance(
   contractId: string,
   leaveYear: string
 ): Promise<LeaveBalance | null> {
   const { data, error } = await supabase
     .from('leave_balances')
-    .select('id, employee_id, employer_id, contract_id, leave_year, acquired_days, taken_days, adjustment_days, is_manual_init, created_at, updated_at')
+    .select('id, employee_id, employer_id, contract_id, leave_year, acquired_days, taken_days, adjustment_days, is_manual_init, opened_at, closed_at, created_at, updated_at')
     .eq('contract_id', contractId)
     .eq('leave_year', leaveYear)
     .maybeSingle()
@@ -24,9 +28,64 @@ export async function getLeaveBalance(
     return null
   }
 
-  if (!data) return null
+  const row = data as LeaveBalanceDbRow | null
+  const isStarted = getLeaveYearStartDate(leaveYear) <= new Date()
+  if (isStarted && (!row || (!row.opened_at && !row.closed_at))) {
+    const opened = await rolloverLeaveYear(contractId, leaveYear)
+    if (opened) return opened
+  }
 
-  return mapLeaveBalanceFromDb(data)
+  if (!row) return null
+
+  return mapLeaveBalanceFromDb(row)
+}
+
+// ============================================
+// ROLLOVER LEAVE YEAR
+// ============================================
+
+/**
+ * Ouvre une année de congés via la RPC `rollover_leave_year` (migration 020) :
+ * l'année précédente est clôturée et gelée, les jours de fractionnement
+ * crédités et le reliquat reporté selon la politique de l'employeur.
+ * Idempotent : une année déjà ouverte est renvoyée telle quelle.
+ */
+export async function rolloverLeaveYear(
+  contractId: string,
+  leaveYear: string
+): Promise<LeaveBalance | null> {
+  const { data, error } = await supabase.rpc('rollover_leave_year', {
+    p_contract_id: contractId,
+    p_leave_year: leaveYear,
+  })
+
+  if (error || !data) {
+    logger.error('Erreur bascule année de congés:', error)
+    return null
+  }
+
+  return mapLeaveBalanceFromDb(data as LeaveBalanceDbRow)
+}
+
+// ============================================
+// GET LEAVE BALANCE EVENTS (clôtures d'années)
+// ============================================
+
+export async function getLeaveBalanceEvents(
+  contractId: string
+): Promise<LeaveBalanceEvent[]> {
+  const { data, error } = await supabase
+    .from('leave_balance_events')
+    .select('id, contract_id, employer_id, employee_id, leave_year, event_type, days, details, created_by, created_at')
+    .eq('contract_id', contractId)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    logger.error('Erreur récupération historique congés:', error)
+    return []
+  }
+
+  return (data || []).map((row) => mapLeaveBalanceEventFromDb(row as LeaveBalanceEventDbRow))
 }
 
 // ============================================
@@ -38,7 +97,7 @@ export async function getLeaveBalancesForEmployee(
 ): Promise<LeaveBalance[]> {
   const { data, error } = await supabase
     .from('leave_balances')
-    .select('id, employee_id, employer_id, contract_id, leave_year, acquired_days, taken_days, adjustment_days, is_manual_init, created_at, updated_at')
+    .select('id, employee_id, employer_id, contract_id, leave_year, acquired_days, taken_days, adjustment_days, is_manual_init, opened_at, closed_at, created_at, updated_at')
     .eq('employee_id', employeeId)
     .order('leave_year', { ascending: false })
 
@@ -59,7 +118,7 @@ export async function getLeaveBalancesForEmployer(
 ): Promise<LeaveBalance[]> {
   const { data, error } = await supabase
     .from('leave_balances')
-    .select('id, employee_id, employer_id, contract_id, leave_year, acquired_days, taken_days, adjustment_days, is_manual_init, created_at, updated_at')
+    .select('id, employee_id, employer_id, contract_id, leave_year, acquired_days, taken_days, adjustment_days, is_manual_init, opened_at, closed_at, created_at, updated_at')
     .eq('employer_id', employerId)
     .order('leave_year', { ascending: false })
 
@@ -154,6 +213,10 @@ export async function initializeLeaveBalanceWithOverride(
 // UPDATE TAKEN DAYS
 // ============================================
 
+/**
+ * Décompte des jours pris. Une année clôturée est gelée : les jours sont
+ * imputés sur l'année suivante, qui a reçu le reliquat.
+ */
 export async function addTakenDays(
   contractId: string,
   leaveYear: string,
@@ -162,7 +225,7 @@ export async function addTakenDays(
   // Récupérer le solde actuel
   const { data: current, error: fetchError } = await supabase
     .from('leave_balances')
-    .select('taken_days')
+    .select('taken_days, closed_at')
     .eq('contract_id', contractId)
     .eq('leave_year', leaveYear)
     .single()
@@ -171,6 +234,10 @@ export async function addTakenDays(
     throw new Error('Solde de congés introuvable')
   }
 
+  if ((current as Pick<LeaveBalanceDbRow, 'closed_at'>).closed_at) {
+    return addTakenDays(contractId, getNextLeaveYear(leaveYear), days)
+  }
+
   const { error } = await supabase
     .from('leave_balances')
     .update({
@@ -197,7 +264,7 @@ export async function restoreTakenDays(
 ): Promise<void> {
   const { data: current, error: fetchError } = await supabase
     .from('leave_balances')
-    .select('taken_days')
+    .select('taken_days, closed_at')
     .eq('contract_id', contractId)
     .eq('leave_year', leaveYear)
     .single()
@@ -206,6 +273,11 @@ export async function restoreTakenDays(
     throw new Error('Solde de congés introuvable')
   }
 
+  // Année gelée : les jours sont rendus sur l'année suivante
+  if ((current as Pick<LeaveBalanceDbRow, 'closed_at'>).closed_at) {
+    return restoreTakenDays(contractId, getNextLeaveYear(leaveYear), days)
+  }
+
   const { error } = await supabase
     .from('leave_balances')
     .update({
@@ -243,5 +315,19 @@ function mapLeaveBalanceFromDb(data: LeaveBalanceDbRow): LeaveBalance {
     adjustmentDays: balance.adjustmentDays,
     remainingDays: calculateRemainingDays(balance),
     isManualInit: data.is_manual_init ?? false,
+    openedAt: data.opened_at ? new Date(data.opened_at) : undefined,
+    closedAt: data.closed_at ? new Date(data.closed_at) : undefined,
+  }
+}
+
+function mapLeaveBalanceEventFromDb(data: LeaveBalanceEventDbRow): LeaveBalanceEvent {
+  return {
+    id: data.id,
+    contractId: data.contract_id,
+    leaveYear: data.leave_year,
+    eventType: data.event_type,
+    days: Number(data.days),
+    details: data.details as LeaveBalanceEvent['details'],
+    createdAt: new Date(data.created_at),
   }
 }
@@ -13,8 +13,20 @@ import {
   getLiaisonUnreadCount,
   subscribeLiaisonMessages,
   subscribeTypingIndicator,
+  toggleMessageReaction,
+  setMessagePinned,
+  getPinnedMessages,
+  setConversationArchived,
+  muteConversation,
+  setConversationNotificationLevel,
+  getTotalUnreadCount,
+  getMentionCandidates,
 } from './liaisonService'
 import { sanitizeText } from '@/lib/sanitize'
+import { createMessageNotification } from './notificationCreators'
+import { getProfileById } from './profileService'
+import { getActiveAuxiliariesForEmployer } from './auxiliaryService'
+import { getCaregiversForEmployer } from './caregiverTeamService'
 
 // ─── Mocks ──────────────────────────────────────────────────────────
 
@@ -40,6 +52,23 @@ vi.mock('@/lib/sanitize', () => ({
   sanitizeText: vi.fn((text: string) => text.trim()),
 }))
 
+vi.mock('./notificationCreators', () => ({
+  createMessageNotification: vi.fn().mockResolvedValue(null),
+}))
+
+vi.mock('./profileService', () => ({
+  getProfileById: vi.fn(),
+  getProfileName: vi.fn().mockResolvedValue('Marie Dupont'),
+}))
+
+vi.mock('./auxiliaryService', () => ({
+  getActiveAuxiliariesForEmployer: vi.fn(),
+}))
+
+vi.mock('./caregiverTeamService', () => ({
+  getCaregiversForEmployer: vi.fn(),
+}))
+
 // ─── Helpers ────────────────────────────────────────────────────────
 
 function createMockConversationDbRow(overrides: Record<string, unknown> = {}) {
@@ -92,6 +121,7 @@ function mockSupabaseQuery(result: { data?: unknown; error?: unknown; count?: nu
   chain.limit = vi.fn().mockReturnValue(chain)
   chain.range = vi.fn().mockReturnValue(chain)
   chain.contains = vi.fn().mockReturnValue(chain)
+  chain.upsert = vi.fn().mockReturnValue(chain)
   chain.single = vi.fn().mockResolvedValue(result)
   chain.maybeSingle = vi.fn().mockResolvedValue(result)
   chain.then = vi.fn().mockImplementation((resolve: (val: unknown) => unknown) => Promise.resolve(resolve(result)))
@@ -152,15 +182,21 @@ describe('getConversations', () => {
 
     // Ordre d'appels from() dans getConversations :
     // 1. from('conversations') → [teamConv, privateConv]
+    // 2. from('conversation_user_settings') → réglages de l'utilisateur
+    // 3. from('liaison_messages') → mentions non lues
     // Iteration teamConv (type='team') : pas de profile lookup
-    // 2. from('liaison_messages') → lastMessage team conv
-    // 3. from('liaison_messages') → unreadCount team conv
+    // 4. from('liaison_messages') → lastMessage team conv
+    // 5. from('liaison_messages') → unreadCount team conv
     // Iteration privateConv (type='private') : profile lookup
-    // 4. from('profiles') → otherParticipant (Paul)
-    // 5. from('liaison_messages') → lastMessage private conv
-    // 6. from('liaison_messages') → unreadCount private conv
+    // 6. from('profiles') → otherParticipant (Paul)
+    // 7. from('liaison_messages') → lastMessage private conv
+    // 8. from('liaison_messages') → unreadCount private conv
     mockSupabaseQuerySequence([
       { data: [teamConv, privateConv], error: null },
+      // réglages
+      { data: [], error: null },
+      // mentions non lues : deux dans la conversation privée
+      { data: [{ conversation_id: 'conv-002' }, { conversation_id: 'conv-002' }], error: null },
       // lastMessage conv team
       { data: { content: 'Bonjour' }, error: null },
       // unreadCount conv team
@@ -179,6 +215,43 @@ describe('getConversations', () => {
     expect(result[0].type).toBe('team')
     expect(result[1].type).toBe('private')
     expect(result[1].otherParticipant?.firstName).toBe('Paul')
+    expect(result[0].unreadMentionCount).toBe(0)
+    expect(result[1].unreadMentionCount).toBe(2)
+  })
+
+  it('applique les réglages de l\'utilisateur (archivage, sourdine, niveau)', async () => {
+    const teamConv = createMockConversationDbRow({ type: 'team' })
+    const privateConv = createMockConversationDbRow({
+      id: 'conv-002',
+      type: 'private',
+      participant_ids: [USER_ID, OTHER_USER_ID],
+    })
+
+    mockSupabaseQuerySequence([
+      { data: [teamConv, privateConv], error: null },
+      {
+        data: [
+          // Archivée avant le dernier message : revenue dans la liste
+          { conversation_id: 'conv-001', user_id: USER_ID, archived_at: '2026-02-10T09:00:00.000Z', muted: true, muted_until: null, notification_level: 'mentions', updated_at: '' },
+          { conversation_id: 'conv-002', user_id: USER_ID, archived_at: '2026-02-10T12:00:00.000Z', muted: false, muted_until: null, notification_level: 'all', updated_at: '' },
+        ],
+        error: null,
+      },
+      { data: [], error: null },
+      { data: { content: 'Bonjour', created_at: '2026-02-10T10:00:00.000Z' }, error: null },
+      { data: null, error: null, count: 0 },
+      { data: { id: OTHER_USER_ID, first_name: 'Paul', last_name: 'Martin', avatar_url: null }, error: null },
+      { data: { content: 'Salut', created_at: '2026-02-10T11:00:00.000Z' }, error: null },
+      { data: null, error: null, count: 0 },
+    ])
+
+    const [team, priv] = await getConversations(EMPLOYER_ID, USER_ID)
+
+    expect(team.isArchived).toBe(false)
+    expect(team.isMuted).toBe(true)
+    expect(team.notificationLevel).toBe('mentions')
+    expect(priv.isArchived).toBe(true)
+    expect(priv.isMuted).toBe(false)
   })
 
   it('retourne un tableau vide en cas d\'erreur', async () => {
@@ -190,6 +263,49 @@ describe('getConversations', () => {
   })
 })
 
+// ============================================
+// Réglages par conversation
+// ============================================
+
+describe('réglages par conversation', () => {
+  it('archive la conversation pour l\'utilisateur', async () => {
+    const chain = mockSupabaseQuery({ data: null, error: null })
+
+    await setConversationArchived(CONV_ID, USER_ID, true)
+
+    expect(mockFrom).toHaveBeenCalledWith('conversation_user_settings')
+    expect(chain.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ conversation_id: CONV_ID, user_id: USER_ID, archived_at: expect.any(String) }),
+      { onConflict: 'conversation_id,user_id' }
+    )
+  })
+
+  it('met en sourdine pour 1 heure puis réactive', async () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2026-02-10T10:00:00.000Z'))
+    const chain = mockSupabaseQuery({ data: null, error: null })
+
+    await muteConversation(CONV_ID, USER_ID, '1h')
+    expect(chain.upsert).toHaveBeenLastCalledWith(
+      expect.objectContaining({ muted: true, muted_until: '2026-02-10T11:00:00.000Z' }),
+      expect.anything()
+    )
+
+    await muteConversation(CONV_ID, USER_ID, null)
+    expect(chain.upsert).toHaveBeenLastCalledWith(
+      expect.objectContaining({ muted: false, muted_until: null }),
+      expect.anything()
+    )
+    vi.useRealTimers()
+  })
+
+  it('lève une erreur si l\'enregistrement échoue', async () => {
+    mockSupabaseQuery({ data: null, error: { message: 'denied' } })
+
+    await expect(setConversationNotificationLevel(CONV_ID, USER_ID, 'none')).rejects.toThrow('denied')
+  })
+})
+
 // ============================================
 // ensureTeamConversation
 // ============================================
@@ -336,6 +452,35 @@ describe('getLiaisonMessages', () => {
     expect(result.hasMore).toBe(true)
   })
 
+  it('mappe la reponse citee, les reactions et l\'epinglage', async () => {
+    const row = createMockMessageDbRow({
+      reply_to_id: 'msg-000',
+      reply_to: { id: 'msg-000', content: 'Message cite', sender: { first_name: 'Paul', last_name: 'Martin' } },
+      reactions: { '👍': [USER_ID, OTHER_USER_ID] },
+      pinned_at: '2026-02-11T08:00:00.000Z',
+      pinned_by: 'employer-123',
+    })
+    mockSupabaseQuery({ data: [row], error: null, count: 1 })
+
+    const result = await getLiaisonMessages(CONV_ID)
+
+    expect(result.messages[0].replyToId).toBe('msg-000')
+    expect(result.messages[0].replyTo).toEqual({ id: 'msg-000', content: 'Message cite', senderName: 'Paul Martin' })
+    expect(result.messages[0].reactions).toEqual({ '👍': [USER_ID, OTHER_USER_ID] })
+    expect(result.messages[0].pinnedAt).toEqual(new Date('2026-02-11T08:00:00.000Z'))
+    expect(result.messages[0].pinnedBy).toBe('employer-123')
+  })
+
+  it('les anciens messages sans reactions ni reponse ont des valeurs par defaut', async () => {
+    mockSupabaseQuery({ data: [createMockMessageDbRow()], error: null, count: 1 })
+
+    const result = await getLiaisonMessages(CONV_ID)
+
+    expect(result.messages[0].reactions).toEqual({})
+    expect(result.messages[0].replyTo).toBeUndefined()
+    expect(result.messages[0].pinnedAt).toBeUndefined()
+  })
+
   it('hasMore est false quand tous les messages sont charges', async () => {
     const rows = [createMockMessageDbRow()]
     mockSupabaseQuery({ data: rows, error: null, count: 1 })
@@ -417,6 +562,66 @@ describe('createLiaisonMessage', () => {
 
     expect(sanitizeText).toHaveBeenCalledWith('Contenu avec espaces')
   })
+
+  it('enregistre le message cite lors d\'une reponse', async () => {
+    const row = createMockMessageDbRow({ reply_to_id: 'msg-000' })
+    mockSupabaseQuerySequence([
+      { data: row, error: null },
+      { data: { participant_ids: [USER_ID] }, error: null },
+      { data: null, error: null },
+    ])
+
+    const result = await createLiaisonMessage(EMPLOYER_ID, CONV_ID, USER_ID, 'employer', 'Oui', undefined, undefined, 'msg-000')
+
+    const insertChain = mockFrom.mock.results[0].value as Record<string, ReturnType<typeof vi.fn>>
+    expect(insertChain.insert).toHaveBeenCalledWith(expect.objectContaining({ reply_to_id: 'msg-000' }))
+    expect(result!.replyToId).toBe('msg-000')
+  })
+
+  it('notifie les personnes mentionnees, meme hors des participants', async () => {
+    const row = createMockMessageDbRow({ mentioned_user_ids: ['aux-1'] })
+    mockSupabaseQuerySequence([
+      { data: row, error: null },
+      { data: { participant_ids: [USER_ID, 'aux-2'] }, error: null },
+      { data: null, error: null },
+    ])
+
+    const result = await createLiaisonMessage(
+      EMPLOYER_ID, CONV_ID, USER_ID, 'employer', '@Marie tu peux passer ?',
+      undefined, undefined, undefined, ['aux-1']
+    )
+
+    const insertChain = mockFrom.mock.results[0].value as Record<string, ReturnType<typeof vi.fn>>
+    expect(insertChain.insert).toHaveBeenCalledWith(expect.objectContaining({ mentioned_user_ids: ['aux-1'] }))
+    expect(createMessageNotification).toHaveBeenCalledTimes(2)
+    expect(createMessageNotification).toHaveBeenCalledWith('aux-2', 'Marie Dupont', '@Marie tu peux passer ?', 'msg-001', CONV_ID, false)
+    expect(createMessageNotification).toHaveBeenCalledWith('aux-1', 'Marie Dupont', '@Marie tu peux passer ?', 'msg-001', CONV_ID, true)
+    expect(result!.mentionedUserIds).toEqual(['aux-1'])
+  })
+})
+
+describe('getMentionCandidates', () => {
+  it('regroupe employeur, auxiliaires et aidants autorises, sans l\'utilisateur courant', async () => {
+    vi.mocked(getProfileById).mockResolvedValue({
+      id: EMPLOYER_ID, firstName: 'Jean', lastName: 'Petit',
+    } as Awaited<ReturnType<typeof getProfileById>>)
+    vi.mocked(getActiveAuxiliariesForEmployer).mockResolvedValue([
+      { id: USER_ID, firstName: 'Marie', lastName: 'Dupont' },
+      { id: 'aux-2', firstName: 'Luc', lastName: 'Moreau' },
+    ] as Awaited<ReturnType<typeof getActiveAuxiliariesForEmployer>>)
+    vi.mocked(getCaregiversForEmployer).mockResolvedValue([
+      { profileId: 'cg-1', permissions: { canViewLiaison: true }, profile: { firstName: 'Paul', lastName: 'Martin' } },
+      { profileId: 'cg-2', permissions: { canViewLiaison: false }, profile: { firstName: 'Anne', lastName: 'Roux' } },
+    ] as Awaited<ReturnType<typeof getCaregiversForEmployer>>)
+
+    const result = await getMentionCandidates(EMPLOYER_ID, USER_ID)
+
+    expect(result.map((c) => [c.id, c.role])).toEqual([
+      [EMPLOYER_ID, 'employer'],
+      ['aux-2', 'employee'],
+      ['cg-1', 'caregiver'],
+    ])
+  })
 })
 
 // ============================================
@@ -570,6 +775,42 @@ describe('getLiaisonUnreadCount', () => {
   })
 })
 
+// ============================================
+// getTotalUnreadCount
+// ============================================
+
+describe('getTotalUnreadCount', () => {
+  it('exclut les conversations en sourdine', async () => {
+    mockSupabaseQuerySequence([
+      {
+        data: [
+          { conversation_id: 'conv-muted', muted: true, muted_until: null },
+          // Sourdine expirée : la conversation compte de nouveau
+          { conversation_id: 'conv-expired', muted: true, muted_until: '2020-01-01T00:00:00.000Z' },
+        ],
+        error: null,
+      },
+      { data: null, error: null, count: 4 },
+    ])
+
+    const count = await getTotalUnreadCount(EMPLOYER_ID, USER_ID)
+
+    expect(count).toBe(4)
+    const countChain = mockFrom.mock.results[1].value
+    expect(countChain.not).toHaveBeenCalledWith('conversation_id', 'in', '(conv-muted)')
+  })
+
+  it('ne filtre rien sans conversation en sourdine', async () => {
+    mockSupabaseQuerySequence([
+      { data: [], error: null },
+      { data: null, error: null, count: 2 },
+    ])
+
+    expect(await getTotalUnreadCount(EMPLOYER_ID, USER_ID)).toBe(2)
+    expect(mockFrom.mock.results[1].value.not).not.toHaveBeenCalled()
+  })
+})
+
 // ============================================
 // subscribeLiaisonMessages
 // ============================================
@@ -690,3 +931,62 @@ describe('subscribeTypingIndicator', () => {
     expect(channelObj.track).toHaveBeenCalledWith({ isTyping: true, name: 'Marie' })
   })
 })
+
+// ============================================
+// Reactions & epinglage
+// ============================================
+
+describe('toggleMessageReaction', () => {
+  it('appelle la RPC toggle_liaison_reaction et retourne les reactions a jour', async () => {
+    mockRpc.mockResolvedValueOnce({ data: { '👍': [USER_ID] }, error: null })
+
+    const reactions = await toggleMessageReaction('msg-001', '👍')
+
+    expect(mockRpc).toHaveBeenCalledWith('toggle_liaison_reaction', { p_message_id: 'msg-001', p_emoji: '👍' })
+    expect(reactions).toEqual({ '👍': [USER_ID] })
+  })
+
+  it('lance une erreur si la RPC echoue', async () => {
+    mockRpc.mockResolvedValueOnce({ data: null, error: { message: 'not_authorized' } })
+
+    await expect(toggleMessageReaction('msg-001', '👍')).rejects.toThrow('not_authorized')
+  })
+})
+
+describe('setMessagePinned', () => {
+  it('appelle la RPC set_liaison_message_pinned', async () => {
+    mockRpc.mockResolvedValueOnce({ data: null, error: null })
+
+    await setMessagePinned('msg-001', true)
+
+    expect(mockRpc).toHaveBeenCalledWith('set_liaison_message_pinned', { p_message_id: 'msg-001', p_pinned: true })
+  })
+
+  it('traduit le refus d\'autorisation', async () => {
+    mockRpc.mockResolvedValueOnce({ data: null, error: { message: 'not_authorized' } })
+
+    await expect(setMessagePinned('msg-001', true)).rejects.toThrow("Vous n'avez pas le droit d'épingler ce message.")
+  })
+})
+
+describe('getPinnedMessages', () => {
+  it('filtre les messages epingles de la conversation, plus recents d\'abord', async () => {
+    const chain = mockSupabaseQuery({
+      data: [createMockMessageDbRow({ pinned_at: '2026-02-11T08:00:00.000Z' })],
+      error: null,
+    })
+
+    const result = await getPinnedMessages(CONV_ID)
+
+    expect(result).toHaveLength(1)
+    expect(chain.eq).toHaveBeenCalledWith('conversation_id', CONV_ID)
+    expect(chain.not).toHaveBeenCalledWith('pinned_at', 'is', null)
+    expect(chain.order).toHaveBeenCalledWith('pinned_at', { ascending: false })
+  })
+
+  it('retourne un tableau vide en cas d\'erreur', async () => {
+    mockSupabaseQuery({ data: null, error: { message: 'DB error' } })
+
+    expect(await getPinnedMessages(CONV_ID)).toEqual([])
+  })
+})
@@ -2,11 +2,23 @@ import { supabase } from '@/lib/supabase/client'
 import { resolveAvatarUrl } from '@/lib/supabase/avatars'
 import { logger } from '@/lib/logger'
 import { sanitizeText } from '@/lib/sanitize'
-import type { Attachment, Conversation, LiaisonMessage, LiaisonMessageWithSender, UserRole } from '@/types'
-import type { ConversationDbRow, LiaisonMessageDbRow } from '@/types/database'
+import type {
+  Attachment,
+  Conversation,
+  ConversationNotificationLevel,
+  LiaisonMessage,
+  LiaisonMessageWithSender,
+  MessageReactions,
+  UserRole,
+} from '@/types'
+import type { ConversationDbRow, ConversationUserSettingsDbRow, LiaisonMessageDbRow } from '@/types/database'
+import { isArchivedSince, isMuteActive, muteUntil, type MuteDuration } from '@/lib/liaison/conversationSettings'
+import type { MentionCandidate } from '@/lib/liaison/mentions'
 import type { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js'
 import { createMessageNotification } from './notificationCreators'
-import { getProfileName } from './profileService'
+import { getProfileById, getProfileName } from './profileService'
+import { getActiveAuxiliariesForEmployer } from './auxiliaryService'
+import { getCaregiversForEmployer } from './caregiverTeamService'
 
 // ============================================
 // TYPES
@@ -18,6 +30,21 @@ export interface PaginatedMessages {
   hasMore: boolean
 }
 
+/** Message avec expéditeur et aperçu du message cité */
+const MESSAGE_SELECT = `
+  *,
+  sender:profiles!sender_id(
+    first_name,
+    last_name,
+    avatar_url
+  ),
+  reply_to:liaison_messages!reply_to_id(
+    id,
+    content,
+    sender:profiles!sender_id(first_name, last_name)
+  )
+`
+
 export type MessageChangeCallback = (
   eventType: 'INSERT' | 'UPDATE' | 'DELETE',
   message: LiaisonMessageWithSender
@@ -49,6 +76,28 @@ export async function getConversations(
   const conversations = data || []
   const result: Conversation[] = []
 
+  // Réglages de l'utilisateur (archivage, sourdine, notifications)
+  const { data: settingsData } = await supabase
+    .from('conversation_user_settings')
+    .select('*')
+    .eq('user_id', userId)
+  const settingsByConv = new Map(
+    ((settingsData || []) as unknown as ConversationUserSettingsDbRow[]).map((s) => [s.conversation_id, s])
+  )
+
+  // Mentions non lues de l'utilisateur, par conversation
+  const { data: mentionData } = await supabase
+    .from('liaison_messages')
+    .select('conversation_id')
+    .eq('employer_id', employerId)
+    .contains('mentioned_user_ids', [userId])
+    .or(`read_by.is.null,read_by.not.cs.{${userId}}`)
+  const unreadMentionsByConv = new Map<string, number>()
+  for (const row of (mentionData || []) as unknown as Pick<LiaisonMessageDbRow, 'conversation_id'>[]) {
+    if (!row.conversation_id) continue
+    unreadMentionsByConv.set(row.conversation_id, (unreadMentionsByConv.get(row.conversation_id) ?? 0) + 1)
+  }
+
   for (const conv of conversations) {
     // Pour les conversations privées, récupérer le profil de l'autre participant
     let otherParticipant: Conversation['otherParticipant'] = undefined
@@ -74,13 +123,14 @@ export async function getConversations(
     }
 
     // Dernier message
-    const { data: lastMsgData } = await supabase
+    const { data: lastMsgRow } = await supabase
       .from('liaison_messages')
-      .select('content')
+      .select('content, created_at')
       .eq('conversation_id', conv.id)
       .order('created_at', { ascending: false })
       .limit(1)
       .maybeSingle()
+    const lastMsgData = lastMsgRow as unknown as Pick<LiaisonMessageDbRow, 'content' | 'created_at'> | null
 
     // Nombre de messages non lus (inclut read_by NULL = jamais lu)
     const { count: unreadCount } = await supabase
@@ -93,7 +143,10 @@ export async function getConversations(
     result.push(mapConversationFromDb(conv, {
       otherParticipant,
       lastMessage: lastMsgData?.content,
+      lastMessageAt: lastMsgData?.created_at,
       unreadCount: unreadCount || 0,
+      unreadMentionCount: unreadMentionsByConv.get(conv.id) ?? 0,
+      settings: settingsByConv.get(conv.id),
     }))
   }
 
@@ -107,6 +160,129 @@ export async function getConversations(
   return result
 }
 
+// ============================================
+// RÉGLAGES PAR CONVERSATION (archivage, sourdine, notifications)
+// ============================================
+
+async function upsertConversationSettings(
+  conversationId: string,
+  userId: string,
+  patch: Partial<Pick<ConversationUserSettingsDbRow, 'archived_at' | 'muted' | 'muted_until' | 'notification_level'>>
+): Promise<void> {
+  const { error } = await supabase
+    .from('conversation_user_settings')
+    .upsert(
+      { conversation_id: conversationId, user_id: userId, ...patch },
+      { onConflict: 'conversation_id,user_id' }
+    )
+
+  if (error) {
+    logger.error('Erreur mise à jour réglages conversation:', error)
+    throw new Error(error.message)
+  }
+}
+
+/** Archive (ou désarchive) la conversation. Elle revient d'elle-même au prochain message. */
+export async function setConversationArchived(
+  conversationId: string,
+  userId: string,
+  archived: boolean
+): Promise<void> {
+  await upsertConversationSettings(conversationId, userId, {
+    archived_at: archived ? new Date().toISOString() : null,
+  })
+}
+
+/** Met la conversation en sourdine (null = réactiver les notifications) */
+export async function muteConversation(
+  conversationId: string,
+  userId: string,
+  duration: MuteDuration | null
+): Promise<void> {
+  const until = duration ? muteUntil(duration) : null
+  await upsertConversationSettings(conversationId, userId, {
+    muted: duration !== null,
+    muted_until: until ? until.toISOString() : null,
+  })
+}
+
+export async function setConversationNotificationLevel(
+  conversationId: string,
+  userId: string,
+  level: ConversationNotificationLevel
+): Promise<void> {
+  await upsertConversationSettings(conversationId, userId, { notification_level: level })
+}
+
+/** Conversations actuellement en sourdine pour l'utilisateur */
+async function getMutedConversationIds(userId: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('conversation_user_settings')
+    .select('conversation_id, muted, muted_until')
+    .eq('user_id', userId)
+    .eq('muted', true)
+
+  if (error) {
+    logger.error('Erreur récupération conversations en sourdine:', error)
+    return []
+  }
+
+  const rows = (data || []) as unknown as Pick<ConversationUserSettingsDbRow, 'conversation_id' | 'muted' | 'muted_until'>[]
+  return rows
+    .filter((row) => isMuteActive(row.muted, row.muted_until ? new Date(row.muted_until) : undefined))
+    .map((row) => row.conversation_id)
+}
+
+// ============================================
+// MENTIONS
+// ============================================
+
+/**
+ * Membres de l'équipe que l'on peut mentionner (@Prénom) : l'employeur, les
+ * auxiliaires sous contrat actif et les aidants autorisés à consulter la
+ * liaison. L'utilisateur courant est exclu.
+ */
+export async function getMentionCandidates(
+  employerId: string,
+  currentUserId: string
+): Promise<MentionCandidate[]> {
+  const [employer, auxiliaries, caregivers] = await Promise.all([
+    getProfileById(employerId),
+    getActiveAuxiliariesForEmployer(employerId),
+    getCaregiversForEmployer(employerId),
+  ])
+
+  const candidates: MentionCandidate[] = []
+  if (employer) {
+    candidates.push({
+      id: employer.id,
+      firstName: employer.firstName,
+      lastName: employer.lastName,
+      avatarUrl: employer.avatarUrl,
+      role: 'employer',
+    })
+  }
+  for (const a of auxiliaries) {
+    candidates.push({ id: a.id, firstName: a.firstName, lastName: a.lastName, avatarUrl: a.avatarUrl, role: 'employee' })
+  }
+  for (const c of caregivers.filter((cg) => cg.permissions.canViewLiaison)) {
+    candidates.push({
+      id: c.profileId,
+      firstName: c.profile.firstName,
+      lastName: c.profile.lastName,
+      avatarUrl: c.profile.avatarUrl,
+      role: 'caregiver',
+    })
+  }
+
+  const seen = new Set<string>([currentUserId])
+  return candidates.filter((c) => {
+    if (seen.has(c.id)) return false
+    seen.add(c.id)
+    return true
+  })
+}
+
 /**
  * Crée ou retrouve la conversation privée entre deux utilisateurs.
  */
@@ -275,14 +451,7 @@ export async function getLiaisonMessages(
 
   const { data, error, count } = await supabase
     .from('liaison_messages')
-    .select(`
-      *,
-      sender:profiles!sender_id(
-        first_name,
-        last_name,
-        avatar_url
-      )
-    `, { count: 'exact' })
+    .select(MESSAGE_SELECT, { count: 'exact' })
     .eq('conversation_id', conversationId)
     .order('created_at', { ascending: false })
     .range(from, to)
@@ -311,14 +480,7 @@ export async function getOlderMessages(
 ): Promise<LiaisonMessageWithSender[]> {
   const { data, error } = await supabase
     .from('liaison_messages')
-    .select(`
-      *,
-      sender:profiles!sender_id(
-        first_name,
-        last_name,
-        avatar_url
-      )
-    `)
+    .select(MESSAGE_SELECT)
     .eq('conversation_id', conversationId)
     .lt('created_at', beforeDate.toISOString())
     .order('created_at', { ascending: false })
@@ -344,7 +506,9 @@ export async function createLiaisonMessage(
   senderRole: UserRole,
   content: string,
   audioUrl?: string,
-  attachments?: Attachment[]
+  attachments?: Attachment[],
+  replyToId?: string,
+  mentionedUserIds: string[] = []
 ): Promise<LiaisonMessage | null> {
   const { data, error } = await supabase
     .from('liaison_messages')
@@ -358,8 +522,10 @@ export async function createLiaisonMessage(
       attachments: attachments || [],
       is_edited: false,
       read_by: [senderId],
+      reply_to_id: replyToId || null,
+      mentioned_user_ids: mentionedUserIds,
     })
-    .select()
+    .select(MESSAGE_SELECT)
     .single()
 
   if (error) {
@@ -387,14 +553,23 @@ export async function createLiaisonMessage(
     })
     .eq('id', conversationId)
 
-  // Notifier les autres participants
+  // Notifier les autres participants, et les personnes mentionnées même si
+  // elles n'ont encore jamais écrit dans le fil
   try {
-    const recipients = (conv?.participant_ids || []).filter((id: string) => id !== senderId)
+    const recipients = Array.from(new Set([...(conv?.participant_ids || []), ...mentionedUserIds]))
+      .filter((id: string) => id !== senderId)
     if (recipients.length > 0) {
       const senderName = await getProfileName(senderId)
       await Promise.all(
         recipients.map((recipientId: string) =>
-          createMessageNotification(recipientId, senderName, content.trim(), data.id)
+          createMessageNotification(
+            recipientId,
+            senderName,
+            content.trim(),
+            data.id,
+            conversationId,
+            mentionedUserIds.includes(recipientId)
+          )
         )
       )
     }
@@ -444,6 +619,73 @@ export async function deleteLiaisonMessage(messageId: string): Promise<void> {
   }
 }
 
+// ============================================
+// REACTIONS & PINS
+// ============================================
+
+/**
+ * Ajoute ou retire la réaction de l'utilisateur courant.
+ * RPC SECURITY DEFINER : la policy UPDATE est réservée à l'expéditeur.
+ */
+export async function toggleMessageReaction(
+  messageId: string,
+  emoji: string
+): Promise<MessageReactions> {
+  const { data, error } = await supabase.rpc('toggle_liaison_reaction', {
+    p_message_id: messageId,
+    p_emoji: emoji,
+  })
+
+  if (error) {
+    logger.error('Erreur réaction message:', error)
+    throw new Error(error.message)
+  }
+
+  return (data as MessageReactions | null) ?? {}
+}
+
+/**
+ * Épingle ou désépingle un message. Dans le fil d'équipe, seul l'employeur
+ * épingle : les messages épinglés y tiennent lieu de consignes permanentes.
+ */
+export async function setMessagePinned(
+  messageId: string,
+  pinned: boolean
+): Promise<void> {
+  const { error } = await supabase.rpc('set_liaison_message_pinned', {
+    p_message_id: messageId,
+    p_pinned: pinned,
+  })
+
+  if (error) {
+    logger.error('Erreur épinglage message:', error)
+    throw new Error(
+      error.message.includes('not_authorized')
+        ? "Vous n'avez pas le droit d'épingler ce message."
+        : error.message
+    )
+  }
+}
+
+/** Messages épinglés d'une conversation, du plus récent au plus ancien */
+export async function getPinnedMessages(
+  conversationId: string
+): Promise<LiaisonMessageWithSender[]> {
+  const { data, error } = await supabase
+    .from('liaison_messages')
+    .select(MESSAGE_SELECT)
+    .eq('conversation_id', conversationId)
+    .not('pinned_at', 'is', null)
+    .order('pinned_at', { ascending: false })
+
+  if (error) {
+    logger.error('Erreur récupération messages épinglés:', error)
+    return []
+  }
+
+  return ((data || []) as unknown as LiaisonMessageDbRow[]).map(mapMessageFromDb)
+}
+
 // ============================================
 // MARK AS READ
 // ============================================
@@ -520,18 +762,27 @@ export async function getLiaisonUnreadCount(
 
 /**
  * Compte le total des messages non lus pour un employeur (pour badge nav).
+ * Les conversations en sourdine ne comptent pas.
  */
 export async function getTotalUnreadCount(
   employerId: string,
   userId: string
 ): Promise<number> {
-  const { count, error } = await supabase
+  const mutedIds = await getMutedConversationIds(userId)
+
+  let query = supabase
     .from('liaison_messages')
     .select('id', { count: 'exact', head: true })
     .eq('employer_id', employerId)
     .neq('sender_id', userId)
     .or(`read_by.is.null,read_by.not.cs.{${userId}}`)
 
+  if (mutedIds.length > 0) {
+    query = query.not('conversation_id', 'in', `(${mutedIds.join(',')})`)
+  }
+
+  const { count, error } = await query
+
   if (error) {
     logger.error('Erreur comptage messages non lus total:', error)
     return 0
@@ -543,15 +794,23 @@ export async function getTotalUnreadCount(
 /**
  * Compte les messages non lus toutes conversations confondues pour l'utilisateur
  * courant. La RLS SELECT sur liaison_messages filtre déjà aux messages des
- * conversations dont l'utilisateur est membre.
+ * conversations dont l'utilisateur est membre. Hors conversations en sourdine.
  */
 export async function getUnreadCountForUser(userId: string): Promise<number> {
-  const { count, error } = await supabase
+  const mutedIds = await getMutedConversationIds(userId)
+
+  let query = supabase
     .from('liaison_messages')
     .select('id', { count: 'exact', head: true })
     .neq('sender_id', userId)
     .or(`read_by.is.null,read_by.not.cs.{${userId}}`)
 
+  if (mutedIds.length > 0) {
+    query = query.not('conversation_id', 'in', `(${mutedIds.join(',')})`)
+  }
+
+  const { count, error } = await query
+
   if (error) {
     logger.error('Erreur comptage messages non lus user:', error)
     return 0
@@ -602,14 +861,7 @@ export function subscribeLiaisonMessages(
 
         const { data } = await supabase
           .from('liaison_messages')
-          .select(`
-            *,
-            sender:profiles!sender_id(
-              first_name,
-              last_name,
-              avatar_url
-            )
-          `)
+          .select(MESSAGE_SELECT)
           .eq('id', messageId)
           .single()
 
@@ -701,9 +953,18 @@ function mapConversationFromDb(
   computed: {
     otherParticipant?: Conversation['otherParticipant']
     lastMessage?: string
+    lastMessageAt?: string
     unreadCount: number
+    unreadMentionCount?: number
+    settings?: ConversationUserSettingsDbRow
   }
 ): Conversation {
+  const { settings } = computed
+  const lastMessageAt = computed.lastMessageAt ? new Date(computed.lastMessageAt) : undefined
+  const archivedAt = settings?.archived_at ? new Date(settings.archived_at) : undefined
+  const mutedUntil = settings?.muted_until ? new Date(settings.muted_until) : undefined
+  const isMuted = isMuteActive(settings?.muted ?? false, mutedUntil)
+
   return {
     id: data.id,
     employerId: data.employer_id,
@@ -713,7 +974,14 @@ function mapConversationFromDb(
     updatedAt: new Date(data.updated_at),
     otherParticipant: computed.otherParticipant,
     lastMessage: computed.lastMessage,
+    lastMessageAt,
     unreadCount: computed.unreadCount,
+    unreadMentionCount: computed.unreadMentionCount ?? 0,
+    archivedAt,
+    isArchived: isArchivedSince(archivedAt, lastMessageAt),
+    isMuted,
+    mutedUntil: isMuted ? mutedUntil : undefined,
+    notificationLevel: settings?.notification_level ?? 'all',
   }
 }
 
@@ -730,6 +998,11 @@ function mapMessageFromDb(data: LiaisonMessageDbRow | Record<string, unknown>):
     attachments: row.attachments || [],
     isEdited: row.is_edited || false,
     readBy: row.read_by || [],
+    replyToId: row.reply_to_id || undefined,
+    reactions: row.reactions || {},
+    pinnedAt: row.pinned_at ? new Date(row.pinned_at) : undefined,
+    pinnedBy: row.pinned_by || undefined,
+    mentionedUserIds: row.mentioned_user_ids || [],
     createdAt: new Date(row.created_at),
     updatedAt: new Date(row.updated_at),
     sender: row.sender
@@ -739,5 +1012,14 @@ function mapMessageFromDb(data: LiaisonMessageDbRow | Record<string, unknown>):
           avatarUrl: resolveAvatarUrl(row.sender.avatar_url),
         }
       : undefined,
+    replyTo: row.reply_to
+      ? {
+          id: row.reply_to.id,
+          content: row.reply_to.content,
+          senderName: row.reply_to.sender
+            ? `${row.reply_to.sender.first_name} ${row.reply_to.sender.last_name}`
+            : 'Utilisateur',
+        }
+      : undefined,
   }
 }
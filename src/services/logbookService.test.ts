@@ -25,16 +25,29 @@ vi.mock('@/lib/sanitize', () => ({
 const mockGetProfileName = vi.fn()
 const mockCreateUrgentLogEntryNotification = vi.fn()
 const mockCreateLogEntryDirectedNotification = vi.fn()
+const mockCreateLogEntryMentionNotification = vi.fn()
 
 vi.mock('@/services/notificationService', () => ({
   createUrgentLogEntryNotification: (...args: unknown[]) => mockCreateUrgentLogEntryNotification(...args),
   createLogEntryDirectedNotification: (...args: unknown[]) => mockCreateLogEntryDirectedNotification(...args),
+  createLogEntryMentionNotification: (...args: unknown[]) => mockCreateLogEntryMentionNotification(...args),
 }))
 
 vi.mock('@/services/profileService', () => ({
   getProfileName: (...args: unknown[]) => mockGetProfileName(...args),
 }))
 
+const mockEnsureTeamConversation = vi.fn()
+const mockUploadVoiceMessage = vi.fn()
+
+vi.mock('@/services/liaisonService', () => ({
+  ensureTeamConversation: (...args: unknown[]) => mockEnsureTeamConversation(...args),
+}))
+
+vi.mock('@/services/attachmentService', () => ({
+  uploadVoiceMessage: (...args: unknown[]) => mockUploadVoiceMessage(...args),
+}))
+
 // ============================================
 // HELPERS
 // ============================================
@@ -53,6 +66,7 @@ function mockSupabaseQuery(result: { data?: unknown; error?: unknown; count?: nu
   chain.lt = vi.fn().mockReturnValue(chain)
   chain.not = vi.fn().mockReturnValue(chain)
   chain.or = vi.fn().mockReturnValue(chain)
+  chain.contains = vi.fn().mockReturnValue(chain)
   chain.order = vi.fn().mockReturnValue(chain)
   chain.limit = vi.fn().mockReturnValue(chain)
   chain.range = vi.fn().mockReturnValue(chain)
@@ -120,11 +134,14 @@ import {
   getLogEntries,
   getLogEntryById,
   createLogEntry,
+  uploadLogEntryVoiceNote,
   updateLogEntry,
   deleteLogEntry,
   markAsRead,
   getUnreadCount,
   getRecentLogEntries,
+  getCareLogEntries,
+  getCareLogTemplates,
 } from '@/services/logbookService'
 import { sanitizeText } from '@/lib/sanitize'
 
@@ -188,6 +205,16 @@ describe('logbookService', () => {
       expect(chain.not).toHaveBeenCalledWith('read_by', 'cs', '{user-456}')
     })
 
+    it('applique le filtre mentionsMe avec contains', async () => {
+      const chain = mockSupabaseQuery({ data: [], error: null, count: 0 })
+
+      await getLogEntries('employer-123', 'user-456', 'employer', {
+        mentionsMe: true,
+      })
+
+      expect(chain.contains).toHaveBeenCalledWith('mentioned_user_ids', ['user-456'])
+    })
+
     it('calcule hasMore correctement pour la pagination', async () => {
       const rows = Array.from({ length: 20 }, (_, i) =>
         createMockLogEntryDbRow({ id: `entry-${i}` })
@@ -206,7 +233,7 @@ describe('logbookService', () => {
       await getLogEntries('employer-123', 'user-456', 'employee')
 
       expect(chain.or).toHaveBeenCalledWith(
-        'author_id.eq.user-456,recipient_id.is.null,recipient_id.eq.user-456'
+        'author_id.eq.user-456,recipient_id.is.null,recipient_id.eq.user-456,mentioned_user_ids.cs.{user-456}'
       )
     })
 
@@ -263,6 +290,33 @@ describe('logbookService', () => {
       expect(mockFrom).toHaveBeenCalledWith('log_entries')
     })
 
+    it('enregistre la fiche de suivi et l intervention associée', async () => {
+      const row = createMockLogEntryDbRow({
+        template_id: 'pain',
+        care_data: { score: 6, location: 'dos' },
+        shift_id: 'shift-1',
+      })
+      const chain = mockSupabaseQuery({ data: row, error: null })
+
+      const result = await createLogEntry('employer-123', 'user-456', 'employee', {
+        type: 'info',
+        importance: 'normal',
+        content: 'Douleur — Intensité : 6/10',
+        templateId: 'pain',
+        careData: { score: 6, location: '  dos ' },
+        shiftId: 'shift-1',
+      })
+
+      expect(chain.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          template_id: 'pain',
+          care_data: { score: 6, location: 'dos' },
+          shift_id: 'shift-1',
+        })
+      )
+      expect(result).toMatchObject({ templateId: 'pain', careData: { score: 6, location: 'dos' }, shiftId: 'shift-1' })
+    })
+
     it('lance une erreur en cas d echec d insertion', async () => {
       mockSupabaseQuery({ data: null, error: { message: 'insert failed' } })
 
@@ -297,6 +351,33 @@ describe('logbookService', () => {
       expect(mockCreateUrgentLogEntryNotification).not.toHaveBeenCalled()
     })
 
+    it('notifie les personnes mentionnées sans doubler la notification dirigée', async () => {
+      const row = createMockLogEntryDbRow({ recipient_id: 'aux-1', mentioned_user_ids: ['aux-1', 'cg-1'] })
+      mockSupabaseQuery({ data: row, error: null })
+      mockGetProfileName.mockResolvedValue('Marie Dupont')
+      mockCreateLogEntryMentionNotification.mockResolvedValue(undefined)
+
+      const result = await createLogEntry('employer-123', 'user-456', 'employer', {
+        type: 'info',
+        importance: 'normal',
+        content: '@Luc @Paul pensez aux courses',
+        recipientId: 'aux-1',
+        mentionedUserIds: ['aux-1', 'cg-1', 'user-456'],
+      })
+
+      const chain = mockFrom.mock.results[0].value as Record<string, ReturnType<typeof vi.fn>>
+      expect(chain.insert).toHaveBeenCalledWith(
+        expect.objectContaining({ mentioned_user_ids: ['aux-1', 'cg-1', 'user-456'] })
+      )
+      expect(mockCreateLogEntryMentionNotification).toHaveBeenCalledWith(
+        ['aux-1', 'cg-1'],
+        'Marie Dupont',
+        '@Luc @Paul pensez aux courses'
+      )
+      expect(mockCreateLogEntryDirectedNotification).not.toHaveBeenCalled()
+      expect(result!.mentionedUserIds).toEqual(['aux-1', 'cg-1'])
+    })
+
     it('envoie une notification urgente a tous les membres de l equipe', async () => {
       const insertedRow = createMockLogEntryDbRow({ importance: 'urgent' })
 
@@ -370,6 +451,49 @@ describe('logbookService', () => {
       // La notification dirigée n'est pas envoyee quand importance=urgent
       expect(mockCreateLogEntryDirectedNotification).not.toHaveBeenCalled()
     })
+
+    it('enregistre le chemin de la note vocale', async () => {
+      const row = createMockLogEntryDbRow({ audio_url: 'conv-1/user-456/1_vocal.webm' })
+      const chain = mockSupabaseQuery({ data: row, error: null })
+
+      const result = await createLogEntry('employer-123', 'user-456', 'employee', {
+        type: 'info',
+        importance: 'normal',
+        content: 'Transcription de la note',
+        audioUrl: 'conv-1/user-456/1_vocal.webm',
+      })
+
+      expect(chain.insert).toHaveBeenCalledWith(
+        expect.objectContaining({ audio_url: 'conv-1/user-456/1_vocal.webm' })
+      )
+      expect(result!.audioUrl).toBe('conv-1/user-456/1_vocal.webm')
+    })
+  })
+
+  // ------------------------------------------
+  // uploadLogEntryVoiceNote
+  // ------------------------------------------
+  describe('uploadLogEntryVoiceNote', () => {
+    const recording = { blob: new Blob(['a'], { type: 'audio/webm' }), mimeType: 'audio/webm', durationMs: 2000 }
+
+    it('dépose l enregistrement dans le fil d équipe', async () => {
+      mockEnsureTeamConversation.mockResolvedValue('conv-team')
+      mockUploadVoiceMessage.mockResolvedValue({ path: 'conv-team/user-456/1_vocal.webm' })
+
+      const audio = await uploadLogEntryVoiceNote('employer-123', 'user-456', recording)
+
+      expect(mockUploadVoiceMessage).toHaveBeenCalledWith('conv-team', 'user-456', recording)
+      expect(audio.path).toBe('conv-team/user-456/1_vocal.webm')
+    })
+
+    it('lance une erreur sans fil d équipe', async () => {
+      mockEnsureTeamConversation.mockResolvedValue(null)
+
+      await expect(uploadLogEntryVoiceNote('employer-123', 'user-456', recording)).rejects.toThrow(
+        "Impossible d'enregistrer la note vocale pour le moment."
+      )
+      expect(mockUploadVoiceMessage).not.toHaveBeenCalled()
+    })
   })
 
   // ------------------------------------------
@@ -507,4 +631,38 @@ describe('logbookService', () => {
       expect(result).toEqual([])
     })
   })
+  // ------------------------------------------
+  // Fiches de suivi
+  // ------------------------------------------
+  describe('getCareLogEntries', () => {
+    it('filtre les entrées structurées de la période', async () => {
+      const chain = mockSupabaseQuery({
+        data: [createMockLogEntryDbRow({ template_id: 'mood', care_data: { mood: 4 } })],
+        error: null,
+      })
+      const from = new Date('2026-02-01T00:00:00.000Z')
+      const to = new Date('2026-02-14T23:59:59.000Z')
+
+      const result = await getCareLogEntries('employer-123', 'user-456', 'employee', from, to)
+
+      expect(chain.not).toHaveBeenCalledWith('template_id', 'is', null)
+      expect(chain.gte).toHaveBeenCalledWith('created_at', from.toISOString())
+      expect(chain.or).toHaveBeenCalled()
+      expect(result[0]).toMatchObject({ templateId: 'mood', careData: { mood: 4 } })
+    })
+  })
+
+  describe('getCareLogTemplates', () => {
+    it('ignore les modèles inconnus', async () => {
+      mockSupabaseQuery({ data: { care_log_templates: ['meal', 'legacy', 'pain'] }, error: null })
+
+      expect(await getCareLogTemplates('employer-123')).toEqual(['meal', 'pain'])
+    })
+
+    it('propose tous les modèles sans configuration', async () => {
+      mockSupabaseQuery({ data: null, error: null })
+
+      expect(await getCareLogTemplates('employer-123')).toHaveLength(6)
+    })
+  })
 })
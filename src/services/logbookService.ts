@@ -1,13 +1,18 @@
 import { supabase } from '@/lib/supabase/client'
 import { logger } from '@/lib/logger'
 import { sanitizeText } from '@/lib/sanitize'
-import type { LogEntry, UserRole } from '@/types'
+import { CARE_TEMPLATE_IDS, isCareTemplateId } from '@/lib/logbook/careTemplates'
+import type { Attachment, CareLogData, CareTemplateId, LogEntry, UserRole } from '@/types'
 import type { LogEntryDbRow } from '@/types/database'
 import {
   createUrgentLogEntryNotification,
   createLogEntryDirectedNotification,
+  createLogEntryMentionNotification,
 } from '@/services/notificationService'
 import { getProfileName } from '@/services/profileService'
+import { ensureTeamConversation } from '@/services/liaisonService'
+import { uploadVoiceMessage } from '@/services/attachmentService'
+import type { RecordedVoice } from '@/lib/voice/voiceRecorder'
 
 // ============================================
 // TYPES
@@ -18,6 +23,8 @@ export interface LogEntryFilters {
   importance?: LogEntry['importance']
   authorRole?: UserRole
   unreadOnly?: boolean
+  /** Entrées mentionnant l'utilisateur (@Prénom) */
+  mentionsMe?: boolean
 }
 
 export interface LogEntryWithAuthor extends LogEntry {
@@ -78,10 +85,14 @@ export async function getLogEntries(
     query = query.not('read_by', 'cs', `{${userId}}`)
   }
 
+  if (filters?.mentionsMe) {
+    query = query.contains('mentioned_user_ids', [userId])
+  }
+
   // Filtrage par rôle utilisateur
   if (userRole === 'employee') {
-    // Les employés voient leurs entrées + les entrées broadcast + celles qui leur sont destinées
-    query = query.or(`author_id.eq.${userId},recipient_id.is.null,recipient_id.eq.${userId}`)
+    // Les employés voient leurs entrées + les entrées broadcast + celles qui leur sont destinées ou les mentionnent
+    query = query.or(`author_id.eq.${userId},recipient_id.is.null,recipient_id.eq.${userId},mentioned_user_ids.cs.{${userId}}`)
   }
   // Note: Pour les caregivers, vérifier canViewLiaison côté appelant
 
@@ -139,6 +150,15 @@ export async function createLogEntry(
     importance: LogEntry['importance']
     content: string
     recipientId?: string
+    /** Personnes mentionnées (@Prénom), notifiées en priorité haute */
+    mentionedUserIds?: string[]
+    templateId?: CareTemplateId
+    careData?: CareLogData
+    shiftId?: string
+    /** Chemin Storage du message vocal (voir uploadVoiceMessage) */
+    audioUrl?: string
+    /** L'appelant envoie lui-même des notifications dédiées */
+    skipNotifications?: boolean
   }
 ): Promise<LogEntry | null> {
   const { data: created, error } = await supabase
@@ -151,7 +171,11 @@ export async function createLogEntry(
       importance: data.importance,
       content: sanitizeText(data.content),
       recipient_id: data.recipientId || null,
-      audio_url: null,
+      mentioned_user_ids: data.mentionedUserIds ?? [],
+      template_id: data.templateId ?? null,
+      care_data: data.templateId ? sanitizeCareData(data.careData ?? {}) : null,
+      shift_id: data.shiftId || null,
+      audio_url: data.audioUrl || null,
       attachments: [],
       read_by: [authorId], // L'auteur a déjà "lu" son entrée
     })
@@ -163,8 +187,24 @@ export async function createLogEntry(
     throw new Error(error.message)
   }
 
+  if (data.skipNotifications) {
+    return mapLogEntryFromDb(created)
+  }
+
+  // Les personnes mentionnées reçoivent la notification de mention (une
+  // entrée urgente notifie déjà toute l'équipe)
+  const mentionedIds = (data.mentionedUserIds ?? []).filter((id) => id !== authorId)
+  if (mentionedIds.length > 0 && data.importance !== 'urgent') {
+    try {
+      const authorName = await getProfileName(authorId)
+      await createLogEntryMentionNotification(mentionedIds, authorName, data.content)
+    } catch (err) {
+      logger.error('Erreur notification mention cahier:', err)
+    }
+  }
+
   // Notifier le destinataire spécifique si entrée dirigée (non urgente)
-  if (data.recipientId && data.importance !== 'urgent') {
+  if (data.recipientId && data.importance !== 'urgent' && !mentionedIds.includes(data.recipientId)) {
     try {
       const authorName = await getProfileName(authorId)
       const preview = data.content.length > 80
@@ -227,6 +267,22 @@ export async function createLogEntry(
   return mapLogEntryFromDb(created)
 }
 
+/**
+ * Dépose la note vocale d'une entrée (même espace de stockage que les
+ * pièces jointes du fil d'équipe). Son `path` est à passer en `audioUrl`.
+ */
+export async function uploadLogEntryVoiceNote(
+  employerId: string,
+  authorId: string,
+  recording: RecordedVoice
+): Promise<Attachment> {
+  const conversationId = await ensureTeamConversation(employerId)
+  if (!conversationId) {
+    throw new Error("Impossible d'enregistrer la note vocale pour le moment.")
+  }
+  return uploadVoiceMessage(conversationId, authorId, recording)
+}
+
 // ============================================
 // UPDATE LOG ENTRY
 // ============================================
@@ -345,6 +401,83 @@ export async function getRecentLogEntries(
   return (data || []).map(mapLogEntryFromDb)
 }
 
+// ============================================
+// FICHES DE SUIVI (graphiques)
+// ============================================
+
+/**
+ * Entrées structurées (fiches de suivi) créées entre `from` et `to`,
+ * avec le même filtrage par rôle que `getLogEntries`.
+ */
+export async function getCareLogEntries(
+  employerId: string,
+  userId: string,
+  userRole: UserRole,
+  from: Date,
+  to: Date
+): Promise<LogEntry[]> {
+  let query = supabase
+    .from('log_entries')
+    .select('*')
+    .eq('employer_id', employerId)
+    .not('template_id', 'is', null)
+    .gte('created_at', from.toISOString())
+    .lte('created_at', to.toISOString())
+    .order('created_at', { ascending: true })
+
+  if (userRole === 'employee') {
+    query = query.or(`author_id.eq.${userId},recipient_id.is.null,recipient_id.eq.${userId}`)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    logger.error('Erreur récupération fiches de suivi:', error)
+    return []
+  }
+
+  return ((data || []) as LogEntryDbRow[]).map(mapLogEntryFromDb)
+}
+
+/** Modèles de fiches proposés à la saisie pour cet employeur */
+export async function getCareLogTemplates(employerId: string): Promise<CareTemplateId[]> {
+  const { data, error } = await supabase
+    .from('employers')
+    .select('care_log_templates')
+    .eq('profile_id', employerId)
+    .maybeSingle()
+
+  if (error) {
+    logger.error('Erreur récupération modèles de fiches:', error)
+    return [...CARE_TEMPLATE_IDS]
+  }
+
+  const templates = (data as { care_log_templates: string[] | null } | null)?.care_log_templates
+  return templates ? templates.filter(isCareTemplateId) : [...CARE_TEMPLATE_IDS]
+}
+
+export async function updateCareLogTemplates(
+  employerId: string,
+  templateIds: CareTemplateId[]
+): Promise<void> {
+  const { error } = await supabase
+    .from('employers')
+    .update({ care_log_templates: templateIds })
+    .eq('profile_id', employerId)
+
+  if (error) {
+    logger.error('Erreur mise à jour modèles de fiches:', error)
+    throw new Error(error.message)
+  }
+}
+
+/** Nettoie les champs texte libres d'une fiche */
+function sanitizeCareData(data: CareLogData): CareLogData {
+  return Object.fromEntries(
+    Object.entries(data).map(([key, value]) => [key, typeof value === 'string' ? sanitizeText(value) : value])
+  )
+}
+
 // ============================================
 // HELPER: MAP FROM DB
 // ============================================
@@ -361,7 +494,11 @@ function mapLogEntryFromDb(data: LogEntryDbRow): LogEntryWithAuthor {
     audioUrl: data.audio_url || undefined,
     attachments: data.attachments || [],
     recipientId: data.recipient_id || undefined,
+    mentionedUserIds: data.mentioned_user_ids || [],
     readBy: data.read_by || [],
+    templateId: isCareTemplateId(data.template_id) ? data.template_id : undefined,
+    careData: data.care_data || undefined,
+    shiftId: data.shift_id || undefined,
     createdAt: new Date(data.created_at),
     updatedAt: new Date(data.updated_at),
     author: data.author
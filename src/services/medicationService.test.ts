@@ -0,0 +1,204 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import {
+  getMedications,
+  saveMedication,
+  recordMedicationAdministration,
+  HEALTH_CONSENT_REQUIRED_MESSAGE,
+} from './medicationService'
+import { createMockSupabaseChain } from '@/test/fixtures'
+import type { MedicationDose } from '@/lib/medication/schedule'
+import type { Medication } from '@/types'
+
+// ============================================================
+// MOCKS
+// ============================================================
+
+const mockFrom = vi.fn()
+const mockRpc = vi.fn()
+const mockCreateLogEntry = vi.fn()
+const mockMissedNotification = vi.fn()
+const mockLogAudit = vi.fn()
+
+vi.mock('@/lib/supabase/client', () => ({
+  supabase: {
+    from: (...args: unknown[]) => mockFrom(...args),
+    rpc: (...args: unknown[]) => mockRpc(...args),
+  },
+}))
+
+vi.mock('@/services/logbookService', () => ({
+  createLogEntry: (...args: unknown[]) => mockCreateLogEntry(...args),
+}))
+
+vi.mock('@/services/notificationService', () => ({
+  createMedicationMissedNotification: (...args: unknown[]) => mockMissedNotification(...args),
+  getProfileName: vi.fn().mockResolvedValue('Marie Curie'),
+}))
+
+vi.mock('@/services/auditService', () => ({
+  logAudit: (...args: unknown[]) => mockLogAudit(...args),
+}))
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn(), debug: vi.fn() },
+}))
+
+const medication: Medication = {
+  id: 'med-1',
+  employerId: 'employer-1',
+  name: 'Kardégic',
+  dose: '75 mg',
+  times: ['08:00'],
+  startDate: new Date(2026, 0, 1),
+  createdAt: new Date(2026, 0, 1),
+  updatedAt: new Date(2026, 0, 1),
+}
+
+const dose: MedicationDose = {
+  medication,
+  scheduledTime: '08:00',
+  date: new Date(2026, 2, 10),
+}
+
+const administrationRow = {
+  id: 'adm-1',
+  medication_id: 'med-1',
+  shift_id: 'shift-1',
+  employer_id: 'employer-1',
+  scheduled_time: '08:00',
+  status: 'missed',
+  recorded_by: 'employee-1',
+  recorded_at: '2026-03-10T08:30:00Z',
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+})
+
+// ============================================================
+// TESTS
+// ============================================================
+
+describe('getMedications', () => {
+  it('lit la vue déchiffrée et trace l\'accès', async () => {
+    mockFrom.mockReturnValue(createMockSupabaseChain({
+      data: [{
+        id: 'med-1',
+        employer_id: 'employer-1',
+        name: 'Kardégic',
+        dose: '75 mg',
+        instructions: null,
+        times: ['08:00', '20:00'],
+        start_date: '2026-03-01',
+        end_date: null,
+        archived_at: null,
+        created_by: 'employer-1',
+        created_at: '2026-03-01T10:00:00Z',
+        updated_at: '2026-03-01T10:00:00Z',
+      }],
+      error: null,
+    }).fromReturn)
+
+    const result = await getMedications('employer-1')
+
+    expect(mockFrom).toHaveBeenCalledWith('medications_v')
+    expect(result[0]).toMatchObject({ name: 'Kardégic', times: ['08:00', '20:00'], instructions: undefined })
+    expect(result[0].startDate.getDate()).toBe(1)
+    expect(mockLogAudit).toHaveBeenCalledWith(expect.objectContaining({ action: 'read', resource: 'medications' }))
+  })
+
+  it('renvoie une liste vide en cas d\'erreur', async () => {
+    mockFrom.mockReturnValue(createMockSupabaseChain({ data: null, error: { message: 'boom' } }).fromReturn)
+
+    expect(await getMedications('employer-1')).toEqual([])
+    expect(mockLogAudit).not.toHaveBeenCalled()
+  })
+})
+
+describe('saveMedication', () => {
+  it('normalise les horaires avant l\'appel RPC', async () => {
+    mockRpc.mockResolvedValue({ data: 'med-1', error: null })
+
+    const id = await saveMedication({
+      name: ' Kardégic ',
+      dose: '75 mg',
+      times: ['20:00', '08:00', '08:00'],
+      startDate: new Date(2026, 2, 1),
+    })
+
+    expect(id).toBe('med-1')
+    expect(mockRpc).toHaveBeenCalledWith('upsert_medication', expect.objectContaining({
+      p_id: null,
+      p_name: 'Kardégic',
+      p_times: ['08:00', '20:00'],
+      p_start_date: '2026-03-01',
+      p_end_date: null,
+    }))
+  })
+
+  it('traduit le refus faute de consentement santé', async () => {
+    mockRpc.mockResolvedValue({ data: null, error: { message: 'health_consent_required' } })
+
+    await expect(
+      saveMedication({ name: 'X', dose: '1', times: ['08:00'], startDate: new Date() })
+    ).rejects.toThrow(HEALTH_CONSENT_REQUIRED_MESSAGE)
+  })
+})
+
+describe('recordMedicationAdministration', () => {
+  it('crée une entrée urgente et alerte employeur et aidants pour une prise manquée', async () => {
+    mockRpc.mockResolvedValue({ data: administrationRow, error: null })
+    mockFrom.mockReturnValue(createMockSupabaseChain({ data: [{ profile_id: 'caregiver-1' }], error: null }).fromReturn)
+
+    const result = await recordMedicationAdministration({
+      dose,
+      shiftId: 'shift-1',
+      status: 'missed',
+      authorId: 'employee-1',
+      authorRole: 'employee',
+    })
+
+    expect(result.status).toBe('missed')
+    expect(mockCreateLogEntry).toHaveBeenCalledWith('employer-1', 'employee-1', 'employee', expect.objectContaining({
+      importance: 'urgent',
+      shiftId: 'shift-1',
+      skipNotifications: true,
+    }))
+    expect(mockMissedNotification).toHaveBeenCalledWith(
+      ['employer-1', 'caregiver-1'],
+      'Marie Curie',
+      '08:00',
+      dose.date
+    )
+  })
+
+  it('n\'alerte ni pour une prise donnée ni pour une prise déjà manquée', async () => {
+    mockRpc.mockResolvedValue({ data: { ...administrationRow, status: 'given' }, error: null })
+    await recordMedicationAdministration({
+      dose, shiftId: 'shift-1', status: 'given', authorId: 'employee-1', authorRole: 'employee',
+    })
+
+    mockRpc.mockResolvedValue({ data: administrationRow, error: null })
+    await recordMedicationAdministration({
+      dose: {
+        ...dose,
+        administration: {
+          id: 'adm-1',
+          medicationId: 'med-1',
+          shiftId: 'shift-1',
+          scheduledTime: '08:00',
+          status: 'missed',
+          recordedBy: 'employee-1',
+          recordedAt: new Date(),
+        },
+      },
+      shiftId: 'shift-1',
+      status: 'missed',
+      authorId: 'employee-1',
+      authorRole: 'employee',
+    })
+
+    expect(mockCreateLogEntry).not.toHaveBeenCalled()
+    expect(mockMissedNotification).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,229 @@
+/**
+ * Service du plan de prise des médicaments
+ *
+ * Donnée de santé (art. 9 RGPD) : lecture via la vue déchiffrée
+ * `medications_v`, écriture via les fonctions `upsert_medication` /
+ * `archive_medication`. Sans consentement santé de l'employeur, la base
+ * ne renvoie rien et refuse toute écriture (`health_consent_required`).
+ *
+ * Pendant une intervention, chaque prise due est pointée (donnée, refusée,
+ * manquée). Une prise manquée crée une entrée urgente au cahier de liaison
+ * et alerte l'employeur et les aidants.
+ */
+
+import { format } from 'date-fns'
+import { supabase } from '@/lib/supabase/client'
+import { logger } from '@/lib/logger'
+import { sanitizeText } from '@/lib/sanitize'
+import { normalizeDoseTimes, type MedicationDose } from '@/lib/medication/schedule'
+import { logAudit } from '@/services/auditService'
+import { createLogEntry } from '@/services/logbookService'
+import { createMedicationMissedNotification, getProfileName } from '@/services/notificationService'
+import type {
+  Medication,
+  MedicationAdministration,
+  MedicationAdministrationStatus,
+  UserRole,
+} from '@/types'
+import type { MedicationDbRow, MedicationAdministrationDbRow } from '@/types/database'
+
+export const HEALTH_CONSENT_REQUIRED_MESSAGE =
+  "Le plan de prise est une donnée de santé : l'employeur doit d'abord donner son consentement."
+
+export interface MedicationInput {
+  name: string
+  dose: string
+  instructions?: string
+  times: string[]
+  startDate: Date
+  endDate?: Date
+}
+
+function toErrorMessage(message: string): string {
+  return message.includes('health_consent_required') ? HEALTH_CONSENT_REQUIRED_MESSAGE : message
+}
+
+function mapMedicationFromDb(row: MedicationDbRow): Medication {
+  return {
+    id: row.id,
+    employerId: row.employer_id,
+    name: row.name,
+    dose: row.dose,
+    instructions: row.instructions || undefined,
+    times: row.times,
+    startDate: new Date(`${row.start_date}T00:00:00`),
+    endDate: row.end_date ? new Date(`${row.end_date}T00:00:00`) : undefined,
+    archivedAt: row.archived_at ? new Date(row.archived_at) : undefined,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  }
+}
+
+function mapAdministrationFromDb(row: MedicationAdministrationDbRow): MedicationAdministration {
+  return {
+    id: row.id,
+    medicationId: row.medication_id,
+    shiftId: row.shift_id,
+    scheduledTime: row.scheduled_time,
+    status: row.status,
+    recordedBy: row.recorded_by,
+    recordedAt: new Date(row.recorded_at),
+  }
+}
+
+// ============================================
+// PLAN DE PRISE
+// ============================================
+
+/** Traitements en cours de l'employeur (vide sans consentement santé) */
+export async function getMedications(employerId: string): Promise<Medication[]> {
+  const { data, error } = await supabase
+    .from('medications_v')
+    .select('*')
+    .eq('employer_id', employerId)
+    .is('archived_at', null)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    logger.error('Erreur chargement plan de prise:', error)
+    return []
+  }
+
+  const rows = (data || []) as unknown as MedicationDbRow[]
+  if (rows.length > 0) {
+    logAudit({
+      action: 'read',
+      resource: 'medications',
+      resourceId: employerId,
+      fields: ['name', 'dose', 'instructions'],
+    })
+  }
+
+  return rows.map(mapMedicationFromDb)
+}
+
+/** Crée (sans `medicationId`) ou modifie un traitement. Renvoie son identifiant. */
+export async function saveMedication(input: MedicationInput, medicationId?: string): Promise<string> {
+  const { data, error } = await supabase.rpc('upsert_medication', {
+    p_id: medicationId ?? null,
+    p_name: sanitizeText(input.name.trim()),
+    p_dose: sanitizeText(input.dose.trim()),
+    p_instructions: input.instructions ? sanitizeText(input.instructions.trim()) : null,
+    p_times: normalizeDoseTimes(input.times),
+    p_start_date: format(input.startDate, 'yyyy-MM-dd'),
+    p_end_date: input.endDate ? format(input.endDate, 'yyyy-MM-dd') : null,
+  })
+
+  if (error) {
+    logger.error('Erreur enregistrement médicament:', error)
+    throw new Error(toErrorMessage(error.message))
+  }
+
+  logAudit({
+    action: medicationId ? 'update' : 'create',
+    resource: 'medications',
+    resourceId: data as unknown as string,
+  })
+
+  return data as unknown as string
+}
+
+/** Arrête un traitement ; l'historique des prises est conservé */
+export async function archiveMedication(medicationId: string): Promise<void> {
+  const { error } = await supabase.rpc('archive_medication', { p_id: medicationId })
+
+  if (error) {
+    logger.error('Erreur arrêt traitement:', error)
+    throw new Error(toErrorMessage(error.message))
+  }
+
+  logAudit({ action: 'delete', resource: 'medications', resourceId: medicationId })
+}
+
+// ============================================
+// PRISES PAR INTERVENTION
+// ============================================
+
+export async function getShiftAdministrations(shiftId: string): Promise<MedicationAdministration[]> {
+  const { data, error } = await supabase
+    .from('medication_administrations')
+    .select('*')
+    .eq('shift_id', shiftId)
+
+  if (error) {
+    logger.error('Erreur chargement prises:', error)
+    return []
+  }
+
+  return ((data || []) as unknown as MedicationAdministrationDbRow[]).map(mapAdministrationFromDb)
+}
+
+export async function recordMedicationAdministration(params: {
+  dose: MedicationDose
+  shiftId: string
+  status: MedicationAdministrationStatus
+  authorId: string
+  authorRole: UserRole
+}): Promise<MedicationAdministration> {
+  const { dose, shiftId, status, authorId, authorRole } = params
+
+  const { data, error } = await supabase.rpc('record_medication_administration', {
+    p_medication_id: dose.medication.id,
+    p_shift_id: shiftId,
+    p_scheduled_time: dose.scheduledTime,
+    p_status: status,
+  })
+
+  if (error) {
+    logger.error('Erreur pointage prise:', error)
+    throw new Error(toErrorMessage(error.message))
+  }
+
+  const administration = mapAdministrationFromDb(data as unknown as MedicationAdministrationDbRow)
+
+  // Une seule alerte par prise, même si elle est pointée plusieurs fois
+  if (status === 'missed' && dose.administration?.status !== 'missed') {
+    await alertMissedDose(dose, shiftId, authorId, authorRole)
+  }
+
+  return administration
+}
+
+async function alertMissedDose(
+  dose: MedicationDose,
+  shiftId: string,
+  authorId: string,
+  authorRole: UserRole
+): Promise<void> {
+  const { medication, scheduledTime, date } = dose
+
+  try {
+    await createLogEntry(medication.employerId, authorId, authorRole, {
+      type: 'alert',
+      importance: 'urgent',
+      content: `Prise manquée : ${medication.name} (${medication.dose}) prévue à ${scheduledTime}.`,
+      shiftId,
+      skipNotifications: true,
+    })
+  } catch (err) {
+    logger.error('Erreur entrée cahier prise manquée:', err)
+  }
+
+  try {
+    const { data: caregivers } = await supabase
+      .from('caregivers')
+      .select('profile_id')
+      .eq('employer_id', medication.employerId)
+
+    const recipientIds = new Set<string>([medication.employerId])
+    for (const cg of (caregivers || []) as { profile_id: string }[]) {
+      recipientIds.add(cg.profile_id)
+    }
+    recipientIds.delete(authorId)
+
+    const authorName = await getProfileName(authorId)
+    await createMedicationMissedNotification(Array.from(recipientIds), authorName, scheduledTime, date)
+  } catch (err) {
+    logger.error('Erreur notification prise manquée:', err)
+  }
+}
@@ -153,22 +153,31 @@ export async function createShiftReminderNotification(
   return notification
 }
 
+/**
+ * Un destinataire mentionné (@Prénom) reçoit une notification prioritaire,
+ * qui passe aussi le niveau « mentions uniquement » de la conversation.
+ */
 export async function createMessageNotification(
   userId: string,
   senderName: string,
   messagePreview: string,
-  messageId: string
+  messageId: string,
+  conversationId?: string,
+  mentioned = false
 ): Promise<Notification | null> {
   const notification = await createNotification({
     userId,
     type: 'message_received',
-    priority: 'normal',
-    title: 'Nouveau message',
+    priority: mentioned ? 'high' : 'normal',
+    title: mentioned ? `${senderName} vous a mentionné` : 'Nouveau message',
     message: `${senderName}: ${messagePreview.substring(0, 100)}${messagePreview.length > 100 ? '...' : ''}`,
     actionUrl: '/messagerie',
-    data: { senderName, messagePreview },
+    data: { senderName, messagePreview, messageId, conversationId, ...(mentioned && { mentioned }) },
   })
 
+  // Conversation en sourdine ou notifications réduites : pas d'email non plus
+  if (!notification && conversationId) return null
+
   // Email si activé dans les préférences (résolution destinataire côté Edge)
   try {
     const prefs = await getNotificationPreferences(userId)
@@ -269,6 +278,54 @@ export async function createContractTerminatedNotification(
   }
 }
 
+export async function createSignatureRequestedNotification(
+  userId: string,
+  requesterName: string,
+  documentTitle: string,
+  isReminder = false
+): Promise<Notification | null> {
+  try {
+    return await createNotification({
+      userId,
+      type: 'signature_requested',
+      priority: isReminder ? 'high' : 'normal',
+      title: isReminder ? 'Relance : document à signer' : 'Document à signer',
+      message: isReminder
+        ? `${requesterName} vous rappelle que « ${documentTitle} » attend votre signature.`
+        : `${requesterName} vous invite à signer « ${documentTitle} ».`,
+      actionUrl: '/documents',
+      data: { requesterName, documentTitle, isReminder },
+    })
+  } catch (err) {
+    logger.error('Erreur notification document à signer:', err)
+    return null
+  }
+}
+
+export async function createDocumentSignedNotification(
+  userId: string,
+  signerName: string,
+  documentTitle: string,
+  isComplete: boolean
+): Promise<Notification | null> {
+  try {
+    return await createNotification({
+      userId,
+      type: 'document_signed',
+      priority: 'normal',
+      title: isComplete ? 'Document signé' : 'Signature reçue',
+      message: isComplete
+        ? `${signerName} a signé « ${documentTitle} » : le document signé par les deux parties est disponible.`
+        : `${signerName} a signé « ${documentTitle} ». Votre signature est attendue.`,
+      actionUrl: '/documents',
+      data: { signerName, documentTitle, isComplete },
+    })
+  } catch (err) {
+    logger.error('Erreur notification document signé:', err)
+    return null
+  }
+}
+
 // ============================================
 // SHIFT NOTIFICATIONS
 // ============================================
@@ -355,6 +412,62 @@ export async function createShiftModifiedNotification(
   }
 }
 
+export async function createReplacementAssignedNotification(
+  employeeId: string,
+  shiftDate: Date,
+  startTime: string,
+  absentEmployeeName: string
+): Promise<Notification | null> {
+  try {
+    const formattedDate = shiftDate.toLocaleDateString('fr-FR', {
+      weekday: 'long',
+      day: 'numeric',
+      month: 'long',
+    })
+
+    return await createNotification({
+      userId: employeeId,
+      type: 'shift_reassigned',
+      priority: 'high',
+      title: 'Remplacement à assurer',
+      message: `Vous remplacez ${absentEmployeeName} le ${formattedDate} à ${startTime}.`,
+      actionUrl: getPlanningUrlWithDate(shiftDate),
+      data: { absentEmployeeName, shiftDate: shiftDate.toISOString(), startTime },
+    })
+  } catch (err) {
+    logger.error('Erreur notification remplacement assigné:', err)
+    return null
+  }
+}
+
+export async function createShiftCoveredNotification(
+  employeeId: string,
+  shiftDate: Date,
+  startTime: string,
+  replacementName: string
+): Promise<Notification | null> {
+  try {
+    const formattedDate = shiftDate.toLocaleDateString('fr-FR', {
+      weekday: 'long',
+      day: 'numeric',
+      month: 'long',
+    })
+
+    return await createNotification({
+      userId: employeeId,
+      type: 'shift_reassigned',
+      priority: 'normal',
+      title: 'Intervention remplacée',
+      message: `Pendant votre absence, ${replacementName} assure l'intervention du ${formattedDate} à ${startTime}.`,
+      actionUrl: getPlanningUrlWithDate(shiftDate),
+      data: { replacementName, shiftDate: shiftDate.toISOString(), startTime },
+    })
+  } catch (err) {
+    logger.error('Erreur notification intervention remplacée:', err)
+    return null
+  }
+}
+
 // ============================================
 // LOGBOOK NOTIFICATIONS
 // ============================================
@@ -409,6 +522,69 @@ export async function createLogEntryDirectedNotification(
   }
 }
 
+export async function createLogEntryMentionNotification(
+  userIds: string[],
+  authorName: string,
+  contentPreview: string
+): Promise<Notification[]> {
+  if (userIds.length === 0) return []
+
+  try {
+    const preview = contentPreview.substring(0, 100) + (contentPreview.length > 100 ? '...' : '')
+
+    return await createBulkNotifications(
+      userIds.map((userId) => ({
+        userId,
+        type: 'logbook_mention' as NotificationType,
+        priority: 'high' as NotificationPriority,
+        title: `${authorName} vous a mentionné`,
+        message: `Cahier de liaison : ${preview}`,
+        actionUrl: '/cahier-de-liaison',
+        data: { authorName, contentPreview: preview, mentioned: true },
+      }))
+    )
+  } catch (err) {
+    logger.error('Erreur notification mention cahier:', err)
+    return []
+  }
+}
+
+// ============================================
+// MEDICATION NOTIFICATIONS
+// ============================================
+
+/**
+ * Le nom du médicament (donnée de santé) reste dans le cahier de liaison :
+ * il n'apparaît ni dans la notification ni dans le push.
+ */
+export async function createMedicationMissedNotification(
+  userIds: string[],
+  authorName: string,
+  scheduledTime: string,
+  shiftDate: Date
+): Promise<Notification[]> {
+  if (userIds.length === 0) return []
+
+  try {
+    const formattedDate = shiftDate.toLocaleDateString('fr-FR', { weekday: 'long', day: 'numeric', month: 'long' })
+
+    return await createBulkNotifications(
+      userIds.map((userId) => ({
+        userId,
+        type: 'medication_missed' as NotificationType,
+        priority: 'urgent' as NotificationPriority,
+        title: 'Prise de médicament manquée',
+        message: `${authorName} signale une prise manquée (${scheduledTime}) le ${formattedDate}.`,
+        actionUrl: '/cahier-de-liaison',
+        data: { authorName, scheduledTime, shiftDate: shiftDate.toISOString() },
+      }))
+    )
+  } catch (err) {
+    logger.error('Erreur notification prise manquée:', err)
+    return []
+  }
+}
+
 // ============================================
 // PERMISSIONS NOTIFICATIONS
 // ============================================
@@ -443,6 +619,9 @@ const absenceTypeLabels: Record<string, string> = {
   training: 'formation',
   unavailable: 'indisponibilité',
   emergency: 'urgence',
+  unpaid_leave: 'congé sans solde',
+  maternity: 'congé maternité / paternité',
+  work_accident: 'accident du travail',
 }
 
 export async function createAbsenceRequestedNotification(
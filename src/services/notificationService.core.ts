@@ -106,6 +106,35 @@ export async function getNotificationPreferences(
   }
 }
 
+// ============================================
+// CONVERSATION SETTINGS
+// ============================================
+
+/**
+ * Sourdine et niveau de notification choisis par le destinataire pour une
+ * conversation (lus côté serveur : la RLS les réserve à leur propriétaire).
+ * En cas d'erreur on notifie : mieux vaut une notification de trop qu'un
+ * message manqué.
+ */
+export async function isConversationNotificationAllowed(
+  userId: string,
+  conversationId: string,
+  mentioned = false
+): Promise<boolean> {
+  const { data, error } = await supabase.rpc('conversation_notification_allowed', {
+    p_user_id: userId,
+    p_conversation_id: conversationId,
+    p_mentioned: mentioned,
+  })
+
+  if (error) {
+    logger.warn('Erreur lecture réglages notification conversation:', error)
+    return true
+  }
+
+  return data !== false
+}
+
 // ============================================
 // PUSH NOTIFICATION TRIGGER
 // ============================================
@@ -169,6 +198,19 @@ export { getProfileNameFromService as getProfileName }
 export async function createNotification(
   params: CreateNotificationParams
 ): Promise<Notification | null> {
+  const conversationId = params.data?.conversationId
+  if (params.type === 'message_received' && typeof conversationId === 'string') {
+    const allowed = await isConversationNotificationAllowed(
+      params.userId,
+      conversationId,
+      params.data?.mentioned === true
+    )
+    if (!allowed) {
+      logger.debug('[Notification] Conversation en sourdine ou notifications réduites')
+      return null
+    }
+  }
+
   const { data, error } = await supabase.rpc('create_notification', {
     p_user_id: params.userId,
     p_type: params.type,
@@ -28,6 +28,9 @@ import {
   createAbsenceRequestedNotification,
   createAbsenceResolvedNotification,
   createLogEntryDirectedNotification,
+  createLogEntryMentionNotification,
+  createSignatureRequestedNotification,
+  createDocumentSignedNotification,
   getProfileName,
   getAlreadyNotifiedShiftIds,
   COMPLIANCE_THRESHOLDS,
@@ -271,6 +274,43 @@ describe('createNotification', () => {
     expect(result!.id).toBe('notif-001')
   })
 
+  it('ne crée rien si la conversation est en sourdine pour le destinataire', async () => {
+    mockRpc.mockResolvedValueOnce({ data: false, error: null })
+
+    const result = await createNotification({
+      userId: USER_ID,
+      type: 'message_received',
+      title: 'Test',
+      message: 'Test message',
+      data: { conversationId: 'conv-001', mentioned: true },
+    })
+
+    expect(result).toBeNull()
+    expect(mockRpc).toHaveBeenCalledWith('conversation_notification_allowed', {
+      p_user_id: USER_ID,
+      p_conversation_id: 'conv-001',
+      p_mentioned: true,
+    })
+    expect(mockRpc).not.toHaveBeenCalledWith('create_notification', expect.anything())
+  })
+
+  it('notifie quand même si les réglages de conversation sont illisibles', async () => {
+    mockRpc
+      .mockResolvedValueOnce({ data: null, error: { message: 'not_authorized' } })
+      .mockResolvedValueOnce({ data: createMockNotificationDbRow(), error: null })
+    mockSupabaseQuery({ data: null, error: { message: 'no prefs' } })
+
+    const result = await createNotification({
+      userId: USER_ID,
+      type: 'message_received',
+      title: 'Test',
+      message: 'Test message',
+      data: { conversationId: 'conv-001' },
+    })
+
+    expect(result).not.toBeNull()
+  })
+
   it('retourne null en cas d\'erreur RPC', async () => {
     mockRpc.mockResolvedValue({ data: null, error: { message: 'RPC failed' } })
 
@@ -874,6 +914,44 @@ describe('createMessageNotification', () => {
     // Jean: AAA... — la partie preview est tronquée à 100
     expect(message.length).toBeLessThan(150)
   })
+
+  it('transmet la conversation pour appliquer les réglages du destinataire', async () => {
+    mockRpc.mockResolvedValueOnce({ data: true, error: null })
+
+    await createMessageNotification(USER_ID, 'Jean', 'Bonjour', 'msg-001', 'conv-001')
+
+    expect(mockRpc).toHaveBeenCalledWith('conversation_notification_allowed', expect.objectContaining({
+      p_conversation_id: 'conv-001',
+      p_mentioned: false,
+    }))
+    expect(mockRpc).toHaveBeenCalledWith('create_notification', expect.objectContaining({
+      p_data: expect.objectContaining({ conversationId: 'conv-001', messageId: 'msg-001' }),
+    }))
+  })
+
+  it('n\'envoie pas d\'email quand la conversation est en sourdine', async () => {
+    mockRpc.mockResolvedValueOnce({ data: false, error: null })
+
+    const result = await createMessageNotification(USER_ID, 'Jean', 'Bonjour', 'msg-001', 'conv-001')
+
+    expect(result).toBeNull()
+    expect(mockFunctionsInvoke).not.toHaveBeenCalled()
+  })
+
+  it('passe en priorité haute quand le destinataire est mentionné', async () => {
+    mockRpc.mockResolvedValueOnce({ data: true, error: null })
+
+    await createMessageNotification(USER_ID, 'Jean', '@Marie bonjour', 'msg-001', 'conv-001', true)
+
+    expect(mockRpc).toHaveBeenCalledWith('conversation_notification_allowed', expect.objectContaining({
+      p_mentioned: true,
+    }))
+    expect(mockRpc).toHaveBeenCalledWith('create_notification', expect.objectContaining({
+      p_title: 'Jean vous a mentionné',
+      p_priority: 'high',
+      p_data: expect.objectContaining({ mentioned: true }),
+    }))
+  })
 })
 
 // ============================================
@@ -1167,6 +1245,32 @@ describe('createLogEntryDirectedNotification', () => {
   })
 })
 
+describe('createLogEntryMentionNotification', () => {
+  it('crée une notification de mention en priorité haute pour chaque personne', async () => {
+    mockRpc.mockResolvedValue({
+      data: createMockNotificationDbRow({ type: 'logbook_mention', priority: 'high' }),
+      error: null,
+    })
+    mockFrom.mockImplementation(() => {
+      const chain: Record<string, unknown> = {}
+      chain.select = vi.fn().mockReturnValue(chain)
+      chain.eq = vi.fn().mockReturnValue(chain)
+      chain.single = vi.fn().mockResolvedValue({ data: null, error: { message: 'no prefs' } })
+      return chain
+    })
+
+    const result = await createLogEntryMentionNotification(['user-1', 'user-2'], 'Jean', '@Marie @Paul RDV 14h')
+
+    expect(result).toHaveLength(2)
+    expect(mockRpc).toHaveBeenCalledWith('create_notification', expect.objectContaining({
+      p_type: 'logbook_mention',
+      p_priority: 'high',
+      p_title: 'Jean vous a mentionné',
+      p_action_url: '/cahier-de-liaison',
+    }))
+  })
+})
+
 // ============================================
 // Permissions notification
 // ============================================
@@ -1292,6 +1396,72 @@ describe('createAbsenceResolvedNotification', () => {
   })
 })
 
+// ============================================
+// Signature électronique
+// ============================================
+
+describe('createSignatureRequestedNotification', () => {
+  beforeEach(() => {
+    mockRpc.mockResolvedValue({
+      data: createMockNotificationDbRow({ type: 'signature_requested' }),
+      error: null,
+    })
+    mockFrom.mockImplementation(() => {
+      const chain: Record<string, unknown> = {}
+      chain.select = vi.fn().mockReturnValue(chain)
+      chain.eq = vi.fn().mockReturnValue(chain)
+      chain.single = vi.fn().mockResolvedValue({ data: null, error: { message: 'no prefs' } })
+      return chain
+    })
+  })
+
+  it('invite à signer', async () => {
+    await createSignatureRequestedNotification('emp-1', 'M. Dupont', 'Contrat de travail CDI')
+
+    expect(mockRpc).toHaveBeenCalledWith('create_notification', expect.objectContaining({
+      p_type: 'signature_requested',
+      p_priority: 'normal',
+      p_title: 'Document à signer',
+      p_action_url: '/documents',
+    }))
+  })
+
+  it('relance avec priorité high', async () => {
+    await createSignatureRequestedNotification('emp-1', 'M. Dupont', 'Contrat de travail CDI', true)
+
+    expect(mockRpc).toHaveBeenCalledWith('create_notification', expect.objectContaining({
+      p_title: 'Relance : document à signer',
+      p_priority: 'high',
+    }))
+  })
+})
+
+describe('createDocumentSignedNotification', () => {
+  beforeEach(() => {
+    mockRpc.mockResolvedValue({
+      data: createMockNotificationDbRow({ type: 'document_signed' }),
+      error: null,
+    })
+    mockFrom.mockImplementation(() => {
+      const chain: Record<string, unknown> = {}
+      chain.select = vi.fn().mockReturnValue(chain)
+      chain.eq = vi.fn().mockReturnValue(chain)
+      chain.single = vi.fn().mockResolvedValue({ data: null, error: { message: 'no prefs' } })
+      return chain
+    })
+  })
+
+  it('annonce le document signé par les deux parties', async () => {
+    await createDocumentSignedNotification('employer-1', 'Hélène Martin', 'Contrat de travail CDI', true)
+
+    expect(mockRpc).toHaveBeenCalledWith('create_notification', expect.objectContaining({
+      p_type: 'document_signed',
+      p_title: 'Document signé',
+      p_message: expect.stringContaining('deux parties'),
+    }))
+  })
+})
+
 // ============================================
 // getProfileName
 // ============================================
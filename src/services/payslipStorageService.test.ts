@@ -3,8 +3,10 @@ import {
   validatePayslipFile,
   uploadExternalPayslip,
   getPayslipsForEmployee,
+  saveGeneratedPayslip,
   PAYSLIP_MAX_FILE_SIZE,
 } from './payslipStorageService'
+import type { PayslipData } from '@/lib/export/types'
 
 // ─── Mocks ──────────────────────────────────────────────────────────
 
@@ -44,6 +46,16 @@ function mockContractLookup(rows: Array<{ id: string }> | null, error: unknown =
   return { from: vi.fn().mockReturnValue({ select }) }
 }
 
+function mockExistingPayslip(row: Record<string, unknown> | null, error: unknown = null) {
+  const maybeSingle = vi.fn().mockResolvedValue({ data: row, error })
+  const eq4 = vi.fn().mockReturnValue({ maybeSingle })
+  const eq3 = vi.fn().mockReturnValue({ eq: eq4 })
+  const eq2 = vi.fn().mockReturnValue({ eq: eq3 })
+  const eq1 = vi.fn().mockReturnValue({ eq: eq2 })
+  const select = vi.fn().mockReturnValue({ eq: eq1 })
+  return { select }
+}
+
 function mockPayslipUpsert(row: Record<string, unknown> | null, error: unknown = null) {
   const single = vi.fn().mockResolvedValue({ data: row, error })
   const select = vi.fn().mockReturnValue({ single })
@@ -283,3 +295,132 @@ describe('getPayslipsForEmployee', () => {
     expect(result).toEqual([])
   })
 })
+
+// ─── saveGeneratedPayslip ───────────────────────────────────────────
+
+describe('saveGeneratedPayslip', () => {
+  beforeEach(() => {
+    mockFrom.mockReset()
+    mockStorageFrom.mockReset()
+  })
+
+  const PDF_DATA_URI = 'data:application/pdf;base64,JVBERi0xLjQ='
+
+  const payslipData = {
+    year: 2026,
+    month: 3,
+    periodLabel: 'Mars 2026',
+    employerId: 'employer-1',
+    employee: { employeeId: 'employee-1', contractId: 'contract-1', totalHours: 120 },
+    cotisations: { grossPay: 1500, netAPayer: 1125.4, pasRate: 0.05, isExemptPatronalSS: true },
+    generatedAt: new Date('2026-04-02T09:00:00Z'),
+  } as unknown as PayslipData
+
+  const dbRow = {
+    id: 'payslip-3',
+    employer_id: 'employer-1',
+    employee_id: 'employee-1',
+    contract_id: 'contract-1',
+    year: 2026,
+    month: 3,
+    period_label: 'Mars 2026',
+    gross_pay: 1500,
+    net_pay: 1125.4,
+    total_hours: 120,
+    pas_rate: 0.05,
+    is_exempt_patronal_ss: true,
+    storage_path: 'employer-1/employee-1/2026/03/bulletin_2026_03.pdf',
+    storage_url: null,
+    generated_at: '2026-04-02T09:00:00Z',
+    created_at: '2026-04-02T09:00:00Z',
+  }
+
+  it('archive le PDF puis enregistre les montants clés du bulletin', async () => {
+    const single = vi.fn().mockResolvedValue({ data: dbRow, error: null })
+    const upsert = vi.fn().mockReturnValue({ select: vi.fn().mockReturnValue({ single }) })
+    mockFrom
+      .mockReturnValueOnce(mockExistingPayslip(null))
+      .mockReturnValueOnce({ upsert })
+
+    const storageUpload = vi.fn().mockResolvedValue({ error: null })
+    mockStorageFrom.mockReturnValue({ upload: storageUpload })
+
+    const res = await saveGeneratedPayslip(payslipData, PDF_DATA_URI)
+
+    expect(res.success).toBe(true)
+    expect(res.payslip?.netPay).toBe(1125.4)
+    expect(res.payslip?.storagePath).toBe('employer-1/employee-1/2026/03/bulletin_2026_03.pdf')
+    expect(storageUpload).toHaveBeenCalledWith(
+      'employer-1/employee-1/2026/03/bulletin_2026_03.pdf',
+      expect.any(Blob),
+      expect.objectContaining({ contentType: 'application/pdf', upsert: true })
+    )
+    expect(upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        employer_id: 'employer-1',
+        employee_id: 'employee-1',
+        contract_id: 'contract-1',
+        period_label: 'Mars 2026',
+        gross_pay: 1500,
+        net_pay: 1125.4,
+        total_hours: 120,
+        pas_rate: 0.05,
+        is_exempt_patronal_ss: true,
+        storage_path: 'employer-1/employee-1/2026/03/bulletin_2026_03.pdf',
+      }),
+      { onConflict: 'employee_id,contract_id,year,month' }
+    )
+  })
+
+  it('remplace un bulletin généré précédemment pour le même mois', async () => {
+    const single = vi.fn().mockResolvedValue({ data: dbRow, error: null })
+    const upsert = vi.fn().mockReturnValue({ select: vi.fn().mockReturnValue({ single }) })
+    mockFrom
+      .mockReturnValueOnce(mockExistingPayslip({ id: 'payslip-3', gross_pay: 1400 }))
+      .mockReturnValueOnce({ upsert })
+    mockStorageFrom.mockReturnValue({ upload: vi.fn().mockResolvedValue({ error: null }) })
+
+    const res = await saveGeneratedPayslip(payslipData, PDF_DATA_URI)
+
+    expect(res.success).toBe(true)
+    expect(upsert).toHaveBeenCalled()
+  })
+
+  it('refuse de remplacer le bulletin officiel déposé pour le mois', async () => {
+    mockFrom.mockReturnValueOnce(mockExistingPayslip({ id: 'payslip-1', gross_pay: null }))
+    const storageUpload = vi.fn()
+    mockStorageFrom.mockReturnValue({ upload: storageUpload })
+
+    const res = await saveGeneratedPayslip(payslipData, PDF_DATA_URI)
+
+    expect(res.success).toBe(false)
+    expect(res.error).toMatch(/bulletin officiel/i)
+    expect(storageUpload).not.toHaveBeenCalled()
+    expect(mockFrom).toHaveBeenCalledTimes(1)
+  })
+
+  it('n\'enregistre rien si l\'archivage du PDF échoue', async () => {
+    mockFrom.mockReturnValueOnce(mockExistingPayslip(null))
+    const storageUpload = vi.fn().mockResolvedValue({ error: { message: 'storage down' } })
+    mockStorageFrom.mockReturnValue({ upload: storageUpload })
+
+    const res = await saveGeneratedPayslip(payslipData, PDF_DATA_URI)
+
+    expect(res.success).toBe(false)
+    expect(res.error).toMatch(/archivage/i)
+    expect(mockFrom).toHaveBeenCalledTimes(1)
+  })
+
+  it('remonte une erreur si l\'enregistrement en base échoue', async () => {
+    const payslipMock = mockPayslipUpsert(null, { message: 'db down' })
+    mockFrom
+      .mockReturnValueOnce(mockExistingPayslip(null))
+      .mockImplementation(payslipMock.from)
+    mockStorageFrom.mockReturnValue({ upload: vi.fn().mockResolvedValue({ error: null }) })
+
+    const res = await saveGeneratedPayslip(payslipData, PDF_DATA_URI)
+
+    expect(res.success).toBe(false)
+    expect(res.error).toMatch(/enregistrement/i)
+  })
+})
@@ -6,13 +6,18 @@
  *  - Sauvegarde de l'enregistrement en DB (table payslips)
  *  - Récupération de l'historique
  *  - Génération d'URL signées pour le téléchargement
+ *
+ * Deux sources de bulletins : le bulletin officiel URSSAF uploadé par
+ * l'employeur, et le bulletin généré par l'app (`saveGeneratedPayslip`).
  */
 
 import { supabase } from '@/lib/supabase/client'
 import { logger } from '@/lib/logger'
 import { sanitizeFileName } from '@/lib/sanitize'
+import { dataUriToBlob } from '@/lib/dataUri'
 import type { Payslip } from '@/types'
 import type { PayslipDbRow } from '@/types/database'
+import type { PayslipData } from '@/lib/export/types'
 
 // ─── Bucket ──────────────────────────────────────────────────────────────────
 const BUCKET = 'payslips'
@@ -293,3 +298,93 @@ export async function uploadExternalPayslip(
 
   return { success: true, payslip: mapFromDb(data as PayslipDbRow) }
 }
+
+// ─── Bulletin généré par l'app ────────────────────────────────────────────────
+
+export interface SaveGeneratedPayslipResult {
+  success: boolean
+  payslip?: Payslip
+  error?: string
+}
+
+/**
+ * Archive un bulletin généré (PDF en data URI) et enregistre la ligne en DB
+ * avec ses montants clés (brut, net à payer, heures, taux PAS, exonération).
+ *
+ * Même clé d'upsert que l'upload externe : régénérer un mois, ou uploader
+ * ensuite le bulletin officiel, remplace le bulletin généré. Un bulletin
+ * officiel déjà déposé (montants non renseignés) n'est en revanche jamais
+ * remplacé : la sauvegarde est refusée.
+ */
+export async function saveGeneratedPayslip(
+  data: PayslipData,
+  pdfDataUri: string
+): Promise<SaveGeneratedPayslipResult> {
+  const { employerId, year, month, employee, cotisations } = data
+  const monthStr = String(month).padStart(2, '0')
+  const path = `${employerId}/${employee.employeeId}/${year}/${monthStr}/bulletin_${year}_${monthStr}.pdf`
+
+  const { data: existing, error: existingError } = await supabase
+    .from('payslips')
+    .select('id, gross_pay')
+    .eq('employee_id', employee.employeeId)
+    .eq('contract_id', employee.contractId)
+    .eq('year', year)
+    .eq('month', month)
+    .maybeSingle()
+
+  if (existingError) {
+    logger.error('Erreur vérification bulletin existant:', existingError)
+    return { success: false, error: 'Impossible de vérifier les bulletins existants.' }
+  }
+
+  if (existing && (existing as Pick<PayslipDbRow, 'gross_pay'>).gross_pay === null) {
+    return {
+      success: false,
+      error: 'Le bulletin officiel de ce mois a déjà été déposé. Supprimez-le pour générer un bulletin.',
+    }
+  }
+
+  const { error: uploadError } = await supabase.storage
+    .from(BUCKET)
+    .upload(path, dataUriToBlob(pdfDataUri), {
+      contentType: 'application/pdf',
+      upsert: true,
+    })
+
+  if (uploadError) {
+    logger.error('Erreur upload bulletin généré:', uploadError)
+    return { success: false, error: 'Échec de l\'archivage du PDF.' }
+  }
+
+  const { data: row, error } = await supabase
+    .from('payslips')
+    .upsert(
+      {
+        employer_id: employerId,
+        employee_id: employee.employeeId,
+        contract_id: employee.contractId,
+        year,
+        month,
+        period_label: data.periodLabel,
+        gross_pay: cotisations.grossPay,
+        net_pay: cotisations.netAPayer,
+        total_hours: employee.totalHours,
+        pas_rate: cotisations.pasRate,
+        is_exempt_patronal_ss: cotisations.isExemptPatronalSS,
+        storage_path: path,
+        storage_url: null,
+        generated_at: data.generatedAt.toISOString(),
+      },
+      { onConflict: 'employee_id,contract_id,year,month' }
+    )
+    .select()
+    .single()
+
+  if (error || !row) {
+    logger.error('Erreur sauvegarde bulletin généré:', error)
+    return { success: false, error: 'Échec de l\'enregistrement du bulletin.' }
+  }
+
+  return { success: true, payslip: mapFromDb(row as PayslipDbRow) }
+}
@@ -6,6 +6,7 @@ import {
   deleteAvatar,
   getEmployer,
   upsertEmployer,
+  updateEmployerCoverageWindows,
   getEmployee,
   upsertEmployee,
   getProfileById,
@@ -470,6 +471,24 @@ describe('profileService', () => {
     })
   })
 
+  describe('updateEmployerCoverageWindows', () => {
+    it('devrait mettre à jour uniquement les créneaux de couverture', async () => {
+      const windows = [{ dayOfWeek: 1, startTime: '21:00', endTime: '07:00', shiftType: 'presence_night' as const }]
+
+      await updateEmployerCoverageWindows('profile-123', windows)
+
+      expect(mockUpdate).toHaveBeenCalledWith({ coverage_windows: windows })
+      expect(mockEq).toHaveBeenCalledWith('profile_id', 'profile-123')
+      expect(mockUpsert).not.toHaveBeenCalled()
+    })
+
+    it('devrait lancer une erreur si la mise à jour échoue', async () => {
+      mockEq.mockResolvedValue({ error: { message: 'Update failed' } })
+
+      await expect(updateEmployerCoverageWindows('profile-123', [])).rejects.toThrow('Update failed')
+    })
+  })
+
   describe('getEmployee', () => {
     it('devrait récupérer les données employé', async () => {
       const mockEmployeeData = {
@@ -3,7 +3,7 @@ import { resolveAvatarUrl } from '@/lib/supabase/avatars'
 import { logger } from '@/lib/logger'
 import { sanitizeText, sanitizeFileExtension } from '@/lib/sanitize'
 import { logAudit } from '@/services/auditService'
-import type { Profile, Employer, Employee, PchType } from '@/types'
+import type { Profile, Employer, Employee, PchType, CoverageWindow } from '@/types'
 import type { ProfileDbRow } from '@/types/database'
 import { mapProfileFromDb } from '@/lib/mappers'
 
@@ -238,7 +238,7 @@ export async function getEmployer(profileId: string): Promise<Employer | null> {
   // Données générales (accessibles aux employés/aidants via RLS)
   const { data, error } = await supabase
     .from('employers')
-    .select('profile_id, address, cesu_number, pch_beneficiary, pch_monthly_amount, pch_type, pch_monthly_hours, emergency_contacts')
+    .select('profile_id, address, cesu_number, pch_beneficiary, pch_monthly_amount, pch_type, pch_monthly_hours, coverage_windows, emergency_contacts')
     .eq('profile_id', profileId)
     .maybeSingle()
 
@@ -277,6 +277,7 @@ export async function getEmployer(profileId: string): Promise<Employer | null> {
     pchMonthlyAmount: data.pch_monthly_amount || undefined,
     pchType: (data.pch_type as PchType) || undefined,
     pchMonthlyHours: data.pch_monthly_hours || undefined,
+    coverageWindows: (data.coverage_windows || []) as Employer['coverageWindows'],
     emergencyContacts: (data.emergency_contacts || []) as Employer['emergencyContacts'],
   }
 }
@@ -346,6 +347,25 @@ export async function upsertEmployer(profileId: string, data: Partial<Employer>)
   }
 }
 
+/**
+ * Enregistre les créneaux à couvrir chaque semaine (génération du planning).
+ * Mise à jour ciblée : `upsertEmployer` réécrit l'ensemble du profil.
+ */
+export async function updateEmployerCoverageWindows(
+  profileId: string,
+  coverageWindows: CoverageWindow[]
+): Promise<void> {
+  const { error } = await supabase
+    .from('employers')
+    .update({ coverage_windows: coverageWindows })
+    .eq('profile_id', profileId)
+
+  if (error) {
+    logger.error('Erreur mise à jour créneaux de couverture:', error)
+    throw new Error(error.message)
+  }
+}
+
 // ============================================
 // EMPLOYEE (profil auxiliaire)
 // ============================================
@@ -0,0 +1,59 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { loadRegulatoryParameters } from './regulatoryParametersService'
+import {
+  getParameter,
+  resetParameterRegistry,
+  COTISATION_RATES_2025,
+  PCH_TARIFFS_2026,
+} from '@/lib/regulatory/parameters'
+import { logger } from '@/lib/logger'
+import { createMockSupabaseChain } from '@/test/fixtures'
+
+const mockFrom = vi.fn()
+
+vi.mock('@/lib/supabase/client', () => ({
+  supabase: {
+    from: (...args: unknown[]) => mockFrom(...args),
+  },
+}))
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn(), debug: vi.fn() },
+}))
+
+const row = (key: string, value: unknown) => ({
+  id: `${key}-2027`,
+  key,
+  effective_from: '2027-01-01',
+  value,
+  source: null,
+  created_at: '2026-12-15T00:00:00Z',
+})
+
+afterEach(() => {
+  resetParameterRegistry()
+})
+
+describe('loadRegulatoryParameters', () => {
+  it('enregistre les versions valides et ignore celles dont la valeur est mal formée', async () => {
+    mockFrom.mockReturnValue(createMockSupabaseChain({
+      data: [
+        row('pass_monthly', 4_100),
+        row('smic_monthly', '1900'),
+        row('pch_tariffs', { emploiDirect: 20.5 }),
+        row('cotisation_rates', { ...COTISATION_RATES_2025, crds: 0.006 }),
+      ],
+      error: null,
+    }).fromReturn)
+
+    await loadRegulatoryParameters()
+
+    expect(getParameter('passMonthly', '2027-02-01')).toBe(4_100)
+    expect(getParameter('cotisationRates', '2027-02-01').crds).toBe(0.006)
+    // Versions intégrées conservées pour les lignes invalides
+    expect(getParameter('smicMonthly', '2027-02-01')).toBe(1_801.80)
+    expect(getParameter('pchTariffs', '2027-02-01')).toEqual(PCH_TARIFFS_2026)
+    expect(logger.warn).toHaveBeenCalledTimes(2)
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('smic_monthly'), '1900')
+  })
+})
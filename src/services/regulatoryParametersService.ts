@@ -0,0 +1,91 @@
+/**
+ * Chargement des paramètres réglementaires datés publiés en base.
+ * Table : regulatory_parameters (lecture seule côté client).
+ *
+ * Les lignes sont fusionnées dans le registre `lib/regulatory/parameters`,
+ * qui reste utilisable (versions intégrées) si le chargement échoue. Une ligne
+ * dont la valeur JSONB n'a pas la forme attendue pour sa clé est ignorée.
+ */
+
+import { supabase } from '@/lib/supabase/client'
+import { logger } from '@/lib/logger'
+import {
+  registerParameterVersions,
+  COTISATION_RATES_2025,
+  PCH_TARIFFS_2025,
+  type ParameterVersion,
+  type RegulatoryParameterKey,
+} from '@/lib/regulatory/parameters'
+import type { RegulatoryParameterDbKey, RegulatoryParameterDbRow } from '@/types/database'
+
+const KEY_FROM_DB: Record<RegulatoryParameterDbKey, RegulatoryParameterKey> = {
+  pass_monthly: 'passMonthly',
+  smic_monthly: 'smicMonthly',
+  pch_tariffs: 'pchTariffs',
+  cotisation_rates: 'cotisationRates',
+}
+
+function isAmount(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0
+}
+
+/** Objet portant un montant pour chaque clé de la version intégrée `reference` */
+function hasAmounts(value: unknown, reference: object): boolean {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false
+  return Object.keys(reference).every((k) => isAmount((value as Record<string, unknown>)[k]))
+}
+
+const VALUE_VALIDATORS: Record<RegulatoryParameterKey, (value: unknown) => boolean> = {
+  passMonthly: (value) => isAmount(value) && value > 0,
+  smicMonthly: (value) => isAmount(value) && value > 0,
+  pchTariffs: (value) => hasAmounts(value, PCH_TARIFFS_2025),
+  cotisationRates: (value) => hasAmounts(value, COTISATION_RATES_2025),
+}
+
+function mapFromDb(row: RegulatoryParameterDbRow): ParameterVersion | null {
+  const key = KEY_FROM_DB[row.key]
+  if (!key) return null
+  if (!VALUE_VALIDATORS[key](row.value)) {
+    logger.warn(`Paramètre réglementaire ${row.key} du ${row.effective_from} ignoré : valeur invalide`, row.value)
+    return null
+  }
+  return {
+    key,
+    effectiveFrom: row.effective_from,
+    value: row.value as ParameterVersion['value'],
+    source: row.source ?? undefined,
+  } as ParameterVersion
+}
+
+let loadPromise: Promise<void> | null = null
+
+/**
+ * Charge (une seule fois par session) les versions publiées en base
+ * et les enregistre dans le registre réglementaire.
+ */
+export function loadRegulatoryParameters(): Promise<void> {
+  if (!loadPromise) {
+    loadPromise = fetchAndRegister().catch((err) => {
+      logger.error('Erreur chargement paramètres réglementaires:', err)
+      loadPromise = null
+    })
+  }
+  return loadPromise
+}
+
+async function fetchAndRegister(): Promise<void> {
+  const { data, error } = await supabase
+    .from('regulatory_parameters')
+    .select('id, key, effective_from, value, source, created_at')
+    .order('effective_from', { ascending: true })
+
+  if (error) {
+    throw error
+  }
+
+  const versions = ((data || []) as RegulatoryParameterDbRow[])
+    .map(mapFromDb)
+    .filter((v): v is ParameterVersion => v !== null)
+
+  registerParameterVersions(versions)
+}
@@ -0,0 +1,224 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { getAbsenceCoverage, reassignShift } from './replacementService'
+import { TIMESHEET_LOCKED_MESSAGE } from './timesheetService'
+import { createMockSupabaseChain } from '@/test/fixtures'
+import type { Shift } from '@/types'
+
+// ============================================================
+// MOCKS
+// ============================================================
+
+const mockFrom = vi.fn()
+const mockGetShifts = vi.fn()
+const mockGetAbsencesForEmployer = vi.fn()
+const mockAssignedNotification = vi.fn()
+const mockCoveredNotification = vi.fn()
+const mockGetContractById = vi.fn()
+const mockGetContractAmendments = vi.fn()
+const mockGetConventionSettings = vi.fn()
+
+vi.mock('@/lib/supabase/client', () => ({
+  supabase: {
+    from: (...args: unknown[]) => mockFrom(...args),
+  },
+}))
+
+vi.mock('@/services/shiftService', () => ({
+  getShifts: (...args: unknown[]) => mockGetShifts(...args),
+}))
+
+vi.mock('@/services/absenceService', () => ({
+  getAbsencesForEmployer: (...args: unknown[]) => mockGetAbsencesForEmployer(...args),
+}))
+
+vi.mock('@/services/contractService', () => ({
+  getContractById: (...args: unknown[]) => mockGetContractById(...args),
+}))
+
+vi.mock('@/services/contractAmendmentService', () => ({
+  getContractAmendments: (...args: unknown[]) => mockGetContractAmendments(...args),
+}))
+
+vi.mock('@/services/conventionSettingsService', () => ({
+  getConventionSettings: (...args: unknown[]) => mockGetConventionSettings(...args),
+}))
+
+vi.mock('@/services/notificationService', () => ({
+  createReplacementAssignedNotification: (...args: unknown[]) => mockAssignedNotification(...args),
+  createShiftCoveredNotification: (...args: unknown[]) => mockCoveredNotification(...args),
+}))
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn(), debug: vi.fn() },
+}))
+
+// Dans une semaine : l'absence est à venir
+const inAWeek = new Date()
+inAWeek.setDate(inAWeek.getDate() + 7)
+inAWeek.setHours(0, 0, 0, 0)
+
+function makeShift(overrides: Partial<Shift> = {}): Shift {
+  return {
+    id: 'shift-1',
+    contractId: 'contract-absent',
+    employeeId: 'absent',
+    employeeName: 'Marie Curie',
+    date: inAWeek,
+    startTime: '09:00',
+    endTime: '12:00',
+    breakDuration: 0,
+    tasks: [],
+    shiftType: 'effective',
+    isRequalified: false,
+    status: 'cancelled',
+    computedPay: {
+      basePay: 0, sundayMajoration: 0, holidayMajoration: 0,
+      nightMajoration: 0, overtimeMajoration: 0, presenceResponsiblePay: 0,
+      nightPresenceAllowance: 0, totalPay: 0,
+    },
+    validatedByEmployer: false,
+    validatedByEmployee: false,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  }
+}
+
+const allDays = [{ startTime: '08:00', endTime: '18:00' }]
+const availableEverywhere = {
+  monday: allDays, tuesday: allDays, wednesday: allDays, thursday: allDays,
+  friday: allDays, saturday: allDays, sunday: allDays,
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  mockGetAbsencesForEmployer.mockResolvedValue([])
+})
+
+// ============================================================
+// COUVERTURE
+// ============================================================
+
+describe('getAbsenceCoverage', () => {
+  const absence = { employeeId: 'absent', startDate: inAWeek, endDate: inAWeek }
+
+  it('liste les interventions annulées avec les remplaçants classés', async () => {
+    mockGetShifts.mockResolvedValue([
+      makeShift(),
+      // Paul travaille déjà sur le créneau
+      makeShift({ id: 'shift-paul', contractId: 'contract-paul', employeeId: 'paul', status: 'planned', startTime: '10:00', endTime: '14:00' }),
+    ])
+    mockFrom.mockReturnValue(createMockSupabaseChain({
+      data: [
+        {
+          id: 'contract-paul',
+          employee_id: 'paul',
+          employee_profile: { availability_template: availableEverywhere, profile: { first_name: 'Paul', last_name: 'Martin' } },
+        },
+        {
+          id: 'contract-lea',
+          employee_id: 'lea',
+          employee_profile: { availability_template: availableEverywhere, profile: { first_name: 'Léa', last_name: 'Roux' } },
+        },
+      ],
+      error: null,
+    }).fromReturn)
+
+    const coverage = await getAbsenceCoverage(absence, 'employer-1')
+
+    expect(mockGetShifts).toHaveBeenCalledWith('employer-1', 'employer', expect.any(Date), expect.any(Date))
+    expect(coverage).toHaveLength(1)
+    expect(coverage[0].shift.id).toBe('shift-1')
+    expect(coverage[0].candidates.map((c) => c.name)).toEqual(['Léa Roux', 'Paul Martin'])
+    expect(coverage[0].candidates[0]).toMatchObject({ availability: 'full', compliance: { valid: true } })
+    expect(coverage[0].candidates[1].compliance.valid).toBe(false)
+  })
+
+  it('ignore les interventions hors de la période d\'absence', async () => {
+    const later = new Date(inAWeek)
+    later.setDate(later.getDate() + 3)
+    mockGetShifts.mockResolvedValue([makeShift({ date: later })])
+    mockFrom.mockReturnValue(createMockSupabaseChain({ data: [], error: null }).fromReturn)
+
+    expect(await getAbsenceCoverage(absence, 'employer-1')).toEqual([])
+  })
+})
+
+// ============================================================
+// RÉATTRIBUTION
+// ============================================================
+
+describe('reassignShift', () => {
+  const replacement = { contractId: 'contract-lea', employeeId: 'lea', name: 'Léa Roux' }
+
+  beforeEach(() => {
+    mockGetContractById.mockResolvedValue({
+      id: 'contract-lea', employerId: 'employer-1', weeklyHours: 35, hourlyRate: 15,
+    })
+    mockGetContractAmendments.mockResolvedValue([])
+    mockGetConventionSettings.mockResolvedValue(null)
+    mockGetShifts.mockResolvedValue([])
+  })
+
+  it('recalcule la paie au taux du remplaçant', async () => {
+    const query = createMockSupabaseChain({ data: null, error: null })
+    mockFrom.mockReturnValue(query.fromReturn)
+
+    // Payée 3 h × 12 € sur le contrat de l'auxiliaire absente
+    await reassignShift(makeShift({
+      computedPay: { ...makeShift().computedPay, basePay: 36, totalPay: 36 },
+    }), replacement)
+
+    expect(mockGetConventionSettings).toHaveBeenCalledWith('employer-1')
+    expect(mockGetShifts).toHaveBeenCalledWith('lea', 'employee', expect.any(Date), expect.any(Date))
+    expect(query.update).toHaveBeenCalledWith(expect.objectContaining({
+      computed_pay: expect.objectContaining({ basePay: 45 }),
+    }))
+  })
+
+  it('applique l\'avenant du remplaçant en vigueur à la date', async () => {
+    mockGetContractAmendments.mockResolvedValue([
+      { effectiveDate: new Date(2000, 0, 1), weeklyHours: 35, hourlyRate: 16, pasRate: 0 },
+    ])
+    const query = createMockSupabaseChain({ data: null, error: null })
+    mockFrom.mockReturnValue(query.fromReturn)
+
+    await reassignShift(makeShift(), replacement)
+
+    expect(query.update).toHaveBeenCalledWith(expect.objectContaining({
+      computed_pay: expect.objectContaining({ basePay: 48 }),
+    }))
+  })
+
+  it('marque l\'occurrence d\'une série comme exception', async () => {
+    const query = createMockSupabaseChain({ data: null, error: null })
+    mockFrom.mockReturnValue(query.fromReturn)
+
+    await reassignShift(makeShift({ seriesId: 'series-1' }), replacement)
+
+    expect(query.update).toHaveBeenCalledWith(expect.objectContaining({ is_series_exception: true }))
+  })
+
+  it('replanifie l\'intervention sur le contrat du remplaçant et notifie les deux auxiliaires', async () => {
+    const query = createMockSupabaseChain({ data: null, error: null })
+    mockFrom.mockReturnValue(query.fromReturn)
+
+    await reassignShift(makeShift(), replacement)
+
+    expect(mockFrom).toHaveBeenCalledWith('shifts')
+    expect(query.update).toHaveBeenCalledWith(expect.objectContaining({
+      contract_id: 'contract-lea',
+      status: 'planned',
+    }))
+    expect(query.eq).toHaveBeenCalledWith('id', 'shift-1')
+    expect(mockAssignedNotification).toHaveBeenCalledWith('lea', inAWeek, '09:00', 'Marie Curie')
+    expect(mockCoveredNotification).toHaveBeenCalledWith('absent', inAWeek, '09:00', 'Léa Roux')
+  })
+
+  it('traduit le verrouillage du relevé d\'heures', async () => {
+    mockFrom.mockReturnValue(createMockSupabaseChain({ data: null, error: { message: 'timesheet_locked' } }).fromReturn)
+
+    await expect(reassignShift(makeShift(), replacement)).rejects.toThrow(TIMESHEET_LOCKED_MESSAGE)
+    expect(mockAssignedNotification).not.toHaveBeenCalled()
+  })
+})
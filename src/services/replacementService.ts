@@ -0,0 +1,273 @@
+/**
+ * Couverture des interventions d'une absence approuvée.
+ *
+ * À l'approbation, les interventions planifiées de l'auxiliaire absent sont
+ * annulées (`updateAbsenceStatus`). Ce service les liste avec, pour chacune,
+ * les autres auxiliaires sous contrat classés par disponibilité et conformité,
+ * puis réattribue l'intervention au remplaçant choisi, payée à ses conditions.
+ */
+
+import { supabase } from '@/lib/supabase/client'
+import { logger } from '@/lib/logger'
+import {
+  rankReplacementCandidates,
+  type ReplacementCandidate,
+  type ReplacementCandidateInput,
+} from '@/lib/shifts/replacement'
+import {
+  calculateShiftPay,
+  getPayRateSet,
+  getWeekStart,
+  type ShiftForValidation,
+  type AbsenceForValidation,
+} from '@/lib/compliance'
+import { getShifts } from '@/services/shiftService'
+import { getAbsencesForEmployer } from '@/services/absenceService'
+import { getContractById } from '@/services/contractService'
+import { getContractAmendments } from '@/services/contractAmendmentService'
+import { getConventionSettings } from '@/services/conventionSettingsService'
+import {
+  createReplacementAssignedNotification,
+  createShiftCoveredNotification,
+} from '@/services/notificationService'
+import { isTimesheetLockedError, TIMESHEET_LOCKED_MESSAGE } from '@/services/timesheetService'
+import type { Absence, AvailabilityTemplate, ComputedPay, Shift } from '@/types'
+
+export interface ShiftCoverage {
+  shift: Shift
+  /** Remplaçants classés : conformes et disponibles en tête */
+  candidates: ReplacementCandidate[]
+}
+
+type CandidateContractRow = {
+  id: string
+  employee_id: string
+  employee_profile: {
+    availability_template: AvailabilityTemplate | null
+    profile: { first_name: string | null; last_name: string | null } | null
+  } | null
+}
+
+/** Fenêtre autour de l'absence couvrant toutes les règles IDCC 3239 (cf. useShiftValidationData) */
+const VALIDATION_WINDOW_DAYS = 28
+
+function toDateKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+}
+
+async function getCandidateContracts(
+  employerId: string,
+  absentEmployeeId: string
+): Promise<ReplacementCandidateInput[]> {
+  const { data, error } = await supabase
+    .from('contracts')
+    .select(`
+      id,
+      employee_id,
+      employee_profile:employees!employee_id(
+        availability_template,
+        profile:profiles!profile_id(
+          first_name,
+          last_name
+        )
+      )
+    `)
+    .eq('employer_id', employerId)
+    .eq('contract_category', 'employment')
+    .eq('status', 'active')
+    .neq('employee_id', absentEmployeeId)
+
+  if (error) {
+    logger.error('Erreur récupération remplaçants:', error)
+    return []
+  }
+
+  return ((data || []) as unknown as CandidateContractRow[]).map((row) => {
+    const profile = row.employee_profile?.profile
+    return {
+      contractId: row.id,
+      employeeId: row.employee_id,
+      name: profile ? `${profile.first_name || ''} ${profile.last_name || ''}`.trim() : 'Auxiliaire',
+      availabilityTemplate: row.employee_profile?.availability_template ?? undefined,
+    }
+  })
+}
+
+/**
+ * Interventions à couvrir pendant une absence approuvée (à partir d'aujourd'hui),
+ * avec les remplaçants possibles.
+ */
+export async function getAbsenceCoverage(
+  absence: Pick<Absence, 'employeeId' | 'startDate' | 'endDate'>,
+  employerId: string
+): Promise<ShiftCoverage[]> {
+  const windowStart = new Date(absence.startDate)
+  windowStart.setDate(windowStart.getDate() - VALIDATION_WINDOW_DAYS)
+  const windowEnd = new Date(absence.endDate)
+  windowEnd.setDate(windowEnd.getDate() + VALIDATION_WINDOW_DAYS)
+
+  const [shifts, absences, candidates] = await Promise.all([
+    getShifts(employerId, 'employer', windowStart, windowEnd),
+    getAbsencesForEmployer(employerId),
+    getCandidateContracts(employerId, absence.employeeId),
+  ])
+
+  const firstDay = toDateKey(new Date(Math.max(new Date(absence.startDate).getTime(), Date.now())))
+  const lastDay = toDateKey(new Date(absence.endDate))
+
+  const affected = shifts
+    .filter((s) =>
+      s.employeeId === absence.employeeId &&
+      (s.status === 'planned' || s.status === 'cancelled') &&
+      toDateKey(new Date(s.date)) >= firstDay &&
+      toDateKey(new Date(s.date)) <= lastDay
+    )
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime() || a.startTime.localeCompare(b.startTime))
+
+  if (affected.length === 0) return []
+
+  const existingShifts: ShiftForValidation[] = shifts
+    .filter((s) => s.status !== 'cancelled')
+    .map((s) => ({
+      id: s.id,
+      contractId: s.contractId,
+      employeeId: s.employeeId ?? '',
+      date: new Date(s.date),
+      startTime: s.startTime,
+      endTime: s.endTime,
+      breakDuration: s.breakDuration,
+      shiftType: s.shiftType,
+      guardSegments: s.guardSegments,
+    }))
+
+  const approvedAbsences: AbsenceForValidation[] = absences
+    .filter((a) => a.status === 'approved')
+    .map((a) => ({
+      id: a.id,
+      employeeId: a.employeeId,
+      absenceType: a.absenceType,
+      startDate: new Date(a.startDate),
+      endDate: new Date(a.endDate),
+      status: a.status,
+    }))
+
+  return affected.map((shift) => ({
+    shift,
+    candidates: rankReplacementCandidates(
+      {
+        id: shift.id,
+        date: new Date(shift.date),
+        startTime: shift.startTime,
+        endTime: shift.endTime,
+        breakDuration: shift.breakDuration,
+        shiftType: shift.shiftType,
+        guardSegments: shift.guardSegments,
+      },
+      candidates,
+      existingShifts,
+      approvedAbsences
+    ),
+  }))
+}
+
+/**
+ * Paie de l'intervention aux conditions du remplaçant : contrat et avenants
+ * en vigueur à la date, barème de l'employeur, heures déjà planifiées sur
+ * sa semaine.
+ */
+async function computeReplacementPay(
+  shift: Shift,
+  replacement: Pick<ReplacementCandidate, 'contractId' | 'employeeId'>
+): Promise<ComputedPay> {
+  const contract = await getContractById(replacement.contractId)
+  if (!contract) {
+    throw new Error('Contrat du remplaçant introuvable')
+  }
+
+  const shiftDate = new Date(shift.date)
+  const weekStart = getWeekStart(shiftDate)
+  const weekEnd = new Date(weekStart)
+  weekEnd.setDate(weekEnd.getDate() + 6)
+
+  const [settings, amendments, weekShifts] = await Promise.all([
+    getConventionSettings(contract.employerId),
+    getContractAmendments(contract.id),
+    getShifts(replacement.employeeId, 'employee', weekStart, weekEnd),
+  ])
+
+  const toShiftForValidation = (s: Shift): ShiftForValidation => ({
+    id: s.id,
+    contractId: replacement.contractId,
+    employeeId: replacement.employeeId,
+    date: new Date(s.date),
+    startTime: s.startTime,
+    endTime: s.endTime,
+    breakDuration: s.breakDuration,
+    shiftType: s.shiftType,
+    hasNightAction: s.hasNightAction,
+    guardSegments: s.guardSegments,
+  })
+
+  return calculateShiftPay(
+    toShiftForValidation(shift),
+    {
+      id: contract.id,
+      weeklyHours: contract.weeklyHours,
+      hourlyRate: contract.hourlyRate,
+      termsHistory: amendments,
+    },
+    weekShifts
+      .filter((s) => s.contractId === replacement.contractId && s.status !== 'cancelled' && s.id !== shift.id)
+      .map(toShiftForValidation),
+    false,
+    getPayRateSet(settings)
+  )
+}
+
+/**
+ * Réattribue l'intervention au remplaçant : elle passe sur son contrat,
+ * redevient planifiée et sa paie est recalculée à ses conditions. Issue d'une
+ * série, elle en devient une exception (conservée à la régénération).
+ * L'auxiliaire absent et le remplaçant sont notifiés.
+ */
+export async function reassignShift(
+  shift: Shift,
+  replacement: Pick<ReplacementCandidate, 'contractId' | 'employeeId' | 'name'>
+): Promise<void> {
+  const computedPay = await computeReplacementPay(shift, replacement)
+
+  const { error } = await supabase
+    .from('shifts')
+    .update({
+      contract_id: replacement.contractId,
+      computed_pay: computedPay,
+      ...(shift.seriesId && { is_series_exception: true }),
+      status: 'planned',
+      validated_by_employer: false,
+      validated_by_employee: false,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', shift.id)
+
+  if (error) {
+    logger.error('Erreur réattribution intervention:', error)
+    throw new Error(isTimesheetLockedError(error.message) ? TIMESHEET_LOCKED_MESSAGE : error.message)
+  }
+
+  const shiftDate = new Date(shift.date)
+  const startTime = shift.startTime.slice(0, 5)
+
+  try {
+    await createReplacementAssignedNotification(
+      replacement.employeeId,
+      shiftDate,
+      startTime,
+      shift.employeeName || 'un auxiliaire absent'
+    )
+    if (shift.employeeId) {
+      await createShiftCoveredNotification(shift.employeeId, shiftDate, startTime, replacement.name)
+    }
+  } catch (err) {
+    logger.error('Erreur notification remplacement:', err)
+  }
+}
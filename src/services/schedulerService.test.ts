@@ -0,0 +1,203 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { previewWeekSchedule, commitWeekSchedule } from './schedulerService'
+import { createMockSupabaseChain } from '@/test/fixtures'
+import type { ProposedShift } from '@/lib/shifts/weekScheduler'
+import type { CoverageWindow, Shift } from '@/types'
+
+// ============================================================
+// MOCKS
+// ============================================================
+
+const mockFrom = vi.fn()
+const mockGetShifts = vi.fn()
+const mockCreateShifts = vi.fn()
+const mockGetAbsencesForEmployer = vi.fn()
+const mockGetEmployer = vi.fn()
+const mockGetContractAmendments = vi.fn()
+const mockGetConventionSettings = vi.fn()
+const mockLoadRegulatoryParameters = vi.fn()
+
+vi.mock('@/lib/supabase/client', () => ({
+  supabase: {
+    from: (...args: unknown[]) => mockFrom(...args),
+  },
+}))
+
+vi.mock('@/services/shiftService', () => ({
+  getShifts: (...args: unknown[]) => mockGetShifts(...args),
+  createShifts: (...args: unknown[]) => mockCreateShifts(...args),
+}))
+
+vi.mock('@/services/absenceService', () => ({
+  getAbsencesForEmployer: (...args: unknown[]) => mockGetAbsencesForEmployer(...args),
+}))
+
+vi.mock('@/services/profileService', () => ({
+  getEmployer: (...args: unknown[]) => mockGetEmployer(...args),
+}))
+
+vi.mock('@/services/contractAmendmentService', () => ({
+  getContractAmendments: (...args: unknown[]) => mockGetContractAmendments(...args),
+}))
+
+vi.mock('@/services/conventionSettingsService', () => ({
+  getConventionSettings: (...args: unknown[]) => mockGetConventionSettings(...args),
+}))
+
+vi.mock('@/services/regulatoryParametersService', () => ({
+  loadRegulatoryParameters: (...args: unknown[]) => mockLoadRegulatoryParameters(...args),
+}))
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn(), debug: vi.fn() },
+}))
+
+// Lundi 9 mars 2026
+const MONDAY = new Date(2026, 2, 9)
+
+const allDay = [{ startTime: '00:00', endTime: '00:00' }]
+const alwaysAvailable = {
+  monday: allDay, tuesday: allDay, wednesday: allDay, thursday: allDay,
+  friday: allDay, saturday: allDay, sunday: allDay,
+}
+
+const contractRow = {
+  id: 'contract-marie',
+  employee_id: 'marie',
+  weekly_hours: 35,
+  hourly_rate: 14,
+  employee_profile: { availability_template: alwaysAvailable, profile: { first_name: 'Marie', last_name: 'Curie' } },
+}
+
+const morning: CoverageWindow = { dayOfWeek: 2, startTime: '08:00', endTime: '12:00', shiftType: 'effective' }
+
+function makeShift(overrides: Partial<Shift> = {}): Shift {
+  return {
+    id: 'shift-1',
+    contractId: 'contract-marie',
+    employeeId: 'marie',
+    date: new Date(2026, 2, 2),
+    startTime: '08:00',
+    endTime: '18:00',
+    breakDuration: 0,
+    tasks: [],
+    shiftType: 'effective',
+    isRequalified: false,
+    status: 'planned',
+    computedPay: {
+      basePay: 0, sundayMajoration: 0, holidayMajoration: 0,
+      nightMajoration: 0, overtimeMajoration: 0, presenceResponsiblePay: 0,
+      nightPresenceAllowance: 0, totalPay: 0,
+    },
+    validatedByEmployer: false,
+    validatedByEmployee: false,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  }
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  mockGetShifts.mockResolvedValue([])
+  mockGetAbsencesForEmployer.mockResolvedValue([])
+  mockGetEmployer.mockResolvedValue(null)
+  mockGetContractAmendments.mockResolvedValue([])
+  mockGetConventionSettings.mockResolvedValue(null)
+  mockLoadRegulatoryParameters.mockResolvedValue(undefined)
+  mockFrom.mockReturnValue(createMockSupabaseChain({ data: [contractRow], error: null }).fromReturn)
+})
+
+// ============================================================
+// PROPOSITION
+// ============================================================
+
+describe('previewWeekSchedule', () => {
+  it('propose la semaine à partir des contrats et disponibilités', async () => {
+    const preview = await previewWeekSchedule('employer-1', MONDAY, [morning])
+
+    expect(mockFrom).toHaveBeenCalledWith('contracts')
+    expect(mockGetShifts).toHaveBeenCalledWith('employer-1', 'employer', expect.any(Date), expect.any(Date))
+    expect(preview.shifts).toHaveLength(1)
+    expect(preview.shifts[0]).toMatchObject({ contractId: 'contract-marie', employeeName: 'Marie Curie' })
+    expect(preview.envelopes).toBeUndefined()
+    // Paramètres réglementaires chargés avant tout calcul
+    expect(mockLoadRegulatoryParameters.mock.invocationCallOrder[0])
+      .toBeLessThan(mockGetShifts.mock.invocationCallOrder[0])
+  })
+
+  it('rémunère les interventions proposées selon les avenants du contrat', async () => {
+    mockGetContractAmendments.mockResolvedValue([
+      { effectiveDate: new Date(2026, 0, 1), weeklyHours: 35, hourlyRate: 20, pasRate: 0 },
+    ])
+
+    const preview = await previewWeekSchedule('employer-1', MONDAY, [morning])
+
+    expect(mockGetContractAmendments).toHaveBeenCalledWith('contract-marie')
+    expect(mockGetConventionSettings).toHaveBeenCalledWith('employer-1')
+    expect(preview.shifts[0].computedPay.basePay).toBe(80)
+  })
+
+  it('plafonne la dépense du mois à l\'enveloppe PCH', async () => {
+    // 10h/mois en emploi direct : enveloppe d'environ 200 €
+    mockGetEmployer.mockResolvedValue({ pchMonthlyHours: 10, pchType: 'emploiDirect' })
+    // Dépense déjà engagée : 10h × 14 € × 1,42 ≈ 199 €
+    mockGetShifts.mockResolvedValue([makeShift()])
+
+    const preview = await previewWeekSchedule('employer-1', MONDAY, [morning])
+
+    expect(preview.envelopes?.['2026-03']).toBeGreaterThan(0)
+    expect(preview.shifts).toEqual([])
+    expect(preview.uncovered[0].reasons[0].reason).toBe('Enveloppe PCH du mois dépassée')
+  })
+
+  it('calcule l\'enveloppe de chaque mois d\'une semaine à cheval', async () => {
+    mockGetEmployer.mockResolvedValue({ pchMonthlyHours: 10, pchType: 'emploiDirect' })
+
+    // Lundi 30 mars 2026 → dimanche 5 avril
+    const preview = await previewWeekSchedule('employer-1', new Date(2026, 2, 30), [morning])
+
+    expect(Object.keys(preview.envelopes ?? {})).toEqual(['2026-03', '2026-04'])
+  })
+
+  it('ignore les interventions annulées', async () => {
+    mockGetShifts.mockResolvedValue([
+      makeShift({ date: new Date(2026, 2, 10), startTime: '07:00', endTime: '13:00', status: 'cancelled' }),
+    ])
+
+    const preview = await previewWeekSchedule('employer-1', MONDAY, [morning])
+
+    expect(preview.shifts).toHaveLength(1)
+  })
+})
+
+// ============================================================
+// ENREGISTREMENT
+// ============================================================
+
+describe('commitWeekSchedule', () => {
+  it('crée les interventions contrat par contrat', async () => {
+    mockCreateShifts.mockResolvedValueOnce({ created: [{}, {}], failed: [] })
+    mockCreateShifts.mockResolvedValueOnce({ created: [], failed: [new Date(2026, 2, 11)] })
+
+    const base = {
+      employeeId: 'marie', employeeName: 'Marie Curie', startTime: '08:00', endTime: '12:00',
+      breakDuration: 0, shiftType: 'effective' as const, availability: 'full' as const, estimatedCost: 80, warnings: [],
+      computedPay: makeShift().computedPay,
+    }
+    const shifts: ProposedShift[] = [
+      { ...base, contractId: 'contract-marie', date: new Date(2026, 2, 9) },
+      { ...base, contractId: 'contract-paul', employeeId: 'paul', date: new Date(2026, 2, 11) },
+      { ...base, contractId: 'contract-marie', date: new Date(2026, 2, 10) },
+    ]
+
+    const result = await commitWeekSchedule(shifts)
+
+    expect(mockCreateShifts).toHaveBeenCalledTimes(2)
+    expect(mockCreateShifts).toHaveBeenCalledWith('contract-marie', [
+      expect.objectContaining({ date: new Date(2026, 2, 9), startTime: '08:00', shiftType: 'effective', computedPay: base.computedPay }),
+      expect.objectContaining({ date: new Date(2026, 2, 10) }),
+    ])
+    expect(result).toEqual({ created: 2, failed: [new Date(2026, 2, 11)] })
+  })
+})
@@ -0,0 +1,247 @@
+/**
+ * Génération de la semaine de planning à partir des besoins de l'employeur.
+ *
+ * Charge les données du solveur (`generateWeekSchedule`) : auxiliaires sous
+ * contrat, leurs disponibilités et leurs avenants, interventions et absences
+ * approuvées autour de la semaine, enveloppe PCH et dépense déjà engagée sur
+ * chaque mois de la semaine, majorations de la convention de l'employeur.
+ * La proposition n'est enregistrée qu'après validation par l'employeur, avec
+ * la rémunération calculée par le solveur.
+ */
+
+import { startOfMonth, endOfMonth } from 'date-fns'
+import { supabase } from '@/lib/supabase/client'
+import { logger } from '@/lib/logger'
+import {
+  calculateShiftPay,
+  getPayRateSet,
+  type ShiftForValidation,
+  type AbsenceForValidation,
+} from '@/lib/compliance'
+import { PAYROLL_ESTIMATE } from '@/lib/compliance/calculatePay'
+import { calcEnveloppePch } from '@/lib/pch/pchTariffs'
+import {
+  generateWeekSchedule,
+  getWindowDate,
+  type ProposedShift,
+  type SchedulerAuxiliary,
+  type WeekSchedule,
+} from '@/lib/shifts/weekScheduler'
+import { getShifts, createShifts } from '@/services/shiftService'
+import { getAbsencesForEmployer } from '@/services/absenceService'
+import { getContractAmendments } from '@/services/contractAmendmentService'
+import { getConventionSettings } from '@/services/conventionSettingsService'
+import { getEmployer } from '@/services/profileService'
+import { loadRegulatoryParameters } from '@/services/regulatoryParametersService'
+import type { AvailabilityTemplate, CoverageWindow, PayRateSet } from '@/types'
+
+export interface WeekSchedulePreview extends WeekSchedule {
+  /** Enveloppe PCH de chaque mois de la semaine (€, clé `yyyy-MM`), si le plan de compensation est renseigné */
+  envelopes?: Record<string, number>
+}
+
+type AuxiliaryContractRow = {
+  id: string
+  employee_id: string
+  weekly_hours: number
+  hourly_rate: number
+  employee_profile: {
+    availability_template: AvailabilityTemplate | null
+    profile: { first_name: string | null; last_name: string | null } | null
+  } | null
+}
+
+/** Fenêtre autour de la semaine couvrant toutes les règles IDCC 3239 (cf. useShiftValidationData) */
+const VALIDATION_WINDOW_DAYS = 28
+
+function toMonthKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`
+}
+
+async function getAuxiliaries(employerId: string): Promise<SchedulerAuxiliary[]> {
+  const { data, error } = await supabase
+    .from('contracts')
+    .select(`
+      id,
+      employee_id,
+      weekly_hours,
+      hourly_rate,
+      employee_profile:employees!employee_id(
+        availability_template,
+        profile:profiles!profile_id(
+          first_name,
+          last_name
+        )
+      )
+    `)
+    .eq('employer_id', employerId)
+    .eq('contract_category', 'employment')
+    .eq('status', 'active')
+
+  if (error) {
+    logger.error('Erreur récupération auxiliaires pour le planning:', error)
+    return []
+  }
+
+  return ((data || []) as unknown as AuxiliaryContractRow[]).map((row) => {
+    const profile = row.employee_profile?.profile
+    return {
+      contractId: row.id,
+      employeeId: row.employee_id,
+      name: profile ? `${profile.first_name || ''} ${profile.last_name || ''}`.trim() : 'Auxiliaire',
+      weeklyHours: row.weekly_hours,
+      hourlyRate: row.hourly_rate,
+      availabilityTemplate: row.employee_profile?.availability_template ?? undefined,
+    }
+  })
+}
+
+/**
+ * Propose une semaine de planning couvrant les créneaux demandés.
+ * Rien n'est enregistré : voir `commitWeekSchedule`.
+ */
+export async function previewWeekSchedule(
+  employerId: string,
+  weekStart: Date,
+  windows: CoverageWindow[]
+): Promise<WeekSchedulePreview> {
+  const weekEnd = getWindowDate(weekStart, 0)
+
+  // Fenêtre de validation, élargie aux mois de la semaine pour la dépense engagée
+  const rangeStart = new Date(weekStart)
+  rangeStart.setDate(rangeStart.getDate() - VALIDATION_WINDOW_DAYS)
+  const rangeEnd = new Date(weekEnd)
+  rangeEnd.setDate(rangeEnd.getDate() + VALIDATION_WINDOW_DAYS)
+
+  // Revalorisations publiées en base (SMIC, tarifs PCH) avant tout calcul
+  await loadRegulatoryParameters()
+
+  const [shifts, absences, contractAuxiliaries, employer, settings] = await Promise.all([
+    getShifts(
+      employerId,
+      'employer',
+      new Date(Math.min(rangeStart.getTime(), startOfMonth(weekStart).getTime())),
+      new Date(Math.max(rangeEnd.getTime(), endOfMonth(weekEnd).getTime()))
+    ),
+    getAbsencesForEmployer(employerId),
+    getAuxiliaries(employerId),
+    getEmployer(employerId),
+    getConventionSettings(employerId),
+  ])
+  const rateSet = getPayRateSet(settings)
+  const auxiliaries = await Promise.all(
+    contractAuxiliaries.map(async (aux) => ({ ...aux, termsHistory: await getContractAmendments(aux.contractId) }))
+  )
+
+  const existingShifts: ShiftForValidation[] = shifts
+    .filter((s) => s.status !== 'cancelled')
+    .map((s) => ({
+      id: s.id,
+      contractId: s.contractId,
+      employeeId: s.employeeId ?? '',
+      date: new Date(s.date),
+      startTime: s.startTime,
+      endTime: s.endTime,
+      breakDuration: s.breakDuration,
+      shiftType: s.shiftType,
+      hasNightAction: s.hasNightAction,
+      guardSegments: s.guardSegments,
+    }))
+
+  const approvedAbsences: AbsenceForValidation[] = absences
+    .filter((a) => a.status === 'approved')
+    .map((a) => ({
+      id: a.id,
+      employeeId: a.employeeId,
+      absenceType: a.absenceType,
+      startDate: new Date(a.startDate),
+      endDate: new Date(a.endDate),
+      status: a.status,
+    }))
+
+  // Une semaine à cheval sur deux mois relève de deux enveloppes, chacune au tarif de son mois
+  let envelopes: Record<string, number> | undefined
+  let committed: Record<string, number> = {}
+  if (employer?.pchMonthlyHours && employer.pchType) {
+    const { pchMonthlyHours, pchType } = employer
+    envelopes = Object.fromEntries(
+      [weekStart, weekEnd].map((date) => [toMonthKey(date), calcEnveloppePch(pchMonthlyHours, pchType, date)])
+    )
+    committed = getCommittedSpend(existingShifts, auxiliaries, Object.keys(envelopes), rateSet)
+  }
+
+  const schedule = generateWeekSchedule({
+    weekStart,
+    windows,
+    auxiliaries,
+    existingShifts,
+    approvedAbsences,
+    budget: envelopes ? { envelopes, committed } : undefined,
+    rateSet,
+  })
+
+  return { ...schedule, envelopes }
+}
+
+/**
+ * Dépense employeur déjà engagée (salaire + charges) par mois,
+ * estimée comme pour les interventions proposées.
+ */
+function getCommittedSpend(
+  existingShifts: ShiftForValidation[],
+  auxiliaries: SchedulerAuxiliary[],
+  monthKeys: string[],
+  rateSet: PayRateSet
+): Record<string, number> {
+  const committed: Record<string, number> = Object.fromEntries(monthKeys.map((key) => [key, 0]))
+
+  for (const shift of existingShifts) {
+    const key = toMonthKey(shift.date)
+    const aux = auxiliaries.find((a) => a.contractId === shift.contractId)
+    if (!(key in committed) || !aux) continue
+
+    committed[key] += calculateShiftPay(
+      shift,
+      { id: aux.contractId, weeklyHours: aux.weeklyHours, hourlyRate: aux.hourlyRate, termsHistory: aux.termsHistory },
+      existingShifts,
+      false,
+      rateSet
+    ).totalPay * PAYROLL_ESTIMATE.EMPLOYER_CHARGE_RATE
+  }
+
+  return committed
+}
+
+/**
+ * Enregistre les interventions proposées, contrat par contrat, avec la
+ * rémunération calculée à la proposition.
+ * Retourne le nombre d'interventions créées et les dates en échec.
+ */
+export async function commitWeekSchedule(
+  shifts: ProposedShift[]
+): Promise<{ created: number; failed: Date[] }> {
+  const byContract = new Map<string, ProposedShift[]>()
+  for (const shift of shifts) {
+    byContract.set(shift.contractId, [...(byContract.get(shift.contractId) ?? []), shift])
+  }
+
+  let created = 0
+  const failed: Date[] = []
+  for (const [contractId, contractShifts] of byContract) {
+    const result = await createShifts(
+      contractId,
+      contractShifts.map((s) => ({
+        date: s.date,
+        startTime: s.startTime,
+        endTime: s.endTime,
+        breakDuration: s.breakDuration,
+        shiftType: s.shiftType,
+        computedPay: s.computedPay,
+      }))
+    )
+    created += result.created.length
+    failed.push(...result.failed)
+  }
+
+  return { created, failed }
+}
@@ -6,6 +6,7 @@ import {
   searchLogbook,
   searchMessages,
   searchDocuments,
+  splitSnippet,
 } from '@/services/searchService'
 import type { Shift, Conversation } from '@/types'
 import type { AuxiliarySummary } from '@/services/auxiliaryService'
@@ -277,3 +278,23 @@ describe('searchDocuments', () => {
     expect(results).toHaveLength(1)
   })
 })
+
+describe('splitSnippet', () => {
+  it('découpe les termes délimités par [[ ]]', () => {
+    expect(splitSnippet('Il a bien [[mangé]] son [[repas]].')).toEqual([
+      { text: 'Il a bien ', highlighted: false },
+      { text: 'mangé', highlighted: true },
+      { text: ' son ', highlighted: false },
+      { text: 'repas', highlighted: true },
+      { text: '.', highlighted: false },
+    ])
+  })
+
+  it('laisse le HTML en texte brut', () => {
+    expect(splitSnippet('<b>[[x]]</b>')).toEqual([
+      { text: '<b>', highlighted: false },
+      { text: 'x', highlighted: true },
+      { text: '</b>', highlighted: false },
+    ])
+  })
+})
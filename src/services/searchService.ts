@@ -1,6 +1,7 @@
 /**
  * Service de recherche globale (SpotlightSearch)
  * Fonctions pures de filtrage client-side sur les données déjà fetchées.
+ * La recherche plein texte côté serveur est dans `fullTextSearchService`.
  */
 
 import type { Shift, Conversation, UserRole, CaregiverPermissions } from '@/types'
@@ -12,7 +13,14 @@ import { ABSENCE_TYPE_LABELS } from '@/lib/constants/statusMaps'
 
 // ── Types ────────────────────────────────────────────────────────────────────
 
-export type SearchCategory = 'pages' | 'team' | 'shifts' | 'logbook' | 'messages' | 'documents'
+export type SearchCategory =
+  | 'pages'
+  | 'team'
+  | 'shifts'
+  | 'logbook'
+  | 'messages'
+  | 'documents'
+  | 'payslips'
 
 export interface SearchResult {
   id: string
@@ -20,6 +28,8 @@ export interface SearchResult {
   icon: string
   title: string
   subtitle?: string
+  /** Extrait avec les termes trouvés délimités par [[ … ]] (recherche serveur) */
+  snippet?: string
   href: string
 }
 
@@ -30,6 +40,7 @@ const CATEGORY_LABELS: Record<SearchCategory, string> = {
   logbook: 'Cahier de liaison',
   messages: 'Messages',
   documents: 'Documents',
+  payslips: 'Bulletins de paie',
 }
 
 export { CATEGORY_LABELS }
@@ -58,6 +69,35 @@ function matchesQuery(query: string, ...fields: (string | undefined)[]): boolean
   return words.every((word) => joined.includes(word))
 }
 
+/** Segment d'extrait, mis en évidence ou non */
+export interface SnippetPart {
+  text: string
+  highlighted: boolean
+}
+
+/**
+ * Découpe un extrait `ts_headline` (« … [[terme]] … ») en segments,
+ * pour un rendu en texte (jamais en HTML).
+ */
+export function splitSnippet(snippet: string): SnippetPart[] {
+  const parts: SnippetPart[] = []
+  const pattern = /\[\[(.*?)\]\]/g
+  let last = 0
+  let match: RegExpExecArray | null
+
+  while ((match = pattern.exec(snippet)) !== null) {
+    if (match.index > last) {
+      parts.push({ text: snippet.slice(last, match.index), highlighted: false })
+    }
+    if (match[1]) parts.push({ text: match[1], highlighted: true })
+    last = match.index + match[0].length
+  }
+  if (last < snippet.length) {
+    parts.push({ text: snippet.slice(last), highlighted: false })
+  }
+  return parts
+}
+
 // ── Navigation pages ─────────────────────────────────────────────────────────
 
 interface NavPage {
@@ -133,7 +173,7 @@ export function searchTeam(
 
 // ── Interventions (shifts) ───────────────────────────────────────────────────
 
-function formatShiftDate(date: Date): string {
+export function formatShiftDate(date: Date): string {
   return new Intl.DateTimeFormat('fr-FR', {
     weekday: 'short',
     day: 'numeric',
@@ -170,7 +210,7 @@ export function searchShifts(
 
 // ── Cahier de liaison ────────────────────────────────────────────────────────
 
-const LOG_TYPE_LABELS: Record<string, string> = {
+export const LOG_TYPE_LABELS: Record<string, string> = {
   info: 'Information',
   alert: 'Alerte',
   incident: 'Incident',
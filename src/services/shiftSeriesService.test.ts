@@ -0,0 +1,436 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import {
+  createShiftSeries,
+  updateShiftSeries,
+  extendShiftSeries,
+  deleteShiftSeriesOccurrences,
+  type ShiftSeriesTemplate,
+} from './shiftSeriesService'
+import { TIMESHEET_LOCKED_MESSAGE } from './timesheetService'
+import { createMockShift, createMockContract, createMockSupabaseChain } from '@/test/fixtures'
+
+// ============================================================
+// MOCKS
+// ============================================================
+
+const mockFrom = vi.fn()
+const mockRpc = vi.fn()
+const mockGetShifts = vi.fn()
+const mockCreateShifts = vi.fn()
+const mockShiftModifiedNotification = vi.fn()
+const mockGetContractById = vi.fn()
+const mockGetAbsencesForEmployee = vi.fn()
+const mockGetContractAmendments = vi.fn()
+const mockGetConventionSettings = vi.fn()
+
+vi.mock('@/lib/supabase/client', () => ({
+  supabase: {
+    from: (...args: unknown[]) => mockFrom(...args),
+    rpc: (...args: unknown[]) => mockRpc(...args),
+  },
+}))
+
+vi.mock('@/services/shiftService', () => ({
+  getShifts: (...args: unknown[]) => mockGetShifts(...args),
+  createShifts: (...args: unknown[]) => mockCreateShifts(...args),
+}))
+
+vi.mock('@/services/contractService', () => ({
+  getContractById: (...args: unknown[]) => mockGetContractById(...args),
+}))
+
+vi.mock('@/services/contractAmendmentService', () => ({
+  getContractAmendments: (...args: unknown[]) => mockGetContractAmendments(...args),
+}))
+
+vi.mock('@/services/conventionSettingsService', () => ({
+  getConventionSettings: (...args: unknown[]) => mockGetConventionSettings(...args),
+}))
+
+vi.mock('@/services/absenceService', () => ({
+  getAbsencesForEmployee: (...args: unknown[]) => mockGetAbsencesForEmployee(...args),
+}))
+
+vi.mock('@/services/notificationService', () => ({
+  createShiftModifiedNotification: (...args: unknown[]) => mockShiftModifiedNotification(...args),
+}))
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn(), debug: vi.fn() },
+}))
+
+type Chain = ReturnType<typeof createMockSupabaseChain>
+
+/** Réponses par table, dans l'ordre des appels (requête vide au-delà) */
+function routeTables(responses: Record<string, Chain[]>) {
+  const calls: Record<string, Chain[]> = {}
+  mockFrom.mockImplementation((table: string) => {
+    const chain = responses[table]?.shift() ?? createMockSupabaseChain({ data: null, error: null })
+    calls[table] = [...(calls[table] ?? []), chain]
+    return chain.fromReturn
+  })
+  return calls
+}
+
+const d = (iso: string) => new Date(`${iso}T00:00:00.000Z`)
+
+// Séries en 2027 : toutes les occurrences sont à venir
+const seriesRow = {
+  id: 'series-1',
+  contract_id: 'contract-1',
+  rrule: 'FREQ=WEEKLY;INTERVAL=1;BYDAY=MO;COUNT=4',
+  dtstart: '2027-01-04',
+  exdates: [],
+  start_time: '09:00',
+  end_time: '12:00',
+  break_duration: 0,
+  shift_type: 'effective',
+  tasks: [],
+  notes: null,
+  has_night_action: null,
+  night_interventions_count: null,
+  is_requalified: false,
+  effective_hours: null,
+  guard_segments: null,
+  created_at: '2026-10-01T00:00:00Z',
+  updated_at: '2026-10-01T00:00:00Z',
+}
+
+const seriesShiftRows = [
+  { id: 'occ-1', date: '2027-01-04', status: 'planned', series_occurrence_date: '2027-01-04', is_series_exception: false },
+  { id: 'occ-2', date: '2027-01-12', status: 'planned', series_occurrence_date: '2027-01-11', is_series_exception: true },
+  { id: 'occ-3', date: '2027-01-18', status: 'planned', series_occurrence_date: '2027-01-18', is_series_exception: false },
+  { id: 'occ-4', date: '2027-01-25', status: 'planned', series_occurrence_date: '2027-01-25', is_series_exception: false },
+]
+
+const template: ShiftSeriesTemplate = {
+  startTime: '14:00',
+  endTime: '17:00',
+  breakDuration: 0,
+  shiftType: 'effective',
+  tasks: [],
+  isRequalified: false,
+}
+
+const occurrenceShift = (id: string, date: string) =>
+  createMockShift({ id, contractId: 'contract-1', date: d(date), seriesId: 'series-1', seriesOccurrenceDate: d(date) })
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  mockGetShifts.mockResolvedValue([])
+  mockGetAbsencesForEmployee.mockResolvedValue([])
+  mockGetContractAmendments.mockResolvedValue([])
+  mockGetConventionSettings.mockResolvedValue(null)
+  mockGetContractById.mockResolvedValue(
+    createMockContract({ id: 'contract-1', employerId: 'employer-1', employeeId: 'employee-1' })
+  )
+  mockCreateShifts.mockImplementation(async (_contractId: string, occurrences: unknown[]) => ({
+    created: occurrences.map(() => ({})),
+    failed: [],
+  }))
+  mockRpc.mockResolvedValue({ data: null, error: null })
+})
+
+// ============================================================
+// CRÉATION
+// ============================================================
+
+describe('createShiftSeries', () => {
+  it('enregistre la règle puis crée les occurrences hors dates exclues', async () => {
+    const calls = routeTables({ shift_series: [createMockSupabaseChain({ data: seriesRow, error: null })] })
+
+    const result = await createShiftSeries('contract-1', {
+      dtstart: d('2027-01-04'),
+      rule: { freq: 'WEEKLY', interval: 1, byDay: [1], count: 4 },
+      exdates: [d('2027-01-11')],
+      template,
+    })
+
+    expect(calls.shift_series[0].insert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        contract_id: 'contract-1',
+        rrule: 'FREQ=WEEKLY;INTERVAL=1;BYDAY=MO;COUNT=4',
+        dtstart: '2027-01-04',
+        exdates: ['2027-01-11'],
+        start_time: '14:00',
+      })
+    )
+    expect(mockCreateShifts).toHaveBeenCalledWith('contract-1', [
+      expect.objectContaining({ date: d('2027-01-04'), seriesId: 'series-1', seriesOccurrenceDate: d('2027-01-04') }),
+      expect.objectContaining({ date: d('2027-01-18') }),
+      expect.objectContaining({ date: d('2027-01-25') }),
+    ])
+    expect(result.created).toBe(3)
+  })
+
+  it('calcule la paie de chaque occurrence avec les heures déjà faites dans la semaine', async () => {
+    routeTables({ shift_series: [createMockSupabaseChain({ data: seriesRow, error: null })] })
+    // Lundi de 12 h sur le contrat : les occurrences suivantes cumulent 24 h, 36 h puis 48 h
+    mockGetShifts.mockResolvedValue([
+      createMockShift({ id: 'monday', contractId: 'contract-1', date: d('2027-01-04'), startTime: '08:00', endTime: '20:00', breakDuration: 0 }),
+      createMockShift({ id: 'other-contract', contractId: 'contract-2', date: d('2027-01-04'), startTime: '08:00', endTime: '20:00', breakDuration: 0 }),
+    ])
+
+    await createShiftSeries('contract-1', {
+      dtstart: d('2027-01-05'),
+      rule: { freq: 'DAILY', interval: 1, count: 3 },
+      template: { ...template, startTime: '08:00', endTime: '20:00' },
+    })
+
+    const [tuesday, wednesday, thursday] = mockCreateShifts.mock.calls[0][1]
+    expect(tuesday.computedPay.basePay).toBe(150)
+    expect(tuesday.computedPay.overtimeMajoration).toBe(0)
+    expect(wednesday.computedPay.overtimeMajoration).toBe(0)
+    // Au-delà de 40 h : 8 h supplémentaires majorées à 25 %
+    expect(thursday.computedPay.overtimeMajoration).toBeCloseTo(8 * 12.5 * 0.25)
+    expect(mockGetConventionSettings).toHaveBeenCalledWith('employer-1')
+    expect(mockGetContractAmendments).toHaveBeenCalledWith('contract-1')
+  })
+
+  it('rattache l\'intervention source comme première occurrence', async () => {
+    const calls = routeTables({ shift_series: [createMockSupabaseChain({ data: seriesRow, error: null })] })
+
+    await createShiftSeries('contract-1', {
+      dtstart: d('2027-01-04'),
+      rule: { freq: 'WEEKLY', interval: 1, byDay: [1], count: 2 },
+      template,
+      sourceShiftId: 'source-1',
+    })
+
+    expect(calls.shifts[0].update).toHaveBeenCalledWith({ series_id: 'series-1', series_occurrence_date: '2027-01-04' })
+    expect(calls.shifts[0].eq).toHaveBeenCalledWith('id', 'source-1')
+    expect(mockCreateShifts).toHaveBeenCalledWith('contract-1', [expect.objectContaining({ date: d('2027-01-11') })])
+  })
+})
+
+// ============================================================
+// MODIFICATION
+// ============================================================
+
+describe('updateShiftSeries', () => {
+  it('régénère toute la série en conservant les exceptions, en une transaction', async () => {
+    routeTables({
+      shift_series: [createMockSupabaseChain({ data: seriesRow, error: null })],
+      shifts: [createMockSupabaseChain({ data: seriesShiftRows, error: null })],
+    })
+    mockRpc.mockResolvedValue({ data: 3, error: null })
+
+    const result = await updateShiftSeries(occurrenceShift('occ-1', '2027-01-04'), template, 'all')
+
+    expect(mockRpc).toHaveBeenCalledWith('update_shift_series', {
+      p_series_id: 'series-1',
+      p_template: expect.objectContaining({ start_time: '14:00' }),
+      p_dates: ['2027-01-04', '2027-01-18', '2027-01-25'],
+      p_deleted_shift_ids: ['occ-1', 'occ-3', 'occ-4'],
+      p_computed_pays: {
+        '2027-01-04': expect.objectContaining({ basePay: 37.5, totalPay: 37.5 }),
+        '2027-01-18': expect.objectContaining({ totalPay: 37.5 }),
+        '2027-01-25': expect.objectContaining({ totalPay: 37.5 }),
+      },
+    })
+    expect(mockCreateShifts).not.toHaveBeenCalled()
+    expect(mockShiftModifiedNotification).toHaveBeenCalledWith('employee-1', d('2027-01-04'), '14:00')
+    expect(result).toEqual({ created: 3, failed: [] })
+  })
+
+  it('scinde la série pour « celle-ci et les suivantes »', async () => {
+    routeTables({
+      shift_series: [createMockSupabaseChain({ data: seriesRow, error: null })],
+      shifts: [createMockSupabaseChain({ data: seriesShiftRows, error: null })],
+    })
+
+    await updateShiftSeries(occurrenceShift('occ-3', '2027-01-18'), template, 'following')
+
+    expect(mockRpc).toHaveBeenCalledWith('update_shift_series', expect.objectContaining({
+      p_series_id: 'series-1',
+      p_rrule: 'FREQ=WEEKLY;INTERVAL=1;BYDAY=MO;UNTIL=20270117',
+      p_exdates: [],
+      p_next_rrule: 'FREQ=WEEKLY;INTERVAL=1;BYDAY=MO;COUNT=2',
+      p_next_dtstart: '2027-01-18',
+      p_dates: ['2027-01-18', '2027-01-25'],
+      p_deleted_shift_ids: ['occ-3', 'occ-4'],
+      p_kept_shift_ids: [],
+    }))
+  })
+
+  it('remonte l\'échec de la transaction sans notifier', async () => {
+    routeTables({
+      shift_series: [createMockSupabaseChain({ data: seriesRow, error: null })],
+      shifts: [createMockSupabaseChain({ data: seriesShiftRows, error: null })],
+    })
+    mockRpc.mockResolvedValue({ data: null, error: { message: 'timesheet_locked' } })
+
+    await expect(
+      updateShiftSeries(occurrenceShift('occ-1', '2027-01-04'), template, 'all')
+    ).rejects.toThrow(TIMESHEET_LOCKED_MESSAGE)
+    expect(mockShiftModifiedNotification).not.toHaveBeenCalled()
+  })
+
+  it('refuse la modification si une occurrence n\'est pas conforme, sans rien écrire', async () => {
+    const calls = routeTables({
+      shift_series: [createMockSupabaseChain({ data: seriesRow, error: null })],
+      shifts: [createMockSupabaseChain({ data: seriesShiftRows, error: null })],
+    })
+    // Autre intervention de l'auxiliaire sur le même créneau le 25 janvier
+    mockGetShifts.mockResolvedValue([
+      createMockShift({
+        id: 'other',
+        contractId: 'contract-2',
+        employeeId: 'employee-1',
+        date: d('2027-01-25'),
+        startTime: '13:00',
+        endTime: '18:00',
+        status: 'planned',
+      }),
+    ])
+
+    await expect(
+      updateShiftSeries(occurrenceShift('occ-1', '2027-01-04'), template, 'all')
+    ).rejects.toThrow(/25 janvier 2027 non conforme/)
+
+    expect(calls.shift_series).toHaveLength(1)
+    expect(calls.shifts).toHaveLength(1)
+    expect(mockRpc).not.toHaveBeenCalled()
+  })
+})
+
+// ============================================================
+// PROLONGATION
+// ============================================================
+
+describe('extendShiftSeries', () => {
+  // Série hebdomadaire sans fin commencée un an avant « aujourd'hui » (19/10/2026)
+  const openSeriesRow = { ...seriesRow, rrule: 'FREQ=WEEKLY;INTERVAL=1;BYDAY=MO', dtstart: '2025-10-20' }
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date(2026, 9, 19, 10))
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('crée les occurrences après la dernière occurrence jusqu\'à l\'horizon', async () => {
+    const calls = routeTables({
+      shift_series: [createMockSupabaseChain({ data: [openSeriesRow], error: null })],
+      shifts: [createMockSupabaseChain({ data: [{ series_occurrence_date: '2027-01-04' }], error: null })],
+    })
+    mockRpc.mockResolvedValue({ data: 41, error: null })
+
+    const created = await extendShiftSeries('employer-1')
+
+    expect(calls.shift_series[0].eq).toHaveBeenCalledWith('contract.employer_id', 'employer-1')
+    expect(calls.shift_series[0].eq).toHaveBeenCalledWith('contract.status', 'active')
+    const params = mockRpc.mock.calls[0][1]
+    expect(mockRpc).toHaveBeenCalledWith('update_shift_series', expect.objectContaining({
+      p_series_id: 'series-1',
+      p_template: expect.objectContaining({ start_time: '09:00' }),
+      p_deleted_shift_ids: [],
+    }))
+    expect(params.p_dates).toHaveLength(41)
+    expect(params.p_dates[0]).toBe('2027-01-11')
+    expect(params.p_dates[40]).toBe('2027-10-18')
+    expect(Object.keys(params.p_computed_pays)).toEqual(params.p_dates)
+    expect(params).not.toHaveProperty('p_exdates')
+    expect(created).toBe(41)
+  })
+
+  it('ne fait rien tant que la dernière occurrence est proche de l\'horizon', async () => {
+    routeTables({
+      shift_series: [createMockSupabaseChain({ data: [openSeriesRow], error: null })],
+      shifts: [createMockSupabaseChain({ data: [{ series_occurrence_date: '2027-10-04' }], error: null })],
+    })
+
+    expect(await extendShiftSeries('employer-1')).toBe(0)
+    expect(mockRpc).not.toHaveBeenCalled()
+  })
+
+  it('ignore les séries bornées par COUNT ou UNTIL', async () => {
+    const calls = routeTables({ shift_series: [createMockSupabaseChain({ data: [seriesRow], error: null })] })
+
+    expect(await extendShiftSeries('employer-1')).toBe(0)
+    expect(calls.shifts).toBeUndefined()
+    expect(mockRpc).not.toHaveBeenCalled()
+  })
+
+  it('ajoute les occurrences non conformes aux dates exclues', async () => {
+    routeTables({
+      shift_series: [createMockSupabaseChain({ data: [openSeriesRow], error: null })],
+      shifts: [createMockSupabaseChain({ data: [{ series_occurrence_date: '2027-09-06' }], error: null })],
+    })
+    mockGetShifts.mockResolvedValue([
+      createMockShift({
+        id: 'other',
+        contractId: 'contract-2',
+        employeeId: 'employee-1',
+        date: d('2027-09-20'),
+        startTime: '08:00',
+        endTime: '11:00',
+        status: 'planned',
+      }),
+    ])
+
+    await extendShiftSeries('employer-1')
+
+    expect(mockRpc).toHaveBeenCalledWith('update_shift_series', expect.objectContaining({
+      p_dates: ['2027-09-13', '2027-09-27', '2027-10-04', '2027-10-11', '2027-10-18'],
+      p_exdates: ['2027-09-20'],
+    }))
+  })
+
+  it('poursuit avec les autres séries si une prolongation échoue', async () => {
+    routeTables({
+      shift_series: [createMockSupabaseChain({ data: [openSeriesRow, { ...openSeriesRow, id: 'series-2' }], error: null })],
+      shifts: [
+        createMockSupabaseChain({ data: null, error: { message: 'boom' } }),
+        createMockSupabaseChain({ data: [{ series_occurrence_date: '2027-10-11' }], error: null }),
+      ],
+    })
+
+    expect(await extendShiftSeries('employer-1')).toBe(0)
+  })
+})
+
+// ============================================================
+// SUPPRESSION
+// ============================================================
+
+describe('deleteShiftSeriesOccurrences', () => {
+  it('exclut l\'occurrence de la série et la supprime ensemble', async () => {
+    routeTables({ shift_series: [createMockSupabaseChain({ data: seriesRow, error: null })] })
+
+    await deleteShiftSeriesOccurrences(occurrenceShift('occ-3', '2027-01-18'), 'this')
+
+    expect(mockRpc).toHaveBeenCalledWith('delete_shift_series_occurrences', {
+      p_series_id: 'series-1',
+      p_shift_id: 'occ-3',
+      p_exdates: ['2027-01-18'],
+    })
+  })
+
+  it('arrête la série la veille pour « celle-ci et les suivantes »', async () => {
+    routeTables({ shift_series: [createMockSupabaseChain({ data: seriesRow, error: null })] })
+
+    await deleteShiftSeriesOccurrences(occurrenceShift('occ-3', '2027-01-18'), 'following')
+
+    expect(mockRpc).toHaveBeenCalledWith('delete_shift_series_occurrences', {
+      p_series_id: 'series-1',
+      p_from: '2027-01-18',
+      p_rrule: 'FREQ=WEEKLY;INTERVAL=1;BYDAY=MO;UNTIL=20270117',
+      p_exdates: [],
+    })
+  })
+
+  it('supprime la série et ses occurrences prévues', async () => {
+    routeTables({ shift_series: [createMockSupabaseChain({ data: seriesRow, error: null })] })
+
+    await deleteShiftSeriesOccurrences(occurrenceShift('occ-1', '2027-01-04'), 'all')
+
+    expect(mockRpc).toHaveBeenCalledWith('delete_shift_series_occurrences', {
+      p_series_id: 'series-1',
+      p_from: expect.any(String),
+      p_drop_series: true,
+    })
+  })
+})
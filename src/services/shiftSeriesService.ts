@@ -0,0 +1,664 @@
+/**
+ * Séries d'interventions récurrentes.
+ *
+ * La série porte la règle (RRULE), ses dates exclues et le modèle
+ * d'intervention ; chaque occurrence reste une ligne `shifts`. Les
+ * modifications s'appliquent à une occurrence (exception conservée lors des
+ * régénérations), à l'occurrence et aux suivantes (la série est scindée) ou à
+ * toute la série. Les occurrences régénérées sont validées ensemble (IDCC 3239)
+ * avant toute écriture ; les écritures d'une modification ou d'une
+ * suppression sont faites en une seule transaction (fonctions SQL). Chaque
+ * occurrence créée porte sa paie, calculée comme pour une intervention isolée.
+ *
+ * Une série sans fin n'est matérialisée que jusqu'à `SERIES_HORIZON_DAYS` :
+ * `extendShiftSeries` crée les occurrences suivantes à mesure que la date
+ * du jour avance (appelée au chargement du planning employeur).
+ */
+
+import { format } from 'date-fns'
+import { fr } from 'date-fns/locale'
+import { supabase } from '@/lib/supabase/client'
+import { logger } from '@/lib/logger'
+import { sanitizeText } from '@/lib/sanitize'
+import {
+  calculateShiftPay,
+  getPayRateSet,
+  type ShiftForValidation,
+  type AbsenceForValidation,
+} from '@/lib/compliance'
+import {
+  expandSeries,
+  formatRRule,
+  parseRRule,
+  splitSeriesRule,
+  toSeriesDateKey,
+  validateSeriesOccurrences,
+  SERIES_HORIZON_DAYS,
+  type SeriesEditScope,
+  type SeriesOccurrenceResult,
+  type SeriesRule,
+} from '@/lib/shifts/series'
+import { getShifts, createShifts } from '@/services/shiftService'
+import { getContractById } from '@/services/contractService'
+import { getContractAmendments } from '@/services/contractAmendmentService'
+import { getConventionSettings } from '@/services/conventionSettingsService'
+import { getAbsencesForEmployee } from '@/services/absenceService'
+import { createShiftModifiedNotification } from '@/services/notificationService'
+import { isTimesheetLockedError, TIMESHEET_LOCKED_MESSAGE } from '@/services/timesheetService'
+import type { ComputedPay, Contract, Shift, ShiftSeries } from '@/types'
+import type { ShiftDbRow, ShiftSeriesDbRow } from '@/types/database'
+
+/** Modèle d'intervention appliqué à chaque occurrence de la série */
+export type ShiftSeriesTemplate = Omit<
+  ShiftSeries,
+  'id' | 'contractId' | 'rrule' | 'dtstart' | 'exdates' | 'createdAt' | 'updatedAt'
+>
+
+type SeriesShiftRow = Pick<ShiftDbRow, 'id' | 'date' | 'status' | 'series_occurrence_date' | 'is_series_exception'>
+
+/** Fenêtre autour des occurrences couvrant toutes les règles IDCC 3239 (cf. useShiftValidationData) */
+const VALIDATION_WINDOW_DAYS = 28
+
+/** Une série sans fin est prolongée lorsque sa dernière occurrence est à moins de 30 jours de l'horizon */
+const SERIES_EXTENSION_MARGIN_DAYS = 30
+
+function toError(error: { message: string }): Error {
+  return new Error(isTimesheetLockedError(error.message) ? TIMESHEET_LOCKED_MESSAGE : error.message)
+}
+
+function todayUTC(): Date {
+  const now = new Date()
+  return new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate()))
+}
+
+function addUTCDays(date: Date, days: number): Date {
+  const next = new Date(date)
+  next.setUTCDate(next.getUTCDate() + days)
+  return next
+}
+
+function occurrenceDateOf(shift: Pick<Shift, 'date' | 'seriesOccurrenceDate'>): Date {
+  return new Date(toSeriesDateKey(shift.seriesOccurrenceDate ?? shift.date))
+}
+
+function templateToDb(template: ShiftSeriesTemplate) {
+  return {
+    start_time: template.startTime,
+    end_time: template.endTime,
+    break_duration: template.breakDuration,
+    shift_type: template.shiftType,
+    tasks: template.tasks.map(sanitizeText),
+    notes: template.notes ? sanitizeText(template.notes) : null,
+    has_night_action: template.hasNightAction ?? null,
+    night_interventions_count: template.nightInterventionsCount ?? null,
+    is_requalified: template.isRequalified,
+    effective_hours: template.effectiveHours ?? null,
+    guard_segments: template.guardSegments ?? null,
+  }
+}
+
+function toOccurrence(template: ShiftSeriesTemplate, date: Date, seriesId: string, computedPay?: ComputedPay) {
+  return {
+    date,
+    startTime: template.startTime,
+    endTime: template.endTime,
+    breakDuration: template.breakDuration,
+    tasks: template.tasks,
+    notes: template.notes,
+    hasNightAction: template.hasNightAction,
+    shiftType: template.shiftType,
+    nightInterventionsCount: template.nightInterventionsCount,
+    isRequalified: template.isRequalified,
+    effectiveHours: template.effectiveHours,
+    guardSegments: template.guardSegments,
+    seriesId,
+    seriesOccurrenceDate: date,
+    computedPay,
+  }
+}
+
+function toShiftsForValidation(
+  contract: Contract,
+  template: ShiftSeriesTemplate,
+  dates: Date[]
+): ShiftForValidation[] {
+  const employeeId = contract.employeeId ?? contract.caregiverId ?? ''
+  return dates.map((date) => ({
+    contractId: contract.id,
+    employeeId,
+    date,
+    startTime: template.startTime,
+    endTime: template.endTime,
+    breakDuration: template.breakDuration,
+    shiftType: template.shiftType,
+    hasNightAction: template.hasNightAction,
+    nightInterventionsCount: template.nightInterventionsCount,
+    guardSegments: template.guardSegments,
+  }))
+}
+
+// ============================================================
+// LECTURE
+// ============================================================
+
+export async function getShiftSeries(seriesId: string): Promise<ShiftSeries | null> {
+  const { data, error } = await supabase
+    .from('shift_series')
+    .select('*')
+    .eq('id', seriesId)
+    .single()
+
+  if (error) {
+    logger.error('Erreur récupération série:', error)
+    return null
+  }
+
+  return mapSeriesFromDb(data as ShiftSeriesDbRow)
+}
+
+export async function getShiftSeriesByIds(seriesIds: string[]): Promise<ShiftSeries[]> {
+  if (seriesIds.length === 0) return []
+
+  const { data, error } = await supabase
+    .from('shift_series')
+    .select('*')
+    .in('id', seriesIds)
+
+  if (error) {
+    logger.error('Erreur récupération séries:', error)
+    return []
+  }
+
+  return ((data || []) as ShiftSeriesDbRow[]).map(mapSeriesFromDb)
+}
+
+async function getSeriesShiftRows(seriesId: string): Promise<SeriesShiftRow[]> {
+  const { data, error } = await supabase
+    .from('shifts')
+    .select('id, date, status, series_occurrence_date, is_series_exception')
+    .eq('series_id', seriesId)
+
+  if (error) {
+    logger.error('Erreur récupération occurrences de la série:', error)
+    throw toError(error)
+  }
+
+  return (data || []) as unknown as SeriesShiftRow[]
+}
+
+// ============================================================
+// CRÉATION
+// ============================================================
+
+/**
+ * Crée une série et ses occurrences.
+ * Les dates bloquées par la prévisualisation sont passées en `exdates`.
+ * `sourceShiftId` rattache une intervention existante (date = `dtstart`)
+ * comme première occurrence au lieu de la recréer.
+ */
+export async function createShiftSeries(
+  contractId: string,
+  params: {
+    dtstart: Date
+    rule: SeriesRule
+    template: ShiftSeriesTemplate
+    exdates?: Date[]
+    sourceShiftId?: string
+  }
+): Promise<{ series: ShiftSeries; created: number; failed: Date[] }> {
+  const { dtstart, rule, template, exdates = [], sourceShiftId } = params
+
+  const contract = await getContractById(contractId)
+  if (!contract) throw new Error('Contrat introuvable')
+
+  const dates = expandSeries(rule, dtstart, { exdates })
+    .filter((d) => !sourceShiftId || toSeriesDateKey(d) !== toSeriesDateKey(dtstart))
+  const computedPays = await computeOccurrencePays(contract, template, dates, [])
+
+  const { data, error } = await supabase
+    .from('shift_series')
+    .insert({
+      contract_id: contractId,
+      rrule: formatRRule(rule),
+      dtstart: toSeriesDateKey(dtstart),
+      exdates: exdates.map(toSeriesDateKey),
+      ...templateToDb(template),
+    })
+    .select()
+    .single()
+
+  if (error) {
+    logger.error('Erreur création série:', error)
+    throw toError(error)
+  }
+
+  const series = mapSeriesFromDb(data as ShiftSeriesDbRow)
+
+  if (sourceShiftId) {
+    const { error: attachError } = await supabase
+      .from('shifts')
+      .update({ series_id: series.id, series_occurrence_date: toSeriesDateKey(dtstart) })
+      .eq('id', sourceShiftId)
+
+    if (attachError) {
+      logger.error('Erreur rattachement intervention source à la série:', attachError)
+      throw toError(attachError)
+    }
+  }
+
+  const { created, failed } = await createShifts(
+    contractId,
+    dates.map((date) => toOccurrence(template, date, series.id, computedPays[toSeriesDateKey(date)]))
+  )
+
+  return { series, created: created.length, failed }
+}
+
+// ============================================================
+// MODIFICATION
+// ============================================================
+
+/**
+ * Occurrences à supprimer puis recréer à partir de `from` : seules les
+ * occurrences prévues et non modifiées individuellement sont remplacées
+ * (l'occurrence éditée l'est toujours). Les autres sont conservées et leur
+ * date n'est pas recréée.
+ */
+function planRegeneration(
+  rule: SeriesRule,
+  dtstart: Date,
+  exdates: Date[],
+  rows: SeriesShiftRow[],
+  from: Date,
+  editedShiftId: string
+): { toDelete: string[]; keptIds: string[]; dates: Date[] } {
+  const fromKey = toSeriesDateKey(from)
+  const toDelete: string[] = []
+  const keptIds: string[] = []
+  const keptKeys = new Set<string>()
+
+  for (const row of rows) {
+    const key = row.series_occurrence_date ?? row.date
+    if (key < fromKey) continue
+
+    const replaceable = row.status === 'planned' && (!row.is_series_exception || row.id === editedShiftId)
+    if (replaceable) {
+      toDelete.push(row.id)
+    } else {
+      keptIds.push(row.id)
+      keptKeys.add(key)
+    }
+  }
+
+  const dates = expandSeries(rule, dtstart, { exdates, from })
+    .filter((d) => !keptKeys.has(toSeriesDateKey(d)))
+
+  return { toDelete, keptIds, dates }
+}
+
+/** Valide ensemble les occurrences `dates` face au planning et aux absences de l'intervenant */
+async function validateSeriesDates(
+  contract: Contract,
+  template: ShiftSeriesTemplate,
+  dates: Date[],
+  replacedShiftIds: string[]
+): Promise<SeriesOccurrenceResult[]> {
+  if (dates.length === 0) return []
+
+  const employeeId = contract.employeeId ?? contract.caregiverId ?? ''
+
+  const rangeStart = new Date(dates[0])
+  rangeStart.setUTCDate(rangeStart.getUTCDate() - VALIDATION_WINDOW_DAYS)
+  const rangeEnd = new Date(dates[dates.length - 1])
+  rangeEnd.setUTCDate(rangeEnd.getUTCDate() + VALIDATION_WINDOW_DAYS)
+
+  const [shifts, absences] = await Promise.all([
+    getShifts(contract.employerId, 'employer', rangeStart, rangeEnd),
+    employeeId ? getAbsencesForEmployee(employeeId) : Promise.resolve([]),
+  ])
+
+  const existingShifts: ShiftForValidation[] = shifts
+    .filter((s) => s.status !== 'cancelled' && !replacedShiftIds.includes(s.id))
+    .map((s) => ({
+      id: s.id,
+      contractId: s.contractId,
+      employeeId: s.employeeId ?? '',
+      date: new Date(s.date),
+      startTime: s.startTime,
+      endTime: s.endTime,
+      breakDuration: s.breakDuration,
+      shiftType: s.shiftType,
+      hasNightAction: s.hasNightAction,
+      nightInterventionsCount: s.nightInterventionsCount,
+      guardSegments: s.guardSegments,
+    }))
+
+  const approvedAbsences: AbsenceForValidation[] = absences
+    .filter((a) => a.status === 'approved')
+    .map((a) => ({
+      id: a.id,
+      employeeId: a.employeeId,
+      absenceType: a.absenceType,
+      startDate: new Date(a.startDate),
+      endDate: new Date(a.endDate),
+      status: a.status,
+    }))
+
+  return validateSeriesOccurrences(toShiftsForValidation(contract, template, dates), existingShifts, approvedAbsences)
+}
+
+/**
+ * Paie de chaque occurrence, indexée par date : contrat et avenants en
+ * vigueur, barème de l'employeur, heures de la semaine (interventions du
+ * contrat conservées et occurrences précédentes de la série).
+ */
+async function computeOccurrencePays(
+  contract: Contract,
+  template: ShiftSeriesTemplate,
+  dates: Date[],
+  replacedShiftIds: string[]
+): Promise<Record<string, ComputedPay>> {
+  if (dates.length === 0) return {}
+
+  const employeeId = contract.employeeId ?? contract.caregiverId ?? ''
+
+  const [settings, amendments, shifts] = await Promise.all([
+    getConventionSettings(contract.employerId),
+    getContractAmendments(contract.id),
+    getShifts(contract.employerId, 'employer', addUTCDays(dates[0], -6), addUTCDays(dates[dates.length - 1], 6)),
+  ])
+
+  const occurrences = toShiftsForValidation(contract, template, dates)
+  const weekShifts: ShiftForValidation[] = [
+    ...shifts
+      .filter((s) => s.contractId === contract.id && s.status !== 'cancelled' && !replacedShiftIds.includes(s.id))
+      .map((s) => ({
+        id: s.id,
+        contractId: contract.id,
+        employeeId,
+        date: new Date(s.date),
+        startTime: s.startTime,
+        endTime: s.endTime,
+        breakDuration: s.breakDuration,
+        shiftType: s.shiftType,
+        hasNightAction: s.hasNightAction,
+        nightInterventionsCount: s.nightInterventionsCount,
+        guardSegments: s.guardSegments,
+      })),
+    ...occurrences,
+  ]
+
+  const terms = {
+    id: contract.id,
+    weeklyHours: contract.weeklyHours,
+    hourlyRate: contract.hourlyRate,
+    termsHistory: amendments,
+  }
+  const rateSet = getPayRateSet(settings)
+
+  return Object.fromEntries(occurrences.map((occurrence) => [
+    toSeriesDateKey(occurrence.date),
+    calculateShiftPay(occurrence, terms, weekShifts.filter((s) => s !== occurrence), false, rateSet),
+  ]))
+}
+
+/**
+ * Valide l'ensemble des occurrences régénérées avant enregistrement.
+ * Lève une erreur décrivant la première occurrence non conforme.
+ */
+async function assertSeriesCompliance(
+  contract: Contract,
+  template: ShiftSeriesTemplate,
+  dates: Date[],
+  replacedShiftIds: string[]
+): Promise<void> {
+  const blocked = (await validateSeriesDates(contract, template, dates, replacedShiftIds))
+    .filter((r) => r.blocked)
+
+  if (blocked.length > 0) {
+    const first = blocked[0]
+    const others = blocked.length > 1 ? ` (+${blocked.length - 1} autre${blocked.length > 2 ? 's' : ''})` : ''
+    throw new Error(
+      `Occurrence du ${format(first.date, 'd MMMM yyyy', { locale: fr })} non conforme : ${first.complianceResult.errors[0]?.message ?? 'conflit'}${others}`
+    )
+  }
+}
+
+/**
+ * Applique le modèle à « celle-ci et les suivantes » ou à « toute la série ».
+ * (Une seule occurrence : `updateShift` avec `isSeriesException: true`.)
+ *
+ * - `all` : met à jour la série et régénère les occurrences à venir
+ *   (à partir de l'occurrence éditée si elle est passée)
+ * - `following` : la série d'origine s'arrête la veille de l'occurrence,
+ *   une nouvelle série reprend à partir de celle-ci avec le reste du COUNT,
+ *   ses dates exclues et ses exceptions
+ *
+ * Les écritures sont faites en une transaction (`update_shift_series`) :
+ * en cas d'échec, la série et ses occurrences restent inchangées.
+ */
+export async function updateShiftSeries(
+  shift: Shift,
+  template: ShiftSeriesTemplate,
+  scope: Exclude<SeriesEditScope, 'this'>
+): Promise<{ created: number; failed: Date[] }> {
+  if (!shift.seriesId) throw new Error('Cette intervention n\'appartient à aucune série')
+
+  const series = await getShiftSeries(shift.seriesId)
+  if (!series) throw new Error('Série introuvable')
+
+  const contract = await getContractById(series.contractId)
+  if (!contract) throw new Error('Contrat introuvable')
+
+  const rule = parseRRule(series.rrule)
+  const rows = await getSeriesShiftRows(series.id)
+  const at = occurrenceDateOf(shift)
+  const split = scope === 'following' && toSeriesDateKey(at) > toSeriesDateKey(series.dtstart)
+
+  let plan: ReturnType<typeof planRegeneration>
+  let splitParams = {}
+
+  if (split) {
+    const { before, after } = splitSeriesRule(rule, series.dtstart, at)
+    const exdates = series.exdates.filter((d) => toSeriesDateKey(d) >= toSeriesDateKey(at))
+    plan = planRegeneration(after, at, exdates, rows, at, shift.id)
+    splitParams = {
+      p_rrule: formatRRule(before),
+      p_exdates: series.exdates.filter((d) => d < at).map(toSeriesDateKey),
+      p_next_rrule: formatRRule(after),
+      p_next_dtstart: toSeriesDateKey(at),
+      p_next_exdates: exdates.map(toSeriesDateKey),
+      p_kept_shift_ids: plan.keptIds,
+    }
+  } else {
+    const today = todayUTC()
+    const upcoming = today > series.dtstart ? today : series.dtstart
+    const from = scope === 'following' || at < upcoming ? at : upcoming
+    plan = planRegeneration(rule, series.dtstart, series.exdates, rows, from, shift.id)
+  }
+
+  await assertSeriesCompliance(contract, template, plan.dates, plan.toDelete)
+  const computedPays = await computeOccurrencePays(contract, template, plan.dates, plan.toDelete)
+
+  const { data, error } = await supabase.rpc('update_shift_series', {
+    p_series_id: series.id,
+    p_template: templateToDb(template),
+    p_dates: plan.dates.map(toSeriesDateKey),
+    p_deleted_shift_ids: plan.toDelete,
+    p_computed_pays: computedPays,
+    ...splitParams,
+  })
+
+  if (error) {
+    logger.error('Erreur modification série:', error)
+    throw toError(error)
+  }
+
+  const employeeId = contract.employeeId ?? contract.caregiverId
+  if (employeeId && plan.dates.length > 0) {
+    await createShiftModifiedNotification(employeeId, plan.dates[0], template.startTime)
+  }
+
+  return { created: (data as number | null) ?? plan.dates.length, failed: [] }
+}
+
+// ============================================================
+// PROLONGATION
+// ============================================================
+
+/**
+ * Prolonge les séries sans fin (ni COUNT ni UNTIL) des contrats actifs de
+ * l'employeur jusqu'à `SERIES_HORIZON_DAYS` après aujourd'hui.
+ * Retourne le nombre d'occurrences créées ; une série en erreur est ignorée.
+ */
+export async function extendShiftSeries(employerId: string): Promise<number> {
+  const { data, error } = await supabase
+    .from('shift_series')
+    .select('*, contract:contracts!inner(employer_id, status)')
+    .eq('contract.employer_id', employerId)
+    .eq('contract.status', 'active')
+
+  if (error) {
+    logger.error('Erreur récupération des séries à prolonger:', error)
+    return 0
+  }
+
+  let created = 0
+  for (const series of ((data || []) as ShiftSeriesDbRow[]).map(mapSeriesFromDb)) {
+    try {
+      created += await extendSeries(series)
+    } catch (err) {
+      logger.error('Erreur prolongation série:', err)
+    }
+  }
+
+  return created
+}
+
+/**
+ * Crée les occurrences à venir d'une série sans fin après sa dernière
+ * occurrence matérialisée, dès qu'elle approche de l'horizon. Comme à la
+ * création, les dates non conformes sont ajoutées aux dates exclues.
+ */
+async function extendSeries(series: ShiftSeries): Promise<number> {
+  const rule = parseRRule(series.rrule)
+  if (rule.count !== undefined || rule.until) return 0
+
+  const { data, error } = await supabase
+    .from('shifts')
+    .select('series_occurrence_date')
+    .eq('series_id', series.id)
+    .order('series_occurrence_date', { ascending: false })
+    .limit(1)
+
+  if (error) throw toError(error)
+
+  const today = todayUTC()
+  const horizon = addUTCDays(today, SERIES_HORIZON_DAYS)
+  const last = (data as Pick<ShiftDbRow, 'series_occurrence_date'>[] | null)?.[0]?.series_occurrence_date
+  if (last && new Date(last) >= addUTCDays(horizon, -SERIES_EXTENSION_MARGIN_DAYS)) return 0
+
+  const next = last ? addUTCDays(new Date(last), 1) : today
+  const dates = expandSeries(rule, series.dtstart, {
+    exdates: series.exdates,
+    from: next > today ? next : today,
+  }).filter((d) => d <= horizon)
+  if (dates.length === 0) return 0
+
+  const contract = await getContractById(series.contractId)
+  if (!contract) throw new Error('Contrat introuvable')
+
+  const results = await validateSeriesDates(contract, series, dates, [])
+  const blocked = results.filter((r) => r.blocked).map((r) => r.date)
+  const valid = results.filter((r) => !r.blocked).map((r) => r.date)
+  const computedPays = await computeOccurrencePays(contract, series, valid, [])
+
+  const { data: created, error: rpcError } = await supabase.rpc('update_shift_series', {
+    p_series_id: series.id,
+    p_template: templateToDb(series),
+    p_dates: valid.map(toSeriesDateKey),
+    p_deleted_shift_ids: [],
+    p_computed_pays: computedPays,
+    ...(blocked.length > 0 && { p_exdates: [...series.exdates, ...blocked].map(toSeriesDateKey) }),
+  })
+
+  if (rpcError) throw toError(rpcError)
+
+  return (created as number | null) ?? valid.length
+}
+
+// ============================================================
+// SUPPRESSION
+// ============================================================
+
+/**
+ * Supprime une occurrence (ajoutée aux dates exclues), l'occurrence et les
+ * suivantes (la série s'arrête la veille) ou toute la série (occurrences
+ * prévues à venir ; les occurrences passées sont détachées).
+ * Les écritures sont faites en une transaction (`delete_shift_series_occurrences`).
+ */
+export async function deleteShiftSeriesOccurrences(
+  shift: Shift,
+  scope: SeriesEditScope
+): Promise<void> {
+  if (!shift.seriesId) throw new Error('Cette intervention n\'appartient à aucune série')
+
+  const series = await getShiftSeries(shift.seriesId)
+  if (!series) throw new Error('Série introuvable')
+
+  const at = occurrenceDateOf(shift)
+  let params: Record<string, unknown>
+
+  if (scope === 'this') {
+    params = {
+      p_shift_id: shift.id,
+      p_exdates: [...series.exdates, at].map(toSeriesDateKey),
+    }
+  } else if (scope === 'following' && toSeriesDateKey(at) > toSeriesDateKey(series.dtstart)) {
+    const { before } = splitSeriesRule(parseRRule(series.rrule), series.dtstart, at)
+    params = {
+      p_from: toSeriesDateKey(at),
+      p_rrule: formatRRule(before),
+      p_exdates: series.exdates.filter((d) => d < at).map(toSeriesDateKey),
+    }
+  } else {
+    const today = todayUTC()
+    params = {
+      p_from: toSeriesDateKey(at < today ? at : today),
+      p_drop_series: true,
+    }
+  }
+
+  const { error } = await supabase.rpc('delete_shift_series_occurrences', {
+    p_series_id: series.id,
+    ...params,
+  })
+
+  if (error) {
+    logger.error('Erreur suppression occurrences de la série:', error)
+    throw toError(error)
+  }
+}
+
+function mapSeriesFromDb(data: ShiftSeriesDbRow): ShiftSeries {
+  return {
+    id: data.id,
+    contractId: data.contract_id,
+    rrule: data.rrule,
+    dtstart: new Date(data.dtstart),
+    exdates: (data.exdates || []).map((d) => new Date(d)),
+    startTime: data.start_time,
+    endTime: data.end_time,
+    breakDuration: data.break_duration || 0,
+    shiftType: data.shift_type || 'effective',
+    tasks: data.tasks || [],
+    notes: data.notes || undefined,
+    hasNightAction: data.has_night_action ?? undefined,
+    nightInterventionsCount: data.night_interventions_count ?? undefined,
+    isRequalified: data.is_requalified ?? false,
+    effectiveHours: data.effective_hours ?? undefined,
+    guardSegments: data.guard_segments ?? undefined,
+    createdAt: new Date(data.created_at),
+    updatedAt: new Date(data.updated_at),
+  }
+}
@@ -6,8 +6,10 @@ import {
   updateShift,
   deleteShift,
   validateShift,
+  reviewShiftActualTimes,
   getUpcomingShiftsForEmployee,
 } from './shiftService'
+import { TIMESHEET_LOCKED_MESSAGE } from './timesheetService'
 
 // ─── Mocks ──────────────────────────────────────────────────────────
 
@@ -48,6 +50,23 @@ vi.mock('@/services/profileService', () => ({
   getProfileName: (...args: unknown[]) => mockGetProfileName(...args),
 }))
 
+// Recalcul de la paie après revue des heures réelles
+const mockGetContractById = vi.fn()
+const mockGetContractAmendments = vi.fn().mockResolvedValue([])
+const mockGetConventionSettings = vi.fn().mockResolvedValue(null)
+
+vi.mock('@/services/contractService', () => ({
+  getContractById: (...args: unknown[]) => mockGetContractById(...args),
+}))
+
+vi.mock('@/services/contractAmendmentService', () => ({
+  getContractAmendments: (...args: unknown[]) => mockGetContractAmendments(...args),
+}))
+
+vi.mock('@/services/conventionSettingsService', () => ({
+  getConventionSettings: (...args: unknown[]) => mockGetConventionSettings(...args),
+}))
+
 // ─── Helpers ────────────────────────────────────────────────────────
 
 /** Configure mockFrom pour retourner une chaîne fluide Supabase */
@@ -58,6 +77,7 @@ function mockSupabaseQuery(resolvedValue: { data: unknown; error: unknown }) {
   chain.update = vi.fn().mockReturnValue(chain)
   chain.delete = vi.fn().mockReturnValue(chain)
   chain.eq = vi.fn().mockReturnValue(chain)
+  chain.neq = vi.fn().mockReturnValue(chain)
   chain.in = vi.fn().mockReturnValue(chain)
   chain.gte = vi.fn().mockReturnValue(chain)
   chain.lte = vi.fn().mockReturnValue(chain)
@@ -88,6 +108,7 @@ function mockSupabaseQuerySequence(calls: Array<{ data: unknown; error: unknown
     chain.update = vi.fn().mockReturnValue(chain)
     chain.delete = vi.fn().mockReturnValue(chain)
     chain.eq = vi.fn().mockReturnValue(chain)
+    chain.neq = vi.fn().mockReturnValue(chain)
     chain.in = vi.fn().mockReturnValue(chain)
     chain.gte = vi.fn().mockReturnValue(chain)
     chain.lte = vi.fn().mockReturnValue(chain)
@@ -298,6 +319,14 @@ describe('shiftService', () => {
         updateShift('shift-123', { status: 'completed' })
       ).rejects.toThrow('Update failed')
     })
+
+    it('devrait signaler un mois verrouillé par un relevé contresigné', async () => {
+      mockSupabaseQuery({ data: null, error: { message: 'timesheet_locked' } })
+
+      await expect(
+        updateShift('shift-123', { startTime: '10:00' })
+      ).rejects.toThrow(TIMESHEET_LOCKED_MESSAGE)
+    })
   })
 
   describe('deleteShift', () => {
@@ -312,6 +341,12 @@ describe('shiftService', () => {
 
       await expect(deleteShift('shift-123')).rejects.toThrow('Delete failed')
     })
+
+    it('devrait refuser la suppression dans un mois verrouillé', async () => {
+      mockSupabaseQuery({ data: null, error: { message: 'timesheet_locked' } })
+
+      await expect(deleteShift('shift-123')).rejects.toThrow(TIMESHEET_LOCKED_MESSAGE)
+    })
   })
 
   describe('validateShift', () => {
@@ -336,6 +371,88 @@ describe('shiftService', () => {
     })
   })
 
+  describe('reviewShiftActualTimes', () => {
+    // Prévu 09:00-17:00 (7h payées), pointé 09:00-19:00 (9h payées si accepté)
+    const reviewedShift = createMockShiftDbData({
+      break_duration: 60,
+      clocked_in_at: new Date(2024, 2, 15, 9, 0).toISOString(),
+      clocked_out_at: new Date(2024, 2, 15, 19, 0).toISOString(),
+    })
+
+    beforeEach(() => {
+      mockGetContractById.mockResolvedValue({
+        id: 'contract-456',
+        employerId: 'employer-1',
+        employeeId: 'employee-1',
+        weeklyHours: 35,
+        hourlyRate: 12,
+      })
+    })
+
+    it('devrait enregistrer la décision et la paie aux heures réelles acceptées', async () => {
+      const chains = mockSupabaseQuerySequence([
+        { data: reviewedShift, error: null },
+        { data: [reviewedShift], error: null },
+        { data: null, error: null },
+      ])
+
+      await reviewShiftActualTimes('shift-123', 'accepted')
+
+      expect(chains[1].eq).toHaveBeenCalledWith('contract_id', 'contract-456')
+      expect(chains[1].neq).toHaveBeenCalledWith('status', 'cancelled')
+      expect(chains[2].update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          actual_review: 'accepted',
+          computed_pay: expect.objectContaining({ basePay: 108 }),
+        })
+      )
+      expect(chains[2].eq).toHaveBeenCalledWith('id', 'shift-123')
+    })
+
+    it('devrait revenir à la paie du planning si l\'écart est refusé', async () => {
+      const chains = mockSupabaseQuerySequence([
+        { data: reviewedShift, error: null },
+        { data: [], error: null },
+        { data: null, error: null },
+      ])
+
+      await reviewShiftActualTimes('shift-123', 'rejected')
+
+      expect(chains[2].update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          actual_review: 'rejected',
+          computed_pay: expect.objectContaining({ basePay: 84 }),
+        })
+      )
+    })
+
+    it('devrait lancer une erreur si l\'intervention est introuvable', async () => {
+      mockSupabaseQuery({ data: null, error: { message: 'Not found' } })
+
+      await expect(reviewShiftActualTimes('shift-123', 'accepted')).rejects.toThrow('Intervention introuvable')
+    })
+
+    it('devrait lancer une erreur si la mise à jour échoue', async () => {
+      mockSupabaseQuerySequence([
+        { data: reviewedShift, error: null },
+        { data: [], error: null },
+        { data: null, error: { message: 'Review failed' } },
+      ])
+
+      await expect(reviewShiftActualTimes('shift-123', 'rejected')).rejects.toThrow('Review failed')
+    })
+
+    it('devrait traduire le verrouillage du relevé d\'heures', async () => {
+      mockSupabaseQuerySequence([
+        { data: reviewedShift, error: null },
+        { data: [], error: null },
+        { data: null, error: { message: 'timesheet_locked' } },
+      ])
+
+      await expect(reviewShiftActualTimes('shift-123', 'accepted')).rejects.toThrow(TIMESHEET_LOCKED_MESSAGE)
+    })
+  })
+
   // ─── Nouveaux tests : getShifts ──────────────────────────────────
 
   describe('getShifts', () => {
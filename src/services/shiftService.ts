@@ -1,16 +1,29 @@
+import { format } from 'date-fns'
 import { supabase } from '@/lib/supabase/client'
 import { resolveAvatarUrl } from '@/lib/supabase/avatars'
 import { logger } from '@/lib/logger'
 import { sanitizeText } from '@/lib/sanitize'
+import { mapTaskCompletionFromDb } from '@/lib/mappers'
 import { track } from '@/lib/analytics/track'
-import type { Shift, ShiftType, GuardSegment, UserRole } from '@/types'
-import type { ShiftDbRow } from '@/types/database'
+import {
+  calculateShiftPay,
+  getPayRateSet,
+  getWeekStart,
+  type ShiftForValidation,
+} from '@/lib/compliance'
+import { getPayableTimes } from '@/lib/shifts/reconciliation'
+import type { Shift, ShiftType, GuardSegment, UserRole, ComputedPay, ActualReview, ShiftTaskCompletion } from '@/types'
+import type { ShiftDbRow, ShiftTaskCompletionDb } from '@/types/database'
 import {
   createShiftCreatedNotification,
   createShiftCancelledNotification,
   createShiftModifiedNotification,
 } from '@/services/notificationService'
 import { getProfileName } from '@/services/profileService'
+import { getContractById } from '@/services/contractService'
+import { getContractAmendments } from '@/services/contractAmendmentService'
+import { getConventionSettings } from '@/services/conventionSettingsService'
+import { isTimesheetLockedError, TIMESHEET_LOCKED_MESSAGE } from '@/services/timesheetService'
 
 export async function getShifts(
   profileId: string,
@@ -122,7 +135,7 @@ export async function getShifts(
 export async function getShiftById(shiftId: string): Promise<Shift | null> {
   const { data, error } = await supabase
     .from('shifts')
-    .select('id, contract_id, date, start_time, end_time, break_duration, tasks, notes, has_night_action, shift_type, night_interventions_count, is_requalified, effective_hours, guard_segments, computed_pay, status, validated_by_employer, validated_by_employee, late_entry, created_at, updated_at')
+    .select('id, contract_id, date, start_time, end_time, break_duration, tasks, notes, has_night_action, shift_type, night_interventions_count, is_requalified, effective_hours, guard_segments, computed_pay, status, validated_by_employer, validated_by_employee, late_entry, clock_in_method, clock_out_method, clocked_in_at, clocked_out_at, clock_synced_at, actual_review, actual_reviewed_at, series_id, series_occurrence_date, is_series_exception, task_completions, created_at, updated_at')
     .eq('id', shiftId)
     .single()
 
@@ -149,6 +162,9 @@ export async function createShift(
     isRequalified?: boolean
     effectiveHours?: number
     guardSegments?: GuardSegment[]
+    computedPay?: ComputedPay
+    seriesId?: string
+    seriesOccurrenceDate?: Date
   }
 ): Promise<Shift | null> {
   // Pour guard_24h : breakDuration = somme des breakMinutes des segments effectifs
@@ -173,8 +189,10 @@ export async function createShift(
       is_requalified: shiftData.isRequalified ?? false,
       effective_hours: shiftData.effectiveHours ?? null,
       guard_segments: shiftData.guardSegments ?? null,
+      series_id: shiftData.seriesId ?? null,
+      series_occurrence_date: shiftData.seriesOccurrenceDate?.toISOString().split('T')[0] ?? null,
       status: 'planned',
-      computed_pay: {},
+      computed_pay: shiftData.computedPay ?? {},
       validated_by_employer: false,
       validated_by_employee: false,
     })
@@ -183,7 +201,7 @@ export async function createShift(
 
   if (error) {
     logger.error('Erreur création shift:', error)
-    throw new Error(error.message)
+    throw new Error(isTimesheetLockedError(error.message) ? TIMESHEET_LOCKED_MESSAGE : error.message)
   }
 
   track('Shift Created')
@@ -228,6 +246,10 @@ export async function updateShift(
     guardSegments: GuardSegment[]
     status: Shift['status']
     lateEntry: boolean
+    actualReview: ActualReview | null
+    computedPay: ComputedPay
+    isSeriesException: boolean
+    taskCompletions: ShiftTaskCompletion[]
   }>
 ): Promise<void> {
   const payload: Record<string, unknown> = {
@@ -253,6 +275,19 @@ export async function updateShift(
   }
   if (updates.status) payload.status = updates.status
   if (updates.lateEntry !== undefined) payload.late_entry = updates.lateEntry
+  if (updates.actualReview !== undefined) payload.actual_review = updates.actualReview
+  if (updates.computedPay) payload.computed_pay = updates.computedPay
+  if (updates.isSeriesException !== undefined) payload.is_series_exception = updates.isSeriesException
+  if (updates.taskCompletions) {
+    payload.task_completions = updates.taskCompletions.map((c): ShiftTaskCompletionDb => ({
+      task: c.task,
+      status: c.status,
+      ...(c.reason?.trim() && { reason: sanitizeText(c.reason.trim()) }),
+      ...(c.comment?.trim() && { comment: sanitizeText(c.comment.trim()) }),
+      completed_at: c.completedAt.toISOString(),
+      completed_by: c.completedBy,
+    }))
+  }
 
   const { error } = await supabase
     .from('shifts')
@@ -261,7 +296,7 @@ export async function updateShift(
 
   if (error) {
     logger.error('Erreur mise à jour shift:', error)
-    throw new Error(error.message)
+    throw new Error(isTimesheetLockedError(error.message) ? TIMESHEET_LOCKED_MESSAGE : error.message)
   }
 
   // Notifier l'auxiliaire si l'horaire/date a changé (pas un simple changement de status)
@@ -339,6 +374,9 @@ export async function createShifts(
     isRequalified?: boolean
     effectiveHours?: number
     guardSegments?: GuardSegment[]
+    computedPay?: ComputedPay
+    seriesId?: string
+    seriesOccurrenceDate?: Date
   }>
 ): Promise<{ created: Shift[]; failed: Date[] }> {
   const created: Shift[] = []
@@ -365,7 +403,7 @@ export async function deleteShift(shiftId: string): Promise<void> {
 
   if (error) {
     logger.error('Erreur suppression shift:', error)
-    throw new Error(error.message)
+    throw new Error(isTimesheetLockedError(error.message) ? TIMESHEET_LOCKED_MESSAGE : error.message)
   }
 }
 
@@ -389,6 +427,98 @@ export async function validateShift(
   }
 }
 
+/**
+ * Paie de l'intervention aux horaires retenus après la revue (cf. `getPayableTimes`),
+ * aux conditions du contrat en vigueur ce jour-là et avec le cumul de sa semaine.
+ */
+async function computeReviewedPay(shift: Shift): Promise<ComputedPay> {
+  const contract = await getContractById(shift.contractId)
+  if (!contract) {
+    throw new Error('Contrat de l\'intervention introuvable')
+  }
+
+  const weekStart = getWeekStart(shift.date)
+  const weekEnd = new Date(weekStart)
+  weekEnd.setDate(weekEnd.getDate() + 6)
+
+  const [settings, amendments, weekResult] = await Promise.all([
+    getConventionSettings(contract.employerId),
+    getContractAmendments(contract.id),
+    supabase
+      .from('shifts')
+      .select('*')
+      .eq('contract_id', contract.id)
+      .neq('status', 'cancelled')
+      .gte('date', format(weekStart, 'yyyy-MM-dd'))
+      .lte('date', format(weekEnd, 'yyyy-MM-dd')),
+  ])
+
+  if (weekResult.error) {
+    logger.error('Erreur récupération semaine de l\'intervention:', weekResult.error)
+    throw new Error(weekResult.error.message)
+  }
+
+  const toShiftForValidation = (s: Shift): ShiftForValidation => ({
+    id: s.id,
+    contractId: contract.id,
+    employeeId: contract.employeeId ?? '',
+    date: new Date(s.date),
+    ...getPayableTimes(s),
+    breakDuration: s.breakDuration,
+    shiftType: s.shiftType,
+    hasNightAction: s.hasNightAction,
+    nightInterventionsCount: s.nightInterventionsCount,
+    guardSegments: s.guardSegments,
+  })
+
+  return calculateShiftPay(
+    toShiftForValidation(shift),
+    {
+      id: contract.id,
+      weeklyHours: contract.weeklyHours,
+      hourlyRate: contract.hourlyRate,
+      termsHistory: amendments,
+    },
+    ((weekResult.data || []) as ShiftDbRow[])
+      .map(mapShiftFromDb)
+      .filter((s) => s.id !== shift.id)
+      .map(toShiftForValidation),
+    false,
+    getPayRateSet(settings)
+  )
+}
+
+/**
+ * Décision de l'employeur sur l'écart entre heures prévues et réelles.
+ * Acceptées, les heures réelles remplacent le planning dans la paie et la déclaration CESU :
+ * la paie enregistrée de l'intervention est recalculée en conséquence.
+ */
+export async function reviewShiftActualTimes(
+  shiftId: string,
+  decision: ActualReview
+): Promise<void> {
+  const shift = await getShiftById(shiftId)
+  if (!shift) {
+    throw new Error('Intervention introuvable')
+  }
+
+  const computedPay = await computeReviewedPay({ ...shift, actualReview: decision })
+
+  const { error } = await supabase
+    .from('shifts')
+    .update({
+      actual_review: decision,
+      computed_pay: computedPay,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', shiftId)
+
+  if (error) {
+    logger.error('Erreur revue écart horaires:', error)
+    throw new Error(isTimesheetLockedError(error.message) ? TIMESHEET_LOCKED_MESSAGE : error.message)
+  }
+}
+
 // ============================================
 // SHIFT REMINDERS QUERY
 // ============================================
@@ -454,6 +584,17 @@ function mapShiftFromDb(data: ShiftDbRow): Shift {
     guardSegments: data.guard_segments ?? undefined,
     status: data.status,
     lateEntry: data.late_entry ?? false,
+    clockInMethod: data.clock_in_method ?? undefined,
+    clockOutMethod: data.clock_out_method ?? undefined,
+    clockedInAt: data.clocked_in_at ? new Date(data.clocked_in_at) : undefined,
+    clockedOutAt: data.clocked_out_at ? new Date(data.clocked_out_at) : undefined,
+    clockSyncedAt: data.clock_synced_at ? new Date(data.clock_synced_at) : undefined,
+    actualReview: data.actual_review ?? undefined,
+    actualReviewedAt: data.actual_reviewed_at ? new Date(data.actual_reviewed_at) : undefined,
+    seriesId: data.series_id ?? undefined,
+    seriesOccurrenceDate: data.series_occurrence_date ? new Date(data.series_occurrence_date) : undefined,
+    isSeriesException: data.is_series_exception ?? false,
+    taskCompletions: (data.task_completions ?? []).map(mapTaskCompletionFromDb),
     computedPay: data.computed_pay || {
       basePay: 0,
       sundayMajoration: 0,
@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { addShiftTrip, deleteShiftTrip, getShiftTrips } from './shiftTripService'
+import { createMockSupabaseChain } from '@/test/fixtures'
+
+// ============================================================
+// MOCKS
+// ============================================================
+
+const mockFrom = vi.fn()
+
+vi.mock('@/lib/supabase/client', () => ({
+  supabase: {
+    from: (...args: unknown[]) => mockFrom(...args),
+  },
+}))
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn(), debug: vi.fn() },
+}))
+
+const tripRow = {
+  id: 'trip-1',
+  shift_id: 'shift-1',
+  contract_id: 'contract-1',
+  employer_id: 'employer-1',
+  employee_id: 'employee-1',
+  purpose: 'Pharmacie',
+  distance_km: '12.4',
+  vehicle: 'employee',
+  created_by: 'employee-1',
+  created_at: '2026-03-10T10:00:00Z',
+}
+
+describe('shiftTripService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('mappe les trajets d\'une intervention', async () => {
+    mockFrom.mockReturnValue(createMockSupabaseChain({ data: [tripRow], error: null }).fromReturn)
+
+    const trips = await getShiftTrips('shift-1')
+
+    expect(mockFrom).toHaveBeenCalledWith('shift_trips')
+    expect(trips[0]).toMatchObject({ purpose: 'Pharmacie', distanceKm: 12.4, vehicle: 'employee' })
+  })
+
+  it('arrondit la distance au dixième à l\'enregistrement', async () => {
+    const query = createMockSupabaseChain({ data: tripRow, error: null })
+    mockFrom.mockReturnValue(query.fromReturn)
+
+    await addShiftTrip('shift-1', { purpose: ' Pharmacie ', distanceKm: 12.44, vehicle: 'employee' })
+
+    expect(query.insert).toHaveBeenCalledWith({
+      shift_id: 'shift-1',
+      purpose: 'Pharmacie',
+      distance_km: 12.4,
+      vehicle: 'employee',
+    })
+  })
+
+  it('signale l\'échec de suppression', async () => {
+    mockFrom.mockReturnValue(createMockSupabaseChain({ data: null, error: { message: 'denied' } }).fromReturn)
+
+    await expect(deleteShiftTrip('trip-1')).rejects.toThrow('Impossible de supprimer le trajet.')
+  })
+})
@@ -0,0 +1,81 @@
+/**
+ * Service des déplacements effectués pendant une intervention
+ *
+ * Un trajet = motif, kilomètres saisis à la main et véhicule utilisé. Le
+ * contrat, l'employeur et l'auxiliaire sont renseignés en base depuis
+ * l'intervention ; l'indemnité est calculée à l'affichage et dans la
+ * déclaration CESU (`summarizeMileage`).
+ */
+
+import { supabase } from '@/lib/supabase/client'
+import { logger } from '@/lib/logger'
+import { sanitizeText } from '@/lib/sanitize'
+import type { ShiftTrip, TripVehicle } from '@/types'
+import type { ShiftTripDbRow } from '@/types/database'
+
+export interface ShiftTripInput {
+  purpose: string
+  distanceKm: number
+  vehicle: TripVehicle
+}
+
+function mapTripFromDb(row: ShiftTripDbRow): ShiftTrip {
+  return {
+    id: row.id,
+    shiftId: row.shift_id,
+    contractId: row.contract_id,
+    employerId: row.employer_id,
+    employeeId: row.employee_id,
+    shiftDate: row.shift?.date ? new Date(`${row.shift.date}T00:00:00`) : undefined,
+    purpose: row.purpose,
+    distanceKm: Number(row.distance_km) || 0,
+    vehicle: row.vehicle,
+    createdBy: row.created_by,
+    createdAt: new Date(row.created_at),
+  }
+}
+
+/** Trajets d'une intervention, dans l'ordre de saisie */
+export async function getShiftTrips(shiftId: string): Promise<ShiftTrip[]> {
+  const { data, error } = await supabase
+    .from('shift_trips')
+    .select('*')
+    .eq('shift_id', shiftId)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    logger.error('Erreur chargement trajets intervention:', error)
+    return []
+  }
+
+  return ((data || []) as unknown as ShiftTripDbRow[]).map(mapTripFromDb)
+}
+
+export async function addShiftTrip(shiftId: string, input: ShiftTripInput): Promise<ShiftTrip> {
+  const { data, error } = await supabase
+    .from('shift_trips')
+    .insert({
+      shift_id: shiftId,
+      purpose: sanitizeText(input.purpose.trim()),
+      distance_km: Math.round(input.distanceKm * 10) / 10,
+      vehicle: input.vehicle,
+    })
+    .select('*')
+    .single()
+
+  if (error) {
+    logger.error('Erreur enregistrement trajet:', error)
+    throw new Error("Impossible d'enregistrer le trajet.")
+  }
+
+  return mapTripFromDb(data as unknown as ShiftTripDbRow)
+}
+
+export async function deleteShiftTrip(tripId: string): Promise<void> {
+  const { error } = await supabase.from('shift_trips').delete().eq('id', tripId)
+
+  if (error) {
+    logger.error('Erreur suppression trajet:', error)
+    throw new Error('Impossible de supprimer le trajet.')
+  }
+}
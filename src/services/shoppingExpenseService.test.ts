@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import {
+  getMonthlyShoppingExpenses,
+  saveShiftShoppingExpense,
+  markShoppingExpensesReimbursed,
+  uploadShoppingReceipt,
+  EXPENSE_ALREADY_REIMBURSED_MESSAGE,
+} from './shoppingExpenseService'
+import { createMockSupabaseChain } from '@/test/fixtures'
+import type { ShoppingPurchase } from '@/types'
+
+// ============================================================
+// MOCKS
+// ============================================================
+
+const mockFrom = vi.fn()
+const mockRpc = vi.fn()
+const mockUploadAttachment = vi.fn()
+const mockEnsureTeamConversation = vi.fn()
+
+vi.mock('@/lib/supabase/client', () => ({
+  supabase: {
+    from: (...args: unknown[]) => mockFrom(...args),
+    rpc: (...args: unknown[]) => mockRpc(...args),
+  },
+}))
+
+vi.mock('@/services/attachmentService', () => ({
+  uploadAttachment: (...args: unknown[]) => mockUploadAttachment(...args),
+}))
+
+vi.mock('@/services/liaisonService', () => ({
+  ensureTeamConversation: (...args: unknown[]) => mockEnsureTeamConversation(...args),
+}))
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn(), debug: vi.fn() },
+}))
+
+const expenseRow = {
+  id: 'exp-1',
+  shift_id: 'shift-1',
+  contract_id: 'contract-1',
+  employer_id: 'employer-1',
+  employee_id: 'employee-1',
+  items: [
+    { name: 'Lait', brand: 'Lactel', planned_quantity: 2, quantity: 2, price: 2.4, bought: true },
+  ],
+  receipts: [],
+  amount_advanced: '2.40',
+  reimbursed_at: null,
+  created_at: '2026-03-10T10:00:00Z',
+  updated_at: '2026-03-10T10:00:00Z',
+  shift: { date: '2026-03-10' },
+}
+
+const purchase: ShoppingPurchase = {
+  name: ' Lait ',
+  brand: 'Lactel',
+  plannedQuantity: 2,
+  quantity: 2,
+  price: 2.404,
+  bought: true,
+}
+
+describe('shoppingExpenseService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('getMonthlyShoppingExpenses', () => {
+    it('filtre sur les dates d\'intervention du mois et mappe les montants', async () => {
+      const query = createMockSupabaseChain({ data: [expenseRow], error: null })
+      mockFrom.mockReturnValue(query.fromReturn)
+
+      const result = await getMonthlyShoppingExpenses(['contract-1'], 2026, 2)
+
+      expect(mockFrom).toHaveBeenCalledWith('shopping_expenses')
+      expect(query.gte).toHaveBeenCalledWith('shift.date', '2026-02-01')
+      expect(query.lte).toHaveBeenCalledWith('shift.date', '2026-02-28')
+      expect(result[0]).toMatchObject({
+        contractId: 'contract-1',
+        amountAdvanced: 2.4,
+        shiftDate: new Date(2026, 2, 10),
+      })
+      expect(result[0].items[0]).toMatchObject({ plannedQuantity: 2, price: 2.4, bought: true })
+    })
+
+    it('ne requête pas sans contrat', async () => {
+      expect(await getMonthlyShoppingExpenses([], 2026, 2)).toEqual([])
+      expect(mockFrom).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('saveShiftShoppingExpense', () => {
+    it('envoie les achats en snake_case, prix arrondis au centime', async () => {
+      mockRpc.mockResolvedValue({ data: expenseRow, error: null })
+
+      await saveShiftShoppingExpense('shift-1', [purchase], [])
+
+      expect(mockRpc).toHaveBeenCalledWith('save_shopping_expense', {
+        p_shift_id: 'shift-1',
+        p_items: [
+          { name: 'Lait', brand: 'Lactel', planned_quantity: 2, quantity: 2, price: 2.4, bought: true },
+        ],
+        p_receipts: [],
+      })
+    })
+
+    it('traduit le refus sur des frais déjà remboursés', async () => {
+      mockRpc.mockResolvedValue({ data: null, error: { message: 'already_reimbursed' } })
+
+      await expect(saveShiftShoppingExpense('shift-1', [purchase], [])).rejects.toThrow(
+        EXPENSE_ALREADY_REIMBURSED_MESSAGE
+      )
+    })
+  })
+
+  describe('uploadShoppingReceipt', () => {
+    it('dépose le ticket dans la conversation d\'équipe', async () => {
+      const file = new File(['x'], 'ticket.jpg', { type: 'image/jpeg' })
+      mockEnsureTeamConversation.mockResolvedValue('conv-1')
+      mockUploadAttachment.mockResolvedValue({ name: 'ticket.jpg' })
+
+      await uploadShoppingReceipt('employer-1', 'employee-1', file)
+
+      expect(mockUploadAttachment).toHaveBeenCalledWith('conv-1', 'employee-1', file)
+    })
+  })
+
+  describe('markShoppingExpensesReimbursed', () => {
+    it('renvoie le nombre d\'interventions remboursées', async () => {
+      mockRpc.mockResolvedValue({ data: 3, error: null })
+
+      expect(await markShoppingExpensesReimbursed('contract-1', 2026, 3)).toBe(3)
+      expect(mockRpc).toHaveBeenCalledWith('mark_shopping_expenses_reimbursed', {
+        p_contract_id: 'contract-1',
+        p_month: '2026-03-01',
+      })
+    })
+  })
+})
@@ -0,0 +1,164 @@
+/**
+ * Service des courses d'intervention et des frais avancés
+ *
+ * Une ligne `shopping_expenses` par intervention : articles achetés (quantité
+ * et prix réels), photos des tickets de caisse et montant avancé, recalculé
+ * par `save_shopping_expense`. L'employeur rembourse les frais d'un mois par
+ * auxiliaire (`mark_shopping_expenses_reimbursed`) ; un enregistrement
+ * remboursé n'est plus modifiable.
+ *
+ * Les tickets sont déposés avec les pièces jointes du cahier de liaison,
+ * dans le dossier de la conversation d'équipe de l'employeur.
+ */
+
+import { format } from 'date-fns'
+import { supabase } from '@/lib/supabase/client'
+import { logger } from '@/lib/logger'
+import { sanitizeText } from '@/lib/sanitize'
+import { uploadAttachment } from '@/services/attachmentService'
+import { ensureTeamConversation } from '@/services/liaisonService'
+import type { Attachment, ShoppingExpense, ShoppingPurchase } from '@/types'
+import type { ShoppingExpenseDbRow, ShoppingPurchaseDb } from '@/types/database'
+
+export const EXPENSE_ALREADY_REIMBURSED_MESSAGE =
+  'Ces frais ont déjà été remboursés : ils ne peuvent plus être modifiés.'
+
+function mapPurchaseFromDb(row: ShoppingPurchaseDb): ShoppingPurchase {
+  return {
+    name: row.name,
+    brand: row.brand ?? '',
+    plannedQuantity: row.planned_quantity ?? 0,
+    quantity: row.quantity ?? 0,
+    price: row.price ?? undefined,
+    bought: !!row.bought,
+  }
+}
+
+function mapExpenseFromDb(row: ShoppingExpenseDbRow): ShoppingExpense {
+  return {
+    id: row.id,
+    shiftId: row.shift_id,
+    contractId: row.contract_id,
+    employerId: row.employer_id,
+    employeeId: row.employee_id,
+    shiftDate: row.shift?.date ? new Date(`${row.shift.date}T00:00:00`) : undefined,
+    items: (row.items ?? []).map(mapPurchaseFromDb),
+    receipts: row.receipts ?? [],
+    amountAdvanced: Number(row.amount_advanced) || 0,
+    reimbursedAt: row.reimbursed_at ? new Date(row.reimbursed_at) : undefined,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  }
+}
+
+function toPurchaseDb(item: ShoppingPurchase): ShoppingPurchaseDb {
+  return {
+    name: sanitizeText(item.name.trim()),
+    brand: sanitizeText(item.brand.trim()),
+    planned_quantity: item.plannedQuantity,
+    quantity: Math.max(0, item.quantity),
+    price: item.price != null && item.price >= 0 ? Math.round(item.price * 100) / 100 : null,
+    bought: item.bought,
+  }
+}
+
+// ============================================
+// COURSES D'UNE INTERVENTION
+// ============================================
+
+/** Achats enregistrés pour une intervention (null si rien n'a été saisi) */
+export async function getShiftShoppingExpense(shiftId: string): Promise<ShoppingExpense | null> {
+  const { data, error } = await supabase
+    .from('shopping_expenses')
+    .select('*, shift:shifts(date)')
+    .eq('shift_id', shiftId)
+    .maybeSingle()
+
+  if (error) {
+    logger.error('Erreur chargement courses intervention:', error)
+    return null
+  }
+
+  return data ? mapExpenseFromDb(data as unknown as ShoppingExpenseDbRow) : null
+}
+
+/** Enregistre les achats et tickets de l'intervention (auxiliaire du contrat) */
+export async function saveShiftShoppingExpense(
+  shiftId: string,
+  items: ShoppingPurchase[],
+  receipts: Attachment[]
+): Promise<ShoppingExpense> {
+  const { data, error } = await supabase.rpc('save_shopping_expense', {
+    p_shift_id: shiftId,
+    p_items: items.map(toPurchaseDb),
+    p_receipts: receipts,
+  })
+
+  if (error) {
+    logger.error('Erreur enregistrement courses:', error)
+    throw new Error(
+      error.message.includes('already_reimbursed') ? EXPENSE_ALREADY_REIMBURSED_MESSAGE : error.message
+    )
+  }
+
+  return mapExpenseFromDb(data as unknown as ShoppingExpenseDbRow)
+}
+
+/** Dépose la photo d'un ticket de caisse */
+export async function uploadShoppingReceipt(
+  employerId: string,
+  authorId: string,
+  file: File
+): Promise<Attachment> {
+  const conversationId = await ensureTeamConversation(employerId)
+  if (!conversationId) {
+    throw new Error("Impossible d'enregistrer le ticket pour le moment.")
+  }
+  return uploadAttachment(conversationId, authorId, file)
+}
+
+// ============================================
+// FRAIS AVANCÉS (récapitulatif mensuel)
+// ============================================
+
+/** Frais avancés des interventions du mois pour les contrats donnés */
+export async function getMonthlyShoppingExpenses(
+  contractIds: string[],
+  year: number,
+  month: number
+): Promise<ShoppingExpense[]> {
+  if (contractIds.length === 0) return []
+
+  const { data, error } = await supabase
+    .from('shopping_expenses')
+    .select('*, shift:shifts!inner(date)')
+    .in('contract_id', contractIds)
+    .gte('shift.date', format(new Date(year, month - 1, 1), 'yyyy-MM-dd'))
+    .lte('shift.date', format(new Date(year, month, 0), 'yyyy-MM-dd'))
+
+  if (error) {
+    logger.error('Erreur chargement frais avancés:', error)
+    return []
+  }
+
+  return ((data || []) as unknown as ShoppingExpenseDbRow[]).map(mapExpenseFromDb)
+}
+
+/** Marque remboursés les frais du mois d'un contrat. Renvoie le nombre d'interventions concernées. */
+export async function markShoppingExpensesReimbursed(
+  contractId: string,
+  year: number,
+  month: number
+): Promise<number> {
+  const { data, error } = await supabase.rpc('mark_shopping_expenses_reimbursed', {
+    p_contract_id: contractId,
+    p_month: format(new Date(year, month - 1, 1), 'yyyy-MM-dd'),
+  })
+
+  if (error) {
+    logger.error('Erreur remboursement frais avancés:', error)
+    throw new Error(error.message)
+  }
+
+  return (data as number | null) ?? 0
+}
@@ -0,0 +1,386 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import {
+  getSignatureRequests,
+  requestContractSignature,
+  requestTimesheetSignature,
+  signDocument,
+  sealSignatureRequest,
+  remindSigner,
+  SIGNATURE_ERROR_MESSAGES,
+} from './signatureService'
+import { sha256Hex } from '@/lib/contract/signature'
+import { createMockSupabaseChain } from '@/test/fixtures'
+import type { TimesheetPdfData } from '@/lib/export'
+import type { Contract, SignatureRequest, Timesheet } from '@/types'
+
+// ─── Mocks ──────────────────────────────────────────────────────────
+
+const mockRpc = vi.fn()
+const mockFrom = vi.fn()
+const mockUpload = vi.fn()
+const mockDownload = vi.fn()
+const mockLogAudit = vi.fn()
+const mockGeneratePdf = vi.fn()
+const mockGenerateTimesheetPdf = vi.fn()
+const mockInvoke = vi.fn()
+const mockRequestedNotification = vi.fn()
+const mockSignedNotification = vi.fn()
+
+vi.mock('@/lib/supabase/client', () => ({
+  supabase: {
+    rpc: (...args: unknown[]) => mockRpc(...args),
+    from: (...args: unknown[]) => mockFrom(...args),
+    auth: {
+      getSession: vi.fn().mockResolvedValue({ data: { session: { access_token: 'token-1' } } }),
+    },
+    functions: {
+      invoke: (...args: unknown[]) => mockInvoke(...args),
+    },
+    storage: {
+      from: () => ({
+        upload: (...args: unknown[]) => mockUpload(...args),
+        download: (...args: unknown[]) => mockDownload(...args),
+      }),
+    },
+  },
+}))
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn(), debug: vi.fn() },
+}))
+
+vi.mock('@/lib/export', async (importOriginal) => ({
+  parseTimesheetPdfData: (await importOriginal<typeof import('@/lib/export')>()).parseTimesheetPdfData,
+  generateContractDocumentPdf: (...args: unknown[]) => mockGeneratePdf(...args),
+  generateTimesheetPdf: (...args: unknown[]) => mockGenerateTimesheetPdf(...args),
+  getContractDocumentTitle: () => 'Contrat de travail CDI',
+  getTimesheetDocumentTitle: () => "Relevé d'heures — Février 2026",
+}))
+
+vi.mock('@/services/auditService', () => ({
+  logAudit: (...args: unknown[]) => mockLogAudit(...args),
+}))
+
+vi.mock('@/services/contractAmendmentService', () => ({
+  getContractAmendments: vi.fn().mockResolvedValue([]),
+}))
+
+vi.mock('@/services/profileService', () => ({
+  getProfileName: vi.fn(async (id: string) => (id === 'employer-1' ? 'Paul Durand' : 'Hélène Martin')),
+  getEmployer: vi.fn().mockResolvedValue(null),
+  getEmployee: vi.fn().mockResolvedValue(null),
+}))
+
+vi.mock('@/services/notificationService', () => ({
+  createSignatureRequestedNotification: (...args: unknown[]) => mockRequestedNotification(...args),
+  createDocumentSignedNotification: (...args: unknown[]) => mockSignedNotification(...args),
+}))
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+// "%PDF" encodé en base64
+const PDF_DATA_URI = 'data:application/pdf;base64,JVBERg=='
+const PDF_BYTES = new Uint8Array([37, 80, 68, 70])
+
+function makeRequestRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'req-1',
+    employer_id: 'employer-1',
+    employee_id: 'employee-1',
+    contract_id: 'contract-1',
+    amendment_id: null,
+    timesheet_id: null,
+    document_type: 'contract',
+    title: 'Contrat de travail CDI',
+    document_hash: 'a'.repeat(64),
+    document_path: 'employer-1/employee-1/contract-1/signatures/doc.pdf',
+    status: 'pending',
+    sealed_path: null,
+    sealed_hash: null,
+    employer_signed_at: null,
+    employee_signed_at: null,
+    last_reminded_at: null,
+    created_at: '2026-03-01T10:00:00.000Z',
+    updated_at: '2026-03-01T10:00:00.000Z',
+    completed_at: null,
+    ...overrides,
+  }
+}
+
+const contract = {
+  id: 'contract-1',
+  employerId: 'employer-1',
+  employeeId: 'employee-1',
+  contractType: 'CDI',
+  contractCategory: 'employment',
+  startDate: new Date(2026, 0, 5),
+  weeklyHours: 20,
+  hourlyRate: 14,
+  pasRate: 0,
+  status: 'active',
+} as Contract
+
+const pendingRequest: SignatureRequest = {
+  id: 'req-1',
+  employerId: 'employer-1',
+  employeeId: 'employee-1',
+  contractId: 'contract-1',
+  documentType: 'contract',
+  title: 'Contrat de travail CDI',
+  documentHash: 'a'.repeat(64),
+  documentPath: 'employer-1/employee-1/contract-1/signatures/doc.pdf',
+  status: 'pending',
+  createdAt: new Date('2026-03-01T10:00:00.000Z'),
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  mockUpload.mockResolvedValue({ error: null })
+  mockDownload.mockResolvedValue({ data: new Blob([PDF_BYTES]), error: null })
+  mockGeneratePdf.mockResolvedValue({ success: true, filename: 'contrat.pdf', content: PDF_DATA_URI, mimeType: 'application/pdf' })
+  mockGenerateTimesheetPdf.mockResolvedValue({ success: true, filename: 'releve.pdf', content: PDF_DATA_URI, mimeType: 'application/pdf' })
+})
+
+// ─── Tests ──────────────────────────────────────────────────────────
+
+describe('getSignatureRequests', () => {
+  it('ne requête pas sans contrat', async () => {
+    expect(await getSignatureRequests([])).toEqual([])
+    expect(mockFrom).not.toHaveBeenCalled()
+  })
+
+  it('mappe les demandes', async () => {
+    mockFrom.mockReturnValue(createMockSupabaseChain({ data: [makeRequestRow({ employer_signed_at: '2026-03-02T09:00:00.000Z' })], error: null }).fromReturn)
+
+    const [request] = await getSignatureRequests(['contract-1'])
+
+    expect(request).toMatchObject({ id: 'req-1', status: 'pending', amendmentId: undefined })
+    expect(request.employerSignedAt).toEqual(new Date('2026-03-02T09:00:00.000Z'))
+  })
+})
+
+describe('requestContractSignature', () => {
+  it('dépose le PDF, enregistre son empreinte et invite le salarié', async () => {
+    const insertQuery = createMockSupabaseChain({ data: makeRequestRow(), error: null })
+    mockFrom.mockReturnValue(insertQuery.fromReturn)
+
+    const result = await requestContractSignature(contract)
+
+    expect(result.success).toBe(true)
+    expect(mockUpload).toHaveBeenCalledWith(
+      expect.stringMatching(/^employer-1\/employee-1\/contract-1\/signatures\/.+\.pdf$/),
+      expect.any(Blob),
+      { contentType: 'application/pdf' }
+    )
+    expect(insertQuery.insert).toHaveBeenCalledWith(expect.objectContaining({
+      document_type: 'contract',
+      amendment_id: null,
+      document_hash: await sha256Hex(PDF_BYTES),
+      document_data: expect.objectContaining({ employerName: 'Paul Durand', employeeName: 'Hélène Martin', weeklyHours: 20 }),
+    }))
+    expect(mockLogAudit).toHaveBeenCalledWith(expect.objectContaining({ action: 'create', resource: 'signature_requests', resourceId: 'req-1' }))
+    expect(mockRequestedNotification).toHaveBeenCalledWith('employee-1', 'Paul Durand', 'Contrat de travail CDI')
+  })
+
+  it('refuse une seconde demande en cours', async () => {
+    mockFrom.mockReturnValue(createMockSupabaseChain({ data: null, error: { code: '23505', message: 'duplicate key' } }).fromReturn)
+
+    const result = await requestContractSignature(contract)
+
+    expect(result).toEqual({ success: false, error: 'already_requested' })
+    expect(mockRequestedNotification).not.toHaveBeenCalled()
+  })
+})
+
+describe('requestTimesheetSignature', () => {
+  const timesheet: Timesheet = {
+    id: 'ts-1',
+    contractId: 'contract-1',
+    year: 2026,
+    month: 2,
+    status: 'locked',
+    contentHash: 'b'.repeat(64),
+    submittedBy: 'employee-1',
+    submittedAt: new Date('2026-03-02T10:00:00.000Z'),
+    employerSignedAt: new Date('2026-03-03T09:00:00.000Z'),
+    createdAt: new Date('2026-03-02T10:00:00.000Z'),
+    updatedAt: new Date('2026-03-03T09:00:00.000Z'),
+  }
+  const data: TimesheetPdfData = {
+    timesheet,
+    employeeName: 'Hélène Martin',
+    employerName: 'Paul Durand',
+    shifts: [],
+    corrections: [],
+    generatedAt: new Date('2026-03-04T08:00:00.000Z'),
+  }
+
+  it('soumet un relevé contresigné à la signature des deux parties', async () => {
+    const insertQuery = createMockSupabaseChain({
+      data: makeRequestRow({ document_type: 'timesheet', timesheet_id: 'ts-1', title: "Relevé d'heures — Février 2026" }),
+      error: null,
+    })
+    mockFrom.mockReturnValue(insertQuery.fromReturn)
+
+    const result = await requestTimesheetSignature(contract, data)
+
+    expect(mockGenerateTimesheetPdf).toHaveBeenCalledWith(data)
+    expect(insertQuery.insert).toHaveBeenCalledWith(expect.objectContaining({
+      document_type: 'timesheet',
+      timesheet_id: 'ts-1',
+      amendment_id: null,
+      document_data: data,
+      document_hash: await sha256Hex(PDF_BYTES),
+    }))
+    expect(result.success && result.data.timesheetId).toBe('ts-1')
+    expect(mockRequestedNotification).toHaveBeenCalledWith('employee-1', 'Paul Durand', "Relevé d'heures — Février 2026")
+  })
+
+  it('refuse un relevé non contresigné', async () => {
+    const result = await requestTimesheetSignature(contract, { ...data, timesheet: { ...timesheet, status: 'submitted' } })
+
+    expect(result).toEqual({ success: false, error: 'timesheet_not_locked' })
+    expect(mockUpload).not.toHaveBeenCalled()
+  })
+})
+
+describe('signDocument', () => {
+  const input = { method: 'typed' as const, signatureData: 'Paul Durand', signerName: ' Paul Durand ' }
+
+  it('transmet l\'empreinte recalculée du document déposé', async () => {
+    mockRpc.mockResolvedValue({ data: makeRequestRow({ employer_signed_at: '2026-03-02T09:00:00.000Z' }), error: null })
+
+    const result = await signDocument(pendingRequest, input)
+
+    expect(mockDownload).toHaveBeenCalledWith(pendingRequest.documentPath)
+    expect(mockRpc).toHaveBeenCalledWith('sign_document', expect.objectContaining({
+      p_request_id: 'req-1',
+      p_method: 'typed',
+      p_signer_name: 'Paul Durand',
+      p_document_hash: await sha256Hex(PDF_BYTES),
+      p_consent_text: expect.stringContaining('signer électroniquement'),
+    }))
+    expect(mockLogAudit).toHaveBeenCalledWith(expect.objectContaining({ action: 'sign', resourceId: 'req-1' }))
+    expect(mockSignedNotification).toHaveBeenCalledWith('employee-1', 'Paul Durand', 'Contrat de travail CDI', false)
+    expect(result.success && result.data.status).toBe('pending')
+  })
+
+  it('scelle le document après la dernière signature', async () => {
+    const signedAt = { employer_signed_at: '2026-03-02T09:00:00.000Z', employee_signed_at: '2026-03-03T09:00:00.000Z' }
+    mockRpc.mockResolvedValue({ data: makeRequestRow(signedAt), error: null })
+    mockInvoke.mockResolvedValue({
+      data: { request: makeRequestRow({ ...signedAt, status: 'signed', sealed_path: 'sealed.pdf', sealed_hash: 'c'.repeat(64) }) },
+      error: null,
+    })
+    mockFrom.mockImplementation((table: string) =>
+      table === 'signature_requests'
+        ? createMockSupabaseChain({ data: { document_data: { documentType: 'contract' } }, error: null }).fromReturn
+        : createMockSupabaseChain({
+            data: [{
+              id: 'sig-1', request_id: 'req-1', signer_id: 'employer-1', signer_role: 'employer', signer_name: 'Paul Durand',
+              method: 'typed', signature_data: 'Paul Durand', document_hash: 'a'.repeat(64), signed_at: signedAt.employer_signed_at,
+            }],
+            error: null,
+          }).fromReturn
+    )
+
+    const result = await signDocument({ ...pendingRequest, employerSignedAt: new Date(signedAt.employer_signed_at) }, {
+      method: 'typed', signatureData: 'Hélène Martin', signerName: 'Hélène Martin',
+    })
+
+    expect(mockGeneratePdf).toHaveBeenCalledWith(
+      { documentType: 'contract' },
+      expect.objectContaining({ documentHash: 'a'.repeat(64), signatures: [expect.objectContaining({ signerRole: 'employer' })] })
+    )
+    expect(mockUpload).toHaveBeenCalledWith(expect.stringMatching(/-signe\.pdf$/), expect.any(Blob), expect.anything())
+    // L'empreinte du PDF scellé est calculée par la fonction edge, pas par le client
+    expect(mockInvoke).toHaveBeenCalledWith('seal-signature-request', {
+      body: { requestId: 'req-1', sealedPath: expect.stringMatching(/-signe\.pdf$/) },
+      headers: { Authorization: 'Bearer token-1' },
+    })
+    expect(mockRpc).not.toHaveBeenCalledWith('seal_signature_request', expect.anything())
+    expect(mockSignedNotification).toHaveBeenCalledWith('employer-1', 'Hélène Martin', 'Contrat de travail CDI', true)
+    expect(result.success && result.data.status).toBe('signed')
+  })
+
+  it('refuse un document modifié', async () => {
+    mockRpc.mockResolvedValue({ data: null, error: { message: 'document_changed' } })
+
+    const result = await signDocument(pendingRequest, input)
+
+    expect(result).toEqual({ success: false, error: 'document_changed' })
+    expect(SIGNATURE_ERROR_MESSAGES.document_changed).toContain('nouvel envoi')
+    expect(mockSignedNotification).not.toHaveBeenCalled()
+  })
+
+  it('signale un document indisponible', async () => {
+    mockDownload.mockResolvedValue({ data: null, error: { message: 'not found' } })
+
+    const result = await signDocument(pendingRequest, input)
+
+    expect(result).toEqual({ success: false, error: 'document_unavailable' })
+    expect(mockRpc).not.toHaveBeenCalled()
+  })
+})
+
+describe('sealSignatureRequest', () => {
+  it('signale un document scellé refusé par le serveur', async () => {
+    mockFrom.mockImplementation((table: string) =>
+      createMockSupabaseChain(table === 'signature_requests'
+        ? { data: { document_data: { documentType: 'contract' } }, error: null }
+        : { data: [], error: null }).fromReturn
+    )
+    mockInvoke.mockResolvedValue({ data: { error: 'invalid_sealed_document' }, error: { message: 'Edge Function returned a non-2xx status code' } })
+
+    const result = await sealSignatureRequest({
+      ...pendingRequest,
+      employerSignedAt: new Date('2026-03-02T09:00:00.000Z'),
+      employeeSignedAt: new Date('2026-03-03T09:00:00.000Z'),
+    })
+
+    expect(mockUpload).toHaveBeenCalledWith(
+      expect.stringMatching(/^employer-1\/employee-1\/contract-1\/signatures\/.+-signe\.pdf$/),
+      expect.any(Blob),
+      expect.anything()
+    )
+    expect(result).toEqual({ success: false, error: 'invalid_sealed_document' })
+  })
+
+  it('rend un relevé d\'heures scellé à partir de l\'instantané, dates relues', async () => {
+    mockFrom.mockImplementation((table: string) =>
+      createMockSupabaseChain(table === 'signature_requests'
+        ? { data: { document_data: { timesheet: { id: 'ts-1', submittedAt: '2026-03-02T10:00:00.000Z' }, generatedAt: '2026-03-04T08:00:00.000Z' } }, error: null }
+        : { data: [], error: null }).fromReturn
+    )
+    mockInvoke.mockResolvedValue({ data: { request: makeRequestRow({ document_type: 'timesheet', timesheet_id: 'ts-1', status: 'signed' }) }, error: null })
+
+    const result = await sealSignatureRequest({ ...pendingRequest, documentType: 'timesheet', timesheetId: 'ts-1' })
+
+    expect(mockGeneratePdf).not.toHaveBeenCalled()
+    expect(mockGenerateTimesheetPdf).toHaveBeenCalledWith(
+      { timesheet: { id: 'ts-1', submittedAt: new Date('2026-03-02T10:00:00.000Z') }, generatedAt: new Date('2026-03-04T08:00:00.000Z') },
+      expect.objectContaining({ documentHash: 'a'.repeat(64) })
+    )
+    expect(result.success && result.data.status).toBe('signed')
+  })
+})
+
+describe('remindSigner', () => {
+  it('relance l\'autre partie', async () => {
+    mockRpc.mockResolvedValue({ data: true, error: null })
+
+    const result = await remindSigner(pendingRequest, 'employer-1', 'Paul Durand')
+
+    expect(result.success).toBe(true)
+    expect(mockRequestedNotification).toHaveBeenCalledWith('employee-1', 'Paul Durand', 'Contrat de travail CDI', true)
+  })
+
+  it('limite les relances à une par jour', async () => {
+    mockRpc.mockResolvedValue({ data: false, error: null })
+
+    const result = await remindSigner(pendingRequest, 'employee-1', 'Hélène Martin')
+
+    expect(result).toEqual({ success: false, error: 'already_reminded' })
+    expect(mockRequestedNotification).not.toHaveBeenCalled()
+  })
+})
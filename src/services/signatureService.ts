@@ -0,0 +1,536 @@
+/**
+ * Service de signature électronique des contrats, avenants et relevés d'heures
+ *
+ * Cycle : l'employeur génère le PDF du document et le soumet à la signature
+ * (PDF déposé dans le bucket "employee-documents", dossier signatures/ du
+ * contrat, empreinte SHA-256 enregistrée avec la demande). Chaque partie
+ * signe après avoir recalculé l'empreinte du PDF déposé ; le serveur refuse
+ * toute signature dont l'empreinte diffère. Le dernier signataire dépose le
+ * PDF scellé (signatures + certificat), rendu à partir du même instantané ;
+ * la fonction edge `seal-signature-request` en calcule l'empreinte à partir
+ * du fichier déposé avant de clore la demande.
+ *
+ * Un relevé d'heures ne peut être soumis à la signature qu'une fois contresigné.
+ *
+ * Chaque étape est tracée dans le journal d'audit.
+ */
+
+import { format } from 'date-fns'
+import { supabase } from '@/lib/supabase/client'
+import { logger } from '@/lib/logger'
+import { diffContractTerms, sortTermsVersions } from '@/lib/contract/amendments'
+import {
+  SIGNATURE_CONSENT_TEXT,
+  getSignerRole,
+  hasSigned,
+  isFullySigned,
+  sha256Hex,
+} from '@/lib/contract/signature'
+import { dataUriToBytes } from '@/lib/dataUri'
+import {
+  generateContractDocumentPdf,
+  generateTimesheetPdf,
+  getContractDocumentTitle,
+  getTimesheetDocumentTitle,
+  parseTimesheetPdfData,
+  type ContractDocumentData,
+  type SignatureSeal,
+  type ExportResult,
+  type TimesheetPdfData,
+} from '@/lib/export'
+import { logAudit } from '@/services/auditService'
+import { getContractAmendments } from '@/services/contractAmendmentService'
+import { getEmployee, getEmployer, getProfileName } from '@/services/profileService'
+import {
+  createDocumentSignedNotification,
+  createSignatureRequestedNotification,
+} from '@/services/notificationService'
+import type { Address, Contract, ContractAmendment, DocumentSignature, SignatureMethod, SignatureRequest } from '@/types'
+import type { DocumentSignatureDbRow, SignatureRequestDbRow } from '@/types/database'
+
+const BUCKET = 'employee-documents'
+
+const SELECT_COLUMNS =
+  'id, employer_id, employee_id, contract_id, amendment_id, timesheet_id, document_type, title, document_hash, document_path, status, sealed_path, sealed_hash, employer_signed_at, employee_signed_at, last_reminded_at, created_at, completed_at'
+
+/** Motifs de refus (fonctions `*_signature*` / `sign_document` et étapes locales) */
+export type SignatureError =
+  | 'not_authorized'
+  | 'not_pending'
+  | 'already_signed'
+  | 'document_changed'
+  | 'consent_required'
+  | 'not_fully_signed'
+  | 'invalid_sealed_document'
+  | 'already_requested'
+  | 'already_reminded'
+  | 'document_unavailable'
+  | 'timesheet_not_locked'
+  | 'unknown'
+
+export type SignatureActionResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: SignatureError }
+
+const SERVER_ERRORS: SignatureError[] = [
+  'not_authorized',
+  'not_pending',
+  'already_signed',
+  'document_changed',
+  'consent_required',
+  'not_fully_signed',
+  'invalid_sealed_document',
+]
+
+export const SIGNATURE_ERROR_MESSAGES: Record<SignatureError, string> = {
+  not_authorized: "Vous n'êtes pas autorisé à signer ce document.",
+  not_pending: "Ce document n'est plus en attente de signature.",
+  already_signed: 'Vous avez déjà signé ce document.',
+  document_changed: "Le document déposé ne correspond plus à celui soumis à la signature : demandez-en un nouvel envoi.",
+  consent_required: 'Votre nom et votre consentement sont obligatoires pour signer.',
+  not_fully_signed: "Le document doit être signé par les deux parties avant d'être scellé.",
+  invalid_sealed_document: "Le document signé n'a pas pu être enregistré. Veuillez réessayer.",
+  already_requested: 'Ce document est déjà en attente de signature.',
+  already_reminded: 'Une relance a déjà été envoyée ces dernières 24 heures.',
+  document_unavailable: 'Le document est momentanément indisponible. Veuillez réessayer.',
+  timesheet_not_locked: "Le relevé d'heures doit être contresigné avant d'être signé électroniquement.",
+  unknown: 'Une erreur est survenue. Veuillez réessayer.',
+}
+
+export interface SignatureInput {
+  method: SignatureMethod
+  /** Image PNG (data URI) pour une signature tracée, nom saisi sinon */
+  signatureData: string
+  signerName: string
+}
+
+// ─── Helpers privés ──────────────────────────────────────────────────────────
+
+function toSignatureError(message: string | undefined): SignatureError {
+  return SERVER_ERRORS.find((code) => message?.includes(code)) ?? 'unknown'
+}
+
+function mapRequestFromDb(row: SignatureRequestDbRow): SignatureRequest {
+  return {
+    id: row.id,
+    employerId: row.employer_id,
+    employeeId: row.employee_id,
+    contractId: row.contract_id,
+    amendmentId: row.amendment_id || undefined,
+    timesheetId: row.timesheet_id || undefined,
+    documentType: row.document_type,
+    title: row.title,
+    documentHash: row.document_hash,
+    documentPath: row.document_path,
+    status: row.status,
+    sealedPath: row.sealed_path || undefined,
+    sealedHash: row.sealed_hash || undefined,
+    employerSignedAt: row.employer_signed_at ? new Date(row.employer_signed_at) : undefined,
+    employeeSignedAt: row.employee_signed_at ? new Date(row.employee_signed_at) : undefined,
+    lastRemindedAt: row.last_reminded_at ? new Date(row.last_reminded_at) : undefined,
+    createdAt: new Date(row.created_at),
+    completedAt: row.completed_at ? new Date(row.completed_at) : undefined,
+  }
+}
+
+function mapSignatureFromDb(row: DocumentSignatureDbRow): DocumentSignature {
+  return {
+    id: row.id,
+    requestId: row.request_id,
+    signerId: row.signer_id,
+    signerRole: row.signer_role,
+    signerName: row.signer_name,
+    method: row.method,
+    signatureData: row.signature_data,
+    documentHash: row.document_hash,
+    signedAt: new Date(row.signed_at),
+  }
+}
+
+function formatAddress(address?: Address): string | undefined {
+  if (!address?.street) return undefined
+  return `${address.street}, ${address.postalCode} ${address.city}`.trim()
+}
+
+/**
+ * Instantané du document : parties, conditions initiales du contrat ou
+ * conditions modifiées par l'avenant.
+ */
+async function buildDocumentData(contract: Contract, amendment?: ContractAmendment): Promise<ContractDocumentData> {
+  const employeeId = contract.employeeId!
+  const [employerName, employeeName, employer, employee, versions] = await Promise.all([
+    getProfileName(contract.employerId),
+    getProfileName(employeeId),
+    getEmployer(contract.employerId),
+    getEmployee(employeeId),
+    getContractAmendments(contract.id),
+  ])
+
+  const sorted = sortTermsVersions(versions)
+  // Le contrat est signé dans ses conditions initiales
+  const initial = sorted[0] ?? contract
+  const amendmentIndex = amendment ? sorted.findIndex((v) => v.id === amendment.id) : -1
+  const previous = amendmentIndex > 0 ? sorted[amendmentIndex - 1] : initial
+
+  return {
+    documentType: amendment ? 'amendment' : 'contract',
+    employerName,
+    employerAddress: formatAddress(employer?.address),
+    cesuNumber: employer?.cesuNumber,
+    employeeName,
+    employeeAddress: formatAddress(employee?.address),
+    socialSecurityNumber: employee?.socialSecurityNumber,
+    contractType: contract.contractType,
+    startDate: format(contract.startDate, 'yyyy-MM-dd'),
+    endDate: contract.endDate ? format(contract.endDate, 'yyyy-MM-dd') : undefined,
+    weeklyHours: initial.weeklyHours,
+    hourlyRate: initial.hourlyRate,
+    amendment: amendment
+      ? {
+          effectiveDate: format(amendment.effectiveDate, 'yyyy-MM-dd'),
+          reason: amendment.reason,
+          changes: diffContractTerms(previous, amendment),
+        }
+      : undefined,
+    generatedAt: new Date().toISOString(),
+  }
+}
+
+/** Dépose un PDF dans le dossier signatures/ du contrat et retourne son chemin */
+async function uploadPdf(request: Pick<SignatureRequest, 'employerId' | 'employeeId' | 'contractId'>, bytes: Uint8Array<ArrayBuffer>, suffix = ''): Promise<string> {
+  const path = `${request.employerId}/${request.employeeId}/${request.contractId}/signatures/${crypto.randomUUID()}${suffix}.pdf`
+
+  const { error } = await supabase.storage
+    .from(BUCKET)
+    .upload(path, new Blob([bytes], { type: 'application/pdf' }), { contentType: 'application/pdf' })
+
+  if (error) {
+    logger.error('Erreur upload document à signer:', error)
+    throw new Error('upload_failed')
+  }
+
+  return path
+}
+
+interface DocumentToSign {
+  documentType: SignatureRequest['documentType']
+  amendmentId?: string
+  timesheetId?: string
+  title: string
+  employerName: string
+  /** Instantané conservé avec la demande */
+  documentData: ContractDocumentData | TimesheetPdfData
+  pdf: ExportResult
+}
+
+async function createSignatureRequest(
+  contract: Contract,
+  document: DocumentToSign
+): Promise<SignatureActionResult<SignatureRequest>> {
+  try {
+    const { pdf, title } = document
+    if (!pdf.success) {
+      logger.error('Erreur génération document à signer:', pdf.error)
+      return { success: false, error: 'unknown' }
+    }
+
+    const bytes = dataUriToBytes(pdf.content)
+    const documentHash = await sha256Hex(bytes)
+    const employeeId = contract.employeeId!
+    const documentPath = await uploadPdf({ employerId: contract.employerId, employeeId, contractId: contract.id }, bytes)
+
+    const { data, error } = await supabase
+      .from('signature_requests')
+      .insert({
+        employer_id: contract.employerId,
+        employee_id: employeeId,
+        contract_id: contract.id,
+        amendment_id: document.amendmentId ?? null,
+        timesheet_id: document.timesheetId ?? null,
+        document_type: document.documentType,
+        title,
+        document_data: document.documentData,
+        document_hash: documentHash,
+        document_path: documentPath,
+      })
+      .select(SELECT_COLUMNS)
+      .single()
+
+    if (error || !data) {
+      logger.error('Erreur création demande de signature:', error)
+      return { success: false, error: error?.code === '23505' ? 'already_requested' : 'unknown' }
+    }
+
+    const request = mapRequestFromDb(data as SignatureRequestDbRow)
+    await logAudit({ action: 'create', resource: 'signature_requests', resourceId: request.id, fields: ['document_hash'] })
+    await createSignatureRequestedNotification(employeeId, document.employerName, title)
+
+    return { success: true, data: request }
+  } catch (err) {
+    logger.error('Erreur envoi pour signature:', err)
+    return { success: false, error: 'unknown' }
+  }
+}
+
+/** Empreinte du PDF tel qu'il est déposé, recalculée par le signataire */
+async function hashStoredDocument(path: string): Promise<string | null> {
+  const { data, error } = await supabase.storage.from(BUCKET).download(path)
+  if (error || !data) {
+    logger.error('Erreur téléchargement document à signer:', error)
+    return null
+  }
+  return sha256Hex(new Uint8Array(await data.arrayBuffer()))
+}
+
+// ─── Lecture ─────────────────────────────────────────────────────────────────
+
+/**
+ * Demandes de signature d'une liste de contrats, de la plus récente à la plus ancienne.
+ */
+export async function getSignatureRequests(contractIds: string[]): Promise<SignatureRequest[]> {
+  if (contractIds.length === 0) return []
+
+  const { data, error } = await supabase
+    .from('signature_requests')
+    .select(SELECT_COLUMNS)
+    .in('contract_id', contractIds)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    logger.error('Erreur récupération demandes de signature:', error)
+    return []
+  }
+
+  return (data || []).map((row) => mapRequestFromDb(row as SignatureRequestDbRow))
+}
+
+export async function getDocumentSignatures(requestId: string): Promise<DocumentSignature[]> {
+  const { data, error } = await supabase
+    .from('document_signatures')
+    .select('id, request_id, signer_id, signer_role, signer_name, method, signature_data, document_hash, signed_at')
+    .eq('request_id', requestId)
+    .order('signed_at', { ascending: true })
+
+  if (error) {
+    logger.error('Erreur récupération signatures:', error)
+    return []
+  }
+
+  return (data || []).map((row) => mapSignatureFromDb(row as DocumentSignatureDbRow))
+}
+
+// ─── Actions ─────────────────────────────────────────────────────────────────
+
+async function callSignatureRpc<T, R>(
+  fn: string,
+  args: Record<string, unknown>,
+  map: (row: R) => T,
+  errorLabel: string
+): Promise<SignatureActionResult<T>> {
+  const { data, error } = await supabase.rpc(fn, args)
+
+  if (error) {
+    logger.error(errorLabel, error)
+    return { success: false, error: toSignatureError(error.message) }
+  }
+
+  return { success: true, data: map(data as R) }
+}
+
+async function requestContractDocumentSignature(
+  contract: Contract,
+  amendment?: ContractAmendment
+): Promise<SignatureActionResult<SignatureRequest>> {
+  try {
+    const documentData = await buildDocumentData(contract, amendment)
+    return createSignatureRequest(contract, {
+      documentType: documentData.documentType,
+      amendmentId: amendment?.id,
+      title: getContractDocumentTitle(documentData),
+      employerName: documentData.employerName,
+      documentData,
+      pdf: await generateContractDocumentPdf(documentData),
+    })
+  } catch (err) {
+    logger.error('Erreur envoi pour signature:', err)
+    return { success: false, error: 'unknown' }
+  }
+}
+
+/** Soumet le contrat (conditions initiales) à la signature des deux parties */
+export function requestContractSignature(contract: Contract): Promise<SignatureActionResult<SignatureRequest>> {
+  return requestContractDocumentSignature(contract)
+}
+
+/** Soumet un avenant à la signature ; une fois scellé, il devient l'avenant signé */
+export function requestAmendmentSignature(
+  contract: Contract,
+  amendment: ContractAmendment
+): Promise<SignatureActionResult<SignatureRequest>> {
+  return requestContractDocumentSignature(contract, amendment)
+}
+
+/**
+ * Soumet un relevé d'heures contresigné (verrouillé) à la signature
+ * électronique des deux parties.
+ */
+export async function requestTimesheetSignature(
+  contract: Contract,
+  data: TimesheetPdfData
+): Promise<SignatureActionResult<SignatureRequest>> {
+  if (data.timesheet.status !== 'locked') return { success: false, error: 'timesheet_not_locked' }
+
+  return createSignatureRequest(contract, {
+    documentType: 'timesheet',
+    timesheetId: data.timesheet.id,
+    title: getTimesheetDocumentTitle(data.timesheet),
+    employerName: data.employerName,
+    documentData: data,
+    pdf: await generateTimesheetPdf(data),
+  })
+}
+
+/**
+ * Signature de l'utilisateur connecté. L'empreinte transmise est celle du PDF
+ * déposé, recalculée ici : le serveur la compare à celle de la demande.
+ * Après la dernière signature, le document est scellé.
+ */
+export async function signDocument(
+  request: SignatureRequest,
+  input: SignatureInput
+): Promise<SignatureActionResult<SignatureRequest>> {
+  const documentHash = await hashStoredDocument(request.documentPath)
+  if (!documentHash) return { success: false, error: 'document_unavailable' }
+
+  const result = await callSignatureRpc(
+    'sign_document',
+    {
+      p_request_id: request.id,
+      p_method: input.method,
+      p_signature_data: input.signatureData,
+      p_signer_name: input.signerName.trim(),
+      p_document_hash: documentHash,
+      p_consent_text: SIGNATURE_CONSENT_TEXT,
+      p_user_agent: typeof navigator !== 'undefined' ? navigator.userAgent : null,
+    },
+    mapRequestFromDb,
+    'Erreur signature document:'
+  )
+  if (!result.success) return result
+
+  let signed = result.data
+  await logAudit({ action: 'sign', resource: 'signature_requests', resourceId: signed.id, fields: ['document_hash', 'signature_data'] })
+
+  if (isFullySigned(signed)) {
+    // Un échec du scellement n'annule pas la signature : il pourra être relancé
+    const sealed = await sealSignatureRequest(signed)
+    if (sealed.success) signed = sealed.data
+  }
+
+  // La partie qui vient de signer est celle dont la signature manquait
+  const signerRole = !hasSigned(request, 'employer') && hasSigned(signed, 'employer') ? 'employer' : 'employee'
+  const otherPartyId = signerRole === 'employer' ? signed.employeeId : signed.employerId
+  await createDocumentSignedNotification(otherPartyId, input.signerName.trim(), signed.title, signed.status === 'signed')
+
+  return { success: true, data: signed }
+}
+
+/** Rendu du PDF scellé selon le type de document */
+function renderSealedPdf(request: SignatureRequest, snapshot: unknown, seal: SignatureSeal): Promise<ExportResult> {
+  return request.documentType === 'timesheet'
+    ? generateTimesheetPdf(parseTimesheetPdfData(snapshot), seal)
+    : generateContractDocumentPdf(snapshot as ContractDocumentData, seal)
+}
+
+/**
+ * Rend le PDF scellé (signatures + certificat) à partir de l'instantané de la
+ * demande et le dépose ; la fonction edge en calcule l'empreinte à partir du
+ * fichier déposé et clôt la demande.
+ */
+export async function sealSignatureRequest(request: SignatureRequest): Promise<SignatureActionResult<SignatureRequest>> {
+  try {
+    const [{ data: snapshot, error: snapshotError }, signatures] = await Promise.all([
+      supabase.from('signature_requests').select('document_data').eq('id', request.id).single(),
+      getDocumentSignatures(request.id),
+    ])
+
+    if (snapshotError || !snapshot) {
+      logger.error('Erreur lecture document à sceller:', snapshotError)
+      return { success: false, error: 'document_unavailable' }
+    }
+
+    const pdf = await renderSealedPdf(request, (snapshot as Pick<SignatureRequestDbRow, 'document_data'>).document_data, {
+      documentHash: request.documentHash,
+      signatures: signatures.map(({ signerRole, signerName, method, signatureData, signedAt }) => ({
+        signerRole,
+        signerName,
+        method,
+        signatureData,
+        signedAt,
+      })),
+    })
+    if (!pdf.success) {
+      logger.error('Erreur génération document scellé:', pdf.error)
+      return { success: false, error: 'unknown' }
+    }
+
+    const sealedPath = await uploadPdf(request, dataUriToBytes(pdf.content), '-signe')
+
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session?.access_token) return { success: false, error: 'not_authorized' }
+
+    const response = await supabase.functions.invoke('seal-signature-request', {
+      body: { requestId: request.id, sealedPath },
+      headers: { Authorization: `Bearer ${session.access_token}` },
+    })
+    const result = response.data as { request?: SignatureRequestDbRow; error?: string } | null
+
+    if (response.error || !result?.request) {
+      logger.error('Erreur scellement document:', result?.error ?? response.error)
+      return { success: false, error: toSignatureError(result?.error) }
+    }
+
+    await logAudit({ action: 'update', resource: 'signature_requests', resourceId: request.id, fields: ['sealed_hash', 'status'] })
+    return { success: true, data: mapRequestFromDb(result.request) }
+  } catch (err) {
+    logger.error('Erreur scellement document:', err)
+    return { success: false, error: 'unknown' }
+  }
+}
+
+/**
+ * Relance la partie dont la signature est attendue (au plus une fois par jour).
+ */
+export async function remindSigner(
+  request: SignatureRequest,
+  senderId: string,
+  senderName: string
+): Promise<SignatureActionResult<true>> {
+  const result = await callSignatureRpc(
+    'record_signature_reminder',
+    { p_request_id: request.id },
+    (recorded: boolean) => recorded,
+    'Erreur relance signature:'
+  )
+  if (!result.success) return result
+  if (!result.data) return { success: false, error: 'already_reminded' }
+
+  const recipientId = getSignerRole(request, senderId) === 'employer' ? request.employeeId : request.employerId
+  await createSignatureRequestedNotification(recipientId, senderName, request.title, true)
+
+  return { success: true, data: true }
+}
+
+/** Annulation par l'employeur tant que le document n'est pas scellé */
+export async function cancelSignatureRequest(requestId: string): Promise<SignatureActionResult<SignatureRequest>> {
+  const result = await callSignatureRpc(
+    'cancel_signature_request',
+    { p_request_id: requestId },
+    mapRequestFromDb,
+    'Erreur annulation demande de signature:'
+  )
+  if (result.success) {
+    await logAudit({ action: 'update', resource: 'signature_requests', resourceId: requestId, fields: ['status'] })
+  }
+  return result
+}
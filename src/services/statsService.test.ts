@@ -3,6 +3,7 @@ import {
   getEmployerStats,
   getEmployeeStats,
   getCaregiverStats,
+  getEmployerBudgetForecast,
 } from './statsService'
 
 // ============================================================
@@ -43,6 +44,7 @@ function mockSupabaseQuerySequence(results: Array<{ data?: unknown; error?: unkn
     chain.lte = vi.fn().mockReturnValue(chain)
     chain.lt = vi.fn().mockReturnValue(chain)
     chain.not = vi.fn().mockReturnValue(chain)
+    chain.is = vi.fn().mockReturnValue(chain)
     chain.or = vi.fn().mockReturnValue(chain)
     chain.order = vi.fn().mockReturnValue(chain)
     chain.limit = vi.fn().mockReturnValue(chain)
@@ -368,7 +370,7 @@ describe('getCaregiverStats', () => {
       { data: shiftsToday, error: null },                      // 6. shiftsToday
       { data: monthShiftsWithHours, error: null },             // 7. monthShiftsWithHours
       { data: { pch_beneficiary: true, pch_monthly_hours: 62 }, error: null }, // 8. employer PCH
-      { data: [{ id: 'doc-1' }], error: null },                // 9. documents to sign
+      { data: [{ id: 'req-1' }], error: null },                // 9. signature requests awaiting the employer
     ])
 
     const result = await getCaregiverStats(CAREGIVER_ID)
@@ -491,3 +493,55 @@ describe('getCaregiverStats', () => {
     expect(result.unreadLogs).toBe(0)
   })
 })
+
+describe('getEmployerBudgetForecast', () => {
+  it('retourne des zéros sans contrat actif', async () => {
+    mockSupabaseQuerySequence([{ data: [], error: null }])
+
+    const result = await getEmployerBudgetForecast(EMPLOYER_ID)
+
+    expect(result.projectedCostGross).toBe(0)
+    expect(result.avgHourlyRate).toBe(0)
+  })
+
+  it('valorise chaque shift au taux en vigueur à sa date', async () => {
+    mockSupabaseQuerySequence([
+      { data: [{ id: 'contract-1', hourly_rate: 14, weekly_hours: 20, pas_rate: 0 }], error: null },
+      {
+        data: [
+          makeShift({ date: '2026-02-05' }),                      // 3h avant l'avenant
+          makeShift({ date: '2026-02-12', status: 'planned' }),   // 3h après l'avenant
+        ],
+        error: null,
+      },
+      {
+        data: [
+          { contract_id: 'contract-1', effective_date: '2026-01-01', weekly_hours: 20, hourly_rate: 12, pas_rate: 0 },
+          { contract_id: 'contract-1', effective_date: '2026-02-10', weekly_hours: 20, hourly_rate: 14, pas_rate: 0 },
+        ],
+        error: null,
+      },
+    ])
+
+    const result = await getEmployerBudgetForecast(EMPLOYER_ID)
+
+    expect(result.completedHours).toBe(3)
+    expect(result.plannedHours).toBe(3)
+    expect(result.projectedCostGross).toBe(78)
+    expect(result.avgHourlyRate).toBe(13)
+    expect(result.projectedCostWithCharges).toBe(111)
+  })
+
+  it('utilise le taux du contrat sans historique d\'avenants', async () => {
+    mockSupabaseQuerySequence([
+      { data: [{ id: 'contract-1', hourly_rate: 15, weekly_hours: 20, pas_rate: 0 }], error: null },
+      { data: [makeShift()], error: null },
+      { data: [], error: null },
+    ])
+
+    const result = await getEmployerBudgetForecast(EMPLOYER_ID)
+
+    expect(result.projectedCostGross).toBe(45)
+    expect(result.avgHourlyRate).toBe(15)
+  })
+})
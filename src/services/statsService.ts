@@ -6,6 +6,8 @@
 import { supabase } from '@/lib/supabase/client'
 import { startOfMonth, endOfMonth, subMonths, format } from 'date-fns'
 import { calculateShiftDuration } from '@/lib/compliance/utils'
+import { resolveContractTerms, type ContractTermsVersion } from '@/lib/contract/amendments'
+import type { ContractAmendmentDbRow, ContractDbRow, ShiftDbRow } from '@/types/database'
 
 // Types pour les statistiques
 export interface EmployerStats {
@@ -386,12 +388,13 @@ export async function getCaregiverStats(caregiverId: string): Promise<CaregiverS
   const pchMonthlyHours = (employer?.pch_beneficiary && employer?.pch_monthly_hours) ? employer.pch_monthly_hours : 0
   const pchRemaining = Math.max(0, pchMonthlyHours - hoursThisMonth)
 
-  // Documents à signer
+  // Contrats et avenants en attente de la signature de l'employeur
   const { data: docsToSign } = await supabase
-    .from('documents')
+    .from('signature_requests')
     .select('id')
-    .eq('user_id', employerId)
+    .eq('employer_id', employerId)
     .eq('status', 'pending')
+    .is('employer_signed_at', null)
 
   return {
     shiftsThisMonth: shiftsThisMonth?.length || 0,
@@ -422,13 +425,14 @@ export async function getEmployerBudgetForecast(employerId: string): Promise<Bud
   const thisMonthStart = startOfMonth(now)
   const thisMonthEnd = endOfMonth(now)
 
-  const { data: contracts } = await supabase
+  const { data } = await supabase
     .from('contracts')
-    .select('id, hourly_rate')
+    .select('id, hourly_rate, weekly_hours, pas_rate')
     .eq('employer_id', employerId)
     .eq('status', 'active')
 
-  const contractIds = (contracts || []).map(c => c.id)
+  const contracts = (data || []) as Pick<ContractDbRow, 'id' | 'hourly_rate' | 'weekly_hours' | 'pas_rate'>[]
+  const contractIds = contracts.map(c => c.id)
 
   if (contractIds.length === 0) {
     return {
@@ -441,26 +445,66 @@ export async function getEmployerBudgetForecast(employerId: string): Promise<Bud
     }
   }
 
-  const { data: shifts } = await supabase
+  const { data: shiftsData } = await supabase
     .from('shifts')
-    .select('start_time, end_time, break_duration, status, shift_type, effective_hours')
+    .select('contract_id, date, start_time, end_time, break_duration, status, shift_type, effective_hours')
     .in('contract_id', contractIds)
     .gte('date', format(thisMonthStart, 'yyyy-MM-dd'))
     .lte('date', format(thisMonthEnd, 'yyyy-MM-dd'))
     .in('status', ['completed', 'planned'])
 
-  const completedShifts = (shifts || []).filter(s => s.status === 'completed')
-  const plannedShifts = (shifts || []).filter(s => s.status === 'planned')
+  const shifts = (shiftsData || []) as Pick<
+    ShiftDbRow,
+    'contract_id' | 'date' | 'start_time' | 'end_time' | 'break_duration' | 'status' | 'shift_type' | 'effective_hours'
+  >[]
+  const completedShifts = shifts.filter(s => s.status === 'completed')
+  const plannedShifts = shifts.filter(s => s.status === 'planned')
 
   const completedHours = calculateTotalHours(completedShifts)
   const plannedHours = calculateTotalHours(plannedShifts)
   const projectedHours = completedHours + plannedHours
 
-  const avgHourlyRate = contracts.length > 0
-    ? contracts.reduce((sum, c) => sum + (c.hourly_rate || 0), 0) / contracts.length
-    : 0
+  // Taux en vigueur à la date de chaque intervention (avenants en cours de mois)
+  const { data: amendments } = await supabase
+    .from('contract_amendments')
+    .select('contract_id, effective_date, weekly_hours, hourly_rate, pas_rate')
+    .in('contract_id', contractIds)
+
+  const termsHistory = new Map<string, ContractTermsVersion[]>()
+  for (const row of (amendments || []) as Pick<
+    ContractAmendmentDbRow,
+    'contract_id' | 'effective_date' | 'weekly_hours' | 'hourly_rate' | 'pas_rate'
+  >[]) {
+    const versions = termsHistory.get(row.contract_id) || []
+    versions.push({
+      effectiveDate: new Date(row.effective_date),
+      weeklyHours: row.weekly_hours,
+      hourlyRate: row.hourly_rate,
+      pasRate: row.pas_rate,
+    })
+    termsHistory.set(row.contract_id, versions)
+  }
+
+  const contractById = new Map(contracts.map(c => [c.id, c]))
+  const projectedCostGross = [...completedShifts, ...plannedShifts].reduce((sum, shift) => {
+    const contract = contractById.get(shift.contract_id)
+    const { hourlyRate } = resolveContractTerms(
+      {
+        weeklyHours: contract?.weekly_hours || 0,
+        hourlyRate: contract?.hourly_rate || 0,
+        pasRate: contract?.pas_rate || 0,
+      },
+      termsHistory.get(shift.contract_id),
+      new Date(shift.date)
+    )
+    return sum + getShiftHours(shift) * hourlyRate
+  }, 0)
+
+  // Sans heure prévue, taux moyen des contrats actifs
+  const avgHourlyRate = projectedHours > 0
+    ? projectedCostGross / projectedHours
+    : contracts.reduce((sum, c) => sum + (c.hourly_rate || 0), 0) / contracts.length
 
-  const projectedCostGross = projectedHours * avgHourlyRate
   const projectedCostWithCharges = projectedCostGross * 1.42
 
   return {
@@ -473,21 +517,26 @@ export async function getEmployerBudgetForecast(employerId: string): Promise<Bud
   }
 }
 
+type ShiftHoursRow = { start_time: string; end_time: string; break_duration: number | null; shift_type?: string; effective_hours?: number | null }
+
+/**
+ * Heures d'un shift (heures effectives pour une garde de 24h)
+ */
+function getShiftHours(shift: ShiftHoursRow): number {
+  if (shift.shift_type === 'guard_24h' && shift.effective_hours != null) {
+    return shift.effective_hours
+  }
+  const duration = calculateShiftDuration(
+    shift.start_time,
+    shift.end_time,
+    shift.break_duration || 0
+  )
+  return duration / 60
+}
+
 /**
  * Calcule le total d'heures depuis une liste de shifts
  */
-function calculateTotalHours(
-  shifts: Array<{ start_time: string; end_time: string; break_duration: number | null; shift_type?: string; effective_hours?: number | null }>
-): number {
-  return shifts.reduce((total, shift) => {
-    if (shift.shift_type === 'guard_24h' && shift.effective_hours != null) {
-      return total + shift.effective_hours
-    }
-    const duration = calculateShiftDuration(
-      shift.start_time,
-      shift.end_time,
-      shift.break_duration || 0
-    )
-    return total + duration / 60
-  }, 0)
+function calculateTotalHours(shifts: ShiftHoursRow[]): number {
+  return shifts.reduce((total, shift) => total + getShiftHours(shift), 0)
 }
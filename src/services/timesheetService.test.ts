@@ -0,0 +1,232 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import {
+  getTimesheets,
+  getUnsignedTimesheetEmployees,
+  submitTimesheet,
+  countersignTimesheet,
+  returnTimesheet,
+  addTimesheetCorrection,
+  isTimesheetLockedError,
+} from './timesheetService'
+import { createMockSupabaseChain } from '@/test/fixtures'
+
+// ============================================================
+// MOCKS
+// ============================================================
+
+const mockRpc = vi.fn()
+const mockFrom = vi.fn()
+const mockGetContractsForEmployer = vi.fn()
+
+vi.mock('@/lib/supabase/client', () => ({
+  supabase: {
+    rpc: (...args: unknown[]) => mockRpc(...args),
+    from: (...args: unknown[]) => mockFrom(...args),
+  },
+}))
+
+vi.mock('@/services/contractService', () => ({
+  getContractsForEmployer: (...args: unknown[]) => mockGetContractsForEmployer(...args),
+}))
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn(), debug: vi.fn() },
+}))
+
+function makeTimesheetRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'ts-1',
+    contract_id: 'contract-1',
+    year: 2026,
+    month: 2,
+    status: 'submitted',
+    content_hash: 'abc123',
+    submitted_by: 'employee-1',
+    submitted_at: '2026-03-02T10:00:00.000Z',
+    employer_signed_by: null,
+    employer_signed_at: null,
+    return_reason: null,
+    signed_document_path: null,
+    created_at: '2026-03-02T10:00:00.000Z',
+    updated_at: '2026-03-02T10:00:00.000Z',
+    ...overrides,
+  }
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+})
+
+// ============================================================
+// LECTURE
+// ============================================================
+
+describe('getTimesheets', () => {
+  it('ne requête pas sans contrat', async () => {
+    expect(await getTimesheets([], 2026, 2)).toEqual([])
+    expect(mockFrom).not.toHaveBeenCalled()
+  })
+
+  it('mappe les relevés du mois', async () => {
+    mockFrom.mockReturnValue(createMockSupabaseChain({
+      data: [makeTimesheetRow({ status: 'locked', employer_signed_at: '2026-03-03T09:00:00.000Z' })],
+      error: null,
+    }).fromReturn)
+
+    const [timesheet] = await getTimesheets(['contract-1'], 2026, 2)
+
+    expect(mockFrom).toHaveBeenCalledWith('timesheets')
+    expect(timesheet.status).toBe('locked')
+    expect(timesheet.employerSignedAt).toEqual(new Date('2026-03-03T09:00:00.000Z'))
+    expect(timesheet.returnReason).toBeUndefined()
+  })
+})
+
+describe('getUnsignedTimesheetEmployees', () => {
+  const contracts = [
+    { id: 'c1', contractCategory: 'employment', employee: { firstName: 'Marie', lastName: 'Curie' } },
+    { id: 'c2', contractCategory: 'employment', employee: { firstName: 'Paul', lastName: 'Martin' } },
+    { id: 'c3', contractCategory: 'employment', employee: { firstName: 'Léa', lastName: 'Roux' } },
+  ]
+
+  it('liste les auxiliaires ayant travaillé sans relevé contresigné', async () => {
+    mockGetContractsForEmployer.mockResolvedValue(contracts)
+    mockFrom
+      // Interventions déclarées du mois : c1 et c2 (c3 n'a pas travaillé)
+      .mockReturnValueOnce(createMockSupabaseChain({ data: [{ contract_id: 'c1' }, { contract_id: 'c2' }], error: null }).fromReturn)
+      // Relevés : c1 contresigné, c2 seulement soumis
+      .mockReturnValueOnce(createMockSupabaseChain({
+        data: [
+          makeTimesheetRow({ contract_id: 'c1', status: 'locked' }),
+          makeTimesheetRow({ id: 'ts-2', contract_id: 'c2' }),
+        ],
+        error: null,
+      }).fromReturn)
+
+    expect(await getUnsignedTimesheetEmployees('employer-1', 2026, 2)).toEqual(['Paul Martin'])
+  })
+
+  it('retient les mêmes interventions que la déclaration (planifiées et réalisées)', async () => {
+    mockGetContractsForEmployer.mockResolvedValue(contracts)
+    const shiftsQuery = createMockSupabaseChain({ data: [], error: null })
+    mockFrom.mockReturnValueOnce(shiftsQuery.fromReturn)
+
+    await getUnsignedTimesheetEmployees('employer-1', 2026, 2)
+
+    expect(shiftsQuery.in).toHaveBeenCalledWith('status', ['completed', 'planned'])
+  })
+
+  it('ne bloque rien sans intervention déclarée', async () => {
+    mockGetContractsForEmployer.mockResolvedValue(contracts)
+    mockFrom.mockReturnValueOnce(createMockSupabaseChain({ data: [], error: null }).fromReturn)
+
+    expect(await getUnsignedTimesheetEmployees('employer-1', 2026, 2)).toEqual([])
+    expect(mockFrom).toHaveBeenCalledTimes(1)
+  })
+})
+
+// ============================================================
+// SIGNATURES
+// ============================================================
+
+describe('submitTimesheet', () => {
+  it('soumet le relevé du mois', async () => {
+    mockRpc.mockResolvedValue({ data: makeTimesheetRow(), error: null })
+
+    const result = await submitTimesheet('contract-1', 2026, 2)
+
+    expect(mockRpc).toHaveBeenCalledWith('submit_timesheet', {
+      p_contract_id: 'contract-1',
+      p_year: 2026,
+      p_month: 2,
+    })
+    expect(result).toMatchObject({ success: true, data: { id: 'ts-1', status: 'submitted' } })
+  })
+
+  it('traduit le refus du serveur', async () => {
+    mockRpc.mockResolvedValue({ data: null, error: { message: 'month_not_over' } })
+
+    expect(await submitTimesheet('contract-1', 2026, 3)).toEqual({ success: false, error: 'month_not_over' })
+  })
+})
+
+describe('countersignTimesheet', () => {
+  it('signale des interventions modifiées depuis la soumission', async () => {
+    mockRpc.mockResolvedValue({ data: null, error: { message: 'timesheet_changed' } })
+
+    const result = await countersignTimesheet('ts-1')
+
+    expect(mockRpc).toHaveBeenCalledWith('countersign_timesheet', { p_timesheet_id: 'ts-1' })
+    expect(result).toEqual({ success: false, error: 'timesheet_changed' })
+  })
+
+  it('retourne une erreur inconnue pour un échec non métier', async () => {
+    mockRpc.mockResolvedValue({ data: null, error: { message: 'connection reset' } })
+
+    expect(await countersignTimesheet('ts-1')).toEqual({ success: false, error: 'unknown' })
+  })
+})
+
+describe('returnTimesheet', () => {
+  it('renvoie le relevé avec son motif', async () => {
+    mockRpc.mockResolvedValue({
+      data: makeTimesheetRow({ status: 'returned', return_reason: 'Il manque le 12' }),
+      error: null,
+    })
+
+    const result = await returnTimesheet('ts-1', 'Il manque le 12')
+
+    expect(mockRpc).toHaveBeenCalledWith('return_timesheet', { p_timesheet_id: 'ts-1', p_reason: 'Il manque le 12' })
+    expect(result).toMatchObject({ success: true, data: { status: 'returned', returnReason: 'Il manque le 12' } })
+  })
+})
+
+describe('addTimesheetCorrection', () => {
+  it('enregistre la correction avec les horaires d\'origine', async () => {
+    mockRpc.mockResolvedValue({
+      data: {
+        id: 'corr-1',
+        timesheet_id: 'ts-1',
+        shift_id: 'shift-1',
+        shift_date: '2026-02-12',
+        previous_start_time: '09:00:00',
+        previous_end_time: '12:00:00',
+        previous_break_duration: 0,
+        start_time: '09:00:00',
+        end_time: '13:00:00',
+        break_duration: 0,
+        reason: 'Oubli de pointage',
+        created_by: 'employer-1',
+        created_at: '2026-03-10T08:00:00.000Z',
+      },
+      error: null,
+    })
+
+    const result = await addTimesheetCorrection('shift-1', {
+      startTime: '09:00',
+      endTime: '13:00',
+      breakDuration: 0,
+      reason: 'Oubli de pointage',
+    })
+
+    expect(mockRpc).toHaveBeenCalledWith('add_timesheet_correction', {
+      p_shift_id: 'shift-1',
+      p_start_time: '09:00',
+      p_end_time: '13:00',
+      p_break_duration: 0,
+      p_reason: 'Oubli de pointage',
+    })
+    expect(result).toMatchObject({
+      success: true,
+      data: { previousEndTime: '12:00', endTime: '13:00', reason: 'Oubli de pointage' },
+    })
+  })
+})
+
+describe('isTimesheetLockedError', () => {
+  it('reconnaît l\'erreur du trigger de verrouillage', () => {
+    expect(isTimesheetLockedError('timesheet_locked')).toBe(true)
+    expect(isTimesheetLockedError('Update failed')).toBe(false)
+    expect(isTimesheetLockedError(undefined)).toBe(false)
+  })
+})
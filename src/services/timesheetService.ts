@@ -0,0 +1,299 @@
+/**
+ * Service du relevé d'heures mensuel à double signature
+ *
+ * Cycle : l'auxiliaire soumet le relevé d'un mois terminé, l'employeur le
+ * contresigne (ou le renvoie). Contresigné, le mois est verrouillé côté base
+ * (trigger sur `shifts`) : les modifications passent par une correction
+ * explicite. La déclaration CESU et les bulletins d'un mois exigent des relevés
+ * contresignés.
+ */
+
+import { supabase } from '@/lib/supabase/client'
+import { logger } from '@/lib/logger'
+import { getContractsForEmployer } from '@/services/contractService'
+import type { Timesheet, TimesheetCorrection } from '@/types'
+import type { TimesheetDbRow, TimesheetCorrectionDbRow } from '@/types/database'
+
+/** Motifs de refus renvoyés par les fonctions `*_timesheet*` */
+export type TimesheetError =
+  | 'not_authorized'
+  | 'month_not_over'
+  | 'already_submitted'
+  | 'not_submitted'
+  | 'timesheet_changed'
+  | 'not_locked'
+  | 'reason_required'
+  | 'unknown'
+
+export type TimesheetActionResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: TimesheetError }
+
+const SERVER_ERRORS: TimesheetError[] = [
+  'not_authorized',
+  'month_not_over',
+  'already_submitted',
+  'not_submitted',
+  'timesheet_changed',
+  'not_locked',
+  'reason_required',
+]
+
+export const TIMESHEET_ERROR_MESSAGES: Record<TimesheetError, string> = {
+  not_authorized: "Vous n'êtes pas autorisé à effectuer cette action sur ce relevé.",
+  month_not_over: "Le relevé ne peut être soumis qu'une fois le mois terminé.",
+  already_submitted: 'Ce relevé a déjà été soumis.',
+  not_submitted: "Ce relevé n'est pas en attente de contre-signature.",
+  timesheet_changed: "Les interventions ont été modifiées depuis la soumission : renvoyez le relevé à l'auxiliaire.",
+  not_locked: "Ce mois n'est pas verrouillé : modifiez directement l'intervention.",
+  reason_required: 'Le motif de la correction est obligatoire.',
+  unknown: 'Une erreur est survenue. Veuillez réessayer.',
+}
+
+/** Message affiché quand une intervention d'un mois contresigné est modifiée hors correction */
+export const TIMESHEET_LOCKED_MESSAGE =
+  "Ce mois est verrouillé par un relevé d'heures contresigné. Passez par une correction du relevé (Documents › Relevés d'heures)."
+
+/** Erreur levée par le trigger de verrouillage des interventions */
+export function isTimesheetLockedError(message: string | undefined): boolean {
+  return !!message?.includes('timesheet_locked')
+}
+
+/** Statuts des interventions reprises dans la déclaration CESU et les bulletins */
+export const DECLARED_SHIFT_STATUSES = ['completed', 'planned']
+
+const UNSIGNED_TIMESHEET_PREFIX = "Relevé d'heures non contresigné"
+
+/** Message des exports bloqués (déclaration CESU, bulletin) faute de relevé contresigné */
+export function unsignedTimesheetMessage(employeeNames: string[]): string {
+  return `${UNSIGNED_TIMESHEET_PREFIX} pour ${employeeNames.join(', ')}. Contresignez les relevés du mois (onglet Relevés d'heures) avant de générer la déclaration ou le bulletin.`
+}
+
+export function isUnsignedTimesheetError(message: string | undefined): boolean {
+  return !!message?.startsWith(UNSIGNED_TIMESHEET_PREFIX)
+}
+
+function toTimesheetError(message: string | undefined): TimesheetError {
+  return SERVER_ERRORS.find((code) => message?.includes(code)) ?? 'unknown'
+}
+
+function mapTimesheetFromDb(row: TimesheetDbRow): Timesheet {
+  return {
+    id: row.id,
+    contractId: row.contract_id,
+    year: row.year,
+    month: row.month,
+    status: row.status,
+    contentHash: row.content_hash,
+    submittedBy: row.submitted_by,
+    submittedAt: new Date(row.submitted_at),
+    employerSignedBy: row.employer_signed_by || undefined,
+    employerSignedAt: row.employer_signed_at ? new Date(row.employer_signed_at) : undefined,
+    returnReason: row.return_reason || undefined,
+    signedDocumentPath: row.signed_document_path || undefined,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  }
+}
+
+function mapCorrectionFromDb(row: TimesheetCorrectionDbRow): TimesheetCorrection {
+  return {
+    id: row.id,
+    timesheetId: row.timesheet_id,
+    shiftId: row.shift_id || undefined,
+    shiftDate: new Date(row.shift_date),
+    previousStartTime: row.previous_start_time.slice(0, 5),
+    previousEndTime: row.previous_end_time.slice(0, 5),
+    previousBreakDuration: row.previous_break_duration,
+    startTime: row.start_time.slice(0, 5),
+    endTime: row.end_time.slice(0, 5),
+    breakDuration: row.break_duration,
+    reason: row.reason,
+    createdBy: row.created_by,
+    createdAt: new Date(row.created_at),
+  }
+}
+
+function monthBounds(year: number, month: number): { start: string; end: string } {
+  const lastDay = new Date(year, month, 0).getDate()
+  const mm = String(month).padStart(2, '0')
+  return { start: `${year}-${mm}-01`, end: `${year}-${mm}-${String(lastDay).padStart(2, '0')}` }
+}
+
+// ─── Lecture ────────────────────────────────────────────────────────────────
+
+/**
+ * Relevés d'un mois pour une liste de contrats.
+ * Un contrat sans relevé n'a pas encore été soumis.
+ */
+export async function getTimesheets(
+  contractIds: string[],
+  year: number,
+  month: number
+): Promise<Timesheet[]> {
+  if (contractIds.length === 0) return []
+
+  const { data, error } = await supabase
+    .from('timesheets')
+    .select('*')
+    .in('contract_id', contractIds)
+    .eq('year', year)
+    .eq('month', month)
+
+  if (error) {
+    logger.error("Erreur récupération relevés d'heures:", error)
+    return []
+  }
+
+  return (data || []).map((row) => mapTimesheetFromDb(row as TimesheetDbRow))
+}
+
+export async function getTimesheetCorrections(timesheetId: string): Promise<TimesheetCorrection[]> {
+  const { data, error } = await supabase
+    .from('timesheet_corrections')
+    .select('*')
+    .eq('timesheet_id', timesheetId)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    logger.error('Erreur récupération corrections du relevé:', error)
+    return []
+  }
+
+  return (data || []).map((row) => mapCorrectionFromDb(row as TimesheetCorrectionDbRow))
+}
+
+/**
+ * Contrats, parmi ceux fournis, dont le relevé du mois n'est pas contresigné.
+ * Faute de pouvoir lire les relevés, tous les contrats sont considérés non signés.
+ */
+export async function getUnsignedTimesheetContractIds(
+  contractIds: string[],
+  year: number,
+  month: number
+): Promise<string[]> {
+  const lockedContractIds = new Set(
+    (await getTimesheets(contractIds, year, month))
+      .filter((t) => t.status === 'locked')
+      .map((t) => t.contractId)
+  )
+  return contractIds.filter((id) => !lockedContractIds.has(id))
+}
+
+/**
+ * Auxiliaires ayant travaillé sur le mois sans relevé contresigné.
+ * La déclaration CESU et les bulletins du mois sont bloqués tant que la liste n'est pas vide.
+ */
+export async function getUnsignedTimesheetEmployees(
+  employerId: string,
+  year: number,
+  month: number
+): Promise<string[]> {
+  const contracts = (await getContractsForEmployer(employerId))
+    .filter((c) => c.contractCategory === 'employment')
+  if (contracts.length === 0) return []
+
+  const contractIds = contracts.map((c) => c.id)
+  const { start, end } = monthBounds(year, month)
+
+  const { data: shifts, error: shiftsError } = await supabase
+    .from('shifts')
+    .select('contract_id')
+    .in('contract_id', contractIds)
+    .in('status', DECLARED_SHIFT_STATUSES)
+    .gte('date', start)
+    .lte('date', end)
+
+  if (shiftsError) {
+    logger.error("Erreur vérification relevés d'heures:", shiftsError)
+    throw new Error(shiftsError.message)
+  }
+
+  const workedContractIds = new Set(((shifts || []) as { contract_id: string }[]).map((s) => s.contract_id))
+  if (workedContractIds.size === 0) return []
+
+  const unsignedContractIds = new Set(
+    await getUnsignedTimesheetContractIds([...workedContractIds], year, month)
+  )
+
+  return contracts
+    .filter((c) => unsignedContractIds.has(c.id))
+    .map((c) => c.employee ? `${c.employee.firstName} ${c.employee.lastName}`.trim() : 'Auxiliaire')
+}
+
+// ─── Signatures ─────────────────────────────────────────────────────────────
+
+async function callTimesheetRpc<T, R>(
+  fn: string,
+  args: Record<string, unknown>,
+  map: (row: R) => T,
+  errorLabel: string
+): Promise<TimesheetActionResult<T>> {
+  const { data, error } = await supabase.rpc(fn, args)
+
+  if (error) {
+    logger.error(errorLabel, error)
+    return { success: false, error: toTimesheetError(error.message) }
+  }
+
+  return { success: true, data: map(data as R) }
+}
+
+/** Soumission du relevé par l'auxiliaire (mois terminé, première fois ou après renvoi) */
+export function submitTimesheet(
+  contractId: string,
+  year: number,
+  month: number
+): Promise<TimesheetActionResult<Timesheet>> {
+  return callTimesheetRpc(
+    'submit_timesheet',
+    { p_contract_id: contractId, p_year: year, p_month: month },
+    mapTimesheetFromDb,
+    "Erreur soumission relevé d'heures:"
+  )
+}
+
+/** Contre-signature par l'employeur : valide les interventions et verrouille le mois */
+export function countersignTimesheet(timesheetId: string): Promise<TimesheetActionResult<Timesheet>> {
+  return callTimesheetRpc(
+    'countersign_timesheet',
+    { p_timesheet_id: timesheetId },
+    mapTimesheetFromDb,
+    "Erreur contre-signature relevé d'heures:"
+  )
+}
+
+/** Renvoi du relevé à l'auxiliaire avant contre-signature */
+export function returnTimesheet(
+  timesheetId: string,
+  reason: string
+): Promise<TimesheetActionResult<Timesheet>> {
+  return callTimesheetRpc(
+    'return_timesheet',
+    { p_timesheet_id: timesheetId, p_reason: reason },
+    mapTimesheetFromDb,
+    "Erreur renvoi relevé d'heures:"
+  )
+}
+
+/**
+ * Correction d'une intervention d'un mois verrouillé (employeur).
+ * Les horaires d'origine sont conservés dans la correction.
+ */
+export function addTimesheetCorrection(
+  shiftId: string,
+  correction: { startTime: string; endTime: string; breakDuration: number; reason: string }
+): Promise<TimesheetActionResult<TimesheetCorrection>> {
+  return callTimesheetRpc(
+    'add_timesheet_correction',
+    {
+      p_shift_id: shiftId,
+      p_start_time: correction.startTime,
+      p_end_time: correction.endTime,
+      p_break_duration: correction.breakDuration,
+      p_reason: correction.reason,
+    },
+    mapCorrectionFromDb,
+    "Erreur correction relevé d'heures:"
+  )
+}
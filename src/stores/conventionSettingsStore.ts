@@ -61,11 +61,15 @@ export const useConventionSettingsStore = create<ConventionSettingsState>()(
       },
 
       saveToDb: async (profileId) => {
-        const { ruleBreak, ruleDailyMax, ruleOvertime, ruleNight, majDimanche, majFerie, majNuit, majSupp } = get()
+        const {
+          ruleBreak, ruleDailyMax, ruleOvertime, ruleNight, majDimanche, majFerie, majNuit, majSupp, mileageRate,
+          leaveCarryOverPolicy, leaveCarryOverCap,
+        } = get()
         try {
           await upsertConventionSettings(profileId, {
             ruleBreak, ruleDailyMax, ruleOvertime, ruleNight,
-            majDimanche, majFerie, majNuit, majSupp,
+            majDimanche, majFerie, majNuit, majSupp, mileageRate,
+            leaveCarryOverPolicy, leaveCarryOverCap,
           })
           set({ isSynced: true })
         } catch (err) {
@@ -86,6 +90,9 @@ export const useConventionSettingsStore = create<ConventionSettingsState>()(
         majFerie: state.majFerie,
         majNuit: state.majNuit,
         majSupp: state.majSupp,
+        mileageRate: state.mileageRate,
+        leaveCarryOverPolicy: state.leaveCarryOverPolicy,
+        leaveCarryOverCap: state.leaveCarryOverCap,
       }),
     },
   ),
@@ -105,7 +112,10 @@ export function subscribeSyncToDb(profileId: string | undefined) {
       state.majDimanche !== prevState.majDimanche ||
       state.majFerie !== prevState.majFerie ||
       state.majNuit !== prevState.majNuit ||
-      state.majSupp !== prevState.majSupp
+      state.majSupp !== prevState.majSupp ||
+      state.mileageRate !== prevState.mileageRate ||
+      state.leaveCarryOverPolicy !== prevState.leaveCarryOverPolicy ||
+      state.leaveCarryOverCap !== prevState.leaveCarryOverCap
     if (changed && profileId) {
       debouncedSave(profileId, state)
     }
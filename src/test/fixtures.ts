@@ -245,11 +245,20 @@ export type MockSupabaseChain = {
   delete: ReturnType<typeof vi.fn>
   upsert: ReturnType<typeof vi.fn>
   eq: ReturnType<typeof vi.fn>
+  neq: ReturnType<typeof vi.fn>
+  in: ReturnType<typeof vi.fn>
+  is: ReturnType<typeof vi.fn>
+  gte: ReturnType<typeof vi.fn>
+  lte: ReturnType<typeof vi.fn>
   order: ReturnType<typeof vi.fn>
+  limit: ReturnType<typeof vi.fn>
   single: ReturnType<typeof vi.fn>
   maybeSingle: ReturnType<typeof vi.fn>
 }
 
+/** Résultat d'une requête Supabase simulée */
+export type MockQueryResult = { data: unknown; error: unknown }
+
 /**
  * Crée un ensemble de mocks pour les méthodes chaînées de Supabase.
  *
@@ -262,18 +271,65 @@ export type MockSupabaseChain = {
  * // Configurer les résultats :
  * chain.single.mockResolvedValue({ data: myData, error: null })
  * ```
+ *
+ * Avec `result`, chaque méthode renvoie la requête elle-même, et la requête
+ * attendue (directement ou via `single()` / `maybeSingle()`) vaut `result` :
+ * ```ts
+ * const query = createMockSupabaseChain({ data: rows, error: null })
+ * mockFrom.mockReturnValue(query.fromReturn)
+ * expect(query.eq).toHaveBeenCalledWith('contract_id', 'contract-1')
+ * ```
  */
-export function createMockSupabaseChain() {
+export function createMockSupabaseChain(result?: MockQueryResult) {
   const single = vi.fn()
   const maybeSingle = vi.fn()
   const eq = vi.fn()
+  const neq = vi.fn()
+  const inFn = vi.fn()
+  const is = vi.fn()
+  const gte = vi.fn()
+  const lte = vi.fn()
   const order = vi.fn()
+  const limit = vi.fn()
   const select = vi.fn()
   const insert = vi.fn()
   const update = vi.fn()
   const deleteFn = vi.fn()
   const upsert = vi.fn()
 
+  const mocks = {
+    select,
+    insert,
+    update,
+    delete: deleteFn,
+    upsert,
+    eq,
+    neq,
+    in: inFn,
+    is,
+    gte,
+    lte,
+    order,
+    limit,
+    single,
+    maybeSingle,
+  }
+
+  if (result) {
+    const query = {
+      ...mocks,
+      then: (resolve: (value: MockQueryResult) => unknown, reject?: (reason: unknown) => unknown) =>
+        Promise.resolve(result).then(resolve, reject),
+    }
+    for (const method of [select, insert, update, deleteFn, upsert, eq, neq, inFn, is, gte, lte, order, limit]) {
+      method.mockReturnValue(query)
+    }
+    single.mockResolvedValue(result)
+    maybeSingle.mockResolvedValue(result)
+
+    return { ...mocks, fromReturn: query }
+  }
+
   // Configuration par défaut du chaînage
   eq.mockReturnValue({ single, maybeSingle, eq, order })
   order.mockReturnValue({ eq })
@@ -291,18 +347,7 @@ export function createMockSupabaseChain() {
     upsert,
   }
 
-  return {
-    select,
-    insert,
-    update,
-    delete: deleteFn,
-    upsert,
-    eq,
-    order,
-    single,
-    maybeSingle,
-    fromReturn,
-  }
+  return { ...mocks, fromReturn }
 }
 
 /**
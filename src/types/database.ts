@@ -3,7 +3,7 @@
  * Ces types représentent la structure des données telles qu'elles arrivent de la DB
  */
 
-import type { Attachment, CaregiverPermissions, AccessibilitySettings, ComputedPay } from '@/types'
+import type { Attachment, CaregiverPermissions, AccessibilitySettings, ComputedPay, ClockMethod, ActualReview, TimesheetStatus, TaskCompletionStatus, LeaveBalanceEventType, LeaveCarryOverPolicy, AbsenceType } from '@/types'
 
 // ============================================================
 // PROFILE
@@ -59,7 +59,9 @@ export interface EmployerDbRow {
   pch_monthly_amount: number | null
   pch_type: string | null
   pch_monthly_hours: number | null
+  coverage_windows: Array<{ dayOfWeek: number; startTime: string; endTime: string; shiftType: string }> | null
   emergency_contacts: Array<{ name: string; phone: string; relationship: string }> | null
+  care_log_templates: string[] | null
 }
 
 export interface EmployerHealthDataDbRow {
@@ -185,6 +187,47 @@ export interface ShiftDbRow {
   validated_by_employer: boolean
   validated_by_employee: boolean
   late_entry: boolean | null
+  clock_in_method: ClockMethod | null
+  clock_out_method: ClockMethod | null
+  clocked_in_at: string | null
+  clocked_out_at: string | null
+  clock_synced_at: string | null // Scan hors ligne synchronisé après coup
+  actual_review: ActualReview | null // Décision employeur sur l'écart prévu / réel
+  actual_reviewed_at: string | null
+  series_id: string | null
+  series_occurrence_date: string | null // Date prévue par la règle (RECURRENCE-ID)
+  is_series_exception: boolean
+  task_completions: ShiftTaskCompletionDb[] | null // Check-list renseignée par l'auxiliaire
+  created_at: string
+  updated_at: string
+}
+
+export interface ShiftTaskCompletionDb {
+  task: string
+  status: TaskCompletionStatus
+  reason?: string
+  comment?: string
+  completed_at: string
+  completed_by: string
+}
+
+export interface ShiftSeriesDbRow {
+  id: string
+  contract_id: string
+  rrule: string
+  dtstart: string
+  exdates: string[]
+  start_time: string
+  end_time: string
+  break_duration: number
+  shift_type: ShiftType
+  tasks: string[]
+  notes: string | null
+  has_night_action: boolean | null
+  night_interventions_count: number | null
+  is_requalified: boolean
+  effective_hours: number | null
+  guard_segments: GuardSegmentDb[] | null
   created_at: string
   updated_at: string
 }
@@ -196,7 +239,7 @@ export interface ShiftDbRow {
 export interface AbsenceDbRow {
   id: string
   employee_id: string
-  absence_type: 'sick' | 'vacation' | 'family_event' | 'training' | 'unavailable' | 'emergency'
+  absence_type: AbsenceType
   start_date: string
   end_date: string
   reason: string | null
@@ -223,10 +266,25 @@ export interface LeaveBalanceDbRow {
   taken_days: number
   adjustment_days: number
   is_manual_init: boolean
+  opened_at: string | null
+  closed_at: string | null
   created_at: string
   updated_at: string
 }
 
+export interface LeaveBalanceEventDbRow {
+  id: string
+  contract_id: string
+  employer_id: string
+  employee_id: string
+  leave_year: string
+  event_type: LeaveBalanceEventType
+  days: number | string // numeric
+  details: Record<string, unknown>
+  created_by: string | null
+  created_at: string
+}
+
 // ============================================================
 // LIAISON MESSAGE
 // ============================================================
@@ -240,6 +298,16 @@ export interface ConversationDbRow {
   updated_at: string
 }
 
+export interface ConversationUserSettingsDbRow {
+  conversation_id: string
+  user_id: string
+  archived_at: string | null
+  muted: boolean
+  muted_until: string | null
+  notification_level: 'all' | 'mentions' | 'none'
+  updated_at: string
+}
+
 export interface LiaisonMessageDbRow {
   id: string
   employer_id: string
@@ -251,6 +319,11 @@ export interface LiaisonMessageDbRow {
   attachments: Attachment[] | null
   is_edited: boolean
   read_by: string[] | null
+  reply_to_id?: string | null
+  reactions?: Record<string, string[]> | null
+  pinned_at?: string | null
+  pinned_by?: string | null
+  mentioned_user_ids?: string[] | null
   created_at: string
   updated_at: string
   sender?: {
@@ -258,6 +331,11 @@ export interface LiaisonMessageDbRow {
     last_name: string
     avatar_url: string | null
   }
+  reply_to?: {
+    id: string
+    content: string
+    sender?: { first_name: string; last_name: string } | null
+  } | null
 }
 
 // ============================================================
@@ -276,6 +354,10 @@ export interface LogEntryDbRow {
   attachments: Attachment[] | null
   recipient_id: string | null
   read_by: string[] | null
+  template_id: string | null
+  care_data: Record<string, number | boolean | string> | null
+  shift_id: string | null
+  mentioned_user_ids?: string[] | null
   created_at: string
   updated_at: string
   author?: {
@@ -284,6 +366,37 @@ export interface LogEntryDbRow {
   }
 }
 
+// ============================================================
+// MEDICATION
+// ============================================================
+
+/** Ligne de la vue déchiffrée `medications_v` */
+export interface MedicationDbRow {
+  id: string
+  employer_id: string
+  name: string
+  dose: string
+  instructions: string | null
+  times: string[]
+  start_date: string
+  end_date: string | null
+  archived_at: string | null
+  created_by: string
+  created_at: string
+  updated_at: string
+}
+
+export interface MedicationAdministrationDbRow {
+  id: string
+  medication_id: string
+  shift_id: string
+  employer_id: string
+  scheduled_time: string
+  status: 'given' | 'refused' | 'missed'
+  recorded_by: string
+  recorded_at: string
+}
+
 // ============================================================
 // NOTIFICATION
 // ============================================================
@@ -304,6 +417,7 @@ export interface NotificationData {
   startDate?: string
   endDate?: string
   status?: string
+  scheduledTime?: string
 }
 
 export interface NotificationDbRow {
@@ -390,6 +504,132 @@ export interface CesuDeclarationDbRow {
   created_at: string
 }
 
+// ============================================================
+// CONTRACT TERMINATION
+// ============================================================
+
+export interface ContractTerminationDbRow {
+  id: string
+  contract_id: string
+  employer_id: string
+  employee_id: string
+  reason: 'resignation' | 'dismissal' | 'mutual_agreement' | 'employer_death'
+  notification_date: string
+  end_date: string
+  notice_waived: boolean
+  seniority_months: number
+  reference_salary: number
+  remaining_leave_days: number
+  outstanding_salary: number
+  leave_indemnity: number
+  notice_indemnity: number
+  severance_pay: number
+  total_amount: number
+  created_at: string
+}
+
+export interface EmployeeDocumentDbRow {
+  id: string
+  employer_id: string
+  employee_id: string
+  contract_id: string
+  document_type: 'final_pay_statement' | 'work_certificate' | 'france_travail_certificate'
+  title: string
+  storage_path: string
+  created_at: string
+}
+
+export interface ContractAmendmentDbRow {
+  id: string
+  contract_id: string
+  employer_id: string
+  effective_date: string
+  weekly_hours: number
+  hourly_rate: number
+  pas_rate: number
+  reason: string
+  signed_document_path: string | null
+  created_at: string
+}
+
+// ============================================================
+// SIGNATURE ÉLECTRONIQUE
+// ============================================================
+
+export interface SignatureRequestDbRow {
+  id: string
+  employer_id: string
+  employee_id: string
+  contract_id: string
+  amendment_id: string | null
+  timesheet_id: string | null
+  document_type: 'contract' | 'amendment' | 'timesheet'
+  title: string
+  document_data: Record<string, unknown>
+  document_hash: string
+  document_path: string
+  status: 'pending' | 'signed' | 'cancelled'
+  sealed_path: string | null
+  sealed_hash: string | null
+  employer_signed_at: string | null
+  employee_signed_at: string | null
+  last_reminded_at: string | null
+  created_at: string
+  updated_at: string
+  completed_at: string | null
+}
+
+export interface DocumentSignatureDbRow {
+  id: string
+  request_id: string
+  signer_id: string
+  signer_role: 'employer' | 'employee'
+  signer_name: string
+  method: 'drawn' | 'typed'
+  signature_data: string
+  document_hash: string
+  consent_text: string
+  user_agent: string | null
+  signed_at: string
+}
+
+// ============================================================
+// TIMESHEET
+// ============================================================
+
+export interface TimesheetDbRow {
+  id: string
+  contract_id: string
+  year: number
+  month: number
+  status: TimesheetStatus
+  content_hash: string
+  submitted_by: string
+  submitted_at: string
+  employer_signed_by: string | null
+  employer_signed_at: string | null
+  return_reason: string | null
+  signed_document_path: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface TimesheetCorrectionDbRow {
+  id: string
+  timesheet_id: string
+  shift_id: string | null
+  shift_date: string
+  previous_start_time: string
+  previous_end_time: string
+  previous_break_duration: number
+  start_time: string
+  end_time: string
+  break_duration: number
+  reason: string
+  created_by: string
+  created_at: string
+}
+
 // ============================================================
 // INTERVENTION SETTINGS
 // ============================================================
@@ -429,6 +669,44 @@ export interface ShoppingListTemplateDbRow {
   updated_at: string
 }
 
+export interface ShoppingPurchaseDb {
+  name: string
+  brand: string
+  planned_quantity: number
+  quantity: number
+  price: number | null
+  bought: boolean
+}
+
+export interface ShoppingExpenseDbRow {
+  id: string
+  shift_id: string
+  contract_id: string
+  employer_id: string
+  employee_id: string
+  items: ShoppingPurchaseDb[]
+  receipts: Attachment[]
+  amount_advanced: number | string // numeric : chaîne selon le client
+  reimbursed_at: string | null
+  created_at: string
+  updated_at: string
+  shift?: { date: string } | null // JOIN shifts
+}
+
+export interface ShiftTripDbRow {
+  id: string
+  shift_id: string
+  contract_id: string
+  employer_id: string
+  employee_id: string
+  purpose: string
+  distance_km: number | string // numeric : chaîne selon le client
+  vehicle: 'employee' | 'beneficiary'
+  created_by: string
+  created_at: string
+  shift?: { date: string } | null // JOIN shifts
+}
+
 // ============================================================
 // CONVENTION SETTINGS
 // ============================================================
@@ -443,10 +721,28 @@ export interface ConventionSettingsDbRow {
   maj_ferie: number
   maj_nuit: number
   maj_supp: number
+  mileage_rate: number | string // €/km (numeric)
+  leave_carry_over_policy: LeaveCarryOverPolicy
+  leave_carry_over_cap: number | string // jours (numeric)
   created_at: string
   updated_at: string
 }
 
+// ============================================================
+// REGULATORY PARAMETERS
+// ============================================================
+
+export type RegulatoryParameterDbKey = 'pass_monthly' | 'smic_monthly' | 'pch_tariffs' | 'cotisation_rates'
+
+export interface RegulatoryParameterDbRow {
+  id: string
+  key: RegulatoryParameterDbKey
+  effective_from: string
+  value: unknown
+  source: string | null
+  created_at: string
+}
+
 // ============================================================
 // PRIVACY SETTINGS
 // ============================================================
@@ -456,4 +752,4 @@ export interface PrivacySettingsDbRow {
   analytics_enabled: boolean
   created_at: string
   updated_at: string
-}
\ No newline at end of file
+}
\ No newline at end of file
@@ -1,6 +1,6 @@
 // Types de base pour Unilien
 
-import { PCH_TARIFFS_2026, type PchType } from '@/lib/pch/pchTariffs'
+import type { PchType } from '@/lib/pch/pchTariffs'
 export type { PchType }
 
 // Rôles utilisateur
@@ -42,6 +42,7 @@ export interface Employer {
   pchMonthlyAmount?: number
   pchType?: PchType         // Type de dispositif PCH
   pchMonthlyHours?: number  // Heures allouées par le plan de compensation (h/mois)
+  coverageWindows?: CoverageWindow[] // Créneaux à couvrir chaque semaine
   emergencyContacts: EmergencyContact[]
 }
 
@@ -150,18 +151,18 @@ export interface TimeSlot {
   endTime: string // "17:00"
 }
 
+// Créneau récurrent à couvrir (génération automatique du planning)
+export interface CoverageWindow {
+  dayOfWeek: number // 0 = dimanche … 6 = samedi
+  startTime: string // "HH:mm"
+  endTime: string // "HH:mm" (≤ début = se termine le lendemain)
+  shiftType: Exclude<ShiftType, 'guard_24h'>
+}
+
 // Catégorie contrat
 export type ContractCategory = 'employment' | 'caregiver_pch'
 export type CaregiverContractStatus = 'active' | 'full_time' | 'voluntary'
 
-// Taux PCH CNSA — dérivés de PCH_TARIFFS_2026 (source unique des tarifs)
-// active = aidant familial dédommagé (50% SMIC net)
-// full_time = aidant ayant cessé son activité (75% SMIC net)
-export const PCH_RATES = {
-  active: PCH_TARIFFS_2026.aidantFamilial,
-  full_time: PCH_TARIFFS_2026.aidantFamilialCessation,
-} as const
-
 // Contrat
 export interface Contract {
   id: string
@@ -216,10 +217,61 @@ export interface Shift {
   validatedByEmployer: boolean
   validatedByEmployee: boolean
   lateEntry?: boolean
+  clockInMethod?: ClockMethod // Méthode du pointage de début (absent = pas de pointage)
+  clockOutMethod?: ClockMethod // Méthode du pointage de fin
+  clockedInAt?: Date // Heure réelle du pointage de début
+  clockedOutAt?: Date // Heure réelle du pointage de fin
+  clockSyncedAt?: Date // Scan hors ligne synchronisé après coup
+  actualReview?: ActualReview // Décision employeur sur l'écart prévu / réel (absent = en attente)
+  actualReviewedAt?: Date
+  seriesId?: string // Série récurrente d'origine
+  seriesOccurrenceDate?: Date // Date prévue par la règle de la série (RECURRENCE-ID)
+  isSeriesException?: boolean // Occurrence modifiée individuellement, conservée à la régénération
+  taskCompletions?: ShiftTaskCompletion[] // Check-list renseignée par l'auxiliaire
   createdAt: Date
   updatedAt: Date
 }
 
+// Réalisation d'une tâche prévue (check-list de l'intervention)
+export type TaskCompletionStatus = 'done' | 'not_done'
+
+export interface ShiftTaskCompletion {
+  task: string // Libellé de la tâche dans shift.tasks
+  status: TaskCompletionStatus
+  reason?: string // Motif, obligatoire si la tâche n'a pas été faite
+  comment?: string
+  completedAt: Date
+  completedBy: string // Profil de l'auxiliaire
+}
+
+// Série d'interventions récurrentes : règle RRULE + modèle d'intervention
+export interface ShiftSeries {
+  id: string
+  contractId: string
+  rrule: string // Sous-ensemble RFC 5545, ex. "FREQ=WEEKLY;INTERVAL=1;BYDAY=MO,TH;COUNT=10"
+  dtstart: Date // Première occurrence
+  exdates: Date[] // Occurrences supprimées ou bloquées
+  startTime: string
+  endTime: string
+  breakDuration: number
+  shiftType: ShiftType
+  tasks: string[]
+  notes?: string
+  hasNightAction?: boolean
+  nightInterventionsCount?: number
+  isRequalified: boolean
+  effectiveHours?: number
+  guardSegments?: GuardSegment[]
+  createdAt: Date
+  updatedAt: Date
+}
+
+// Méthode de pointage : badge QR scanné, bouton manuel ou saisie a posteriori
+export type ClockMethod = 'qr' | 'manual' | 'retroactive'
+
+// Décision de l'employeur sur l'écart entre heures prévues et réelles
+export type ActualReview = 'accepted' | 'rejected'
+
 // Calcul de paie
 export interface ComputedPay {
   basePay: number
@@ -230,6 +282,23 @@ export interface ComputedPay {
   presenceResponsiblePay: number // Heures converties (2/3) × taux horaire (présence jour)
   nightPresenceAllowance: number // Indemnité forfaitaire nuit (>= 1/4 du taux horaire)
   totalPay: number
+  rateSet?: PayRateSet // Taux ayant servi au calcul (absent sur les calculs antérieurs)
+}
+
+// Taux de majoration (décimaux : 0.30 = +30%)
+export interface MajorationRateSet {
+  SUNDAY: number
+  PUBLIC_HOLIDAY_WORKED: number
+  PUBLIC_HOLIDAY_EXCEPTIONAL: number
+  NIGHT: number
+  OVERTIME_FIRST_8H: number
+  OVERTIME_BEYOND_8H: number
+}
+
+// Jeu de taux appliqué : barème IDCC 3239 par défaut ou paramètres convention de l'employeur
+export interface PayRateSet {
+  source: 'idcc_default' | 'convention_settings'
+  rates: MajorationRateSet
 }
 
 // Entrée cahier de liaison
@@ -244,11 +313,49 @@ export interface LogEntry {
   audioUrl?: string
   attachments: Attachment[]
   recipientId?: string
+  mentionedUserIds?: string[] // Personnes mentionnées (@Prénom)
   readBy: string[]
+  templateId?: CareTemplateId // Fiche de suivi structurée
+  careData?: CareLogData
+  shiftId?: string // Intervention pendant laquelle l'observation a été faite
+  createdAt: Date
+  updatedAt: Date
+}
+
+// Modèle de fiche de suivi (cahier de liaison)
+export type CareTemplateId = 'meal' | 'fluids' | 'elimination' | 'mood' | 'fall' | 'pain'
+
+// Valeurs d'une fiche de suivi, par champ du modèle
+export type CareLogData = Record<string, number | boolean | string>
+
+// Médicament du plan de prise (donnée de santé, art. 9 RGPD)
+export interface Medication {
+  id: string
+  employerId: string
+  name: string
+  dose: string
+  instructions?: string
+  times: string[] // 'HH:MM', triées
+  startDate: Date
+  endDate?: Date
+  archivedAt?: Date
   createdAt: Date
   updatedAt: Date
 }
 
+// Résultat d'une prise pointée pendant une intervention
+export type MedicationAdministrationStatus = 'given' | 'refused' | 'missed'
+
+export interface MedicationAdministration {
+  id: string
+  medicationId: string
+  shiftId: string
+  scheduledTime: string // 'HH:MM'
+  status: MedicationAdministrationStatus
+  recordedBy: string
+  recordedAt: Date
+}
+
 // Pièce jointe
 export interface Attachment {
   id: string
@@ -256,10 +363,63 @@ export interface Attachment {
   type: 'image' | 'document' | 'audio'
   name: string
   size: number
+  path?: string // Chemin dans le bucket, pour régénérer l'URL signée
+}
+
+// Achat d'un article de la liste de courses d'une intervention
+export interface ShoppingPurchase {
+  name: string
+  brand: string
+  plannedQuantity: number
+  quantity: number // Quantité réellement achetée
+  price?: number // Montant payé pour la ligne (€)
+  bought: boolean
+}
+
+// Courses d'une intervention : achats, tickets et frais avancés par l'auxiliaire
+export interface ShoppingExpense {
+  id: string
+  shiftId: string
+  contractId: string
+  employerId: string
+  employeeId: string
+  shiftDate?: Date // Disponible quand l'enregistrement est chargé avec l'intervention
+  items: ShoppingPurchase[]
+  receipts: Attachment[]
+  amountAdvanced: number
+  reimbursedAt?: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+// Déplacement effectué pour le bénéficiaire pendant une intervention
+export type TripVehicle = 'employee' | 'beneficiary'
+
+export interface ShiftTrip {
+  id: string
+  shiftId: string
+  contractId: string
+  employerId: string
+  employeeId: string
+  shiftDate?: Date // Disponible quand le trajet est chargé avec l'intervention
+  purpose: string
+  distanceKm: number // Saisi à la main (géocodage facultatif)
+  vehicle: TripVehicle // Seul le véhicule de l'auxiliaire ouvre droit à l'indemnité
+  createdBy: string
+  createdAt: Date
 }
 
 // Absence
-export type AbsenceType = 'sick' | 'vacation' | 'family_event' | 'training' | 'unavailable' | 'emergency'
+export type AbsenceType =
+  | 'sick'
+  | 'vacation'
+  | 'family_event'
+  | 'training'
+  | 'unavailable'
+  | 'emergency'
+  | 'unpaid_leave'
+  | 'maternity'
+  | 'work_accident'
 
 export interface Absence {
   id: string
@@ -303,6 +463,35 @@ export interface LeaveBalance {
   adjustmentDays: number
   remainingDays: number
   isManualInit: boolean
+  /** Clôture de l'année précédente traitée (report, fractionnement) */
+  openedAt?: Date
+  /** Année clôturée : le solde est gelé */
+  closedAt?: Date
+}
+
+// Sort du reliquat de congés à la clôture de l'année
+export type LeaveCarryOverPolicy = 'carry_all' | 'capped' | 'expire'
+
+export type LeaveBalanceEventType = 'year_closed' | 'carry_over' | 'expiry' | 'fractionnement'
+
+// Trace de la clôture d'une année de congés
+export interface LeaveBalanceEvent {
+  id: string
+  contractId: string
+  /** Année dont le solde est affecté */
+  leaveYear: string
+  eventType: LeaveBalanceEventType
+  days: number
+  details: {
+    acquiredDays?: number
+    takenDays?: number
+    adjustmentDays?: number
+    fromLeaveYear?: string
+    policy?: LeaveCarryOverPolicy
+    cap?: number
+    daysOutsideMainPeriod?: number
+  }
+  createdAt: Date
 }
 
 // Types de notification
@@ -320,10 +509,15 @@ export type NotificationType =
   | 'contract_terminated'     // Contrat terminé
   | 'logbook_urgent'          // Entrée urgente au cahier de liaison
   | 'logbook_entry_directed'  // Entrée cahier destinée à un membre spécifique
+  | 'logbook_mention'         // Mention (@Prénom) dans une entrée du cahier
   | 'permissions_updated'     // Permissions aidant modifiées
   | 'shift_modified'          // Intervention modifiée (horaire/date)
+  | 'shift_reassigned'        // Intervention réattribuée à un remplaçant
   | 'absence_requested'       // Demande d'absence reçue
   | 'absence_resolved'        // Absence approuvée ou refusée
+  | 'medication_missed'       // Prise de médicament manquée pendant une intervention
+  | 'signature_requested'     // Document à signer (demande ou relance)
+  | 'document_signed'         // Document signé par l'autre partie
   | 'system'                  // Notification système
 
 // Priorité de notification
@@ -360,6 +554,10 @@ export interface NotificationData {
   senderId?: string
   senderName?: string
   messagePreview?: string
+  conversationId?: string
+  messageId?: string
+  /** Le destinataire est mentionné dans le message */
+  mentioned?: boolean
   // Generic
   [key: string]: unknown
 }
@@ -410,9 +608,26 @@ export interface Conversation {
     avatarUrl?: string
   }
   lastMessage?: string
+  lastMessageAt?: Date
   unreadCount: number
+  /** Messages non lus mentionnant l'utilisateur courant */
+  unreadMentionCount?: number
+  // Réglages propres à l'utilisateur courant (absents = valeurs par défaut)
+  archivedAt?: Date
+  /** Archivée et sans message reçu depuis */
+  isArchived?: boolean
+  /** Sourdine active ; sans mutedUntil, jusqu'à réactivation */
+  isMuted?: boolean
+  mutedUntil?: Date
+  notificationLevel?: ConversationNotificationLevel
 }
 
+// Notifications d'une conversation : tous les messages, mentions seulement, aucune
+export type ConversationNotificationLevel = 'all' | 'mentions' | 'none'
+
+// Réactions emoji d'un message : emoji → ids des utilisateurs ayant réagi
+export type MessageReactions = Record<string, string[]>
+
 // Message de liaison (chat en temps réel)
 export interface LiaisonMessage {
   id: string
@@ -425,6 +640,14 @@ export interface LiaisonMessage {
   attachments: Attachment[]
   isEdited: boolean
   readBy: string[]
+  /** Message auquel celui-ci répond */
+  replyToId?: string
+  reactions: MessageReactions
+  /** Épinglé en tête de conversation (consignes dans le fil d'équipe) */
+  pinnedAt?: Date
+  pinnedBy?: string
+  /** Personnes mentionnées (@Prénom) */
+  mentionedUserIds?: string[]
   createdAt: Date
   updatedAt: Date
 }
@@ -435,6 +658,12 @@ export interface LiaisonMessageWithSender extends LiaisonMessage {
     lastName: string
     avatarUrl?: string
   }
+  /** Aperçu du message cité */
+  replyTo?: {
+    id: string
+    content: string
+    senderName: string
+  }
 }
 
 // ── Bulletin de paie (historique) ────────────────────────────────────────────
@@ -475,6 +704,177 @@ export interface CesuDeclarationRecord {
   createdAt: Date
 }
 
+// ── Fin de contrat ──────────────────────────────────────────────────────────
+
+/**
+ * - `resignation` : démission
+ * - `dismissal` : licenciement
+ * - `mutual_agreement` : rupture conventionnelle
+ * - `employer_death` : décès de l'employeur (fin de plein droit)
+ */
+export type TerminationReason = 'resignation' | 'dismissal' | 'mutual_agreement' | 'employer_death'
+
+export interface ContractTermination {
+  id: string
+  contractId: string
+  employerId: string
+  employeeId: string
+  reason: TerminationReason
+  /** Notification de la rupture (lettre, signature de la convention, décès) */
+  notificationDate: Date
+  /** Dernier jour du contrat (fin du préavis effectué) */
+  endDate: Date
+  noticeWaived: boolean
+  seniorityMonths: number
+  /** Salaire mensuel brut de référence */
+  referenceSalary: number
+  remainingLeaveDays: number
+  outstandingSalary: number
+  leaveIndemnity: number
+  noticeIndemnity: number
+  severancePay: number
+  totalAmount: number
+  createdAt: Date
+}
+
+/**
+ * Documents remis à l'auxiliaire, classés dans son espace Documents.
+ * - `final_pay_statement` : reçu pour solde de tout compte
+ * - `work_certificate` : certificat de travail
+ * - `france_travail_certificate` : attestation employeur France Travail
+ */
+export type EmployeeDocumentType = 'final_pay_statement' | 'work_certificate' | 'france_travail_certificate'
+
+export interface EmployeeDocument {
+  id: string
+  employerId: string
+  employeeId: string
+  contractId: string
+  documentType: EmployeeDocumentType
+  title: string
+  storagePath: string
+  createdAt: Date
+}
+
+// ── Avenants au contrat ──────────────────────────────────────────────────────
+
+/**
+ * Version datée des conditions d'un contrat : la première reprend le contrat
+ * initial, les suivantes sont des avenants. Une version s'applique de sa date
+ * d'effet jusqu'à la veille de la suivante.
+ */
+export interface ContractAmendment {
+  id: string
+  contractId: string
+  employerId: string
+  effectiveDate: Date
+  weeklyHours: number
+  hourlyRate: number
+  pasRate: number
+  reason: string
+  /** Avenant signé (PDF) dans le bucket "employee-documents" */
+  signedDocumentPath?: string
+  createdAt: Date
+}
+
+// ── Signature électronique ───────────────────────────────────────────────────
+
+export type SignatureDocumentType = 'contract' | 'amendment' | 'timesheet'
+
+/**
+ * - `pending` : en attente d'au moins une signature
+ * - `signed` : signé par les deux parties, PDF scellé déposé
+ * - `cancelled` : annulé par l'employeur avant la dernière signature
+ */
+export type SignatureRequestStatus = 'pending' | 'signed' | 'cancelled'
+
+export type SignerRole = 'employer' | 'employee'
+
+/** Signature tracée à l'écran ou nom saisi au clavier */
+export type SignatureMethod = 'drawn' | 'typed'
+
+/**
+ * Document soumis à la signature des deux parties. L'empreinte SHA-256 du PDF
+ * déposé lie chaque signature au document exact présenté au signataire.
+ */
+export interface SignatureRequest {
+  id: string
+  employerId: string
+  employeeId: string
+  contractId: string
+  amendmentId?: string
+  timesheetId?: string
+  documentType: SignatureDocumentType
+  title: string
+  documentHash: string
+  documentPath: string
+  status: SignatureRequestStatus
+  sealedPath?: string
+  sealedHash?: string
+  employerSignedAt?: Date
+  employeeSignedAt?: Date
+  lastRemindedAt?: Date
+  createdAt: Date
+  completedAt?: Date
+}
+
+export interface DocumentSignature {
+  id: string
+  requestId: string
+  signerId: string
+  signerRole: SignerRole
+  signerName: string
+  method: SignatureMethod
+  /** Image PNG (data URI) pour une signature tracée, nom saisi sinon */
+  signatureData: string
+  documentHash: string
+  signedAt: Date
+}
+
+// ── Relevé d'heures mensuel (double signature) ──────────────────────────────
+
+/**
+ * - `submitted` : soumis par l'auxiliaire, en attente de contre-signature
+ * - `returned` : renvoyé par l'employeur, à soumettre de nouveau
+ * - `locked` : contresigné, le mois n'est plus modifiable (sauf correction)
+ */
+export type TimesheetStatus = 'submitted' | 'returned' | 'locked'
+
+export interface Timesheet {
+  id: string
+  contractId: string
+  year: number
+  month: number
+  status: TimesheetStatus
+  /** Empreinte SHA-256 des interventions du mois à la soumission */
+  contentHash: string
+  submittedBy: string
+  submittedAt: Date
+  employerSignedBy?: string
+  employerSignedAt?: Date
+  returnReason?: string
+  /** PDF scellé du relevé signé électroniquement par les deux parties */
+  signedDocumentPath?: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface TimesheetCorrection {
+  id: string
+  timesheetId: string
+  shiftId?: string
+  shiftDate: Date
+  previousStartTime: string
+  previousEndTime: string
+  previousBreakDuration: number
+  startTime: string
+  endTime: string
+  breakDuration: number
+  reason: string
+  createdBy: string
+  createdAt: Date
+}
+
 // État authentification
 export interface AuthState {
   user: Profile | null
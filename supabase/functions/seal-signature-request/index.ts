@@ -0,0 +1,105 @@
+// ============================================
+// SUPABASE EDGE FUNCTION: seal-signature-request
+// Clôt une demande de signature après le dépôt du PDF scellé.
+// L'empreinte SHA-256 du PDF est calculée ici, à partir du fichier stocké :
+// celle calculée par le client n'est jamais enregistrée.
+// ============================================
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0'
+import { createRateLimiter } from '../_shared/rateLimit.ts'
+
+const BUCKET = 'employee-documents'
+
+const rateLimiter = createRateLimiter(10) // max 10 scellements/min
+
+interface SealPayload {
+  requestId: string
+  sealedPath: string
+}
+
+const ALLOWED_ORIGINS = [
+  'https://unilien.app',
+  'https://www.unilien.app',
+]
+
+function getCorsOrigin(req: Request): string {
+  const origin = req.headers.get('origin') || ''
+  if (ALLOWED_ORIGINS.includes(origin)) return origin
+  if (origin.startsWith('http://localhost:')) return origin
+  return ALLOWED_ORIGINS[0]
+}
+
+async function sha256Hex(bytes: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', bytes)
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+serve(async (req: Request) => {
+  const corsOrigin = getCorsOrigin(req)
+
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', {
+      headers: {
+        'Access-Control-Allow-Origin': corsOrigin,
+        'Access-Control-Allow-Methods': 'POST',
+        'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+        'Vary': 'Origin',
+      },
+    })
+  }
+
+  const corsHeaders = { 'Access-Control-Allow-Origin': corsOrigin, 'Vary': 'Origin', 'Content-Type': 'application/json' }
+
+  try {
+    const token = (req.headers.get('authorization') || '').replace('Bearer ', '')
+    if (!token) {
+      return new Response(JSON.stringify({ error: 'not_authorized' }), { status: 401, headers: corsHeaders })
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      { auth: { persistSession: false } },
+    )
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: 'not_authorized' }), { status: 401, headers: corsHeaders })
+    }
+
+    // Rate limiting par utilisateur authentifié
+    if (rateLimiter.isLimited(user.id)) {
+      return rateLimiter.tooManyRequestsResponse(corsHeaders)
+    }
+
+    const { requestId, sealedPath } = (await req.json()) as SealPayload
+    if (!requestId || !sealedPath) {
+      return new Response(JSON.stringify({ error: 'invalid_sealed_document' }), { status: 400, headers: corsHeaders })
+    }
+
+    // Le dossier et les parties sont vérifiés par seal_signature_request ;
+    // le téléchargement ne fait que lire le PDF dont l'empreinte est scellée
+    const { data: file, error: downloadError } = await supabase.storage.from(BUCKET).download(sealedPath)
+    if (downloadError || !file) {
+      return new Response(JSON.stringify({ error: 'invalid_sealed_document' }), { status: 400, headers: corsHeaders })
+    }
+
+    const { data: request, error: sealError } = await supabase.rpc('seal_signature_request', {
+      p_request_id: requestId,
+      p_sealer_id: user.id,
+      p_sealed_path: sealedPath,
+      p_sealed_hash: await sha256Hex(await file.arrayBuffer()),
+    })
+
+    if (sealError) {
+      // Le message porte le code d'erreur levé par la fonction SQL
+      return new Response(JSON.stringify({ error: sealError.message }), { status: 400, headers: corsHeaders })
+    }
+
+    return new Response(JSON.stringify({ request }), { status: 200, headers: corsHeaders })
+  } catch {
+    return new Response(JSON.stringify({ error: 'unknown' }), { status: 500, headers: corsHeaders })
+  }
+})
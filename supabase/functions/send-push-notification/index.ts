@@ -84,7 +84,7 @@ serve(async (req) => {
     const supabase = createClient(supabaseUrl, supabaseServiceKey, { auth: { persistSession: false } })
     const { data: notification, error: notifError } = await supabase
       .from('notifications')
-      .select('id, user_id, title, message, action_url, type, priority, created_at')
+      .select('id, user_id, title, message, action_url, type, priority, data, created_at')
       .eq('id', payload.notificationId)
       .single()
 
@@ -103,6 +103,20 @@ serve(async (req) => {
 
     const targetUserId = notification.user_id
 
+    // Messages : respecter la sourdine et le niveau de notification choisis
+    // par le destinataire pour cette conversation
+    const conversationId = notification.data?.conversationId
+    if (notification.type === 'message_received' && typeof conversationId === 'string') {
+      const { data: allowed, error: settingsError } = await supabase.rpc('conversation_notification_allowed', {
+        p_user_id: targetUserId,
+        p_conversation_id: conversationId,
+        p_mentioned: notification.data?.mentioned === true,
+      })
+      if (!settingsError && allowed === false) {
+        return new Response(JSON.stringify({ sent: 0, message: 'Muted' }), { status: 200, headers: corsHeaders })
+      }
+    }
+
     const { data: subs, error } = await supabase
       .from('push_subscriptions')
       .select('endpoint, p256dh, auth')
@@ -0,0 +1,26 @@
+-- Paramètres réglementaires datés (SMIC, PASS, tarifs PCH, taux de cotisations)
+--
+-- Chaque ligne est une version d'un paramètre, valable à partir de `effective_from`.
+-- Le client fusionne ces lignes avec les versions intégrées au code
+-- (`src/lib/regulatory/parameters.ts`) : une revalorisation s'ajoute ici sans
+-- release, et les mois passés restent calculés avec les valeurs de l'époque.
+--
+-- value : nombre (pass_monthly, smic_monthly) ou objet JSON (pch_tariffs,
+-- cotisation_rates — mêmes clés que les types TypeScript).
+
+CREATE TABLE regulatory_parameters (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  key TEXT NOT NULL CHECK (key IN ('pass_monthly', 'smic_monthly', 'pch_tariffs', 'cotisation_rates')),
+  effective_from DATE NOT NULL,
+  value JSONB NOT NULL,
+  source TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (key, effective_from)
+);
+
+ALTER TABLE regulatory_parameters ENABLE ROW LEVEL SECURITY;
+
+-- Lecture seule pour les utilisateurs connectés ; l'écriture passe par le service role
+CREATE POLICY "Authenticated users can read regulatory parameters"
+  ON regulatory_parameters FOR SELECT TO authenticated
+  USING (true);
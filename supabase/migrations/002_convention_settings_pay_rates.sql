@@ -0,0 +1,21 @@
+-- Majorations de l'employeur appliquées au calcul de paie
+--
+-- Les taux de `convention_settings` alimentent désormais `calculateShiftPay`
+-- et les exports CESU. Les salariés et aidants liés par contrat lisent les
+-- paramètres de leur employeur, pour que le calcul de paie côté planning
+-- utilise les mêmes taux.
+
+CREATE POLICY "Contract parties can read employer convention settings"
+  ON convention_settings FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM contracts
+      WHERE contracts.employer_id = convention_settings.profile_id
+        AND (contracts.employee_id = auth.uid() OR contracts.caregiver_id = auth.uid())
+    )
+    OR EXISTS (
+      SELECT 1 FROM caregivers
+      WHERE caregivers.employer_id = convention_settings.profile_id
+        AND caregivers.profile_id = auth.uid()
+    )
+  );
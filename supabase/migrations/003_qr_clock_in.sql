@@ -0,0 +1,338 @@
+-- Pointage par QR code (cf. docs/QR_CLOCKIN_IMPLEMENTATION.md)
+--
+--   1. Chaque contrat dispose d'un badge signé : le QR encode
+--      `UNILIEN-CI.<version>.<contract_id>.<signature>` où la signature est un
+--      HMAC-SHA256 calculé avec un secret propre au contrat, jamais exposé au client.
+--      Régénérer le badge change le secret et incrémente la version : les
+--      anciens stickers deviennent invalides.
+--   2. Chaque scan porte un nonce à usage unique (anti-rejeu). Un scan en
+--      ligne est horodaté par le serveur ; seule la synchronisation d'un scan
+--      fait hors ligne transmet l'heure de l'appareil, acceptée dans une
+--      fenêtre courte et signalée par `clock_synced_at`.
+--   3. Les interventions gardent la méthode et l'heure réelle de chaque
+--      pointage (`qr` / `manual` / `retroactive`) pour la revue employeur.
+--      Ces colonnes ne s'écrivent qu'à travers les fonctions de pointage
+--      (trigger `protect_shift_clock_columns`).
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- ── Badges ───────────────────────────────────────────────────────────────────
+
+CREATE TABLE public.clock_in_badges (
+  contract_id uuid PRIMARY KEY REFERENCES public.contracts(id) ON DELETE CASCADE,
+  secret      text        NOT NULL DEFAULT encode(extensions.gen_random_bytes(32), 'hex'),
+  version     integer     NOT NULL DEFAULT 1,
+  created_at  timestamptz NOT NULL DEFAULT now(),
+  rotated_at  timestamptz
+);
+
+-- Aucune policy : le secret n'est lisible qu'à travers les fonctions ci-dessous
+ALTER TABLE public.clock_in_badges ENABLE ROW LEVEL SECURITY;
+
+-- ── Pointages ────────────────────────────────────────────────────────────────
+
+ALTER TABLE public.shifts
+  ADD COLUMN clock_in_method  text CHECK (clock_in_method IN ('qr', 'manual', 'retroactive')),
+  ADD COLUMN clock_out_method text CHECK (clock_out_method IN ('qr', 'manual', 'retroactive')),
+  ADD COLUMN clocked_in_at    timestamptz,
+  ADD COLUMN clocked_out_at   timestamptz,
+  -- Renseigné quand un scan fait hors ligne est synchronisé après coup
+  ADD COLUMN clock_synced_at  timestamptz;
+
+CREATE TABLE public.clock_in_scans (
+  nonce       uuid        PRIMARY KEY,
+  shift_id    uuid        NOT NULL REFERENCES public.shifts(id) ON DELETE CASCADE,
+  event       text        NOT NULL CHECK (event IN ('start', 'end')),
+  scanned_at  timestamptz NOT NULL,
+  recorded_at timestamptz NOT NULL DEFAULT now(),
+  recorded_by uuid        NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE
+);
+
+CREATE INDEX clock_in_scans_shift_idx ON public.clock_in_scans (shift_id);
+
+ALTER TABLE public.clock_in_scans ENABLE ROW LEVEL SECURITY;
+
+-- Les parties au contrat consultent les scans ; l'écriture passe par record_qr_clock_event
+CREATE POLICY "Contract parties can read clock-in scans"
+  ON public.clock_in_scans FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.shifts s
+      JOIN public.contracts c ON c.id = s.contract_id
+      WHERE s.id = clock_in_scans.shift_id
+        AND (c.employer_id = auth.uid() OR c.employee_id = auth.uid())
+    )
+  );
+
+-- ── Fonctions ────────────────────────────────────────────────────────────────
+
+CREATE FUNCTION public.clock_in_badge_payload(p_contract_id uuid, p_version integer, p_secret text)
+RETURNS text
+LANGUAGE sql IMMUTABLE
+SET search_path TO 'public', 'extensions'
+AS $$
+  SELECT 'UNILIEN-CI.' || p_version || '.' || p_contract_id || '.' ||
+    encode(hmac(p_contract_id || '.' || p_version, p_secret, 'sha256'), 'hex');
+$$;
+
+REVOKE ALL ON FUNCTION public.clock_in_badge_payload(uuid, integer, text) FROM PUBLIC, anon, authenticated;
+
+-- Contenu du QR d'un contrat (employeur uniquement) ; crée le badge au premier appel
+CREATE FUNCTION public.get_clock_in_badge(p_contract_id uuid)
+RETURNS text
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_badge public.clock_in_badges;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM contracts WHERE id = p_contract_id AND employer_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'not_authorized' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO clock_in_badges (contract_id) VALUES (p_contract_id)
+  ON CONFLICT (contract_id) DO NOTHING;
+
+  SELECT * INTO v_badge FROM clock_in_badges WHERE contract_id = p_contract_id;
+  RETURN clock_in_badge_payload(v_badge.contract_id, v_badge.version, v_badge.secret);
+END;
+$$;
+
+-- Révoque le badge courant (sticker perdu ou photographié) et retourne le nouveau
+CREATE FUNCTION public.rotate_clock_in_badge(p_contract_id uuid)
+RETURNS text
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path TO 'public', 'extensions', 'pg_temp'
+AS $$
+DECLARE
+  v_badge public.clock_in_badges;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM contracts WHERE id = p_contract_id AND employer_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'not_authorized' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO clock_in_badges (contract_id) VALUES (p_contract_id)
+  ON CONFLICT (contract_id) DO UPDATE
+    SET secret = encode(gen_random_bytes(32), 'hex'),
+        version = clock_in_badges.version + 1,
+        rotated_at = now()
+  RETURNING * INTO v_badge;
+
+  RETURN clock_in_badge_payload(v_badge.contract_id, v_badge.version, v_badge.secret);
+END;
+$$;
+
+-- Les colonnes de pointage ne sont modifiables que par les fonctions de
+-- pointage, qui lèvent le drapeau de transaction `unilien.clock_event`.
+CREATE FUNCTION public.protect_shift_clock_columns()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public', 'pg_temp'
+AS $$
+BEGIN
+  IF coalesce(current_setting('unilien.clock_event', true), '') <> 'on' AND (
+       NEW.clock_in_method IS DISTINCT FROM OLD.clock_in_method
+    OR NEW.clock_out_method IS DISTINCT FROM OLD.clock_out_method
+    OR NEW.clocked_in_at IS DISTINCT FROM OLD.clocked_in_at
+    OR NEW.clocked_out_at IS DISTINCT FROM OLD.clocked_out_at
+    OR NEW.clock_synced_at IS DISTINCT FROM OLD.clock_synced_at
+  ) THEN
+    RAISE EXCEPTION 'clock_fields_protected' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_shift_clock_columns
+  BEFORE UPDATE OF clock_in_method, clock_out_method, clocked_in_at, clocked_out_at, clock_synced_at
+  ON public.shifts
+  FOR EACH ROW EXECUTE FUNCTION public.protect_shift_clock_columns();
+
+-- Enregistre un scan de badge. En ligne, l'heure est celle du serveur ; un scan
+-- synchronisé depuis la file hors ligne (p_offline) garde l'heure de l'appareil
+-- s'il date de moins de 12 heures.
+-- Erreurs levées : invalid_badge, not_authorized, scan_out_of_window, replayed_scan.
+CREATE FUNCTION public.record_qr_clock_event(
+  p_payload text,
+  p_shift_id uuid,
+  p_event text,
+  p_scanned_at timestamptz,
+  p_nonce uuid,
+  p_offline boolean DEFAULT false
+)
+RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_parts text[] := string_to_array(p_payload, '.');
+  v_contract_id uuid;
+  v_version integer;
+  v_badge public.clock_in_badges;
+  v_shift public.shifts;
+  v_at timestamptz := CASE WHEN p_offline THEN p_scanned_at ELSE now() END;
+  v_synced_at timestamptz := CASE WHEN p_offline THEN now() END;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'not_authorized' USING ERRCODE = '28000';
+  END IF;
+
+  IF p_event NOT IN ('start', 'end') THEN
+    RAISE EXCEPTION 'Évènement invalide: %', p_event USING ERRCODE = '22023';
+  END IF;
+
+  IF array_length(v_parts, 1) <> 4 OR v_parts[1] <> 'UNILIEN-CI'
+     OR v_parts[2] !~ '^[0-9]+$'
+     OR v_parts[3] !~ '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN
+    RAISE EXCEPTION 'invalid_badge' USING ERRCODE = '22023';
+  END IF;
+
+  v_version := v_parts[2]::integer;
+  v_contract_id := v_parts[3]::uuid;
+
+  -- Signature et version courante du badge
+  SELECT * INTO v_badge FROM clock_in_badges WHERE contract_id = v_contract_id;
+  IF NOT FOUND
+     OR v_badge.version <> v_version
+     OR clock_in_badge_payload(v_badge.contract_id, v_badge.version, v_badge.secret) <> p_payload THEN
+    RAISE EXCEPTION 'invalid_badge' USING ERRCODE = '22023';
+  END IF;
+
+  -- L'intervention appartient au contrat du badge et à l'auxiliaire connecté
+  SELECT s.* INTO v_shift
+  FROM shifts s
+  JOIN contracts c ON c.id = s.contract_id
+  WHERE s.id = p_shift_id
+    AND s.contract_id = v_contract_id
+    AND c.employee_id = auth.uid();
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'not_authorized' USING ERRCODE = '42501';
+  END IF;
+
+  -- Heure de scan plausible : autour du jour de l'intervention ; hors ligne,
+  -- ni dans le futur ni plus de 12 heures avant la synchronisation
+  IF v_at < v_shift.date - interval '1 day'
+     OR v_at > v_shift.date + interval '2 days'
+     OR (p_offline AND (v_at > now() OR v_at < now() - interval '12 hours')) THEN
+    RAISE EXCEPTION 'scan_out_of_window' USING ERRCODE = '22023';
+  END IF;
+
+  BEGIN
+    INSERT INTO clock_in_scans (nonce, shift_id, event, scanned_at, recorded_by)
+    VALUES (p_nonce, p_shift_id, p_event, v_at, auth.uid());
+  EXCEPTION WHEN unique_violation THEN
+    RAISE EXCEPTION 'replayed_scan' USING ERRCODE = '23505';
+  END;
+
+  PERFORM set_config('unilien.clock_event', 'on', true);
+
+  IF p_event = 'start' THEN
+    UPDATE shifts
+    SET clock_in_method = 'qr',
+        clocked_in_at = v_at,
+        clock_synced_at = COALESCE(v_synced_at, clock_synced_at),
+        updated_at = now()
+    WHERE id = p_shift_id;
+  ELSE
+    UPDATE shifts
+    SET clock_out_method = 'qr',
+        clocked_out_at = v_at,
+        clock_synced_at = COALESCE(v_synced_at, clock_synced_at),
+        updated_at = now()
+    WHERE id = p_shift_id;
+  END IF;
+
+  PERFORM set_config('unilien.clock_event', 'off', true);
+END;
+$$;
+
+-- Pointage sans badge (boutons « Commencer » / « Terminer ») : heure du serveur.
+-- Erreur levée : not_authorized.
+CREATE FUNCTION public.record_manual_clock_event(p_shift_id uuid, p_event text)
+RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+BEGIN
+  IF p_event NOT IN ('start', 'end') THEN
+    RAISE EXCEPTION 'Évènement invalide: %', p_event USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM 1
+  FROM shifts s
+  JOIN contracts c ON c.id = s.contract_id
+  WHERE s.id = p_shift_id AND c.employee_id = auth.uid();
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'not_authorized' USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM set_config('unilien.clock_event', 'on', true);
+
+  IF p_event = 'start' THEN
+    UPDATE shifts
+    SET clock_in_method = 'manual', clocked_in_at = now(), updated_at = now()
+    WHERE id = p_shift_id;
+  ELSE
+    UPDATE shifts
+    SET clock_out_method = 'manual', clocked_out_at = now(), updated_at = now()
+    WHERE id = p_shift_id;
+  END IF;
+
+  PERFORM set_config('unilien.clock_event', 'off', true);
+END;
+$$;
+
+-- Heures réelles déclarées a posteriori (7 jours au plus), soumises au
+-- rapprochement par l'employeur. Erreurs levées : not_authorized, scan_out_of_window.
+CREATE FUNCTION public.record_retroactive_clock_times(
+  p_shift_id uuid,
+  p_clocked_in_at timestamptz,
+  p_clocked_out_at timestamptz
+)
+RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_shift public.shifts;
+BEGIN
+  SELECT s.* INTO v_shift
+  FROM shifts s
+  JOIN contracts c ON c.id = s.contract_id
+  WHERE s.id = p_shift_id AND c.employee_id = auth.uid();
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'not_authorized' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_shift.date < current_date - 7
+     OR p_clocked_out_at <= p_clocked_in_at
+     OR p_clocked_out_at > now()
+     OR p_clocked_in_at < v_shift.date - interval '1 day'
+     OR p_clocked_out_at > v_shift.date + interval '2 days' THEN
+    RAISE EXCEPTION 'scan_out_of_window' USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM set_config('unilien.clock_event', 'on', true);
+
+  UPDATE shifts
+  SET clock_in_method = 'retroactive',
+      clock_out_method = 'retroactive',
+      clocked_in_at = p_clocked_in_at,
+      clocked_out_at = p_clocked_out_at,
+      updated_at = now()
+  WHERE id = p_shift_id;
+
+  PERFORM set_config('unilien.clock_event', 'off', true);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_clock_in_badge(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rotate_clock_in_badge(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.record_qr_clock_event(text, uuid, text, timestamptz, uuid, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.record_manual_clock_event(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.record_retroactive_clock_times(uuid, timestamptz, timestamptz) TO authenticated;
@@ -0,0 +1,46 @@
+-- Horaires réels et rapprochement prévu / réel
+--
+-- Le pointage ne réécrit plus `start_time` / `end_time` : ils restent le
+-- planning. Les heures réelles sont `clocked_in_at` / `clocked_out_at`
+-- (migration 003). Quand elles s'écartent du planning, l'employeur accepte
+-- ou refuse l'écart ; seules les heures réelles acceptées sont payées.
+--
+--   1. `actual_review` : décision de l'employeur (NULL = en attente / pas d'écart) ;
+--   2. seul l'employeur du contrat peut la modifier ;
+--   3. un nouveau pointage (heures réelles modifiées) annule la décision.
+
+ALTER TABLE public.shifts
+  ADD COLUMN actual_review      text CHECK (actual_review IN ('accepted', 'rejected')),
+  ADD COLUMN actual_reviewed_at timestamptz;
+
+CREATE FUNCTION public.guard_shift_actual_review()
+RETURNS trigger
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+BEGIN
+  -- Heures réelles modifiées : l'écart doit être revu à nouveau
+  IF NEW.clocked_in_at IS DISTINCT FROM OLD.clocked_in_at
+     OR NEW.clocked_out_at IS DISTINCT FROM OLD.clocked_out_at THEN
+    NEW.actual_review := NULL;
+    NEW.actual_reviewed_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.actual_review IS DISTINCT FROM OLD.actual_review THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM contracts
+      WHERE id = NEW.contract_id AND employer_id = auth.uid()
+    ) THEN
+      RAISE EXCEPTION 'Seul l''employeur peut valider un écart d''horaires' USING ERRCODE = '42501';
+    END IF;
+    NEW.actual_reviewed_at := CASE WHEN NEW.actual_review IS NULL THEN NULL ELSE now() END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_shift_actual_review
+  BEFORE UPDATE ON public.shifts
+  FOR EACH ROW EXECUTE FUNCTION public.guard_shift_actual_review();
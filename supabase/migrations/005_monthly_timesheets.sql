@@ -0,0 +1,390 @@
+-- Relevé d'heures mensuel à double signature
+--
+--   1. L'auxiliaire soumet le relevé d'un mois terminé (un relevé par contrat
+--      et par mois). Une empreinte SHA-256 des interventions du mois est
+--      calculée à la soumission.
+--   2. L'employeur contresigne (ou renvoie le relevé avec un motif). La
+--      contre-signature échoue si les interventions ont changé depuis la
+--      soumission : l'auxiliaire doit alors soumettre à nouveau.
+--   3. Contresigné, le mois est verrouillé : aucune intervention du mois ne
+--      peut être créée ou supprimée, et ses données de temps et de paie ne
+--      peuvent plus être modifiées (les notes, tâches cochées ou rattachements
+--      à une série restent libres). Toute modification ultérieure passe par
+--      une correction explicite (`add_timesheet_correction`), motivée et
+--      tracée avec les horaires d'origine.
+--   4. Un contrat ayant un relevé contresigné ne peut plus être supprimé : la
+--      suppression en cascade effacerait le relevé signé.
+
+-- ── Relevés ──────────────────────────────────────────────────────────────────
+
+CREATE TABLE public.timesheets (
+  id                 uuid        PRIMARY KEY DEFAULT gen_random_uuid(),
+  contract_id        uuid        NOT NULL REFERENCES public.contracts(id) ON DELETE CASCADE,
+  year               integer     NOT NULL,
+  month              integer     NOT NULL CHECK (month BETWEEN 1 AND 12),
+  status             text        NOT NULL CHECK (status IN ('submitted', 'returned', 'locked')),
+  content_hash       text        NOT NULL,
+  submitted_by       uuid        NOT NULL REFERENCES public.profiles(id),
+  submitted_at       timestamptz NOT NULL DEFAULT now(),
+  employer_signed_by uuid        REFERENCES public.profiles(id),
+  employer_signed_at timestamptz,
+  return_reason      text,
+  created_at         timestamptz NOT NULL DEFAULT now(),
+  updated_at         timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (contract_id, year, month)
+);
+
+CREATE TABLE public.timesheet_corrections (
+  id                      uuid        PRIMARY KEY DEFAULT gen_random_uuid(),
+  timesheet_id            uuid        NOT NULL REFERENCES public.timesheets(id) ON DELETE CASCADE,
+  shift_id                uuid        REFERENCES public.shifts(id) ON DELETE SET NULL,
+  shift_date              date        NOT NULL,
+  previous_start_time     time        NOT NULL,
+  previous_end_time       time        NOT NULL,
+  previous_break_duration integer     NOT NULL,
+  start_time              time        NOT NULL,
+  end_time                time        NOT NULL,
+  break_duration          integer     NOT NULL CHECK (break_duration >= 0),
+  reason                  text        NOT NULL CHECK (length(trim(reason)) > 0),
+  created_by              uuid        NOT NULL REFERENCES public.profiles(id),
+  created_at              timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX timesheet_corrections_timesheet_idx ON public.timesheet_corrections (timesheet_id);
+
+ALTER TABLE public.timesheets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.timesheet_corrections ENABLE ROW LEVEL SECURITY;
+
+-- Lecture par les parties au contrat ; l'écriture passe par les fonctions ci-dessous
+CREATE POLICY "Contract parties can read timesheets"
+  ON public.timesheets FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.contracts c
+      WHERE c.id = timesheets.contract_id
+        AND (c.employer_id = auth.uid() OR c.employee_id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Contract parties can read timesheet corrections"
+  ON public.timesheet_corrections FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.timesheets t
+      JOIN public.contracts c ON c.id = t.contract_id
+      WHERE t.id = timesheet_corrections.timesheet_id
+        AND (c.employer_id = auth.uid() OR c.employee_id = auth.uid())
+    )
+  );
+
+-- ── Verrouillage des interventions ───────────────────────────────────────────
+
+CREATE FUNCTION public.is_timesheet_locked(p_contract_id uuid, p_date date)
+RETURNS boolean
+LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM timesheets
+    WHERE contract_id = p_contract_id
+      AND year = extract(year FROM p_date)::integer
+      AND month = extract(month FROM p_date)::integer
+      AND status = 'locked'
+  );
+$$;
+
+CREATE FUNCTION public.guard_locked_timesheet_shift()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public', 'pg_temp'
+AS $$
+BEGIN
+  -- Correction explicite en cours (add_timesheet_correction)
+  IF current_setting('unilien.timesheet_correction', true) = 'on' THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  -- Seules les données de temps et de paie sont figées par la signature
+  IF TG_OP = 'UPDATE' AND (
+       NEW.contract_id, NEW.date, NEW.start_time, NEW.end_time, NEW.break_duration,
+       NEW.status, NEW.shift_type, NEW.has_night_action, NEW.night_interventions_count,
+       NEW.is_requalified, NEW.effective_hours, NEW.guard_segments, NEW.computed_pay,
+       NEW.clocked_in_at, NEW.clocked_out_at, NEW.actual_review
+     ) IS NOT DISTINCT FROM (
+       OLD.contract_id, OLD.date, OLD.start_time, OLD.end_time, OLD.break_duration,
+       OLD.status, OLD.shift_type, OLD.has_night_action, OLD.night_interventions_count,
+       OLD.is_requalified, OLD.effective_hours, OLD.guard_segments, OLD.computed_pay,
+       OLD.clocked_in_at, OLD.clocked_out_at, OLD.actual_review
+     ) THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP IN ('UPDATE', 'DELETE') AND is_timesheet_locked(OLD.contract_id, OLD.date) THEN
+    RAISE EXCEPTION 'timesheet_locked' USING ERRCODE = '55000';
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND is_timesheet_locked(NEW.contract_id, NEW.date) THEN
+    RAISE EXCEPTION 'timesheet_locked' USING ERRCODE = '55000';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER guard_locked_timesheet_shift
+  BEFORE INSERT OR DELETE OR UPDATE OF
+    contract_id, date, start_time, end_time, break_duration, status, shift_type,
+    has_night_action, night_interventions_count, is_requalified, effective_hours,
+    guard_segments, computed_pay, clocked_in_at, clocked_out_at, actual_review
+  ON public.shifts
+  FOR EACH ROW EXECUTE FUNCTION public.guard_locked_timesheet_shift();
+
+-- Suppression d'un contrat : refusée explicitement plutôt que de dépendre de
+-- l'ordre des cascades (relevés supprimés avant ou après les interventions)
+CREATE FUNCTION public.guard_locked_timesheet_contract()
+RETURNS trigger
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM timesheets WHERE contract_id = OLD.id AND status = 'locked'
+  ) THEN
+    RAISE EXCEPTION 'timesheet_locked' USING ERRCODE = '55000';
+  END IF;
+
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER guard_locked_timesheet_contract
+  BEFORE DELETE ON public.contracts
+  FOR EACH ROW EXECUTE FUNCTION public.guard_locked_timesheet_contract();
+
+-- ── Fonctions ────────────────────────────────────────────────────────────────
+
+-- Empreinte des interventions d'un contrat sur un mois (horaires, statut, pointages)
+CREATE FUNCTION public.timesheet_content_hash(p_contract_id uuid, p_year integer, p_month integer)
+RETURNS text
+LANGUAGE sql STABLE
+SET search_path TO 'public', 'extensions'
+AS $$
+  SELECT encode(digest(COALESCE(string_agg(
+    concat_ws('|', id, date, start_time, end_time, break_duration, status,
+              clocked_in_at, clocked_out_at, actual_review),
+    E'\n' ORDER BY date, start_time, id
+  ), ''), 'sha256'), 'hex')
+  FROM shifts
+  WHERE contract_id = p_contract_id
+    AND date >= make_date(p_year, p_month, 1)
+    AND date < make_date(p_year, p_month, 1) + interval '1 month';
+$$;
+
+REVOKE ALL ON FUNCTION public.timesheet_content_hash(uuid, integer, integer) FROM PUBLIC, anon, authenticated;
+
+-- Soumission par l'auxiliaire (première soumission ou après renvoi)
+-- Erreurs levées : not_authorized, month_not_over, already_submitted.
+CREATE FUNCTION public.submit_timesheet(p_contract_id uuid, p_year integer, p_month integer)
+RETURNS public.timesheets
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_timesheet public.timesheets;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM contracts WHERE id = p_contract_id AND employee_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'not_authorized' USING ERRCODE = '42501';
+  END IF;
+
+  IF make_date(p_year, p_month, 1) + interval '1 month' > current_date THEN
+    RAISE EXCEPTION 'month_not_over' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_timesheet FROM timesheets
+  WHERE contract_id = p_contract_id AND year = p_year AND month = p_month
+  FOR UPDATE;
+
+  IF FOUND AND v_timesheet.status <> 'returned' THEN
+    RAISE EXCEPTION 'already_submitted' USING ERRCODE = '55000';
+  END IF;
+
+  INSERT INTO timesheets (contract_id, year, month, status, content_hash, submitted_by)
+  VALUES (p_contract_id, p_year, p_month, 'submitted',
+          timesheet_content_hash(p_contract_id, p_year, p_month), auth.uid())
+  ON CONFLICT (contract_id, year, month) DO UPDATE
+    SET status = 'submitted',
+        content_hash = EXCLUDED.content_hash,
+        submitted_by = EXCLUDED.submitted_by,
+        submitted_at = now(),
+        return_reason = NULL,
+        updated_at = now()
+  RETURNING * INTO v_timesheet;
+
+  RETURN v_timesheet;
+END;
+$$;
+
+-- Contre-signature par l'employeur : valide les interventions et verrouille le mois.
+-- Erreurs levées : not_authorized, not_submitted, timesheet_changed.
+CREATE FUNCTION public.countersign_timesheet(p_timesheet_id uuid)
+RETURNS public.timesheets
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_timesheet public.timesheets;
+BEGIN
+  SELECT t.* INTO v_timesheet
+  FROM timesheets t
+  JOIN contracts c ON c.id = t.contract_id
+  WHERE t.id = p_timesheet_id AND c.employer_id = auth.uid()
+  FOR UPDATE OF t;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'not_authorized' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_timesheet.status <> 'submitted' THEN
+    RAISE EXCEPTION 'not_submitted' USING ERRCODE = '55000';
+  END IF;
+
+  IF timesheet_content_hash(v_timesheet.contract_id, v_timesheet.year, v_timesheet.month)
+     <> v_timesheet.content_hash THEN
+    RAISE EXCEPTION 'timesheet_changed' USING ERRCODE = '55000';
+  END IF;
+
+  -- Les deux signatures valent validation de chaque intervention du mois
+  UPDATE shifts
+  SET validated_by_employee = true,
+      validated_by_employer = true,
+      updated_at = now()
+  WHERE contract_id = v_timesheet.contract_id
+    AND status = 'completed'
+    AND date >= make_date(v_timesheet.year, v_timesheet.month, 1)
+    AND date < make_date(v_timesheet.year, v_timesheet.month, 1) + interval '1 month';
+
+  UPDATE timesheets
+  SET status = 'locked',
+      employer_signed_by = auth.uid(),
+      employer_signed_at = now(),
+      updated_at = now()
+  WHERE id = p_timesheet_id
+  RETURNING * INTO v_timesheet;
+
+  RETURN v_timesheet;
+END;
+$$;
+
+-- Renvoi à l'auxiliaire avant contre-signature (désaccord sur les heures)
+-- Erreurs levées : not_authorized, not_submitted.
+CREATE FUNCTION public.return_timesheet(p_timesheet_id uuid, p_reason text)
+RETURNS public.timesheets
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_timesheet public.timesheets;
+BEGIN
+  SELECT t.* INTO v_timesheet
+  FROM timesheets t
+  JOIN contracts c ON c.id = t.contract_id
+  WHERE t.id = p_timesheet_id AND c.employer_id = auth.uid()
+  FOR UPDATE OF t;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'not_authorized' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_timesheet.status <> 'submitted' THEN
+    RAISE EXCEPTION 'not_submitted' USING ERRCODE = '55000';
+  END IF;
+
+  UPDATE timesheets
+  SET status = 'returned',
+      return_reason = NULLIF(trim(p_reason), ''),
+      updated_at = now()
+  WHERE id = p_timesheet_id
+  RETURNING * INTO v_timesheet;
+
+  RETURN v_timesheet;
+END;
+$$;
+
+-- Correction d'une intervention d'un mois verrouillé (employeur uniquement).
+-- Les horaires corrigés remplacent le planning et font foi pour la paie.
+-- Erreurs levées : not_authorized, not_locked, reason_required.
+CREATE FUNCTION public.add_timesheet_correction(
+  p_shift_id uuid,
+  p_start_time time,
+  p_end_time time,
+  p_break_duration integer,
+  p_reason text
+)
+RETURNS public.timesheet_corrections
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_shift public.shifts;
+  v_timesheet public.timesheets;
+  v_correction public.timesheet_corrections;
+BEGIN
+  SELECT s.* INTO v_shift
+  FROM shifts s
+  JOIN contracts c ON c.id = s.contract_id
+  WHERE s.id = p_shift_id AND c.employer_id = auth.uid()
+  FOR UPDATE OF s;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'not_authorized' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_timesheet FROM timesheets
+  WHERE contract_id = v_shift.contract_id
+    AND year = extract(year FROM v_shift.date)::integer
+    AND month = extract(month FROM v_shift.date)::integer
+    AND status = 'locked';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'not_locked' USING ERRCODE = '55000';
+  END IF;
+
+  IF p_reason IS NULL OR length(trim(p_reason)) = 0 THEN
+    RAISE EXCEPTION 'reason_required' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO timesheet_corrections (
+    timesheet_id, shift_id, shift_date,
+    previous_start_time, previous_end_time, previous_break_duration,
+    start_time, end_time, break_duration, reason, created_by
+  )
+  VALUES (
+    v_timesheet.id, v_shift.id, v_shift.date,
+    v_shift.start_time, v_shift.end_time, v_shift.break_duration,
+    p_start_time, p_end_time, p_break_duration, trim(p_reason), auth.uid()
+  )
+  RETURNING * INTO v_correction;
+
+  PERFORM set_config('unilien.timesheet_correction', 'on', true);
+
+  -- Des heures réelles acceptées primeraient sur la correction : elles sont écartées
+  UPDATE shifts
+  SET start_time = p_start_time,
+      end_time = p_end_time,
+      break_duration = p_break_duration,
+      actual_review = CASE WHEN actual_review = 'accepted' THEN 'rejected' ELSE actual_review END,
+      updated_at = now()
+  WHERE id = p_shift_id;
+
+  PERFORM set_config('unilien.timesheet_correction', 'off', true);
+
+  RETURN v_correction;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.submit_timesheet(uuid, integer, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.countersign_timesheet(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.return_timesheet(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.add_timesheet_correction(uuid, time, time, integer, text) TO authenticated;
@@ -0,0 +1,12 @@
+-- Besoins de couverture hebdomadaires de l'employeur
+--
+-- Créneaux récurrents à couvrir chaque semaine (jour, horaires, type
+-- d'intervention, nuits comprises). Ils alimentent la génération automatique
+-- du planning (« Générer ma semaine ») avec les disponibilités déclarées des
+-- auxiliaires (`employees.availability_template`).
+--
+-- Format : [{ "dayOfWeek": 0-6 (0 = dimanche), "startTime": "HH:mm",
+--            "endTime": "HH:mm", "shiftType": "effective" | "presence_day" | "presence_night" }]
+
+ALTER TABLE public.employers
+  ADD COLUMN coverage_windows jsonb NOT NULL DEFAULT '[]'::jsonb;
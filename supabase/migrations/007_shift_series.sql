@@ -0,0 +1,254 @@
+-- Séries d'interventions récurrentes
+--
+-- Une série porte la règle de récurrence (sous-ensemble RFC 5545 : FREQ=DAILY
+-- ou WEEKLY, INTERVAL, BYDAY, COUNT, UNTIL), la date de première occurrence,
+-- les dates exclues (EXDATE) et le modèle d'intervention (horaires, type…).
+-- Les occurrences restent des lignes `shifts` (pointage, paie, relevés) :
+--
+--   1. `series_id` rattache l'occurrence à sa série ;
+--   2. `series_occurrence_date` est la date prévue par la règle (RECURRENCE-ID),
+--      conservée même si l'occurrence est déplacée ;
+--   3. `is_series_exception` marque une occurrence modifiée individuellement :
+--      elle n'est pas recréée lorsque la série est régénérée.
+-- Supprimer une série détache les occurrences passées (ON DELETE SET NULL).
+--
+-- Les modifications et suppressions portant sur plusieurs lignes (série,
+-- série suivante, occurrences) passent par `update_shift_series` et
+-- `delete_shift_series_occurrences`, en une seule transaction. Ces fonctions
+-- sont SECURITY INVOKER : les politiques RLS des séries et des interventions
+-- s'appliquent, ainsi que le verrouillage des relevés d'heures.
+
+CREATE TABLE public.shift_series (
+  id                        uuid        PRIMARY KEY DEFAULT gen_random_uuid(),
+  contract_id               uuid        NOT NULL REFERENCES public.contracts(id) ON DELETE CASCADE,
+  rrule                     text        NOT NULL CHECK (rrule ~ '^FREQ=(DAILY|WEEKLY)'),
+  dtstart                   date        NOT NULL,
+  exdates                   date[]      NOT NULL DEFAULT '{}',
+  start_time                time        NOT NULL,
+  end_time                  time        NOT NULL,
+  break_duration            integer     NOT NULL DEFAULT 0 CHECK (break_duration >= 0),
+  shift_type                text        NOT NULL DEFAULT 'effective',
+  tasks                     text[]      NOT NULL DEFAULT '{}',
+  notes                     text,
+  has_night_action          boolean,
+  night_interventions_count integer,
+  is_requalified            boolean     NOT NULL DEFAULT false,
+  effective_hours           numeric,
+  guard_segments            jsonb,
+  created_at                timestamptz NOT NULL DEFAULT now(),
+  updated_at                timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX shift_series_contract_idx ON public.shift_series (contract_id);
+
+CREATE TRIGGER update_shift_series_updated_at
+  BEFORE UPDATE ON public.shift_series
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.shifts
+  ADD COLUMN series_id              uuid    REFERENCES public.shift_series(id) ON DELETE SET NULL,
+  ADD COLUMN series_occurrence_date date,
+  ADD COLUMN is_series_exception    boolean NOT NULL DEFAULT false;
+
+CREATE INDEX idx_shifts_series ON public.shifts (series_id, series_occurrence_date)
+  WHERE series_id IS NOT NULL;
+
+ALTER TABLE public.shift_series ENABLE ROW LEVEL SECURITY;
+
+-- Mêmes droits que sur les interventions : l'employeur (ou l'aidant autorisé)
+-- gère le planning, l'auxiliaire consulte ses séries.
+CREATE POLICY "Employers can manage shift series"
+  ON public.shift_series FOR ALL TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.contracts c
+      WHERE c.id = shift_series.contract_id AND c.employer_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.contracts c
+      WHERE c.id = shift_series.contract_id AND c.employer_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Caregivers can manage shift series"
+  ON public.shift_series FOR ALL TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.caregivers cg
+      JOIN public.contracts c ON c.employer_id = cg.employer_id
+      WHERE cg.profile_id = auth.uid()
+        AND c.id = shift_series.contract_id
+        AND (cg.permissions ->> 'canEditPlanning')::boolean = true
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.caregivers cg
+      JOIN public.contracts c ON c.employer_id = cg.employer_id
+      WHERE cg.profile_id = auth.uid()
+        AND c.id = shift_series.contract_id
+        AND (cg.permissions ->> 'canEditPlanning')::boolean = true
+    )
+  );
+
+CREATE POLICY "Employees can read their shift series"
+  ON public.shift_series FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.contracts c
+      WHERE c.id = shift_series.contract_id AND c.employee_id = auth.uid()
+    )
+  );
+
+-- ── Modification et suppression atomiques ──────────────────────────────────
+
+-- Applique un modèle aux occurrences à venir d'une série. Sans p_next_rrule,
+-- la série est mise à jour (dates exclues remplacées par p_exdates si
+-- fourni, cf. prolongation des séries sans fin) ; sinon elle s'arrête selon p_rrule / p_exdates et
+-- une nouvelle série reprend à p_next_dtstart avec le modèle, les exceptions
+-- p_kept_shift_ids lui étant rattachées. Les occurrences p_deleted_shift_ids
+-- sont remplacées par celles des dates p_dates, chacune avec la paie
+-- calculée par le client (p_computed_pays, indexé par date 'YYYY-MM-DD').
+-- Retourne le nombre d'occurrences créées. Erreur levée : series_not_found.
+CREATE FUNCTION public.update_shift_series(
+  p_series_id uuid,
+  p_template jsonb,
+  p_dates date[],
+  p_deleted_shift_ids uuid[],
+  p_rrule text DEFAULT NULL,
+  p_exdates date[] DEFAULT NULL,
+  p_next_rrule text DEFAULT NULL,
+  p_next_dtstart date DEFAULT NULL,
+  p_next_exdates date[] DEFAULT '{}',
+  p_kept_shift_ids uuid[] DEFAULT '{}',
+  p_computed_pays jsonb DEFAULT '{}'
+)
+RETURNS integer
+LANGUAGE plpgsql SECURITY INVOKER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_series public.shift_series;
+  v_template public.shift_series;
+  v_target uuid := p_series_id;
+BEGIN
+  SELECT * INTO v_series FROM shift_series WHERE id = p_series_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'series_not_found' USING ERRCODE = 'P0002';
+  END IF;
+
+  v_template := jsonb_populate_record(NULL::public.shift_series, p_template);
+
+  IF p_next_rrule IS NULL THEN
+    UPDATE shift_series
+    SET start_time = v_template.start_time,
+        end_time = v_template.end_time,
+        break_duration = v_template.break_duration,
+        shift_type = v_template.shift_type,
+        tasks = v_template.tasks,
+        notes = v_template.notes,
+        has_night_action = v_template.has_night_action,
+        night_interventions_count = v_template.night_interventions_count,
+        is_requalified = v_template.is_requalified,
+        effective_hours = v_template.effective_hours,
+        guard_segments = v_template.guard_segments,
+        exdates = coalesce(p_exdates, exdates)
+    WHERE id = p_series_id;
+  ELSE
+    UPDATE shift_series
+    SET rrule = p_rrule, exdates = p_exdates
+    WHERE id = p_series_id;
+
+    INSERT INTO shift_series (
+      contract_id, rrule, dtstart, exdates, start_time, end_time, break_duration,
+      shift_type, tasks, notes, has_night_action, night_interventions_count,
+      is_requalified, effective_hours, guard_segments
+    )
+    VALUES (
+      v_series.contract_id, p_next_rrule, p_next_dtstart, p_next_exdates,
+      v_template.start_time, v_template.end_time, v_template.break_duration,
+      v_template.shift_type, v_template.tasks, v_template.notes,
+      v_template.has_night_action, v_template.night_interventions_count,
+      v_template.is_requalified, v_template.effective_hours, v_template.guard_segments
+    )
+    RETURNING id INTO v_target;
+
+    UPDATE shifts
+    SET series_id = v_target
+    WHERE id = ANY (p_kept_shift_ids) AND series_id = p_series_id;
+  END IF;
+
+  DELETE FROM shifts
+  WHERE id = ANY (p_deleted_shift_ids) AND series_id = p_series_id;
+
+  INSERT INTO shifts (
+    contract_id, date, start_time, end_time, break_duration, tasks, notes,
+    has_night_action, shift_type, night_interventions_count, is_requalified,
+    effective_hours, guard_segments, series_id, series_occurrence_date, status,
+    computed_pay, validated_by_employer, validated_by_employee
+  )
+  SELECT
+    v_series.contract_id, d, v_template.start_time, v_template.end_time,
+    v_template.break_duration, v_template.tasks, v_template.notes,
+    v_template.has_night_action, v_template.shift_type,
+    v_template.night_interventions_count, v_template.is_requalified,
+    v_template.effective_hours, v_template.guard_segments, v_target, d, 'planned',
+    coalesce(p_computed_pays -> to_char(d, 'YYYY-MM-DD'), '{}'::jsonb), false, false
+  FROM unnest(p_dates) AS d;
+
+  RETURN coalesce(array_length(p_dates, 1), 0);
+END;
+$$;
+
+-- Supprime des occurrences d'une série : l'occurrence p_shift_id, les
+-- occurrences prévues à partir de p_from, puis met à jour la règle et les
+-- dates exclues (NULL : inchangées) ou supprime la série (p_drop_series).
+-- Erreur levée : series_not_found.
+CREATE FUNCTION public.delete_shift_series_occurrences(
+  p_series_id uuid,
+  p_shift_id uuid DEFAULT NULL,
+  p_from date DEFAULT NULL,
+  p_rrule text DEFAULT NULL,
+  p_exdates date[] DEFAULT NULL,
+  p_drop_series boolean DEFAULT false
+)
+RETURNS void
+LANGUAGE plpgsql SECURITY INVOKER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+BEGIN
+  PERFORM 1 FROM shift_series WHERE id = p_series_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'series_not_found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_shift_id IS NOT NULL THEN
+    DELETE FROM shifts WHERE id = p_shift_id AND series_id = p_series_id;
+  END IF;
+
+  IF p_from IS NOT NULL THEN
+    DELETE FROM shifts
+    WHERE series_id = p_series_id AND status = 'planned' AND date >= p_from;
+  END IF;
+
+  IF p_drop_series THEN
+    DELETE FROM shift_series WHERE id = p_series_id;
+  ELSE
+    UPDATE shift_series
+    SET rrule = coalesce(p_rrule, rrule),
+        exdates = coalesce(p_exdates, exdates)
+    WHERE id = p_series_id;
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.update_shift_series(
+  uuid, jsonb, date[], uuid[], text, date[], text, date, date[], uuid[], jsonb
+) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.delete_shift_series_occurrences(
+  uuid, uuid, date, text, date[], boolean
+) TO authenticated;
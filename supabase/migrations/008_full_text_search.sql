@@ -0,0 +1,149 @@
+-- Recherche plein texte (SpotlightSearch)
+--
+-- Configuration `fr_unaccent` : racinisation française (french_stem) après
+-- suppression des accents, pour que « repas », « Repas » et « répas » ou
+-- « mangé » / « manger » se retrouvent.
+--
+-- Les vecteurs sont des colonnes générées indexées (GIN) sur les messages,
+-- le cahier de liaison, les interventions (notes + tâches) et les absences.
+-- Les bulletins n'ont qu'un libellé de période : leur vecteur est calculé à
+-- la volée avec le nom de l'auxiliaire.
+--
+-- `search_everything` est SECURITY INVOKER : les politiques RLS de chaque
+-- table s'appliquent (un auxiliaire ne trouve que ce qu'il peut déjà lire).
+-- Les extraits sont délimités par [[ … ]] pour la mise en évidence côté client.
+
+CREATE EXTENSION IF NOT EXISTS unaccent WITH SCHEMA extensions;
+
+CREATE TEXT SEARCH CONFIGURATION public.fr_unaccent (COPY = pg_catalog.french);
+
+ALTER TEXT SEARCH CONFIGURATION public.fr_unaccent
+  ALTER MAPPING FOR hword, hword_part, word
+  WITH extensions.unaccent, french_stem;
+
+-- Document plein texte à partir de plusieurs champs (NULL ignorés).
+-- IMMUTABLE pour être utilisable dans une colonne générée.
+CREATE FUNCTION public.fts_fr_document(VARIADIC p_parts text[])
+RETURNS tsvector
+LANGUAGE sql IMMUTABLE PARALLEL SAFE
+SET search_path TO 'public', 'extensions'
+AS $$
+  SELECT to_tsvector('public.fr_unaccent'::regconfig, coalesce(array_to_string(p_parts, ' '), ''));
+$$;
+
+-- ── Colonnes de recherche ────────────────────────────────────────────────────
+
+ALTER TABLE public.liaison_messages
+  ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (public.fts_fr_document(content)) STORED;
+
+ALTER TABLE public.log_entries
+  ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (public.fts_fr_document(content)) STORED;
+
+ALTER TABLE public.shifts
+  ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+    public.fts_fr_document(VARIADIC array_append(coalesce(tasks, '{}'::text[]), notes))
+  ) STORED;
+
+-- Libellés des types d'absence (cf. ABSENCE_TYPE_LABELS)
+ALTER TABLE public.absences
+  ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+    public.fts_fr_document(
+      reason,
+      CASE absence_type
+        WHEN 'sick' THEN 'Arrêt maladie'
+        WHEN 'vacation' THEN 'Congés payés'
+        WHEN 'family_event' THEN 'Événement familial'
+        WHEN 'training' THEN 'Congé formation'
+        WHEN 'unavailable' THEN 'Indisponibilité'
+        WHEN 'emergency' THEN 'Urgence personnelle'
+      END
+    )
+  ) STORED;
+
+CREATE INDEX idx_liaison_messages_search ON public.liaison_messages USING gin (search_vector);
+CREATE INDEX idx_log_entries_search ON public.log_entries USING gin (search_vector);
+CREATE INDEX idx_shifts_search ON public.shifts USING gin (search_vector);
+CREATE INDEX idx_absences_search ON public.absences USING gin (search_vector);
+
+-- ── Recherche ────────────────────────────────────────────────────────────────
+
+-- Résultats classés (ts_rank puis date), paginés par p_limit / p_offset.
+-- `link_id` : conversation (message), date (intervention) ou auxiliaire
+-- (absence, bulletin), pour construire le lien côté client.
+CREATE FUNCTION public.search_everything(
+  p_employer_id uuid,
+  p_query text,
+  p_limit integer DEFAULT 20,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  source text,
+  id uuid,
+  title text,
+  snippet text,
+  rank real,
+  occurred_at timestamptz,
+  link_id text
+)
+LANGUAGE sql STABLE SECURITY INVOKER
+SET search_path TO 'public', 'extensions', 'pg_temp'
+AS $$
+  WITH q AS (
+    SELECT websearch_to_tsquery('public.fr_unaccent'::regconfig, p_query) AS query
+  ),
+  hits AS (
+    SELECT 'message'::text AS source, m.id, NULL::text AS title, m.content AS body,
+           ts_rank(m.search_vector, q.query) AS rank, m.created_at AS occurred_at,
+           m.conversation_id::text AS link_id
+    FROM liaison_messages m, q
+    WHERE m.employer_id = p_employer_id AND m.search_vector @@ q.query
+
+    UNION ALL
+    SELECT 'logbook', e.id, e.type, e.content,
+           ts_rank(e.search_vector, q.query), e.created_at, NULL
+    FROM log_entries e, q
+    WHERE e.employer_id = p_employer_id AND e.search_vector @@ q.query
+
+    UNION ALL
+    SELECT 'shift', s.id, to_char(s.date, 'YYYY-MM-DD'),
+           concat_ws(' — ', s.notes, array_to_string(s.tasks, ', ')),
+           ts_rank(s.search_vector, q.query), s.date::timestamptz, to_char(s.date, 'YYYY-MM-DD')
+    FROM shifts s
+    JOIN contracts c ON c.id = s.contract_id, q
+    WHERE c.employer_id = p_employer_id AND s.search_vector @@ q.query
+
+    UNION ALL
+    SELECT 'absence', a.id, a.absence_type, coalesce(a.reason, ''),
+           ts_rank(a.search_vector, q.query), a.start_date::timestamptz, a.employee_id::text
+    FROM absences a, q
+    WHERE a.search_vector @@ q.query
+      AND EXISTS (
+        SELECT 1 FROM contracts c
+        WHERE c.employee_id = a.employee_id AND c.employer_id = p_employer_id
+      )
+
+    UNION ALL
+    SELECT 'payslip', p.id, p.period_label, doc.body,
+           ts_rank(doc.vector, q.query), make_date(p.year, p.month, 1)::timestamptz, p.employee_id::text
+    FROM payslips p
+    LEFT JOIN profiles pr ON pr.id = p.employee_id
+    CROSS JOIN LATERAL (
+      SELECT concat_ws(' ', p.period_label, pr.first_name, pr.last_name) AS body,
+             public.fts_fr_document(p.period_label, pr.first_name, pr.last_name) AS vector
+    ) doc, q
+    WHERE p.employer_id = p_employer_id AND doc.vector @@ q.query
+  )
+  SELECT h.source, h.id, h.title,
+         ts_headline(
+           'public.fr_unaccent'::regconfig, h.body, q.query,
+           'StartSel=[[, StopSel=]], MinWords=6, MaxWords=18, ShortWord=2, MaxFragments=1'
+         ) AS snippet,
+         h.rank, h.occurred_at, h.link_id
+  FROM hits h, q
+  ORDER BY h.rank DESC, h.occurred_at DESC, h.id
+  LIMIT least(greatest(p_limit, 1), 50)
+  OFFSET greatest(p_offset, 0);
+$$;
+
+REVOKE ALL ON FUNCTION public.search_everything(uuid, text, integer, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.search_everything(uuid, text, integer, integer) TO authenticated;
@@ -0,0 +1,38 @@
+-- Fiches de suivi structurées du cahier de liaison
+--
+-- Une entrée peut suivre un modèle (repas, hydratation, élimination, humeur,
+-- chute, douleur) : `care_data` porte les valeurs saisies, `content` en garde
+-- un résumé lisible (affichage, recherche plein texte). `shift_id` rattache
+-- l'observation à l'intervention pendant laquelle elle a été faite.
+--
+-- Format de `care_data` selon `template_id` :
+--   meal        { "mealType": "breakfast" | "lunch" | "snack" | "dinner", "eaten": 0 | 0.25 | 0.5 | 0.75 | 1 }
+--   fluids      { "volumeMl": number }
+--   elimination { "bowel": boolean, "urine": boolean }
+--   mood        { "mood": 1-5 }
+--   fall        { "injured": boolean, "helpNeeded": boolean }
+--   pain        { "score": 0-10, "location"?: string }
+--
+-- Les modèles proposés à la saisie se configurent par employeur
+-- (`employers.care_log_templates`).
+
+ALTER TABLE public.log_entries
+  ADD COLUMN template_id text,
+  ADD COLUMN care_data jsonb,
+  ADD COLUMN shift_id uuid REFERENCES public.shifts(id) ON DELETE SET NULL,
+  ADD CONSTRAINT log_entries_template_id_check CHECK (
+    template_id IS NULL
+    OR template_id = ANY (ARRAY['meal', 'fluids', 'elimination', 'mood', 'fall', 'pain'])
+  ),
+  ADD CONSTRAINT log_entries_care_data_check CHECK ((template_id IS NULL) = (care_data IS NULL));
+
+-- Graphiques de suivi : entrées structurées d'un employeur sur une période
+CREATE INDEX idx_log_entries_care ON public.log_entries (employer_id, template_id, created_at)
+  WHERE template_id IS NOT NULL;
+
+CREATE INDEX idx_log_entries_shift ON public.log_entries (shift_id)
+  WHERE shift_id IS NOT NULL;
+
+ALTER TABLE public.employers
+  ADD COLUMN care_log_templates text[] NOT NULL
+    DEFAULT ARRAY['meal', 'fluids', 'elimination', 'mood', 'fall', 'pain'];
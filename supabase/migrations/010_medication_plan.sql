@@ -0,0 +1,267 @@
+-- Plan de prise des médicaments et traçabilité par intervention
+--
+-- Le plan (médicament, dose, horaires, consignes) est une donnée de santé
+-- (art. 9 RGPD) : il suit les mêmes règles qu'`employer_health_data`.
+--   - Les champs texte sont chiffrés (pgsodium, clé medical_data_key,
+--     AAD = employer_id) et se lisent via la vue `medications_v`.
+--   - Sans consentement santé actif de l'employeur (`user_consents`),
+--     le plan et son suivi ne sont ni lisibles ni modifiables.
+--
+-- Pendant une intervention, l'auxiliaire coche chaque prise due dans sa
+-- plage horaire : donnée, refusée ou manquée. L'écriture passe par les
+-- fonctions ci-dessous ; les tables ne sont ouvertes qu'en lecture.
+
+-- ── Consentement ─────────────────────────────────────────────────────────────
+
+CREATE FUNCTION public.has_health_consent(p_profile_id uuid)
+RETURNS boolean
+LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM user_consents
+    WHERE user_id = p_profile_id
+      AND consent_type = 'health_data'
+      AND revoked_at IS NULL
+  );
+$$;
+
+COMMENT ON FUNCTION public.has_health_consent(uuid) IS 'Consentement santé (art. 9 RGPD) actif pour ce profil. Utilisé par les politiques RLS des données de santé partagées avec l''équipe.';
+
+-- Membres de l'équipe d'un employeur : lui-même, auxiliaires sous contrat actif, aidants
+CREATE FUNCTION public.is_employer_team_member(p_employer_id uuid)
+RETURNS boolean
+LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+  SELECT auth.uid() = p_employer_id
+    OR EXISTS (
+      SELECT 1 FROM contracts
+      WHERE employer_id = p_employer_id AND employee_id = auth.uid() AND status = 'active'
+    )
+    OR EXISTS (
+      SELECT 1 FROM caregivers
+      WHERE employer_id = p_employer_id AND profile_id = auth.uid()
+    );
+$$;
+
+-- ── Tables ───────────────────────────────────────────────────────────────────
+
+CREATE TABLE public.medications (
+  id           uuid        PRIMARY KEY DEFAULT gen_random_uuid(),
+  employer_id  uuid        NOT NULL REFERENCES public.employers(profile_id) ON DELETE CASCADE,
+  name         bytea       NOT NULL,
+  dose         bytea       NOT NULL,
+  instructions bytea,
+  -- Heures de prise 'HH:MM', triées
+  times        text[]      NOT NULL CHECK (
+    cardinality(times) BETWEEN 1 AND 12
+    AND array_to_string(times, ',') ~ '^([01][0-9]|2[0-3]):[0-5][0-9](,([01][0-9]|2[0-3]):[0-5][0-9])*$'
+  ),
+  start_date   date        NOT NULL DEFAULT current_date,
+  end_date     date        CHECK (end_date IS NULL OR end_date >= start_date),
+  -- Traitement arrêté : conservé pour l'historique des prises
+  archived_at  timestamptz,
+  created_by   uuid        NOT NULL REFERENCES public.profiles(id),
+  created_at   timestamptz NOT NULL DEFAULT now(),
+  updated_at   timestamptz NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.medications.name IS 'CHIFFRÉ pgsodium AEAD-det (clé medical_data_key, AAD = employer_id). Lire via la vue medications_v.';
+COMMENT ON COLUMN public.medications.dose IS 'CHIFFRÉ pgsodium AEAD-det (clé medical_data_key, AAD = employer_id). Lire via la vue medications_v.';
+COMMENT ON COLUMN public.medications.instructions IS 'CHIFFRÉ pgsodium AEAD-det (clé medical_data_key, AAD = employer_id). Lire via la vue medications_v.';
+
+CREATE INDEX idx_medications_employer ON public.medications (employer_id)
+  WHERE archived_at IS NULL;
+
+CREATE TABLE public.medication_administrations (
+  id             uuid        PRIMARY KEY DEFAULT gen_random_uuid(),
+  medication_id  uuid        NOT NULL REFERENCES public.medications(id) ON DELETE CASCADE,
+  shift_id       uuid        NOT NULL REFERENCES public.shifts(id) ON DELETE CASCADE,
+  employer_id    uuid        NOT NULL REFERENCES public.employers(profile_id) ON DELETE CASCADE,
+  scheduled_time text        NOT NULL CHECK (scheduled_time ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'),
+  status         text        NOT NULL CHECK (status IN ('given', 'refused', 'missed')),
+  recorded_by    uuid        NOT NULL REFERENCES public.profiles(id),
+  recorded_at    timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (medication_id, shift_id, scheduled_time)
+);
+
+CREATE INDEX idx_medication_administrations_shift ON public.medication_administrations (shift_id);
+
+CREATE VIEW public.medications_v WITH (security_invoker = 'true') AS
+  SELECT id,
+    employer_id,
+    public.decrypt_health_field(name, employer_id) AS name,
+    public.decrypt_health_field(dose, employer_id) AS dose,
+    public.decrypt_health_field(instructions, employer_id) AS instructions,
+    times,
+    start_date,
+    end_date,
+    archived_at,
+    created_by,
+    created_at,
+    updated_at
+  FROM public.medications;
+
+COMMENT ON VIEW public.medications_v IS 'Vue déchiffrée de medications. RLS héritée via security_invoker. Utiliser pour la lecture côté app.';
+
+ALTER TABLE public.medications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.medication_administrations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Team can read medications with health consent"
+  ON public.medications FOR SELECT TO authenticated
+  USING (
+    public.is_employer_team_member(employer_id)
+    AND public.has_health_consent(employer_id)
+  );
+
+CREATE POLICY "Team can read medication administrations with health consent"
+  ON public.medication_administrations FOR SELECT TO authenticated
+  USING (
+    public.is_employer_team_member(employer_id)
+    AND public.has_health_consent(employer_id)
+  );
+
+GRANT SELECT ON public.medications_v TO authenticated;
+
+-- ── Fonctions ────────────────────────────────────────────────────────────────
+
+-- Création (p_id NULL) ou modification d'un médicament du plan, par l'employeur
+CREATE FUNCTION public.upsert_medication(
+  p_id           uuid,
+  p_name         text,
+  p_dose         text,
+  p_instructions text,
+  p_times        text[],
+  p_start_date   date,
+  p_end_date     date DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_employer_id uuid := auth.uid();
+  v_id          uuid;
+  v_times       text[];
+BEGIN
+  IF v_employer_id IS NULL THEN
+    RAISE EXCEPTION 'not_authorized' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT has_health_consent(v_employer_id) THEN
+    RAISE EXCEPTION 'health_consent_required' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT array_agg(DISTINCT t ORDER BY t) INTO v_times FROM unnest(p_times) AS t;
+
+  IF p_id IS NULL THEN
+    INSERT INTO medications (employer_id, name, dose, instructions, times, start_date, end_date, created_by)
+    VALUES (
+      v_employer_id,
+      encrypt_health_field(p_name, v_employer_id),
+      encrypt_health_field(p_dose, v_employer_id),
+      encrypt_health_field(NULLIF(trim(p_instructions), ''), v_employer_id),
+      v_times,
+      COALESCE(p_start_date, current_date),
+      p_end_date,
+      v_employer_id
+    )
+    RETURNING id INTO v_id;
+  ELSE
+    UPDATE medications SET
+      name         = encrypt_health_field(p_name, v_employer_id),
+      dose         = encrypt_health_field(p_dose, v_employer_id),
+      instructions = encrypt_health_field(NULLIF(trim(p_instructions), ''), v_employer_id),
+      times        = v_times,
+      start_date   = COALESCE(p_start_date, start_date),
+      end_date     = p_end_date,
+      updated_at   = now()
+    WHERE id = p_id AND employer_id = v_employer_id AND archived_at IS NULL
+    RETURNING id INTO v_id;
+
+    IF v_id IS NULL THEN
+      RAISE EXCEPTION 'not_authorized' USING ERRCODE = '42501';
+    END IF;
+  END IF;
+
+  RETURN v_id;
+END;
+$$;
+
+CREATE FUNCTION public.archive_medication(p_id uuid)
+RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+BEGIN
+  UPDATE medications SET archived_at = now(), updated_at = now()
+  WHERE id = p_id AND employer_id = auth.uid() AND archived_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'not_authorized' USING ERRCODE = '42501';
+  END IF;
+END;
+$$;
+
+-- Pointage d'une prise pendant une intervention. Une nouvelle saisie pour la
+-- même prise remplace la précédente.
+CREATE FUNCTION public.record_medication_administration(
+  p_medication_id  uuid,
+  p_shift_id       uuid,
+  p_scheduled_time text,
+  p_status         text
+)
+RETURNS public.medication_administrations
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_medication medications;
+  v_employer_id uuid;
+  v_employee_id uuid;
+  v_row medication_administrations;
+BEGIN
+  SELECT * INTO v_medication FROM medications WHERE id = p_medication_id;
+
+  SELECT c.employer_id, c.employee_id INTO v_employer_id, v_employee_id
+  FROM shifts s
+  JOIN contracts c ON c.id = s.contract_id
+  WHERE s.id = p_shift_id;
+
+  IF v_medication.id IS NULL OR v_employer_id IS NULL
+     OR v_medication.employer_id <> v_employer_id THEN
+    RAISE EXCEPTION 'not_found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF auth.uid() IS NULL OR NOT (
+    auth.uid() = v_employee_id
+    OR auth.uid() = v_employer_id
+    OR EXISTS (SELECT 1 FROM caregivers WHERE employer_id = v_employer_id AND profile_id = auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'not_authorized' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT has_health_consent(v_employer_id) THEN
+    RAISE EXCEPTION 'health_consent_required' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT (p_scheduled_time = ANY (v_medication.times)) THEN
+    RAISE EXCEPTION 'invalid_scheduled_time' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO medication_administrations (medication_id, shift_id, employer_id, scheduled_time, status, recorded_by)
+  VALUES (p_medication_id, p_shift_id, v_employer_id, p_scheduled_time, p_status, auth.uid())
+  ON CONFLICT (medication_id, shift_id, scheduled_time) DO UPDATE SET
+    status      = EXCLUDED.status,
+    recorded_by = EXCLUDED.recorded_by,
+    recorded_at = now()
+  RETURNING * INTO v_row;
+
+  RETURN v_row;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.upsert_medication(uuid, text, text, text, text[], date, date) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.archive_medication(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.record_medication_administration(uuid, uuid, text, text) TO authenticated;
@@ -0,0 +1,50 @@
+-- Check-list des tâches d'une intervention
+--
+-- `shifts.tasks` reste la liste prévue. `task_completions` enregistre, pour
+-- chaque tâche, ce que l'auxiliaire a effectivement fait :
+--   [{ "task", "status": "done" | "not_done", "reason", "comment",
+--      "completed_at", "completed_by" }]
+--
+--   1. une tâche non faite porte obligatoirement un motif ;
+--   2. seul l'auxiliaire du contrat renseigne la check-list ;
+--   3. l'employeur la consulte (rapport de réalisation par auxiliaire).
+
+ALTER TABLE public.shifts
+  ADD COLUMN task_completions jsonb NOT NULL DEFAULT '[]'::jsonb
+    CHECK (jsonb_typeof(task_completions) = 'array');
+
+CREATE FUNCTION public.guard_shift_task_completions()
+RETURNS trigger
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_item jsonb;
+BEGIN
+  IF NEW.task_completions IS NOT DISTINCT FROM OLD.task_completions THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM contracts
+    WHERE id = NEW.contract_id AND employee_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Seul l''auxiliaire peut renseigner la check-list' USING ERRCODE = '42501';
+  END IF;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(NEW.task_completions) LOOP
+    IF v_item->>'status' NOT IN ('done', 'not_done') THEN
+      RAISE EXCEPTION 'Statut de tâche invalide' USING ERRCODE = '23514';
+    END IF;
+    IF v_item->>'status' = 'not_done' AND coalesce(btrim(v_item->>'reason'), '') = '' THEN
+      RAISE EXCEPTION 'Une tâche non faite doit avoir un motif' USING ERRCODE = '23514';
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_shift_task_completions
+  BEFORE UPDATE ON public.shifts
+  FOR EACH ROW EXECUTE FUNCTION public.guard_shift_task_completions();
@@ -0,0 +1,135 @@
+-- Courses d'une intervention : achats, tickets de caisse et frais avancés
+--
+-- La liste de courses d'une intervention vit dans `shifts.tasks` (articles
+-- `[courses]…`). `shopping_expenses` enregistre, une ligne par intervention,
+-- ce que l'auxiliaire a réellement acheté :
+--   items    : [{ "name", "brand", "planned_quantity", "quantity", "price", "bought" }]
+--              `price` = montant payé pour la ligne (€)
+--   receipts : pièces jointes (photos des tickets, bucket liaison-attachments)
+--
+-- Le montant avancé est recalculé côté serveur à chaque enregistrement. Une
+-- fois remboursé par l'employeur, l'enregistrement n'est plus modifiable.
+
+CREATE TABLE public.shopping_expenses (
+  id              uuid          PRIMARY KEY DEFAULT gen_random_uuid(),
+  shift_id        uuid          NOT NULL UNIQUE REFERENCES public.shifts(id) ON DELETE CASCADE,
+  contract_id     uuid          NOT NULL REFERENCES public.contracts(id) ON DELETE CASCADE,
+  employer_id     uuid          NOT NULL REFERENCES public.employers(profile_id) ON DELETE CASCADE,
+  employee_id     uuid          NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  items           jsonb         NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(items) = 'array'),
+  receipts        jsonb         NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(receipts) = 'array'),
+  amount_advanced numeric(10,2) NOT NULL DEFAULT 0 CHECK (amount_advanced >= 0),
+  reimbursed_at   timestamptz,
+  created_at      timestamptz   NOT NULL DEFAULT now(),
+  updated_at      timestamptz   NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_shopping_expenses_contract ON public.shopping_expenses (contract_id);
+
+ALTER TABLE public.shopping_expenses ENABLE ROW LEVEL SECURITY;
+
+-- Employeur, auxiliaire du contrat et aidants de l'employeur
+CREATE POLICY "Contract parties can read shopping expenses"
+  ON public.shopping_expenses FOR SELECT TO authenticated
+  USING (
+    auth.uid() = employer_id
+    OR auth.uid() = employee_id
+    OR EXISTS (SELECT 1 FROM caregivers WHERE employer_id = shopping_expenses.employer_id AND profile_id = auth.uid())
+  );
+
+-- ── Fonctions ────────────────────────────────────────────────────────────────
+
+-- Enregistrement des achats d'une intervention par son auxiliaire
+CREATE FUNCTION public.save_shopping_expense(
+  p_shift_id uuid,
+  p_items    jsonb,
+  p_receipts jsonb
+)
+RETURNS public.shopping_expenses
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_contract contracts;
+  v_amount   numeric(10,2);
+  v_row      shopping_expenses;
+BEGIN
+  SELECT c.* INTO v_contract
+  FROM shifts s
+  JOIN contracts c ON c.id = s.contract_id
+  WHERE s.id = p_shift_id;
+
+  IF v_contract.id IS NULL THEN
+    RAISE EXCEPTION 'not_found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF auth.uid() IS NULL OR auth.uid() <> v_contract.employee_id THEN
+    RAISE EXCEPTION 'not_authorized' USING ERRCODE = '42501';
+  END IF;
+
+  IF jsonb_typeof(p_items) <> 'array' OR jsonb_typeof(p_receipts) <> 'array' THEN
+    RAISE EXCEPTION 'invalid_payload' USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_items) AS i
+    WHERE (i->>'price') IS NOT NULL AND (i->>'price')::numeric < 0
+  ) THEN
+    RAISE EXCEPTION 'invalid_payload' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT COALESCE(SUM((i->>'price')::numeric), 0) INTO v_amount
+  FROM jsonb_array_elements(p_items) AS i
+  WHERE (i->>'bought')::boolean AND (i->>'price') IS NOT NULL;
+
+  INSERT INTO shopping_expenses (shift_id, contract_id, employer_id, employee_id, items, receipts, amount_advanced)
+  VALUES (p_shift_id, v_contract.id, v_contract.employer_id, v_contract.employee_id, p_items, p_receipts, v_amount)
+  ON CONFLICT (shift_id) DO UPDATE SET
+    items           = EXCLUDED.items,
+    receipts        = EXCLUDED.receipts,
+    amount_advanced = EXCLUDED.amount_advanced,
+    updated_at      = now()
+  WHERE shopping_expenses.reimbursed_at IS NULL
+  RETURNING * INTO v_row;
+
+  IF v_row.id IS NULL THEN
+    RAISE EXCEPTION 'already_reimbursed' USING ERRCODE = '55000';
+  END IF;
+
+  RETURN v_row;
+END;
+$$;
+
+-- Remboursement, par l'employeur, des frais avancés d'un mois pour un contrat.
+-- Retourne le nombre d'interventions remboursées.
+CREATE FUNCTION public.mark_shopping_expenses_reimbursed(
+  p_contract_id uuid,
+  p_month       date
+)
+RETURNS integer
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM contracts WHERE id = p_contract_id AND employer_id = auth.uid()) THEN
+    RAISE EXCEPTION 'not_authorized' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE shopping_expenses e SET reimbursed_at = now(), updated_at = now()
+  FROM shifts s
+  WHERE s.id = e.shift_id
+    AND e.contract_id = p_contract_id
+    AND e.reimbursed_at IS NULL
+    AND e.amount_advanced > 0
+    AND s.date >= date_trunc('month', p_month)::date
+    AND s.date < (date_trunc('month', p_month) + interval '1 month')::date;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.save_shopping_expense(uuid, jsonb, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.mark_shopping_expenses_reimbursed(uuid, date) TO authenticated;
@@ -0,0 +1,82 @@
+-- Déplacements effectués pour le bénéficiaire pendant une intervention
+--
+-- Chaque trajet (courses, rendez-vous médical, sortie…) est saisi à la main
+-- en kilomètres : le géocodage reste facultatif, la saisie fonctionne hors
+-- ligne. `vehicle` indique le véhicule utilisé :
+--   employee    : véhicule personnel de l'auxiliaire → indemnité kilométrique
+--   beneficiary : véhicule du bénéficiaire → rien à rembourser
+--
+-- L'indemnité est calculée côté application avec le taux au kilomètre de
+-- l'employeur (`convention_settings.mileage_rate`) et figure dans le
+-- récapitulatif CESU comme frais non imposables, à côté du brut.
+
+ALTER TABLE convention_settings
+  ADD COLUMN mileage_rate numeric(5,3) NOT NULL DEFAULT 0.636
+    CHECK (mileage_rate >= 0 AND mileage_rate <= 5);
+
+COMMENT ON COLUMN convention_settings.mileage_rate IS 'Indemnité kilométrique (€/km) pour les trajets avec le véhicule de l''auxiliaire. Défaut : barème fiscal 5 CV, jusqu''à 5 000 km/an.';
+
+CREATE TABLE public.shift_trips (
+  id          uuid          PRIMARY KEY DEFAULT gen_random_uuid(),
+  shift_id    uuid          NOT NULL REFERENCES public.shifts(id) ON DELETE CASCADE,
+  -- Renseignés depuis l'intervention (trigger ci-dessous)
+  contract_id uuid          NOT NULL REFERENCES public.contracts(id) ON DELETE CASCADE,
+  employer_id uuid          NOT NULL REFERENCES public.employers(profile_id) ON DELETE CASCADE,
+  employee_id uuid          NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  purpose     text          NOT NULL CHECK (char_length(btrim(purpose)) BETWEEN 1 AND 200),
+  distance_km numeric(6,1)  NOT NULL CHECK (distance_km > 0 AND distance_km <= 1000),
+  vehicle     text          NOT NULL CHECK (vehicle IN ('employee', 'beneficiary')),
+  created_by  uuid          NOT NULL DEFAULT auth.uid() REFERENCES public.profiles(id),
+  created_at  timestamptz   NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_shift_trips_shift ON public.shift_trips (shift_id);
+CREATE INDEX idx_shift_trips_contract ON public.shift_trips (contract_id);
+
+-- Contrat, employeur et auxiliaire viennent toujours de l'intervention
+CREATE FUNCTION public.fill_shift_trip_parties()
+RETURNS trigger
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+BEGIN
+  SELECT c.id, c.employer_id, c.employee_id
+  INTO NEW.contract_id, NEW.employer_id, NEW.employee_id
+  FROM shifts s
+  JOIN contracts c ON c.id = s.contract_id
+  WHERE s.id = NEW.shift_id;
+
+  IF NEW.contract_id IS NULL THEN
+    RAISE EXCEPTION 'not_found' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER fill_shift_trip_parties
+  BEFORE INSERT ON public.shift_trips
+  FOR EACH ROW EXECUTE FUNCTION public.fill_shift_trip_parties();
+
+ALTER TABLE public.shift_trips ENABLE ROW LEVEL SECURITY;
+
+-- Employeur, auxiliaire du contrat et aidants de l'employeur
+CREATE POLICY "Contract parties can read shift trips"
+  ON public.shift_trips FOR SELECT TO authenticated
+  USING (
+    auth.uid() = employer_id
+    OR auth.uid() = employee_id
+    OR EXISTS (SELECT 1 FROM caregivers WHERE employer_id = shift_trips.employer_id AND profile_id = auth.uid())
+  );
+
+-- Saisie par l'auxiliaire ou l'employeur (vérifiée après le trigger)
+CREATE POLICY "Contract parties can record shift trips"
+  ON public.shift_trips FOR INSERT TO authenticated
+  WITH CHECK (
+    created_by = auth.uid()
+    AND (auth.uid() = employee_id OR auth.uid() = employer_id)
+  );
+
+CREATE POLICY "Authors can delete their shift trips"
+  ON public.shift_trips FOR DELETE TO authenticated
+  USING (created_by = auth.uid());
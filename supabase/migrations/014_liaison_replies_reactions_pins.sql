@@ -0,0 +1,162 @@
+-- Cahier de liaison : réponses, réactions et messages épinglés
+--
+-- Trois colonnes sur `liaison_messages`, pour que les changements passent
+-- par le même flux realtime que les messages (UPDATE sur la ligne) :
+--   reply_to_id : message cité (même conversation), NULL si supprimé
+--   reactions   : { "👍": ["<user_id>", …], … } — un utilisateur par emoji au plus une fois
+--   pinned_at / pinned_by : épinglage. Dans le fil d'équipe, les messages
+--                 épinglés servent de consignes permanentes.
+--
+-- La policy UPDATE de liaison_messages est réservée à l'expéditeur : les
+-- réactions et l'épinglage passent donc par des fonctions SECURITY DEFINER
+-- qui vérifient l'accès à la conversation.
+
+ALTER TABLE public.liaison_messages
+  ADD COLUMN reply_to_id uuid REFERENCES public.liaison_messages(id) ON DELETE SET NULL,
+  ADD COLUMN reactions   jsonb NOT NULL DEFAULT '{}'::jsonb CHECK (jsonb_typeof(reactions) = 'object'),
+  ADD COLUMN pinned_at   timestamptz,
+  ADD COLUMN pinned_by   uuid REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_liaison_messages_pinned
+  ON public.liaison_messages (conversation_id, pinned_at DESC)
+  WHERE pinned_at IS NOT NULL;
+
+-- ── Réponses : le message cité doit appartenir à la même conversation ───────
+
+CREATE FUNCTION public.check_liaison_reply_conversation()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public', 'pg_temp'
+AS $$
+BEGIN
+  IF NEW.reply_to_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM liaison_messages
+    WHERE id = NEW.reply_to_id
+      AND conversation_id IS NOT DISTINCT FROM NEW.conversation_id
+  ) THEN
+    RAISE EXCEPTION 'reply_to_other_conversation' USING ERRCODE = '23514';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER liaison_messages_check_reply
+  BEFORE INSERT OR UPDATE OF reply_to_id ON public.liaison_messages
+  FOR EACH ROW EXECUTE FUNCTION public.check_liaison_reply_conversation();
+
+-- ── Accès à une conversation (même logique que mark_liaison_messages_read) ──
+
+CREATE FUNCTION public.can_access_liaison_conversation(p_conversation_id uuid)
+RETURNS boolean
+LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM conversations c
+    WHERE c.id = p_conversation_id
+      AND (
+        c.employer_id = auth.uid()
+        OR auth.uid() = ANY(c.participant_ids)
+        OR EXISTS (
+          SELECT 1 FROM contracts
+          WHERE contracts.employer_id = c.employer_id
+            AND contracts.employee_id = auth.uid()
+        )
+        OR EXISTS (
+          SELECT 1 FROM caregivers
+          WHERE caregivers.employer_id = c.employer_id
+            AND caregivers.profile_id = auth.uid()
+        )
+      )
+  );
+$$;
+
+-- ── Réactions ────────────────────────────────────────────────────────────────
+
+-- Ajoute ou retire la réaction de l'utilisateur courant. Renvoie les réactions à jour.
+CREATE FUNCTION public.toggle_liaison_reaction(
+  p_message_id uuid,
+  p_emoji      text
+)
+RETURNS jsonb
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_user_id   text := auth.uid()::text;
+  v_message   liaison_messages;
+  v_users     jsonb;
+  v_reactions jsonb;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Non authentifié' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_emoji IS NULL OR char_length(p_emoji) NOT BETWEEN 1 AND 16 THEN
+    RAISE EXCEPTION 'invalid_emoji' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_message FROM liaison_messages WHERE id = p_message_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT can_access_liaison_conversation(v_message.conversation_id) THEN
+    RAISE EXCEPTION 'not_authorized' USING ERRCODE = '42501';
+  END IF;
+
+  v_reactions := COALESCE(v_message.reactions, '{}'::jsonb);
+  v_users := COALESCE(v_reactions -> p_emoji, '[]'::jsonb);
+
+  IF v_users ? v_user_id THEN
+    v_users := v_users - v_user_id;
+  ELSE
+    v_users := v_users || to_jsonb(v_user_id);
+  END IF;
+
+  IF jsonb_array_length(v_users) = 0 THEN
+    v_reactions := v_reactions - p_emoji;
+  ELSE
+    v_reactions := jsonb_set(v_reactions, ARRAY[p_emoji], v_users);
+  END IF;
+
+  UPDATE liaison_messages SET reactions = v_reactions WHERE id = p_message_id;
+  RETURN v_reactions;
+END;
+$$;
+
+-- ── Épinglage ────────────────────────────────────────────────────────────────
+
+-- Fil d'équipe : réservé à l'employeur (consignes). Conversation privée : aux participants.
+CREATE FUNCTION public.set_liaison_message_pinned(
+  p_message_id uuid,
+  p_pinned     boolean
+)
+RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_conv    conversations;
+BEGIN
+  SELECT c.* INTO v_conv
+  FROM liaison_messages m
+  JOIN conversations c ON c.id = m.conversation_id
+  WHERE m.id = p_message_id;
+
+  IF NOT FOUND
+    OR (v_conv.type = 'team' AND v_conv.employer_id IS DISTINCT FROM v_user_id)
+    OR (v_conv.type = 'private' AND NOT (v_user_id = ANY(v_conv.participant_ids)))
+  THEN
+    RAISE EXCEPTION 'not_authorized' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE liaison_messages
+  SET pinned_at = CASE WHEN p_pinned THEN now() END,
+      pinned_by = CASE WHEN p_pinned THEN v_user_id END
+  WHERE id = p_message_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.can_access_liaison_conversation(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.toggle_liaison_reaction(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_liaison_message_pinned(uuid, boolean) TO authenticated;
@@ -0,0 +1,93 @@
+-- Messagerie : archivage, sourdine et niveau de notification par conversation
+--
+-- Réglages propres à chaque utilisateur (une conversation est partagée) :
+--   archived_at        : archivage. La conversation revient d'elle-même dès
+--                        qu'un message plus récent arrive (comparaison faite
+--                        à la lecture, aucune remise à zéro nécessaire).
+--   muted / muted_until: sourdine, jusqu'à muted_until ou, si NULL, jusqu'à
+--                        réactivation. Les fils en sourdine ne comptent pas
+--                        dans le badge de messages non lus.
+--   notification_level : all | mentions | none
+--
+-- createNotification (client) et l'Edge Function send-push-notification
+-- consultent conversation_notification_allowed avant d'envoyer : l'expéditeur
+-- ne peut pas lire les réglages du destinataire (RLS), d'où la fonction
+-- SECURITY DEFINER qui ne renvoie qu'un booléen.
+
+CREATE TABLE public.conversation_user_settings (
+  conversation_id    uuid NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  user_id            uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  archived_at        timestamptz,
+  muted              boolean NOT NULL DEFAULT false,
+  muted_until        timestamptz,
+  notification_level text NOT NULL DEFAULT 'all'
+    CHECK (notification_level IN ('all', 'mentions', 'none')),
+  updated_at         timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (conversation_id, user_id)
+);
+
+CREATE INDEX idx_conversation_user_settings_user
+  ON public.conversation_user_settings (user_id);
+
+CREATE TRIGGER update_conversation_user_settings_updated_at
+  BEFORE UPDATE ON public.conversation_user_settings
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.conversation_user_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own conversation settings"
+  ON public.conversation_user_settings FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert own conversation settings"
+  ON public.conversation_user_settings FOR INSERT
+  WITH CHECK (user_id = auth.uid() AND public.can_access_liaison_conversation(conversation_id));
+
+CREATE POLICY "Users can update own conversation settings"
+  ON public.conversation_user_settings FOR UPDATE
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own conversation settings"
+  ON public.conversation_user_settings FOR DELETE
+  USING (user_id = auth.uid());
+
+-- ── Faut-il notifier ce destinataire pour un message de la conversation ? ───
+
+CREATE FUNCTION public.conversation_notification_allowed(
+  p_user_id         uuid,
+  p_conversation_id uuid,
+  p_mentioned       boolean DEFAULT false
+)
+RETURNS boolean
+LANGUAGE plpgsql STABLE SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_settings conversation_user_settings;
+BEGIN
+  -- Appel client : l'appelant doit avoir accès à la conversation.
+  -- Appel service_role (Edge Function) : auth.uid() est NULL.
+  IF auth.uid() IS NOT NULL AND NOT can_access_liaison_conversation(p_conversation_id) THEN
+    RAISE EXCEPTION 'not_authorized' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_settings
+  FROM conversation_user_settings
+  WHERE conversation_id = p_conversation_id AND user_id = p_user_id;
+
+  IF NOT FOUND THEN
+    RETURN true;
+  END IF;
+
+  IF v_settings.muted AND (v_settings.muted_until IS NULL OR v_settings.muted_until > now()) THEN
+    RETURN false;
+  END IF;
+
+  RETURN v_settings.notification_level = 'all'
+    OR (v_settings.notification_level = 'mentions' AND COALESCE(p_mentioned, false));
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.conversation_notification_allowed(uuid, uuid, boolean) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.conversation_notification_allowed(uuid, uuid, boolean) TO authenticated, service_role;
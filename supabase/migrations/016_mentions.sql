@@ -0,0 +1,21 @@
+-- Mentions @Prénom dans la messagerie et le cahier de liaison
+--
+-- Les personnes mentionnées sont résolues côté client (autocomplétion sur
+-- l'équipe de l'employeur) et enregistrées avec le message ou l'entrée :
+--   mentioned_user_ids : profils mentionnés, notifiés en priorité haute.
+--
+-- Dans la messagerie, une mention passe le niveau de notification
+-- « mentions uniquement » de la conversation (conversation_notification_allowed,
+-- p_mentioned). Les index GIN servent les filtres « Mentions » (@>).
+
+ALTER TABLE public.liaison_messages
+  ADD COLUMN mentioned_user_ids uuid[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.log_entries
+  ADD COLUMN mentioned_user_ids uuid[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX idx_liaison_messages_mentions
+  ON public.liaison_messages USING gin (mentioned_user_ids);
+
+CREATE INDEX idx_log_entries_mentions
+  ON public.log_entries USING gin (mentioned_user_ids);
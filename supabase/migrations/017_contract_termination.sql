@@ -0,0 +1,172 @@
+-- Fin de contrat : motif, préavis, solde de tout compte et documents remis
+--
+-- contract_terminations : une ligne par contrat rompu, avec le détail des
+-- sommes calculées à la rupture (salaire restant dû, indemnité compensatrice
+-- de congés payés, de préavis, de licenciement ou de rupture conventionnelle).
+-- Elle est créée par record_contract_termination, qui clôt le contrat dans la
+-- même transaction.
+--
+-- employee_documents : documents remis à l'auxiliaire (reçu pour solde de
+-- tout compte, certificat de travail, attestation France Travail), classés
+-- dans son espace Documents. Les PDF sont stockés dans le bucket privé
+-- "employee-documents", sous <employer_id>/<employee_id>/<contract_id>/.
+
+CREATE TABLE public.contract_terminations (
+  id                   uuid          PRIMARY KEY DEFAULT gen_random_uuid(),
+  contract_id          uuid          NOT NULL UNIQUE REFERENCES public.contracts(id) ON DELETE CASCADE,
+  employer_id          uuid          NOT NULL REFERENCES public.employers(profile_id) ON DELETE CASCADE,
+  employee_id          uuid          NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  reason               text          NOT NULL
+    CHECK (reason IN ('resignation', 'dismissal', 'mutual_agreement', 'employer_death')),
+  notification_date    date          NOT NULL,
+  end_date             date          NOT NULL CHECK (end_date >= notification_date),
+  notice_waived        boolean       NOT NULL DEFAULT false,
+  seniority_months     integer       NOT NULL CHECK (seniority_months >= 0),
+  reference_salary     numeric(10,2) NOT NULL CHECK (reference_salary >= 0),
+  remaining_leave_days numeric(5,1)  NOT NULL DEFAULT 0,
+  outstanding_salary   numeric(10,2) NOT NULL DEFAULT 0 CHECK (outstanding_salary >= 0),
+  leave_indemnity      numeric(10,2) NOT NULL DEFAULT 0 CHECK (leave_indemnity >= 0),
+  notice_indemnity     numeric(10,2) NOT NULL DEFAULT 0 CHECK (notice_indemnity >= 0),
+  severance_pay        numeric(10,2) NOT NULL DEFAULT 0 CHECK (severance_pay >= 0),
+  total_amount         numeric(10,2) NOT NULL DEFAULT 0 CHECK (total_amount >= 0),
+  created_at           timestamptz   NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_contract_terminations_employer ON public.contract_terminations (employer_id);
+
+ALTER TABLE public.contract_terminations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Contract parties can read terminations"
+  ON public.contract_terminations FOR SELECT TO authenticated
+  USING (auth.uid() = employer_id OR auth.uid() = employee_id);
+
+-- Enregistre la rupture et clôt le contrat à sa date de fin. Réservée à
+-- l'employeur du contrat. Erreurs levées : not_authorized, already_terminated.
+CREATE FUNCTION public.record_contract_termination(
+  p_contract_id uuid,
+  p_reason text,
+  p_notification_date date,
+  p_end_date date,
+  p_notice_waived boolean,
+  p_seniority_months integer,
+  p_reference_salary numeric,
+  p_remaining_leave_days numeric,
+  p_outstanding_salary numeric,
+  p_leave_indemnity numeric,
+  p_notice_indemnity numeric,
+  p_severance_pay numeric,
+  p_total_amount numeric
+)
+RETURNS public.contract_terminations
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_contract public.contracts;
+  v_termination public.contract_terminations;
+BEGIN
+  SELECT * INTO v_contract FROM contracts WHERE id = p_contract_id FOR UPDATE;
+
+  IF NOT FOUND OR v_contract.employer_id <> auth.uid() OR v_contract.employee_id IS NULL THEN
+    RAISE EXCEPTION 'not_authorized' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_contract.status = 'terminated'
+    OR EXISTS (SELECT 1 FROM contract_terminations WHERE contract_id = p_contract_id) THEN
+    RAISE EXCEPTION 'already_terminated' USING ERRCODE = '55000';
+  END IF;
+
+  INSERT INTO contract_terminations (
+    contract_id, employer_id, employee_id, reason, notification_date, end_date,
+    notice_waived, seniority_months, reference_salary, remaining_leave_days,
+    outstanding_salary, leave_indemnity, notice_indemnity, severance_pay, total_amount
+  )
+  VALUES (
+    p_contract_id, v_contract.employer_id, v_contract.employee_id, p_reason,
+    p_notification_date, p_end_date, p_notice_waived, p_seniority_months,
+    p_reference_salary, p_remaining_leave_days, p_outstanding_salary,
+    p_leave_indemnity, p_notice_indemnity, p_severance_pay, p_total_amount
+  )
+  RETURNING * INTO v_termination;
+
+  UPDATE contracts
+  SET status = 'terminated', end_date = p_end_date
+  WHERE id = p_contract_id;
+
+  RETURN v_termination;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_contract_termination(
+  uuid, text, date, date, boolean, integer, numeric, numeric, numeric, numeric, numeric, numeric, numeric
+) TO authenticated;
+
+-- ── Documents remis à l'auxiliaire ──────────────────────────────────────────
+
+CREATE TABLE public.employee_documents (
+  id            uuid        PRIMARY KEY DEFAULT gen_random_uuid(),
+  employer_id   uuid        NOT NULL REFERENCES public.employers(profile_id) ON DELETE CASCADE,
+  employee_id   uuid        NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  contract_id   uuid        NOT NULL REFERENCES public.contracts(id) ON DELETE CASCADE,
+  document_type text        NOT NULL
+    CHECK (document_type IN ('final_pay_statement', 'work_certificate', 'france_travail_certificate')),
+  title         text        NOT NULL,
+  storage_path  text        NOT NULL,
+  created_at    timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (contract_id, document_type)
+);
+
+CREATE INDEX idx_employee_documents_employee ON public.employee_documents (employee_id);
+
+ALTER TABLE public.employee_documents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Document parties can read employee documents"
+  ON public.employee_documents FOR SELECT TO authenticated
+  USING (auth.uid() = employer_id OR auth.uid() = employee_id);
+
+CREATE POLICY "Employers can file employee documents"
+  ON public.employee_documents FOR INSERT TO authenticated
+  WITH CHECK (
+    auth.uid() = employer_id
+    AND EXISTS (
+      SELECT 1 FROM contracts
+      WHERE id = employee_documents.contract_id
+        AND employer_id = auth.uid()
+        AND employee_id = employee_documents.employee_id
+    )
+  );
+
+CREATE POLICY "Employers can replace employee documents"
+  ON public.employee_documents FOR UPDATE TO authenticated
+  USING (auth.uid() = employer_id)
+  WITH CHECK (auth.uid() = employer_id);
+
+-- ── Stockage ────────────────────────────────────────────────────────────────
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('employee-documents', 'employee-documents', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Employers can upload employee documents"
+  ON storage.objects FOR INSERT TO authenticated
+  WITH CHECK (
+    bucket_id = 'employee-documents'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Employers can overwrite employee documents"
+  ON storage.objects FOR UPDATE TO authenticated
+  USING (
+    bucket_id = 'employee-documents'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Document parties can download employee documents"
+  ON storage.objects FOR SELECT TO authenticated
+  USING (
+    bucket_id = 'employee-documents'
+    AND (
+      (storage.foldername(name))[1] = auth.uid()::text
+      OR (storage.foldername(name))[2] = auth.uid()::text
+    )
+  );
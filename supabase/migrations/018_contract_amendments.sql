@@ -0,0 +1,128 @@
+-- Avenants : conditions du contrat versionnées par date d'effet
+--
+-- Jusqu'ici, modifier les heures, le taux horaire ou le taux PAS écrasait les
+-- colonnes de `contracts` : les mois passés étaient recalculés avec les
+-- nouvelles valeurs. Chaque version des conditions est désormais conservée
+-- dans `contract_amendments` avec sa date d'effet et son motif ; la première
+-- reprend le contrat initial. Le calcul de paie retient la version en
+-- vigueur à la date de chaque intervention.
+--
+-- Les colonnes de `contracts` restent le reflet des conditions en vigueur
+-- aujourd'hui, pour les écrans qui n'ont pas besoin de l'historique : un
+-- avenant daté dans le futur y est reporté par `apply_due_contract_amendments`,
+-- exécutée chaque heure (pg_cron) et qui retient la date du jour à Paris.
+--
+-- L'avenant signé (PDF, facultatif) est rangé avec les documents de
+-- l'auxiliaire : bucket "employee-documents", sous
+-- <employer_id>/<employee_id>/<contract_id>/avenants/.
+
+CREATE TABLE public.contract_amendments (
+  id                   uuid          PRIMARY KEY DEFAULT gen_random_uuid(),
+  contract_id          uuid          NOT NULL REFERENCES public.contracts(id) ON DELETE CASCADE,
+  employer_id          uuid          NOT NULL REFERENCES public.employers(profile_id) ON DELETE CASCADE,
+  effective_date       date          NOT NULL,
+  weekly_hours         numeric(5,2)  NOT NULL CHECK (weekly_hours > 0),
+  hourly_rate          numeric(10,2) NOT NULL CHECK (hourly_rate > 0),
+  pas_rate             numeric(5,4)  NOT NULL DEFAULT 0 CHECK (pas_rate >= 0 AND pas_rate <= 1),
+  reason               text          NOT NULL CHECK (char_length(btrim(reason)) BETWEEN 1 AND 500),
+  signed_document_path text,
+  created_by           uuid          DEFAULT auth.uid() REFERENCES public.profiles(id),
+  created_at           timestamptz   NOT NULL DEFAULT now(),
+  UNIQUE (contract_id, effective_date)
+);
+
+CREATE INDEX idx_contract_amendments_contract ON public.contract_amendments (contract_id, effective_date);
+
+-- Version initiale des contrats existants
+INSERT INTO public.contract_amendments (contract_id, employer_id, effective_date, weekly_hours, hourly_rate, pas_rate, reason, created_by)
+SELECT id, employer_id, start_date, weekly_hours, hourly_rate, pas_rate, 'Contrat initial', NULL
+FROM public.contracts
+WHERE contract_category = 'employment'
+  AND weekly_hours > 0
+  AND hourly_rate > 0
+ON CONFLICT (contract_id, effective_date) DO NOTHING;
+
+-- Version initiale des nouveaux contrats
+CREATE FUNCTION public.create_initial_contract_amendment()
+RETURNS trigger
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+BEGIN
+  IF NEW.contract_category = 'employment' AND NEW.weekly_hours > 0 AND NEW.hourly_rate > 0 THEN
+    INSERT INTO contract_amendments (contract_id, employer_id, effective_date, weekly_hours, hourly_rate, pas_rate, reason)
+    VALUES (NEW.id, NEW.employer_id, NEW.start_date, NEW.weekly_hours, NEW.hourly_rate, NEW.pas_rate, 'Contrat initial')
+    ON CONFLICT (contract_id, effective_date) DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER create_initial_contract_amendment
+  AFTER INSERT ON public.contracts
+  FOR EACH ROW EXECUTE FUNCTION public.create_initial_contract_amendment();
+
+ALTER TABLE public.contract_amendments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Contract parties can read amendments"
+  ON public.contract_amendments FOR SELECT TO authenticated
+  USING (
+    auth.uid() = employer_id
+    OR EXISTS (SELECT 1 FROM contracts WHERE id = contract_amendments.contract_id AND employee_id = auth.uid())
+  );
+
+-- L'historique n'est jamais réécrit : ni mise à jour ni suppression
+CREATE POLICY "Employers can amend their contracts"
+  ON public.contract_amendments FOR INSERT TO authenticated
+  WITH CHECK (
+    auth.uid() = employer_id
+    AND created_by = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM contracts
+      WHERE id = contract_amendments.contract_id
+        AND employer_id = auth.uid()
+        AND contract_category = 'employment'
+        AND effective_date >= contracts.start_date
+    )
+  );
+
+-- ─── Entrée en vigueur des avenants ──────────────────────────────────────────
+-- Reporte sur `contracts` les conditions de la dernière version en vigueur
+-- (date d'effet atteinte, heure de Paris) quand elles diffèrent. Idempotente.
+-- Renvoie le nombre de contrats mis à jour.
+CREATE FUNCTION public.apply_due_contract_amendments()
+RETURNS integer
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  UPDATE contracts c
+  SET weekly_hours = a.weekly_hours,
+      hourly_rate = a.hourly_rate,
+      pas_rate = a.pas_rate
+  FROM (
+    SELECT DISTINCT ON (contract_id) contract_id, weekly_hours, hourly_rate, pas_rate
+    FROM contract_amendments
+    WHERE effective_date <= (now() AT TIME ZONE 'Europe/Paris')::date
+    ORDER BY contract_id, effective_date DESC
+  ) a
+  WHERE c.id = a.contract_id
+    AND (c.weekly_hours, c.hourly_rate, c.pas_rate) IS DISTINCT FROM (a.weekly_hours, a.hourly_rate, a.pas_rate);
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- Réservée à la tâche planifiée
+REVOKE EXECUTE ON FUNCTION public.apply_due_contract_amendments() FROM PUBLIC, anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+
+SELECT cron.schedule(
+  'apply-due-contract-amendments',
+  '5 * * * *',
+  'SELECT public.apply_due_contract_amendments()'
+);
@@ -0,0 +1,373 @@
+-- Signature électronique des contrats, avenants et relevés d'heures
+--
+-- L'employeur génère le PDF du document et le soumet à la signature : le PDF
+-- est déposé dans le bucket "employee-documents"
+-- (<employer_id>/<employee_id>/<contract_id>/signatures/) et son empreinte
+-- SHA-256 est enregistrée avec la demande. Chaque partie signe (tracé ou nom
+-- saisi) après avoir recalculé l'empreinte du PDF qu'elle a sous les yeux :
+-- une signature n'est acceptée que si cette empreinte est identique à celle
+-- de la demande. L'horodatage est celui du serveur.
+--
+-- Un relevé d'heures ne peut être soumis à la signature qu'une fois
+-- contresigné (mois verrouillé, cf. 005_monthly_timesheets.sql).
+--
+-- Une fois les deux signatures recueillies, le dernier signataire dépose le
+-- PDF scellé (document + certificat de signature) puis appelle la fonction
+-- Edge `seal-signature-request`, qui calcule elle-même l'empreinte du PDF
+-- déposé avant de clore la demande (`signed`) : `seal_signature_request`
+-- est réservée au service_role. Les signatures ne sont jamais modifiées ni
+-- supprimées.
+
+ALTER TABLE public.audit_logs DROP CONSTRAINT audit_logs_action_check;
+ALTER TABLE public.audit_logs ADD CONSTRAINT audit_logs_action_check
+  CHECK (action = ANY (ARRAY['read', 'create', 'update', 'delete', 'grant_consent', 'revoke_consent', 'sign']));
+
+CREATE TABLE public.signature_requests (
+  id                 uuid        PRIMARY KEY DEFAULT gen_random_uuid(),
+  employer_id        uuid        NOT NULL REFERENCES public.employers(profile_id) ON DELETE CASCADE,
+  employee_id        uuid        NOT NULL REFERENCES public.employees(profile_id) ON DELETE CASCADE,
+  contract_id        uuid        NOT NULL REFERENCES public.contracts(id) ON DELETE CASCADE,
+  amendment_id       uuid        REFERENCES public.contract_amendments(id) ON DELETE CASCADE,
+  timesheet_id       uuid        REFERENCES public.timesheets(id) ON DELETE CASCADE,
+  document_type      text        NOT NULL CHECK (document_type IN ('contract', 'amendment', 'timesheet')),
+  title              text        NOT NULL,
+  -- Instantané des données du document, pour sceller un PDF identique
+  document_data      jsonb       NOT NULL,
+  document_hash      text        NOT NULL CHECK (document_hash ~ '^[0-9a-f]{64}$'),
+  document_path      text        NOT NULL,
+  status             text        NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'signed', 'cancelled')),
+  sealed_path        text,
+  sealed_hash        text        CHECK (sealed_hash ~ '^[0-9a-f]{64}$'),
+  employer_signed_at timestamptz,
+  employee_signed_at timestamptz,
+  last_reminded_at   timestamptz,
+  created_at         timestamptz NOT NULL DEFAULT now(),
+  updated_at         timestamptz NOT NULL DEFAULT now(),
+  completed_at       timestamptz,
+  CHECK ((document_type = 'amendment') = (amendment_id IS NOT NULL)),
+  CHECK ((document_type = 'timesheet') = (timesheet_id IS NOT NULL))
+);
+
+-- Une seule demande en cours par document
+CREATE UNIQUE INDEX idx_signature_requests_pending
+  ON public.signature_requests (contract_id, document_type, COALESCE(amendment_id, timesheet_id, '00000000-0000-0000-0000-000000000000'::uuid))
+  WHERE status = 'pending';
+
+-- PDF scellé du relevé signé électroniquement
+ALTER TABLE public.timesheets ADD COLUMN signed_document_path text;
+
+CREATE INDEX idx_signature_requests_contract ON public.signature_requests (contract_id, created_at DESC);
+
+CREATE TABLE public.document_signatures (
+  id             uuid        PRIMARY KEY DEFAULT gen_random_uuid(),
+  request_id     uuid        NOT NULL REFERENCES public.signature_requests(id) ON DELETE CASCADE,
+  signer_id      uuid        NOT NULL REFERENCES public.profiles(id),
+  signer_role    text        NOT NULL CHECK (signer_role IN ('employer', 'employee')),
+  signer_name    text        NOT NULL CHECK (char_length(btrim(signer_name)) BETWEEN 1 AND 200),
+  method         text        NOT NULL CHECK (method IN ('drawn', 'typed')),
+  signature_data text        NOT NULL CHECK (char_length(signature_data) <= 500000),
+  document_hash  text        NOT NULL,
+  consent_text   text        NOT NULL,
+  user_agent     text,
+  signed_at      timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (request_id, signer_role)
+);
+
+ALTER TABLE public.signature_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.document_signatures ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signature parties can read requests"
+  ON public.signature_requests FOR SELECT TO authenticated
+  USING (auth.uid() = employer_id OR auth.uid() = employee_id);
+
+-- L'aidant qui gère les documents de l'employeur suit les signatures
+CREATE POLICY "Caregivers with export access can read signature requests"
+  ON public.signature_requests FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM caregivers c
+      WHERE c.employer_id = signature_requests.employer_id
+        AND c.profile_id = auth.uid()
+        AND (c.permissions ->> 'canExportData') = 'true'
+    )
+  );
+
+CREATE POLICY "Employers can request signatures"
+  ON public.signature_requests FOR INSERT TO authenticated
+  WITH CHECK (
+    auth.uid() = employer_id
+    AND status = 'pending'
+    AND employer_signed_at IS NULL
+    AND employee_signed_at IS NULL
+    AND sealed_path IS NULL
+    AND EXISTS (
+      SELECT 1 FROM contracts
+      WHERE id = signature_requests.contract_id
+        AND employer_id = auth.uid()
+        AND employee_id = signature_requests.employee_id
+        AND contract_category = 'employment'
+    )
+    AND (
+      amendment_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM contract_amendments
+        WHERE id = signature_requests.amendment_id AND contract_id = signature_requests.contract_id
+      )
+    )
+    AND (
+      timesheet_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM timesheets
+        WHERE id = signature_requests.timesheet_id
+          AND contract_id = signature_requests.contract_id
+          AND status = 'locked'
+      )
+    )
+  );
+
+CREATE POLICY "Signature parties can read signatures"
+  ON public.document_signatures FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM signature_requests r
+      WHERE r.id = document_signatures.request_id
+        AND (auth.uid() = r.employer_id OR auth.uid() = r.employee_id)
+    )
+  );
+
+-- Le dernier signataire peut être le salarié : il dépose alors le PDF scellé,
+-- uniquement dans le dossier d'une demande en cours qui le concerne
+CREATE POLICY "Employees can upload sealed documents"
+  ON storage.objects FOR INSERT TO authenticated
+  WITH CHECK (
+    bucket_id = 'employee-documents'
+    AND (storage.foldername(name))[2] = auth.uid()::text
+    AND (storage.foldername(name))[4] = 'signatures'
+    AND EXISTS (
+      SELECT 1 FROM public.signature_requests r
+      WHERE r.employee_id = auth.uid()
+        AND r.status = 'pending'
+        AND r.employer_id::text = (storage.foldername(name))[1]
+        AND r.contract_id::text = (storage.foldername(name))[3]
+    )
+  );
+
+-- ─── Signature ───────────────────────────────────────────────────────────────
+
+-- Signature d'une partie. Erreurs levées : not_authorized, not_pending,
+-- already_signed, document_changed, consent_required.
+CREATE FUNCTION public.sign_document(
+  p_request_id uuid,
+  p_method text,
+  p_signature_data text,
+  p_signer_name text,
+  p_document_hash text,
+  p_consent_text text,
+  p_user_agent text DEFAULT NULL
+)
+RETURNS public.signature_requests
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_request public.signature_requests;
+  v_role text;
+BEGIN
+  SELECT * INTO v_request FROM signature_requests WHERE id = p_request_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'not_authorized' USING ERRCODE = '42501';
+  END IF;
+
+  v_role := CASE auth.uid()
+    WHEN v_request.employer_id THEN 'employer'
+    WHEN v_request.employee_id THEN 'employee'
+  END;
+
+  IF v_role IS NULL THEN
+    RAISE EXCEPTION 'not_authorized' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_request.status <> 'pending' THEN
+    RAISE EXCEPTION 'not_pending' USING ERRCODE = '55000';
+  END IF;
+
+  IF (v_role = 'employer' AND v_request.employer_signed_at IS NOT NULL)
+     OR (v_role = 'employee' AND v_request.employee_signed_at IS NOT NULL) THEN
+    RAISE EXCEPTION 'already_signed' USING ERRCODE = '55000';
+  END IF;
+
+  IF p_document_hash IS DISTINCT FROM v_request.document_hash THEN
+    RAISE EXCEPTION 'document_changed' USING ERRCODE = '22023';
+  END IF;
+
+  IF coalesce(btrim(p_consent_text), '') = '' OR coalesce(btrim(p_signer_name), '') = '' THEN
+    RAISE EXCEPTION 'consent_required' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO document_signatures (
+    request_id, signer_id, signer_role, signer_name, method, signature_data,
+    document_hash, consent_text, user_agent
+  )
+  VALUES (
+    p_request_id, auth.uid(), v_role, btrim(p_signer_name), p_method, p_signature_data,
+    p_document_hash, p_consent_text, p_user_agent
+  );
+
+  UPDATE signature_requests
+  SET employer_signed_at = CASE WHEN v_role = 'employer' THEN now() ELSE employer_signed_at END,
+      employee_signed_at = CASE WHEN v_role = 'employee' THEN now() ELSE employee_signed_at END,
+      updated_at = now()
+  WHERE id = p_request_id
+  RETURNING * INTO v_request;
+
+  RETURN v_request;
+END;
+$$;
+
+-- Dépôt du PDF scellé après la dernière signature, pour le compte d'une
+-- partie (`p_sealer_id`). Appelée uniquement par la fonction Edge
+-- `seal-signature-request`, qui a authentifié la partie et calculé
+-- l'empreinte à partir du PDF stocké. Le PDF doit avoir été déposé dans le
+-- dossier de signatures du contrat.
+-- Erreurs levées : not_authorized, not_fully_signed, invalid_sealed_document.
+CREATE FUNCTION public.seal_signature_request(
+  p_request_id uuid,
+  p_sealer_id uuid,
+  p_sealed_path text,
+  p_sealed_hash text
+)
+RETURNS public.signature_requests
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_request public.signature_requests;
+  v_prefix text;
+BEGIN
+  SELECT * INTO v_request FROM signature_requests
+  WHERE id = p_request_id AND p_sealer_id IN (employer_id, employee_id)
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'not_authorized' USING ERRCODE = '42501';
+  END IF;
+
+  -- Déjà scellé : rien à faire
+  IF v_request.status = 'signed' THEN
+    RETURN v_request;
+  END IF;
+
+  v_prefix := v_request.employer_id || '/' || v_request.employee_id || '/' || v_request.contract_id || '/signatures/';
+
+  IF v_request.status <> 'pending'
+     OR v_request.employer_signed_at IS NULL
+     OR v_request.employee_signed_at IS NULL THEN
+    RAISE EXCEPTION 'not_fully_signed' USING ERRCODE = '55000';
+  END IF;
+
+  IF p_sealed_hash IS NULL OR p_sealed_hash !~ '^[0-9a-f]{64}$'
+     OR p_sealed_path IS NULL
+     OR left(p_sealed_path, length(v_prefix)) <> v_prefix
+     OR NOT EXISTS (
+       SELECT 1 FROM storage.objects
+       WHERE bucket_id = 'employee-documents' AND name = p_sealed_path
+     ) THEN
+    RAISE EXCEPTION 'invalid_sealed_document' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE signature_requests
+  SET status = 'signed',
+      sealed_path = p_sealed_path,
+      sealed_hash = p_sealed_hash,
+      completed_at = now(),
+      updated_at = now()
+  WHERE id = p_request_id
+  RETURNING * INTO v_request;
+
+  -- Avenant : le PDF scellé devient l'avenant signé
+  IF v_request.amendment_id IS NOT NULL THEN
+    UPDATE contract_amendments
+    SET signed_document_path = p_sealed_path
+    WHERE id = v_request.amendment_id;
+  END IF;
+
+  -- Relevé d'heures : le PDF scellé devient le relevé signé
+  IF v_request.timesheet_id IS NOT NULL THEN
+    UPDATE timesheets
+    SET signed_document_path = p_sealed_path, updated_at = now()
+    WHERE id = v_request.timesheet_id;
+  END IF;
+
+  RETURN v_request;
+END;
+$$;
+
+-- Relance du signataire en attente, au plus une fois par jour.
+-- Retourne false si une relance a déjà été faite dans les 24 dernières heures.
+-- Erreurs levées : not_authorized, not_pending.
+CREATE FUNCTION public.record_signature_reminder(p_request_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_request public.signature_requests;
+BEGIN
+  SELECT * INTO v_request FROM signature_requests
+  WHERE id = p_request_id AND auth.uid() IN (employer_id, employee_id)
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'not_authorized' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_request.status <> 'pending' THEN
+    RAISE EXCEPTION 'not_pending' USING ERRCODE = '55000';
+  END IF;
+
+  IF v_request.last_reminded_at IS NOT NULL AND v_request.last_reminded_at > now() - interval '24 hours' THEN
+    RETURN false;
+  END IF;
+
+  UPDATE signature_requests SET last_reminded_at = now(), updated_at = now() WHERE id = p_request_id;
+  RETURN true;
+END;
+$$;
+
+-- Annulation par l'employeur tant que le document n'est pas scellé.
+-- Erreurs levées : not_authorized, not_pending.
+CREATE FUNCTION public.cancel_signature_request(p_request_id uuid)
+RETURNS public.signature_requests
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_request public.signature_requests;
+BEGIN
+  SELECT * INTO v_request FROM signature_requests
+  WHERE id = p_request_id AND employer_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'not_authorized' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_request.status <> 'pending' THEN
+    RAISE EXCEPTION 'not_pending' USING ERRCODE = '55000';
+  END IF;
+
+  UPDATE signature_requests
+  SET status = 'cancelled', updated_at = now()
+  WHERE id = p_request_id
+  RETURNING * INTO v_request;
+
+  RETURN v_request;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.sign_document(uuid, text, text, text, text, text, text) TO authenticated;
+REVOKE ALL ON FUNCTION public.seal_signature_request(uuid, uuid, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.seal_signature_request(uuid, uuid, text, text) TO service_role;
+GRANT EXECUTE ON FUNCTION public.record_signature_reminder(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_signature_request(uuid) TO authenticated;
@@ -0,0 +1,243 @@
+-- Clôture des années de congés et report du reliquat
+--
+-- Une année de congés court du 1er juin N au 31 mai N+1 (`leave_year`
+-- "N-N+1"). Au premier accès à un solde d'une année commencée, la RPC
+-- `rollover_leave_year` ouvre cette année et clôt la précédente :
+--   1. le solde de l'année précédente est arrêté (acquis recalculé sur
+--      l'année complète) puis gelé : `closed_at` renseigné, plus aucune
+--      modification possible ;
+--   2. les jours de fractionnement (congés pris hors mai-octobre) sont
+--      crédités sur la nouvelle année ;
+--   3. le reliquat est reporté selon la politique de l'employeur
+--      (`convention_settings.leave_carry_over_policy`) :
+--        carry_all : tout le reliquat est reporté (défaut)
+--        capped    : report plafonné à `leave_carry_over_cap` jours
+--        expire    : le reliquat est perdu
+--      Un solde négatif (congés pris par anticipation) est toujours reporté.
+--
+-- Chaque étape est tracée dans `leave_balance_events`, consultable par
+-- l'employeur et le salarié. La RPC est idempotente : une année ouverte
+-- (`opened_at`) n'est plus retraitée.
+
+ALTER TABLE convention_settings
+  ADD COLUMN leave_carry_over_policy text NOT NULL DEFAULT 'carry_all'
+    CHECK (leave_carry_over_policy IN ('carry_all', 'capped', 'expire')),
+  ADD COLUMN leave_carry_over_cap numeric(4,1) NOT NULL DEFAULT 6
+    CHECK (leave_carry_over_cap >= 0 AND leave_carry_over_cap <= 30);
+
+COMMENT ON COLUMN convention_settings.leave_carry_over_policy IS 'Sort du reliquat de congés à la clôture de l''année : carry_all (reporté), capped (reporté dans la limite de leave_carry_over_cap), expire (perdu).';
+COMMENT ON COLUMN convention_settings.leave_carry_over_cap IS 'Nombre maximal de jours reportés avec la politique capped.';
+
+ALTER TABLE public.leave_balances
+  ADD COLUMN opened_at timestamptz,
+  ADD COLUMN closed_at timestamptz;
+
+COMMENT ON COLUMN public.leave_balances.opened_at IS 'Clôture de l''année précédente traitée (report, fractionnement).';
+COMMENT ON COLUMN public.leave_balances.closed_at IS 'Année clôturée : le solde est gelé.';
+
+CREATE TABLE public.leave_balance_events (
+  id          uuid         PRIMARY KEY DEFAULT gen_random_uuid(),
+  contract_id uuid         NOT NULL REFERENCES public.contracts(id) ON DELETE CASCADE,
+  employer_id uuid         NOT NULL REFERENCES public.employers(profile_id) ON DELETE CASCADE,
+  employee_id uuid         NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  -- Année dont le solde est affecté
+  leave_year  text         NOT NULL,
+  event_type  text         NOT NULL CHECK (event_type IN ('year_closed', 'carry_over', 'expiry', 'fractionnement')),
+  days        numeric(5,2) NOT NULL,
+  details     jsonb        NOT NULL DEFAULT '{}'::jsonb,
+  created_by  uuid         REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at  timestamptz  NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_leave_balance_events_contract ON public.leave_balance_events (contract_id, created_at DESC);
+
+ALTER TABLE public.leave_balance_events ENABLE ROW LEVEL SECURITY;
+
+-- Écriture réservée à rollover_leave_year (SECURITY DEFINER)
+CREATE POLICY "Leave balance parties can read events"
+  ON public.leave_balance_events FOR SELECT TO authenticated
+  USING (auth.uid() = employer_id OR auth.uid() = employee_id);
+
+-- ─── Gel des années clôturées ────────────────────────────────────────────────
+
+CREATE FUNCTION public.guard_closed_leave_balance()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public', 'pg_temp'
+AS $$
+BEGIN
+  IF OLD.closed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'leave_year_closed' USING ERRCODE = '55000';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_closed_leave_balance
+  BEFORE UPDATE ON public.leave_balances
+  FOR EACH ROW EXECUTE FUNCTION public.guard_closed_leave_balance();
+
+-- ─── Bascule d'année ─────────────────────────────────────────────────────────
+-- Ouvre `p_leave_year` (solde initialisé au besoin) et, si l'année a commencé,
+-- clôt l'année précédente. Renvoie le solde de `p_leave_year`.
+CREATE FUNCTION public.rollover_leave_year(p_contract_id uuid, p_leave_year text)
+RETURNS public.leave_balances
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $_$
+DECLARE
+  v_balance public.leave_balances;
+  v_previous public.leave_balances;
+  v_start_year integer;
+  v_previous_year text;
+  v_previous_start date;
+  v_previous_end date;
+  v_contract_start date;
+  v_contract_end date;
+  v_policy text;
+  v_cap numeric;
+  v_working_days integer;
+  v_acquired numeric;
+  v_remaining numeric;
+  v_carried numeric;
+  v_expired numeric;
+  v_days_outside integer;
+  v_fractionnement integer;
+BEGIN
+  -- Contrôles d'accès et de format : cf. initialize_leave_balance
+  v_balance := public.initialize_leave_balance(p_contract_id, p_leave_year);
+
+  v_start_year := split_part(p_leave_year, '-', 1)::int;
+  IF make_date(v_start_year, 6, 1) > CURRENT_DATE THEN
+    RETURN v_balance;
+  END IF;
+
+  SELECT * INTO v_balance FROM leave_balances
+  WHERE contract_id = p_contract_id AND leave_year = p_leave_year
+  FOR UPDATE;
+
+  IF v_balance.opened_at IS NOT NULL OR v_balance.closed_at IS NOT NULL THEN
+    RETURN v_balance;
+  END IF;
+
+  v_previous_year := (v_start_year - 1) || '-' || v_start_year;
+  v_previous_start := make_date(v_start_year - 1, 6, 1);
+  v_previous_end := make_date(v_start_year, 5, 31);
+
+  SELECT * INTO v_previous FROM leave_balances
+  WHERE contract_id = p_contract_id AND leave_year = v_previous_year
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_previous.closed_at IS NOT NULL THEN
+    UPDATE leave_balances SET opened_at = now(), updated_at = now()
+    WHERE id = v_balance.id
+    RETURNING * INTO v_balance;
+    RETURN v_balance;
+  END IF;
+
+  SELECT start_date, end_date INTO v_contract_start, v_contract_end
+  FROM contracts WHERE id = p_contract_id;
+
+  -- Acquis arrêté sur l'année complète (même règle que calculateAcquiredDays).
+  -- Reprise manuelle : les mois saisis couvrent la période jusqu'à la reprise,
+  -- on y ajoute ce qui a été acquis depuis.
+  IF v_previous.is_manual_init THEN
+    v_working_days := public.count_working_days(
+      v_previous.created_at::date + 1,
+      LEAST(v_previous_end, COALESCE(v_contract_end, v_previous_end))
+    );
+    v_acquired := LEAST(v_previous.acquired_days + CEIL((v_working_days / 24) * 2.5), 30);
+  ELSE
+    v_working_days := public.count_working_days(
+      GREATEST(v_contract_start, v_previous_start),
+      LEAST(v_previous_end, COALESCE(v_contract_end, v_previous_end))
+    );
+    v_acquired := GREATEST(v_previous.acquired_days, LEAST(CEIL((v_working_days / 24) * 2.5), 30));
+  END IF;
+
+  v_remaining := v_acquired + v_previous.adjustment_days - v_previous.taken_days;
+
+  -- Fractionnement (port de calculateFractionnement) : jours ouvrables de
+  -- congés validés de l'année pris hors période principale (mai-octobre)
+  SELECT COUNT(*)::integer INTO v_days_outside
+  FROM absences a
+  CROSS JOIN LATERAL generate_series(a.start_date, a.end_date, '1 day'::interval) AS d
+  WHERE a.employee_id = v_previous.employee_id
+    AND a.absence_type = 'vacation'
+    AND a.status = 'approved'
+    AND a.leave_year = v_previous_year
+    AND EXTRACT(ISODOW FROM d) BETWEEN 1 AND 6
+    AND EXTRACT(MONTH FROM d) NOT BETWEEN 5 AND 10;
+
+  v_fractionnement := CASE
+    WHEN v_days_outside >= 6 THEN 2
+    WHEN v_days_outside >= 3 THEN 1
+    ELSE 0
+  END;
+
+  SELECT leave_carry_over_policy, leave_carry_over_cap INTO v_policy, v_cap
+  FROM convention_settings WHERE profile_id = v_previous.employer_id;
+  v_policy := COALESCE(v_policy, 'carry_all');
+  v_cap := COALESCE(v_cap, 6);
+
+  v_carried := CASE
+    WHEN v_remaining <= 0 OR v_policy = 'carry_all' THEN v_remaining
+    WHEN v_policy = 'capped' THEN LEAST(v_remaining, v_cap)
+    ELSE 0
+  END;
+  v_expired := v_remaining - v_carried;
+
+  UPDATE leave_balances
+  SET acquired_days = v_acquired, closed_at = now(), updated_at = now()
+  WHERE id = v_previous.id;
+
+  UPDATE leave_balances
+  SET adjustment_days = adjustment_days + v_carried + v_fractionnement,
+      opened_at = now(),
+      updated_at = now()
+  WHERE id = v_balance.id
+  RETURNING * INTO v_balance;
+
+  INSERT INTO leave_balance_events (contract_id, employer_id, employee_id, leave_year, event_type, days, details, created_by)
+  VALUES (
+    p_contract_id, v_previous.employer_id, v_previous.employee_id, v_previous_year, 'year_closed', v_remaining,
+    jsonb_build_object(
+      'acquiredDays', v_acquired,
+      'takenDays', v_previous.taken_days,
+      'adjustmentDays', v_previous.adjustment_days
+    ),
+    auth.uid()
+  );
+
+  IF v_expired > 0 THEN
+    INSERT INTO leave_balance_events (contract_id, employer_id, employee_id, leave_year, event_type, days, details, created_by)
+    VALUES (
+      p_contract_id, v_previous.employer_id, v_previous.employee_id, v_previous_year, 'expiry', -v_expired,
+      jsonb_build_object('policy', v_policy, 'cap', v_cap),
+      auth.uid()
+    );
+  END IF;
+
+  IF v_carried <> 0 THEN
+    INSERT INTO leave_balance_events (contract_id, employer_id, employee_id, leave_year, event_type, days, details, created_by)
+    VALUES (
+      p_contract_id, v_previous.employer_id, v_previous.employee_id, p_leave_year, 'carry_over', v_carried,
+      jsonb_build_object('fromLeaveYear', v_previous_year, 'policy', v_policy, 'cap', v_cap),
+      auth.uid()
+    );
+  END IF;
+
+  IF v_fractionnement > 0 THEN
+    INSERT INTO leave_balance_events (contract_id, employer_id, employee_id, leave_year, event_type, days, details, created_by)
+    VALUES (
+      p_contract_id, v_previous.employer_id, v_previous.employee_id, p_leave_year, 'fractionnement', v_fractionnement,
+      jsonb_build_object('fromLeaveYear', v_previous_year, 'daysOutsideMainPeriod', v_days_outside),
+      auth.uid()
+    );
+  END IF;
+
+  RETURN v_balance;
+END;
+$_$;
+
+GRANT EXECUTE ON FUNCTION public.rollover_leave_year(uuid, text) TO authenticated;
@@ -0,0 +1,335 @@
+-- Acquisition des congés payés selon les absences
+--
+-- Jusqu'ici, tout jour ouvrable depuis le début du contrat comptait comme
+-- travaillé. L'acquisition tient désormais compte des absences validées,
+-- selon leur assimilation à du travail effectif (port de
+-- LEAVE_ACCRUAL_RULES / calculateLeaveAccrual côté TS) :
+--   vacation, family_event, training : assimilés (Art. L3141-5, L3142-2, L6321-2)
+--   maternity, work_accident         : assimilés sans limite (Art. L3141-5 2° et 5°)
+--   sick                             : 2 j de CP par mois au lieu de 2,5 (coef. 0,8),
+--                                      dans la limite de 24 j par an (Art. L3141-5-1)
+--   unavailable                      : non déduite, l'indisponibilité déclarée ne
+--                                      fait perdre aucun travail prévu
+--   unpaid_leave, emergency          : non assimilés, aucun droit acquis
+--
+-- Les types unpaid_leave, maternity et work_accident sont ajoutés : ils
+-- étaient jusqu'ici confondus avec vacation et sick à la saisie. Leurs
+-- libellés sont ajoutés à l'index de recherche des absences (cf. 008).
+
+ALTER TABLE public.absences
+  DROP CONSTRAINT IF EXISTS absences_absence_type_check;
+
+ALTER TABLE public.absences
+  ADD CONSTRAINT absences_absence_type_check
+  CHECK (absence_type IN (
+    'sick',
+    'vacation',
+    'family_event',
+    'training',
+    'unavailable',
+    'emergency',
+    'unpaid_leave',
+    'maternity',
+    'work_accident'
+  ));
+
+-- Libellés des types d'absence (cf. ABSENCE_TYPE_LABELS)
+DROP INDEX public.idx_absences_search;
+ALTER TABLE public.absences DROP COLUMN search_vector;
+ALTER TABLE public.absences
+  ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+    public.fts_fr_document(
+      reason,
+      CASE absence_type
+        WHEN 'sick' THEN 'Arrêt maladie'
+        WHEN 'vacation' THEN 'Congés payés'
+        WHEN 'family_event' THEN 'Événement familial'
+        WHEN 'training' THEN 'Congé formation'
+        WHEN 'unavailable' THEN 'Indisponibilité'
+        WHEN 'emergency' THEN 'Urgence personnelle'
+        WHEN 'unpaid_leave' THEN 'Congé sans solde'
+        WHEN 'maternity' THEN 'Congé maternité / paternité'
+        WHEN 'work_accident' THEN 'Accident du travail'
+      END
+    )
+  ) STORED;
+CREATE INDEX idx_absences_search ON public.absences USING gin (search_vector);
+
+-- ─── Jours de travail effectif ───────────────────────────────────────────────
+-- Jours ouvrables (lun-sam) entre deux dates incluses, pondérés par
+-- l'absence validée qui couvre chaque jour (la plus ancienne en cas de
+-- chevauchement). Le plafond maladie (24 j de CP = 230,4 jours effectifs)
+-- s'apprécie sur la période demandée, soit une année de congés.
+CREATE FUNCTION public.count_effective_working_days(p_employee_id uuid, p_start date, p_end date)
+RETURNS numeric
+LANGUAGE plpgsql STABLE
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_type text;
+  v_counted numeric;
+  v_effective numeric := 0;
+  v_sick numeric := 0;
+BEGIN
+  FOR v_type IN
+    SELECT (
+      SELECT a.absence_type FROM absences a
+      WHERE a.employee_id = p_employee_id
+        AND a.status = 'approved'
+        AND d::date BETWEEN a.start_date AND a.end_date
+      ORDER BY a.start_date
+      LIMIT 1
+    )
+    FROM generate_series(p_start, p_end, '1 day'::interval) AS d
+    WHERE EXTRACT(ISODOW FROM d) BETWEEN 1 AND 6
+  LOOP
+    IF v_type IS NULL OR v_type IN ('vacation', 'family_event', 'training', 'maternity', 'work_accident', 'unavailable') THEN
+      v_effective := v_effective + 1;
+    ELSIF v_type = 'sick' THEN
+      v_counted := LEAST(0.8, 230.4 - v_sick);
+      v_sick := v_sick + v_counted;
+      v_effective := v_effective + v_counted;
+    END IF;
+  END LOOP;
+
+  RETURN v_effective;
+END;
+$$;
+
+-- ─── Initialisation du solde ─────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.initialize_leave_balance(p_contract_id uuid, p_leave_year text) RETURNS public.leave_balances
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public', 'pg_temp'
+    AS $_$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_employer_id uuid;
+  v_employee_id uuid;
+  v_contract_start date;
+  v_leave_year_start date;
+  v_effective_start date;
+  v_effective_days numeric;
+  v_acquired integer;
+  v_balance public.leave_balances;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Non authentifié' USING ERRCODE = '42501';
+  END IF;
+
+  -- Format attendu : "YYYY-YYYY" (cf. getLeaveYear côté TS).
+  IF p_leave_year !~ '^\d{4}-\d{4}$' THEN
+    RAISE EXCEPTION 'Format leave_year invalide' USING ERRCODE = '22023';
+  END IF;
+  v_leave_year_start := make_date(split_part(p_leave_year, '-', 1)::int, 6, 1);
+
+  SELECT employer_id, employee_id, start_date
+    INTO v_employer_id, v_employee_id, v_contract_start
+  FROM public.contracts
+  WHERE id = p_contract_id;
+
+  IF v_employer_id IS NULL THEN
+    RAISE EXCEPTION 'Contrat introuvable' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_user_id <> v_employer_id AND v_user_id <> v_employee_id THEN
+    RAISE EXCEPTION 'Accès refusé' USING ERRCODE = '42501';
+  END IF;
+
+  -- Port fidèle de calculateLeaveAccrual(TS) :
+  --   effectiveStart = max(contract.startDate, leaveYearStart)
+  --   effectiveDays  = jours ouvrables effectiveStart → now, pondérés par les absences
+  --   months         = floor(effectiveDays / 24)
+  --   acquired       = min(ceil(months * 2.5), 30)
+  v_effective_start := GREATEST(v_contract_start, v_leave_year_start);
+
+  IF v_effective_start > CURRENT_DATE THEN
+    v_acquired := 0;
+  ELSE
+    v_effective_days := public.count_effective_working_days(v_employee_id, v_effective_start, CURRENT_DATE);
+    v_acquired := LEAST(CEIL(FLOOR(v_effective_days / 24) * 2.5)::integer, 30);
+  END IF;
+
+  -- Idempotent : si une balance existe déjà, on ne touche pas et on la renvoie.
+  INSERT INTO public.leave_balances (
+    contract_id, employee_id, employer_id, leave_year,
+    acquired_days, taken_days, adjustment_days
+  ) VALUES (
+    p_contract_id, v_employee_id, v_employer_id, p_leave_year,
+    v_acquired, 0, 0
+  )
+  ON CONFLICT (contract_id, leave_year) DO NOTHING;
+
+  SELECT * INTO v_balance
+  FROM public.leave_balances
+  WHERE contract_id = p_contract_id AND leave_year = p_leave_year;
+
+  RETURN v_balance;
+END;
+$_$;
+
+-- ─── Bascule d'année ─────────────────────────────────────────────────────────
+-- Identique à la migration 020, l'acquis de l'année close étant désormais
+-- calculé sur les jours de travail effectif.
+CREATE OR REPLACE FUNCTION public.rollover_leave_year(p_contract_id uuid, p_leave_year text)
+RETURNS public.leave_balances
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $_$
+DECLARE
+  v_balance public.leave_balances;
+  v_previous public.leave_balances;
+  v_start_year integer;
+  v_previous_year text;
+  v_previous_start date;
+  v_previous_end date;
+  v_contract_start date;
+  v_contract_end date;
+  v_policy text;
+  v_cap numeric;
+  v_effective_days numeric;
+  v_acquired numeric;
+  v_remaining numeric;
+  v_carried numeric;
+  v_expired numeric;
+  v_days_outside integer;
+  v_fractionnement integer;
+BEGIN
+  -- Contrôles d'accès et de format : cf. initialize_leave_balance
+  v_balance := public.initialize_leave_balance(p_contract_id, p_leave_year);
+
+  v_start_year := split_part(p_leave_year, '-', 1)::int;
+  IF make_date(v_start_year, 6, 1) > CURRENT_DATE THEN
+    RETURN v_balance;
+  END IF;
+
+  SELECT * INTO v_balance FROM leave_balances
+  WHERE contract_id = p_contract_id AND leave_year = p_leave_year
+  FOR UPDATE;
+
+  IF v_balance.opened_at IS NOT NULL OR v_balance.closed_at IS NOT NULL THEN
+    RETURN v_balance;
+  END IF;
+
+  v_previous_year := (v_start_year - 1) || '-' || v_start_year;
+  v_previous_start := make_date(v_start_year - 1, 6, 1);
+  v_previous_end := make_date(v_start_year, 5, 31);
+
+  SELECT * INTO v_previous FROM leave_balances
+  WHERE contract_id = p_contract_id AND leave_year = v_previous_year
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_previous.closed_at IS NOT NULL THEN
+    UPDATE leave_balances SET opened_at = now(), updated_at = now()
+    WHERE id = v_balance.id
+    RETURNING * INTO v_balance;
+    RETURN v_balance;
+  END IF;
+
+  SELECT start_date, end_date INTO v_contract_start, v_contract_end
+  FROM contracts WHERE id = p_contract_id;
+
+  -- Acquis arrêté sur l'année complète (même règle que calculateLeaveAccrual).
+  -- Reprise manuelle : les mois saisis couvrent la période jusqu'à la reprise,
+  -- on y ajoute ce qui a été acquis depuis.
+  IF v_previous.is_manual_init THEN
+    v_effective_days := public.count_effective_working_days(
+      v_previous.employee_id,
+      v_previous.created_at::date + 1,
+      LEAST(v_previous_end, COALESCE(v_contract_end, v_previous_end))
+    );
+    v_acquired := LEAST(v_previous.acquired_days + CEIL(FLOOR(v_effective_days / 24) * 2.5), 30);
+  ELSE
+    v_effective_days := public.count_effective_working_days(
+      v_previous.employee_id,
+      GREATEST(v_contract_start, v_previous_start),
+      LEAST(v_previous_end, COALESCE(v_contract_end, v_previous_end))
+    );
+    v_acquired := GREATEST(v_previous.acquired_days, LEAST(CEIL(FLOOR(v_effective_days / 24) * 2.5), 30));
+  END IF;
+
+  v_remaining := v_acquired + v_previous.adjustment_days - v_previous.taken_days;
+
+  -- Fractionnement (port de calculateFractionnement) : jours ouvrables de
+  -- congés validés de l'année pris hors période principale (mai-octobre)
+  SELECT COUNT(*)::integer INTO v_days_outside
+  FROM absences a
+  CROSS JOIN LATERAL generate_series(a.start_date, a.end_date, '1 day'::interval) AS d
+  WHERE a.employee_id = v_previous.employee_id
+    AND a.absence_type = 'vacation'
+    AND a.status = 'approved'
+    AND a.leave_year = v_previous_year
+    AND EXTRACT(ISODOW FROM d) BETWEEN 1 AND 6
+    AND EXTRACT(MONTH FROM d) NOT BETWEEN 5 AND 10;
+
+  v_fractionnement := CASE
+    WHEN v_days_outside >= 6 THEN 2
+    WHEN v_days_outside >= 3 THEN 1
+    ELSE 0
+  END;
+
+  SELECT leave_carry_over_policy, leave_carry_over_cap INTO v_policy, v_cap
+  FROM convention_settings WHERE profile_id = v_previous.employer_id;
+  v_policy := COALESCE(v_policy, 'carry_all');
+  v_cap := COALESCE(v_cap, 6);
+
+  v_carried := CASE
+    WHEN v_remaining <= 0 OR v_policy = 'carry_all' THEN v_remaining
+    WHEN v_policy = 'capped' THEN LEAST(v_remaining, v_cap)
+    ELSE 0
+  END;
+  v_expired := v_remaining - v_carried;
+
+  UPDATE leave_balances
+  SET acquired_days = v_acquired, closed_at = now(), updated_at = now()
+  WHERE id = v_previous.id;
+
+  UPDATE leave_balances
+  SET adjustment_days = adjustment_days + v_carried + v_fractionnement,
+      opened_at = now(),
+      updated_at = now()
+  WHERE id = v_balance.id
+  RETURNING * INTO v_balance;
+
+  INSERT INTO leave_balance_events (contract_id, employer_id, employee_id, leave_year, event_type, days, details, created_by)
+  VALUES (
+    p_contract_id, v_previous.employer_id, v_previous.employee_id, v_previous_year, 'year_closed', v_remaining,
+    jsonb_build_object(
+      'acquiredDays', v_acquired,
+      'takenDays', v_previous.taken_days,
+      'adjustmentDays', v_previous.adjustment_days
+    ),
+    auth.uid()
+  );
+
+  IF v_expired > 0 THEN
+    INSERT INTO leave_balance_events (contract_id, employer_id, employee_id, leave_year, event_type, days, details, created_by)
+    VALUES (
+      p_contract_id, v_previous.employer_id, v_previous.employee_id, v_previous_year, 'expiry', -v_expired,
+      jsonb_build_object('policy', v_policy, 'cap', v_cap),
+      auth.uid()
+    );
+  END IF;
+
+  IF v_carried <> 0 THEN
+    INSERT INTO leave_balance_events (contract_id, employer_id, employee_id, leave_year, event_type, days, details, created_by)
+    VALUES (
+      p_contract_id, v_previous.employer_id, v_previous.employee_id, p_leave_year, 'carry_over', v_carried,
+      jsonb_build_object('fromLeaveYear', v_previous_year, 'policy', v_policy, 'cap', v_cap),
+      auth.uid()
+    );
+  END IF;
+
+  IF v_fractionnement > 0 THEN
+    INSERT INTO leave_balance_events (contract_id, employer_id, employee_id, leave_year, event_type, days, details, created_by)
+    VALUES (
+      p_contract_id, v_previous.employer_id, v_previous.employee_id, p_leave_year, 'fractionnement', v_fractionnement,
+      jsonb_build_object('fromLeaveYear', v_previous_year, 'daysOutsideMainPeriod', v_days_outside),
+      auth.uid()
+    );
+  END IF;
+
+  RETURN v_balance;
+END;
+$_$;
+